@@ -0,0 +1,4 @@
+// Required config for importing the services; tests never reach these
+process.env.DATABASE_URL ??= 'postgresql://test@localhost/test';
+process.env.APTOS_SELLER_ADDRESS ??= '0x1';
+process.env.OPENAI_API_KEY ??= 'test';
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "on_chain_workflows" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "ownerAddress" VARCHAR(66) NOT NULL,
+    "onChainId" BIGINT NOT NULL,
+    "graphHash" VARCHAR(64) NOT NULL,
+    "nodeIdMap" JSONB NOT NULL,
+    "registrationTxHash" VARCHAR(66) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "on_chain_workflows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "on_chain_workflows_registrationTxHash_key" ON "on_chain_workflows"("registrationTxHash");
+
+-- CreateIndex
+CREATE INDEX "on_chain_workflows_workflowId_ownerAddress_graphHash_idx" ON "on_chain_workflows"("workflowId", "ownerAddress", "graphHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "on_chain_workflows_ownerAddress_onChainId_key" ON "on_chain_workflows"("ownerAddress", "onChainId");
+
+-- AddForeignKey
+ALTER TABLE "on_chain_workflows" ADD CONSTRAINT "on_chain_workflows_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "workflow_runs" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "onChainWorkflowId" TEXT,
+    "status" "ExecutionStatus" NOT NULL DEFAULT 'PENDING',
+    "trigger" TEXT NOT NULL DEFAULT 'manual',
+    "txHash" VARCHAR(66),
+    "totalSteps" INTEGER,
+    "gasUsed" BIGINT,
+    "vmStatus" TEXT,
+    "errorMessage" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "workflow_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "workflow_run_steps" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "nodeId" BIGINT NOT NULL,
+    "canvasNodeId" TEXT,
+    "nodeType" INTEGER NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "errorCode" BIGINT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "workflow_run_steps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_runs_txHash_key" ON "workflow_runs"("txHash");
+
+-- CreateIndex
+CREATE INDEX "workflow_runs_workflowId_startedAt_idx" ON "workflow_runs"("workflowId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "workflow_runs_status_idx" ON "workflow_runs"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_run_steps_runId_sequence_key" ON "workflow_run_steps"("runId", "sequence");
+
+-- AddForeignKey
+ALTER TABLE "workflow_runs" ADD CONSTRAINT "workflow_runs_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workflow_runs" ADD CONSTRAINT "workflow_runs_onChainWorkflowId_fkey" FOREIGN KEY ("onChainWorkflowId") REFERENCES "on_chain_workflows"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workflow_run_steps" ADD CONSTRAINT "workflow_run_steps_runId_fkey" FOREIGN KEY ("runId") REFERENCES "workflow_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "workflow_runs" ADD COLUMN     "errorCode" TEXT,
+ADD COLUMN     "errorNodeId" TEXT;
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "ResumptionStatus" AS ENUM ('PENDING', 'HELD', 'PROCESSING', 'COMPLETED', 'CANCELLED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "workflow_resumptions" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "waitNodeId" TEXT NOT NULL,
+    "resumeNodeId" TEXT NOT NULL,
+    "resumeAt" TIMESTAMP(3) NOT NULL,
+    "status" "ResumptionStatus" NOT NULL DEFAULT 'PENDING',
+    "resumedRunId" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "workflow_resumptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "workflow_resumptions_status_resumeAt_idx" ON "workflow_resumptions"("status", "resumeAt");
+
+-- CreateIndex
+CREATE INDEX "workflow_resumptions_workflowId_idx" ON "workflow_resumptions"("workflowId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_resumptions_runId_waitNodeId_key" ON "workflow_resumptions"("runId", "waitNodeId");
+
+-- AddForeignKey
+ALTER TABLE "workflow_resumptions" ADD CONSTRAINT "workflow_resumptions_runId_fkey" FOREIGN KEY ("runId") REFERENCES "workflow_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workflow_resumptions" ADD CONSTRAINT "workflow_resumptions_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
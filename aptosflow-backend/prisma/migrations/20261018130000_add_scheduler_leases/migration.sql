@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "ScheduleFireStatus" AS ENUM ('FIRING', 'FIRED', 'SKIPPED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "schedule_fires" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "scheduledFor" TIMESTAMP(3) NOT NULL,
+    "status" "ScheduleFireStatus" NOT NULL DEFAULT 'FIRING',
+    "catchUp" BOOLEAN NOT NULL DEFAULT false,
+    "runId" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "schedule_fires_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "scheduler_leases" (
+    "name" TEXT NOT NULL,
+    "holderId" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduler_leases_pkey" PRIMARY KEY ("name")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "schedule_fires_runId_key" ON "schedule_fires"("runId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "schedule_fires_workflowId_scheduledFor_key" ON "schedule_fires"("workflowId", "scheduledFor");
+
+-- AddForeignKey
+ALTER TABLE "schedule_fires" ADD CONSTRAINT "schedule_fires_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "schedule_fires" ADD CONSTRAINT "schedule_fires_runId_fkey" FOREIGN KEY ("runId") REFERENCES "workflow_runs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "workflows" ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'UTC';
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "workflow_runs" ADD COLUMN     "idempotencyKey" TEXT;
+
+-- CreateTable
+CREATE TABLE "event_cursors" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "streamKey" TEXT NOT NULL,
+    "transactionVersion" BIGINT NOT NULL,
+    "eventIndex" INTEGER NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_cursors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_runs_idempotencyKey_key" ON "workflow_runs"("idempotencyKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_cursors_workflowId_streamKey_key" ON "event_cursors"("workflowId", "streamKey");
+
+-- AddForeignKey
+ALTER TABLE "event_cursors" ADD CONSTRAINT "event_cursors_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "price_watches" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "configKey" TEXT NOT NULL,
+    "conditionMet" BOOLEAN NOT NULL,
+    "lastPrice" DOUBLE PRECISION NOT NULL,
+    "checkedAt" TIMESTAMP(3) NOT NULL,
+    "lastFiredAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "price_watches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "price_watches_workflowId_key" ON "price_watches"("workflowId");
+
+-- AddForeignKey
+ALTER TABLE "price_watches" ADD CONSTRAINT "price_watches_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
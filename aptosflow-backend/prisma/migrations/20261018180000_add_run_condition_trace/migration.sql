@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "ExecutionStatus" ADD VALUE 'SKIPPED';
+
+-- AlterTable
+ALTER TABLE "workflow_runs" ADD COLUMN     "conditionTrace" JSONB;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "webhook_endpoints" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "token" VARCHAR(64) NOT NULL,
+    "secret" VARCHAR(64) NOT NULL,
+    "previousSecret" VARCHAR(64),
+    "previousExpiresAt" TIMESTAMP(3),
+    "lastDeliveryAt" TIMESTAMP(3),
+    "rotatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "webhook_endpoints_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webhook_endpoints_workflowId_key" ON "webhook_endpoints"("workflowId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webhook_endpoints_token_key" ON "webhook_endpoints"("token");
+
+-- AddForeignKey
+ALTER TABLE "webhook_endpoints" ADD CONSTRAINT "webhook_endpoints_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
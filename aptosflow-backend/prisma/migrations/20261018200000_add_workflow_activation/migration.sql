@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "workflows" ADD COLUMN     "activatedAt" TIMESTAMP(3),
+ALTER COLUMN "isActive" SET DEFAULT false;
+
+-- Workflows are armed by activation now; nothing had derived trigger
+-- settings before, so only workflows already marked ACTIVE stay armed
+UPDATE "workflows" SET "isActive" = false WHERE "executionStatus" <> 'ACTIVE';
+UPDATE "workflows" SET "activatedAt" = "updatedAt" WHERE "isActive" = true;
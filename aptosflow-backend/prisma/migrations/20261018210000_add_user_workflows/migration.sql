@@ -0,0 +1,23 @@
+-- DropForeignKey
+ALTER TABLE "workflows" DROP CONSTRAINT "workflows_promptId_fkey";
+
+-- AlterTable
+ALTER TABLE "workflows" ADD COLUMN     "name" VARCHAR(200) NOT NULL DEFAULT 'Untitled workflow',
+ADD COLUMN     "userId" TEXT,
+ALTER COLUMN "promptId" DROP NOT NULL;
+
+-- Every existing workflow belongs to the user of its prompt
+UPDATE "workflows" w SET "userId" = p."userId" FROM "prompts" p WHERE p."id" = w."promptId";
+UPDATE "workflows" w SET "name" = LEFT(COALESCE(NULLIF(w."workflowData"#>>'{metadata,name}', ''), p."promptText"), 200)
+FROM "prompts" p WHERE p."id" = w."promptId";
+
+ALTER TABLE "workflows" ALTER COLUMN "userId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "workflows_userId_updatedAt_idx" ON "workflows"("userId", "updatedAt");
+
+-- AddForeignKey
+ALTER TABLE "workflows" ADD CONSTRAINT "workflows_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workflows" ADD CONSTRAINT "workflows_promptId_fkey" FOREIGN KEY ("promptId") REFERENCES "prompts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "workflows" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "workflow_runs" ADD COLUMN     "version" INTEGER;
+
+-- CreateTable
+CREATE TABLE "workflow_versions" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "workflowData" JSONB NOT NULL,
+    "authorWallet" VARCHAR(66),
+    "message" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "workflow_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_versions_workflowId_version_key" ON "workflow_versions"("workflowId", "version");
+
+-- AddForeignKey
+ALTER TABLE "workflow_versions" ADD CONSTRAINT "workflow_versions_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- The graph stored so far becomes version 1 of each workflow
+INSERT INTO "workflow_versions" ("id", "workflowId", "version", "workflowData", "authorWallet", "message", "createdAt")
+SELECT gen_random_uuid()::text, w."id", 1, w."workflowData", u."walletAddress", 'Initial version', w."updatedAt"
+FROM "workflows" w JOIN "users" u ON u."id" = w."userId";
+
+UPDATE "workflows" SET "version" = 1;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "ResumptionStatus" ADD VALUE 'SUSPENDED';
@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "ActivationState" AS ENUM ('INACTIVE', 'ACTIVE', 'PAUSED');
+
+-- AlterTable
+ALTER TABLE "workflows" ADD COLUMN     "activationState" "ActivationState" NOT NULL DEFAULT 'INACTIVE';
+
+-- Activation was kept in executionStatus, which stopped mirroring runs once
+-- a workflow was activated: armed workflows are ACTIVE, and activated ones
+-- left PAUSED without an armed trigger were paused
+UPDATE "workflows" SET "activationState" = 'ACTIVE' WHERE "isActive" = true;
+UPDATE "workflows" SET "activationState" = 'PAUSED'
+WHERE "isActive" = false AND "activatedAt" IS NOT NULL AND "executionStatus" = 'PAUSED';
+
+-- executionStatus goes back to mirroring the latest run
+UPDATE "workflows" w SET "executionStatus" = COALESCE(
+  (SELECT r."status" FROM "workflow_runs" r WHERE r."workflowId" = w."id" ORDER BY r."startedAt" DESC LIMIT 1),
+  'DRAFT'
+)
+WHERE w."activatedAt" IS NOT NULL AND w."executionStatus" IN ('ACTIVE', 'PAUSED', 'CANCELLED');
@@ -30,6 +30,50 @@ const configSchema = z.object({
   // Rate Limiting
   rateLimitRequestsPerHour: z.coerce.number().default(1000), // Increased for development
   
+  // Wait-node resumption
+  resumeTickSeconds: z.coerce.number().positive().default(15),
+  
+  // Scheduler
+  schedulerTickSeconds: z.coerce.number().positive().default(15),
+  schedulerLeaseSeconds: z.coerce.number().positive().default(60),
+  // What to do with fires missed while no instance held the lease
+  schedulerMisfirePolicy: z.enum(['skip', 'run_once', 'run_all']).default('run_once'),
+  // Fires later than this are treated as missed
+  schedulerMisfireGraceSeconds: z.coerce.number().nonnegative().default(60),
+  
+  // Event trigger indexer
+  indexerPollSeconds: z.coerce.number().positive().default(10),
+  indexerMaxEventsPerPoll: z.coerce.number().int().positive().default(100),
+  // per_event runs once for every new event; per_poll runs once for all events seen in a poll
+  indexerBatchPolicy: z.enum(['per_event', 'per_poll']).default('per_event'),
+  // Where event triggers read events: the GraphQL indexer, a fullnode, or a recorded fixture file
+  eventSource: z.enum(['graphql', 'fullnode', 'fixture']).default('graphql'),
+  eventSourceScanTransactions: z.coerce.number().int().positive().default(1000),
+  eventFixturePath: z.string().optional(),
+  
+  // Price triggers
+  priceMonitorTickSeconds: z.coerce.number().positive().default(30),
+  // Minimum time between fires of one workflow, unless its trigger sets cooldownSeconds
+  priceCooldownSeconds: z.coerce.number().nonnegative().default(300),
+  // live reads each node's oracleProvider; mock serves deterministic prices for local runs
+  priceFeed: z.enum(['live', 'mock']).default('live'),
+  pythHermesUrl: z.string().url().default('https://hermes.pyth.network'),
+  switchboardAddress: z.string().default(''),
+  // Switchboard aggregator per token, e.g. "APT=0x…,BTC=0x…"
+  switchboardFeeds: z.string().default(''),
+  // Quotes older than this, or less certain than this fraction of the price, are rejected
+  priceMaxAgeSeconds: z.coerce.number().positive().default(60),
+  priceMaxConfidenceRatio: z.coerce.number().positive().default(0.02),
+  mockPrices: z.string().default('APT=10,BTC=60000,ETH=3000,SOL=150,USDC=1,USDT=1'),
+  mockPriceWavePercent: z.coerce.number().nonnegative().default(0),
+  mockPriceWaveSeconds: z.coerce.number().positive().default(600),
+  
+  // Webhook triggers
+  // Deliveries whose timestamp is further than this from now are rejected as replays
+  webhookToleranceSeconds: z.coerce.number().positive().default(300),
+  // How long the previous secret keeps working after a rotation
+  webhookSecretGraceSeconds: z.coerce.number().nonnegative().default(86400),
+  
   // CORS
   corsOrigin: z.string().default('http://localhost:3000'),
   
@@ -55,6 +99,30 @@ const parseConfig = () => {
       inngestSigningKey: process.env.INNGEST_SIGNING_KEY,
   // Rate limiting
   rateLimitRequestsPerHour: parseInt(process.env.RATE_LIMIT_REQUESTS_PER_HOUR || '1000', 10), // Increased for development
+      resumeTickSeconds: process.env.RESUME_TICK_SECONDS,
+      schedulerTickSeconds: process.env.SCHEDULER_TICK_SECONDS,
+      schedulerLeaseSeconds: process.env.SCHEDULER_LEASE_SECONDS,
+      schedulerMisfirePolicy: process.env.SCHEDULER_MISFIRE_POLICY,
+      schedulerMisfireGraceSeconds: process.env.SCHEDULER_MISFIRE_GRACE_SECONDS,
+      indexerPollSeconds: process.env.INDEXER_POLL_SECONDS,
+      indexerMaxEventsPerPoll: process.env.INDEXER_MAX_EVENTS_PER_POLL,
+      indexerBatchPolicy: process.env.INDEXER_BATCH_POLICY,
+      eventSource: process.env.EVENT_SOURCE,
+      eventSourceScanTransactions: process.env.EVENT_SOURCE_SCAN_TRANSACTIONS,
+      eventFixturePath: process.env.EVENT_FIXTURE_PATH,
+      priceMonitorTickSeconds: process.env.PRICE_MONITOR_TICK_SECONDS,
+      priceCooldownSeconds: process.env.PRICE_COOLDOWN_SECONDS,
+      priceFeed: process.env.PRICE_FEED,
+      pythHermesUrl: process.env.PYTH_HERMES_URL,
+      switchboardAddress: process.env.SWITCHBOARD_ADDRESS,
+      switchboardFeeds: process.env.SWITCHBOARD_FEEDS,
+      priceMaxAgeSeconds: process.env.PRICE_MAX_AGE_SECONDS,
+      priceMaxConfidenceRatio: process.env.PRICE_MAX_CONFIDENCE_RATIO,
+      mockPrices: process.env.MOCK_PRICES,
+      mockPriceWavePercent: process.env.MOCK_PRICE_WAVE_PERCENT,
+      mockPriceWaveSeconds: process.env.MOCK_PRICE_WAVE_SECONDS,
+      webhookToleranceSeconds: process.env.WEBHOOK_TOLERANCE_SECONDS,
+      webhookSecretGraceSeconds: process.env.WEBHOOK_SECRET_GRACE_SECONDS,
       corsOrigin: process.env.CORS_ORIGIN,
       skipPaymentInDev: process.env.SKIP_PAYMENT_IN_DEV,
     });
@@ -59,6 +59,56 @@ export type Prompt = Prisma.PromptModel
  * 
  */
 export type Workflow = Prisma.WorkflowModel
+/**
+ * Model WorkflowVersion
+ * 
+ */
+export type WorkflowVersion = Prisma.WorkflowVersionModel
+/**
+ * Model OnChainWorkflow
+ * 
+ */
+export type OnChainWorkflow = Prisma.OnChainWorkflowModel
+/**
+ * Model WorkflowRun
+ * 
+ */
+export type WorkflowRun = Prisma.WorkflowRunModel
+/**
+ * Model WorkflowRunStep
+ * 
+ */
+export type WorkflowRunStep = Prisma.WorkflowRunStepModel
+/**
+ * Model WorkflowResumption
+ * 
+ */
+export type WorkflowResumption = Prisma.WorkflowResumptionModel
+/**
+ * Model ScheduleFire
+ * 
+ */
+export type ScheduleFire = Prisma.ScheduleFireModel
+/**
+ * Model EventCursor
+ * 
+ */
+export type EventCursor = Prisma.EventCursorModel
+/**
+ * Model PriceWatch
+ * 
+ */
+export type PriceWatch = Prisma.PriceWatchModel
+/**
+ * Model WebhookEndpoint
+ * 
+ */
+export type WebhookEndpoint = Prisma.WebhookEndpointModel
+/**
+ * Model SchedulerLease
+ * 
+ */
+export type SchedulerLease = Prisma.SchedulerLeaseModel
 /**
  * Model RateLimit
  * 
@@ -271,6 +271,17 @@ export type JsonFilterBase<$PrismaModel = never> = {
   not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
 }
 
+export type IntFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntFilter<$PrismaModel> | number
+}
+
 export type EnumExecutionStatusFilter<$PrismaModel = never> = {
   equals?: $Enums.ExecutionStatus | Prisma.EnumExecutionStatusFieldRefInput<$PrismaModel>
   in?: $Enums.ExecutionStatus[] | Prisma.ListEnumExecutionStatusFieldRefInput<$PrismaModel>
@@ -278,6 +289,13 @@ export type EnumExecutionStatusFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumExecutionStatusFilter<$PrismaModel> | $Enums.ExecutionStatus
 }
 
+export type EnumActivationStateFilter<$PrismaModel = never> = {
+  equals?: $Enums.ActivationState | Prisma.EnumActivationStateFieldRefInput<$PrismaModel>
+  in?: $Enums.ActivationState[] | Prisma.ListEnumActivationStateFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ActivationState[] | Prisma.ListEnumActivationStateFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumActivationStateFilter<$PrismaModel> | $Enums.ActivationState
+}
+
 export type BoolFilter<$PrismaModel = never> = {
   equals?: boolean | Prisma.BooleanFieldRefInput<$PrismaModel>
   not?: Prisma.NestedBoolFilter<$PrismaModel> | boolean
@@ -310,6 +328,22 @@ export type JsonWithAggregatesFilterBase<$PrismaModel = never> = {
   _max?: Prisma.NestedJsonFilter<$PrismaModel>
 }
 
+export type IntWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntWithAggregatesFilter<$PrismaModel> | number
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _avg?: Prisma.NestedFloatFilter<$PrismaModel>
+  _sum?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedIntFilter<$PrismaModel>
+  _max?: Prisma.NestedIntFilter<$PrismaModel>
+}
+
 export type EnumExecutionStatusWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.ExecutionStatus | Prisma.EnumExecutionStatusFieldRefInput<$PrismaModel>
   in?: $Enums.ExecutionStatus[] | Prisma.ListEnumExecutionStatusFieldRefInput<$PrismaModel>
@@ -320,6 +354,16 @@ export type EnumExecutionStatusWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumExecutionStatusFilter<$PrismaModel>
 }
 
+export type EnumActivationStateWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ActivationState | Prisma.EnumActivationStateFieldRefInput<$PrismaModel>
+  in?: $Enums.ActivationState[] | Prisma.ListEnumActivationStateFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ActivationState[] | Prisma.ListEnumActivationStateFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumActivationStateWithAggregatesFilter<$PrismaModel> | $Enums.ActivationState
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumActivationStateFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumActivationStateFilter<$PrismaModel>
+}
+
 export type BoolWithAggregatesFilter<$PrismaModel = never> = {
   equals?: boolean | Prisma.BooleanFieldRefInput<$PrismaModel>
   not?: Prisma.NestedBoolWithAggregatesFilter<$PrismaModel> | boolean
@@ -328,31 +372,119 @@ export type BoolWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedBoolFilter<$PrismaModel>
 }
 
-export type IntFilter<$PrismaModel = never> = {
-  equals?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
-  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+export type IntNullableFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
   lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
   lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
   gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
   gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedIntFilter<$PrismaModel> | number
+  not?: Prisma.NestedIntNullableFilter<$PrismaModel> | number | null
 }
 
-export type IntWithAggregatesFilter<$PrismaModel = never> = {
-  equals?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
-  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+export type BigIntNullableFilter<$PrismaModel = never> = {
+  equals?: bigint | number | Prisma.BigIntFieldRefInput<$PrismaModel> | null
+  in?: bigint[] | number[] | Prisma.ListBigIntFieldRefInput<$PrismaModel> | null
+  notIn?: bigint[] | number[] | Prisma.ListBigIntFieldRefInput<$PrismaModel> | null
+  lt?: bigint | number | Prisma.BigIntFieldRefInput<$PrismaModel>
+  lte?: bigint | number | Prisma.BigIntFieldRefInput<$PrismaModel>
+  gt?: bigint | number | Prisma.BigIntFieldRefInput<$PrismaModel>
+  gte?: bigint | number | Prisma.BigIntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedBigIntNullableFilter<$PrismaModel> | bigint | number | null
+}
+
+export type IntNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
   lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
   lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
   gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
   gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedIntWithAggregatesFilter<$PrismaModel> | number
+  not?: Prisma.NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _avg?: Prisma.NestedFloatNullableFilter<$PrismaModel>
+  _sum?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedIntNullableFilter<$PrismaModel>
+}
+
+export type BigIntNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: bigint | number | Prisma.BigIntFieldRefInput<$PrismaModel> | null
+  in?: bigint[] | number[] | Prisma.ListBigIntFieldRefInput<$PrismaModel> | null
+  notIn?: bigint[] | number[] | Prisma.ListBigIntFieldRefInput<$PrismaModel> | null
+  lt?: bigint | number | Prisma.BigIntFieldRefInput<$PrismaModel>
+  lte?: bigint | number | Prisma.BigIntFieldRefInput<$PrismaModel>
+  gt?: bigint | number | Prisma.BigIntFieldRefInput<$PrismaModel>
+  gte?: bigint | number | Prisma.BigIntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedBigIntNullableWithAggregatesFilter<$PrismaModel> | bigint | number | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _avg?: Prisma.NestedFloatNullableFilter<$PrismaModel>
+  _sum?: Prisma.NestedBigIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedBigIntNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedBigIntNullableFilter<$PrismaModel>
+}
+
+export type EnumResumptionStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.ResumptionStatus | Prisma.EnumResumptionStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ResumptionStatus[] | Prisma.ListEnumResumptionStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ResumptionStatus[] | Prisma.ListEnumResumptionStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumResumptionStatusFilter<$PrismaModel> | $Enums.ResumptionStatus
+}
+
+export type EnumResumptionStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ResumptionStatus | Prisma.EnumResumptionStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ResumptionStatus[] | Prisma.ListEnumResumptionStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ResumptionStatus[] | Prisma.ListEnumResumptionStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumResumptionStatusWithAggregatesFilter<$PrismaModel> | $Enums.ResumptionStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumResumptionStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumResumptionStatusFilter<$PrismaModel>
+}
+
+export type EnumScheduleFireStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.ScheduleFireStatus | Prisma.EnumScheduleFireStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ScheduleFireStatus[] | Prisma.ListEnumScheduleFireStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ScheduleFireStatus[] | Prisma.ListEnumScheduleFireStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumScheduleFireStatusFilter<$PrismaModel> | $Enums.ScheduleFireStatus
+}
+
+export type EnumScheduleFireStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ScheduleFireStatus | Prisma.EnumScheduleFireStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ScheduleFireStatus[] | Prisma.ListEnumScheduleFireStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ScheduleFireStatus[] | Prisma.ListEnumScheduleFireStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumScheduleFireStatusWithAggregatesFilter<$PrismaModel> | $Enums.ScheduleFireStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumScheduleFireStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumScheduleFireStatusFilter<$PrismaModel>
+}
+
+export type FloatFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  in?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel>
+  notIn?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel>
+  lt?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedFloatFilter<$PrismaModel> | number
+}
+
+export type FloatWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  in?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel>
+  notIn?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel>
+  lt?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedFloatWithAggregatesFilter<$PrismaModel> | number
   _count?: Prisma.NestedIntFilter<$PrismaModel>
   _avg?: Prisma.NestedFloatFilter<$PrismaModel>
-  _sum?: Prisma.NestedIntFilter<$PrismaModel>
-  _min?: Prisma.NestedIntFilter<$PrismaModel>
-  _max?: Prisma.NestedIntFilter<$PrismaModel>
+  _sum?: Prisma.NestedFloatFilter<$PrismaModel>
+  _min?: Prisma.NestedFloatFilter<$PrismaModel>
+  _max?: Prisma.NestedFloatFilter<$PrismaModel>
 }
 
 export type NestedStringFilter<$PrismaModel = never> = {
@@ -592,6 +724,13 @@ export type NestedEnumExecutionStatusFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumExecutionStatusFilter<$PrismaModel> | $Enums.ExecutionStatus
 }
 
+export type NestedEnumActivationStateFilter<$PrismaModel = never> = {
+  equals?: $Enums.ActivationState | Prisma.EnumActivationStateFieldRefInput<$PrismaModel>
+  in?: $Enums.ActivationState[] | Prisma.ListEnumActivationStateFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ActivationState[] | Prisma.ListEnumActivationStateFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumActivationStateFilter<$PrismaModel> | $Enums.ActivationState
+}
+
 export type NestedBoolFilter<$PrismaModel = never> = {
   equals?: boolean | Prisma.BooleanFieldRefInput<$PrismaModel>
   not?: Prisma.NestedBoolFilter<$PrismaModel> | boolean
@@ -621,6 +760,22 @@ export type NestedJsonFilterBase<$PrismaModel = never> = {
   not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
 }
 
+export type NestedIntWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntWithAggregatesFilter<$PrismaModel> | number
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _avg?: Prisma.NestedFloatFilter<$PrismaModel>
+  _sum?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedIntFilter<$PrismaModel>
+  _max?: Prisma.NestedIntFilter<$PrismaModel>
+}
+
 export type NestedEnumExecutionStatusWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.ExecutionStatus | Prisma.EnumExecutionStatusFieldRefInput<$PrismaModel>
   in?: $Enums.ExecutionStatus[] | Prisma.ListEnumExecutionStatusFieldRefInput<$PrismaModel>
@@ -631,6 +786,16 @@ export type NestedEnumExecutionStatusWithAggregatesFilter<$PrismaModel = never>
   _max?: Prisma.NestedEnumExecutionStatusFilter<$PrismaModel>
 }
 
+export type NestedEnumActivationStateWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ActivationState | Prisma.EnumActivationStateFieldRefInput<$PrismaModel>
+  in?: $Enums.ActivationState[] | Prisma.ListEnumActivationStateFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ActivationState[] | Prisma.ListEnumActivationStateFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumActivationStateWithAggregatesFilter<$PrismaModel> | $Enums.ActivationState
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumActivationStateFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumActivationStateFilter<$PrismaModel>
+}
+
 export type NestedBoolWithAggregatesFilter<$PrismaModel = never> = {
   equals?: boolean | Prisma.BooleanFieldRefInput<$PrismaModel>
   not?: Prisma.NestedBoolWithAggregatesFilter<$PrismaModel> | boolean
@@ -639,20 +804,108 @@ export type NestedBoolWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedBoolFilter<$PrismaModel>
 }
 
-export type NestedIntWithAggregatesFilter<$PrismaModel = never> = {
-  equals?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
-  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+export type NestedBigIntNullableFilter<$PrismaModel = never> = {
+  equals?: bigint | number | Prisma.BigIntFieldRefInput<$PrismaModel> | null
+  in?: bigint[] | number[] | Prisma.ListBigIntFieldRefInput<$PrismaModel> | null
+  notIn?: bigint[] | number[] | Prisma.ListBigIntFieldRefInput<$PrismaModel> | null
+  lt?: bigint | number | Prisma.BigIntFieldRefInput<$PrismaModel>
+  lte?: bigint | number | Prisma.BigIntFieldRefInput<$PrismaModel>
+  gt?: bigint | number | Prisma.BigIntFieldRefInput<$PrismaModel>
+  gte?: bigint | number | Prisma.BigIntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedBigIntNullableFilter<$PrismaModel> | bigint | number | null
+}
+
+export type NestedIntNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
   lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
   lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
   gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
   gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedIntWithAggregatesFilter<$PrismaModel> | number
+  not?: Prisma.NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _avg?: Prisma.NestedFloatNullableFilter<$PrismaModel>
+  _sum?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedIntNullableFilter<$PrismaModel>
+}
+
+export type NestedFloatNullableFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.FloatFieldRefInput<$PrismaModel> | null
+  in?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel> | null
+  notIn?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel> | null
+  lt?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedFloatNullableFilter<$PrismaModel> | number | null
+}
+
+export type NestedBigIntNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: bigint | number | Prisma.BigIntFieldRefInput<$PrismaModel> | null
+  in?: bigint[] | number[] | Prisma.ListBigIntFieldRefInput<$PrismaModel> | null
+  notIn?: bigint[] | number[] | Prisma.ListBigIntFieldRefInput<$PrismaModel> | null
+  lt?: bigint | number | Prisma.BigIntFieldRefInput<$PrismaModel>
+  lte?: bigint | number | Prisma.BigIntFieldRefInput<$PrismaModel>
+  gt?: bigint | number | Prisma.BigIntFieldRefInput<$PrismaModel>
+  gte?: bigint | number | Prisma.BigIntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedBigIntNullableWithAggregatesFilter<$PrismaModel> | bigint | number | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _avg?: Prisma.NestedFloatNullableFilter<$PrismaModel>
+  _sum?: Prisma.NestedBigIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedBigIntNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedBigIntNullableFilter<$PrismaModel>
+}
+
+export type NestedEnumResumptionStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.ResumptionStatus | Prisma.EnumResumptionStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ResumptionStatus[] | Prisma.ListEnumResumptionStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ResumptionStatus[] | Prisma.ListEnumResumptionStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumResumptionStatusFilter<$PrismaModel> | $Enums.ResumptionStatus
+}
+
+export type NestedEnumResumptionStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ResumptionStatus | Prisma.EnumResumptionStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ResumptionStatus[] | Prisma.ListEnumResumptionStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ResumptionStatus[] | Prisma.ListEnumResumptionStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumResumptionStatusWithAggregatesFilter<$PrismaModel> | $Enums.ResumptionStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumResumptionStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumResumptionStatusFilter<$PrismaModel>
+}
+
+export type NestedEnumScheduleFireStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.ScheduleFireStatus | Prisma.EnumScheduleFireStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ScheduleFireStatus[] | Prisma.ListEnumScheduleFireStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ScheduleFireStatus[] | Prisma.ListEnumScheduleFireStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumScheduleFireStatusFilter<$PrismaModel> | $Enums.ScheduleFireStatus
+}
+
+export type NestedEnumScheduleFireStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ScheduleFireStatus | Prisma.EnumScheduleFireStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ScheduleFireStatus[] | Prisma.ListEnumScheduleFireStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ScheduleFireStatus[] | Prisma.ListEnumScheduleFireStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumScheduleFireStatusWithAggregatesFilter<$PrismaModel> | $Enums.ScheduleFireStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumScheduleFireStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumScheduleFireStatusFilter<$PrismaModel>
+}
+
+export type NestedFloatWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  in?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel>
+  notIn?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel>
+  lt?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedFloatWithAggregatesFilter<$PrismaModel> | number
   _count?: Prisma.NestedIntFilter<$PrismaModel>
   _avg?: Prisma.NestedFloatFilter<$PrismaModel>
-  _sum?: Prisma.NestedIntFilter<$PrismaModel>
-  _min?: Prisma.NestedIntFilter<$PrismaModel>
-  _max?: Prisma.NestedIntFilter<$PrismaModel>
+  _sum?: Prisma.NestedFloatFilter<$PrismaModel>
+  _min?: Prisma.NestedFloatFilter<$PrismaModel>
+  _max?: Prisma.NestedFloatFilter<$PrismaModel>
 }
 
 
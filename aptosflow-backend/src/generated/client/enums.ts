@@ -28,6 +28,29 @@ export const PromptStatus = {
 export type PromptStatus = (typeof PromptStatus)[keyof typeof PromptStatus]
 
 
+export const ResumptionStatus = {
+  PENDING: 'PENDING',
+  HELD: 'HELD',
+  SUSPENDED: 'SUSPENDED',
+  PROCESSING: 'PROCESSING',
+  COMPLETED: 'COMPLETED',
+  CANCELLED: 'CANCELLED',
+  FAILED: 'FAILED'
+} as const
+
+export type ResumptionStatus = (typeof ResumptionStatus)[keyof typeof ResumptionStatus]
+
+
+export const ScheduleFireStatus = {
+  FIRING: 'FIRING',
+  FIRED: 'FIRED',
+  SKIPPED: 'SKIPPED',
+  FAILED: 'FAILED'
+} as const
+
+export type ScheduleFireStatus = (typeof ScheduleFireStatus)[keyof typeof ScheduleFireStatus]
+
+
 export const ExecutionStatus = {
   DRAFT: 'DRAFT',
   ACTIVE: 'ACTIVE',
@@ -37,7 +60,17 @@ export const ExecutionStatus = {
   COMPLETED: 'COMPLETED',
   FAILED: 'FAILED',
   PAUSED: 'PAUSED',
-  CANCELLED: 'CANCELLED'
+  CANCELLED: 'CANCELLED',
+  SKIPPED: 'SKIPPED'
 } as const
 
 export type ExecutionStatus = (typeof ExecutionStatus)[keyof typeof ExecutionStatus]
+
+
+export const ActivationState = {
+  INACTIVE: 'INACTIVE',
+  ACTIVE: 'ACTIVE',
+  PAUSED: 'PAUSED'
+} as const
+
+export type ActivationState = (typeof ActivationState)[keyof typeof ActivationState]
@@ -20,7 +20,7 @@ const config: runtime.GetPrismaClientConfig = {
   "clientVersion": "7.0.1",
   "engineVersion": "f09f2815f091dbba658cdcd2264306d88bb5bda6",
   "activeProvider": "postgresql",
-  "inlineSchema": "// This is your Prisma schema file,\n// learn more about it in the docs: https://pris.ly/d/prisma-schema\n\ngenerator client {\n  provider   = \"prisma-client\"\n  output     = \"../src/generated/client\"\n  engineType = \"client\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\n// User model - represents wallet addresses\nmodel User {\n  id            String   @id @default(uuid())\n  walletAddress String   @unique @db.VarChar(66)\n  createdAt     DateTime @default(now())\n  updatedAt     DateTime @updatedAt\n\n  // Relations\n  payments      Payment[]\n  prompts       Prompt[]\n  conversations ChatConversation[]\n\n  @@index([walletAddress])\n  @@map(\"users\")\n}\n\n// Payment model - tracks Aptos micropayments\nmodel Payment {\n  id         String        @id @default(uuid())\n  userId     String\n  txHash     String        @unique @db.VarChar(66)\n  amount     BigInt\n  status     PaymentStatus @default(PENDING)\n  verifiedAt DateTime?\n  expiresAt  DateTime\n  createdAt  DateTime      @default(now())\n\n  // Relations\n  user    User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  prompts Prompt[]\n\n  @@index([userId])\n  @@index([txHash])\n  @@index([status])\n  @@map(\"payments\")\n}\n\nenum PaymentStatus {\n  PENDING\n  VERIFIED\n  FAILED\n}\n\n// Prompt model - stores user prompts and generation status\nmodel Prompt {\n  id           String       @id @default(uuid())\n  userId       String\n  paymentId    String\n  promptText   String       @db.Text\n  status       PromptStatus @default(PENDING)\n  workflowJson Json?\n  errorMessage String?      @db.Text\n  createdAt    DateTime     @default(now())\n  completedAt  DateTime?\n\n  // Relations\n  user     User      @relation(fields: [userId], references: [id], onDelete: Cascade)\n  payment  Payment   @relation(fields: [paymentId], references: [id], onDelete: Cascade)\n  workflow Workflow?\n\n  @@index([userId])\n  @@index([paymentId])\n  @@index([status])\n  @@map(\"prompts\")\n}\n\nenum PromptStatus {\n  PENDING\n  PROCESSING\n  COMPLETED\n  FAILED\n}\n\n// Workflow model - stores generated workflow data\nmodel Workflow {\n  id              String          @id @default(uuid())\n  promptId        String          @unique\n  workflowData    Json\n  executionStatus ExecutionStatus @default(DRAFT)\n\n  // Scheduling & Triggers\n  isActive       Boolean @default(true)\n  triggerType    String  @default(\"manual\") // manual, schedule, event, price\n  cronExpression String? // For schedule triggers\n  triggerConfig  Json? // For event/price triggers (address, threshold, etc.)\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  // Relations\n  prompt Prompt @relation(fields: [promptId], references: [id], onDelete: Cascade)\n\n  @@index([executionStatus])\n  @@index([isActive])\n  @@map(\"workflows\")\n}\n\nenum ExecutionStatus {\n  DRAFT\n  ACTIVE\n  PENDING\n  SUBMITTED\n  RUNNING\n  COMPLETED\n  FAILED\n  PAUSED\n  CANCELLED\n}\n\n// RateLimit model - tracks API usage per wallet\nmodel RateLimit {\n  id            String   @id @default(uuid())\n  walletAddress String   @db.VarChar(66)\n  requestCount  Int      @default(0)\n  windowStart   DateTime @default(now())\n  createdAt     DateTime @default(now())\n  updatedAt     DateTime @updatedAt\n\n  @@unique([walletAddress, windowStart])\n  @@index([walletAddress])\n  @@map(\"rate_limits\")\n}\n\n// ChatConversation model - stores conversation metadata\nmodel ChatConversation {\n  id        String   @id @default(uuid())\n  userId    String\n  title     String?  @db.VarChar(255)\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  // Relations\n  user     User          @relation(fields: [userId], references: [id], onDelete: Cascade)\n  messages ChatMessage[]\n\n  @@index([userId])\n  @@map(\"chat_conversations\")\n}\n\n// ChatMessage model - stores individual messages\nmodel ChatMessage {\n  id             String           @id @default(uuid())\n  conversationId String\n  conversation   ChatConversation @relation(fields: [conversationId], references: [id], onDelete: Cascade)\n  role           String           @db.VarChar(20) // 'user' or 'assistant'\n  content        String           @db.Text\n  createdAt      DateTime         @default(now())\n\n  @@index([conversationId])\n  @@map(\"chat_messages\")\n}\n",
+  "inlineSchema": "// This is your Prisma schema file,\n// learn more about it in the docs: https://pris.ly/d/prisma-schema\n\ngenerator client {\n  provider   = \"prisma-client\"\n  output     = \"../src/generated/client\"\n  engineType = \"client\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\n// User model - represents wallet addresses\nmodel User {\n  id            String   @id @default(uuid())\n  walletAddress String   @unique @db.VarChar(66)\n  createdAt     DateTime @default(now())\n  updatedAt     DateTime @updatedAt\n\n  // Relations\n  payments      Payment[]\n  prompts       Prompt[]\n  workflows     Workflow[]\n  conversations ChatConversation[]\n\n  @@index([walletAddress])\n  @@map(\"users\")\n}\n\n// Payment model - tracks Aptos micropayments\nmodel Payment {\n  id         String        @id @default(uuid())\n  userId     String\n  txHash     String        @unique @db.VarChar(66)\n  amount     BigInt\n  status     PaymentStatus @default(PENDING)\n  verifiedAt DateTime?\n  expiresAt  DateTime\n  createdAt  DateTime      @default(now())\n\n  // Relations\n  user    User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  prompts Prompt[]\n\n  @@index([userId])\n  @@index([txHash])\n  @@index([status])\n  @@map(\"payments\")\n}\n\nenum PaymentStatus {\n  PENDING\n  VERIFIED\n  FAILED\n}\n\n// Prompt model - stores user prompts and generation status\nmodel Prompt {\n  id           String       @id @default(uuid())\n  userId       String\n  paymentId    String\n  promptText   String       @db.Text\n  status       PromptStatus @default(PENDING)\n  workflowJson Json?\n  errorMessage String?      @db.Text\n  createdAt    DateTime     @default(now())\n  completedAt  DateTime?\n\n  // Relations\n  user     User      @relation(fields: [userId], references: [id], onDelete: Cascade)\n  payment  Payment   @relation(fields: [paymentId], references: [id], onDelete: Cascade)\n  workflow Workflow?\n\n  @@index([userId])\n  @@index([paymentId])\n  @@index([status])\n  @@map(\"prompts\")\n}\n\nenum PromptStatus {\n  PENDING\n  PROCESSING\n  COMPLETED\n  FAILED\n}\n\n// Workflow model - stores generated workflow data\nmodel Workflow {\n  id              String          @id @default(uuid())\n  userId          String\n  name            String          @default(\"Untitled workflow\") @db.VarChar(200)\n  promptId        String?         @unique // Set when the workflow was generated from a prompt\n  workflowData    Json // Graph of the latest version\n  version         Int             @default(0) // Latest version number\n  executionStatus ExecutionStatus @default(DRAFT)\n\n  // Scheduling & Triggers (derived from the trigger node on activation)\n  activationState ActivationState @default(INACTIVE) // Set by activate/pause/resume/deactivate; executionStatus mirrors runs\n  isActive        Boolean         @default(false) // Trigger is armed; set by activate/resume\n  triggerType     String          @default(\"manual\") // manual, schedule, event, price, webhook\n  cronExpression  String? // For schedule triggers\n  timezone        String          @default(\"UTC\") // IANA zone the cron expression is evaluated in\n  triggerConfig   Json? // For event/price triggers (address, threshold, etc.)\n  activatedAt     DateTime? // Last activate/resume; schedules do not catch up on fires before it\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  // Relations\n  user             User                 @relation(fields: [userId], references: [id], onDelete: Cascade)\n  prompt           Prompt?              @relation(fields: [promptId], references: [id], onDelete: SetNull)\n  onChainWorkflows OnChainWorkflow[]\n  versions         WorkflowVersion[]\n  runs             WorkflowRun[]\n  resumptions      WorkflowResumption[]\n  scheduleFires    ScheduleFire[]\n  eventCursors     EventCursor[]\n  priceWatch       PriceWatch?\n  webhookEndpoint  WebhookEndpoint?\n\n  @@index([userId, updatedAt])\n  @@index([executionStatus])\n  @@index([isActive])\n  @@map(\"workflows\")\n}\n\n// Immutable snapshot written by every save of a workflow's graph\nmodel WorkflowVersion {\n  id           String   @id @default(uuid())\n  workflowId   String\n  version      Int // 1, 2, ... per workflow\n  workflowData Json\n  authorWallet String?  @db.VarChar(66)\n  message      String?  @db.Text\n  createdAt    DateTime @default(now())\n\n  // Relations\n  workflow Workflow @relation(fields: [workflowId], references: [id], onDelete: Cascade)\n\n  @@unique([workflowId, version])\n  @@map(\"workflow_versions\")\n}\n\n// OnChainWorkflow model - links a workflow to its entry in the owner's WorkflowStore\nmodel OnChainWorkflow {\n  id                 String   @id @default(uuid())\n  workflowId         String\n  ownerAddress       String   @db.VarChar(66)\n  onChainId          BigInt // u64 id emitted in WorkflowRegisteredEvent\n  graphHash          String   @db.VarChar(64) // Fingerprint of the compiled graph that was registered\n  nodeIdMap          Json // Canvas node id -> on-chain node id\n  registrationTxHash String   @unique @db.VarChar(66)\n  createdAt          DateTime @default(now())\n\n  // Relations\n  workflow Workflow      @relation(fields: [workflowId], references: [id], onDelete: Cascade)\n  runs     WorkflowRun[]\n\n  @@unique([ownerAddress, onChainId])\n  @@index([workflowId, ownerAddress, graphHash])\n  @@map(\"on_chain_workflows\")\n}\n\n// WorkflowRun model - one execution of a workflow and its transaction\nmodel WorkflowRun {\n  id                String          @id @default(uuid())\n  workflowId        String\n  onChainWorkflowId String?\n  status            ExecutionStatus @default(PENDING)\n  trigger           String          @default(\"manual\") // manual, schedule, event, price, webhook\n  version           Int? // Workflow version the run executed\n  idempotencyKey    String?         @unique // Set by triggers that must not start the same run twice\n  triggerContext    Json? // What fired the run, e.g. the matched chain event\n  conditionTrace    Json? // Off-chain condition evaluation that gated the run\n  txHash            String?         @unique @db.VarChar(66)\n  totalSteps        Int? // From WorkflowCompletedEvent\n  gasUsed           BigInt? // Aptos reports gas per transaction, not per step\n  vmStatus          String?         @db.Text\n  errorMessage      String?         @db.Text\n  errorCode         String? // Decoded abort, e.g. E_NOT_IMPLEMENTED or INSUFFICIENT_BALANCE\n  errorNodeId       String? // Canvas node that caused the failure, when known\n  startedAt         DateTime        @default(now())\n  completedAt       DateTime?\n\n  // Relations\n  workflow        Workflow             @relation(fields: [workflowId], references: [id], onDelete: Cascade)\n  onChainWorkflow OnChainWorkflow?     @relation(fields: [onChainWorkflowId], references: [id], onDelete: SetNull)\n  steps           WorkflowRunStep[]\n  resumptions     WorkflowResumption[]\n  scheduleFire    ScheduleFire?\n\n  @@index([workflowId, startedAt])\n  @@index([status])\n  @@map(\"workflow_runs\")\n}\n\n// WorkflowRunStep model - one WorkflowStepEvent emitted during a run\nmodel WorkflowRunStep {\n  id           String   @id @default(uuid())\n  runId        String\n  sequence     Int // Emission order within the transaction\n  nodeId       BigInt // On-chain node id\n  canvasNodeId String? // Resolved through OnChainWorkflow.nodeIdMap\n  nodeType     Int // NODE_TYPE_* code\n  success      Boolean\n  errorCode    BigInt\n  createdAt    DateTime @default(now())\n\n  // Relations\n  run WorkflowRun @relation(fields: [runId], references: [id], onDelete: Cascade)\n\n  @@unique([runId, sequence])\n  @@map(\"workflow_run_steps\")\n}\n\n// WorkflowResumption model - a run paused at a wait node, picked up by the resume worker\nmodel WorkflowResumption {\n  id           String           @id @default(uuid())\n  runId        String // Run that reached the wait node\n  workflowId   String\n  waitNodeId   String // Canvas id of the wait node\n  resumeNodeId String // Canvas id execution continues from\n  resumeAt     DateTime\n  status       ResumptionStatus @default(PENDING)\n  resumedRunId String? // Run created when the segment after the wait executed\n  attempts     Int              @default(0)\n  lastError    String?          @db.Text\n  createdAt    DateTime         @default(now())\n  updatedAt    DateTime         @updatedAt\n\n  // Relations\n  run      WorkflowRun @relation(fields: [runId], references: [id], onDelete: Cascade)\n  workflow Workflow    @relation(fields: [workflowId], references: [id], onDelete: Cascade)\n\n  @@unique([runId, waitNodeId])\n  @@index([status, resumeAt])\n  @@index([workflowId])\n  @@map(\"workflow_resumptions\")\n}\n\nenum ResumptionStatus {\n  PENDING // Waiting for resumeAt\n  HELD // Paused over the API; not picked up until released\n  SUSPENDED // Held while its workflow is paused; released when it resumes\n  PROCESSING // Claimed by the resume worker\n  COMPLETED\n  CANCELLED\n  FAILED\n}\n\n// ScheduleFire model - one fire time of a scheduled workflow; the unique key stops replicas double-firing\nmodel ScheduleFire {\n  id           String             @id @default(uuid())\n  workflowId   String\n  scheduledFor DateTime // Fire time computed from the cron expression\n  status       ScheduleFireStatus @default(FIRING)\n  catchUp      Boolean            @default(false) // Fired late under the misfire policy\n  runId        String?            @unique\n  error        String?            @db.Text\n  createdAt    DateTime           @default(now())\n\n  // Relations\n  workflow Workflow     @relation(fields: [workflowId], references: [id], onDelete: Cascade)\n  run      WorkflowRun? @relation(fields: [runId], references: [id], onDelete: SetNull)\n\n  @@unique([workflowId, scheduledFor])\n  @@map(\"schedule_fires\")\n}\n\nenum ScheduleFireStatus {\n  FIRING\n  FIRED\n  SKIPPED // Missed while no instance was leading and dropped by the misfire policy\n  FAILED\n}\n\n// EventCursor model - last chain event an event-triggered workflow has processed\nmodel EventCursor {\n  id                 String   @id @default(uuid())\n  workflowId         String\n  streamKey          String // Event stream being followed, e.g. \"<address>:<creationNumber>\"\n  transactionVersion BigInt // Version of the last processed event\n  eventIndex         Int // Index of the last processed event within that transaction\n  updatedAt          DateTime @updatedAt\n\n  // Relations\n  workflow Workflow @relation(fields: [workflowId], references: [id], onDelete: Cascade)\n\n  @@unique([workflowId, streamKey])\n  @@map(\"event_cursors\")\n}\n\n// PriceWatch model - last observed price of a price-triggered workflow, used to fire on crossings\nmodel PriceWatch {\n  id           String    @id @default(uuid())\n  workflowId   String    @unique\n  configKey    String // token, operator, threshold and provider the state was observed for\n  conditionMet Boolean\n  lastPrice    Float\n  checkedAt    DateTime\n  lastFiredAt  DateTime?\n  updatedAt    DateTime  @updatedAt\n\n  // Relations\n  workflow Workflow @relation(fields: [workflowId], references: [id], onDelete: Cascade)\n\n  @@map(\"price_watches\")\n}\n\n// WebhookEndpoint model - URL token and signing secret of a webhook-triggered workflow\nmodel WebhookEndpoint {\n  id                String    @id @default(uuid())\n  workflowId        String    @unique\n  token             String    @unique @db.VarChar(64) // Path segment of /api/hooks/:workflowId/:token\n  secret            String    @db.VarChar(64) // HMAC-SHA256 key deliveries are signed with\n  previousSecret    String?   @db.VarChar(64) // Still accepted until previousExpiresAt after a rotation\n  previousExpiresAt DateTime?\n  lastDeliveryAt    DateTime?\n  rotatedAt         DateTime?\n  createdAt         DateTime  @default(now())\n  updatedAt         DateTime  @updatedAt\n\n  // Relations\n  workflow Workflow @relation(fields: [workflowId], references: [id], onDelete: Cascade)\n\n  @@map(\"webhook_endpoints\")\n}\n\n// SchedulerLease model - lease row held by the one instance allowed to fire schedules\nmodel SchedulerLease {\n  name      String   @id\n  holderId  String\n  expiresAt DateTime\n  updatedAt DateTime @updatedAt\n\n  @@map(\"scheduler_leases\")\n}\n\nenum ExecutionStatus {\n  DRAFT\n  ACTIVE\n  PENDING\n  SUBMITTED\n  RUNNING\n  COMPLETED\n  FAILED\n  PAUSED\n  CANCELLED\n  SKIPPED // Off-chain conditions were false; nothing was submitted\n}\n\nenum ActivationState {\n  INACTIVE // Never activated, or deactivated; can be activated\n  ACTIVE // Trigger armed\n  PAUSED // Trigger disarmed until resumed; waiting runs are suspended\n}\n\n// RateLimit model - tracks API usage per wallet\nmodel RateLimit {\n  id            String   @id @default(uuid())\n  walletAddress String   @db.VarChar(66)\n  requestCount  Int      @default(0)\n  windowStart   DateTime @default(now())\n  createdAt     DateTime @default(now())\n  updatedAt     DateTime @updatedAt\n\n  @@unique([walletAddress, windowStart])\n  @@index([walletAddress])\n  @@map(\"rate_limits\")\n}\n\n// ChatConversation model - stores conversation metadata\nmodel ChatConversation {\n  id        String   @id @default(uuid())\n  userId    String\n  title     String?  @db.VarChar(255)\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  // Relations\n  user     User          @relation(fields: [userId], references: [id], onDelete: Cascade)\n  messages ChatMessage[]\n\n  @@index([userId])\n  @@map(\"chat_conversations\")\n}\n\n// ChatMessage model - stores individual messages\nmodel ChatMessage {\n  id             String           @id @default(uuid())\n  conversationId String\n  conversation   ChatConversation @relation(fields: [conversationId], references: [id], onDelete: Cascade)\n  role           String           @db.VarChar(20) // 'user' or 'assistant'\n  content        String           @db.Text\n  createdAt      DateTime         @default(now())\n\n  @@index([conversationId])\n  @@map(\"chat_messages\")\n}\n",
   "runtimeDataModel": {
     "models": {},
     "enums": {},
@@ -28,7 +28,7 @@ const config: runtime.GetPrismaClientConfig = {
   }
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"walletAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"payments\",\"kind\":\"object\",\"type\":\"Payment\",\"relationName\":\"PaymentToUser\"},{\"name\":\"prompts\",\"kind\":\"object\",\"type\":\"Prompt\",\"relationName\":\"PromptToUser\"},{\"name\":\"conversations\",\"kind\":\"object\",\"type\":\"ChatConversation\",\"relationName\":\"ChatConversationToUser\"}],\"dbName\":\"users\"},\"Payment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"PaymentStatus\"},{\"name\":\"verifiedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PaymentToUser\"},{\"name\":\"prompts\",\"kind\":\"object\",\"type\":\"Prompt\",\"relationName\":\"PaymentToPrompt\"}],\"dbName\":\"payments\"},\"Prompt\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"paymentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"promptText\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"PromptStatus\"},{\"name\":\"workflowJson\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"errorMessage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PromptToUser\"},{\"name\":\"payment\",\"kind\":\"object\",\"type\":\"Payment\",\"relationName\":\"PaymentToPrompt\"},{\"name\":\"workflow\",\"kind\":\"object\",\"type\":\"Workflow\",\"relationName\":\"PromptToWorkflow\"}],\"dbName\":\"prompts\"},\"Workflow\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"promptId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workflowData\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"executionStatus\",\"kind\":\"enum\",\"type\":\"ExecutionStatus\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"triggerType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cronExpression\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"triggerConfig\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"prompt\",\"kind\":\"object\",\"type\":\"Prompt\",\"relationName\":\"PromptToWorkflow\"}],\"dbName\":\"workflows\"},\"RateLimit\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"walletAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"requestCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"windowStart\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"rate_limits\"},\"ChatConversation\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ChatConversationToUser\"},{\"name\":\"messages\",\"kind\":\"object\",\"type\":\"ChatMessage\",\"relationName\":\"ChatConversationToChatMessage\"}],\"dbName\":\"chat_conversations\"},\"ChatMessage\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"conversationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"conversation\",\"kind\":\"object\",\"type\":\"ChatConversation\",\"relationName\":\"ChatConversationToChatMessage\"},{\"name\":\"role\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"chat_messages\"}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"walletAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"payments\",\"kind\":\"object\",\"type\":\"Payment\",\"relationName\":\"PaymentToUser\"},{\"name\":\"prompts\",\"kind\":\"object\",\"type\":\"Prompt\",\"relationName\":\"PromptToUser\"},{\"name\":\"workflows\",\"kind\":\"object\",\"type\":\"Workflow\",\"relationName\":\"UserToWorkflow\"},{\"name\":\"conversations\",\"kind\":\"object\",\"type\":\"ChatConversation\",\"relationName\":\"ChatConversationToUser\"}],\"dbName\":\"users\"},\"Payment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"PaymentStatus\"},{\"name\":\"verifiedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PaymentToUser\"},{\"name\":\"prompts\",\"kind\":\"object\",\"type\":\"Prompt\",\"relationName\":\"PaymentToPrompt\"}],\"dbName\":\"payments\"},\"Prompt\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"paymentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"promptText\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"PromptStatus\"},{\"name\":\"workflowJson\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"errorMessage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PromptToUser\"},{\"name\":\"payment\",\"kind\":\"object\",\"type\":\"Payment\",\"relationName\":\"PaymentToPrompt\"},{\"name\":\"workflow\",\"kind\":\"object\",\"type\":\"Workflow\",\"relationName\":\"PromptToWorkflow\"}],\"dbName\":\"prompts\"},\"Workflow\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"promptId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workflowData\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"version\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"executionStatus\",\"kind\":\"enum\",\"type\":\"ExecutionStatus\"},{\"name\":\"activationState\",\"kind\":\"enum\",\"type\":\"ActivationState\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"triggerType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cronExpression\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"timezone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"triggerConfig\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"activatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UserToWorkflow\"},{\"name\":\"prompt\",\"kind\":\"object\",\"type\":\"Prompt\",\"relationName\":\"PromptToWorkflow\"},{\"name\":\"onChainWorkflows\",\"kind\":\"object\",\"type\":\"OnChainWorkflow\",\"relationName\":\"OnChainWorkflowToWorkflow\"},{\"name\":\"versions\",\"kind\":\"object\",\"type\":\"WorkflowVersion\",\"relationName\":\"WorkflowToWorkflowVersion\"},{\"name\":\"runs\",\"kind\":\"object\",\"type\":\"WorkflowRun\",\"relationName\":\"WorkflowToWorkflowRun\"},{\"name\":\"resumptions\",\"kind\":\"object\",\"type\":\"WorkflowResumption\",\"relationName\":\"WorkflowToWorkflowResumption\"},{\"name\":\"scheduleFires\",\"kind\":\"object\",\"type\":\"ScheduleFire\",\"relationName\":\"ScheduleFireToWorkflow\"},{\"name\":\"eventCursors\",\"kind\":\"object\",\"type\":\"EventCursor\",\"relationName\":\"EventCursorToWorkflow\"},{\"name\":\"priceWatch\",\"kind\":\"object\",\"type\":\"PriceWatch\",\"relationName\":\"PriceWatchToWorkflow\"},{\"name\":\"webhookEndpoint\",\"kind\":\"object\",\"type\":\"WebhookEndpoint\",\"relationName\":\"WebhookEndpointToWorkflow\"}],\"dbName\":\"workflows\"},\"WorkflowVersion\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workflowId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"version\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"workflowData\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"authorWallet\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"message\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"workflow\",\"kind\":\"object\",\"type\":\"Workflow\",\"relationName\":\"WorkflowToWorkflowVersion\"}],\"dbName\":\"workflow_versions\"},\"OnChainWorkflow\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workflowId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"onChainId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"graphHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nodeIdMap\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"registrationTxHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"workflow\",\"kind\":\"object\",\"type\":\"Workflow\",\"relationName\":\"OnChainWorkflowToWorkflow\"},{\"name\":\"runs\",\"kind\":\"object\",\"type\":\"WorkflowRun\",\"relationName\":\"OnChainWorkflowToWorkflowRun\"}],\"dbName\":\"on_chain_workflows\"},\"WorkflowRun\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workflowId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"onChainWorkflowId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ExecutionStatus\"},{\"name\":\"trigger\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"version\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"idempotencyKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"triggerContext\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"conditionTrace\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"txHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"totalSteps\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"gasUsed\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"vmStatus\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"errorMessage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"errorCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"errorNodeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"workflow\",\"kind\":\"object\",\"type\":\"Workflow\",\"relationName\":\"WorkflowToWorkflowRun\"},{\"name\":\"onChainWorkflow\",\"kind\":\"object\",\"type\":\"OnChainWorkflow\",\"relationName\":\"OnChainWorkflowToWorkflowRun\"},{\"name\":\"steps\",\"kind\":\"object\",\"type\":\"WorkflowRunStep\",\"relationName\":\"WorkflowRunToWorkflowRunStep\"},{\"name\":\"resumptions\",\"kind\":\"object\",\"type\":\"WorkflowResumption\",\"relationName\":\"WorkflowResumptionToWorkflowRun\"},{\"name\":\"scheduleFire\",\"kind\":\"object\",\"type\":\"ScheduleFire\",\"relationName\":\"ScheduleFireToWorkflowRun\"}],\"dbName\":\"workflow_runs\"},\"WorkflowRunStep\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"runId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sequence\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"nodeId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"canvasNodeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nodeType\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"success\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"errorCode\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"run\",\"kind\":\"object\",\"type\":\"WorkflowRun\",\"relationName\":\"WorkflowRunToWorkflowRunStep\"}],\"dbName\":\"workflow_run_steps\"},\"WorkflowResumption\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"runId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workflowId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"waitNodeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resumeNodeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resumeAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ResumptionStatus\"},{\"name\":\"resumedRunId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"attempts\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastError\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"run\",\"kind\":\"object\",\"type\":\"WorkflowRun\",\"relationName\":\"WorkflowResumptionToWorkflowRun\"},{\"name\":\"workflow\",\"kind\":\"object\",\"type\":\"Workflow\",\"relationName\":\"WorkflowToWorkflowResumption\"}],\"dbName\":\"workflow_resumptions\"},\"ScheduleFire\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workflowId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"scheduledFor\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ScheduleFireStatus\"},{\"name\":\"catchUp\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"runId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"workflow\",\"kind\":\"object\",\"type\":\"Workflow\",\"relationName\":\"ScheduleFireToWorkflow\"},{\"name\":\"run\",\"kind\":\"object\",\"type\":\"WorkflowRun\",\"relationName\":\"ScheduleFireToWorkflowRun\"}],\"dbName\":\"schedule_fires\"},\"EventCursor\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workflowId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"streamKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"transactionVersion\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"eventIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"workflow\",\"kind\":\"object\",\"type\":\"Workflow\",\"relationName\":\"EventCursorToWorkflow\"}],\"dbName\":\"event_cursors\"},\"PriceWatch\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workflowId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"configKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"conditionMet\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"lastPrice\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"checkedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastFiredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"workflow\",\"kind\":\"object\",\"type\":\"Workflow\",\"relationName\":\"PriceWatchToWorkflow\"}],\"dbName\":\"price_watches\"},\"WebhookEndpoint\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workflowId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"secret\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"previousSecret\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"previousExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastDeliveryAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"rotatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"workflow\",\"kind\":\"object\",\"type\":\"Workflow\",\"relationName\":\"WebhookEndpointToWorkflow\"}],\"dbName\":\"webhook_endpoints\"},\"SchedulerLease\":{\"fields\":[{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"holderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"scheduler_leases\"},\"RateLimit\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"walletAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"requestCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"windowStart\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"rate_limits\"},\"ChatConversation\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ChatConversationToUser\"},{\"name\":\"messages\",\"kind\":\"object\",\"type\":\"ChatMessage\",\"relationName\":\"ChatConversationToChatMessage\"}],\"dbName\":\"chat_conversations\"},\"ChatMessage\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"conversationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"conversation\",\"kind\":\"object\",\"type\":\"ChatConversation\",\"relationName\":\"ChatConversationToChatMessage\"},{\"name\":\"role\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"chat_messages\"}},\"enums\":{},\"types\":{}}")
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
   const { Buffer } = await import('node:buffer')
@@ -214,6 +214,106 @@ export interface PrismaClient<
     */
   get workflow(): Prisma.WorkflowDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.workflowVersion`: Exposes CRUD operations for the **WorkflowVersion** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more WorkflowVersions
+    * const workflowVersions = await prisma.workflowVersion.findMany()
+    * ```
+    */
+  get workflowVersion(): Prisma.WorkflowVersionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.onChainWorkflow`: Exposes CRUD operations for the **OnChainWorkflow** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more OnChainWorkflows
+    * const onChainWorkflows = await prisma.onChainWorkflow.findMany()
+    * ```
+    */
+  get onChainWorkflow(): Prisma.OnChainWorkflowDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.workflowRun`: Exposes CRUD operations for the **WorkflowRun** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more WorkflowRuns
+    * const workflowRuns = await prisma.workflowRun.findMany()
+    * ```
+    */
+  get workflowRun(): Prisma.WorkflowRunDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.workflowRunStep`: Exposes CRUD operations for the **WorkflowRunStep** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more WorkflowRunSteps
+    * const workflowRunSteps = await prisma.workflowRunStep.findMany()
+    * ```
+    */
+  get workflowRunStep(): Prisma.WorkflowRunStepDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.workflowResumption`: Exposes CRUD operations for the **WorkflowResumption** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more WorkflowResumptions
+    * const workflowResumptions = await prisma.workflowResumption.findMany()
+    * ```
+    */
+  get workflowResumption(): Prisma.WorkflowResumptionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.scheduleFire`: Exposes CRUD operations for the **ScheduleFire** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ScheduleFires
+    * const scheduleFires = await prisma.scheduleFire.findMany()
+    * ```
+    */
+  get scheduleFire(): Prisma.ScheduleFireDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.eventCursor`: Exposes CRUD operations for the **EventCursor** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more EventCursors
+    * const eventCursors = await prisma.eventCursor.findMany()
+    * ```
+    */
+  get eventCursor(): Prisma.EventCursorDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.priceWatch`: Exposes CRUD operations for the **PriceWatch** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more PriceWatches
+    * const priceWatches = await prisma.priceWatch.findMany()
+    * ```
+    */
+  get priceWatch(): Prisma.PriceWatchDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.webhookEndpoint`: Exposes CRUD operations for the **WebhookEndpoint** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more WebhookEndpoints
+    * const webhookEndpoints = await prisma.webhookEndpoint.findMany()
+    * ```
+    */
+  get webhookEndpoint(): Prisma.WebhookEndpointDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.schedulerLease`: Exposes CRUD operations for the **SchedulerLease** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more SchedulerLeases
+    * const schedulerLeases = await prisma.schedulerLease.findMany()
+    * ```
+    */
+  get schedulerLease(): Prisma.SchedulerLeaseDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.rateLimit`: Exposes CRUD operations for the **RateLimit** model.
     * Example usage:
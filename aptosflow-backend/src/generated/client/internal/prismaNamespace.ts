@@ -388,6 +388,16 @@ export const ModelName = {
   Payment: 'Payment',
   Prompt: 'Prompt',
   Workflow: 'Workflow',
+  WorkflowVersion: 'WorkflowVersion',
+  OnChainWorkflow: 'OnChainWorkflow',
+  WorkflowRun: 'WorkflowRun',
+  WorkflowRunStep: 'WorkflowRunStep',
+  WorkflowResumption: 'WorkflowResumption',
+  ScheduleFire: 'ScheduleFire',
+  EventCursor: 'EventCursor',
+  PriceWatch: 'PriceWatch',
+  WebhookEndpoint: 'WebhookEndpoint',
+  SchedulerLease: 'SchedulerLease',
   RateLimit: 'RateLimit',
   ChatConversation: 'ChatConversation',
   ChatMessage: 'ChatMessage'
@@ -406,7 +416,7 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
     omit: GlobalOmitOptions
   }
   meta: {
-    modelProps: "user" | "payment" | "prompt" | "workflow" | "rateLimit" | "chatConversation" | "chatMessage"
+    modelProps: "user" | "payment" | "prompt" | "workflow" | "workflowVersion" | "onChainWorkflow" | "workflowRun" | "workflowRunStep" | "workflowResumption" | "scheduleFire" | "eventCursor" | "priceWatch" | "webhookEndpoint" | "schedulerLease" | "rateLimit" | "chatConversation" | "chatMessage"
     txIsolationLevel: TransactionIsolationLevel
   }
   model: {
@@ -706,6 +716,746 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    WorkflowVersion: {
+      payload: Prisma.$WorkflowVersionPayload<ExtArgs>
+      fields: Prisma.WorkflowVersionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.WorkflowVersionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowVersionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.WorkflowVersionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowVersionPayload>
+        }
+        findFirst: {
+          args: Prisma.WorkflowVersionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowVersionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.WorkflowVersionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowVersionPayload>
+        }
+        findMany: {
+          args: Prisma.WorkflowVersionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowVersionPayload>[]
+        }
+        create: {
+          args: Prisma.WorkflowVersionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowVersionPayload>
+        }
+        createMany: {
+          args: Prisma.WorkflowVersionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.WorkflowVersionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowVersionPayload>[]
+        }
+        delete: {
+          args: Prisma.WorkflowVersionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowVersionPayload>
+        }
+        update: {
+          args: Prisma.WorkflowVersionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowVersionPayload>
+        }
+        deleteMany: {
+          args: Prisma.WorkflowVersionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.WorkflowVersionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.WorkflowVersionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowVersionPayload>[]
+        }
+        upsert: {
+          args: Prisma.WorkflowVersionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowVersionPayload>
+        }
+        aggregate: {
+          args: Prisma.WorkflowVersionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateWorkflowVersion>
+        }
+        groupBy: {
+          args: Prisma.WorkflowVersionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WorkflowVersionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.WorkflowVersionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WorkflowVersionCountAggregateOutputType> | number
+        }
+      }
+    }
+    OnChainWorkflow: {
+      payload: Prisma.$OnChainWorkflowPayload<ExtArgs>
+      fields: Prisma.OnChainWorkflowFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.OnChainWorkflowFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OnChainWorkflowPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.OnChainWorkflowFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OnChainWorkflowPayload>
+        }
+        findFirst: {
+          args: Prisma.OnChainWorkflowFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OnChainWorkflowPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.OnChainWorkflowFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OnChainWorkflowPayload>
+        }
+        findMany: {
+          args: Prisma.OnChainWorkflowFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OnChainWorkflowPayload>[]
+        }
+        create: {
+          args: Prisma.OnChainWorkflowCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OnChainWorkflowPayload>
+        }
+        createMany: {
+          args: Prisma.OnChainWorkflowCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.OnChainWorkflowCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OnChainWorkflowPayload>[]
+        }
+        delete: {
+          args: Prisma.OnChainWorkflowDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OnChainWorkflowPayload>
+        }
+        update: {
+          args: Prisma.OnChainWorkflowUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OnChainWorkflowPayload>
+        }
+        deleteMany: {
+          args: Prisma.OnChainWorkflowDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.OnChainWorkflowUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.OnChainWorkflowUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OnChainWorkflowPayload>[]
+        }
+        upsert: {
+          args: Prisma.OnChainWorkflowUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OnChainWorkflowPayload>
+        }
+        aggregate: {
+          args: Prisma.OnChainWorkflowAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateOnChainWorkflow>
+        }
+        groupBy: {
+          args: Prisma.OnChainWorkflowGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OnChainWorkflowGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.OnChainWorkflowCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OnChainWorkflowCountAggregateOutputType> | number
+        }
+      }
+    }
+    WorkflowRun: {
+      payload: Prisma.$WorkflowRunPayload<ExtArgs>
+      fields: Prisma.WorkflowRunFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.WorkflowRunFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowRunPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.WorkflowRunFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowRunPayload>
+        }
+        findFirst: {
+          args: Prisma.WorkflowRunFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowRunPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.WorkflowRunFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowRunPayload>
+        }
+        findMany: {
+          args: Prisma.WorkflowRunFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowRunPayload>[]
+        }
+        create: {
+          args: Prisma.WorkflowRunCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowRunPayload>
+        }
+        createMany: {
+          args: Prisma.WorkflowRunCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.WorkflowRunCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowRunPayload>[]
+        }
+        delete: {
+          args: Prisma.WorkflowRunDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowRunPayload>
+        }
+        update: {
+          args: Prisma.WorkflowRunUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowRunPayload>
+        }
+        deleteMany: {
+          args: Prisma.WorkflowRunDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.WorkflowRunUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.WorkflowRunUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowRunPayload>[]
+        }
+        upsert: {
+          args: Prisma.WorkflowRunUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowRunPayload>
+        }
+        aggregate: {
+          args: Prisma.WorkflowRunAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateWorkflowRun>
+        }
+        groupBy: {
+          args: Prisma.WorkflowRunGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WorkflowRunGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.WorkflowRunCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WorkflowRunCountAggregateOutputType> | number
+        }
+      }
+    }
+    WorkflowRunStep: {
+      payload: Prisma.$WorkflowRunStepPayload<ExtArgs>
+      fields: Prisma.WorkflowRunStepFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.WorkflowRunStepFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowRunStepPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.WorkflowRunStepFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowRunStepPayload>
+        }
+        findFirst: {
+          args: Prisma.WorkflowRunStepFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowRunStepPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.WorkflowRunStepFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowRunStepPayload>
+        }
+        findMany: {
+          args: Prisma.WorkflowRunStepFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowRunStepPayload>[]
+        }
+        create: {
+          args: Prisma.WorkflowRunStepCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowRunStepPayload>
+        }
+        createMany: {
+          args: Prisma.WorkflowRunStepCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.WorkflowRunStepCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowRunStepPayload>[]
+        }
+        delete: {
+          args: Prisma.WorkflowRunStepDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowRunStepPayload>
+        }
+        update: {
+          args: Prisma.WorkflowRunStepUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowRunStepPayload>
+        }
+        deleteMany: {
+          args: Prisma.WorkflowRunStepDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.WorkflowRunStepUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.WorkflowRunStepUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowRunStepPayload>[]
+        }
+        upsert: {
+          args: Prisma.WorkflowRunStepUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowRunStepPayload>
+        }
+        aggregate: {
+          args: Prisma.WorkflowRunStepAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateWorkflowRunStep>
+        }
+        groupBy: {
+          args: Prisma.WorkflowRunStepGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WorkflowRunStepGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.WorkflowRunStepCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WorkflowRunStepCountAggregateOutputType> | number
+        }
+      }
+    }
+    WorkflowResumption: {
+      payload: Prisma.$WorkflowResumptionPayload<ExtArgs>
+      fields: Prisma.WorkflowResumptionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.WorkflowResumptionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowResumptionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.WorkflowResumptionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowResumptionPayload>
+        }
+        findFirst: {
+          args: Prisma.WorkflowResumptionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowResumptionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.WorkflowResumptionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowResumptionPayload>
+        }
+        findMany: {
+          args: Prisma.WorkflowResumptionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowResumptionPayload>[]
+        }
+        create: {
+          args: Prisma.WorkflowResumptionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowResumptionPayload>
+        }
+        createMany: {
+          args: Prisma.WorkflowResumptionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.WorkflowResumptionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowResumptionPayload>[]
+        }
+        delete: {
+          args: Prisma.WorkflowResumptionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowResumptionPayload>
+        }
+        update: {
+          args: Prisma.WorkflowResumptionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowResumptionPayload>
+        }
+        deleteMany: {
+          args: Prisma.WorkflowResumptionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.WorkflowResumptionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.WorkflowResumptionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowResumptionPayload>[]
+        }
+        upsert: {
+          args: Prisma.WorkflowResumptionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkflowResumptionPayload>
+        }
+        aggregate: {
+          args: Prisma.WorkflowResumptionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateWorkflowResumption>
+        }
+        groupBy: {
+          args: Prisma.WorkflowResumptionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WorkflowResumptionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.WorkflowResumptionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WorkflowResumptionCountAggregateOutputType> | number
+        }
+      }
+    }
+    ScheduleFire: {
+      payload: Prisma.$ScheduleFirePayload<ExtArgs>
+      fields: Prisma.ScheduleFireFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ScheduleFireFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleFirePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ScheduleFireFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleFirePayload>
+        }
+        findFirst: {
+          args: Prisma.ScheduleFireFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleFirePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ScheduleFireFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleFirePayload>
+        }
+        findMany: {
+          args: Prisma.ScheduleFireFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleFirePayload>[]
+        }
+        create: {
+          args: Prisma.ScheduleFireCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleFirePayload>
+        }
+        createMany: {
+          args: Prisma.ScheduleFireCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ScheduleFireCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleFirePayload>[]
+        }
+        delete: {
+          args: Prisma.ScheduleFireDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleFirePayload>
+        }
+        update: {
+          args: Prisma.ScheduleFireUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleFirePayload>
+        }
+        deleteMany: {
+          args: Prisma.ScheduleFireDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ScheduleFireUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ScheduleFireUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleFirePayload>[]
+        }
+        upsert: {
+          args: Prisma.ScheduleFireUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleFirePayload>
+        }
+        aggregate: {
+          args: Prisma.ScheduleFireAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateScheduleFire>
+        }
+        groupBy: {
+          args: Prisma.ScheduleFireGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ScheduleFireGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ScheduleFireCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ScheduleFireCountAggregateOutputType> | number
+        }
+      }
+    }
+    EventCursor: {
+      payload: Prisma.$EventCursorPayload<ExtArgs>
+      fields: Prisma.EventCursorFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.EventCursorFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EventCursorPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.EventCursorFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EventCursorPayload>
+        }
+        findFirst: {
+          args: Prisma.EventCursorFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EventCursorPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.EventCursorFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EventCursorPayload>
+        }
+        findMany: {
+          args: Prisma.EventCursorFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EventCursorPayload>[]
+        }
+        create: {
+          args: Prisma.EventCursorCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EventCursorPayload>
+        }
+        createMany: {
+          args: Prisma.EventCursorCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.EventCursorCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EventCursorPayload>[]
+        }
+        delete: {
+          args: Prisma.EventCursorDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EventCursorPayload>
+        }
+        update: {
+          args: Prisma.EventCursorUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EventCursorPayload>
+        }
+        deleteMany: {
+          args: Prisma.EventCursorDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.EventCursorUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.EventCursorUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EventCursorPayload>[]
+        }
+        upsert: {
+          args: Prisma.EventCursorUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EventCursorPayload>
+        }
+        aggregate: {
+          args: Prisma.EventCursorAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateEventCursor>
+        }
+        groupBy: {
+          args: Prisma.EventCursorGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.EventCursorGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.EventCursorCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.EventCursorCountAggregateOutputType> | number
+        }
+      }
+    }
+    PriceWatch: {
+      payload: Prisma.$PriceWatchPayload<ExtArgs>
+      fields: Prisma.PriceWatchFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.PriceWatchFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PriceWatchPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.PriceWatchFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PriceWatchPayload>
+        }
+        findFirst: {
+          args: Prisma.PriceWatchFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PriceWatchPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.PriceWatchFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PriceWatchPayload>
+        }
+        findMany: {
+          args: Prisma.PriceWatchFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PriceWatchPayload>[]
+        }
+        create: {
+          args: Prisma.PriceWatchCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PriceWatchPayload>
+        }
+        createMany: {
+          args: Prisma.PriceWatchCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.PriceWatchCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PriceWatchPayload>[]
+        }
+        delete: {
+          args: Prisma.PriceWatchDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PriceWatchPayload>
+        }
+        update: {
+          args: Prisma.PriceWatchUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PriceWatchPayload>
+        }
+        deleteMany: {
+          args: Prisma.PriceWatchDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.PriceWatchUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.PriceWatchUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PriceWatchPayload>[]
+        }
+        upsert: {
+          args: Prisma.PriceWatchUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PriceWatchPayload>
+        }
+        aggregate: {
+          args: Prisma.PriceWatchAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregatePriceWatch>
+        }
+        groupBy: {
+          args: Prisma.PriceWatchGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PriceWatchGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.PriceWatchCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PriceWatchCountAggregateOutputType> | number
+        }
+      }
+    }
+    WebhookEndpoint: {
+      payload: Prisma.$WebhookEndpointPayload<ExtArgs>
+      fields: Prisma.WebhookEndpointFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.WebhookEndpointFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEndpointPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.WebhookEndpointFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEndpointPayload>
+        }
+        findFirst: {
+          args: Prisma.WebhookEndpointFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEndpointPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.WebhookEndpointFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEndpointPayload>
+        }
+        findMany: {
+          args: Prisma.WebhookEndpointFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEndpointPayload>[]
+        }
+        create: {
+          args: Prisma.WebhookEndpointCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEndpointPayload>
+        }
+        createMany: {
+          args: Prisma.WebhookEndpointCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.WebhookEndpointCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEndpointPayload>[]
+        }
+        delete: {
+          args: Prisma.WebhookEndpointDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEndpointPayload>
+        }
+        update: {
+          args: Prisma.WebhookEndpointUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEndpointPayload>
+        }
+        deleteMany: {
+          args: Prisma.WebhookEndpointDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.WebhookEndpointUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.WebhookEndpointUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEndpointPayload>[]
+        }
+        upsert: {
+          args: Prisma.WebhookEndpointUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEndpointPayload>
+        }
+        aggregate: {
+          args: Prisma.WebhookEndpointAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateWebhookEndpoint>
+        }
+        groupBy: {
+          args: Prisma.WebhookEndpointGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WebhookEndpointGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.WebhookEndpointCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WebhookEndpointCountAggregateOutputType> | number
+        }
+      }
+    }
+    SchedulerLease: {
+      payload: Prisma.$SchedulerLeasePayload<ExtArgs>
+      fields: Prisma.SchedulerLeaseFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SchedulerLeaseFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SchedulerLeasePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SchedulerLeaseFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SchedulerLeasePayload>
+        }
+        findFirst: {
+          args: Prisma.SchedulerLeaseFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SchedulerLeasePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SchedulerLeaseFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SchedulerLeasePayload>
+        }
+        findMany: {
+          args: Prisma.SchedulerLeaseFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SchedulerLeasePayload>[]
+        }
+        create: {
+          args: Prisma.SchedulerLeaseCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SchedulerLeasePayload>
+        }
+        createMany: {
+          args: Prisma.SchedulerLeaseCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SchedulerLeaseCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SchedulerLeasePayload>[]
+        }
+        delete: {
+          args: Prisma.SchedulerLeaseDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SchedulerLeasePayload>
+        }
+        update: {
+          args: Prisma.SchedulerLeaseUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SchedulerLeasePayload>
+        }
+        deleteMany: {
+          args: Prisma.SchedulerLeaseDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SchedulerLeaseUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SchedulerLeaseUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SchedulerLeasePayload>[]
+        }
+        upsert: {
+          args: Prisma.SchedulerLeaseUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SchedulerLeasePayload>
+        }
+        aggregate: {
+          args: Prisma.SchedulerLeaseAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSchedulerLease>
+        }
+        groupBy: {
+          args: Prisma.SchedulerLeaseGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SchedulerLeaseGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SchedulerLeaseCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SchedulerLeaseCountAggregateOutputType> | number
+        }
+      }
+    }
     RateLimit: {
       payload: Prisma.$RateLimitPayload<ExtArgs>
       fields: Prisma.RateLimitFieldRefs
@@ -1008,13 +1758,19 @@ export type PromptScalarFieldEnum = (typeof PromptScalarFieldEnum)[keyof typeof
 
 export const WorkflowScalarFieldEnum = {
   id: 'id',
+  userId: 'userId',
+  name: 'name',
   promptId: 'promptId',
   workflowData: 'workflowData',
+  version: 'version',
   executionStatus: 'executionStatus',
+  activationState: 'activationState',
   isActive: 'isActive',
   triggerType: 'triggerType',
   cronExpression: 'cronExpression',
+  timezone: 'timezone',
   triggerConfig: 'triggerConfig',
+  activatedAt: 'activatedAt',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -1022,6 +1778,156 @@ export const WorkflowScalarFieldEnum = {
 export type WorkflowScalarFieldEnum = (typeof WorkflowScalarFieldEnum)[keyof typeof WorkflowScalarFieldEnum]
 
 
+export const WorkflowVersionScalarFieldEnum = {
+  id: 'id',
+  workflowId: 'workflowId',
+  version: 'version',
+  workflowData: 'workflowData',
+  authorWallet: 'authorWallet',
+  message: 'message',
+  createdAt: 'createdAt'
+} as const
+
+export type WorkflowVersionScalarFieldEnum = (typeof WorkflowVersionScalarFieldEnum)[keyof typeof WorkflowVersionScalarFieldEnum]
+
+
+export const OnChainWorkflowScalarFieldEnum = {
+  id: 'id',
+  workflowId: 'workflowId',
+  ownerAddress: 'ownerAddress',
+  onChainId: 'onChainId',
+  graphHash: 'graphHash',
+  nodeIdMap: 'nodeIdMap',
+  registrationTxHash: 'registrationTxHash',
+  createdAt: 'createdAt'
+} as const
+
+export type OnChainWorkflowScalarFieldEnum = (typeof OnChainWorkflowScalarFieldEnum)[keyof typeof OnChainWorkflowScalarFieldEnum]
+
+
+export const WorkflowRunScalarFieldEnum = {
+  id: 'id',
+  workflowId: 'workflowId',
+  onChainWorkflowId: 'onChainWorkflowId',
+  status: 'status',
+  trigger: 'trigger',
+  version: 'version',
+  idempotencyKey: 'idempotencyKey',
+  triggerContext: 'triggerContext',
+  conditionTrace: 'conditionTrace',
+  txHash: 'txHash',
+  totalSteps: 'totalSteps',
+  gasUsed: 'gasUsed',
+  vmStatus: 'vmStatus',
+  errorMessage: 'errorMessage',
+  errorCode: 'errorCode',
+  errorNodeId: 'errorNodeId',
+  startedAt: 'startedAt',
+  completedAt: 'completedAt'
+} as const
+
+export type WorkflowRunScalarFieldEnum = (typeof WorkflowRunScalarFieldEnum)[keyof typeof WorkflowRunScalarFieldEnum]
+
+
+export const WorkflowRunStepScalarFieldEnum = {
+  id: 'id',
+  runId: 'runId',
+  sequence: 'sequence',
+  nodeId: 'nodeId',
+  canvasNodeId: 'canvasNodeId',
+  nodeType: 'nodeType',
+  success: 'success',
+  errorCode: 'errorCode',
+  createdAt: 'createdAt'
+} as const
+
+export type WorkflowRunStepScalarFieldEnum = (typeof WorkflowRunStepScalarFieldEnum)[keyof typeof WorkflowRunStepScalarFieldEnum]
+
+
+export const WorkflowResumptionScalarFieldEnum = {
+  id: 'id',
+  runId: 'runId',
+  workflowId: 'workflowId',
+  waitNodeId: 'waitNodeId',
+  resumeNodeId: 'resumeNodeId',
+  resumeAt: 'resumeAt',
+  status: 'status',
+  resumedRunId: 'resumedRunId',
+  attempts: 'attempts',
+  lastError: 'lastError',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type WorkflowResumptionScalarFieldEnum = (typeof WorkflowResumptionScalarFieldEnum)[keyof typeof WorkflowResumptionScalarFieldEnum]
+
+
+export const ScheduleFireScalarFieldEnum = {
+  id: 'id',
+  workflowId: 'workflowId',
+  scheduledFor: 'scheduledFor',
+  status: 'status',
+  catchUp: 'catchUp',
+  runId: 'runId',
+  error: 'error',
+  createdAt: 'createdAt'
+} as const
+
+export type ScheduleFireScalarFieldEnum = (typeof ScheduleFireScalarFieldEnum)[keyof typeof ScheduleFireScalarFieldEnum]
+
+
+export const EventCursorScalarFieldEnum = {
+  id: 'id',
+  workflowId: 'workflowId',
+  streamKey: 'streamKey',
+  transactionVersion: 'transactionVersion',
+  eventIndex: 'eventIndex',
+  updatedAt: 'updatedAt'
+} as const
+
+export type EventCursorScalarFieldEnum = (typeof EventCursorScalarFieldEnum)[keyof typeof EventCursorScalarFieldEnum]
+
+
+export const PriceWatchScalarFieldEnum = {
+  id: 'id',
+  workflowId: 'workflowId',
+  configKey: 'configKey',
+  conditionMet: 'conditionMet',
+  lastPrice: 'lastPrice',
+  checkedAt: 'checkedAt',
+  lastFiredAt: 'lastFiredAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type PriceWatchScalarFieldEnum = (typeof PriceWatchScalarFieldEnum)[keyof typeof PriceWatchScalarFieldEnum]
+
+
+export const WebhookEndpointScalarFieldEnum = {
+  id: 'id',
+  workflowId: 'workflowId',
+  token: 'token',
+  secret: 'secret',
+  previousSecret: 'previousSecret',
+  previousExpiresAt: 'previousExpiresAt',
+  lastDeliveryAt: 'lastDeliveryAt',
+  rotatedAt: 'rotatedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type WebhookEndpointScalarFieldEnum = (typeof WebhookEndpointScalarFieldEnum)[keyof typeof WebhookEndpointScalarFieldEnum]
+
+
+export const SchedulerLeaseScalarFieldEnum = {
+  name: 'name',
+  holderId: 'holderId',
+  expiresAt: 'expiresAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type SchedulerLeaseScalarFieldEnum = (typeof SchedulerLeaseScalarFieldEnum)[keyof typeof SchedulerLeaseScalarFieldEnum]
+
+
 export const RateLimitScalarFieldEnum = {
   id: 'id',
   walletAddress: 'walletAddress',
@@ -1194,6 +2100,20 @@ export type EnumQueryModeFieldRefInput<$PrismaModel> = FieldRefInputType<$Prisma
     
 
 
+/**
+ * Reference to a field of type 'Int'
+ */
+export type IntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int'>
+    
+
+
+/**
+ * Reference to a field of type 'Int[]'
+ */
+export type ListIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int[]'>
+    
+
+
 /**
  * Reference to a field of type 'ExecutionStatus'
  */
@@ -1208,6 +2128,20 @@ export type ListEnumExecutionStatusFieldRefInput<$PrismaModel> = FieldRefInputTy
     
 
 
+/**
+ * Reference to a field of type 'ActivationState'
+ */
+export type EnumActivationStateFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ActivationState'>
+    
+
+
+/**
+ * Reference to a field of type 'ActivationState[]'
+ */
+export type ListEnumActivationStateFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ActivationState[]'>
+    
+
+
 /**
  * Reference to a field of type 'Boolean'
  */
@@ -1216,16 +2150,30 @@ export type BooleanFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel,
 
 
 /**
- * Reference to a field of type 'Int'
+ * Reference to a field of type 'ResumptionStatus'
  */
-export type IntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int'>
+export type EnumResumptionStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ResumptionStatus'>
     
 
 
 /**
- * Reference to a field of type 'Int[]'
+ * Reference to a field of type 'ResumptionStatus[]'
  */
-export type ListIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int[]'>
+export type ListEnumResumptionStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ResumptionStatus[]'>
+    
+
+
+/**
+ * Reference to a field of type 'ScheduleFireStatus'
+ */
+export type EnumScheduleFireStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ScheduleFireStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'ScheduleFireStatus[]'
+ */
+export type ListEnumScheduleFireStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ScheduleFireStatus[]'>
     
 
 
@@ -1325,6 +2273,16 @@ export type GlobalOmitConfig = {
   payment?: Prisma.PaymentOmit
   prompt?: Prisma.PromptOmit
   workflow?: Prisma.WorkflowOmit
+  workflowVersion?: Prisma.WorkflowVersionOmit
+  onChainWorkflow?: Prisma.OnChainWorkflowOmit
+  workflowRun?: Prisma.WorkflowRunOmit
+  workflowRunStep?: Prisma.WorkflowRunStepOmit
+  workflowResumption?: Prisma.WorkflowResumptionOmit
+  scheduleFire?: Prisma.ScheduleFireOmit
+  eventCursor?: Prisma.EventCursorOmit
+  priceWatch?: Prisma.PriceWatchOmit
+  webhookEndpoint?: Prisma.WebhookEndpointOmit
+  schedulerLease?: Prisma.SchedulerLeaseOmit
   rateLimit?: Prisma.RateLimitOmit
   chatConversation?: Prisma.ChatConversationOmit
   chatMessage?: Prisma.ChatMessageOmit
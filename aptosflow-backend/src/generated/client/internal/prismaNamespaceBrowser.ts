@@ -55,6 +55,16 @@ export const ModelName = {
   Payment: 'Payment',
   Prompt: 'Prompt',
   Workflow: 'Workflow',
+  WorkflowVersion: 'WorkflowVersion',
+  OnChainWorkflow: 'OnChainWorkflow',
+  WorkflowRun: 'WorkflowRun',
+  WorkflowRunStep: 'WorkflowRunStep',
+  WorkflowResumption: 'WorkflowResumption',
+  ScheduleFire: 'ScheduleFire',
+  EventCursor: 'EventCursor',
+  PriceWatch: 'PriceWatch',
+  WebhookEndpoint: 'WebhookEndpoint',
+  SchedulerLease: 'SchedulerLease',
   RateLimit: 'RateLimit',
   ChatConversation: 'ChatConversation',
   ChatMessage: 'ChatMessage'
@@ -117,13 +127,19 @@ export type PromptScalarFieldEnum = (typeof PromptScalarFieldEnum)[keyof typeof
 
 export const WorkflowScalarFieldEnum = {
   id: 'id',
+  userId: 'userId',
+  name: 'name',
   promptId: 'promptId',
   workflowData: 'workflowData',
+  version: 'version',
   executionStatus: 'executionStatus',
+  activationState: 'activationState',
   isActive: 'isActive',
   triggerType: 'triggerType',
   cronExpression: 'cronExpression',
+  timezone: 'timezone',
   triggerConfig: 'triggerConfig',
+  activatedAt: 'activatedAt',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -131,6 +147,156 @@ export const WorkflowScalarFieldEnum = {
 export type WorkflowScalarFieldEnum = (typeof WorkflowScalarFieldEnum)[keyof typeof WorkflowScalarFieldEnum]
 
 
+export const WorkflowVersionScalarFieldEnum = {
+  id: 'id',
+  workflowId: 'workflowId',
+  version: 'version',
+  workflowData: 'workflowData',
+  authorWallet: 'authorWallet',
+  message: 'message',
+  createdAt: 'createdAt'
+} as const
+
+export type WorkflowVersionScalarFieldEnum = (typeof WorkflowVersionScalarFieldEnum)[keyof typeof WorkflowVersionScalarFieldEnum]
+
+
+export const OnChainWorkflowScalarFieldEnum = {
+  id: 'id',
+  workflowId: 'workflowId',
+  ownerAddress: 'ownerAddress',
+  onChainId: 'onChainId',
+  graphHash: 'graphHash',
+  nodeIdMap: 'nodeIdMap',
+  registrationTxHash: 'registrationTxHash',
+  createdAt: 'createdAt'
+} as const
+
+export type OnChainWorkflowScalarFieldEnum = (typeof OnChainWorkflowScalarFieldEnum)[keyof typeof OnChainWorkflowScalarFieldEnum]
+
+
+export const WorkflowRunScalarFieldEnum = {
+  id: 'id',
+  workflowId: 'workflowId',
+  onChainWorkflowId: 'onChainWorkflowId',
+  status: 'status',
+  trigger: 'trigger',
+  version: 'version',
+  idempotencyKey: 'idempotencyKey',
+  triggerContext: 'triggerContext',
+  conditionTrace: 'conditionTrace',
+  txHash: 'txHash',
+  totalSteps: 'totalSteps',
+  gasUsed: 'gasUsed',
+  vmStatus: 'vmStatus',
+  errorMessage: 'errorMessage',
+  errorCode: 'errorCode',
+  errorNodeId: 'errorNodeId',
+  startedAt: 'startedAt',
+  completedAt: 'completedAt'
+} as const
+
+export type WorkflowRunScalarFieldEnum = (typeof WorkflowRunScalarFieldEnum)[keyof typeof WorkflowRunScalarFieldEnum]
+
+
+export const WorkflowRunStepScalarFieldEnum = {
+  id: 'id',
+  runId: 'runId',
+  sequence: 'sequence',
+  nodeId: 'nodeId',
+  canvasNodeId: 'canvasNodeId',
+  nodeType: 'nodeType',
+  success: 'success',
+  errorCode: 'errorCode',
+  createdAt: 'createdAt'
+} as const
+
+export type WorkflowRunStepScalarFieldEnum = (typeof WorkflowRunStepScalarFieldEnum)[keyof typeof WorkflowRunStepScalarFieldEnum]
+
+
+export const WorkflowResumptionScalarFieldEnum = {
+  id: 'id',
+  runId: 'runId',
+  workflowId: 'workflowId',
+  waitNodeId: 'waitNodeId',
+  resumeNodeId: 'resumeNodeId',
+  resumeAt: 'resumeAt',
+  status: 'status',
+  resumedRunId: 'resumedRunId',
+  attempts: 'attempts',
+  lastError: 'lastError',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type WorkflowResumptionScalarFieldEnum = (typeof WorkflowResumptionScalarFieldEnum)[keyof typeof WorkflowResumptionScalarFieldEnum]
+
+
+export const ScheduleFireScalarFieldEnum = {
+  id: 'id',
+  workflowId: 'workflowId',
+  scheduledFor: 'scheduledFor',
+  status: 'status',
+  catchUp: 'catchUp',
+  runId: 'runId',
+  error: 'error',
+  createdAt: 'createdAt'
+} as const
+
+export type ScheduleFireScalarFieldEnum = (typeof ScheduleFireScalarFieldEnum)[keyof typeof ScheduleFireScalarFieldEnum]
+
+
+export const EventCursorScalarFieldEnum = {
+  id: 'id',
+  workflowId: 'workflowId',
+  streamKey: 'streamKey',
+  transactionVersion: 'transactionVersion',
+  eventIndex: 'eventIndex',
+  updatedAt: 'updatedAt'
+} as const
+
+export type EventCursorScalarFieldEnum = (typeof EventCursorScalarFieldEnum)[keyof typeof EventCursorScalarFieldEnum]
+
+
+export const PriceWatchScalarFieldEnum = {
+  id: 'id',
+  workflowId: 'workflowId',
+  configKey: 'configKey',
+  conditionMet: 'conditionMet',
+  lastPrice: 'lastPrice',
+  checkedAt: 'checkedAt',
+  lastFiredAt: 'lastFiredAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type PriceWatchScalarFieldEnum = (typeof PriceWatchScalarFieldEnum)[keyof typeof PriceWatchScalarFieldEnum]
+
+
+export const WebhookEndpointScalarFieldEnum = {
+  id: 'id',
+  workflowId: 'workflowId',
+  token: 'token',
+  secret: 'secret',
+  previousSecret: 'previousSecret',
+  previousExpiresAt: 'previousExpiresAt',
+  lastDeliveryAt: 'lastDeliveryAt',
+  rotatedAt: 'rotatedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type WebhookEndpointScalarFieldEnum = (typeof WebhookEndpointScalarFieldEnum)[keyof typeof WebhookEndpointScalarFieldEnum]
+
+
+export const SchedulerLeaseScalarFieldEnum = {
+  name: 'name',
+  holderId: 'holderId',
+  expiresAt: 'expiresAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type SchedulerLeaseScalarFieldEnum = (typeof SchedulerLeaseScalarFieldEnum)[keyof typeof SchedulerLeaseScalarFieldEnum]
+
+
 export const RateLimitScalarFieldEnum = {
   id: 'id',
   walletAddress: 'walletAddress',
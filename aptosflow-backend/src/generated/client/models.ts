@@ -12,6 +12,16 @@ export type * from './models/User'
 export type * from './models/Payment'
 export type * from './models/Prompt'
 export type * from './models/Workflow'
+export type * from './models/WorkflowVersion'
+export type * from './models/OnChainWorkflow'
+export type * from './models/WorkflowRun'
+export type * from './models/WorkflowRunStep'
+export type * from './models/WorkflowResumption'
+export type * from './models/ScheduleFire'
+export type * from './models/EventCursor'
+export type * from './models/PriceWatch'
+export type * from './models/WebhookEndpoint'
+export type * from './models/SchedulerLease'
 export type * from './models/RateLimit'
 export type * from './models/ChatConversation'
 export type * from './models/ChatMessage'
@@ -0,0 +1,1431 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `EventCursor` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model EventCursor
+ * 
+ */
+export type EventCursorModel = runtime.Types.Result.DefaultSelection<Prisma.$EventCursorPayload>
+
+export type AggregateEventCursor = {
+  _count: EventCursorCountAggregateOutputType | null
+  _avg: EventCursorAvgAggregateOutputType | null
+  _sum: EventCursorSumAggregateOutputType | null
+  _min: EventCursorMinAggregateOutputType | null
+  _max: EventCursorMaxAggregateOutputType | null
+}
+
+export type EventCursorAvgAggregateOutputType = {
+  transactionVersion: number | null
+  eventIndex: number | null
+}
+
+export type EventCursorSumAggregateOutputType = {
+  transactionVersion: bigint | null
+  eventIndex: number | null
+}
+
+export type EventCursorMinAggregateOutputType = {
+  id: string | null
+  workflowId: string | null
+  streamKey: string | null
+  transactionVersion: bigint | null
+  eventIndex: number | null
+  updatedAt: Date | null
+}
+
+export type EventCursorMaxAggregateOutputType = {
+  id: string | null
+  workflowId: string | null
+  streamKey: string | null
+  transactionVersion: bigint | null
+  eventIndex: number | null
+  updatedAt: Date | null
+}
+
+export type EventCursorCountAggregateOutputType = {
+  id: number
+  workflowId: number
+  streamKey: number
+  transactionVersion: number
+  eventIndex: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type EventCursorAvgAggregateInputType = {
+  transactionVersion?: true
+  eventIndex?: true
+}
+
+export type EventCursorSumAggregateInputType = {
+  transactionVersion?: true
+  eventIndex?: true
+}
+
+export type EventCursorMinAggregateInputType = {
+  id?: true
+  workflowId?: true
+  streamKey?: true
+  transactionVersion?: true
+  eventIndex?: true
+  updatedAt?: true
+}
+
+export type EventCursorMaxAggregateInputType = {
+  id?: true
+  workflowId?: true
+  streamKey?: true
+  transactionVersion?: true
+  eventIndex?: true
+  updatedAt?: true
+}
+
+export type EventCursorCountAggregateInputType = {
+  id?: true
+  workflowId?: true
+  streamKey?: true
+  transactionVersion?: true
+  eventIndex?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type EventCursorAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which EventCursor to aggregate.
+   */
+  where?: Prisma.EventCursorWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EventCursors to fetch.
+   */
+  orderBy?: Prisma.EventCursorOrderByWithRelationInput | Prisma.EventCursorOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.EventCursorWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EventCursors from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EventCursors.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned EventCursors
+  **/
+  _count?: true | EventCursorCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: EventCursorAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: EventCursorSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: EventCursorMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: EventCursorMaxAggregateInputType
+}
+
+export type GetEventCursorAggregateType<T extends EventCursorAggregateArgs> = {
+      [P in keyof T & keyof AggregateEventCursor]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateEventCursor[P]>
+    : Prisma.GetScalarType<T[P], AggregateEventCursor[P]>
+}
+
+
+
+
+export type EventCursorGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.EventCursorWhereInput
+  orderBy?: Prisma.EventCursorOrderByWithAggregationInput | Prisma.EventCursorOrderByWithAggregationInput[]
+  by: Prisma.EventCursorScalarFieldEnum[] | Prisma.EventCursorScalarFieldEnum
+  having?: Prisma.EventCursorScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: EventCursorCountAggregateInputType | true
+  _avg?: EventCursorAvgAggregateInputType
+  _sum?: EventCursorSumAggregateInputType
+  _min?: EventCursorMinAggregateInputType
+  _max?: EventCursorMaxAggregateInputType
+}
+
+export type EventCursorGroupByOutputType = {
+  id: string
+  workflowId: string
+  streamKey: string
+  transactionVersion: bigint
+  eventIndex: number
+  updatedAt: Date
+  _count: EventCursorCountAggregateOutputType | null
+  _avg: EventCursorAvgAggregateOutputType | null
+  _sum: EventCursorSumAggregateOutputType | null
+  _min: EventCursorMinAggregateOutputType | null
+  _max: EventCursorMaxAggregateOutputType | null
+}
+
+type GetEventCursorGroupByPayload<T extends EventCursorGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<EventCursorGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof EventCursorGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], EventCursorGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], EventCursorGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type EventCursorWhereInput = {
+  AND?: Prisma.EventCursorWhereInput | Prisma.EventCursorWhereInput[]
+  OR?: Prisma.EventCursorWhereInput[]
+  NOT?: Prisma.EventCursorWhereInput | Prisma.EventCursorWhereInput[]
+  id?: Prisma.StringFilter<"EventCursor"> | string
+  workflowId?: Prisma.StringFilter<"EventCursor"> | string
+  streamKey?: Prisma.StringFilter<"EventCursor"> | string
+  transactionVersion?: Prisma.BigIntFilter<"EventCursor"> | bigint | number
+  eventIndex?: Prisma.IntFilter<"EventCursor"> | number
+  updatedAt?: Prisma.DateTimeFilter<"EventCursor"> | Date | string
+  workflow?: Prisma.XOR<Prisma.WorkflowScalarRelationFilter, Prisma.WorkflowWhereInput>
+}
+
+export type EventCursorOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  streamKey?: Prisma.SortOrder
+  transactionVersion?: Prisma.SortOrder
+  eventIndex?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  workflow?: Prisma.WorkflowOrderByWithRelationInput
+}
+
+export type EventCursorWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  workflowId_streamKey?: Prisma.EventCursorWorkflowIdStreamKeyCompoundUniqueInput
+  AND?: Prisma.EventCursorWhereInput | Prisma.EventCursorWhereInput[]
+  OR?: Prisma.EventCursorWhereInput[]
+  NOT?: Prisma.EventCursorWhereInput | Prisma.EventCursorWhereInput[]
+  workflowId?: Prisma.StringFilter<"EventCursor"> | string
+  streamKey?: Prisma.StringFilter<"EventCursor"> | string
+  transactionVersion?: Prisma.BigIntFilter<"EventCursor"> | bigint | number
+  eventIndex?: Prisma.IntFilter<"EventCursor"> | number
+  updatedAt?: Prisma.DateTimeFilter<"EventCursor"> | Date | string
+  workflow?: Prisma.XOR<Prisma.WorkflowScalarRelationFilter, Prisma.WorkflowWhereInput>
+}, "id" | "workflowId_streamKey">
+
+export type EventCursorOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  streamKey?: Prisma.SortOrder
+  transactionVersion?: Prisma.SortOrder
+  eventIndex?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.EventCursorCountOrderByAggregateInput
+  _avg?: Prisma.EventCursorAvgOrderByAggregateInput
+  _max?: Prisma.EventCursorMaxOrderByAggregateInput
+  _min?: Prisma.EventCursorMinOrderByAggregateInput
+  _sum?: Prisma.EventCursorSumOrderByAggregateInput
+}
+
+export type EventCursorScalarWhereWithAggregatesInput = {
+  AND?: Prisma.EventCursorScalarWhereWithAggregatesInput | Prisma.EventCursorScalarWhereWithAggregatesInput[]
+  OR?: Prisma.EventCursorScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.EventCursorScalarWhereWithAggregatesInput | Prisma.EventCursorScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"EventCursor"> | string
+  workflowId?: Prisma.StringWithAggregatesFilter<"EventCursor"> | string
+  streamKey?: Prisma.StringWithAggregatesFilter<"EventCursor"> | string
+  transactionVersion?: Prisma.BigIntWithAggregatesFilter<"EventCursor"> | bigint | number
+  eventIndex?: Prisma.IntWithAggregatesFilter<"EventCursor"> | number
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"EventCursor"> | Date | string
+}
+
+export type EventCursorCreateInput = {
+  id?: string
+  streamKey: string
+  transactionVersion: bigint | number
+  eventIndex: number
+  updatedAt?: Date | string
+  workflow: Prisma.WorkflowCreateNestedOneWithoutEventCursorsInput
+}
+
+export type EventCursorUncheckedCreateInput = {
+  id?: string
+  workflowId: string
+  streamKey: string
+  transactionVersion: bigint | number
+  eventIndex: number
+  updatedAt?: Date | string
+}
+
+export type EventCursorUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  streamKey?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionVersion?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  eventIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  workflow?: Prisma.WorkflowUpdateOneRequiredWithoutEventCursorsNestedInput
+}
+
+export type EventCursorUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  streamKey?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionVersion?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  eventIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type EventCursorCreateManyInput = {
+  id?: string
+  workflowId: string
+  streamKey: string
+  transactionVersion: bigint | number
+  eventIndex: number
+  updatedAt?: Date | string
+}
+
+export type EventCursorUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  streamKey?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionVersion?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  eventIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type EventCursorUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  streamKey?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionVersion?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  eventIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type EventCursorListRelationFilter = {
+  every?: Prisma.EventCursorWhereInput
+  some?: Prisma.EventCursorWhereInput
+  none?: Prisma.EventCursorWhereInput
+}
+
+export type EventCursorOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type EventCursorWorkflowIdStreamKeyCompoundUniqueInput = {
+  workflowId: string
+  streamKey: string
+}
+
+export type EventCursorCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  streamKey?: Prisma.SortOrder
+  transactionVersion?: Prisma.SortOrder
+  eventIndex?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type EventCursorAvgOrderByAggregateInput = {
+  transactionVersion?: Prisma.SortOrder
+  eventIndex?: Prisma.SortOrder
+}
+
+export type EventCursorMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  streamKey?: Prisma.SortOrder
+  transactionVersion?: Prisma.SortOrder
+  eventIndex?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type EventCursorMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  streamKey?: Prisma.SortOrder
+  transactionVersion?: Prisma.SortOrder
+  eventIndex?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type EventCursorSumOrderByAggregateInput = {
+  transactionVersion?: Prisma.SortOrder
+  eventIndex?: Prisma.SortOrder
+}
+
+export type EventCursorCreateNestedManyWithoutWorkflowInput = {
+  create?: Prisma.XOR<Prisma.EventCursorCreateWithoutWorkflowInput, Prisma.EventCursorUncheckedCreateWithoutWorkflowInput> | Prisma.EventCursorCreateWithoutWorkflowInput[] | Prisma.EventCursorUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.EventCursorCreateOrConnectWithoutWorkflowInput | Prisma.EventCursorCreateOrConnectWithoutWorkflowInput[]
+  createMany?: Prisma.EventCursorCreateManyWorkflowInputEnvelope
+  connect?: Prisma.EventCursorWhereUniqueInput | Prisma.EventCursorWhereUniqueInput[]
+}
+
+export type EventCursorUncheckedCreateNestedManyWithoutWorkflowInput = {
+  create?: Prisma.XOR<Prisma.EventCursorCreateWithoutWorkflowInput, Prisma.EventCursorUncheckedCreateWithoutWorkflowInput> | Prisma.EventCursorCreateWithoutWorkflowInput[] | Prisma.EventCursorUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.EventCursorCreateOrConnectWithoutWorkflowInput | Prisma.EventCursorCreateOrConnectWithoutWorkflowInput[]
+  createMany?: Prisma.EventCursorCreateManyWorkflowInputEnvelope
+  connect?: Prisma.EventCursorWhereUniqueInput | Prisma.EventCursorWhereUniqueInput[]
+}
+
+export type EventCursorUpdateManyWithoutWorkflowNestedInput = {
+  create?: Prisma.XOR<Prisma.EventCursorCreateWithoutWorkflowInput, Prisma.EventCursorUncheckedCreateWithoutWorkflowInput> | Prisma.EventCursorCreateWithoutWorkflowInput[] | Prisma.EventCursorUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.EventCursorCreateOrConnectWithoutWorkflowInput | Prisma.EventCursorCreateOrConnectWithoutWorkflowInput[]
+  upsert?: Prisma.EventCursorUpsertWithWhereUniqueWithoutWorkflowInput | Prisma.EventCursorUpsertWithWhereUniqueWithoutWorkflowInput[]
+  createMany?: Prisma.EventCursorCreateManyWorkflowInputEnvelope
+  set?: Prisma.EventCursorWhereUniqueInput | Prisma.EventCursorWhereUniqueInput[]
+  disconnect?: Prisma.EventCursorWhereUniqueInput | Prisma.EventCursorWhereUniqueInput[]
+  delete?: Prisma.EventCursorWhereUniqueInput | Prisma.EventCursorWhereUniqueInput[]
+  connect?: Prisma.EventCursorWhereUniqueInput | Prisma.EventCursorWhereUniqueInput[]
+  update?: Prisma.EventCursorUpdateWithWhereUniqueWithoutWorkflowInput | Prisma.EventCursorUpdateWithWhereUniqueWithoutWorkflowInput[]
+  updateMany?: Prisma.EventCursorUpdateManyWithWhereWithoutWorkflowInput | Prisma.EventCursorUpdateManyWithWhereWithoutWorkflowInput[]
+  deleteMany?: Prisma.EventCursorScalarWhereInput | Prisma.EventCursorScalarWhereInput[]
+}
+
+export type EventCursorUncheckedUpdateManyWithoutWorkflowNestedInput = {
+  create?: Prisma.XOR<Prisma.EventCursorCreateWithoutWorkflowInput, Prisma.EventCursorUncheckedCreateWithoutWorkflowInput> | Prisma.EventCursorCreateWithoutWorkflowInput[] | Prisma.EventCursorUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.EventCursorCreateOrConnectWithoutWorkflowInput | Prisma.EventCursorCreateOrConnectWithoutWorkflowInput[]
+  upsert?: Prisma.EventCursorUpsertWithWhereUniqueWithoutWorkflowInput | Prisma.EventCursorUpsertWithWhereUniqueWithoutWorkflowInput[]
+  createMany?: Prisma.EventCursorCreateManyWorkflowInputEnvelope
+  set?: Prisma.EventCursorWhereUniqueInput | Prisma.EventCursorWhereUniqueInput[]
+  disconnect?: Prisma.EventCursorWhereUniqueInput | Prisma.EventCursorWhereUniqueInput[]
+  delete?: Prisma.EventCursorWhereUniqueInput | Prisma.EventCursorWhereUniqueInput[]
+  connect?: Prisma.EventCursorWhereUniqueInput | Prisma.EventCursorWhereUniqueInput[]
+  update?: Prisma.EventCursorUpdateWithWhereUniqueWithoutWorkflowInput | Prisma.EventCursorUpdateWithWhereUniqueWithoutWorkflowInput[]
+  updateMany?: Prisma.EventCursorUpdateManyWithWhereWithoutWorkflowInput | Prisma.EventCursorUpdateManyWithWhereWithoutWorkflowInput[]
+  deleteMany?: Prisma.EventCursorScalarWhereInput | Prisma.EventCursorScalarWhereInput[]
+}
+
+export type EventCursorCreateWithoutWorkflowInput = {
+  id?: string
+  streamKey: string
+  transactionVersion: bigint | number
+  eventIndex: number
+  updatedAt?: Date | string
+}
+
+export type EventCursorUncheckedCreateWithoutWorkflowInput = {
+  id?: string
+  streamKey: string
+  transactionVersion: bigint | number
+  eventIndex: number
+  updatedAt?: Date | string
+}
+
+export type EventCursorCreateOrConnectWithoutWorkflowInput = {
+  where: Prisma.EventCursorWhereUniqueInput
+  create: Prisma.XOR<Prisma.EventCursorCreateWithoutWorkflowInput, Prisma.EventCursorUncheckedCreateWithoutWorkflowInput>
+}
+
+export type EventCursorCreateManyWorkflowInputEnvelope = {
+  data: Prisma.EventCursorCreateManyWorkflowInput | Prisma.EventCursorCreateManyWorkflowInput[]
+  skipDuplicates?: boolean
+}
+
+export type EventCursorUpsertWithWhereUniqueWithoutWorkflowInput = {
+  where: Prisma.EventCursorWhereUniqueInput
+  update: Prisma.XOR<Prisma.EventCursorUpdateWithoutWorkflowInput, Prisma.EventCursorUncheckedUpdateWithoutWorkflowInput>
+  create: Prisma.XOR<Prisma.EventCursorCreateWithoutWorkflowInput, Prisma.EventCursorUncheckedCreateWithoutWorkflowInput>
+}
+
+export type EventCursorUpdateWithWhereUniqueWithoutWorkflowInput = {
+  where: Prisma.EventCursorWhereUniqueInput
+  data: Prisma.XOR<Prisma.EventCursorUpdateWithoutWorkflowInput, Prisma.EventCursorUncheckedUpdateWithoutWorkflowInput>
+}
+
+export type EventCursorUpdateManyWithWhereWithoutWorkflowInput = {
+  where: Prisma.EventCursorScalarWhereInput
+  data: Prisma.XOR<Prisma.EventCursorUpdateManyMutationInput, Prisma.EventCursorUncheckedUpdateManyWithoutWorkflowInput>
+}
+
+export type EventCursorScalarWhereInput = {
+  AND?: Prisma.EventCursorScalarWhereInput | Prisma.EventCursorScalarWhereInput[]
+  OR?: Prisma.EventCursorScalarWhereInput[]
+  NOT?: Prisma.EventCursorScalarWhereInput | Prisma.EventCursorScalarWhereInput[]
+  id?: Prisma.StringFilter<"EventCursor"> | string
+  workflowId?: Prisma.StringFilter<"EventCursor"> | string
+  streamKey?: Prisma.StringFilter<"EventCursor"> | string
+  transactionVersion?: Prisma.BigIntFilter<"EventCursor"> | bigint | number
+  eventIndex?: Prisma.IntFilter<"EventCursor"> | number
+  updatedAt?: Prisma.DateTimeFilter<"EventCursor"> | Date | string
+}
+
+export type EventCursorCreateManyWorkflowInput = {
+  id?: string
+  streamKey: string
+  transactionVersion: bigint | number
+  eventIndex: number
+  updatedAt?: Date | string
+}
+
+export type EventCursorUpdateWithoutWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  streamKey?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionVersion?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  eventIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type EventCursorUncheckedUpdateWithoutWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  streamKey?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionVersion?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  eventIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type EventCursorUncheckedUpdateManyWithoutWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  streamKey?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionVersion?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  eventIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type EventCursorSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workflowId?: boolean
+  streamKey?: boolean
+  transactionVersion?: boolean
+  eventIndex?: boolean
+  updatedAt?: boolean
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["eventCursor"]>
+
+export type EventCursorSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workflowId?: boolean
+  streamKey?: boolean
+  transactionVersion?: boolean
+  eventIndex?: boolean
+  updatedAt?: boolean
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["eventCursor"]>
+
+export type EventCursorSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workflowId?: boolean
+  streamKey?: boolean
+  transactionVersion?: boolean
+  eventIndex?: boolean
+  updatedAt?: boolean
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["eventCursor"]>
+
+export type EventCursorSelectScalar = {
+  id?: boolean
+  workflowId?: boolean
+  streamKey?: boolean
+  transactionVersion?: boolean
+  eventIndex?: boolean
+  updatedAt?: boolean
+}
+
+export type EventCursorOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "workflowId" | "streamKey" | "transactionVersion" | "eventIndex" | "updatedAt", ExtArgs["result"]["eventCursor"]>
+export type EventCursorInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}
+export type EventCursorIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}
+export type EventCursorIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}
+
+export type $EventCursorPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "EventCursor"
+  objects: {
+    workflow: Prisma.$WorkflowPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    workflowId: string
+    streamKey: string
+    transactionVersion: bigint
+    eventIndex: number
+    updatedAt: Date
+  }, ExtArgs["result"]["eventCursor"]>
+  composites: {}
+}
+
+export type EventCursorGetPayload<S extends boolean | null | undefined | EventCursorDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$EventCursorPayload, S>
+
+export type EventCursorCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<EventCursorFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: EventCursorCountAggregateInputType | true
+  }
+
+export interface EventCursorDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['EventCursor'], meta: { name: 'EventCursor' } }
+  /**
+   * Find zero or one EventCursor that matches the filter.
+   * @param {EventCursorFindUniqueArgs} args - Arguments to find a EventCursor
+   * @example
+   * // Get one EventCursor
+   * const eventCursor = await prisma.eventCursor.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends EventCursorFindUniqueArgs>(args: Prisma.SelectSubset<T, EventCursorFindUniqueArgs<ExtArgs>>): Prisma.Prisma__EventCursorClient<runtime.Types.Result.GetResult<Prisma.$EventCursorPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one EventCursor that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {EventCursorFindUniqueOrThrowArgs} args - Arguments to find a EventCursor
+   * @example
+   * // Get one EventCursor
+   * const eventCursor = await prisma.eventCursor.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends EventCursorFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, EventCursorFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__EventCursorClient<runtime.Types.Result.GetResult<Prisma.$EventCursorPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first EventCursor that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EventCursorFindFirstArgs} args - Arguments to find a EventCursor
+   * @example
+   * // Get one EventCursor
+   * const eventCursor = await prisma.eventCursor.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends EventCursorFindFirstArgs>(args?: Prisma.SelectSubset<T, EventCursorFindFirstArgs<ExtArgs>>): Prisma.Prisma__EventCursorClient<runtime.Types.Result.GetResult<Prisma.$EventCursorPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first EventCursor that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EventCursorFindFirstOrThrowArgs} args - Arguments to find a EventCursor
+   * @example
+   * // Get one EventCursor
+   * const eventCursor = await prisma.eventCursor.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends EventCursorFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, EventCursorFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__EventCursorClient<runtime.Types.Result.GetResult<Prisma.$EventCursorPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more EventCursors that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EventCursorFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all EventCursors
+   * const eventCursors = await prisma.eventCursor.findMany()
+   * 
+   * // Get first 10 EventCursors
+   * const eventCursors = await prisma.eventCursor.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const eventCursorWithIdOnly = await prisma.eventCursor.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends EventCursorFindManyArgs>(args?: Prisma.SelectSubset<T, EventCursorFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EventCursorPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a EventCursor.
+   * @param {EventCursorCreateArgs} args - Arguments to create a EventCursor.
+   * @example
+   * // Create one EventCursor
+   * const EventCursor = await prisma.eventCursor.create({
+   *   data: {
+   *     // ... data to create a EventCursor
+   *   }
+   * })
+   * 
+   */
+  create<T extends EventCursorCreateArgs>(args: Prisma.SelectSubset<T, EventCursorCreateArgs<ExtArgs>>): Prisma.Prisma__EventCursorClient<runtime.Types.Result.GetResult<Prisma.$EventCursorPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many EventCursors.
+   * @param {EventCursorCreateManyArgs} args - Arguments to create many EventCursors.
+   * @example
+   * // Create many EventCursors
+   * const eventCursor = await prisma.eventCursor.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends EventCursorCreateManyArgs>(args?: Prisma.SelectSubset<T, EventCursorCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many EventCursors and returns the data saved in the database.
+   * @param {EventCursorCreateManyAndReturnArgs} args - Arguments to create many EventCursors.
+   * @example
+   * // Create many EventCursors
+   * const eventCursor = await prisma.eventCursor.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many EventCursors and only return the `id`
+   * const eventCursorWithIdOnly = await prisma.eventCursor.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends EventCursorCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, EventCursorCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EventCursorPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a EventCursor.
+   * @param {EventCursorDeleteArgs} args - Arguments to delete one EventCursor.
+   * @example
+   * // Delete one EventCursor
+   * const EventCursor = await prisma.eventCursor.delete({
+   *   where: {
+   *     // ... filter to delete one EventCursor
+   *   }
+   * })
+   * 
+   */
+  delete<T extends EventCursorDeleteArgs>(args: Prisma.SelectSubset<T, EventCursorDeleteArgs<ExtArgs>>): Prisma.Prisma__EventCursorClient<runtime.Types.Result.GetResult<Prisma.$EventCursorPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one EventCursor.
+   * @param {EventCursorUpdateArgs} args - Arguments to update one EventCursor.
+   * @example
+   * // Update one EventCursor
+   * const eventCursor = await prisma.eventCursor.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends EventCursorUpdateArgs>(args: Prisma.SelectSubset<T, EventCursorUpdateArgs<ExtArgs>>): Prisma.Prisma__EventCursorClient<runtime.Types.Result.GetResult<Prisma.$EventCursorPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more EventCursors.
+   * @param {EventCursorDeleteManyArgs} args - Arguments to filter EventCursors to delete.
+   * @example
+   * // Delete a few EventCursors
+   * const { count } = await prisma.eventCursor.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends EventCursorDeleteManyArgs>(args?: Prisma.SelectSubset<T, EventCursorDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more EventCursors.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EventCursorUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many EventCursors
+   * const eventCursor = await prisma.eventCursor.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends EventCursorUpdateManyArgs>(args: Prisma.SelectSubset<T, EventCursorUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more EventCursors and returns the data updated in the database.
+   * @param {EventCursorUpdateManyAndReturnArgs} args - Arguments to update many EventCursors.
+   * @example
+   * // Update many EventCursors
+   * const eventCursor = await prisma.eventCursor.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more EventCursors and only return the `id`
+   * const eventCursorWithIdOnly = await prisma.eventCursor.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends EventCursorUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, EventCursorUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EventCursorPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one EventCursor.
+   * @param {EventCursorUpsertArgs} args - Arguments to update or create a EventCursor.
+   * @example
+   * // Update or create a EventCursor
+   * const eventCursor = await prisma.eventCursor.upsert({
+   *   create: {
+   *     // ... data to create a EventCursor
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the EventCursor we want to update
+   *   }
+   * })
+   */
+  upsert<T extends EventCursorUpsertArgs>(args: Prisma.SelectSubset<T, EventCursorUpsertArgs<ExtArgs>>): Prisma.Prisma__EventCursorClient<runtime.Types.Result.GetResult<Prisma.$EventCursorPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of EventCursors.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EventCursorCountArgs} args - Arguments to filter EventCursors to count.
+   * @example
+   * // Count the number of EventCursors
+   * const count = await prisma.eventCursor.count({
+   *   where: {
+   *     // ... the filter for the EventCursors we want to count
+   *   }
+   * })
+  **/
+  count<T extends EventCursorCountArgs>(
+    args?: Prisma.Subset<T, EventCursorCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], EventCursorCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a EventCursor.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EventCursorAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends EventCursorAggregateArgs>(args: Prisma.Subset<T, EventCursorAggregateArgs>): Prisma.PrismaPromise<GetEventCursorAggregateType<T>>
+
+  /**
+   * Group by EventCursor.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EventCursorGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends EventCursorGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: EventCursorGroupByArgs['orderBy'] }
+      : { orderBy?: EventCursorGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, EventCursorGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetEventCursorGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the EventCursor model
+ */
+readonly fields: EventCursorFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for EventCursor.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__EventCursorClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  workflow<T extends Prisma.WorkflowDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WorkflowDefaultArgs<ExtArgs>>): Prisma.Prisma__WorkflowClient<runtime.Types.Result.GetResult<Prisma.$WorkflowPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the EventCursor model
+ */
+export interface EventCursorFieldRefs {
+  readonly id: Prisma.FieldRef<"EventCursor", 'String'>
+  readonly workflowId: Prisma.FieldRef<"EventCursor", 'String'>
+  readonly streamKey: Prisma.FieldRef<"EventCursor", 'String'>
+  readonly transactionVersion: Prisma.FieldRef<"EventCursor", 'BigInt'>
+  readonly eventIndex: Prisma.FieldRef<"EventCursor", 'Int'>
+  readonly updatedAt: Prisma.FieldRef<"EventCursor", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * EventCursor findUnique
+ */
+export type EventCursorFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EventCursor
+   */
+  select?: Prisma.EventCursorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EventCursor
+   */
+  omit?: Prisma.EventCursorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EventCursorInclude<ExtArgs> | null
+  /**
+   * Filter, which EventCursor to fetch.
+   */
+  where: Prisma.EventCursorWhereUniqueInput
+}
+
+/**
+ * EventCursor findUniqueOrThrow
+ */
+export type EventCursorFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EventCursor
+   */
+  select?: Prisma.EventCursorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EventCursor
+   */
+  omit?: Prisma.EventCursorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EventCursorInclude<ExtArgs> | null
+  /**
+   * Filter, which EventCursor to fetch.
+   */
+  where: Prisma.EventCursorWhereUniqueInput
+}
+
+/**
+ * EventCursor findFirst
+ */
+export type EventCursorFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EventCursor
+   */
+  select?: Prisma.EventCursorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EventCursor
+   */
+  omit?: Prisma.EventCursorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EventCursorInclude<ExtArgs> | null
+  /**
+   * Filter, which EventCursor to fetch.
+   */
+  where?: Prisma.EventCursorWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EventCursors to fetch.
+   */
+  orderBy?: Prisma.EventCursorOrderByWithRelationInput | Prisma.EventCursorOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for EventCursors.
+   */
+  cursor?: Prisma.EventCursorWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EventCursors from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EventCursors.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of EventCursors.
+   */
+  distinct?: Prisma.EventCursorScalarFieldEnum | Prisma.EventCursorScalarFieldEnum[]
+}
+
+/**
+ * EventCursor findFirstOrThrow
+ */
+export type EventCursorFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EventCursor
+   */
+  select?: Prisma.EventCursorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EventCursor
+   */
+  omit?: Prisma.EventCursorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EventCursorInclude<ExtArgs> | null
+  /**
+   * Filter, which EventCursor to fetch.
+   */
+  where?: Prisma.EventCursorWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EventCursors to fetch.
+   */
+  orderBy?: Prisma.EventCursorOrderByWithRelationInput | Prisma.EventCursorOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for EventCursors.
+   */
+  cursor?: Prisma.EventCursorWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EventCursors from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EventCursors.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of EventCursors.
+   */
+  distinct?: Prisma.EventCursorScalarFieldEnum | Prisma.EventCursorScalarFieldEnum[]
+}
+
+/**
+ * EventCursor findMany
+ */
+export type EventCursorFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EventCursor
+   */
+  select?: Prisma.EventCursorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EventCursor
+   */
+  omit?: Prisma.EventCursorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EventCursorInclude<ExtArgs> | null
+  /**
+   * Filter, which EventCursors to fetch.
+   */
+  where?: Prisma.EventCursorWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EventCursors to fetch.
+   */
+  orderBy?: Prisma.EventCursorOrderByWithRelationInput | Prisma.EventCursorOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing EventCursors.
+   */
+  cursor?: Prisma.EventCursorWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EventCursors from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EventCursors.
+   */
+  skip?: number
+  distinct?: Prisma.EventCursorScalarFieldEnum | Prisma.EventCursorScalarFieldEnum[]
+}
+
+/**
+ * EventCursor create
+ */
+export type EventCursorCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EventCursor
+   */
+  select?: Prisma.EventCursorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EventCursor
+   */
+  omit?: Prisma.EventCursorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EventCursorInclude<ExtArgs> | null
+  /**
+   * The data needed to create a EventCursor.
+   */
+  data: Prisma.XOR<Prisma.EventCursorCreateInput, Prisma.EventCursorUncheckedCreateInput>
+}
+
+/**
+ * EventCursor createMany
+ */
+export type EventCursorCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many EventCursors.
+   */
+  data: Prisma.EventCursorCreateManyInput | Prisma.EventCursorCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * EventCursor createManyAndReturn
+ */
+export type EventCursorCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EventCursor
+   */
+  select?: Prisma.EventCursorSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the EventCursor
+   */
+  omit?: Prisma.EventCursorOmit<ExtArgs> | null
+  /**
+   * The data used to create many EventCursors.
+   */
+  data: Prisma.EventCursorCreateManyInput | Prisma.EventCursorCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EventCursorIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * EventCursor update
+ */
+export type EventCursorUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EventCursor
+   */
+  select?: Prisma.EventCursorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EventCursor
+   */
+  omit?: Prisma.EventCursorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EventCursorInclude<ExtArgs> | null
+  /**
+   * The data needed to update a EventCursor.
+   */
+  data: Prisma.XOR<Prisma.EventCursorUpdateInput, Prisma.EventCursorUncheckedUpdateInput>
+  /**
+   * Choose, which EventCursor to update.
+   */
+  where: Prisma.EventCursorWhereUniqueInput
+}
+
+/**
+ * EventCursor updateMany
+ */
+export type EventCursorUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update EventCursors.
+   */
+  data: Prisma.XOR<Prisma.EventCursorUpdateManyMutationInput, Prisma.EventCursorUncheckedUpdateManyInput>
+  /**
+   * Filter which EventCursors to update
+   */
+  where?: Prisma.EventCursorWhereInput
+  /**
+   * Limit how many EventCursors to update.
+   */
+  limit?: number
+}
+
+/**
+ * EventCursor updateManyAndReturn
+ */
+export type EventCursorUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EventCursor
+   */
+  select?: Prisma.EventCursorSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the EventCursor
+   */
+  omit?: Prisma.EventCursorOmit<ExtArgs> | null
+  /**
+   * The data used to update EventCursors.
+   */
+  data: Prisma.XOR<Prisma.EventCursorUpdateManyMutationInput, Prisma.EventCursorUncheckedUpdateManyInput>
+  /**
+   * Filter which EventCursors to update
+   */
+  where?: Prisma.EventCursorWhereInput
+  /**
+   * Limit how many EventCursors to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EventCursorIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * EventCursor upsert
+ */
+export type EventCursorUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EventCursor
+   */
+  select?: Prisma.EventCursorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EventCursor
+   */
+  omit?: Prisma.EventCursorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EventCursorInclude<ExtArgs> | null
+  /**
+   * The filter to search for the EventCursor to update in case it exists.
+   */
+  where: Prisma.EventCursorWhereUniqueInput
+  /**
+   * In case the EventCursor found by the `where` argument doesn't exist, create a new EventCursor with this data.
+   */
+  create: Prisma.XOR<Prisma.EventCursorCreateInput, Prisma.EventCursorUncheckedCreateInput>
+  /**
+   * In case the EventCursor was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.EventCursorUpdateInput, Prisma.EventCursorUncheckedUpdateInput>
+}
+
+/**
+ * EventCursor delete
+ */
+export type EventCursorDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EventCursor
+   */
+  select?: Prisma.EventCursorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EventCursor
+   */
+  omit?: Prisma.EventCursorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EventCursorInclude<ExtArgs> | null
+  /**
+   * Filter which EventCursor to delete.
+   */
+  where: Prisma.EventCursorWhereUniqueInput
+}
+
+/**
+ * EventCursor deleteMany
+ */
+export type EventCursorDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which EventCursors to delete
+   */
+  where?: Prisma.EventCursorWhereInput
+  /**
+   * Limit how many EventCursors to delete.
+   */
+  limit?: number
+}
+
+/**
+ * EventCursor without action
+ */
+export type EventCursorDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EventCursor
+   */
+  select?: Prisma.EventCursorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EventCursor
+   */
+  omit?: Prisma.EventCursorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EventCursorInclude<ExtArgs> | null
+}
@@ -0,0 +1,1640 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `OnChainWorkflow` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model OnChainWorkflow
+ * 
+ */
+export type OnChainWorkflowModel = runtime.Types.Result.DefaultSelection<Prisma.$OnChainWorkflowPayload>
+
+export type AggregateOnChainWorkflow = {
+  _count: OnChainWorkflowCountAggregateOutputType | null
+  _avg: OnChainWorkflowAvgAggregateOutputType | null
+  _sum: OnChainWorkflowSumAggregateOutputType | null
+  _min: OnChainWorkflowMinAggregateOutputType | null
+  _max: OnChainWorkflowMaxAggregateOutputType | null
+}
+
+export type OnChainWorkflowAvgAggregateOutputType = {
+  onChainId: number | null
+}
+
+export type OnChainWorkflowSumAggregateOutputType = {
+  onChainId: bigint | null
+}
+
+export type OnChainWorkflowMinAggregateOutputType = {
+  id: string | null
+  workflowId: string | null
+  ownerAddress: string | null
+  onChainId: bigint | null
+  graphHash: string | null
+  registrationTxHash: string | null
+  createdAt: Date | null
+}
+
+export type OnChainWorkflowMaxAggregateOutputType = {
+  id: string | null
+  workflowId: string | null
+  ownerAddress: string | null
+  onChainId: bigint | null
+  graphHash: string | null
+  registrationTxHash: string | null
+  createdAt: Date | null
+}
+
+export type OnChainWorkflowCountAggregateOutputType = {
+  id: number
+  workflowId: number
+  ownerAddress: number
+  onChainId: number
+  graphHash: number
+  nodeIdMap: number
+  registrationTxHash: number
+  createdAt: number
+  _all: number
+}
+
+
+export type OnChainWorkflowAvgAggregateInputType = {
+  onChainId?: true
+}
+
+export type OnChainWorkflowSumAggregateInputType = {
+  onChainId?: true
+}
+
+export type OnChainWorkflowMinAggregateInputType = {
+  id?: true
+  workflowId?: true
+  ownerAddress?: true
+  onChainId?: true
+  graphHash?: true
+  registrationTxHash?: true
+  createdAt?: true
+}
+
+export type OnChainWorkflowMaxAggregateInputType = {
+  id?: true
+  workflowId?: true
+  ownerAddress?: true
+  onChainId?: true
+  graphHash?: true
+  registrationTxHash?: true
+  createdAt?: true
+}
+
+export type OnChainWorkflowCountAggregateInputType = {
+  id?: true
+  workflowId?: true
+  ownerAddress?: true
+  onChainId?: true
+  graphHash?: true
+  nodeIdMap?: true
+  registrationTxHash?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type OnChainWorkflowAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which OnChainWorkflow to aggregate.
+   */
+  where?: Prisma.OnChainWorkflowWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OnChainWorkflows to fetch.
+   */
+  orderBy?: Prisma.OnChainWorkflowOrderByWithRelationInput | Prisma.OnChainWorkflowOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.OnChainWorkflowWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OnChainWorkflows from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OnChainWorkflows.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned OnChainWorkflows
+  **/
+  _count?: true | OnChainWorkflowCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: OnChainWorkflowAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: OnChainWorkflowSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: OnChainWorkflowMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: OnChainWorkflowMaxAggregateInputType
+}
+
+export type GetOnChainWorkflowAggregateType<T extends OnChainWorkflowAggregateArgs> = {
+      [P in keyof T & keyof AggregateOnChainWorkflow]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateOnChainWorkflow[P]>
+    : Prisma.GetScalarType<T[P], AggregateOnChainWorkflow[P]>
+}
+
+
+
+
+export type OnChainWorkflowGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OnChainWorkflowWhereInput
+  orderBy?: Prisma.OnChainWorkflowOrderByWithAggregationInput | Prisma.OnChainWorkflowOrderByWithAggregationInput[]
+  by: Prisma.OnChainWorkflowScalarFieldEnum[] | Prisma.OnChainWorkflowScalarFieldEnum
+  having?: Prisma.OnChainWorkflowScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: OnChainWorkflowCountAggregateInputType | true
+  _avg?: OnChainWorkflowAvgAggregateInputType
+  _sum?: OnChainWorkflowSumAggregateInputType
+  _min?: OnChainWorkflowMinAggregateInputType
+  _max?: OnChainWorkflowMaxAggregateInputType
+}
+
+export type OnChainWorkflowGroupByOutputType = {
+  id: string
+  workflowId: string
+  ownerAddress: string
+  onChainId: bigint
+  graphHash: string
+  nodeIdMap: runtime.JsonValue
+  registrationTxHash: string
+  createdAt: Date
+  _count: OnChainWorkflowCountAggregateOutputType | null
+  _avg: OnChainWorkflowAvgAggregateOutputType | null
+  _sum: OnChainWorkflowSumAggregateOutputType | null
+  _min: OnChainWorkflowMinAggregateOutputType | null
+  _max: OnChainWorkflowMaxAggregateOutputType | null
+}
+
+type GetOnChainWorkflowGroupByPayload<T extends OnChainWorkflowGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<OnChainWorkflowGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof OnChainWorkflowGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], OnChainWorkflowGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], OnChainWorkflowGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type OnChainWorkflowWhereInput = {
+  AND?: Prisma.OnChainWorkflowWhereInput | Prisma.OnChainWorkflowWhereInput[]
+  OR?: Prisma.OnChainWorkflowWhereInput[]
+  NOT?: Prisma.OnChainWorkflowWhereInput | Prisma.OnChainWorkflowWhereInput[]
+  id?: Prisma.StringFilter<"OnChainWorkflow"> | string
+  workflowId?: Prisma.StringFilter<"OnChainWorkflow"> | string
+  ownerAddress?: Prisma.StringFilter<"OnChainWorkflow"> | string
+  onChainId?: Prisma.BigIntFilter<"OnChainWorkflow"> | bigint | number
+  graphHash?: Prisma.StringFilter<"OnChainWorkflow"> | string
+  nodeIdMap?: Prisma.JsonFilter<"OnChainWorkflow">
+  registrationTxHash?: Prisma.StringFilter<"OnChainWorkflow"> | string
+  createdAt?: Prisma.DateTimeFilter<"OnChainWorkflow"> | Date | string
+  workflow?: Prisma.XOR<Prisma.WorkflowScalarRelationFilter, Prisma.WorkflowWhereInput>
+  runs?: Prisma.WorkflowRunListRelationFilter
+}
+
+export type OnChainWorkflowOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  ownerAddress?: Prisma.SortOrder
+  onChainId?: Prisma.SortOrder
+  graphHash?: Prisma.SortOrder
+  nodeIdMap?: Prisma.SortOrder
+  registrationTxHash?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  workflow?: Prisma.WorkflowOrderByWithRelationInput
+  runs?: Prisma.WorkflowRunOrderByRelationAggregateInput
+}
+
+export type OnChainWorkflowWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  registrationTxHash?: string
+  ownerAddress_onChainId?: Prisma.OnChainWorkflowOwnerAddressOnChainIdCompoundUniqueInput
+  AND?: Prisma.OnChainWorkflowWhereInput | Prisma.OnChainWorkflowWhereInput[]
+  OR?: Prisma.OnChainWorkflowWhereInput[]
+  NOT?: Prisma.OnChainWorkflowWhereInput | Prisma.OnChainWorkflowWhereInput[]
+  workflowId?: Prisma.StringFilter<"OnChainWorkflow"> | string
+  ownerAddress?: Prisma.StringFilter<"OnChainWorkflow"> | string
+  onChainId?: Prisma.BigIntFilter<"OnChainWorkflow"> | bigint | number
+  graphHash?: Prisma.StringFilter<"OnChainWorkflow"> | string
+  nodeIdMap?: Prisma.JsonFilter<"OnChainWorkflow">
+  createdAt?: Prisma.DateTimeFilter<"OnChainWorkflow"> | Date | string
+  workflow?: Prisma.XOR<Prisma.WorkflowScalarRelationFilter, Prisma.WorkflowWhereInput>
+  runs?: Prisma.WorkflowRunListRelationFilter
+}, "id" | "registrationTxHash" | "ownerAddress_onChainId">
+
+export type OnChainWorkflowOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  ownerAddress?: Prisma.SortOrder
+  onChainId?: Prisma.SortOrder
+  graphHash?: Prisma.SortOrder
+  nodeIdMap?: Prisma.SortOrder
+  registrationTxHash?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.OnChainWorkflowCountOrderByAggregateInput
+  _avg?: Prisma.OnChainWorkflowAvgOrderByAggregateInput
+  _max?: Prisma.OnChainWorkflowMaxOrderByAggregateInput
+  _min?: Prisma.OnChainWorkflowMinOrderByAggregateInput
+  _sum?: Prisma.OnChainWorkflowSumOrderByAggregateInput
+}
+
+export type OnChainWorkflowScalarWhereWithAggregatesInput = {
+  AND?: Prisma.OnChainWorkflowScalarWhereWithAggregatesInput | Prisma.OnChainWorkflowScalarWhereWithAggregatesInput[]
+  OR?: Prisma.OnChainWorkflowScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.OnChainWorkflowScalarWhereWithAggregatesInput | Prisma.OnChainWorkflowScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"OnChainWorkflow"> | string
+  workflowId?: Prisma.StringWithAggregatesFilter<"OnChainWorkflow"> | string
+  ownerAddress?: Prisma.StringWithAggregatesFilter<"OnChainWorkflow"> | string
+  onChainId?: Prisma.BigIntWithAggregatesFilter<"OnChainWorkflow"> | bigint | number
+  graphHash?: Prisma.StringWithAggregatesFilter<"OnChainWorkflow"> | string
+  nodeIdMap?: Prisma.JsonWithAggregatesFilter<"OnChainWorkflow">
+  registrationTxHash?: Prisma.StringWithAggregatesFilter<"OnChainWorkflow"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"OnChainWorkflow"> | Date | string
+}
+
+export type OnChainWorkflowCreateInput = {
+  id?: string
+  ownerAddress: string
+  onChainId: bigint | number
+  graphHash: string
+  nodeIdMap: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  registrationTxHash: string
+  createdAt?: Date | string
+  workflow: Prisma.WorkflowCreateNestedOneWithoutOnChainWorkflowsInput
+  runs?: Prisma.WorkflowRunCreateNestedManyWithoutOnChainWorkflowInput
+}
+
+export type OnChainWorkflowUncheckedCreateInput = {
+  id?: string
+  workflowId: string
+  ownerAddress: string
+  onChainId: bigint | number
+  graphHash: string
+  nodeIdMap: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  registrationTxHash: string
+  createdAt?: Date | string
+  runs?: Prisma.WorkflowRunUncheckedCreateNestedManyWithoutOnChainWorkflowInput
+}
+
+export type OnChainWorkflowUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  onChainId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  graphHash?: Prisma.StringFieldUpdateOperationsInput | string
+  nodeIdMap?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  registrationTxHash?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  workflow?: Prisma.WorkflowUpdateOneRequiredWithoutOnChainWorkflowsNestedInput
+  runs?: Prisma.WorkflowRunUpdateManyWithoutOnChainWorkflowNestedInput
+}
+
+export type OnChainWorkflowUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  onChainId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  graphHash?: Prisma.StringFieldUpdateOperationsInput | string
+  nodeIdMap?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  registrationTxHash?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  runs?: Prisma.WorkflowRunUncheckedUpdateManyWithoutOnChainWorkflowNestedInput
+}
+
+export type OnChainWorkflowCreateManyInput = {
+  id?: string
+  workflowId: string
+  ownerAddress: string
+  onChainId: bigint | number
+  graphHash: string
+  nodeIdMap: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  registrationTxHash: string
+  createdAt?: Date | string
+}
+
+export type OnChainWorkflowUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  onChainId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  graphHash?: Prisma.StringFieldUpdateOperationsInput | string
+  nodeIdMap?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  registrationTxHash?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OnChainWorkflowUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  onChainId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  graphHash?: Prisma.StringFieldUpdateOperationsInput | string
+  nodeIdMap?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  registrationTxHash?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OnChainWorkflowListRelationFilter = {
+  every?: Prisma.OnChainWorkflowWhereInput
+  some?: Prisma.OnChainWorkflowWhereInput
+  none?: Prisma.OnChainWorkflowWhereInput
+}
+
+export type OnChainWorkflowOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type OnChainWorkflowOwnerAddressOnChainIdCompoundUniqueInput = {
+  ownerAddress: string
+  onChainId: bigint | number
+}
+
+export type OnChainWorkflowCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  ownerAddress?: Prisma.SortOrder
+  onChainId?: Prisma.SortOrder
+  graphHash?: Prisma.SortOrder
+  nodeIdMap?: Prisma.SortOrder
+  registrationTxHash?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type OnChainWorkflowAvgOrderByAggregateInput = {
+  onChainId?: Prisma.SortOrder
+}
+
+export type OnChainWorkflowMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  ownerAddress?: Prisma.SortOrder
+  onChainId?: Prisma.SortOrder
+  graphHash?: Prisma.SortOrder
+  registrationTxHash?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type OnChainWorkflowMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  ownerAddress?: Prisma.SortOrder
+  onChainId?: Prisma.SortOrder
+  graphHash?: Prisma.SortOrder
+  registrationTxHash?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type OnChainWorkflowSumOrderByAggregateInput = {
+  onChainId?: Prisma.SortOrder
+}
+
+export type OnChainWorkflowNullableScalarRelationFilter = {
+  is?: Prisma.OnChainWorkflowWhereInput | null
+  isNot?: Prisma.OnChainWorkflowWhereInput | null
+}
+
+export type OnChainWorkflowCreateNestedManyWithoutWorkflowInput = {
+  create?: Prisma.XOR<Prisma.OnChainWorkflowCreateWithoutWorkflowInput, Prisma.OnChainWorkflowUncheckedCreateWithoutWorkflowInput> | Prisma.OnChainWorkflowCreateWithoutWorkflowInput[] | Prisma.OnChainWorkflowUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.OnChainWorkflowCreateOrConnectWithoutWorkflowInput | Prisma.OnChainWorkflowCreateOrConnectWithoutWorkflowInput[]
+  createMany?: Prisma.OnChainWorkflowCreateManyWorkflowInputEnvelope
+  connect?: Prisma.OnChainWorkflowWhereUniqueInput | Prisma.OnChainWorkflowWhereUniqueInput[]
+}
+
+export type OnChainWorkflowUncheckedCreateNestedManyWithoutWorkflowInput = {
+  create?: Prisma.XOR<Prisma.OnChainWorkflowCreateWithoutWorkflowInput, Prisma.OnChainWorkflowUncheckedCreateWithoutWorkflowInput> | Prisma.OnChainWorkflowCreateWithoutWorkflowInput[] | Prisma.OnChainWorkflowUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.OnChainWorkflowCreateOrConnectWithoutWorkflowInput | Prisma.OnChainWorkflowCreateOrConnectWithoutWorkflowInput[]
+  createMany?: Prisma.OnChainWorkflowCreateManyWorkflowInputEnvelope
+  connect?: Prisma.OnChainWorkflowWhereUniqueInput | Prisma.OnChainWorkflowWhereUniqueInput[]
+}
+
+export type OnChainWorkflowUpdateManyWithoutWorkflowNestedInput = {
+  create?: Prisma.XOR<Prisma.OnChainWorkflowCreateWithoutWorkflowInput, Prisma.OnChainWorkflowUncheckedCreateWithoutWorkflowInput> | Prisma.OnChainWorkflowCreateWithoutWorkflowInput[] | Prisma.OnChainWorkflowUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.OnChainWorkflowCreateOrConnectWithoutWorkflowInput | Prisma.OnChainWorkflowCreateOrConnectWithoutWorkflowInput[]
+  upsert?: Prisma.OnChainWorkflowUpsertWithWhereUniqueWithoutWorkflowInput | Prisma.OnChainWorkflowUpsertWithWhereUniqueWithoutWorkflowInput[]
+  createMany?: Prisma.OnChainWorkflowCreateManyWorkflowInputEnvelope
+  set?: Prisma.OnChainWorkflowWhereUniqueInput | Prisma.OnChainWorkflowWhereUniqueInput[]
+  disconnect?: Prisma.OnChainWorkflowWhereUniqueInput | Prisma.OnChainWorkflowWhereUniqueInput[]
+  delete?: Prisma.OnChainWorkflowWhereUniqueInput | Prisma.OnChainWorkflowWhereUniqueInput[]
+  connect?: Prisma.OnChainWorkflowWhereUniqueInput | Prisma.OnChainWorkflowWhereUniqueInput[]
+  update?: Prisma.OnChainWorkflowUpdateWithWhereUniqueWithoutWorkflowInput | Prisma.OnChainWorkflowUpdateWithWhereUniqueWithoutWorkflowInput[]
+  updateMany?: Prisma.OnChainWorkflowUpdateManyWithWhereWithoutWorkflowInput | Prisma.OnChainWorkflowUpdateManyWithWhereWithoutWorkflowInput[]
+  deleteMany?: Prisma.OnChainWorkflowScalarWhereInput | Prisma.OnChainWorkflowScalarWhereInput[]
+}
+
+export type OnChainWorkflowUncheckedUpdateManyWithoutWorkflowNestedInput = {
+  create?: Prisma.XOR<Prisma.OnChainWorkflowCreateWithoutWorkflowInput, Prisma.OnChainWorkflowUncheckedCreateWithoutWorkflowInput> | Prisma.OnChainWorkflowCreateWithoutWorkflowInput[] | Prisma.OnChainWorkflowUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.OnChainWorkflowCreateOrConnectWithoutWorkflowInput | Prisma.OnChainWorkflowCreateOrConnectWithoutWorkflowInput[]
+  upsert?: Prisma.OnChainWorkflowUpsertWithWhereUniqueWithoutWorkflowInput | Prisma.OnChainWorkflowUpsertWithWhereUniqueWithoutWorkflowInput[]
+  createMany?: Prisma.OnChainWorkflowCreateManyWorkflowInputEnvelope
+  set?: Prisma.OnChainWorkflowWhereUniqueInput | Prisma.OnChainWorkflowWhereUniqueInput[]
+  disconnect?: Prisma.OnChainWorkflowWhereUniqueInput | Prisma.OnChainWorkflowWhereUniqueInput[]
+  delete?: Prisma.OnChainWorkflowWhereUniqueInput | Prisma.OnChainWorkflowWhereUniqueInput[]
+  connect?: Prisma.OnChainWorkflowWhereUniqueInput | Prisma.OnChainWorkflowWhereUniqueInput[]
+  update?: Prisma.OnChainWorkflowUpdateWithWhereUniqueWithoutWorkflowInput | Prisma.OnChainWorkflowUpdateWithWhereUniqueWithoutWorkflowInput[]
+  updateMany?: Prisma.OnChainWorkflowUpdateManyWithWhereWithoutWorkflowInput | Prisma.OnChainWorkflowUpdateManyWithWhereWithoutWorkflowInput[]
+  deleteMany?: Prisma.OnChainWorkflowScalarWhereInput | Prisma.OnChainWorkflowScalarWhereInput[]
+}
+
+export type OnChainWorkflowCreateNestedOneWithoutRunsInput = {
+  create?: Prisma.XOR<Prisma.OnChainWorkflowCreateWithoutRunsInput, Prisma.OnChainWorkflowUncheckedCreateWithoutRunsInput>
+  connectOrCreate?: Prisma.OnChainWorkflowCreateOrConnectWithoutRunsInput
+  connect?: Prisma.OnChainWorkflowWhereUniqueInput
+}
+
+export type OnChainWorkflowUpdateOneWithoutRunsNestedInput = {
+  create?: Prisma.XOR<Prisma.OnChainWorkflowCreateWithoutRunsInput, Prisma.OnChainWorkflowUncheckedCreateWithoutRunsInput>
+  connectOrCreate?: Prisma.OnChainWorkflowCreateOrConnectWithoutRunsInput
+  upsert?: Prisma.OnChainWorkflowUpsertWithoutRunsInput
+  disconnect?: Prisma.OnChainWorkflowWhereInput | boolean
+  delete?: Prisma.OnChainWorkflowWhereInput | boolean
+  connect?: Prisma.OnChainWorkflowWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OnChainWorkflowUpdateToOneWithWhereWithoutRunsInput, Prisma.OnChainWorkflowUpdateWithoutRunsInput>, Prisma.OnChainWorkflowUncheckedUpdateWithoutRunsInput>
+}
+
+export type OnChainWorkflowCreateWithoutWorkflowInput = {
+  id?: string
+  ownerAddress: string
+  onChainId: bigint | number
+  graphHash: string
+  nodeIdMap: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  registrationTxHash: string
+  createdAt?: Date | string
+  runs?: Prisma.WorkflowRunCreateNestedManyWithoutOnChainWorkflowInput
+}
+
+export type OnChainWorkflowUncheckedCreateWithoutWorkflowInput = {
+  id?: string
+  ownerAddress: string
+  onChainId: bigint | number
+  graphHash: string
+  nodeIdMap: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  registrationTxHash: string
+  createdAt?: Date | string
+  runs?: Prisma.WorkflowRunUncheckedCreateNestedManyWithoutOnChainWorkflowInput
+}
+
+export type OnChainWorkflowCreateOrConnectWithoutWorkflowInput = {
+  where: Prisma.OnChainWorkflowWhereUniqueInput
+  create: Prisma.XOR<Prisma.OnChainWorkflowCreateWithoutWorkflowInput, Prisma.OnChainWorkflowUncheckedCreateWithoutWorkflowInput>
+}
+
+export type OnChainWorkflowCreateManyWorkflowInputEnvelope = {
+  data: Prisma.OnChainWorkflowCreateManyWorkflowInput | Prisma.OnChainWorkflowCreateManyWorkflowInput[]
+  skipDuplicates?: boolean
+}
+
+export type OnChainWorkflowUpsertWithWhereUniqueWithoutWorkflowInput = {
+  where: Prisma.OnChainWorkflowWhereUniqueInput
+  update: Prisma.XOR<Prisma.OnChainWorkflowUpdateWithoutWorkflowInput, Prisma.OnChainWorkflowUncheckedUpdateWithoutWorkflowInput>
+  create: Prisma.XOR<Prisma.OnChainWorkflowCreateWithoutWorkflowInput, Prisma.OnChainWorkflowUncheckedCreateWithoutWorkflowInput>
+}
+
+export type OnChainWorkflowUpdateWithWhereUniqueWithoutWorkflowInput = {
+  where: Prisma.OnChainWorkflowWhereUniqueInput
+  data: Prisma.XOR<Prisma.OnChainWorkflowUpdateWithoutWorkflowInput, Prisma.OnChainWorkflowUncheckedUpdateWithoutWorkflowInput>
+}
+
+export type OnChainWorkflowUpdateManyWithWhereWithoutWorkflowInput = {
+  where: Prisma.OnChainWorkflowScalarWhereInput
+  data: Prisma.XOR<Prisma.OnChainWorkflowUpdateManyMutationInput, Prisma.OnChainWorkflowUncheckedUpdateManyWithoutWorkflowInput>
+}
+
+export type OnChainWorkflowScalarWhereInput = {
+  AND?: Prisma.OnChainWorkflowScalarWhereInput | Prisma.OnChainWorkflowScalarWhereInput[]
+  OR?: Prisma.OnChainWorkflowScalarWhereInput[]
+  NOT?: Prisma.OnChainWorkflowScalarWhereInput | Prisma.OnChainWorkflowScalarWhereInput[]
+  id?: Prisma.StringFilter<"OnChainWorkflow"> | string
+  workflowId?: Prisma.StringFilter<"OnChainWorkflow"> | string
+  ownerAddress?: Prisma.StringFilter<"OnChainWorkflow"> | string
+  onChainId?: Prisma.BigIntFilter<"OnChainWorkflow"> | bigint | number
+  graphHash?: Prisma.StringFilter<"OnChainWorkflow"> | string
+  nodeIdMap?: Prisma.JsonFilter<"OnChainWorkflow">
+  registrationTxHash?: Prisma.StringFilter<"OnChainWorkflow"> | string
+  createdAt?: Prisma.DateTimeFilter<"OnChainWorkflow"> | Date | string
+}
+
+export type OnChainWorkflowCreateWithoutRunsInput = {
+  id?: string
+  ownerAddress: string
+  onChainId: bigint | number
+  graphHash: string
+  nodeIdMap: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  registrationTxHash: string
+  createdAt?: Date | string
+  workflow: Prisma.WorkflowCreateNestedOneWithoutOnChainWorkflowsInput
+}
+
+export type OnChainWorkflowUncheckedCreateWithoutRunsInput = {
+  id?: string
+  workflowId: string
+  ownerAddress: string
+  onChainId: bigint | number
+  graphHash: string
+  nodeIdMap: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  registrationTxHash: string
+  createdAt?: Date | string
+}
+
+export type OnChainWorkflowCreateOrConnectWithoutRunsInput = {
+  where: Prisma.OnChainWorkflowWhereUniqueInput
+  create: Prisma.XOR<Prisma.OnChainWorkflowCreateWithoutRunsInput, Prisma.OnChainWorkflowUncheckedCreateWithoutRunsInput>
+}
+
+export type OnChainWorkflowUpsertWithoutRunsInput = {
+  update: Prisma.XOR<Prisma.OnChainWorkflowUpdateWithoutRunsInput, Prisma.OnChainWorkflowUncheckedUpdateWithoutRunsInput>
+  create: Prisma.XOR<Prisma.OnChainWorkflowCreateWithoutRunsInput, Prisma.OnChainWorkflowUncheckedCreateWithoutRunsInput>
+  where?: Prisma.OnChainWorkflowWhereInput
+}
+
+export type OnChainWorkflowUpdateToOneWithWhereWithoutRunsInput = {
+  where?: Prisma.OnChainWorkflowWhereInput
+  data: Prisma.XOR<Prisma.OnChainWorkflowUpdateWithoutRunsInput, Prisma.OnChainWorkflowUncheckedUpdateWithoutRunsInput>
+}
+
+export type OnChainWorkflowUpdateWithoutRunsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  onChainId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  graphHash?: Prisma.StringFieldUpdateOperationsInput | string
+  nodeIdMap?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  registrationTxHash?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  workflow?: Prisma.WorkflowUpdateOneRequiredWithoutOnChainWorkflowsNestedInput
+}
+
+export type OnChainWorkflowUncheckedUpdateWithoutRunsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  onChainId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  graphHash?: Prisma.StringFieldUpdateOperationsInput | string
+  nodeIdMap?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  registrationTxHash?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OnChainWorkflowCreateManyWorkflowInput = {
+  id?: string
+  ownerAddress: string
+  onChainId: bigint | number
+  graphHash: string
+  nodeIdMap: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  registrationTxHash: string
+  createdAt?: Date | string
+}
+
+export type OnChainWorkflowUpdateWithoutWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  onChainId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  graphHash?: Prisma.StringFieldUpdateOperationsInput | string
+  nodeIdMap?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  registrationTxHash?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  runs?: Prisma.WorkflowRunUpdateManyWithoutOnChainWorkflowNestedInput
+}
+
+export type OnChainWorkflowUncheckedUpdateWithoutWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  onChainId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  graphHash?: Prisma.StringFieldUpdateOperationsInput | string
+  nodeIdMap?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  registrationTxHash?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  runs?: Prisma.WorkflowRunUncheckedUpdateManyWithoutOnChainWorkflowNestedInput
+}
+
+export type OnChainWorkflowUncheckedUpdateManyWithoutWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  onChainId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  graphHash?: Prisma.StringFieldUpdateOperationsInput | string
+  nodeIdMap?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  registrationTxHash?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type OnChainWorkflowCountOutputType
+ */
+
+export type OnChainWorkflowCountOutputType = {
+  runs: number
+}
+
+export type OnChainWorkflowCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  runs?: boolean | OnChainWorkflowCountOutputTypeCountRunsArgs
+}
+
+/**
+ * OnChainWorkflowCountOutputType without action
+ */
+export type OnChainWorkflowCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OnChainWorkflowCountOutputType
+   */
+  select?: Prisma.OnChainWorkflowCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * OnChainWorkflowCountOutputType without action
+ */
+export type OnChainWorkflowCountOutputTypeCountRunsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WorkflowRunWhereInput
+}
+
+
+export type OnChainWorkflowSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workflowId?: boolean
+  ownerAddress?: boolean
+  onChainId?: boolean
+  graphHash?: boolean
+  nodeIdMap?: boolean
+  registrationTxHash?: boolean
+  createdAt?: boolean
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+  runs?: boolean | Prisma.OnChainWorkflow$runsArgs<ExtArgs>
+  _count?: boolean | Prisma.OnChainWorkflowCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["onChainWorkflow"]>
+
+export type OnChainWorkflowSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workflowId?: boolean
+  ownerAddress?: boolean
+  onChainId?: boolean
+  graphHash?: boolean
+  nodeIdMap?: boolean
+  registrationTxHash?: boolean
+  createdAt?: boolean
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["onChainWorkflow"]>
+
+export type OnChainWorkflowSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workflowId?: boolean
+  ownerAddress?: boolean
+  onChainId?: boolean
+  graphHash?: boolean
+  nodeIdMap?: boolean
+  registrationTxHash?: boolean
+  createdAt?: boolean
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["onChainWorkflow"]>
+
+export type OnChainWorkflowSelectScalar = {
+  id?: boolean
+  workflowId?: boolean
+  ownerAddress?: boolean
+  onChainId?: boolean
+  graphHash?: boolean
+  nodeIdMap?: boolean
+  registrationTxHash?: boolean
+  createdAt?: boolean
+}
+
+export type OnChainWorkflowOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "workflowId" | "ownerAddress" | "onChainId" | "graphHash" | "nodeIdMap" | "registrationTxHash" | "createdAt", ExtArgs["result"]["onChainWorkflow"]>
+export type OnChainWorkflowInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+  runs?: boolean | Prisma.OnChainWorkflow$runsArgs<ExtArgs>
+  _count?: boolean | Prisma.OnChainWorkflowCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type OnChainWorkflowIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}
+export type OnChainWorkflowIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}
+
+export type $OnChainWorkflowPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "OnChainWorkflow"
+  objects: {
+    workflow: Prisma.$WorkflowPayload<ExtArgs>
+    runs: Prisma.$WorkflowRunPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    workflowId: string
+    ownerAddress: string
+    onChainId: bigint
+    graphHash: string
+    nodeIdMap: runtime.JsonValue
+    registrationTxHash: string
+    createdAt: Date
+  }, ExtArgs["result"]["onChainWorkflow"]>
+  composites: {}
+}
+
+export type OnChainWorkflowGetPayload<S extends boolean | null | undefined | OnChainWorkflowDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$OnChainWorkflowPayload, S>
+
+export type OnChainWorkflowCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<OnChainWorkflowFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: OnChainWorkflowCountAggregateInputType | true
+  }
+
+export interface OnChainWorkflowDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['OnChainWorkflow'], meta: { name: 'OnChainWorkflow' } }
+  /**
+   * Find zero or one OnChainWorkflow that matches the filter.
+   * @param {OnChainWorkflowFindUniqueArgs} args - Arguments to find a OnChainWorkflow
+   * @example
+   * // Get one OnChainWorkflow
+   * const onChainWorkflow = await prisma.onChainWorkflow.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends OnChainWorkflowFindUniqueArgs>(args: Prisma.SelectSubset<T, OnChainWorkflowFindUniqueArgs<ExtArgs>>): Prisma.Prisma__OnChainWorkflowClient<runtime.Types.Result.GetResult<Prisma.$OnChainWorkflowPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one OnChainWorkflow that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {OnChainWorkflowFindUniqueOrThrowArgs} args - Arguments to find a OnChainWorkflow
+   * @example
+   * // Get one OnChainWorkflow
+   * const onChainWorkflow = await prisma.onChainWorkflow.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends OnChainWorkflowFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, OnChainWorkflowFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__OnChainWorkflowClient<runtime.Types.Result.GetResult<Prisma.$OnChainWorkflowPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first OnChainWorkflow that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OnChainWorkflowFindFirstArgs} args - Arguments to find a OnChainWorkflow
+   * @example
+   * // Get one OnChainWorkflow
+   * const onChainWorkflow = await prisma.onChainWorkflow.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends OnChainWorkflowFindFirstArgs>(args?: Prisma.SelectSubset<T, OnChainWorkflowFindFirstArgs<ExtArgs>>): Prisma.Prisma__OnChainWorkflowClient<runtime.Types.Result.GetResult<Prisma.$OnChainWorkflowPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first OnChainWorkflow that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OnChainWorkflowFindFirstOrThrowArgs} args - Arguments to find a OnChainWorkflow
+   * @example
+   * // Get one OnChainWorkflow
+   * const onChainWorkflow = await prisma.onChainWorkflow.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends OnChainWorkflowFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, OnChainWorkflowFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__OnChainWorkflowClient<runtime.Types.Result.GetResult<Prisma.$OnChainWorkflowPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more OnChainWorkflows that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OnChainWorkflowFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all OnChainWorkflows
+   * const onChainWorkflows = await prisma.onChainWorkflow.findMany()
+   * 
+   * // Get first 10 OnChainWorkflows
+   * const onChainWorkflows = await prisma.onChainWorkflow.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const onChainWorkflowWithIdOnly = await prisma.onChainWorkflow.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends OnChainWorkflowFindManyArgs>(args?: Prisma.SelectSubset<T, OnChainWorkflowFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OnChainWorkflowPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a OnChainWorkflow.
+   * @param {OnChainWorkflowCreateArgs} args - Arguments to create a OnChainWorkflow.
+   * @example
+   * // Create one OnChainWorkflow
+   * const OnChainWorkflow = await prisma.onChainWorkflow.create({
+   *   data: {
+   *     // ... data to create a OnChainWorkflow
+   *   }
+   * })
+   * 
+   */
+  create<T extends OnChainWorkflowCreateArgs>(args: Prisma.SelectSubset<T, OnChainWorkflowCreateArgs<ExtArgs>>): Prisma.Prisma__OnChainWorkflowClient<runtime.Types.Result.GetResult<Prisma.$OnChainWorkflowPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many OnChainWorkflows.
+   * @param {OnChainWorkflowCreateManyArgs} args - Arguments to create many OnChainWorkflows.
+   * @example
+   * // Create many OnChainWorkflows
+   * const onChainWorkflow = await prisma.onChainWorkflow.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends OnChainWorkflowCreateManyArgs>(args?: Prisma.SelectSubset<T, OnChainWorkflowCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many OnChainWorkflows and returns the data saved in the database.
+   * @param {OnChainWorkflowCreateManyAndReturnArgs} args - Arguments to create many OnChainWorkflows.
+   * @example
+   * // Create many OnChainWorkflows
+   * const onChainWorkflow = await prisma.onChainWorkflow.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many OnChainWorkflows and only return the `id`
+   * const onChainWorkflowWithIdOnly = await prisma.onChainWorkflow.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends OnChainWorkflowCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, OnChainWorkflowCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OnChainWorkflowPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a OnChainWorkflow.
+   * @param {OnChainWorkflowDeleteArgs} args - Arguments to delete one OnChainWorkflow.
+   * @example
+   * // Delete one OnChainWorkflow
+   * const OnChainWorkflow = await prisma.onChainWorkflow.delete({
+   *   where: {
+   *     // ... filter to delete one OnChainWorkflow
+   *   }
+   * })
+   * 
+   */
+  delete<T extends OnChainWorkflowDeleteArgs>(args: Prisma.SelectSubset<T, OnChainWorkflowDeleteArgs<ExtArgs>>): Prisma.Prisma__OnChainWorkflowClient<runtime.Types.Result.GetResult<Prisma.$OnChainWorkflowPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one OnChainWorkflow.
+   * @param {OnChainWorkflowUpdateArgs} args - Arguments to update one OnChainWorkflow.
+   * @example
+   * // Update one OnChainWorkflow
+   * const onChainWorkflow = await prisma.onChainWorkflow.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends OnChainWorkflowUpdateArgs>(args: Prisma.SelectSubset<T, OnChainWorkflowUpdateArgs<ExtArgs>>): Prisma.Prisma__OnChainWorkflowClient<runtime.Types.Result.GetResult<Prisma.$OnChainWorkflowPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more OnChainWorkflows.
+   * @param {OnChainWorkflowDeleteManyArgs} args - Arguments to filter OnChainWorkflows to delete.
+   * @example
+   * // Delete a few OnChainWorkflows
+   * const { count } = await prisma.onChainWorkflow.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends OnChainWorkflowDeleteManyArgs>(args?: Prisma.SelectSubset<T, OnChainWorkflowDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more OnChainWorkflows.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OnChainWorkflowUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many OnChainWorkflows
+   * const onChainWorkflow = await prisma.onChainWorkflow.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends OnChainWorkflowUpdateManyArgs>(args: Prisma.SelectSubset<T, OnChainWorkflowUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more OnChainWorkflows and returns the data updated in the database.
+   * @param {OnChainWorkflowUpdateManyAndReturnArgs} args - Arguments to update many OnChainWorkflows.
+   * @example
+   * // Update many OnChainWorkflows
+   * const onChainWorkflow = await prisma.onChainWorkflow.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more OnChainWorkflows and only return the `id`
+   * const onChainWorkflowWithIdOnly = await prisma.onChainWorkflow.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends OnChainWorkflowUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, OnChainWorkflowUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OnChainWorkflowPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one OnChainWorkflow.
+   * @param {OnChainWorkflowUpsertArgs} args - Arguments to update or create a OnChainWorkflow.
+   * @example
+   * // Update or create a OnChainWorkflow
+   * const onChainWorkflow = await prisma.onChainWorkflow.upsert({
+   *   create: {
+   *     // ... data to create a OnChainWorkflow
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the OnChainWorkflow we want to update
+   *   }
+   * })
+   */
+  upsert<T extends OnChainWorkflowUpsertArgs>(args: Prisma.SelectSubset<T, OnChainWorkflowUpsertArgs<ExtArgs>>): Prisma.Prisma__OnChainWorkflowClient<runtime.Types.Result.GetResult<Prisma.$OnChainWorkflowPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of OnChainWorkflows.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OnChainWorkflowCountArgs} args - Arguments to filter OnChainWorkflows to count.
+   * @example
+   * // Count the number of OnChainWorkflows
+   * const count = await prisma.onChainWorkflow.count({
+   *   where: {
+   *     // ... the filter for the OnChainWorkflows we want to count
+   *   }
+   * })
+  **/
+  count<T extends OnChainWorkflowCountArgs>(
+    args?: Prisma.Subset<T, OnChainWorkflowCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], OnChainWorkflowCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a OnChainWorkflow.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OnChainWorkflowAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends OnChainWorkflowAggregateArgs>(args: Prisma.Subset<T, OnChainWorkflowAggregateArgs>): Prisma.PrismaPromise<GetOnChainWorkflowAggregateType<T>>
+
+  /**
+   * Group by OnChainWorkflow.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OnChainWorkflowGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends OnChainWorkflowGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: OnChainWorkflowGroupByArgs['orderBy'] }
+      : { orderBy?: OnChainWorkflowGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, OnChainWorkflowGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetOnChainWorkflowGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the OnChainWorkflow model
+ */
+readonly fields: OnChainWorkflowFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for OnChainWorkflow.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__OnChainWorkflowClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  workflow<T extends Prisma.WorkflowDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WorkflowDefaultArgs<ExtArgs>>): Prisma.Prisma__WorkflowClient<runtime.Types.Result.GetResult<Prisma.$WorkflowPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  runs<T extends Prisma.OnChainWorkflow$runsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OnChainWorkflow$runsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkflowRunPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the OnChainWorkflow model
+ */
+export interface OnChainWorkflowFieldRefs {
+  readonly id: Prisma.FieldRef<"OnChainWorkflow", 'String'>
+  readonly workflowId: Prisma.FieldRef<"OnChainWorkflow", 'String'>
+  readonly ownerAddress: Prisma.FieldRef<"OnChainWorkflow", 'String'>
+  readonly onChainId: Prisma.FieldRef<"OnChainWorkflow", 'BigInt'>
+  readonly graphHash: Prisma.FieldRef<"OnChainWorkflow", 'String'>
+  readonly nodeIdMap: Prisma.FieldRef<"OnChainWorkflow", 'Json'>
+  readonly registrationTxHash: Prisma.FieldRef<"OnChainWorkflow", 'String'>
+  readonly createdAt: Prisma.FieldRef<"OnChainWorkflow", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * OnChainWorkflow findUnique
+ */
+export type OnChainWorkflowFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OnChainWorkflow
+   */
+  select?: Prisma.OnChainWorkflowSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OnChainWorkflow
+   */
+  omit?: Prisma.OnChainWorkflowOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OnChainWorkflowInclude<ExtArgs> | null
+  /**
+   * Filter, which OnChainWorkflow to fetch.
+   */
+  where: Prisma.OnChainWorkflowWhereUniqueInput
+}
+
+/**
+ * OnChainWorkflow findUniqueOrThrow
+ */
+export type OnChainWorkflowFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OnChainWorkflow
+   */
+  select?: Prisma.OnChainWorkflowSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OnChainWorkflow
+   */
+  omit?: Prisma.OnChainWorkflowOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OnChainWorkflowInclude<ExtArgs> | null
+  /**
+   * Filter, which OnChainWorkflow to fetch.
+   */
+  where: Prisma.OnChainWorkflowWhereUniqueInput
+}
+
+/**
+ * OnChainWorkflow findFirst
+ */
+export type OnChainWorkflowFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OnChainWorkflow
+   */
+  select?: Prisma.OnChainWorkflowSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OnChainWorkflow
+   */
+  omit?: Prisma.OnChainWorkflowOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OnChainWorkflowInclude<ExtArgs> | null
+  /**
+   * Filter, which OnChainWorkflow to fetch.
+   */
+  where?: Prisma.OnChainWorkflowWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OnChainWorkflows to fetch.
+   */
+  orderBy?: Prisma.OnChainWorkflowOrderByWithRelationInput | Prisma.OnChainWorkflowOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for OnChainWorkflows.
+   */
+  cursor?: Prisma.OnChainWorkflowWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OnChainWorkflows from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OnChainWorkflows.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of OnChainWorkflows.
+   */
+  distinct?: Prisma.OnChainWorkflowScalarFieldEnum | Prisma.OnChainWorkflowScalarFieldEnum[]
+}
+
+/**
+ * OnChainWorkflow findFirstOrThrow
+ */
+export type OnChainWorkflowFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OnChainWorkflow
+   */
+  select?: Prisma.OnChainWorkflowSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OnChainWorkflow
+   */
+  omit?: Prisma.OnChainWorkflowOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OnChainWorkflowInclude<ExtArgs> | null
+  /**
+   * Filter, which OnChainWorkflow to fetch.
+   */
+  where?: Prisma.OnChainWorkflowWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OnChainWorkflows to fetch.
+   */
+  orderBy?: Prisma.OnChainWorkflowOrderByWithRelationInput | Prisma.OnChainWorkflowOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for OnChainWorkflows.
+   */
+  cursor?: Prisma.OnChainWorkflowWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OnChainWorkflows from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OnChainWorkflows.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of OnChainWorkflows.
+   */
+  distinct?: Prisma.OnChainWorkflowScalarFieldEnum | Prisma.OnChainWorkflowScalarFieldEnum[]
+}
+
+/**
+ * OnChainWorkflow findMany
+ */
+export type OnChainWorkflowFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OnChainWorkflow
+   */
+  select?: Prisma.OnChainWorkflowSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OnChainWorkflow
+   */
+  omit?: Prisma.OnChainWorkflowOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OnChainWorkflowInclude<ExtArgs> | null
+  /**
+   * Filter, which OnChainWorkflows to fetch.
+   */
+  where?: Prisma.OnChainWorkflowWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OnChainWorkflows to fetch.
+   */
+  orderBy?: Prisma.OnChainWorkflowOrderByWithRelationInput | Prisma.OnChainWorkflowOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing OnChainWorkflows.
+   */
+  cursor?: Prisma.OnChainWorkflowWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OnChainWorkflows from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OnChainWorkflows.
+   */
+  skip?: number
+  distinct?: Prisma.OnChainWorkflowScalarFieldEnum | Prisma.OnChainWorkflowScalarFieldEnum[]
+}
+
+/**
+ * OnChainWorkflow create
+ */
+export type OnChainWorkflowCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OnChainWorkflow
+   */
+  select?: Prisma.OnChainWorkflowSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OnChainWorkflow
+   */
+  omit?: Prisma.OnChainWorkflowOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OnChainWorkflowInclude<ExtArgs> | null
+  /**
+   * The data needed to create a OnChainWorkflow.
+   */
+  data: Prisma.XOR<Prisma.OnChainWorkflowCreateInput, Prisma.OnChainWorkflowUncheckedCreateInput>
+}
+
+/**
+ * OnChainWorkflow createMany
+ */
+export type OnChainWorkflowCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many OnChainWorkflows.
+   */
+  data: Prisma.OnChainWorkflowCreateManyInput | Prisma.OnChainWorkflowCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * OnChainWorkflow createManyAndReturn
+ */
+export type OnChainWorkflowCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OnChainWorkflow
+   */
+  select?: Prisma.OnChainWorkflowSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the OnChainWorkflow
+   */
+  omit?: Prisma.OnChainWorkflowOmit<ExtArgs> | null
+  /**
+   * The data used to create many OnChainWorkflows.
+   */
+  data: Prisma.OnChainWorkflowCreateManyInput | Prisma.OnChainWorkflowCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OnChainWorkflowIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * OnChainWorkflow update
+ */
+export type OnChainWorkflowUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OnChainWorkflow
+   */
+  select?: Prisma.OnChainWorkflowSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OnChainWorkflow
+   */
+  omit?: Prisma.OnChainWorkflowOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OnChainWorkflowInclude<ExtArgs> | null
+  /**
+   * The data needed to update a OnChainWorkflow.
+   */
+  data: Prisma.XOR<Prisma.OnChainWorkflowUpdateInput, Prisma.OnChainWorkflowUncheckedUpdateInput>
+  /**
+   * Choose, which OnChainWorkflow to update.
+   */
+  where: Prisma.OnChainWorkflowWhereUniqueInput
+}
+
+/**
+ * OnChainWorkflow updateMany
+ */
+export type OnChainWorkflowUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update OnChainWorkflows.
+   */
+  data: Prisma.XOR<Prisma.OnChainWorkflowUpdateManyMutationInput, Prisma.OnChainWorkflowUncheckedUpdateManyInput>
+  /**
+   * Filter which OnChainWorkflows to update
+   */
+  where?: Prisma.OnChainWorkflowWhereInput
+  /**
+   * Limit how many OnChainWorkflows to update.
+   */
+  limit?: number
+}
+
+/**
+ * OnChainWorkflow updateManyAndReturn
+ */
+export type OnChainWorkflowUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OnChainWorkflow
+   */
+  select?: Prisma.OnChainWorkflowSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the OnChainWorkflow
+   */
+  omit?: Prisma.OnChainWorkflowOmit<ExtArgs> | null
+  /**
+   * The data used to update OnChainWorkflows.
+   */
+  data: Prisma.XOR<Prisma.OnChainWorkflowUpdateManyMutationInput, Prisma.OnChainWorkflowUncheckedUpdateManyInput>
+  /**
+   * Filter which OnChainWorkflows to update
+   */
+  where?: Prisma.OnChainWorkflowWhereInput
+  /**
+   * Limit how many OnChainWorkflows to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OnChainWorkflowIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * OnChainWorkflow upsert
+ */
+export type OnChainWorkflowUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OnChainWorkflow
+   */
+  select?: Prisma.OnChainWorkflowSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OnChainWorkflow
+   */
+  omit?: Prisma.OnChainWorkflowOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OnChainWorkflowInclude<ExtArgs> | null
+  /**
+   * The filter to search for the OnChainWorkflow to update in case it exists.
+   */
+  where: Prisma.OnChainWorkflowWhereUniqueInput
+  /**
+   * In case the OnChainWorkflow found by the `where` argument doesn't exist, create a new OnChainWorkflow with this data.
+   */
+  create: Prisma.XOR<Prisma.OnChainWorkflowCreateInput, Prisma.OnChainWorkflowUncheckedCreateInput>
+  /**
+   * In case the OnChainWorkflow was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.OnChainWorkflowUpdateInput, Prisma.OnChainWorkflowUncheckedUpdateInput>
+}
+
+/**
+ * OnChainWorkflow delete
+ */
+export type OnChainWorkflowDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OnChainWorkflow
+   */
+  select?: Prisma.OnChainWorkflowSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OnChainWorkflow
+   */
+  omit?: Prisma.OnChainWorkflowOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OnChainWorkflowInclude<ExtArgs> | null
+  /**
+   * Filter which OnChainWorkflow to delete.
+   */
+  where: Prisma.OnChainWorkflowWhereUniqueInput
+}
+
+/**
+ * OnChainWorkflow deleteMany
+ */
+export type OnChainWorkflowDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which OnChainWorkflows to delete
+   */
+  where?: Prisma.OnChainWorkflowWhereInput
+  /**
+   * Limit how many OnChainWorkflows to delete.
+   */
+  limit?: number
+}
+
+/**
+ * OnChainWorkflow.runs
+ */
+export type OnChainWorkflow$runsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRun
+   */
+  select?: Prisma.WorkflowRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRun
+   */
+  omit?: Prisma.WorkflowRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunInclude<ExtArgs> | null
+  where?: Prisma.WorkflowRunWhereInput
+  orderBy?: Prisma.WorkflowRunOrderByWithRelationInput | Prisma.WorkflowRunOrderByWithRelationInput[]
+  cursor?: Prisma.WorkflowRunWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.WorkflowRunScalarFieldEnum | Prisma.WorkflowRunScalarFieldEnum[]
+}
+
+/**
+ * OnChainWorkflow without action
+ */
+export type OnChainWorkflowDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OnChainWorkflow
+   */
+  select?: Prisma.OnChainWorkflowSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OnChainWorkflow
+   */
+  omit?: Prisma.OnChainWorkflowOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OnChainWorkflowInclude<ExtArgs> | null
+}
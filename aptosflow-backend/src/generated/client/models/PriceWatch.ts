@@ -0,0 +1,1438 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `PriceWatch` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model PriceWatch
+ * 
+ */
+export type PriceWatchModel = runtime.Types.Result.DefaultSelection<Prisma.$PriceWatchPayload>
+
+export type AggregatePriceWatch = {
+  _count: PriceWatchCountAggregateOutputType | null
+  _avg: PriceWatchAvgAggregateOutputType | null
+  _sum: PriceWatchSumAggregateOutputType | null
+  _min: PriceWatchMinAggregateOutputType | null
+  _max: PriceWatchMaxAggregateOutputType | null
+}
+
+export type PriceWatchAvgAggregateOutputType = {
+  lastPrice: number | null
+}
+
+export type PriceWatchSumAggregateOutputType = {
+  lastPrice: number | null
+}
+
+export type PriceWatchMinAggregateOutputType = {
+  id: string | null
+  workflowId: string | null
+  configKey: string | null
+  conditionMet: boolean | null
+  lastPrice: number | null
+  checkedAt: Date | null
+  lastFiredAt: Date | null
+  updatedAt: Date | null
+}
+
+export type PriceWatchMaxAggregateOutputType = {
+  id: string | null
+  workflowId: string | null
+  configKey: string | null
+  conditionMet: boolean | null
+  lastPrice: number | null
+  checkedAt: Date | null
+  lastFiredAt: Date | null
+  updatedAt: Date | null
+}
+
+export type PriceWatchCountAggregateOutputType = {
+  id: number
+  workflowId: number
+  configKey: number
+  conditionMet: number
+  lastPrice: number
+  checkedAt: number
+  lastFiredAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type PriceWatchAvgAggregateInputType = {
+  lastPrice?: true
+}
+
+export type PriceWatchSumAggregateInputType = {
+  lastPrice?: true
+}
+
+export type PriceWatchMinAggregateInputType = {
+  id?: true
+  workflowId?: true
+  configKey?: true
+  conditionMet?: true
+  lastPrice?: true
+  checkedAt?: true
+  lastFiredAt?: true
+  updatedAt?: true
+}
+
+export type PriceWatchMaxAggregateInputType = {
+  id?: true
+  workflowId?: true
+  configKey?: true
+  conditionMet?: true
+  lastPrice?: true
+  checkedAt?: true
+  lastFiredAt?: true
+  updatedAt?: true
+}
+
+export type PriceWatchCountAggregateInputType = {
+  id?: true
+  workflowId?: true
+  configKey?: true
+  conditionMet?: true
+  lastPrice?: true
+  checkedAt?: true
+  lastFiredAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type PriceWatchAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PriceWatch to aggregate.
+   */
+  where?: Prisma.PriceWatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PriceWatches to fetch.
+   */
+  orderBy?: Prisma.PriceWatchOrderByWithRelationInput | Prisma.PriceWatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.PriceWatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PriceWatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PriceWatches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned PriceWatches
+  **/
+  _count?: true | PriceWatchCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: PriceWatchAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: PriceWatchSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: PriceWatchMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: PriceWatchMaxAggregateInputType
+}
+
+export type GetPriceWatchAggregateType<T extends PriceWatchAggregateArgs> = {
+      [P in keyof T & keyof AggregatePriceWatch]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregatePriceWatch[P]>
+    : Prisma.GetScalarType<T[P], AggregatePriceWatch[P]>
+}
+
+
+
+
+export type PriceWatchGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PriceWatchWhereInput
+  orderBy?: Prisma.PriceWatchOrderByWithAggregationInput | Prisma.PriceWatchOrderByWithAggregationInput[]
+  by: Prisma.PriceWatchScalarFieldEnum[] | Prisma.PriceWatchScalarFieldEnum
+  having?: Prisma.PriceWatchScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: PriceWatchCountAggregateInputType | true
+  _avg?: PriceWatchAvgAggregateInputType
+  _sum?: PriceWatchSumAggregateInputType
+  _min?: PriceWatchMinAggregateInputType
+  _max?: PriceWatchMaxAggregateInputType
+}
+
+export type PriceWatchGroupByOutputType = {
+  id: string
+  workflowId: string
+  configKey: string
+  conditionMet: boolean
+  lastPrice: number
+  checkedAt: Date
+  lastFiredAt: Date | null
+  updatedAt: Date
+  _count: PriceWatchCountAggregateOutputType | null
+  _avg: PriceWatchAvgAggregateOutputType | null
+  _sum: PriceWatchSumAggregateOutputType | null
+  _min: PriceWatchMinAggregateOutputType | null
+  _max: PriceWatchMaxAggregateOutputType | null
+}
+
+type GetPriceWatchGroupByPayload<T extends PriceWatchGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<PriceWatchGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof PriceWatchGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], PriceWatchGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], PriceWatchGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type PriceWatchWhereInput = {
+  AND?: Prisma.PriceWatchWhereInput | Prisma.PriceWatchWhereInput[]
+  OR?: Prisma.PriceWatchWhereInput[]
+  NOT?: Prisma.PriceWatchWhereInput | Prisma.PriceWatchWhereInput[]
+  id?: Prisma.StringFilter<"PriceWatch"> | string
+  workflowId?: Prisma.StringFilter<"PriceWatch"> | string
+  configKey?: Prisma.StringFilter<"PriceWatch"> | string
+  conditionMet?: Prisma.BoolFilter<"PriceWatch"> | boolean
+  lastPrice?: Prisma.FloatFilter<"PriceWatch"> | number
+  checkedAt?: Prisma.DateTimeFilter<"PriceWatch"> | Date | string
+  lastFiredAt?: Prisma.DateTimeNullableFilter<"PriceWatch"> | Date | string | null
+  updatedAt?: Prisma.DateTimeFilter<"PriceWatch"> | Date | string
+  workflow?: Prisma.XOR<Prisma.WorkflowScalarRelationFilter, Prisma.WorkflowWhereInput>
+}
+
+export type PriceWatchOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  configKey?: Prisma.SortOrder
+  conditionMet?: Prisma.SortOrder
+  lastPrice?: Prisma.SortOrder
+  checkedAt?: Prisma.SortOrder
+  lastFiredAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  workflow?: Prisma.WorkflowOrderByWithRelationInput
+}
+
+export type PriceWatchWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  workflowId?: string
+  AND?: Prisma.PriceWatchWhereInput | Prisma.PriceWatchWhereInput[]
+  OR?: Prisma.PriceWatchWhereInput[]
+  NOT?: Prisma.PriceWatchWhereInput | Prisma.PriceWatchWhereInput[]
+  configKey?: Prisma.StringFilter<"PriceWatch"> | string
+  conditionMet?: Prisma.BoolFilter<"PriceWatch"> | boolean
+  lastPrice?: Prisma.FloatFilter<"PriceWatch"> | number
+  checkedAt?: Prisma.DateTimeFilter<"PriceWatch"> | Date | string
+  lastFiredAt?: Prisma.DateTimeNullableFilter<"PriceWatch"> | Date | string | null
+  updatedAt?: Prisma.DateTimeFilter<"PriceWatch"> | Date | string
+  workflow?: Prisma.XOR<Prisma.WorkflowScalarRelationFilter, Prisma.WorkflowWhereInput>
+}, "id" | "workflowId">
+
+export type PriceWatchOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  configKey?: Prisma.SortOrder
+  conditionMet?: Prisma.SortOrder
+  lastPrice?: Prisma.SortOrder
+  checkedAt?: Prisma.SortOrder
+  lastFiredAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.PriceWatchCountOrderByAggregateInput
+  _avg?: Prisma.PriceWatchAvgOrderByAggregateInput
+  _max?: Prisma.PriceWatchMaxOrderByAggregateInput
+  _min?: Prisma.PriceWatchMinOrderByAggregateInput
+  _sum?: Prisma.PriceWatchSumOrderByAggregateInput
+}
+
+export type PriceWatchScalarWhereWithAggregatesInput = {
+  AND?: Prisma.PriceWatchScalarWhereWithAggregatesInput | Prisma.PriceWatchScalarWhereWithAggregatesInput[]
+  OR?: Prisma.PriceWatchScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.PriceWatchScalarWhereWithAggregatesInput | Prisma.PriceWatchScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"PriceWatch"> | string
+  workflowId?: Prisma.StringWithAggregatesFilter<"PriceWatch"> | string
+  configKey?: Prisma.StringWithAggregatesFilter<"PriceWatch"> | string
+  conditionMet?: Prisma.BoolWithAggregatesFilter<"PriceWatch"> | boolean
+  lastPrice?: Prisma.FloatWithAggregatesFilter<"PriceWatch"> | number
+  checkedAt?: Prisma.DateTimeWithAggregatesFilter<"PriceWatch"> | Date | string
+  lastFiredAt?: Prisma.DateTimeNullableWithAggregatesFilter<"PriceWatch"> | Date | string | null
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"PriceWatch"> | Date | string
+}
+
+export type PriceWatchCreateInput = {
+  id?: string
+  configKey: string
+  conditionMet: boolean
+  lastPrice: number
+  checkedAt: Date | string
+  lastFiredAt?: Date | string | null
+  updatedAt?: Date | string
+  workflow: Prisma.WorkflowCreateNestedOneWithoutPriceWatchInput
+}
+
+export type PriceWatchUncheckedCreateInput = {
+  id?: string
+  workflowId: string
+  configKey: string
+  conditionMet: boolean
+  lastPrice: number
+  checkedAt: Date | string
+  lastFiredAt?: Date | string | null
+  updatedAt?: Date | string
+}
+
+export type PriceWatchUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  configKey?: Prisma.StringFieldUpdateOperationsInput | string
+  conditionMet?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  checkedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastFiredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  workflow?: Prisma.WorkflowUpdateOneRequiredWithoutPriceWatchNestedInput
+}
+
+export type PriceWatchUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  configKey?: Prisma.StringFieldUpdateOperationsInput | string
+  conditionMet?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  checkedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastFiredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PriceWatchCreateManyInput = {
+  id?: string
+  workflowId: string
+  configKey: string
+  conditionMet: boolean
+  lastPrice: number
+  checkedAt: Date | string
+  lastFiredAt?: Date | string | null
+  updatedAt?: Date | string
+}
+
+export type PriceWatchUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  configKey?: Prisma.StringFieldUpdateOperationsInput | string
+  conditionMet?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  checkedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastFiredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PriceWatchUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  configKey?: Prisma.StringFieldUpdateOperationsInput | string
+  conditionMet?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  checkedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastFiredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PriceWatchNullableScalarRelationFilter = {
+  is?: Prisma.PriceWatchWhereInput | null
+  isNot?: Prisma.PriceWatchWhereInput | null
+}
+
+export type PriceWatchCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  configKey?: Prisma.SortOrder
+  conditionMet?: Prisma.SortOrder
+  lastPrice?: Prisma.SortOrder
+  checkedAt?: Prisma.SortOrder
+  lastFiredAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PriceWatchAvgOrderByAggregateInput = {
+  lastPrice?: Prisma.SortOrder
+}
+
+export type PriceWatchMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  configKey?: Prisma.SortOrder
+  conditionMet?: Prisma.SortOrder
+  lastPrice?: Prisma.SortOrder
+  checkedAt?: Prisma.SortOrder
+  lastFiredAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PriceWatchMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  configKey?: Prisma.SortOrder
+  conditionMet?: Prisma.SortOrder
+  lastPrice?: Prisma.SortOrder
+  checkedAt?: Prisma.SortOrder
+  lastFiredAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PriceWatchSumOrderByAggregateInput = {
+  lastPrice?: Prisma.SortOrder
+}
+
+export type PriceWatchCreateNestedOneWithoutWorkflowInput = {
+  create?: Prisma.XOR<Prisma.PriceWatchCreateWithoutWorkflowInput, Prisma.PriceWatchUncheckedCreateWithoutWorkflowInput>
+  connectOrCreate?: Prisma.PriceWatchCreateOrConnectWithoutWorkflowInput
+  connect?: Prisma.PriceWatchWhereUniqueInput
+}
+
+export type PriceWatchUncheckedCreateNestedOneWithoutWorkflowInput = {
+  create?: Prisma.XOR<Prisma.PriceWatchCreateWithoutWorkflowInput, Prisma.PriceWatchUncheckedCreateWithoutWorkflowInput>
+  connectOrCreate?: Prisma.PriceWatchCreateOrConnectWithoutWorkflowInput
+  connect?: Prisma.PriceWatchWhereUniqueInput
+}
+
+export type PriceWatchUpdateOneWithoutWorkflowNestedInput = {
+  create?: Prisma.XOR<Prisma.PriceWatchCreateWithoutWorkflowInput, Prisma.PriceWatchUncheckedCreateWithoutWorkflowInput>
+  connectOrCreate?: Prisma.PriceWatchCreateOrConnectWithoutWorkflowInput
+  upsert?: Prisma.PriceWatchUpsertWithoutWorkflowInput
+  disconnect?: Prisma.PriceWatchWhereInput | boolean
+  delete?: Prisma.PriceWatchWhereInput | boolean
+  connect?: Prisma.PriceWatchWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PriceWatchUpdateToOneWithWhereWithoutWorkflowInput, Prisma.PriceWatchUpdateWithoutWorkflowInput>, Prisma.PriceWatchUncheckedUpdateWithoutWorkflowInput>
+}
+
+export type PriceWatchUncheckedUpdateOneWithoutWorkflowNestedInput = {
+  create?: Prisma.XOR<Prisma.PriceWatchCreateWithoutWorkflowInput, Prisma.PriceWatchUncheckedCreateWithoutWorkflowInput>
+  connectOrCreate?: Prisma.PriceWatchCreateOrConnectWithoutWorkflowInput
+  upsert?: Prisma.PriceWatchUpsertWithoutWorkflowInput
+  disconnect?: Prisma.PriceWatchWhereInput | boolean
+  delete?: Prisma.PriceWatchWhereInput | boolean
+  connect?: Prisma.PriceWatchWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PriceWatchUpdateToOneWithWhereWithoutWorkflowInput, Prisma.PriceWatchUpdateWithoutWorkflowInput>, Prisma.PriceWatchUncheckedUpdateWithoutWorkflowInput>
+}
+
+export type FloatFieldUpdateOperationsInput = {
+  set?: number
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+export type PriceWatchCreateWithoutWorkflowInput = {
+  id?: string
+  configKey: string
+  conditionMet: boolean
+  lastPrice: number
+  checkedAt: Date | string
+  lastFiredAt?: Date | string | null
+  updatedAt?: Date | string
+}
+
+export type PriceWatchUncheckedCreateWithoutWorkflowInput = {
+  id?: string
+  configKey: string
+  conditionMet: boolean
+  lastPrice: number
+  checkedAt: Date | string
+  lastFiredAt?: Date | string | null
+  updatedAt?: Date | string
+}
+
+export type PriceWatchCreateOrConnectWithoutWorkflowInput = {
+  where: Prisma.PriceWatchWhereUniqueInput
+  create: Prisma.XOR<Prisma.PriceWatchCreateWithoutWorkflowInput, Prisma.PriceWatchUncheckedCreateWithoutWorkflowInput>
+}
+
+export type PriceWatchUpsertWithoutWorkflowInput = {
+  update: Prisma.XOR<Prisma.PriceWatchUpdateWithoutWorkflowInput, Prisma.PriceWatchUncheckedUpdateWithoutWorkflowInput>
+  create: Prisma.XOR<Prisma.PriceWatchCreateWithoutWorkflowInput, Prisma.PriceWatchUncheckedCreateWithoutWorkflowInput>
+  where?: Prisma.PriceWatchWhereInput
+}
+
+export type PriceWatchUpdateToOneWithWhereWithoutWorkflowInput = {
+  where?: Prisma.PriceWatchWhereInput
+  data: Prisma.XOR<Prisma.PriceWatchUpdateWithoutWorkflowInput, Prisma.PriceWatchUncheckedUpdateWithoutWorkflowInput>
+}
+
+export type PriceWatchUpdateWithoutWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  configKey?: Prisma.StringFieldUpdateOperationsInput | string
+  conditionMet?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  checkedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastFiredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PriceWatchUncheckedUpdateWithoutWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  configKey?: Prisma.StringFieldUpdateOperationsInput | string
+  conditionMet?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  checkedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastFiredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type PriceWatchSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workflowId?: boolean
+  configKey?: boolean
+  conditionMet?: boolean
+  lastPrice?: boolean
+  checkedAt?: boolean
+  lastFiredAt?: boolean
+  updatedAt?: boolean
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["priceWatch"]>
+
+export type PriceWatchSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workflowId?: boolean
+  configKey?: boolean
+  conditionMet?: boolean
+  lastPrice?: boolean
+  checkedAt?: boolean
+  lastFiredAt?: boolean
+  updatedAt?: boolean
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["priceWatch"]>
+
+export type PriceWatchSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workflowId?: boolean
+  configKey?: boolean
+  conditionMet?: boolean
+  lastPrice?: boolean
+  checkedAt?: boolean
+  lastFiredAt?: boolean
+  updatedAt?: boolean
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["priceWatch"]>
+
+export type PriceWatchSelectScalar = {
+  id?: boolean
+  workflowId?: boolean
+  configKey?: boolean
+  conditionMet?: boolean
+  lastPrice?: boolean
+  checkedAt?: boolean
+  lastFiredAt?: boolean
+  updatedAt?: boolean
+}
+
+export type PriceWatchOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "workflowId" | "configKey" | "conditionMet" | "lastPrice" | "checkedAt" | "lastFiredAt" | "updatedAt", ExtArgs["result"]["priceWatch"]>
+export type PriceWatchInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}
+export type PriceWatchIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}
+export type PriceWatchIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}
+
+export type $PriceWatchPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "PriceWatch"
+  objects: {
+    workflow: Prisma.$WorkflowPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    workflowId: string
+    configKey: string
+    conditionMet: boolean
+    lastPrice: number
+    checkedAt: Date
+    lastFiredAt: Date | null
+    updatedAt: Date
+  }, ExtArgs["result"]["priceWatch"]>
+  composites: {}
+}
+
+export type PriceWatchGetPayload<S extends boolean | null | undefined | PriceWatchDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$PriceWatchPayload, S>
+
+export type PriceWatchCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<PriceWatchFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: PriceWatchCountAggregateInputType | true
+  }
+
+export interface PriceWatchDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['PriceWatch'], meta: { name: 'PriceWatch' } }
+  /**
+   * Find zero or one PriceWatch that matches the filter.
+   * @param {PriceWatchFindUniqueArgs} args - Arguments to find a PriceWatch
+   * @example
+   * // Get one PriceWatch
+   * const priceWatch = await prisma.priceWatch.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends PriceWatchFindUniqueArgs>(args: Prisma.SelectSubset<T, PriceWatchFindUniqueArgs<ExtArgs>>): Prisma.Prisma__PriceWatchClient<runtime.Types.Result.GetResult<Prisma.$PriceWatchPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one PriceWatch that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {PriceWatchFindUniqueOrThrowArgs} args - Arguments to find a PriceWatch
+   * @example
+   * // Get one PriceWatch
+   * const priceWatch = await prisma.priceWatch.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends PriceWatchFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, PriceWatchFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__PriceWatchClient<runtime.Types.Result.GetResult<Prisma.$PriceWatchPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PriceWatch that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PriceWatchFindFirstArgs} args - Arguments to find a PriceWatch
+   * @example
+   * // Get one PriceWatch
+   * const priceWatch = await prisma.priceWatch.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends PriceWatchFindFirstArgs>(args?: Prisma.SelectSubset<T, PriceWatchFindFirstArgs<ExtArgs>>): Prisma.Prisma__PriceWatchClient<runtime.Types.Result.GetResult<Prisma.$PriceWatchPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PriceWatch that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PriceWatchFindFirstOrThrowArgs} args - Arguments to find a PriceWatch
+   * @example
+   * // Get one PriceWatch
+   * const priceWatch = await prisma.priceWatch.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends PriceWatchFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, PriceWatchFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__PriceWatchClient<runtime.Types.Result.GetResult<Prisma.$PriceWatchPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more PriceWatches that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PriceWatchFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all PriceWatches
+   * const priceWatches = await prisma.priceWatch.findMany()
+   * 
+   * // Get first 10 PriceWatches
+   * const priceWatches = await prisma.priceWatch.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const priceWatchWithIdOnly = await prisma.priceWatch.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends PriceWatchFindManyArgs>(args?: Prisma.SelectSubset<T, PriceWatchFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PriceWatchPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a PriceWatch.
+   * @param {PriceWatchCreateArgs} args - Arguments to create a PriceWatch.
+   * @example
+   * // Create one PriceWatch
+   * const PriceWatch = await prisma.priceWatch.create({
+   *   data: {
+   *     // ... data to create a PriceWatch
+   *   }
+   * })
+   * 
+   */
+  create<T extends PriceWatchCreateArgs>(args: Prisma.SelectSubset<T, PriceWatchCreateArgs<ExtArgs>>): Prisma.Prisma__PriceWatchClient<runtime.Types.Result.GetResult<Prisma.$PriceWatchPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many PriceWatches.
+   * @param {PriceWatchCreateManyArgs} args - Arguments to create many PriceWatches.
+   * @example
+   * // Create many PriceWatches
+   * const priceWatch = await prisma.priceWatch.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends PriceWatchCreateManyArgs>(args?: Prisma.SelectSubset<T, PriceWatchCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many PriceWatches and returns the data saved in the database.
+   * @param {PriceWatchCreateManyAndReturnArgs} args - Arguments to create many PriceWatches.
+   * @example
+   * // Create many PriceWatches
+   * const priceWatch = await prisma.priceWatch.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many PriceWatches and only return the `id`
+   * const priceWatchWithIdOnly = await prisma.priceWatch.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends PriceWatchCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, PriceWatchCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PriceWatchPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a PriceWatch.
+   * @param {PriceWatchDeleteArgs} args - Arguments to delete one PriceWatch.
+   * @example
+   * // Delete one PriceWatch
+   * const PriceWatch = await prisma.priceWatch.delete({
+   *   where: {
+   *     // ... filter to delete one PriceWatch
+   *   }
+   * })
+   * 
+   */
+  delete<T extends PriceWatchDeleteArgs>(args: Prisma.SelectSubset<T, PriceWatchDeleteArgs<ExtArgs>>): Prisma.Prisma__PriceWatchClient<runtime.Types.Result.GetResult<Prisma.$PriceWatchPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one PriceWatch.
+   * @param {PriceWatchUpdateArgs} args - Arguments to update one PriceWatch.
+   * @example
+   * // Update one PriceWatch
+   * const priceWatch = await prisma.priceWatch.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends PriceWatchUpdateArgs>(args: Prisma.SelectSubset<T, PriceWatchUpdateArgs<ExtArgs>>): Prisma.Prisma__PriceWatchClient<runtime.Types.Result.GetResult<Prisma.$PriceWatchPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more PriceWatches.
+   * @param {PriceWatchDeleteManyArgs} args - Arguments to filter PriceWatches to delete.
+   * @example
+   * // Delete a few PriceWatches
+   * const { count } = await prisma.priceWatch.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends PriceWatchDeleteManyArgs>(args?: Prisma.SelectSubset<T, PriceWatchDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PriceWatches.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PriceWatchUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many PriceWatches
+   * const priceWatch = await prisma.priceWatch.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends PriceWatchUpdateManyArgs>(args: Prisma.SelectSubset<T, PriceWatchUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PriceWatches and returns the data updated in the database.
+   * @param {PriceWatchUpdateManyAndReturnArgs} args - Arguments to update many PriceWatches.
+   * @example
+   * // Update many PriceWatches
+   * const priceWatch = await prisma.priceWatch.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more PriceWatches and only return the `id`
+   * const priceWatchWithIdOnly = await prisma.priceWatch.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends PriceWatchUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, PriceWatchUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PriceWatchPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one PriceWatch.
+   * @param {PriceWatchUpsertArgs} args - Arguments to update or create a PriceWatch.
+   * @example
+   * // Update or create a PriceWatch
+   * const priceWatch = await prisma.priceWatch.upsert({
+   *   create: {
+   *     // ... data to create a PriceWatch
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the PriceWatch we want to update
+   *   }
+   * })
+   */
+  upsert<T extends PriceWatchUpsertArgs>(args: Prisma.SelectSubset<T, PriceWatchUpsertArgs<ExtArgs>>): Prisma.Prisma__PriceWatchClient<runtime.Types.Result.GetResult<Prisma.$PriceWatchPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of PriceWatches.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PriceWatchCountArgs} args - Arguments to filter PriceWatches to count.
+   * @example
+   * // Count the number of PriceWatches
+   * const count = await prisma.priceWatch.count({
+   *   where: {
+   *     // ... the filter for the PriceWatches we want to count
+   *   }
+   * })
+  **/
+  count<T extends PriceWatchCountArgs>(
+    args?: Prisma.Subset<T, PriceWatchCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], PriceWatchCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a PriceWatch.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PriceWatchAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends PriceWatchAggregateArgs>(args: Prisma.Subset<T, PriceWatchAggregateArgs>): Prisma.PrismaPromise<GetPriceWatchAggregateType<T>>
+
+  /**
+   * Group by PriceWatch.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PriceWatchGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends PriceWatchGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: PriceWatchGroupByArgs['orderBy'] }
+      : { orderBy?: PriceWatchGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, PriceWatchGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetPriceWatchGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the PriceWatch model
+ */
+readonly fields: PriceWatchFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for PriceWatch.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__PriceWatchClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  workflow<T extends Prisma.WorkflowDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WorkflowDefaultArgs<ExtArgs>>): Prisma.Prisma__WorkflowClient<runtime.Types.Result.GetResult<Prisma.$WorkflowPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the PriceWatch model
+ */
+export interface PriceWatchFieldRefs {
+  readonly id: Prisma.FieldRef<"PriceWatch", 'String'>
+  readonly workflowId: Prisma.FieldRef<"PriceWatch", 'String'>
+  readonly configKey: Prisma.FieldRef<"PriceWatch", 'String'>
+  readonly conditionMet: Prisma.FieldRef<"PriceWatch", 'Boolean'>
+  readonly lastPrice: Prisma.FieldRef<"PriceWatch", 'Float'>
+  readonly checkedAt: Prisma.FieldRef<"PriceWatch", 'DateTime'>
+  readonly lastFiredAt: Prisma.FieldRef<"PriceWatch", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"PriceWatch", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * PriceWatch findUnique
+ */
+export type PriceWatchFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PriceWatch
+   */
+  select?: Prisma.PriceWatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PriceWatch
+   */
+  omit?: Prisma.PriceWatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PriceWatchInclude<ExtArgs> | null
+  /**
+   * Filter, which PriceWatch to fetch.
+   */
+  where: Prisma.PriceWatchWhereUniqueInput
+}
+
+/**
+ * PriceWatch findUniqueOrThrow
+ */
+export type PriceWatchFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PriceWatch
+   */
+  select?: Prisma.PriceWatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PriceWatch
+   */
+  omit?: Prisma.PriceWatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PriceWatchInclude<ExtArgs> | null
+  /**
+   * Filter, which PriceWatch to fetch.
+   */
+  where: Prisma.PriceWatchWhereUniqueInput
+}
+
+/**
+ * PriceWatch findFirst
+ */
+export type PriceWatchFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PriceWatch
+   */
+  select?: Prisma.PriceWatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PriceWatch
+   */
+  omit?: Prisma.PriceWatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PriceWatchInclude<ExtArgs> | null
+  /**
+   * Filter, which PriceWatch to fetch.
+   */
+  where?: Prisma.PriceWatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PriceWatches to fetch.
+   */
+  orderBy?: Prisma.PriceWatchOrderByWithRelationInput | Prisma.PriceWatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PriceWatches.
+   */
+  cursor?: Prisma.PriceWatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PriceWatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PriceWatches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PriceWatches.
+   */
+  distinct?: Prisma.PriceWatchScalarFieldEnum | Prisma.PriceWatchScalarFieldEnum[]
+}
+
+/**
+ * PriceWatch findFirstOrThrow
+ */
+export type PriceWatchFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PriceWatch
+   */
+  select?: Prisma.PriceWatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PriceWatch
+   */
+  omit?: Prisma.PriceWatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PriceWatchInclude<ExtArgs> | null
+  /**
+   * Filter, which PriceWatch to fetch.
+   */
+  where?: Prisma.PriceWatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PriceWatches to fetch.
+   */
+  orderBy?: Prisma.PriceWatchOrderByWithRelationInput | Prisma.PriceWatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PriceWatches.
+   */
+  cursor?: Prisma.PriceWatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PriceWatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PriceWatches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PriceWatches.
+   */
+  distinct?: Prisma.PriceWatchScalarFieldEnum | Prisma.PriceWatchScalarFieldEnum[]
+}
+
+/**
+ * PriceWatch findMany
+ */
+export type PriceWatchFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PriceWatch
+   */
+  select?: Prisma.PriceWatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PriceWatch
+   */
+  omit?: Prisma.PriceWatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PriceWatchInclude<ExtArgs> | null
+  /**
+   * Filter, which PriceWatches to fetch.
+   */
+  where?: Prisma.PriceWatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PriceWatches to fetch.
+   */
+  orderBy?: Prisma.PriceWatchOrderByWithRelationInput | Prisma.PriceWatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing PriceWatches.
+   */
+  cursor?: Prisma.PriceWatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PriceWatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PriceWatches.
+   */
+  skip?: number
+  distinct?: Prisma.PriceWatchScalarFieldEnum | Prisma.PriceWatchScalarFieldEnum[]
+}
+
+/**
+ * PriceWatch create
+ */
+export type PriceWatchCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PriceWatch
+   */
+  select?: Prisma.PriceWatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PriceWatch
+   */
+  omit?: Prisma.PriceWatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PriceWatchInclude<ExtArgs> | null
+  /**
+   * The data needed to create a PriceWatch.
+   */
+  data: Prisma.XOR<Prisma.PriceWatchCreateInput, Prisma.PriceWatchUncheckedCreateInput>
+}
+
+/**
+ * PriceWatch createMany
+ */
+export type PriceWatchCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many PriceWatches.
+   */
+  data: Prisma.PriceWatchCreateManyInput | Prisma.PriceWatchCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * PriceWatch createManyAndReturn
+ */
+export type PriceWatchCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PriceWatch
+   */
+  select?: Prisma.PriceWatchSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PriceWatch
+   */
+  omit?: Prisma.PriceWatchOmit<ExtArgs> | null
+  /**
+   * The data used to create many PriceWatches.
+   */
+  data: Prisma.PriceWatchCreateManyInput | Prisma.PriceWatchCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PriceWatchIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * PriceWatch update
+ */
+export type PriceWatchUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PriceWatch
+   */
+  select?: Prisma.PriceWatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PriceWatch
+   */
+  omit?: Prisma.PriceWatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PriceWatchInclude<ExtArgs> | null
+  /**
+   * The data needed to update a PriceWatch.
+   */
+  data: Prisma.XOR<Prisma.PriceWatchUpdateInput, Prisma.PriceWatchUncheckedUpdateInput>
+  /**
+   * Choose, which PriceWatch to update.
+   */
+  where: Prisma.PriceWatchWhereUniqueInput
+}
+
+/**
+ * PriceWatch updateMany
+ */
+export type PriceWatchUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update PriceWatches.
+   */
+  data: Prisma.XOR<Prisma.PriceWatchUpdateManyMutationInput, Prisma.PriceWatchUncheckedUpdateManyInput>
+  /**
+   * Filter which PriceWatches to update
+   */
+  where?: Prisma.PriceWatchWhereInput
+  /**
+   * Limit how many PriceWatches to update.
+   */
+  limit?: number
+}
+
+/**
+ * PriceWatch updateManyAndReturn
+ */
+export type PriceWatchUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PriceWatch
+   */
+  select?: Prisma.PriceWatchSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PriceWatch
+   */
+  omit?: Prisma.PriceWatchOmit<ExtArgs> | null
+  /**
+   * The data used to update PriceWatches.
+   */
+  data: Prisma.XOR<Prisma.PriceWatchUpdateManyMutationInput, Prisma.PriceWatchUncheckedUpdateManyInput>
+  /**
+   * Filter which PriceWatches to update
+   */
+  where?: Prisma.PriceWatchWhereInput
+  /**
+   * Limit how many PriceWatches to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PriceWatchIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * PriceWatch upsert
+ */
+export type PriceWatchUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PriceWatch
+   */
+  select?: Prisma.PriceWatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PriceWatch
+   */
+  omit?: Prisma.PriceWatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PriceWatchInclude<ExtArgs> | null
+  /**
+   * The filter to search for the PriceWatch to update in case it exists.
+   */
+  where: Prisma.PriceWatchWhereUniqueInput
+  /**
+   * In case the PriceWatch found by the `where` argument doesn't exist, create a new PriceWatch with this data.
+   */
+  create: Prisma.XOR<Prisma.PriceWatchCreateInput, Prisma.PriceWatchUncheckedCreateInput>
+  /**
+   * In case the PriceWatch was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.PriceWatchUpdateInput, Prisma.PriceWatchUncheckedUpdateInput>
+}
+
+/**
+ * PriceWatch delete
+ */
+export type PriceWatchDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PriceWatch
+   */
+  select?: Prisma.PriceWatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PriceWatch
+   */
+  omit?: Prisma.PriceWatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PriceWatchInclude<ExtArgs> | null
+  /**
+   * Filter which PriceWatch to delete.
+   */
+  where: Prisma.PriceWatchWhereUniqueInput
+}
+
+/**
+ * PriceWatch deleteMany
+ */
+export type PriceWatchDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PriceWatches to delete
+   */
+  where?: Prisma.PriceWatchWhereInput
+  /**
+   * Limit how many PriceWatches to delete.
+   */
+  limit?: number
+}
+
+/**
+ * PriceWatch without action
+ */
+export type PriceWatchDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PriceWatch
+   */
+  select?: Prisma.PriceWatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PriceWatch
+   */
+  omit?: Prisma.PriceWatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PriceWatchInclude<ExtArgs> | null
+}
@@ -408,9 +408,9 @@ export type PromptMinOrderByAggregateInput = {
   completedAt?: Prisma.SortOrder
 }
 
-export type PromptScalarRelationFilter = {
-  is?: Prisma.PromptWhereInput
-  isNot?: Prisma.PromptWhereInput
+export type PromptNullableScalarRelationFilter = {
+  is?: Prisma.PromptWhereInput | null
+  isNot?: Prisma.PromptWhereInput | null
 }
 
 export type PromptCreateNestedManyWithoutUserInput = {
@@ -511,10 +511,12 @@ export type PromptCreateNestedOneWithoutWorkflowInput = {
   connect?: Prisma.PromptWhereUniqueInput
 }
 
-export type PromptUpdateOneRequiredWithoutWorkflowNestedInput = {
+export type PromptUpdateOneWithoutWorkflowNestedInput = {
   create?: Prisma.XOR<Prisma.PromptCreateWithoutWorkflowInput, Prisma.PromptUncheckedCreateWithoutWorkflowInput>
   connectOrCreate?: Prisma.PromptCreateOrConnectWithoutWorkflowInput
   upsert?: Prisma.PromptUpsertWithoutWorkflowInput
+  disconnect?: Prisma.PromptWhereInput | boolean
+  delete?: Prisma.PromptWhereInput | boolean
   connect?: Prisma.PromptWhereUniqueInput
   update?: Prisma.XOR<Prisma.XOR<Prisma.PromptUpdateToOneWithWhereWithoutWorkflowInput, Prisma.PromptUpdateWithoutWorkflowInput>, Prisma.PromptUncheckedUpdateWithoutWorkflowInput>
 }
@@ -0,0 +1,1577 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ScheduleFire` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ScheduleFire
+ * 
+ */
+export type ScheduleFireModel = runtime.Types.Result.DefaultSelection<Prisma.$ScheduleFirePayload>
+
+export type AggregateScheduleFire = {
+  _count: ScheduleFireCountAggregateOutputType | null
+  _min: ScheduleFireMinAggregateOutputType | null
+  _max: ScheduleFireMaxAggregateOutputType | null
+}
+
+export type ScheduleFireMinAggregateOutputType = {
+  id: string | null
+  workflowId: string | null
+  scheduledFor: Date | null
+  status: $Enums.ScheduleFireStatus | null
+  catchUp: boolean | null
+  runId: string | null
+  error: string | null
+  createdAt: Date | null
+}
+
+export type ScheduleFireMaxAggregateOutputType = {
+  id: string | null
+  workflowId: string | null
+  scheduledFor: Date | null
+  status: $Enums.ScheduleFireStatus | null
+  catchUp: boolean | null
+  runId: string | null
+  error: string | null
+  createdAt: Date | null
+}
+
+export type ScheduleFireCountAggregateOutputType = {
+  id: number
+  workflowId: number
+  scheduledFor: number
+  status: number
+  catchUp: number
+  runId: number
+  error: number
+  createdAt: number
+  _all: number
+}
+
+
+export type ScheduleFireMinAggregateInputType = {
+  id?: true
+  workflowId?: true
+  scheduledFor?: true
+  status?: true
+  catchUp?: true
+  runId?: true
+  error?: true
+  createdAt?: true
+}
+
+export type ScheduleFireMaxAggregateInputType = {
+  id?: true
+  workflowId?: true
+  scheduledFor?: true
+  status?: true
+  catchUp?: true
+  runId?: true
+  error?: true
+  createdAt?: true
+}
+
+export type ScheduleFireCountAggregateInputType = {
+  id?: true
+  workflowId?: true
+  scheduledFor?: true
+  status?: true
+  catchUp?: true
+  runId?: true
+  error?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type ScheduleFireAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ScheduleFire to aggregate.
+   */
+  where?: Prisma.ScheduleFireWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ScheduleFires to fetch.
+   */
+  orderBy?: Prisma.ScheduleFireOrderByWithRelationInput | Prisma.ScheduleFireOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ScheduleFireWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ScheduleFires from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ScheduleFires.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ScheduleFires
+  **/
+  _count?: true | ScheduleFireCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ScheduleFireMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ScheduleFireMaxAggregateInputType
+}
+
+export type GetScheduleFireAggregateType<T extends ScheduleFireAggregateArgs> = {
+      [P in keyof T & keyof AggregateScheduleFire]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateScheduleFire[P]>
+    : Prisma.GetScalarType<T[P], AggregateScheduleFire[P]>
+}
+
+
+
+
+export type ScheduleFireGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ScheduleFireWhereInput
+  orderBy?: Prisma.ScheduleFireOrderByWithAggregationInput | Prisma.ScheduleFireOrderByWithAggregationInput[]
+  by: Prisma.ScheduleFireScalarFieldEnum[] | Prisma.ScheduleFireScalarFieldEnum
+  having?: Prisma.ScheduleFireScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ScheduleFireCountAggregateInputType | true
+  _min?: ScheduleFireMinAggregateInputType
+  _max?: ScheduleFireMaxAggregateInputType
+}
+
+export type ScheduleFireGroupByOutputType = {
+  id: string
+  workflowId: string
+  scheduledFor: Date
+  status: $Enums.ScheduleFireStatus
+  catchUp: boolean
+  runId: string | null
+  error: string | null
+  createdAt: Date
+  _count: ScheduleFireCountAggregateOutputType | null
+  _min: ScheduleFireMinAggregateOutputType | null
+  _max: ScheduleFireMaxAggregateOutputType | null
+}
+
+type GetScheduleFireGroupByPayload<T extends ScheduleFireGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ScheduleFireGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ScheduleFireGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ScheduleFireGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ScheduleFireGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ScheduleFireWhereInput = {
+  AND?: Prisma.ScheduleFireWhereInput | Prisma.ScheduleFireWhereInput[]
+  OR?: Prisma.ScheduleFireWhereInput[]
+  NOT?: Prisma.ScheduleFireWhereInput | Prisma.ScheduleFireWhereInput[]
+  id?: Prisma.StringFilter<"ScheduleFire"> | string
+  workflowId?: Prisma.StringFilter<"ScheduleFire"> | string
+  scheduledFor?: Prisma.DateTimeFilter<"ScheduleFire"> | Date | string
+  status?: Prisma.EnumScheduleFireStatusFilter<"ScheduleFire"> | $Enums.ScheduleFireStatus
+  catchUp?: Prisma.BoolFilter<"ScheduleFire"> | boolean
+  runId?: Prisma.StringNullableFilter<"ScheduleFire"> | string | null
+  error?: Prisma.StringNullableFilter<"ScheduleFire"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ScheduleFire"> | Date | string
+  workflow?: Prisma.XOR<Prisma.WorkflowScalarRelationFilter, Prisma.WorkflowWhereInput>
+  run?: Prisma.XOR<Prisma.WorkflowRunNullableScalarRelationFilter, Prisma.WorkflowRunWhereInput> | null
+}
+
+export type ScheduleFireOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  scheduledFor?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  catchUp?: Prisma.SortOrder
+  runId?: Prisma.SortOrderInput | Prisma.SortOrder
+  error?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  workflow?: Prisma.WorkflowOrderByWithRelationInput
+  run?: Prisma.WorkflowRunOrderByWithRelationInput
+}
+
+export type ScheduleFireWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  runId?: string
+  workflowId_scheduledFor?: Prisma.ScheduleFireWorkflowIdScheduledForCompoundUniqueInput
+  AND?: Prisma.ScheduleFireWhereInput | Prisma.ScheduleFireWhereInput[]
+  OR?: Prisma.ScheduleFireWhereInput[]
+  NOT?: Prisma.ScheduleFireWhereInput | Prisma.ScheduleFireWhereInput[]
+  workflowId?: Prisma.StringFilter<"ScheduleFire"> | string
+  scheduledFor?: Prisma.DateTimeFilter<"ScheduleFire"> | Date | string
+  status?: Prisma.EnumScheduleFireStatusFilter<"ScheduleFire"> | $Enums.ScheduleFireStatus
+  catchUp?: Prisma.BoolFilter<"ScheduleFire"> | boolean
+  error?: Prisma.StringNullableFilter<"ScheduleFire"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ScheduleFire"> | Date | string
+  workflow?: Prisma.XOR<Prisma.WorkflowScalarRelationFilter, Prisma.WorkflowWhereInput>
+  run?: Prisma.XOR<Prisma.WorkflowRunNullableScalarRelationFilter, Prisma.WorkflowRunWhereInput> | null
+}, "id" | "runId" | "workflowId_scheduledFor">
+
+export type ScheduleFireOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  scheduledFor?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  catchUp?: Prisma.SortOrder
+  runId?: Prisma.SortOrderInput | Prisma.SortOrder
+  error?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.ScheduleFireCountOrderByAggregateInput
+  _max?: Prisma.ScheduleFireMaxOrderByAggregateInput
+  _min?: Prisma.ScheduleFireMinOrderByAggregateInput
+}
+
+export type ScheduleFireScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ScheduleFireScalarWhereWithAggregatesInput | Prisma.ScheduleFireScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ScheduleFireScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ScheduleFireScalarWhereWithAggregatesInput | Prisma.ScheduleFireScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ScheduleFire"> | string
+  workflowId?: Prisma.StringWithAggregatesFilter<"ScheduleFire"> | string
+  scheduledFor?: Prisma.DateTimeWithAggregatesFilter<"ScheduleFire"> | Date | string
+  status?: Prisma.EnumScheduleFireStatusWithAggregatesFilter<"ScheduleFire"> | $Enums.ScheduleFireStatus
+  catchUp?: Prisma.BoolWithAggregatesFilter<"ScheduleFire"> | boolean
+  runId?: Prisma.StringNullableWithAggregatesFilter<"ScheduleFire"> | string | null
+  error?: Prisma.StringNullableWithAggregatesFilter<"ScheduleFire"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ScheduleFire"> | Date | string
+}
+
+export type ScheduleFireCreateInput = {
+  id?: string
+  scheduledFor: Date | string
+  status?: $Enums.ScheduleFireStatus
+  catchUp?: boolean
+  error?: string | null
+  createdAt?: Date | string
+  workflow: Prisma.WorkflowCreateNestedOneWithoutScheduleFiresInput
+  run?: Prisma.WorkflowRunCreateNestedOneWithoutScheduleFireInput
+}
+
+export type ScheduleFireUncheckedCreateInput = {
+  id?: string
+  workflowId: string
+  scheduledFor: Date | string
+  status?: $Enums.ScheduleFireStatus
+  catchUp?: boolean
+  runId?: string | null
+  error?: string | null
+  createdAt?: Date | string
+}
+
+export type ScheduleFireUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  scheduledFor?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumScheduleFireStatusFieldUpdateOperationsInput | $Enums.ScheduleFireStatus
+  catchUp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  workflow?: Prisma.WorkflowUpdateOneRequiredWithoutScheduleFiresNestedInput
+  run?: Prisma.WorkflowRunUpdateOneWithoutScheduleFireNestedInput
+}
+
+export type ScheduleFireUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  scheduledFor?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumScheduleFireStatusFieldUpdateOperationsInput | $Enums.ScheduleFireStatus
+  catchUp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  runId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ScheduleFireCreateManyInput = {
+  id?: string
+  workflowId: string
+  scheduledFor: Date | string
+  status?: $Enums.ScheduleFireStatus
+  catchUp?: boolean
+  runId?: string | null
+  error?: string | null
+  createdAt?: Date | string
+}
+
+export type ScheduleFireUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  scheduledFor?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumScheduleFireStatusFieldUpdateOperationsInput | $Enums.ScheduleFireStatus
+  catchUp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ScheduleFireUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  scheduledFor?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumScheduleFireStatusFieldUpdateOperationsInput | $Enums.ScheduleFireStatus
+  catchUp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  runId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ScheduleFireListRelationFilter = {
+  every?: Prisma.ScheduleFireWhereInput
+  some?: Prisma.ScheduleFireWhereInput
+  none?: Prisma.ScheduleFireWhereInput
+}
+
+export type ScheduleFireOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ScheduleFireNullableScalarRelationFilter = {
+  is?: Prisma.ScheduleFireWhereInput | null
+  isNot?: Prisma.ScheduleFireWhereInput | null
+}
+
+export type ScheduleFireWorkflowIdScheduledForCompoundUniqueInput = {
+  workflowId: string
+  scheduledFor: Date | string
+}
+
+export type ScheduleFireCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  scheduledFor?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  catchUp?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ScheduleFireMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  scheduledFor?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  catchUp?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ScheduleFireMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  scheduledFor?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  catchUp?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ScheduleFireCreateNestedManyWithoutWorkflowInput = {
+  create?: Prisma.XOR<Prisma.ScheduleFireCreateWithoutWorkflowInput, Prisma.ScheduleFireUncheckedCreateWithoutWorkflowInput> | Prisma.ScheduleFireCreateWithoutWorkflowInput[] | Prisma.ScheduleFireUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.ScheduleFireCreateOrConnectWithoutWorkflowInput | Prisma.ScheduleFireCreateOrConnectWithoutWorkflowInput[]
+  createMany?: Prisma.ScheduleFireCreateManyWorkflowInputEnvelope
+  connect?: Prisma.ScheduleFireWhereUniqueInput | Prisma.ScheduleFireWhereUniqueInput[]
+}
+
+export type ScheduleFireUncheckedCreateNestedManyWithoutWorkflowInput = {
+  create?: Prisma.XOR<Prisma.ScheduleFireCreateWithoutWorkflowInput, Prisma.ScheduleFireUncheckedCreateWithoutWorkflowInput> | Prisma.ScheduleFireCreateWithoutWorkflowInput[] | Prisma.ScheduleFireUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.ScheduleFireCreateOrConnectWithoutWorkflowInput | Prisma.ScheduleFireCreateOrConnectWithoutWorkflowInput[]
+  createMany?: Prisma.ScheduleFireCreateManyWorkflowInputEnvelope
+  connect?: Prisma.ScheduleFireWhereUniqueInput | Prisma.ScheduleFireWhereUniqueInput[]
+}
+
+export type ScheduleFireUpdateManyWithoutWorkflowNestedInput = {
+  create?: Prisma.XOR<Prisma.ScheduleFireCreateWithoutWorkflowInput, Prisma.ScheduleFireUncheckedCreateWithoutWorkflowInput> | Prisma.ScheduleFireCreateWithoutWorkflowInput[] | Prisma.ScheduleFireUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.ScheduleFireCreateOrConnectWithoutWorkflowInput | Prisma.ScheduleFireCreateOrConnectWithoutWorkflowInput[]
+  upsert?: Prisma.ScheduleFireUpsertWithWhereUniqueWithoutWorkflowInput | Prisma.ScheduleFireUpsertWithWhereUniqueWithoutWorkflowInput[]
+  createMany?: Prisma.ScheduleFireCreateManyWorkflowInputEnvelope
+  set?: Prisma.ScheduleFireWhereUniqueInput | Prisma.ScheduleFireWhereUniqueInput[]
+  disconnect?: Prisma.ScheduleFireWhereUniqueInput | Prisma.ScheduleFireWhereUniqueInput[]
+  delete?: Prisma.ScheduleFireWhereUniqueInput | Prisma.ScheduleFireWhereUniqueInput[]
+  connect?: Prisma.ScheduleFireWhereUniqueInput | Prisma.ScheduleFireWhereUniqueInput[]
+  update?: Prisma.ScheduleFireUpdateWithWhereUniqueWithoutWorkflowInput | Prisma.ScheduleFireUpdateWithWhereUniqueWithoutWorkflowInput[]
+  updateMany?: Prisma.ScheduleFireUpdateManyWithWhereWithoutWorkflowInput | Prisma.ScheduleFireUpdateManyWithWhereWithoutWorkflowInput[]
+  deleteMany?: Prisma.ScheduleFireScalarWhereInput | Prisma.ScheduleFireScalarWhereInput[]
+}
+
+export type ScheduleFireUncheckedUpdateManyWithoutWorkflowNestedInput = {
+  create?: Prisma.XOR<Prisma.ScheduleFireCreateWithoutWorkflowInput, Prisma.ScheduleFireUncheckedCreateWithoutWorkflowInput> | Prisma.ScheduleFireCreateWithoutWorkflowInput[] | Prisma.ScheduleFireUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.ScheduleFireCreateOrConnectWithoutWorkflowInput | Prisma.ScheduleFireCreateOrConnectWithoutWorkflowInput[]
+  upsert?: Prisma.ScheduleFireUpsertWithWhereUniqueWithoutWorkflowInput | Prisma.ScheduleFireUpsertWithWhereUniqueWithoutWorkflowInput[]
+  createMany?: Prisma.ScheduleFireCreateManyWorkflowInputEnvelope
+  set?: Prisma.ScheduleFireWhereUniqueInput | Prisma.ScheduleFireWhereUniqueInput[]
+  disconnect?: Prisma.ScheduleFireWhereUniqueInput | Prisma.ScheduleFireWhereUniqueInput[]
+  delete?: Prisma.ScheduleFireWhereUniqueInput | Prisma.ScheduleFireWhereUniqueInput[]
+  connect?: Prisma.ScheduleFireWhereUniqueInput | Prisma.ScheduleFireWhereUniqueInput[]
+  update?: Prisma.ScheduleFireUpdateWithWhereUniqueWithoutWorkflowInput | Prisma.ScheduleFireUpdateWithWhereUniqueWithoutWorkflowInput[]
+  updateMany?: Prisma.ScheduleFireUpdateManyWithWhereWithoutWorkflowInput | Prisma.ScheduleFireUpdateManyWithWhereWithoutWorkflowInput[]
+  deleteMany?: Prisma.ScheduleFireScalarWhereInput | Prisma.ScheduleFireScalarWhereInput[]
+}
+
+export type ScheduleFireCreateNestedOneWithoutRunInput = {
+  create?: Prisma.XOR<Prisma.ScheduleFireCreateWithoutRunInput, Prisma.ScheduleFireUncheckedCreateWithoutRunInput>
+  connectOrCreate?: Prisma.ScheduleFireCreateOrConnectWithoutRunInput
+  connect?: Prisma.ScheduleFireWhereUniqueInput
+}
+
+export type ScheduleFireUncheckedCreateNestedOneWithoutRunInput = {
+  create?: Prisma.XOR<Prisma.ScheduleFireCreateWithoutRunInput, Prisma.ScheduleFireUncheckedCreateWithoutRunInput>
+  connectOrCreate?: Prisma.ScheduleFireCreateOrConnectWithoutRunInput
+  connect?: Prisma.ScheduleFireWhereUniqueInput
+}
+
+export type ScheduleFireUpdateOneWithoutRunNestedInput = {
+  create?: Prisma.XOR<Prisma.ScheduleFireCreateWithoutRunInput, Prisma.ScheduleFireUncheckedCreateWithoutRunInput>
+  connectOrCreate?: Prisma.ScheduleFireCreateOrConnectWithoutRunInput
+  upsert?: Prisma.ScheduleFireUpsertWithoutRunInput
+  disconnect?: Prisma.ScheduleFireWhereInput | boolean
+  delete?: Prisma.ScheduleFireWhereInput | boolean
+  connect?: Prisma.ScheduleFireWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ScheduleFireUpdateToOneWithWhereWithoutRunInput, Prisma.ScheduleFireUpdateWithoutRunInput>, Prisma.ScheduleFireUncheckedUpdateWithoutRunInput>
+}
+
+export type ScheduleFireUncheckedUpdateOneWithoutRunNestedInput = {
+  create?: Prisma.XOR<Prisma.ScheduleFireCreateWithoutRunInput, Prisma.ScheduleFireUncheckedCreateWithoutRunInput>
+  connectOrCreate?: Prisma.ScheduleFireCreateOrConnectWithoutRunInput
+  upsert?: Prisma.ScheduleFireUpsertWithoutRunInput
+  disconnect?: Prisma.ScheduleFireWhereInput | boolean
+  delete?: Prisma.ScheduleFireWhereInput | boolean
+  connect?: Prisma.ScheduleFireWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ScheduleFireUpdateToOneWithWhereWithoutRunInput, Prisma.ScheduleFireUpdateWithoutRunInput>, Prisma.ScheduleFireUncheckedUpdateWithoutRunInput>
+}
+
+export type EnumScheduleFireStatusFieldUpdateOperationsInput = {
+  set?: $Enums.ScheduleFireStatus
+}
+
+export type ScheduleFireCreateWithoutWorkflowInput = {
+  id?: string
+  scheduledFor: Date | string
+  status?: $Enums.ScheduleFireStatus
+  catchUp?: boolean
+  error?: string | null
+  createdAt?: Date | string
+  run?: Prisma.WorkflowRunCreateNestedOneWithoutScheduleFireInput
+}
+
+export type ScheduleFireUncheckedCreateWithoutWorkflowInput = {
+  id?: string
+  scheduledFor: Date | string
+  status?: $Enums.ScheduleFireStatus
+  catchUp?: boolean
+  runId?: string | null
+  error?: string | null
+  createdAt?: Date | string
+}
+
+export type ScheduleFireCreateOrConnectWithoutWorkflowInput = {
+  where: Prisma.ScheduleFireWhereUniqueInput
+  create: Prisma.XOR<Prisma.ScheduleFireCreateWithoutWorkflowInput, Prisma.ScheduleFireUncheckedCreateWithoutWorkflowInput>
+}
+
+export type ScheduleFireCreateManyWorkflowInputEnvelope = {
+  data: Prisma.ScheduleFireCreateManyWorkflowInput | Prisma.ScheduleFireCreateManyWorkflowInput[]
+  skipDuplicates?: boolean
+}
+
+export type ScheduleFireUpsertWithWhereUniqueWithoutWorkflowInput = {
+  where: Prisma.ScheduleFireWhereUniqueInput
+  update: Prisma.XOR<Prisma.ScheduleFireUpdateWithoutWorkflowInput, Prisma.ScheduleFireUncheckedUpdateWithoutWorkflowInput>
+  create: Prisma.XOR<Prisma.ScheduleFireCreateWithoutWorkflowInput, Prisma.ScheduleFireUncheckedCreateWithoutWorkflowInput>
+}
+
+export type ScheduleFireUpdateWithWhereUniqueWithoutWorkflowInput = {
+  where: Prisma.ScheduleFireWhereUniqueInput
+  data: Prisma.XOR<Prisma.ScheduleFireUpdateWithoutWorkflowInput, Prisma.ScheduleFireUncheckedUpdateWithoutWorkflowInput>
+}
+
+export type ScheduleFireUpdateManyWithWhereWithoutWorkflowInput = {
+  where: Prisma.ScheduleFireScalarWhereInput
+  data: Prisma.XOR<Prisma.ScheduleFireUpdateManyMutationInput, Prisma.ScheduleFireUncheckedUpdateManyWithoutWorkflowInput>
+}
+
+export type ScheduleFireScalarWhereInput = {
+  AND?: Prisma.ScheduleFireScalarWhereInput | Prisma.ScheduleFireScalarWhereInput[]
+  OR?: Prisma.ScheduleFireScalarWhereInput[]
+  NOT?: Prisma.ScheduleFireScalarWhereInput | Prisma.ScheduleFireScalarWhereInput[]
+  id?: Prisma.StringFilter<"ScheduleFire"> | string
+  workflowId?: Prisma.StringFilter<"ScheduleFire"> | string
+  scheduledFor?: Prisma.DateTimeFilter<"ScheduleFire"> | Date | string
+  status?: Prisma.EnumScheduleFireStatusFilter<"ScheduleFire"> | $Enums.ScheduleFireStatus
+  catchUp?: Prisma.BoolFilter<"ScheduleFire"> | boolean
+  runId?: Prisma.StringNullableFilter<"ScheduleFire"> | string | null
+  error?: Prisma.StringNullableFilter<"ScheduleFire"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ScheduleFire"> | Date | string
+}
+
+export type ScheduleFireCreateWithoutRunInput = {
+  id?: string
+  scheduledFor: Date | string
+  status?: $Enums.ScheduleFireStatus
+  catchUp?: boolean
+  error?: string | null
+  createdAt?: Date | string
+  workflow: Prisma.WorkflowCreateNestedOneWithoutScheduleFiresInput
+}
+
+export type ScheduleFireUncheckedCreateWithoutRunInput = {
+  id?: string
+  workflowId: string
+  scheduledFor: Date | string
+  status?: $Enums.ScheduleFireStatus
+  catchUp?: boolean
+  error?: string | null
+  createdAt?: Date | string
+}
+
+export type ScheduleFireCreateOrConnectWithoutRunInput = {
+  where: Prisma.ScheduleFireWhereUniqueInput
+  create: Prisma.XOR<Prisma.ScheduleFireCreateWithoutRunInput, Prisma.ScheduleFireUncheckedCreateWithoutRunInput>
+}
+
+export type ScheduleFireUpsertWithoutRunInput = {
+  update: Prisma.XOR<Prisma.ScheduleFireUpdateWithoutRunInput, Prisma.ScheduleFireUncheckedUpdateWithoutRunInput>
+  create: Prisma.XOR<Prisma.ScheduleFireCreateWithoutRunInput, Prisma.ScheduleFireUncheckedCreateWithoutRunInput>
+  where?: Prisma.ScheduleFireWhereInput
+}
+
+export type ScheduleFireUpdateToOneWithWhereWithoutRunInput = {
+  where?: Prisma.ScheduleFireWhereInput
+  data: Prisma.XOR<Prisma.ScheduleFireUpdateWithoutRunInput, Prisma.ScheduleFireUncheckedUpdateWithoutRunInput>
+}
+
+export type ScheduleFireUpdateWithoutRunInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  scheduledFor?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumScheduleFireStatusFieldUpdateOperationsInput | $Enums.ScheduleFireStatus
+  catchUp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  workflow?: Prisma.WorkflowUpdateOneRequiredWithoutScheduleFiresNestedInput
+}
+
+export type ScheduleFireUncheckedUpdateWithoutRunInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  scheduledFor?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumScheduleFireStatusFieldUpdateOperationsInput | $Enums.ScheduleFireStatus
+  catchUp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ScheduleFireCreateManyWorkflowInput = {
+  id?: string
+  scheduledFor: Date | string
+  status?: $Enums.ScheduleFireStatus
+  catchUp?: boolean
+  runId?: string | null
+  error?: string | null
+  createdAt?: Date | string
+}
+
+export type ScheduleFireUpdateWithoutWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  scheduledFor?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumScheduleFireStatusFieldUpdateOperationsInput | $Enums.ScheduleFireStatus
+  catchUp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  run?: Prisma.WorkflowRunUpdateOneWithoutScheduleFireNestedInput
+}
+
+export type ScheduleFireUncheckedUpdateWithoutWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  scheduledFor?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumScheduleFireStatusFieldUpdateOperationsInput | $Enums.ScheduleFireStatus
+  catchUp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  runId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ScheduleFireUncheckedUpdateManyWithoutWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  scheduledFor?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumScheduleFireStatusFieldUpdateOperationsInput | $Enums.ScheduleFireStatus
+  catchUp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  runId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ScheduleFireSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workflowId?: boolean
+  scheduledFor?: boolean
+  status?: boolean
+  catchUp?: boolean
+  runId?: boolean
+  error?: boolean
+  createdAt?: boolean
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+  run?: boolean | Prisma.ScheduleFire$runArgs<ExtArgs>
+}, ExtArgs["result"]["scheduleFire"]>
+
+export type ScheduleFireSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workflowId?: boolean
+  scheduledFor?: boolean
+  status?: boolean
+  catchUp?: boolean
+  runId?: boolean
+  error?: boolean
+  createdAt?: boolean
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+  run?: boolean | Prisma.ScheduleFire$runArgs<ExtArgs>
+}, ExtArgs["result"]["scheduleFire"]>
+
+export type ScheduleFireSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workflowId?: boolean
+  scheduledFor?: boolean
+  status?: boolean
+  catchUp?: boolean
+  runId?: boolean
+  error?: boolean
+  createdAt?: boolean
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+  run?: boolean | Prisma.ScheduleFire$runArgs<ExtArgs>
+}, ExtArgs["result"]["scheduleFire"]>
+
+export type ScheduleFireSelectScalar = {
+  id?: boolean
+  workflowId?: boolean
+  scheduledFor?: boolean
+  status?: boolean
+  catchUp?: boolean
+  runId?: boolean
+  error?: boolean
+  createdAt?: boolean
+}
+
+export type ScheduleFireOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "workflowId" | "scheduledFor" | "status" | "catchUp" | "runId" | "error" | "createdAt", ExtArgs["result"]["scheduleFire"]>
+export type ScheduleFireInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+  run?: boolean | Prisma.ScheduleFire$runArgs<ExtArgs>
+}
+export type ScheduleFireIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+  run?: boolean | Prisma.ScheduleFire$runArgs<ExtArgs>
+}
+export type ScheduleFireIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+  run?: boolean | Prisma.ScheduleFire$runArgs<ExtArgs>
+}
+
+export type $ScheduleFirePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ScheduleFire"
+  objects: {
+    workflow: Prisma.$WorkflowPayload<ExtArgs>
+    run: Prisma.$WorkflowRunPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    workflowId: string
+    scheduledFor: Date
+    status: $Enums.ScheduleFireStatus
+    catchUp: boolean
+    runId: string | null
+    error: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["scheduleFire"]>
+  composites: {}
+}
+
+export type ScheduleFireGetPayload<S extends boolean | null | undefined | ScheduleFireDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ScheduleFirePayload, S>
+
+export type ScheduleFireCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ScheduleFireFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ScheduleFireCountAggregateInputType | true
+  }
+
+export interface ScheduleFireDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ScheduleFire'], meta: { name: 'ScheduleFire' } }
+  /**
+   * Find zero or one ScheduleFire that matches the filter.
+   * @param {ScheduleFireFindUniqueArgs} args - Arguments to find a ScheduleFire
+   * @example
+   * // Get one ScheduleFire
+   * const scheduleFire = await prisma.scheduleFire.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ScheduleFireFindUniqueArgs>(args: Prisma.SelectSubset<T, ScheduleFireFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ScheduleFireClient<runtime.Types.Result.GetResult<Prisma.$ScheduleFirePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ScheduleFire that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ScheduleFireFindUniqueOrThrowArgs} args - Arguments to find a ScheduleFire
+   * @example
+   * // Get one ScheduleFire
+   * const scheduleFire = await prisma.scheduleFire.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ScheduleFireFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ScheduleFireFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ScheduleFireClient<runtime.Types.Result.GetResult<Prisma.$ScheduleFirePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ScheduleFire that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ScheduleFireFindFirstArgs} args - Arguments to find a ScheduleFire
+   * @example
+   * // Get one ScheduleFire
+   * const scheduleFire = await prisma.scheduleFire.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ScheduleFireFindFirstArgs>(args?: Prisma.SelectSubset<T, ScheduleFireFindFirstArgs<ExtArgs>>): Prisma.Prisma__ScheduleFireClient<runtime.Types.Result.GetResult<Prisma.$ScheduleFirePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ScheduleFire that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ScheduleFireFindFirstOrThrowArgs} args - Arguments to find a ScheduleFire
+   * @example
+   * // Get one ScheduleFire
+   * const scheduleFire = await prisma.scheduleFire.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ScheduleFireFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ScheduleFireFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ScheduleFireClient<runtime.Types.Result.GetResult<Prisma.$ScheduleFirePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ScheduleFires that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ScheduleFireFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ScheduleFires
+   * const scheduleFires = await prisma.scheduleFire.findMany()
+   * 
+   * // Get first 10 ScheduleFires
+   * const scheduleFires = await prisma.scheduleFire.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const scheduleFireWithIdOnly = await prisma.scheduleFire.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ScheduleFireFindManyArgs>(args?: Prisma.SelectSubset<T, ScheduleFireFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ScheduleFirePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ScheduleFire.
+   * @param {ScheduleFireCreateArgs} args - Arguments to create a ScheduleFire.
+   * @example
+   * // Create one ScheduleFire
+   * const ScheduleFire = await prisma.scheduleFire.create({
+   *   data: {
+   *     // ... data to create a ScheduleFire
+   *   }
+   * })
+   * 
+   */
+  create<T extends ScheduleFireCreateArgs>(args: Prisma.SelectSubset<T, ScheduleFireCreateArgs<ExtArgs>>): Prisma.Prisma__ScheduleFireClient<runtime.Types.Result.GetResult<Prisma.$ScheduleFirePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ScheduleFires.
+   * @param {ScheduleFireCreateManyArgs} args - Arguments to create many ScheduleFires.
+   * @example
+   * // Create many ScheduleFires
+   * const scheduleFire = await prisma.scheduleFire.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ScheduleFireCreateManyArgs>(args?: Prisma.SelectSubset<T, ScheduleFireCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ScheduleFires and returns the data saved in the database.
+   * @param {ScheduleFireCreateManyAndReturnArgs} args - Arguments to create many ScheduleFires.
+   * @example
+   * // Create many ScheduleFires
+   * const scheduleFire = await prisma.scheduleFire.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ScheduleFires and only return the `id`
+   * const scheduleFireWithIdOnly = await prisma.scheduleFire.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ScheduleFireCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ScheduleFireCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ScheduleFirePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ScheduleFire.
+   * @param {ScheduleFireDeleteArgs} args - Arguments to delete one ScheduleFire.
+   * @example
+   * // Delete one ScheduleFire
+   * const ScheduleFire = await prisma.scheduleFire.delete({
+   *   where: {
+   *     // ... filter to delete one ScheduleFire
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ScheduleFireDeleteArgs>(args: Prisma.SelectSubset<T, ScheduleFireDeleteArgs<ExtArgs>>): Prisma.Prisma__ScheduleFireClient<runtime.Types.Result.GetResult<Prisma.$ScheduleFirePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ScheduleFire.
+   * @param {ScheduleFireUpdateArgs} args - Arguments to update one ScheduleFire.
+   * @example
+   * // Update one ScheduleFire
+   * const scheduleFire = await prisma.scheduleFire.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ScheduleFireUpdateArgs>(args: Prisma.SelectSubset<T, ScheduleFireUpdateArgs<ExtArgs>>): Prisma.Prisma__ScheduleFireClient<runtime.Types.Result.GetResult<Prisma.$ScheduleFirePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ScheduleFires.
+   * @param {ScheduleFireDeleteManyArgs} args - Arguments to filter ScheduleFires to delete.
+   * @example
+   * // Delete a few ScheduleFires
+   * const { count } = await prisma.scheduleFire.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ScheduleFireDeleteManyArgs>(args?: Prisma.SelectSubset<T, ScheduleFireDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ScheduleFires.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ScheduleFireUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ScheduleFires
+   * const scheduleFire = await prisma.scheduleFire.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ScheduleFireUpdateManyArgs>(args: Prisma.SelectSubset<T, ScheduleFireUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ScheduleFires and returns the data updated in the database.
+   * @param {ScheduleFireUpdateManyAndReturnArgs} args - Arguments to update many ScheduleFires.
+   * @example
+   * // Update many ScheduleFires
+   * const scheduleFire = await prisma.scheduleFire.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ScheduleFires and only return the `id`
+   * const scheduleFireWithIdOnly = await prisma.scheduleFire.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ScheduleFireUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ScheduleFireUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ScheduleFirePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ScheduleFire.
+   * @param {ScheduleFireUpsertArgs} args - Arguments to update or create a ScheduleFire.
+   * @example
+   * // Update or create a ScheduleFire
+   * const scheduleFire = await prisma.scheduleFire.upsert({
+   *   create: {
+   *     // ... data to create a ScheduleFire
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ScheduleFire we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ScheduleFireUpsertArgs>(args: Prisma.SelectSubset<T, ScheduleFireUpsertArgs<ExtArgs>>): Prisma.Prisma__ScheduleFireClient<runtime.Types.Result.GetResult<Prisma.$ScheduleFirePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ScheduleFires.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ScheduleFireCountArgs} args - Arguments to filter ScheduleFires to count.
+   * @example
+   * // Count the number of ScheduleFires
+   * const count = await prisma.scheduleFire.count({
+   *   where: {
+   *     // ... the filter for the ScheduleFires we want to count
+   *   }
+   * })
+  **/
+  count<T extends ScheduleFireCountArgs>(
+    args?: Prisma.Subset<T, ScheduleFireCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ScheduleFireCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ScheduleFire.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ScheduleFireAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ScheduleFireAggregateArgs>(args: Prisma.Subset<T, ScheduleFireAggregateArgs>): Prisma.PrismaPromise<GetScheduleFireAggregateType<T>>
+
+  /**
+   * Group by ScheduleFire.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ScheduleFireGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ScheduleFireGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ScheduleFireGroupByArgs['orderBy'] }
+      : { orderBy?: ScheduleFireGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ScheduleFireGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetScheduleFireGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ScheduleFire model
+ */
+readonly fields: ScheduleFireFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ScheduleFire.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ScheduleFireClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  workflow<T extends Prisma.WorkflowDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WorkflowDefaultArgs<ExtArgs>>): Prisma.Prisma__WorkflowClient<runtime.Types.Result.GetResult<Prisma.$WorkflowPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  run<T extends Prisma.ScheduleFire$runArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ScheduleFire$runArgs<ExtArgs>>): Prisma.Prisma__WorkflowRunClient<runtime.Types.Result.GetResult<Prisma.$WorkflowRunPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ScheduleFire model
+ */
+export interface ScheduleFireFieldRefs {
+  readonly id: Prisma.FieldRef<"ScheduleFire", 'String'>
+  readonly workflowId: Prisma.FieldRef<"ScheduleFire", 'String'>
+  readonly scheduledFor: Prisma.FieldRef<"ScheduleFire", 'DateTime'>
+  readonly status: Prisma.FieldRef<"ScheduleFire", 'ScheduleFireStatus'>
+  readonly catchUp: Prisma.FieldRef<"ScheduleFire", 'Boolean'>
+  readonly runId: Prisma.FieldRef<"ScheduleFire", 'String'>
+  readonly error: Prisma.FieldRef<"ScheduleFire", 'String'>
+  readonly createdAt: Prisma.FieldRef<"ScheduleFire", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ScheduleFire findUnique
+ */
+export type ScheduleFireFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleFire
+   */
+  select?: Prisma.ScheduleFireSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleFire
+   */
+  omit?: Prisma.ScheduleFireOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleFireInclude<ExtArgs> | null
+  /**
+   * Filter, which ScheduleFire to fetch.
+   */
+  where: Prisma.ScheduleFireWhereUniqueInput
+}
+
+/**
+ * ScheduleFire findUniqueOrThrow
+ */
+export type ScheduleFireFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleFire
+   */
+  select?: Prisma.ScheduleFireSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleFire
+   */
+  omit?: Prisma.ScheduleFireOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleFireInclude<ExtArgs> | null
+  /**
+   * Filter, which ScheduleFire to fetch.
+   */
+  where: Prisma.ScheduleFireWhereUniqueInput
+}
+
+/**
+ * ScheduleFire findFirst
+ */
+export type ScheduleFireFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleFire
+   */
+  select?: Prisma.ScheduleFireSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleFire
+   */
+  omit?: Prisma.ScheduleFireOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleFireInclude<ExtArgs> | null
+  /**
+   * Filter, which ScheduleFire to fetch.
+   */
+  where?: Prisma.ScheduleFireWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ScheduleFires to fetch.
+   */
+  orderBy?: Prisma.ScheduleFireOrderByWithRelationInput | Prisma.ScheduleFireOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ScheduleFires.
+   */
+  cursor?: Prisma.ScheduleFireWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ScheduleFires from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ScheduleFires.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ScheduleFires.
+   */
+  distinct?: Prisma.ScheduleFireScalarFieldEnum | Prisma.ScheduleFireScalarFieldEnum[]
+}
+
+/**
+ * ScheduleFire findFirstOrThrow
+ */
+export type ScheduleFireFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleFire
+   */
+  select?: Prisma.ScheduleFireSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleFire
+   */
+  omit?: Prisma.ScheduleFireOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleFireInclude<ExtArgs> | null
+  /**
+   * Filter, which ScheduleFire to fetch.
+   */
+  where?: Prisma.ScheduleFireWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ScheduleFires to fetch.
+   */
+  orderBy?: Prisma.ScheduleFireOrderByWithRelationInput | Prisma.ScheduleFireOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ScheduleFires.
+   */
+  cursor?: Prisma.ScheduleFireWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ScheduleFires from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ScheduleFires.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ScheduleFires.
+   */
+  distinct?: Prisma.ScheduleFireScalarFieldEnum | Prisma.ScheduleFireScalarFieldEnum[]
+}
+
+/**
+ * ScheduleFire findMany
+ */
+export type ScheduleFireFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleFire
+   */
+  select?: Prisma.ScheduleFireSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleFire
+   */
+  omit?: Prisma.ScheduleFireOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleFireInclude<ExtArgs> | null
+  /**
+   * Filter, which ScheduleFires to fetch.
+   */
+  where?: Prisma.ScheduleFireWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ScheduleFires to fetch.
+   */
+  orderBy?: Prisma.ScheduleFireOrderByWithRelationInput | Prisma.ScheduleFireOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ScheduleFires.
+   */
+  cursor?: Prisma.ScheduleFireWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ScheduleFires from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ScheduleFires.
+   */
+  skip?: number
+  distinct?: Prisma.ScheduleFireScalarFieldEnum | Prisma.ScheduleFireScalarFieldEnum[]
+}
+
+/**
+ * ScheduleFire create
+ */
+export type ScheduleFireCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleFire
+   */
+  select?: Prisma.ScheduleFireSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleFire
+   */
+  omit?: Prisma.ScheduleFireOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleFireInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ScheduleFire.
+   */
+  data: Prisma.XOR<Prisma.ScheduleFireCreateInput, Prisma.ScheduleFireUncheckedCreateInput>
+}
+
+/**
+ * ScheduleFire createMany
+ */
+export type ScheduleFireCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ScheduleFires.
+   */
+  data: Prisma.ScheduleFireCreateManyInput | Prisma.ScheduleFireCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ScheduleFire createManyAndReturn
+ */
+export type ScheduleFireCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleFire
+   */
+  select?: Prisma.ScheduleFireSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleFire
+   */
+  omit?: Prisma.ScheduleFireOmit<ExtArgs> | null
+  /**
+   * The data used to create many ScheduleFires.
+   */
+  data: Prisma.ScheduleFireCreateManyInput | Prisma.ScheduleFireCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleFireIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ScheduleFire update
+ */
+export type ScheduleFireUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleFire
+   */
+  select?: Prisma.ScheduleFireSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleFire
+   */
+  omit?: Prisma.ScheduleFireOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleFireInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ScheduleFire.
+   */
+  data: Prisma.XOR<Prisma.ScheduleFireUpdateInput, Prisma.ScheduleFireUncheckedUpdateInput>
+  /**
+   * Choose, which ScheduleFire to update.
+   */
+  where: Prisma.ScheduleFireWhereUniqueInput
+}
+
+/**
+ * ScheduleFire updateMany
+ */
+export type ScheduleFireUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ScheduleFires.
+   */
+  data: Prisma.XOR<Prisma.ScheduleFireUpdateManyMutationInput, Prisma.ScheduleFireUncheckedUpdateManyInput>
+  /**
+   * Filter which ScheduleFires to update
+   */
+  where?: Prisma.ScheduleFireWhereInput
+  /**
+   * Limit how many ScheduleFires to update.
+   */
+  limit?: number
+}
+
+/**
+ * ScheduleFire updateManyAndReturn
+ */
+export type ScheduleFireUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleFire
+   */
+  select?: Prisma.ScheduleFireSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleFire
+   */
+  omit?: Prisma.ScheduleFireOmit<ExtArgs> | null
+  /**
+   * The data used to update ScheduleFires.
+   */
+  data: Prisma.XOR<Prisma.ScheduleFireUpdateManyMutationInput, Prisma.ScheduleFireUncheckedUpdateManyInput>
+  /**
+   * Filter which ScheduleFires to update
+   */
+  where?: Prisma.ScheduleFireWhereInput
+  /**
+   * Limit how many ScheduleFires to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleFireIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ScheduleFire upsert
+ */
+export type ScheduleFireUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleFire
+   */
+  select?: Prisma.ScheduleFireSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleFire
+   */
+  omit?: Prisma.ScheduleFireOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleFireInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ScheduleFire to update in case it exists.
+   */
+  where: Prisma.ScheduleFireWhereUniqueInput
+  /**
+   * In case the ScheduleFire found by the `where` argument doesn't exist, create a new ScheduleFire with this data.
+   */
+  create: Prisma.XOR<Prisma.ScheduleFireCreateInput, Prisma.ScheduleFireUncheckedCreateInput>
+  /**
+   * In case the ScheduleFire was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ScheduleFireUpdateInput, Prisma.ScheduleFireUncheckedUpdateInput>
+}
+
+/**
+ * ScheduleFire delete
+ */
+export type ScheduleFireDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleFire
+   */
+  select?: Prisma.ScheduleFireSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleFire
+   */
+  omit?: Prisma.ScheduleFireOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleFireInclude<ExtArgs> | null
+  /**
+   * Filter which ScheduleFire to delete.
+   */
+  where: Prisma.ScheduleFireWhereUniqueInput
+}
+
+/**
+ * ScheduleFire deleteMany
+ */
+export type ScheduleFireDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ScheduleFires to delete
+   */
+  where?: Prisma.ScheduleFireWhereInput
+  /**
+   * Limit how many ScheduleFires to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ScheduleFire.run
+ */
+export type ScheduleFire$runArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRun
+   */
+  select?: Prisma.WorkflowRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRun
+   */
+  omit?: Prisma.WorkflowRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunInclude<ExtArgs> | null
+  where?: Prisma.WorkflowRunWhereInput
+}
+
+/**
+ * ScheduleFire without action
+ */
+export type ScheduleFireDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleFire
+   */
+  select?: Prisma.ScheduleFireSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleFire
+   */
+  omit?: Prisma.ScheduleFireOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleFireInclude<ExtArgs> | null
+}
@@ -0,0 +1,1450 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `WebhookEndpoint` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model WebhookEndpoint
+ * 
+ */
+export type WebhookEndpointModel = runtime.Types.Result.DefaultSelection<Prisma.$WebhookEndpointPayload>
+
+export type AggregateWebhookEndpoint = {
+  _count: WebhookEndpointCountAggregateOutputType | null
+  _min: WebhookEndpointMinAggregateOutputType | null
+  _max: WebhookEndpointMaxAggregateOutputType | null
+}
+
+export type WebhookEndpointMinAggregateOutputType = {
+  id: string | null
+  workflowId: string | null
+  token: string | null
+  secret: string | null
+  previousSecret: string | null
+  previousExpiresAt: Date | null
+  lastDeliveryAt: Date | null
+  rotatedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type WebhookEndpointMaxAggregateOutputType = {
+  id: string | null
+  workflowId: string | null
+  token: string | null
+  secret: string | null
+  previousSecret: string | null
+  previousExpiresAt: Date | null
+  lastDeliveryAt: Date | null
+  rotatedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type WebhookEndpointCountAggregateOutputType = {
+  id: number
+  workflowId: number
+  token: number
+  secret: number
+  previousSecret: number
+  previousExpiresAt: number
+  lastDeliveryAt: number
+  rotatedAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type WebhookEndpointMinAggregateInputType = {
+  id?: true
+  workflowId?: true
+  token?: true
+  secret?: true
+  previousSecret?: true
+  previousExpiresAt?: true
+  lastDeliveryAt?: true
+  rotatedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type WebhookEndpointMaxAggregateInputType = {
+  id?: true
+  workflowId?: true
+  token?: true
+  secret?: true
+  previousSecret?: true
+  previousExpiresAt?: true
+  lastDeliveryAt?: true
+  rotatedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type WebhookEndpointCountAggregateInputType = {
+  id?: true
+  workflowId?: true
+  token?: true
+  secret?: true
+  previousSecret?: true
+  previousExpiresAt?: true
+  lastDeliveryAt?: true
+  rotatedAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type WebhookEndpointAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WebhookEndpoint to aggregate.
+   */
+  where?: Prisma.WebhookEndpointWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WebhookEndpoints to fetch.
+   */
+  orderBy?: Prisma.WebhookEndpointOrderByWithRelationInput | Prisma.WebhookEndpointOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.WebhookEndpointWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WebhookEndpoints from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WebhookEndpoints.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned WebhookEndpoints
+  **/
+  _count?: true | WebhookEndpointCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: WebhookEndpointMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: WebhookEndpointMaxAggregateInputType
+}
+
+export type GetWebhookEndpointAggregateType<T extends WebhookEndpointAggregateArgs> = {
+      [P in keyof T & keyof AggregateWebhookEndpoint]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateWebhookEndpoint[P]>
+    : Prisma.GetScalarType<T[P], AggregateWebhookEndpoint[P]>
+}
+
+
+
+
+export type WebhookEndpointGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WebhookEndpointWhereInput
+  orderBy?: Prisma.WebhookEndpointOrderByWithAggregationInput | Prisma.WebhookEndpointOrderByWithAggregationInput[]
+  by: Prisma.WebhookEndpointScalarFieldEnum[] | Prisma.WebhookEndpointScalarFieldEnum
+  having?: Prisma.WebhookEndpointScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: WebhookEndpointCountAggregateInputType | true
+  _min?: WebhookEndpointMinAggregateInputType
+  _max?: WebhookEndpointMaxAggregateInputType
+}
+
+export type WebhookEndpointGroupByOutputType = {
+  id: string
+  workflowId: string
+  token: string
+  secret: string
+  previousSecret: string | null
+  previousExpiresAt: Date | null
+  lastDeliveryAt: Date | null
+  rotatedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  _count: WebhookEndpointCountAggregateOutputType | null
+  _min: WebhookEndpointMinAggregateOutputType | null
+  _max: WebhookEndpointMaxAggregateOutputType | null
+}
+
+type GetWebhookEndpointGroupByPayload<T extends WebhookEndpointGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<WebhookEndpointGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof WebhookEndpointGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], WebhookEndpointGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], WebhookEndpointGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type WebhookEndpointWhereInput = {
+  AND?: Prisma.WebhookEndpointWhereInput | Prisma.WebhookEndpointWhereInput[]
+  OR?: Prisma.WebhookEndpointWhereInput[]
+  NOT?: Prisma.WebhookEndpointWhereInput | Prisma.WebhookEndpointWhereInput[]
+  id?: Prisma.StringFilter<"WebhookEndpoint"> | string
+  workflowId?: Prisma.StringFilter<"WebhookEndpoint"> | string
+  token?: Prisma.StringFilter<"WebhookEndpoint"> | string
+  secret?: Prisma.StringFilter<"WebhookEndpoint"> | string
+  previousSecret?: Prisma.StringNullableFilter<"WebhookEndpoint"> | string | null
+  previousExpiresAt?: Prisma.DateTimeNullableFilter<"WebhookEndpoint"> | Date | string | null
+  lastDeliveryAt?: Prisma.DateTimeNullableFilter<"WebhookEndpoint"> | Date | string | null
+  rotatedAt?: Prisma.DateTimeNullableFilter<"WebhookEndpoint"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"WebhookEndpoint"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"WebhookEndpoint"> | Date | string
+  workflow?: Prisma.XOR<Prisma.WorkflowScalarRelationFilter, Prisma.WorkflowWhereInput>
+}
+
+export type WebhookEndpointOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  secret?: Prisma.SortOrder
+  previousSecret?: Prisma.SortOrderInput | Prisma.SortOrder
+  previousExpiresAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastDeliveryAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  rotatedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  workflow?: Prisma.WorkflowOrderByWithRelationInput
+}
+
+export type WebhookEndpointWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  workflowId?: string
+  token?: string
+  AND?: Prisma.WebhookEndpointWhereInput | Prisma.WebhookEndpointWhereInput[]
+  OR?: Prisma.WebhookEndpointWhereInput[]
+  NOT?: Prisma.WebhookEndpointWhereInput | Prisma.WebhookEndpointWhereInput[]
+  secret?: Prisma.StringFilter<"WebhookEndpoint"> | string
+  previousSecret?: Prisma.StringNullableFilter<"WebhookEndpoint"> | string | null
+  previousExpiresAt?: Prisma.DateTimeNullableFilter<"WebhookEndpoint"> | Date | string | null
+  lastDeliveryAt?: Prisma.DateTimeNullableFilter<"WebhookEndpoint"> | Date | string | null
+  rotatedAt?: Prisma.DateTimeNullableFilter<"WebhookEndpoint"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"WebhookEndpoint"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"WebhookEndpoint"> | Date | string
+  workflow?: Prisma.XOR<Prisma.WorkflowScalarRelationFilter, Prisma.WorkflowWhereInput>
+}, "id" | "workflowId" | "token">
+
+export type WebhookEndpointOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  secret?: Prisma.SortOrder
+  previousSecret?: Prisma.SortOrderInput | Prisma.SortOrder
+  previousExpiresAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastDeliveryAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  rotatedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.WebhookEndpointCountOrderByAggregateInput
+  _max?: Prisma.WebhookEndpointMaxOrderByAggregateInput
+  _min?: Prisma.WebhookEndpointMinOrderByAggregateInput
+}
+
+export type WebhookEndpointScalarWhereWithAggregatesInput = {
+  AND?: Prisma.WebhookEndpointScalarWhereWithAggregatesInput | Prisma.WebhookEndpointScalarWhereWithAggregatesInput[]
+  OR?: Prisma.WebhookEndpointScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.WebhookEndpointScalarWhereWithAggregatesInput | Prisma.WebhookEndpointScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"WebhookEndpoint"> | string
+  workflowId?: Prisma.StringWithAggregatesFilter<"WebhookEndpoint"> | string
+  token?: Prisma.StringWithAggregatesFilter<"WebhookEndpoint"> | string
+  secret?: Prisma.StringWithAggregatesFilter<"WebhookEndpoint"> | string
+  previousSecret?: Prisma.StringNullableWithAggregatesFilter<"WebhookEndpoint"> | string | null
+  previousExpiresAt?: Prisma.DateTimeNullableWithAggregatesFilter<"WebhookEndpoint"> | Date | string | null
+  lastDeliveryAt?: Prisma.DateTimeNullableWithAggregatesFilter<"WebhookEndpoint"> | Date | string | null
+  rotatedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"WebhookEndpoint"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"WebhookEndpoint"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"WebhookEndpoint"> | Date | string
+}
+
+export type WebhookEndpointCreateInput = {
+  id?: string
+  token: string
+  secret: string
+  previousSecret?: string | null
+  previousExpiresAt?: Date | string | null
+  lastDeliveryAt?: Date | string | null
+  rotatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  workflow: Prisma.WorkflowCreateNestedOneWithoutWebhookEndpointInput
+}
+
+export type WebhookEndpointUncheckedCreateInput = {
+  id?: string
+  workflowId: string
+  token: string
+  secret: string
+  previousSecret?: string | null
+  previousExpiresAt?: Date | string | null
+  lastDeliveryAt?: Date | string | null
+  rotatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WebhookEndpointUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  secret?: Prisma.StringFieldUpdateOperationsInput | string
+  previousSecret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  previousExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastDeliveryAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rotatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  workflow?: Prisma.WorkflowUpdateOneRequiredWithoutWebhookEndpointNestedInput
+}
+
+export type WebhookEndpointUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  secret?: Prisma.StringFieldUpdateOperationsInput | string
+  previousSecret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  previousExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastDeliveryAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rotatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WebhookEndpointCreateManyInput = {
+  id?: string
+  workflowId: string
+  token: string
+  secret: string
+  previousSecret?: string | null
+  previousExpiresAt?: Date | string | null
+  lastDeliveryAt?: Date | string | null
+  rotatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WebhookEndpointUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  secret?: Prisma.StringFieldUpdateOperationsInput | string
+  previousSecret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  previousExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastDeliveryAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rotatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WebhookEndpointUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  secret?: Prisma.StringFieldUpdateOperationsInput | string
+  previousSecret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  previousExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastDeliveryAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rotatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WebhookEndpointNullableScalarRelationFilter = {
+  is?: Prisma.WebhookEndpointWhereInput | null
+  isNot?: Prisma.WebhookEndpointWhereInput | null
+}
+
+export type WebhookEndpointCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  secret?: Prisma.SortOrder
+  previousSecret?: Prisma.SortOrder
+  previousExpiresAt?: Prisma.SortOrder
+  lastDeliveryAt?: Prisma.SortOrder
+  rotatedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type WebhookEndpointMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  secret?: Prisma.SortOrder
+  previousSecret?: Prisma.SortOrder
+  previousExpiresAt?: Prisma.SortOrder
+  lastDeliveryAt?: Prisma.SortOrder
+  rotatedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type WebhookEndpointMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  secret?: Prisma.SortOrder
+  previousSecret?: Prisma.SortOrder
+  previousExpiresAt?: Prisma.SortOrder
+  lastDeliveryAt?: Prisma.SortOrder
+  rotatedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type WebhookEndpointCreateNestedOneWithoutWorkflowInput = {
+  create?: Prisma.XOR<Prisma.WebhookEndpointCreateWithoutWorkflowInput, Prisma.WebhookEndpointUncheckedCreateWithoutWorkflowInput>
+  connectOrCreate?: Prisma.WebhookEndpointCreateOrConnectWithoutWorkflowInput
+  connect?: Prisma.WebhookEndpointWhereUniqueInput
+}
+
+export type WebhookEndpointUncheckedCreateNestedOneWithoutWorkflowInput = {
+  create?: Prisma.XOR<Prisma.WebhookEndpointCreateWithoutWorkflowInput, Prisma.WebhookEndpointUncheckedCreateWithoutWorkflowInput>
+  connectOrCreate?: Prisma.WebhookEndpointCreateOrConnectWithoutWorkflowInput
+  connect?: Prisma.WebhookEndpointWhereUniqueInput
+}
+
+export type WebhookEndpointUpdateOneWithoutWorkflowNestedInput = {
+  create?: Prisma.XOR<Prisma.WebhookEndpointCreateWithoutWorkflowInput, Prisma.WebhookEndpointUncheckedCreateWithoutWorkflowInput>
+  connectOrCreate?: Prisma.WebhookEndpointCreateOrConnectWithoutWorkflowInput
+  upsert?: Prisma.WebhookEndpointUpsertWithoutWorkflowInput
+  disconnect?: Prisma.WebhookEndpointWhereInput | boolean
+  delete?: Prisma.WebhookEndpointWhereInput | boolean
+  connect?: Prisma.WebhookEndpointWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.WebhookEndpointUpdateToOneWithWhereWithoutWorkflowInput, Prisma.WebhookEndpointUpdateWithoutWorkflowInput>, Prisma.WebhookEndpointUncheckedUpdateWithoutWorkflowInput>
+}
+
+export type WebhookEndpointUncheckedUpdateOneWithoutWorkflowNestedInput = {
+  create?: Prisma.XOR<Prisma.WebhookEndpointCreateWithoutWorkflowInput, Prisma.WebhookEndpointUncheckedCreateWithoutWorkflowInput>
+  connectOrCreate?: Prisma.WebhookEndpointCreateOrConnectWithoutWorkflowInput
+  upsert?: Prisma.WebhookEndpointUpsertWithoutWorkflowInput
+  disconnect?: Prisma.WebhookEndpointWhereInput | boolean
+  delete?: Prisma.WebhookEndpointWhereInput | boolean
+  connect?: Prisma.WebhookEndpointWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.WebhookEndpointUpdateToOneWithWhereWithoutWorkflowInput, Prisma.WebhookEndpointUpdateWithoutWorkflowInput>, Prisma.WebhookEndpointUncheckedUpdateWithoutWorkflowInput>
+}
+
+export type WebhookEndpointCreateWithoutWorkflowInput = {
+  id?: string
+  token: string
+  secret: string
+  previousSecret?: string | null
+  previousExpiresAt?: Date | string | null
+  lastDeliveryAt?: Date | string | null
+  rotatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WebhookEndpointUncheckedCreateWithoutWorkflowInput = {
+  id?: string
+  token: string
+  secret: string
+  previousSecret?: string | null
+  previousExpiresAt?: Date | string | null
+  lastDeliveryAt?: Date | string | null
+  rotatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WebhookEndpointCreateOrConnectWithoutWorkflowInput = {
+  where: Prisma.WebhookEndpointWhereUniqueInput
+  create: Prisma.XOR<Prisma.WebhookEndpointCreateWithoutWorkflowInput, Prisma.WebhookEndpointUncheckedCreateWithoutWorkflowInput>
+}
+
+export type WebhookEndpointUpsertWithoutWorkflowInput = {
+  update: Prisma.XOR<Prisma.WebhookEndpointUpdateWithoutWorkflowInput, Prisma.WebhookEndpointUncheckedUpdateWithoutWorkflowInput>
+  create: Prisma.XOR<Prisma.WebhookEndpointCreateWithoutWorkflowInput, Prisma.WebhookEndpointUncheckedCreateWithoutWorkflowInput>
+  where?: Prisma.WebhookEndpointWhereInput
+}
+
+export type WebhookEndpointUpdateToOneWithWhereWithoutWorkflowInput = {
+  where?: Prisma.WebhookEndpointWhereInput
+  data: Prisma.XOR<Prisma.WebhookEndpointUpdateWithoutWorkflowInput, Prisma.WebhookEndpointUncheckedUpdateWithoutWorkflowInput>
+}
+
+export type WebhookEndpointUpdateWithoutWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  secret?: Prisma.StringFieldUpdateOperationsInput | string
+  previousSecret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  previousExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastDeliveryAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rotatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WebhookEndpointUncheckedUpdateWithoutWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  secret?: Prisma.StringFieldUpdateOperationsInput | string
+  previousSecret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  previousExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastDeliveryAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rotatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type WebhookEndpointSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workflowId?: boolean
+  token?: boolean
+  secret?: boolean
+  previousSecret?: boolean
+  previousExpiresAt?: boolean
+  lastDeliveryAt?: boolean
+  rotatedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["webhookEndpoint"]>
+
+export type WebhookEndpointSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workflowId?: boolean
+  token?: boolean
+  secret?: boolean
+  previousSecret?: boolean
+  previousExpiresAt?: boolean
+  lastDeliveryAt?: boolean
+  rotatedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["webhookEndpoint"]>
+
+export type WebhookEndpointSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workflowId?: boolean
+  token?: boolean
+  secret?: boolean
+  previousSecret?: boolean
+  previousExpiresAt?: boolean
+  lastDeliveryAt?: boolean
+  rotatedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["webhookEndpoint"]>
+
+export type WebhookEndpointSelectScalar = {
+  id?: boolean
+  workflowId?: boolean
+  token?: boolean
+  secret?: boolean
+  previousSecret?: boolean
+  previousExpiresAt?: boolean
+  lastDeliveryAt?: boolean
+  rotatedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type WebhookEndpointOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "workflowId" | "token" | "secret" | "previousSecret" | "previousExpiresAt" | "lastDeliveryAt" | "rotatedAt" | "createdAt" | "updatedAt", ExtArgs["result"]["webhookEndpoint"]>
+export type WebhookEndpointInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}
+export type WebhookEndpointIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}
+export type WebhookEndpointIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}
+
+export type $WebhookEndpointPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "WebhookEndpoint"
+  objects: {
+    workflow: Prisma.$WorkflowPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    workflowId: string
+    token: string
+    secret: string
+    previousSecret: string | null
+    previousExpiresAt: Date | null
+    lastDeliveryAt: Date | null
+    rotatedAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["webhookEndpoint"]>
+  composites: {}
+}
+
+export type WebhookEndpointGetPayload<S extends boolean | null | undefined | WebhookEndpointDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$WebhookEndpointPayload, S>
+
+export type WebhookEndpointCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<WebhookEndpointFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: WebhookEndpointCountAggregateInputType | true
+  }
+
+export interface WebhookEndpointDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['WebhookEndpoint'], meta: { name: 'WebhookEndpoint' } }
+  /**
+   * Find zero or one WebhookEndpoint that matches the filter.
+   * @param {WebhookEndpointFindUniqueArgs} args - Arguments to find a WebhookEndpoint
+   * @example
+   * // Get one WebhookEndpoint
+   * const webhookEndpoint = await prisma.webhookEndpoint.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends WebhookEndpointFindUniqueArgs>(args: Prisma.SelectSubset<T, WebhookEndpointFindUniqueArgs<ExtArgs>>): Prisma.Prisma__WebhookEndpointClient<runtime.Types.Result.GetResult<Prisma.$WebhookEndpointPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one WebhookEndpoint that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {WebhookEndpointFindUniqueOrThrowArgs} args - Arguments to find a WebhookEndpoint
+   * @example
+   * // Get one WebhookEndpoint
+   * const webhookEndpoint = await prisma.webhookEndpoint.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends WebhookEndpointFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, WebhookEndpointFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__WebhookEndpointClient<runtime.Types.Result.GetResult<Prisma.$WebhookEndpointPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WebhookEndpoint that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WebhookEndpointFindFirstArgs} args - Arguments to find a WebhookEndpoint
+   * @example
+   * // Get one WebhookEndpoint
+   * const webhookEndpoint = await prisma.webhookEndpoint.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends WebhookEndpointFindFirstArgs>(args?: Prisma.SelectSubset<T, WebhookEndpointFindFirstArgs<ExtArgs>>): Prisma.Prisma__WebhookEndpointClient<runtime.Types.Result.GetResult<Prisma.$WebhookEndpointPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WebhookEndpoint that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WebhookEndpointFindFirstOrThrowArgs} args - Arguments to find a WebhookEndpoint
+   * @example
+   * // Get one WebhookEndpoint
+   * const webhookEndpoint = await prisma.webhookEndpoint.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends WebhookEndpointFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, WebhookEndpointFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__WebhookEndpointClient<runtime.Types.Result.GetResult<Prisma.$WebhookEndpointPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more WebhookEndpoints that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WebhookEndpointFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all WebhookEndpoints
+   * const webhookEndpoints = await prisma.webhookEndpoint.findMany()
+   * 
+   * // Get first 10 WebhookEndpoints
+   * const webhookEndpoints = await prisma.webhookEndpoint.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const webhookEndpointWithIdOnly = await prisma.webhookEndpoint.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends WebhookEndpointFindManyArgs>(args?: Prisma.SelectSubset<T, WebhookEndpointFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WebhookEndpointPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a WebhookEndpoint.
+   * @param {WebhookEndpointCreateArgs} args - Arguments to create a WebhookEndpoint.
+   * @example
+   * // Create one WebhookEndpoint
+   * const WebhookEndpoint = await prisma.webhookEndpoint.create({
+   *   data: {
+   *     // ... data to create a WebhookEndpoint
+   *   }
+   * })
+   * 
+   */
+  create<T extends WebhookEndpointCreateArgs>(args: Prisma.SelectSubset<T, WebhookEndpointCreateArgs<ExtArgs>>): Prisma.Prisma__WebhookEndpointClient<runtime.Types.Result.GetResult<Prisma.$WebhookEndpointPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many WebhookEndpoints.
+   * @param {WebhookEndpointCreateManyArgs} args - Arguments to create many WebhookEndpoints.
+   * @example
+   * // Create many WebhookEndpoints
+   * const webhookEndpoint = await prisma.webhookEndpoint.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends WebhookEndpointCreateManyArgs>(args?: Prisma.SelectSubset<T, WebhookEndpointCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many WebhookEndpoints and returns the data saved in the database.
+   * @param {WebhookEndpointCreateManyAndReturnArgs} args - Arguments to create many WebhookEndpoints.
+   * @example
+   * // Create many WebhookEndpoints
+   * const webhookEndpoint = await prisma.webhookEndpoint.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many WebhookEndpoints and only return the `id`
+   * const webhookEndpointWithIdOnly = await prisma.webhookEndpoint.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends WebhookEndpointCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, WebhookEndpointCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WebhookEndpointPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a WebhookEndpoint.
+   * @param {WebhookEndpointDeleteArgs} args - Arguments to delete one WebhookEndpoint.
+   * @example
+   * // Delete one WebhookEndpoint
+   * const WebhookEndpoint = await prisma.webhookEndpoint.delete({
+   *   where: {
+   *     // ... filter to delete one WebhookEndpoint
+   *   }
+   * })
+   * 
+   */
+  delete<T extends WebhookEndpointDeleteArgs>(args: Prisma.SelectSubset<T, WebhookEndpointDeleteArgs<ExtArgs>>): Prisma.Prisma__WebhookEndpointClient<runtime.Types.Result.GetResult<Prisma.$WebhookEndpointPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one WebhookEndpoint.
+   * @param {WebhookEndpointUpdateArgs} args - Arguments to update one WebhookEndpoint.
+   * @example
+   * // Update one WebhookEndpoint
+   * const webhookEndpoint = await prisma.webhookEndpoint.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends WebhookEndpointUpdateArgs>(args: Prisma.SelectSubset<T, WebhookEndpointUpdateArgs<ExtArgs>>): Prisma.Prisma__WebhookEndpointClient<runtime.Types.Result.GetResult<Prisma.$WebhookEndpointPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more WebhookEndpoints.
+   * @param {WebhookEndpointDeleteManyArgs} args - Arguments to filter WebhookEndpoints to delete.
+   * @example
+   * // Delete a few WebhookEndpoints
+   * const { count } = await prisma.webhookEndpoint.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends WebhookEndpointDeleteManyArgs>(args?: Prisma.SelectSubset<T, WebhookEndpointDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WebhookEndpoints.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WebhookEndpointUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many WebhookEndpoints
+   * const webhookEndpoint = await prisma.webhookEndpoint.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends WebhookEndpointUpdateManyArgs>(args: Prisma.SelectSubset<T, WebhookEndpointUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WebhookEndpoints and returns the data updated in the database.
+   * @param {WebhookEndpointUpdateManyAndReturnArgs} args - Arguments to update many WebhookEndpoints.
+   * @example
+   * // Update many WebhookEndpoints
+   * const webhookEndpoint = await prisma.webhookEndpoint.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more WebhookEndpoints and only return the `id`
+   * const webhookEndpointWithIdOnly = await prisma.webhookEndpoint.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends WebhookEndpointUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, WebhookEndpointUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WebhookEndpointPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one WebhookEndpoint.
+   * @param {WebhookEndpointUpsertArgs} args - Arguments to update or create a WebhookEndpoint.
+   * @example
+   * // Update or create a WebhookEndpoint
+   * const webhookEndpoint = await prisma.webhookEndpoint.upsert({
+   *   create: {
+   *     // ... data to create a WebhookEndpoint
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the WebhookEndpoint we want to update
+   *   }
+   * })
+   */
+  upsert<T extends WebhookEndpointUpsertArgs>(args: Prisma.SelectSubset<T, WebhookEndpointUpsertArgs<ExtArgs>>): Prisma.Prisma__WebhookEndpointClient<runtime.Types.Result.GetResult<Prisma.$WebhookEndpointPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of WebhookEndpoints.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WebhookEndpointCountArgs} args - Arguments to filter WebhookEndpoints to count.
+   * @example
+   * // Count the number of WebhookEndpoints
+   * const count = await prisma.webhookEndpoint.count({
+   *   where: {
+   *     // ... the filter for the WebhookEndpoints we want to count
+   *   }
+   * })
+  **/
+  count<T extends WebhookEndpointCountArgs>(
+    args?: Prisma.Subset<T, WebhookEndpointCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], WebhookEndpointCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a WebhookEndpoint.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WebhookEndpointAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends WebhookEndpointAggregateArgs>(args: Prisma.Subset<T, WebhookEndpointAggregateArgs>): Prisma.PrismaPromise<GetWebhookEndpointAggregateType<T>>
+
+  /**
+   * Group by WebhookEndpoint.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WebhookEndpointGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends WebhookEndpointGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: WebhookEndpointGroupByArgs['orderBy'] }
+      : { orderBy?: WebhookEndpointGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, WebhookEndpointGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetWebhookEndpointGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the WebhookEndpoint model
+ */
+readonly fields: WebhookEndpointFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for WebhookEndpoint.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__WebhookEndpointClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  workflow<T extends Prisma.WorkflowDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WorkflowDefaultArgs<ExtArgs>>): Prisma.Prisma__WorkflowClient<runtime.Types.Result.GetResult<Prisma.$WorkflowPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the WebhookEndpoint model
+ */
+export interface WebhookEndpointFieldRefs {
+  readonly id: Prisma.FieldRef<"WebhookEndpoint", 'String'>
+  readonly workflowId: Prisma.FieldRef<"WebhookEndpoint", 'String'>
+  readonly token: Prisma.FieldRef<"WebhookEndpoint", 'String'>
+  readonly secret: Prisma.FieldRef<"WebhookEndpoint", 'String'>
+  readonly previousSecret: Prisma.FieldRef<"WebhookEndpoint", 'String'>
+  readonly previousExpiresAt: Prisma.FieldRef<"WebhookEndpoint", 'DateTime'>
+  readonly lastDeliveryAt: Prisma.FieldRef<"WebhookEndpoint", 'DateTime'>
+  readonly rotatedAt: Prisma.FieldRef<"WebhookEndpoint", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"WebhookEndpoint", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"WebhookEndpoint", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * WebhookEndpoint findUnique
+ */
+export type WebhookEndpointFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WebhookEndpoint
+   */
+  select?: Prisma.WebhookEndpointSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WebhookEndpoint
+   */
+  omit?: Prisma.WebhookEndpointOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WebhookEndpointInclude<ExtArgs> | null
+  /**
+   * Filter, which WebhookEndpoint to fetch.
+   */
+  where: Prisma.WebhookEndpointWhereUniqueInput
+}
+
+/**
+ * WebhookEndpoint findUniqueOrThrow
+ */
+export type WebhookEndpointFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WebhookEndpoint
+   */
+  select?: Prisma.WebhookEndpointSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WebhookEndpoint
+   */
+  omit?: Prisma.WebhookEndpointOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WebhookEndpointInclude<ExtArgs> | null
+  /**
+   * Filter, which WebhookEndpoint to fetch.
+   */
+  where: Prisma.WebhookEndpointWhereUniqueInput
+}
+
+/**
+ * WebhookEndpoint findFirst
+ */
+export type WebhookEndpointFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WebhookEndpoint
+   */
+  select?: Prisma.WebhookEndpointSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WebhookEndpoint
+   */
+  omit?: Prisma.WebhookEndpointOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WebhookEndpointInclude<ExtArgs> | null
+  /**
+   * Filter, which WebhookEndpoint to fetch.
+   */
+  where?: Prisma.WebhookEndpointWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WebhookEndpoints to fetch.
+   */
+  orderBy?: Prisma.WebhookEndpointOrderByWithRelationInput | Prisma.WebhookEndpointOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WebhookEndpoints.
+   */
+  cursor?: Prisma.WebhookEndpointWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WebhookEndpoints from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WebhookEndpoints.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WebhookEndpoints.
+   */
+  distinct?: Prisma.WebhookEndpointScalarFieldEnum | Prisma.WebhookEndpointScalarFieldEnum[]
+}
+
+/**
+ * WebhookEndpoint findFirstOrThrow
+ */
+export type WebhookEndpointFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WebhookEndpoint
+   */
+  select?: Prisma.WebhookEndpointSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WebhookEndpoint
+   */
+  omit?: Prisma.WebhookEndpointOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WebhookEndpointInclude<ExtArgs> | null
+  /**
+   * Filter, which WebhookEndpoint to fetch.
+   */
+  where?: Prisma.WebhookEndpointWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WebhookEndpoints to fetch.
+   */
+  orderBy?: Prisma.WebhookEndpointOrderByWithRelationInput | Prisma.WebhookEndpointOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WebhookEndpoints.
+   */
+  cursor?: Prisma.WebhookEndpointWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WebhookEndpoints from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WebhookEndpoints.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WebhookEndpoints.
+   */
+  distinct?: Prisma.WebhookEndpointScalarFieldEnum | Prisma.WebhookEndpointScalarFieldEnum[]
+}
+
+/**
+ * WebhookEndpoint findMany
+ */
+export type WebhookEndpointFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WebhookEndpoint
+   */
+  select?: Prisma.WebhookEndpointSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WebhookEndpoint
+   */
+  omit?: Prisma.WebhookEndpointOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WebhookEndpointInclude<ExtArgs> | null
+  /**
+   * Filter, which WebhookEndpoints to fetch.
+   */
+  where?: Prisma.WebhookEndpointWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WebhookEndpoints to fetch.
+   */
+  orderBy?: Prisma.WebhookEndpointOrderByWithRelationInput | Prisma.WebhookEndpointOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing WebhookEndpoints.
+   */
+  cursor?: Prisma.WebhookEndpointWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WebhookEndpoints from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WebhookEndpoints.
+   */
+  skip?: number
+  distinct?: Prisma.WebhookEndpointScalarFieldEnum | Prisma.WebhookEndpointScalarFieldEnum[]
+}
+
+/**
+ * WebhookEndpoint create
+ */
+export type WebhookEndpointCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WebhookEndpoint
+   */
+  select?: Prisma.WebhookEndpointSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WebhookEndpoint
+   */
+  omit?: Prisma.WebhookEndpointOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WebhookEndpointInclude<ExtArgs> | null
+  /**
+   * The data needed to create a WebhookEndpoint.
+   */
+  data: Prisma.XOR<Prisma.WebhookEndpointCreateInput, Prisma.WebhookEndpointUncheckedCreateInput>
+}
+
+/**
+ * WebhookEndpoint createMany
+ */
+export type WebhookEndpointCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many WebhookEndpoints.
+   */
+  data: Prisma.WebhookEndpointCreateManyInput | Prisma.WebhookEndpointCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * WebhookEndpoint createManyAndReturn
+ */
+export type WebhookEndpointCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WebhookEndpoint
+   */
+  select?: Prisma.WebhookEndpointSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WebhookEndpoint
+   */
+  omit?: Prisma.WebhookEndpointOmit<ExtArgs> | null
+  /**
+   * The data used to create many WebhookEndpoints.
+   */
+  data: Prisma.WebhookEndpointCreateManyInput | Prisma.WebhookEndpointCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WebhookEndpointIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WebhookEndpoint update
+ */
+export type WebhookEndpointUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WebhookEndpoint
+   */
+  select?: Prisma.WebhookEndpointSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WebhookEndpoint
+   */
+  omit?: Prisma.WebhookEndpointOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WebhookEndpointInclude<ExtArgs> | null
+  /**
+   * The data needed to update a WebhookEndpoint.
+   */
+  data: Prisma.XOR<Prisma.WebhookEndpointUpdateInput, Prisma.WebhookEndpointUncheckedUpdateInput>
+  /**
+   * Choose, which WebhookEndpoint to update.
+   */
+  where: Prisma.WebhookEndpointWhereUniqueInput
+}
+
+/**
+ * WebhookEndpoint updateMany
+ */
+export type WebhookEndpointUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update WebhookEndpoints.
+   */
+  data: Prisma.XOR<Prisma.WebhookEndpointUpdateManyMutationInput, Prisma.WebhookEndpointUncheckedUpdateManyInput>
+  /**
+   * Filter which WebhookEndpoints to update
+   */
+  where?: Prisma.WebhookEndpointWhereInput
+  /**
+   * Limit how many WebhookEndpoints to update.
+   */
+  limit?: number
+}
+
+/**
+ * WebhookEndpoint updateManyAndReturn
+ */
+export type WebhookEndpointUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WebhookEndpoint
+   */
+  select?: Prisma.WebhookEndpointSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WebhookEndpoint
+   */
+  omit?: Prisma.WebhookEndpointOmit<ExtArgs> | null
+  /**
+   * The data used to update WebhookEndpoints.
+   */
+  data: Prisma.XOR<Prisma.WebhookEndpointUpdateManyMutationInput, Prisma.WebhookEndpointUncheckedUpdateManyInput>
+  /**
+   * Filter which WebhookEndpoints to update
+   */
+  where?: Prisma.WebhookEndpointWhereInput
+  /**
+   * Limit how many WebhookEndpoints to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WebhookEndpointIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WebhookEndpoint upsert
+ */
+export type WebhookEndpointUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WebhookEndpoint
+   */
+  select?: Prisma.WebhookEndpointSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WebhookEndpoint
+   */
+  omit?: Prisma.WebhookEndpointOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WebhookEndpointInclude<ExtArgs> | null
+  /**
+   * The filter to search for the WebhookEndpoint to update in case it exists.
+   */
+  where: Prisma.WebhookEndpointWhereUniqueInput
+  /**
+   * In case the WebhookEndpoint found by the `where` argument doesn't exist, create a new WebhookEndpoint with this data.
+   */
+  create: Prisma.XOR<Prisma.WebhookEndpointCreateInput, Prisma.WebhookEndpointUncheckedCreateInput>
+  /**
+   * In case the WebhookEndpoint was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.WebhookEndpointUpdateInput, Prisma.WebhookEndpointUncheckedUpdateInput>
+}
+
+/**
+ * WebhookEndpoint delete
+ */
+export type WebhookEndpointDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WebhookEndpoint
+   */
+  select?: Prisma.WebhookEndpointSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WebhookEndpoint
+   */
+  omit?: Prisma.WebhookEndpointOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WebhookEndpointInclude<ExtArgs> | null
+  /**
+   * Filter which WebhookEndpoint to delete.
+   */
+  where: Prisma.WebhookEndpointWhereUniqueInput
+}
+
+/**
+ * WebhookEndpoint deleteMany
+ */
+export type WebhookEndpointDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WebhookEndpoints to delete
+   */
+  where?: Prisma.WebhookEndpointWhereInput
+  /**
+   * Limit how many WebhookEndpoints to delete.
+   */
+  limit?: number
+}
+
+/**
+ * WebhookEndpoint without action
+ */
+export type WebhookEndpointDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WebhookEndpoint
+   */
+  select?: Prisma.WebhookEndpointSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WebhookEndpoint
+   */
+  omit?: Prisma.WebhookEndpointOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WebhookEndpointInclude<ExtArgs> | null
+}
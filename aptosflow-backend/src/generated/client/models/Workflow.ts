@@ -20,78 +20,132 @@ export type WorkflowModel = runtime.Types.Result.DefaultSelection<Prisma.$Workfl
 
 export type AggregateWorkflow = {
   _count: WorkflowCountAggregateOutputType | null
+  _avg: WorkflowAvgAggregateOutputType | null
+  _sum: WorkflowSumAggregateOutputType | null
   _min: WorkflowMinAggregateOutputType | null
   _max: WorkflowMaxAggregateOutputType | null
 }
 
+export type WorkflowAvgAggregateOutputType = {
+  version: number | null
+}
+
+export type WorkflowSumAggregateOutputType = {
+  version: number | null
+}
+
 export type WorkflowMinAggregateOutputType = {
   id: string | null
+  userId: string | null
+  name: string | null
   promptId: string | null
+  version: number | null
   executionStatus: $Enums.ExecutionStatus | null
+  activationState: $Enums.ActivationState | null
   isActive: boolean | null
   triggerType: string | null
   cronExpression: string | null
+  timezone: string | null
+  activatedAt: Date | null
   createdAt: Date | null
   updatedAt: Date | null
 }
 
 export type WorkflowMaxAggregateOutputType = {
   id: string | null
+  userId: string | null
+  name: string | null
   promptId: string | null
+  version: number | null
   executionStatus: $Enums.ExecutionStatus | null
+  activationState: $Enums.ActivationState | null
   isActive: boolean | null
   triggerType: string | null
   cronExpression: string | null
+  timezone: string | null
+  activatedAt: Date | null
   createdAt: Date | null
   updatedAt: Date | null
 }
 
 export type WorkflowCountAggregateOutputType = {
   id: number
+  userId: number
+  name: number
   promptId: number
   workflowData: number
+  version: number
   executionStatus: number
+  activationState: number
   isActive: number
   triggerType: number
   cronExpression: number
+  timezone: number
   triggerConfig: number
+  activatedAt: number
   createdAt: number
   updatedAt: number
   _all: number
 }
 
 
+export type WorkflowAvgAggregateInputType = {
+  version?: true
+}
+
+export type WorkflowSumAggregateInputType = {
+  version?: true
+}
+
 export type WorkflowMinAggregateInputType = {
   id?: true
+  userId?: true
+  name?: true
   promptId?: true
+  version?: true
   executionStatus?: true
+  activationState?: true
   isActive?: true
   triggerType?: true
   cronExpression?: true
+  timezone?: true
+  activatedAt?: true
   createdAt?: true
   updatedAt?: true
 }
 
 export type WorkflowMaxAggregateInputType = {
   id?: true
+  userId?: true
+  name?: true
   promptId?: true
+  version?: true
   executionStatus?: true
+  activationState?: true
   isActive?: true
   triggerType?: true
   cronExpression?: true
+  timezone?: true
+  activatedAt?: true
   createdAt?: true
   updatedAt?: true
 }
 
 export type WorkflowCountAggregateInputType = {
   id?: true
+  userId?: true
+  name?: true
   promptId?: true
   workflowData?: true
+  version?: true
   executionStatus?: true
+  activationState?: true
   isActive?: true
   triggerType?: true
   cronExpression?: true
+  timezone?: true
   triggerConfig?: true
+  activatedAt?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -132,6 +186,18 @@ export type WorkflowAggregateArgs<ExtArgs extends runtime.Types.Extensions.Inter
    * Count returned Workflows
   **/
   _count?: true | WorkflowCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: WorkflowAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: WorkflowSumAggregateInputType
   /**
    * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
    * 
@@ -165,22 +231,32 @@ export type WorkflowGroupByArgs<ExtArgs extends runtime.Types.Extensions.Interna
   take?: number
   skip?: number
   _count?: WorkflowCountAggregateInputType | true
+  _avg?: WorkflowAvgAggregateInputType
+  _sum?: WorkflowSumAggregateInputType
   _min?: WorkflowMinAggregateInputType
   _max?: WorkflowMaxAggregateInputType
 }
 
 export type WorkflowGroupByOutputType = {
   id: string
-  promptId: string
+  userId: string
+  name: string
+  promptId: string | null
   workflowData: runtime.JsonValue
+  version: number
   executionStatus: $Enums.ExecutionStatus
+  activationState: $Enums.ActivationState
   isActive: boolean
   triggerType: string
   cronExpression: string | null
+  timezone: string
   triggerConfig: runtime.JsonValue | null
+  activatedAt: Date | null
   createdAt: Date
   updatedAt: Date
   _count: WorkflowCountAggregateOutputType | null
+  _avg: WorkflowAvgAggregateOutputType | null
+  _sum: WorkflowSumAggregateOutputType | null
   _min: WorkflowMinAggregateOutputType | null
   _max: WorkflowMaxAggregateOutputType | null
 }
@@ -205,30 +281,60 @@ export type WorkflowWhereInput = {
   OR?: Prisma.WorkflowWhereInput[]
   NOT?: Prisma.WorkflowWhereInput | Prisma.WorkflowWhereInput[]
   id?: Prisma.StringFilter<"Workflow"> | string
-  promptId?: Prisma.StringFilter<"Workflow"> | string
+  userId?: Prisma.StringFilter<"Workflow"> | string
+  name?: Prisma.StringFilter<"Workflow"> | string
+  promptId?: Prisma.StringNullableFilter<"Workflow"> | string | null
   workflowData?: Prisma.JsonFilter<"Workflow">
+  version?: Prisma.IntFilter<"Workflow"> | number
   executionStatus?: Prisma.EnumExecutionStatusFilter<"Workflow"> | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFilter<"Workflow"> | $Enums.ActivationState
   isActive?: Prisma.BoolFilter<"Workflow"> | boolean
   triggerType?: Prisma.StringFilter<"Workflow"> | string
   cronExpression?: Prisma.StringNullableFilter<"Workflow"> | string | null
+  timezone?: Prisma.StringFilter<"Workflow"> | string
   triggerConfig?: Prisma.JsonNullableFilter<"Workflow">
+  activatedAt?: Prisma.DateTimeNullableFilter<"Workflow"> | Date | string | null
   createdAt?: Prisma.DateTimeFilter<"Workflow"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Workflow"> | Date | string
-  prompt?: Prisma.XOR<Prisma.PromptScalarRelationFilter, Prisma.PromptWhereInput>
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  prompt?: Prisma.XOR<Prisma.PromptNullableScalarRelationFilter, Prisma.PromptWhereInput> | null
+  onChainWorkflows?: Prisma.OnChainWorkflowListRelationFilter
+  versions?: Prisma.WorkflowVersionListRelationFilter
+  runs?: Prisma.WorkflowRunListRelationFilter
+  resumptions?: Prisma.WorkflowResumptionListRelationFilter
+  scheduleFires?: Prisma.ScheduleFireListRelationFilter
+  eventCursors?: Prisma.EventCursorListRelationFilter
+  priceWatch?: Prisma.XOR<Prisma.PriceWatchNullableScalarRelationFilter, Prisma.PriceWatchWhereInput> | null
+  webhookEndpoint?: Prisma.XOR<Prisma.WebhookEndpointNullableScalarRelationFilter, Prisma.WebhookEndpointWhereInput> | null
 }
 
 export type WorkflowOrderByWithRelationInput = {
   id?: Prisma.SortOrder
-  promptId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  promptId?: Prisma.SortOrderInput | Prisma.SortOrder
   workflowData?: Prisma.SortOrder
+  version?: Prisma.SortOrder
   executionStatus?: Prisma.SortOrder
+  activationState?: Prisma.SortOrder
   isActive?: Prisma.SortOrder
   triggerType?: Prisma.SortOrder
   cronExpression?: Prisma.SortOrderInput | Prisma.SortOrder
+  timezone?: Prisma.SortOrder
   triggerConfig?: Prisma.SortOrderInput | Prisma.SortOrder
+  activatedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
   prompt?: Prisma.PromptOrderByWithRelationInput
+  onChainWorkflows?: Prisma.OnChainWorkflowOrderByRelationAggregateInput
+  versions?: Prisma.WorkflowVersionOrderByRelationAggregateInput
+  runs?: Prisma.WorkflowRunOrderByRelationAggregateInput
+  resumptions?: Prisma.WorkflowResumptionOrderByRelationAggregateInput
+  scheduleFires?: Prisma.ScheduleFireOrderByRelationAggregateInput
+  eventCursors?: Prisma.EventCursorOrderByRelationAggregateInput
+  priceWatch?: Prisma.PriceWatchOrderByWithRelationInput
+  webhookEndpoint?: Prisma.WebhookEndpointOrderByWithRelationInput
 }
 
 export type WorkflowWhereUniqueInput = Prisma.AtLeast<{
@@ -237,31 +343,54 @@ export type WorkflowWhereUniqueInput = Prisma.AtLeast<{
   AND?: Prisma.WorkflowWhereInput | Prisma.WorkflowWhereInput[]
   OR?: Prisma.WorkflowWhereInput[]
   NOT?: Prisma.WorkflowWhereInput | Prisma.WorkflowWhereInput[]
+  userId?: Prisma.StringFilter<"Workflow"> | string
+  name?: Prisma.StringFilter<"Workflow"> | string
   workflowData?: Prisma.JsonFilter<"Workflow">
+  version?: Prisma.IntFilter<"Workflow"> | number
   executionStatus?: Prisma.EnumExecutionStatusFilter<"Workflow"> | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFilter<"Workflow"> | $Enums.ActivationState
   isActive?: Prisma.BoolFilter<"Workflow"> | boolean
   triggerType?: Prisma.StringFilter<"Workflow"> | string
   cronExpression?: Prisma.StringNullableFilter<"Workflow"> | string | null
+  timezone?: Prisma.StringFilter<"Workflow"> | string
   triggerConfig?: Prisma.JsonNullableFilter<"Workflow">
+  activatedAt?: Prisma.DateTimeNullableFilter<"Workflow"> | Date | string | null
   createdAt?: Prisma.DateTimeFilter<"Workflow"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Workflow"> | Date | string
-  prompt?: Prisma.XOR<Prisma.PromptScalarRelationFilter, Prisma.PromptWhereInput>
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  prompt?: Prisma.XOR<Prisma.PromptNullableScalarRelationFilter, Prisma.PromptWhereInput> | null
+  onChainWorkflows?: Prisma.OnChainWorkflowListRelationFilter
+  versions?: Prisma.WorkflowVersionListRelationFilter
+  runs?: Prisma.WorkflowRunListRelationFilter
+  resumptions?: Prisma.WorkflowResumptionListRelationFilter
+  scheduleFires?: Prisma.ScheduleFireListRelationFilter
+  eventCursors?: Prisma.EventCursorListRelationFilter
+  priceWatch?: Prisma.XOR<Prisma.PriceWatchNullableScalarRelationFilter, Prisma.PriceWatchWhereInput> | null
+  webhookEndpoint?: Prisma.XOR<Prisma.WebhookEndpointNullableScalarRelationFilter, Prisma.WebhookEndpointWhereInput> | null
 }, "id" | "promptId">
 
 export type WorkflowOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
-  promptId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  promptId?: Prisma.SortOrderInput | Prisma.SortOrder
   workflowData?: Prisma.SortOrder
+  version?: Prisma.SortOrder
   executionStatus?: Prisma.SortOrder
+  activationState?: Prisma.SortOrder
   isActive?: Prisma.SortOrder
   triggerType?: Prisma.SortOrder
   cronExpression?: Prisma.SortOrderInput | Prisma.SortOrder
+  timezone?: Prisma.SortOrder
   triggerConfig?: Prisma.SortOrderInput | Prisma.SortOrder
+  activatedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.WorkflowCountOrderByAggregateInput
+  _avg?: Prisma.WorkflowAvgOrderByAggregateInput
   _max?: Prisma.WorkflowMaxOrderByAggregateInput
   _min?: Prisma.WorkflowMinOrderByAggregateInput
+  _sum?: Prisma.WorkflowSumOrderByAggregateInput
 }
 
 export type WorkflowScalarWhereWithAggregatesInput = {
@@ -269,107 +398,196 @@ export type WorkflowScalarWhereWithAggregatesInput = {
   OR?: Prisma.WorkflowScalarWhereWithAggregatesInput[]
   NOT?: Prisma.WorkflowScalarWhereWithAggregatesInput | Prisma.WorkflowScalarWhereWithAggregatesInput[]
   id?: Prisma.StringWithAggregatesFilter<"Workflow"> | string
-  promptId?: Prisma.StringWithAggregatesFilter<"Workflow"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"Workflow"> | string
+  name?: Prisma.StringWithAggregatesFilter<"Workflow"> | string
+  promptId?: Prisma.StringNullableWithAggregatesFilter<"Workflow"> | string | null
   workflowData?: Prisma.JsonWithAggregatesFilter<"Workflow">
+  version?: Prisma.IntWithAggregatesFilter<"Workflow"> | number
   executionStatus?: Prisma.EnumExecutionStatusWithAggregatesFilter<"Workflow"> | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateWithAggregatesFilter<"Workflow"> | $Enums.ActivationState
   isActive?: Prisma.BoolWithAggregatesFilter<"Workflow"> | boolean
   triggerType?: Prisma.StringWithAggregatesFilter<"Workflow"> | string
   cronExpression?: Prisma.StringNullableWithAggregatesFilter<"Workflow"> | string | null
+  timezone?: Prisma.StringWithAggregatesFilter<"Workflow"> | string
   triggerConfig?: Prisma.JsonNullableWithAggregatesFilter<"Workflow">
+  activatedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Workflow"> | Date | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Workflow"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Workflow"> | Date | string
 }
 
 export type WorkflowCreateInput = {
   id?: string
+  name?: string
   workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
   executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
   isActive?: boolean
   triggerType?: string
   cronExpression?: string | null
+  timezone?: string
   triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
-  prompt: Prisma.PromptCreateNestedOneWithoutWorkflowInput
+  user: Prisma.UserCreateNestedOneWithoutWorkflowsInput
+  prompt?: Prisma.PromptCreateNestedOneWithoutWorkflowInput
+  onChainWorkflows?: Prisma.OnChainWorkflowCreateNestedManyWithoutWorkflowInput
+  versions?: Prisma.WorkflowVersionCreateNestedManyWithoutWorkflowInput
+  runs?: Prisma.WorkflowRunCreateNestedManyWithoutWorkflowInput
+  resumptions?: Prisma.WorkflowResumptionCreateNestedManyWithoutWorkflowInput
+  scheduleFires?: Prisma.ScheduleFireCreateNestedManyWithoutWorkflowInput
+  eventCursors?: Prisma.EventCursorCreateNestedManyWithoutWorkflowInput
+  priceWatch?: Prisma.PriceWatchCreateNestedOneWithoutWorkflowInput
+  webhookEndpoint?: Prisma.WebhookEndpointCreateNestedOneWithoutWorkflowInput
 }
 
 export type WorkflowUncheckedCreateInput = {
   id?: string
-  promptId: string
+  userId: string
+  name?: string
+  promptId?: string | null
   workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
   executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
   isActive?: boolean
   triggerType?: string
   cronExpression?: string | null
+  timezone?: string
   triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  onChainWorkflows?: Prisma.OnChainWorkflowUncheckedCreateNestedManyWithoutWorkflowInput
+  versions?: Prisma.WorkflowVersionUncheckedCreateNestedManyWithoutWorkflowInput
+  runs?: Prisma.WorkflowRunUncheckedCreateNestedManyWithoutWorkflowInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedCreateNestedManyWithoutWorkflowInput
+  scheduleFires?: Prisma.ScheduleFireUncheckedCreateNestedManyWithoutWorkflowInput
+  eventCursors?: Prisma.EventCursorUncheckedCreateNestedManyWithoutWorkflowInput
+  priceWatch?: Prisma.PriceWatchUncheckedCreateNestedOneWithoutWorkflowInput
+  webhookEndpoint?: Prisma.WebhookEndpointUncheckedCreateNestedOneWithoutWorkflowInput
 }
 
 export type WorkflowUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
   workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   triggerType?: Prisma.StringFieldUpdateOperationsInput | string
   cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
   triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
-  prompt?: Prisma.PromptUpdateOneRequiredWithoutWorkflowNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutWorkflowsNestedInput
+  prompt?: Prisma.PromptUpdateOneWithoutWorkflowNestedInput
+  onChainWorkflows?: Prisma.OnChainWorkflowUpdateManyWithoutWorkflowNestedInput
+  versions?: Prisma.WorkflowVersionUpdateManyWithoutWorkflowNestedInput
+  runs?: Prisma.WorkflowRunUpdateManyWithoutWorkflowNestedInput
+  resumptions?: Prisma.WorkflowResumptionUpdateManyWithoutWorkflowNestedInput
+  scheduleFires?: Prisma.ScheduleFireUpdateManyWithoutWorkflowNestedInput
+  eventCursors?: Prisma.EventCursorUpdateManyWithoutWorkflowNestedInput
+  priceWatch?: Prisma.PriceWatchUpdateOneWithoutWorkflowNestedInput
+  webhookEndpoint?: Prisma.WebhookEndpointUpdateOneWithoutWorkflowNestedInput
 }
 
 export type WorkflowUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
-  promptId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  promptId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   triggerType?: Prisma.StringFieldUpdateOperationsInput | string
   cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
   triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  onChainWorkflows?: Prisma.OnChainWorkflowUncheckedUpdateManyWithoutWorkflowNestedInput
+  versions?: Prisma.WorkflowVersionUncheckedUpdateManyWithoutWorkflowNestedInput
+  runs?: Prisma.WorkflowRunUncheckedUpdateManyWithoutWorkflowNestedInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedUpdateManyWithoutWorkflowNestedInput
+  scheduleFires?: Prisma.ScheduleFireUncheckedUpdateManyWithoutWorkflowNestedInput
+  eventCursors?: Prisma.EventCursorUncheckedUpdateManyWithoutWorkflowNestedInput
+  priceWatch?: Prisma.PriceWatchUncheckedUpdateOneWithoutWorkflowNestedInput
+  webhookEndpoint?: Prisma.WebhookEndpointUncheckedUpdateOneWithoutWorkflowNestedInput
 }
 
 export type WorkflowCreateManyInput = {
   id?: string
-  promptId: string
+  userId: string
+  name?: string
+  promptId?: string | null
   workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
   executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
   isActive?: boolean
   triggerType?: string
   cronExpression?: string | null
+  timezone?: string
   triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
 
 export type WorkflowUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
   workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   triggerType?: Prisma.StringFieldUpdateOperationsInput | string
   cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
   triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 export type WorkflowUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
-  promptId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  promptId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   triggerType?: Prisma.StringFieldUpdateOperationsInput | string
   cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
   triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
+export type WorkflowListRelationFilter = {
+  every?: Prisma.WorkflowWhereInput
+  some?: Prisma.WorkflowWhereInput
+  none?: Prisma.WorkflowWhereInput
+}
+
+export type WorkflowOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
 export type WorkflowNullableScalarRelationFilter = {
   is?: Prisma.WorkflowWhereInput | null
   isNot?: Prisma.WorkflowWhereInput | null
@@ -377,225 +595,1763 @@ export type WorkflowNullableScalarRelationFilter = {
 
 export type WorkflowCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
   promptId?: Prisma.SortOrder
   workflowData?: Prisma.SortOrder
+  version?: Prisma.SortOrder
   executionStatus?: Prisma.SortOrder
+  activationState?: Prisma.SortOrder
   isActive?: Prisma.SortOrder
   triggerType?: Prisma.SortOrder
   cronExpression?: Prisma.SortOrder
+  timezone?: Prisma.SortOrder
   triggerConfig?: Prisma.SortOrder
+  activatedAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
+export type WorkflowAvgOrderByAggregateInput = {
+  version?: Prisma.SortOrder
+}
+
 export type WorkflowMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
   promptId?: Prisma.SortOrder
+  version?: Prisma.SortOrder
   executionStatus?: Prisma.SortOrder
+  activationState?: Prisma.SortOrder
   isActive?: Prisma.SortOrder
   triggerType?: Prisma.SortOrder
   cronExpression?: Prisma.SortOrder
+  timezone?: Prisma.SortOrder
+  activatedAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
 export type WorkflowMinOrderByAggregateInput = {
   id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
   promptId?: Prisma.SortOrder
+  version?: Prisma.SortOrder
   executionStatus?: Prisma.SortOrder
+  activationState?: Prisma.SortOrder
   isActive?: Prisma.SortOrder
   triggerType?: Prisma.SortOrder
   cronExpression?: Prisma.SortOrder
+  timezone?: Prisma.SortOrder
+  activatedAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
+export type WorkflowSumOrderByAggregateInput = {
+  version?: Prisma.SortOrder
+}
+
+export type WorkflowScalarRelationFilter = {
+  is?: Prisma.WorkflowWhereInput
+  isNot?: Prisma.WorkflowWhereInput
+}
+
+export type WorkflowCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutUserInput, Prisma.WorkflowUncheckedCreateWithoutUserInput> | Prisma.WorkflowCreateWithoutUserInput[] | Prisma.WorkflowUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutUserInput | Prisma.WorkflowCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.WorkflowCreateManyUserInputEnvelope
+  connect?: Prisma.WorkflowWhereUniqueInput | Prisma.WorkflowWhereUniqueInput[]
+}
+
+export type WorkflowUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutUserInput, Prisma.WorkflowUncheckedCreateWithoutUserInput> | Prisma.WorkflowCreateWithoutUserInput[] | Prisma.WorkflowUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutUserInput | Prisma.WorkflowCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.WorkflowCreateManyUserInputEnvelope
+  connect?: Prisma.WorkflowWhereUniqueInput | Prisma.WorkflowWhereUniqueInput[]
+}
+
+export type WorkflowUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutUserInput, Prisma.WorkflowUncheckedCreateWithoutUserInput> | Prisma.WorkflowCreateWithoutUserInput[] | Prisma.WorkflowUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutUserInput | Prisma.WorkflowCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.WorkflowUpsertWithWhereUniqueWithoutUserInput | Prisma.WorkflowUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.WorkflowCreateManyUserInputEnvelope
+  set?: Prisma.WorkflowWhereUniqueInput | Prisma.WorkflowWhereUniqueInput[]
+  disconnect?: Prisma.WorkflowWhereUniqueInput | Prisma.WorkflowWhereUniqueInput[]
+  delete?: Prisma.WorkflowWhereUniqueInput | Prisma.WorkflowWhereUniqueInput[]
+  connect?: Prisma.WorkflowWhereUniqueInput | Prisma.WorkflowWhereUniqueInput[]
+  update?: Prisma.WorkflowUpdateWithWhereUniqueWithoutUserInput | Prisma.WorkflowUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.WorkflowUpdateManyWithWhereWithoutUserInput | Prisma.WorkflowUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.WorkflowScalarWhereInput | Prisma.WorkflowScalarWhereInput[]
+}
+
+export type WorkflowUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutUserInput, Prisma.WorkflowUncheckedCreateWithoutUserInput> | Prisma.WorkflowCreateWithoutUserInput[] | Prisma.WorkflowUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutUserInput | Prisma.WorkflowCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.WorkflowUpsertWithWhereUniqueWithoutUserInput | Prisma.WorkflowUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.WorkflowCreateManyUserInputEnvelope
+  set?: Prisma.WorkflowWhereUniqueInput | Prisma.WorkflowWhereUniqueInput[]
+  disconnect?: Prisma.WorkflowWhereUniqueInput | Prisma.WorkflowWhereUniqueInput[]
+  delete?: Prisma.WorkflowWhereUniqueInput | Prisma.WorkflowWhereUniqueInput[]
+  connect?: Prisma.WorkflowWhereUniqueInput | Prisma.WorkflowWhereUniqueInput[]
+  update?: Prisma.WorkflowUpdateWithWhereUniqueWithoutUserInput | Prisma.WorkflowUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.WorkflowUpdateManyWithWhereWithoutUserInput | Prisma.WorkflowUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.WorkflowScalarWhereInput | Prisma.WorkflowScalarWhereInput[]
+}
+
 export type WorkflowCreateNestedOneWithoutPromptInput = {
   create?: Prisma.XOR<Prisma.WorkflowCreateWithoutPromptInput, Prisma.WorkflowUncheckedCreateWithoutPromptInput>
   connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutPromptInput
   connect?: Prisma.WorkflowWhereUniqueInput
 }
 
-export type WorkflowUncheckedCreateNestedOneWithoutPromptInput = {
-  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutPromptInput, Prisma.WorkflowUncheckedCreateWithoutPromptInput>
-  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutPromptInput
-  connect?: Prisma.WorkflowWhereUniqueInput
+export type WorkflowUncheckedCreateNestedOneWithoutPromptInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutPromptInput, Prisma.WorkflowUncheckedCreateWithoutPromptInput>
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutPromptInput
+  connect?: Prisma.WorkflowWhereUniqueInput
+}
+
+export type WorkflowUpdateOneWithoutPromptNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutPromptInput, Prisma.WorkflowUncheckedCreateWithoutPromptInput>
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutPromptInput
+  upsert?: Prisma.WorkflowUpsertWithoutPromptInput
+  disconnect?: Prisma.WorkflowWhereInput | boolean
+  delete?: Prisma.WorkflowWhereInput | boolean
+  connect?: Prisma.WorkflowWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.WorkflowUpdateToOneWithWhereWithoutPromptInput, Prisma.WorkflowUpdateWithoutPromptInput>, Prisma.WorkflowUncheckedUpdateWithoutPromptInput>
+}
+
+export type WorkflowUncheckedUpdateOneWithoutPromptNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutPromptInput, Prisma.WorkflowUncheckedCreateWithoutPromptInput>
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutPromptInput
+  upsert?: Prisma.WorkflowUpsertWithoutPromptInput
+  disconnect?: Prisma.WorkflowWhereInput | boolean
+  delete?: Prisma.WorkflowWhereInput | boolean
+  connect?: Prisma.WorkflowWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.WorkflowUpdateToOneWithWhereWithoutPromptInput, Prisma.WorkflowUpdateWithoutPromptInput>, Prisma.WorkflowUncheckedUpdateWithoutPromptInput>
+}
+
+export type IntFieldUpdateOperationsInput = {
+  set?: number
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+export type EnumExecutionStatusFieldUpdateOperationsInput = {
+  set?: $Enums.ExecutionStatus
+}
+
+export type EnumActivationStateFieldUpdateOperationsInput = {
+  set?: $Enums.ActivationState
+}
+
+export type BoolFieldUpdateOperationsInput = {
+  set?: boolean
+}
+
+export type WorkflowCreateNestedOneWithoutVersionsInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutVersionsInput, Prisma.WorkflowUncheckedCreateWithoutVersionsInput>
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutVersionsInput
+  connect?: Prisma.WorkflowWhereUniqueInput
+}
+
+export type WorkflowUpdateOneRequiredWithoutVersionsNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutVersionsInput, Prisma.WorkflowUncheckedCreateWithoutVersionsInput>
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutVersionsInput
+  upsert?: Prisma.WorkflowUpsertWithoutVersionsInput
+  connect?: Prisma.WorkflowWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.WorkflowUpdateToOneWithWhereWithoutVersionsInput, Prisma.WorkflowUpdateWithoutVersionsInput>, Prisma.WorkflowUncheckedUpdateWithoutVersionsInput>
+}
+
+export type WorkflowCreateNestedOneWithoutOnChainWorkflowsInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutOnChainWorkflowsInput, Prisma.WorkflowUncheckedCreateWithoutOnChainWorkflowsInput>
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutOnChainWorkflowsInput
+  connect?: Prisma.WorkflowWhereUniqueInput
+}
+
+export type WorkflowUpdateOneRequiredWithoutOnChainWorkflowsNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutOnChainWorkflowsInput, Prisma.WorkflowUncheckedCreateWithoutOnChainWorkflowsInput>
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutOnChainWorkflowsInput
+  upsert?: Prisma.WorkflowUpsertWithoutOnChainWorkflowsInput
+  connect?: Prisma.WorkflowWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.WorkflowUpdateToOneWithWhereWithoutOnChainWorkflowsInput, Prisma.WorkflowUpdateWithoutOnChainWorkflowsInput>, Prisma.WorkflowUncheckedUpdateWithoutOnChainWorkflowsInput>
+}
+
+export type WorkflowCreateNestedOneWithoutRunsInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutRunsInput, Prisma.WorkflowUncheckedCreateWithoutRunsInput>
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutRunsInput
+  connect?: Prisma.WorkflowWhereUniqueInput
+}
+
+export type WorkflowUpdateOneRequiredWithoutRunsNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutRunsInput, Prisma.WorkflowUncheckedCreateWithoutRunsInput>
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutRunsInput
+  upsert?: Prisma.WorkflowUpsertWithoutRunsInput
+  connect?: Prisma.WorkflowWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.WorkflowUpdateToOneWithWhereWithoutRunsInput, Prisma.WorkflowUpdateWithoutRunsInput>, Prisma.WorkflowUncheckedUpdateWithoutRunsInput>
+}
+
+export type WorkflowCreateNestedOneWithoutResumptionsInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutResumptionsInput, Prisma.WorkflowUncheckedCreateWithoutResumptionsInput>
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutResumptionsInput
+  connect?: Prisma.WorkflowWhereUniqueInput
+}
+
+export type WorkflowUpdateOneRequiredWithoutResumptionsNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutResumptionsInput, Prisma.WorkflowUncheckedCreateWithoutResumptionsInput>
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutResumptionsInput
+  upsert?: Prisma.WorkflowUpsertWithoutResumptionsInput
+  connect?: Prisma.WorkflowWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.WorkflowUpdateToOneWithWhereWithoutResumptionsInput, Prisma.WorkflowUpdateWithoutResumptionsInput>, Prisma.WorkflowUncheckedUpdateWithoutResumptionsInput>
+}
+
+export type WorkflowCreateNestedOneWithoutScheduleFiresInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutScheduleFiresInput, Prisma.WorkflowUncheckedCreateWithoutScheduleFiresInput>
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutScheduleFiresInput
+  connect?: Prisma.WorkflowWhereUniqueInput
+}
+
+export type WorkflowUpdateOneRequiredWithoutScheduleFiresNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutScheduleFiresInput, Prisma.WorkflowUncheckedCreateWithoutScheduleFiresInput>
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutScheduleFiresInput
+  upsert?: Prisma.WorkflowUpsertWithoutScheduleFiresInput
+  connect?: Prisma.WorkflowWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.WorkflowUpdateToOneWithWhereWithoutScheduleFiresInput, Prisma.WorkflowUpdateWithoutScheduleFiresInput>, Prisma.WorkflowUncheckedUpdateWithoutScheduleFiresInput>
+}
+
+export type WorkflowCreateNestedOneWithoutEventCursorsInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutEventCursorsInput, Prisma.WorkflowUncheckedCreateWithoutEventCursorsInput>
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutEventCursorsInput
+  connect?: Prisma.WorkflowWhereUniqueInput
+}
+
+export type WorkflowUpdateOneRequiredWithoutEventCursorsNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutEventCursorsInput, Prisma.WorkflowUncheckedCreateWithoutEventCursorsInput>
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutEventCursorsInput
+  upsert?: Prisma.WorkflowUpsertWithoutEventCursorsInput
+  connect?: Prisma.WorkflowWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.WorkflowUpdateToOneWithWhereWithoutEventCursorsInput, Prisma.WorkflowUpdateWithoutEventCursorsInput>, Prisma.WorkflowUncheckedUpdateWithoutEventCursorsInput>
+}
+
+export type WorkflowCreateNestedOneWithoutPriceWatchInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutPriceWatchInput, Prisma.WorkflowUncheckedCreateWithoutPriceWatchInput>
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutPriceWatchInput
+  connect?: Prisma.WorkflowWhereUniqueInput
+}
+
+export type WorkflowUpdateOneRequiredWithoutPriceWatchNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutPriceWatchInput, Prisma.WorkflowUncheckedCreateWithoutPriceWatchInput>
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutPriceWatchInput
+  upsert?: Prisma.WorkflowUpsertWithoutPriceWatchInput
+  connect?: Prisma.WorkflowWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.WorkflowUpdateToOneWithWhereWithoutPriceWatchInput, Prisma.WorkflowUpdateWithoutPriceWatchInput>, Prisma.WorkflowUncheckedUpdateWithoutPriceWatchInput>
+}
+
+export type WorkflowCreateNestedOneWithoutWebhookEndpointInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutWebhookEndpointInput, Prisma.WorkflowUncheckedCreateWithoutWebhookEndpointInput>
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutWebhookEndpointInput
+  connect?: Prisma.WorkflowWhereUniqueInput
+}
+
+export type WorkflowUpdateOneRequiredWithoutWebhookEndpointNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutWebhookEndpointInput, Prisma.WorkflowUncheckedCreateWithoutWebhookEndpointInput>
+  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutWebhookEndpointInput
+  upsert?: Prisma.WorkflowUpsertWithoutWebhookEndpointInput
+  connect?: Prisma.WorkflowWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.WorkflowUpdateToOneWithWhereWithoutWebhookEndpointInput, Prisma.WorkflowUpdateWithoutWebhookEndpointInput>, Prisma.WorkflowUncheckedUpdateWithoutWebhookEndpointInput>
+}
+
+export type WorkflowCreateWithoutUserInput = {
+  id?: string
+  name?: string
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
+  executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
+  isActive?: boolean
+  triggerType?: string
+  cronExpression?: string | null
+  timezone?: string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  prompt?: Prisma.PromptCreateNestedOneWithoutWorkflowInput
+  onChainWorkflows?: Prisma.OnChainWorkflowCreateNestedManyWithoutWorkflowInput
+  versions?: Prisma.WorkflowVersionCreateNestedManyWithoutWorkflowInput
+  runs?: Prisma.WorkflowRunCreateNestedManyWithoutWorkflowInput
+  resumptions?: Prisma.WorkflowResumptionCreateNestedManyWithoutWorkflowInput
+  scheduleFires?: Prisma.ScheduleFireCreateNestedManyWithoutWorkflowInput
+  eventCursors?: Prisma.EventCursorCreateNestedManyWithoutWorkflowInput
+  priceWatch?: Prisma.PriceWatchCreateNestedOneWithoutWorkflowInput
+  webhookEndpoint?: Prisma.WebhookEndpointCreateNestedOneWithoutWorkflowInput
+}
+
+export type WorkflowUncheckedCreateWithoutUserInput = {
+  id?: string
+  name?: string
+  promptId?: string | null
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
+  executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
+  isActive?: boolean
+  triggerType?: string
+  cronExpression?: string | null
+  timezone?: string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  onChainWorkflows?: Prisma.OnChainWorkflowUncheckedCreateNestedManyWithoutWorkflowInput
+  versions?: Prisma.WorkflowVersionUncheckedCreateNestedManyWithoutWorkflowInput
+  runs?: Prisma.WorkflowRunUncheckedCreateNestedManyWithoutWorkflowInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedCreateNestedManyWithoutWorkflowInput
+  scheduleFires?: Prisma.ScheduleFireUncheckedCreateNestedManyWithoutWorkflowInput
+  eventCursors?: Prisma.EventCursorUncheckedCreateNestedManyWithoutWorkflowInput
+  priceWatch?: Prisma.PriceWatchUncheckedCreateNestedOneWithoutWorkflowInput
+  webhookEndpoint?: Prisma.WebhookEndpointUncheckedCreateNestedOneWithoutWorkflowInput
+}
+
+export type WorkflowCreateOrConnectWithoutUserInput = {
+  where: Prisma.WorkflowWhereUniqueInput
+  create: Prisma.XOR<Prisma.WorkflowCreateWithoutUserInput, Prisma.WorkflowUncheckedCreateWithoutUserInput>
+}
+
+export type WorkflowCreateManyUserInputEnvelope = {
+  data: Prisma.WorkflowCreateManyUserInput | Prisma.WorkflowCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type WorkflowUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.WorkflowWhereUniqueInput
+  update: Prisma.XOR<Prisma.WorkflowUpdateWithoutUserInput, Prisma.WorkflowUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.WorkflowCreateWithoutUserInput, Prisma.WorkflowUncheckedCreateWithoutUserInput>
+}
+
+export type WorkflowUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.WorkflowWhereUniqueInput
+  data: Prisma.XOR<Prisma.WorkflowUpdateWithoutUserInput, Prisma.WorkflowUncheckedUpdateWithoutUserInput>
+}
+
+export type WorkflowUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.WorkflowScalarWhereInput
+  data: Prisma.XOR<Prisma.WorkflowUpdateManyMutationInput, Prisma.WorkflowUncheckedUpdateManyWithoutUserInput>
+}
+
+export type WorkflowScalarWhereInput = {
+  AND?: Prisma.WorkflowScalarWhereInput | Prisma.WorkflowScalarWhereInput[]
+  OR?: Prisma.WorkflowScalarWhereInput[]
+  NOT?: Prisma.WorkflowScalarWhereInput | Prisma.WorkflowScalarWhereInput[]
+  id?: Prisma.StringFilter<"Workflow"> | string
+  userId?: Prisma.StringFilter<"Workflow"> | string
+  name?: Prisma.StringFilter<"Workflow"> | string
+  promptId?: Prisma.StringNullableFilter<"Workflow"> | string | null
+  workflowData?: Prisma.JsonFilter<"Workflow">
+  version?: Prisma.IntFilter<"Workflow"> | number
+  executionStatus?: Prisma.EnumExecutionStatusFilter<"Workflow"> | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFilter<"Workflow"> | $Enums.ActivationState
+  isActive?: Prisma.BoolFilter<"Workflow"> | boolean
+  triggerType?: Prisma.StringFilter<"Workflow"> | string
+  cronExpression?: Prisma.StringNullableFilter<"Workflow"> | string | null
+  timezone?: Prisma.StringFilter<"Workflow"> | string
+  triggerConfig?: Prisma.JsonNullableFilter<"Workflow">
+  activatedAt?: Prisma.DateTimeNullableFilter<"Workflow"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"Workflow"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Workflow"> | Date | string
+}
+
+export type WorkflowCreateWithoutPromptInput = {
+  id?: string
+  name?: string
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
+  executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
+  isActive?: boolean
+  triggerType?: string
+  cronExpression?: string | null
+  timezone?: string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutWorkflowsInput
+  onChainWorkflows?: Prisma.OnChainWorkflowCreateNestedManyWithoutWorkflowInput
+  versions?: Prisma.WorkflowVersionCreateNestedManyWithoutWorkflowInput
+  runs?: Prisma.WorkflowRunCreateNestedManyWithoutWorkflowInput
+  resumptions?: Prisma.WorkflowResumptionCreateNestedManyWithoutWorkflowInput
+  scheduleFires?: Prisma.ScheduleFireCreateNestedManyWithoutWorkflowInput
+  eventCursors?: Prisma.EventCursorCreateNestedManyWithoutWorkflowInput
+  priceWatch?: Prisma.PriceWatchCreateNestedOneWithoutWorkflowInput
+  webhookEndpoint?: Prisma.WebhookEndpointCreateNestedOneWithoutWorkflowInput
+}
+
+export type WorkflowUncheckedCreateWithoutPromptInput = {
+  id?: string
+  userId: string
+  name?: string
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
+  executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
+  isActive?: boolean
+  triggerType?: string
+  cronExpression?: string | null
+  timezone?: string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  onChainWorkflows?: Prisma.OnChainWorkflowUncheckedCreateNestedManyWithoutWorkflowInput
+  versions?: Prisma.WorkflowVersionUncheckedCreateNestedManyWithoutWorkflowInput
+  runs?: Prisma.WorkflowRunUncheckedCreateNestedManyWithoutWorkflowInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedCreateNestedManyWithoutWorkflowInput
+  scheduleFires?: Prisma.ScheduleFireUncheckedCreateNestedManyWithoutWorkflowInput
+  eventCursors?: Prisma.EventCursorUncheckedCreateNestedManyWithoutWorkflowInput
+  priceWatch?: Prisma.PriceWatchUncheckedCreateNestedOneWithoutWorkflowInput
+  webhookEndpoint?: Prisma.WebhookEndpointUncheckedCreateNestedOneWithoutWorkflowInput
+}
+
+export type WorkflowCreateOrConnectWithoutPromptInput = {
+  where: Prisma.WorkflowWhereUniqueInput
+  create: Prisma.XOR<Prisma.WorkflowCreateWithoutPromptInput, Prisma.WorkflowUncheckedCreateWithoutPromptInput>
+}
+
+export type WorkflowUpsertWithoutPromptInput = {
+  update: Prisma.XOR<Prisma.WorkflowUpdateWithoutPromptInput, Prisma.WorkflowUncheckedUpdateWithoutPromptInput>
+  create: Prisma.XOR<Prisma.WorkflowCreateWithoutPromptInput, Prisma.WorkflowUncheckedCreateWithoutPromptInput>
+  where?: Prisma.WorkflowWhereInput
+}
+
+export type WorkflowUpdateToOneWithWhereWithoutPromptInput = {
+  where?: Prisma.WorkflowWhereInput
+  data: Prisma.XOR<Prisma.WorkflowUpdateWithoutPromptInput, Prisma.WorkflowUncheckedUpdateWithoutPromptInput>
+}
+
+export type WorkflowUpdateWithoutPromptInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggerType?: Prisma.StringFieldUpdateOperationsInput | string
+  cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutWorkflowsNestedInput
+  onChainWorkflows?: Prisma.OnChainWorkflowUpdateManyWithoutWorkflowNestedInput
+  versions?: Prisma.WorkflowVersionUpdateManyWithoutWorkflowNestedInput
+  runs?: Prisma.WorkflowRunUpdateManyWithoutWorkflowNestedInput
+  resumptions?: Prisma.WorkflowResumptionUpdateManyWithoutWorkflowNestedInput
+  scheduleFires?: Prisma.ScheduleFireUpdateManyWithoutWorkflowNestedInput
+  eventCursors?: Prisma.EventCursorUpdateManyWithoutWorkflowNestedInput
+  priceWatch?: Prisma.PriceWatchUpdateOneWithoutWorkflowNestedInput
+  webhookEndpoint?: Prisma.WebhookEndpointUpdateOneWithoutWorkflowNestedInput
+}
+
+export type WorkflowUncheckedUpdateWithoutPromptInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggerType?: Prisma.StringFieldUpdateOperationsInput | string
+  cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  onChainWorkflows?: Prisma.OnChainWorkflowUncheckedUpdateManyWithoutWorkflowNestedInput
+  versions?: Prisma.WorkflowVersionUncheckedUpdateManyWithoutWorkflowNestedInput
+  runs?: Prisma.WorkflowRunUncheckedUpdateManyWithoutWorkflowNestedInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedUpdateManyWithoutWorkflowNestedInput
+  scheduleFires?: Prisma.ScheduleFireUncheckedUpdateManyWithoutWorkflowNestedInput
+  eventCursors?: Prisma.EventCursorUncheckedUpdateManyWithoutWorkflowNestedInput
+  priceWatch?: Prisma.PriceWatchUncheckedUpdateOneWithoutWorkflowNestedInput
+  webhookEndpoint?: Prisma.WebhookEndpointUncheckedUpdateOneWithoutWorkflowNestedInput
+}
+
+export type WorkflowCreateWithoutVersionsInput = {
+  id?: string
+  name?: string
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
+  executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
+  isActive?: boolean
+  triggerType?: string
+  cronExpression?: string | null
+  timezone?: string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutWorkflowsInput
+  prompt?: Prisma.PromptCreateNestedOneWithoutWorkflowInput
+  onChainWorkflows?: Prisma.OnChainWorkflowCreateNestedManyWithoutWorkflowInput
+  runs?: Prisma.WorkflowRunCreateNestedManyWithoutWorkflowInput
+  resumptions?: Prisma.WorkflowResumptionCreateNestedManyWithoutWorkflowInput
+  scheduleFires?: Prisma.ScheduleFireCreateNestedManyWithoutWorkflowInput
+  eventCursors?: Prisma.EventCursorCreateNestedManyWithoutWorkflowInput
+  priceWatch?: Prisma.PriceWatchCreateNestedOneWithoutWorkflowInput
+  webhookEndpoint?: Prisma.WebhookEndpointCreateNestedOneWithoutWorkflowInput
+}
+
+export type WorkflowUncheckedCreateWithoutVersionsInput = {
+  id?: string
+  userId: string
+  name?: string
+  promptId?: string | null
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
+  executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
+  isActive?: boolean
+  triggerType?: string
+  cronExpression?: string | null
+  timezone?: string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  onChainWorkflows?: Prisma.OnChainWorkflowUncheckedCreateNestedManyWithoutWorkflowInput
+  runs?: Prisma.WorkflowRunUncheckedCreateNestedManyWithoutWorkflowInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedCreateNestedManyWithoutWorkflowInput
+  scheduleFires?: Prisma.ScheduleFireUncheckedCreateNestedManyWithoutWorkflowInput
+  eventCursors?: Prisma.EventCursorUncheckedCreateNestedManyWithoutWorkflowInput
+  priceWatch?: Prisma.PriceWatchUncheckedCreateNestedOneWithoutWorkflowInput
+  webhookEndpoint?: Prisma.WebhookEndpointUncheckedCreateNestedOneWithoutWorkflowInput
+}
+
+export type WorkflowCreateOrConnectWithoutVersionsInput = {
+  where: Prisma.WorkflowWhereUniqueInput
+  create: Prisma.XOR<Prisma.WorkflowCreateWithoutVersionsInput, Prisma.WorkflowUncheckedCreateWithoutVersionsInput>
+}
+
+export type WorkflowUpsertWithoutVersionsInput = {
+  update: Prisma.XOR<Prisma.WorkflowUpdateWithoutVersionsInput, Prisma.WorkflowUncheckedUpdateWithoutVersionsInput>
+  create: Prisma.XOR<Prisma.WorkflowCreateWithoutVersionsInput, Prisma.WorkflowUncheckedCreateWithoutVersionsInput>
+  where?: Prisma.WorkflowWhereInput
+}
+
+export type WorkflowUpdateToOneWithWhereWithoutVersionsInput = {
+  where?: Prisma.WorkflowWhereInput
+  data: Prisma.XOR<Prisma.WorkflowUpdateWithoutVersionsInput, Prisma.WorkflowUncheckedUpdateWithoutVersionsInput>
+}
+
+export type WorkflowUpdateWithoutVersionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggerType?: Prisma.StringFieldUpdateOperationsInput | string
+  cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutWorkflowsNestedInput
+  prompt?: Prisma.PromptUpdateOneWithoutWorkflowNestedInput
+  onChainWorkflows?: Prisma.OnChainWorkflowUpdateManyWithoutWorkflowNestedInput
+  runs?: Prisma.WorkflowRunUpdateManyWithoutWorkflowNestedInput
+  resumptions?: Prisma.WorkflowResumptionUpdateManyWithoutWorkflowNestedInput
+  scheduleFires?: Prisma.ScheduleFireUpdateManyWithoutWorkflowNestedInput
+  eventCursors?: Prisma.EventCursorUpdateManyWithoutWorkflowNestedInput
+  priceWatch?: Prisma.PriceWatchUpdateOneWithoutWorkflowNestedInput
+  webhookEndpoint?: Prisma.WebhookEndpointUpdateOneWithoutWorkflowNestedInput
+}
+
+export type WorkflowUncheckedUpdateWithoutVersionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  promptId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggerType?: Prisma.StringFieldUpdateOperationsInput | string
+  cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  onChainWorkflows?: Prisma.OnChainWorkflowUncheckedUpdateManyWithoutWorkflowNestedInput
+  runs?: Prisma.WorkflowRunUncheckedUpdateManyWithoutWorkflowNestedInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedUpdateManyWithoutWorkflowNestedInput
+  scheduleFires?: Prisma.ScheduleFireUncheckedUpdateManyWithoutWorkflowNestedInput
+  eventCursors?: Prisma.EventCursorUncheckedUpdateManyWithoutWorkflowNestedInput
+  priceWatch?: Prisma.PriceWatchUncheckedUpdateOneWithoutWorkflowNestedInput
+  webhookEndpoint?: Prisma.WebhookEndpointUncheckedUpdateOneWithoutWorkflowNestedInput
+}
+
+export type WorkflowCreateWithoutOnChainWorkflowsInput = {
+  id?: string
+  name?: string
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
+  executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
+  isActive?: boolean
+  triggerType?: string
+  cronExpression?: string | null
+  timezone?: string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutWorkflowsInput
+  prompt?: Prisma.PromptCreateNestedOneWithoutWorkflowInput
+  versions?: Prisma.WorkflowVersionCreateNestedManyWithoutWorkflowInput
+  runs?: Prisma.WorkflowRunCreateNestedManyWithoutWorkflowInput
+  resumptions?: Prisma.WorkflowResumptionCreateNestedManyWithoutWorkflowInput
+  scheduleFires?: Prisma.ScheduleFireCreateNestedManyWithoutWorkflowInput
+  eventCursors?: Prisma.EventCursorCreateNestedManyWithoutWorkflowInput
+  priceWatch?: Prisma.PriceWatchCreateNestedOneWithoutWorkflowInput
+  webhookEndpoint?: Prisma.WebhookEndpointCreateNestedOneWithoutWorkflowInput
+}
+
+export type WorkflowUncheckedCreateWithoutOnChainWorkflowsInput = {
+  id?: string
+  userId: string
+  name?: string
+  promptId?: string | null
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
+  executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
+  isActive?: boolean
+  triggerType?: string
+  cronExpression?: string | null
+  timezone?: string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  versions?: Prisma.WorkflowVersionUncheckedCreateNestedManyWithoutWorkflowInput
+  runs?: Prisma.WorkflowRunUncheckedCreateNestedManyWithoutWorkflowInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedCreateNestedManyWithoutWorkflowInput
+  scheduleFires?: Prisma.ScheduleFireUncheckedCreateNestedManyWithoutWorkflowInput
+  eventCursors?: Prisma.EventCursorUncheckedCreateNestedManyWithoutWorkflowInput
+  priceWatch?: Prisma.PriceWatchUncheckedCreateNestedOneWithoutWorkflowInput
+  webhookEndpoint?: Prisma.WebhookEndpointUncheckedCreateNestedOneWithoutWorkflowInput
+}
+
+export type WorkflowCreateOrConnectWithoutOnChainWorkflowsInput = {
+  where: Prisma.WorkflowWhereUniqueInput
+  create: Prisma.XOR<Prisma.WorkflowCreateWithoutOnChainWorkflowsInput, Prisma.WorkflowUncheckedCreateWithoutOnChainWorkflowsInput>
+}
+
+export type WorkflowUpsertWithoutOnChainWorkflowsInput = {
+  update: Prisma.XOR<Prisma.WorkflowUpdateWithoutOnChainWorkflowsInput, Prisma.WorkflowUncheckedUpdateWithoutOnChainWorkflowsInput>
+  create: Prisma.XOR<Prisma.WorkflowCreateWithoutOnChainWorkflowsInput, Prisma.WorkflowUncheckedCreateWithoutOnChainWorkflowsInput>
+  where?: Prisma.WorkflowWhereInput
+}
+
+export type WorkflowUpdateToOneWithWhereWithoutOnChainWorkflowsInput = {
+  where?: Prisma.WorkflowWhereInput
+  data: Prisma.XOR<Prisma.WorkflowUpdateWithoutOnChainWorkflowsInput, Prisma.WorkflowUncheckedUpdateWithoutOnChainWorkflowsInput>
+}
+
+export type WorkflowUpdateWithoutOnChainWorkflowsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggerType?: Prisma.StringFieldUpdateOperationsInput | string
+  cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutWorkflowsNestedInput
+  prompt?: Prisma.PromptUpdateOneWithoutWorkflowNestedInput
+  versions?: Prisma.WorkflowVersionUpdateManyWithoutWorkflowNestedInput
+  runs?: Prisma.WorkflowRunUpdateManyWithoutWorkflowNestedInput
+  resumptions?: Prisma.WorkflowResumptionUpdateManyWithoutWorkflowNestedInput
+  scheduleFires?: Prisma.ScheduleFireUpdateManyWithoutWorkflowNestedInput
+  eventCursors?: Prisma.EventCursorUpdateManyWithoutWorkflowNestedInput
+  priceWatch?: Prisma.PriceWatchUpdateOneWithoutWorkflowNestedInput
+  webhookEndpoint?: Prisma.WebhookEndpointUpdateOneWithoutWorkflowNestedInput
+}
+
+export type WorkflowUncheckedUpdateWithoutOnChainWorkflowsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  promptId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggerType?: Prisma.StringFieldUpdateOperationsInput | string
+  cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  versions?: Prisma.WorkflowVersionUncheckedUpdateManyWithoutWorkflowNestedInput
+  runs?: Prisma.WorkflowRunUncheckedUpdateManyWithoutWorkflowNestedInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedUpdateManyWithoutWorkflowNestedInput
+  scheduleFires?: Prisma.ScheduleFireUncheckedUpdateManyWithoutWorkflowNestedInput
+  eventCursors?: Prisma.EventCursorUncheckedUpdateManyWithoutWorkflowNestedInput
+  priceWatch?: Prisma.PriceWatchUncheckedUpdateOneWithoutWorkflowNestedInput
+  webhookEndpoint?: Prisma.WebhookEndpointUncheckedUpdateOneWithoutWorkflowNestedInput
+}
+
+export type WorkflowCreateWithoutRunsInput = {
+  id?: string
+  name?: string
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
+  executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
+  isActive?: boolean
+  triggerType?: string
+  cronExpression?: string | null
+  timezone?: string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutWorkflowsInput
+  prompt?: Prisma.PromptCreateNestedOneWithoutWorkflowInput
+  onChainWorkflows?: Prisma.OnChainWorkflowCreateNestedManyWithoutWorkflowInput
+  versions?: Prisma.WorkflowVersionCreateNestedManyWithoutWorkflowInput
+  resumptions?: Prisma.WorkflowResumptionCreateNestedManyWithoutWorkflowInput
+  scheduleFires?: Prisma.ScheduleFireCreateNestedManyWithoutWorkflowInput
+  eventCursors?: Prisma.EventCursorCreateNestedManyWithoutWorkflowInput
+  priceWatch?: Prisma.PriceWatchCreateNestedOneWithoutWorkflowInput
+  webhookEndpoint?: Prisma.WebhookEndpointCreateNestedOneWithoutWorkflowInput
+}
+
+export type WorkflowUncheckedCreateWithoutRunsInput = {
+  id?: string
+  userId: string
+  name?: string
+  promptId?: string | null
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
+  executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
+  isActive?: boolean
+  triggerType?: string
+  cronExpression?: string | null
+  timezone?: string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  onChainWorkflows?: Prisma.OnChainWorkflowUncheckedCreateNestedManyWithoutWorkflowInput
+  versions?: Prisma.WorkflowVersionUncheckedCreateNestedManyWithoutWorkflowInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedCreateNestedManyWithoutWorkflowInput
+  scheduleFires?: Prisma.ScheduleFireUncheckedCreateNestedManyWithoutWorkflowInput
+  eventCursors?: Prisma.EventCursorUncheckedCreateNestedManyWithoutWorkflowInput
+  priceWatch?: Prisma.PriceWatchUncheckedCreateNestedOneWithoutWorkflowInput
+  webhookEndpoint?: Prisma.WebhookEndpointUncheckedCreateNestedOneWithoutWorkflowInput
+}
+
+export type WorkflowCreateOrConnectWithoutRunsInput = {
+  where: Prisma.WorkflowWhereUniqueInput
+  create: Prisma.XOR<Prisma.WorkflowCreateWithoutRunsInput, Prisma.WorkflowUncheckedCreateWithoutRunsInput>
+}
+
+export type WorkflowUpsertWithoutRunsInput = {
+  update: Prisma.XOR<Prisma.WorkflowUpdateWithoutRunsInput, Prisma.WorkflowUncheckedUpdateWithoutRunsInput>
+  create: Prisma.XOR<Prisma.WorkflowCreateWithoutRunsInput, Prisma.WorkflowUncheckedCreateWithoutRunsInput>
+  where?: Prisma.WorkflowWhereInput
+}
+
+export type WorkflowUpdateToOneWithWhereWithoutRunsInput = {
+  where?: Prisma.WorkflowWhereInput
+  data: Prisma.XOR<Prisma.WorkflowUpdateWithoutRunsInput, Prisma.WorkflowUncheckedUpdateWithoutRunsInput>
+}
+
+export type WorkflowUpdateWithoutRunsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggerType?: Prisma.StringFieldUpdateOperationsInput | string
+  cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutWorkflowsNestedInput
+  prompt?: Prisma.PromptUpdateOneWithoutWorkflowNestedInput
+  onChainWorkflows?: Prisma.OnChainWorkflowUpdateManyWithoutWorkflowNestedInput
+  versions?: Prisma.WorkflowVersionUpdateManyWithoutWorkflowNestedInput
+  resumptions?: Prisma.WorkflowResumptionUpdateManyWithoutWorkflowNestedInput
+  scheduleFires?: Prisma.ScheduleFireUpdateManyWithoutWorkflowNestedInput
+  eventCursors?: Prisma.EventCursorUpdateManyWithoutWorkflowNestedInput
+  priceWatch?: Prisma.PriceWatchUpdateOneWithoutWorkflowNestedInput
+  webhookEndpoint?: Prisma.WebhookEndpointUpdateOneWithoutWorkflowNestedInput
+}
+
+export type WorkflowUncheckedUpdateWithoutRunsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  promptId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggerType?: Prisma.StringFieldUpdateOperationsInput | string
+  cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  onChainWorkflows?: Prisma.OnChainWorkflowUncheckedUpdateManyWithoutWorkflowNestedInput
+  versions?: Prisma.WorkflowVersionUncheckedUpdateManyWithoutWorkflowNestedInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedUpdateManyWithoutWorkflowNestedInput
+  scheduleFires?: Prisma.ScheduleFireUncheckedUpdateManyWithoutWorkflowNestedInput
+  eventCursors?: Prisma.EventCursorUncheckedUpdateManyWithoutWorkflowNestedInput
+  priceWatch?: Prisma.PriceWatchUncheckedUpdateOneWithoutWorkflowNestedInput
+  webhookEndpoint?: Prisma.WebhookEndpointUncheckedUpdateOneWithoutWorkflowNestedInput
+}
+
+export type WorkflowCreateWithoutResumptionsInput = {
+  id?: string
+  name?: string
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
+  executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
+  isActive?: boolean
+  triggerType?: string
+  cronExpression?: string | null
+  timezone?: string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutWorkflowsInput
+  prompt?: Prisma.PromptCreateNestedOneWithoutWorkflowInput
+  onChainWorkflows?: Prisma.OnChainWorkflowCreateNestedManyWithoutWorkflowInput
+  versions?: Prisma.WorkflowVersionCreateNestedManyWithoutWorkflowInput
+  runs?: Prisma.WorkflowRunCreateNestedManyWithoutWorkflowInput
+  scheduleFires?: Prisma.ScheduleFireCreateNestedManyWithoutWorkflowInput
+  eventCursors?: Prisma.EventCursorCreateNestedManyWithoutWorkflowInput
+  priceWatch?: Prisma.PriceWatchCreateNestedOneWithoutWorkflowInput
+  webhookEndpoint?: Prisma.WebhookEndpointCreateNestedOneWithoutWorkflowInput
+}
+
+export type WorkflowUncheckedCreateWithoutResumptionsInput = {
+  id?: string
+  userId: string
+  name?: string
+  promptId?: string | null
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
+  executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
+  isActive?: boolean
+  triggerType?: string
+  cronExpression?: string | null
+  timezone?: string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  onChainWorkflows?: Prisma.OnChainWorkflowUncheckedCreateNestedManyWithoutWorkflowInput
+  versions?: Prisma.WorkflowVersionUncheckedCreateNestedManyWithoutWorkflowInput
+  runs?: Prisma.WorkflowRunUncheckedCreateNestedManyWithoutWorkflowInput
+  scheduleFires?: Prisma.ScheduleFireUncheckedCreateNestedManyWithoutWorkflowInput
+  eventCursors?: Prisma.EventCursorUncheckedCreateNestedManyWithoutWorkflowInput
+  priceWatch?: Prisma.PriceWatchUncheckedCreateNestedOneWithoutWorkflowInput
+  webhookEndpoint?: Prisma.WebhookEndpointUncheckedCreateNestedOneWithoutWorkflowInput
+}
+
+export type WorkflowCreateOrConnectWithoutResumptionsInput = {
+  where: Prisma.WorkflowWhereUniqueInput
+  create: Prisma.XOR<Prisma.WorkflowCreateWithoutResumptionsInput, Prisma.WorkflowUncheckedCreateWithoutResumptionsInput>
+}
+
+export type WorkflowUpsertWithoutResumptionsInput = {
+  update: Prisma.XOR<Prisma.WorkflowUpdateWithoutResumptionsInput, Prisma.WorkflowUncheckedUpdateWithoutResumptionsInput>
+  create: Prisma.XOR<Prisma.WorkflowCreateWithoutResumptionsInput, Prisma.WorkflowUncheckedCreateWithoutResumptionsInput>
+  where?: Prisma.WorkflowWhereInput
+}
+
+export type WorkflowUpdateToOneWithWhereWithoutResumptionsInput = {
+  where?: Prisma.WorkflowWhereInput
+  data: Prisma.XOR<Prisma.WorkflowUpdateWithoutResumptionsInput, Prisma.WorkflowUncheckedUpdateWithoutResumptionsInput>
+}
+
+export type WorkflowUpdateWithoutResumptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggerType?: Prisma.StringFieldUpdateOperationsInput | string
+  cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutWorkflowsNestedInput
+  prompt?: Prisma.PromptUpdateOneWithoutWorkflowNestedInput
+  onChainWorkflows?: Prisma.OnChainWorkflowUpdateManyWithoutWorkflowNestedInput
+  versions?: Prisma.WorkflowVersionUpdateManyWithoutWorkflowNestedInput
+  runs?: Prisma.WorkflowRunUpdateManyWithoutWorkflowNestedInput
+  scheduleFires?: Prisma.ScheduleFireUpdateManyWithoutWorkflowNestedInput
+  eventCursors?: Prisma.EventCursorUpdateManyWithoutWorkflowNestedInput
+  priceWatch?: Prisma.PriceWatchUpdateOneWithoutWorkflowNestedInput
+  webhookEndpoint?: Prisma.WebhookEndpointUpdateOneWithoutWorkflowNestedInput
+}
+
+export type WorkflowUncheckedUpdateWithoutResumptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  promptId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggerType?: Prisma.StringFieldUpdateOperationsInput | string
+  cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  onChainWorkflows?: Prisma.OnChainWorkflowUncheckedUpdateManyWithoutWorkflowNestedInput
+  versions?: Prisma.WorkflowVersionUncheckedUpdateManyWithoutWorkflowNestedInput
+  runs?: Prisma.WorkflowRunUncheckedUpdateManyWithoutWorkflowNestedInput
+  scheduleFires?: Prisma.ScheduleFireUncheckedUpdateManyWithoutWorkflowNestedInput
+  eventCursors?: Prisma.EventCursorUncheckedUpdateManyWithoutWorkflowNestedInput
+  priceWatch?: Prisma.PriceWatchUncheckedUpdateOneWithoutWorkflowNestedInput
+  webhookEndpoint?: Prisma.WebhookEndpointUncheckedUpdateOneWithoutWorkflowNestedInput
+}
+
+export type WorkflowCreateWithoutScheduleFiresInput = {
+  id?: string
+  name?: string
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
+  executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
+  isActive?: boolean
+  triggerType?: string
+  cronExpression?: string | null
+  timezone?: string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutWorkflowsInput
+  prompt?: Prisma.PromptCreateNestedOneWithoutWorkflowInput
+  onChainWorkflows?: Prisma.OnChainWorkflowCreateNestedManyWithoutWorkflowInput
+  versions?: Prisma.WorkflowVersionCreateNestedManyWithoutWorkflowInput
+  runs?: Prisma.WorkflowRunCreateNestedManyWithoutWorkflowInput
+  resumptions?: Prisma.WorkflowResumptionCreateNestedManyWithoutWorkflowInput
+  eventCursors?: Prisma.EventCursorCreateNestedManyWithoutWorkflowInput
+  priceWatch?: Prisma.PriceWatchCreateNestedOneWithoutWorkflowInput
+  webhookEndpoint?: Prisma.WebhookEndpointCreateNestedOneWithoutWorkflowInput
+}
+
+export type WorkflowUncheckedCreateWithoutScheduleFiresInput = {
+  id?: string
+  userId: string
+  name?: string
+  promptId?: string | null
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
+  executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
+  isActive?: boolean
+  triggerType?: string
+  cronExpression?: string | null
+  timezone?: string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  onChainWorkflows?: Prisma.OnChainWorkflowUncheckedCreateNestedManyWithoutWorkflowInput
+  versions?: Prisma.WorkflowVersionUncheckedCreateNestedManyWithoutWorkflowInput
+  runs?: Prisma.WorkflowRunUncheckedCreateNestedManyWithoutWorkflowInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedCreateNestedManyWithoutWorkflowInput
+  eventCursors?: Prisma.EventCursorUncheckedCreateNestedManyWithoutWorkflowInput
+  priceWatch?: Prisma.PriceWatchUncheckedCreateNestedOneWithoutWorkflowInput
+  webhookEndpoint?: Prisma.WebhookEndpointUncheckedCreateNestedOneWithoutWorkflowInput
+}
+
+export type WorkflowCreateOrConnectWithoutScheduleFiresInput = {
+  where: Prisma.WorkflowWhereUniqueInput
+  create: Prisma.XOR<Prisma.WorkflowCreateWithoutScheduleFiresInput, Prisma.WorkflowUncheckedCreateWithoutScheduleFiresInput>
+}
+
+export type WorkflowUpsertWithoutScheduleFiresInput = {
+  update: Prisma.XOR<Prisma.WorkflowUpdateWithoutScheduleFiresInput, Prisma.WorkflowUncheckedUpdateWithoutScheduleFiresInput>
+  create: Prisma.XOR<Prisma.WorkflowCreateWithoutScheduleFiresInput, Prisma.WorkflowUncheckedCreateWithoutScheduleFiresInput>
+  where?: Prisma.WorkflowWhereInput
+}
+
+export type WorkflowUpdateToOneWithWhereWithoutScheduleFiresInput = {
+  where?: Prisma.WorkflowWhereInput
+  data: Prisma.XOR<Prisma.WorkflowUpdateWithoutScheduleFiresInput, Prisma.WorkflowUncheckedUpdateWithoutScheduleFiresInput>
+}
+
+export type WorkflowUpdateWithoutScheduleFiresInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggerType?: Prisma.StringFieldUpdateOperationsInput | string
+  cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutWorkflowsNestedInput
+  prompt?: Prisma.PromptUpdateOneWithoutWorkflowNestedInput
+  onChainWorkflows?: Prisma.OnChainWorkflowUpdateManyWithoutWorkflowNestedInput
+  versions?: Prisma.WorkflowVersionUpdateManyWithoutWorkflowNestedInput
+  runs?: Prisma.WorkflowRunUpdateManyWithoutWorkflowNestedInput
+  resumptions?: Prisma.WorkflowResumptionUpdateManyWithoutWorkflowNestedInput
+  eventCursors?: Prisma.EventCursorUpdateManyWithoutWorkflowNestedInput
+  priceWatch?: Prisma.PriceWatchUpdateOneWithoutWorkflowNestedInput
+  webhookEndpoint?: Prisma.WebhookEndpointUpdateOneWithoutWorkflowNestedInput
+}
+
+export type WorkflowUncheckedUpdateWithoutScheduleFiresInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  promptId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggerType?: Prisma.StringFieldUpdateOperationsInput | string
+  cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  onChainWorkflows?: Prisma.OnChainWorkflowUncheckedUpdateManyWithoutWorkflowNestedInput
+  versions?: Prisma.WorkflowVersionUncheckedUpdateManyWithoutWorkflowNestedInput
+  runs?: Prisma.WorkflowRunUncheckedUpdateManyWithoutWorkflowNestedInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedUpdateManyWithoutWorkflowNestedInput
+  eventCursors?: Prisma.EventCursorUncheckedUpdateManyWithoutWorkflowNestedInput
+  priceWatch?: Prisma.PriceWatchUncheckedUpdateOneWithoutWorkflowNestedInput
+  webhookEndpoint?: Prisma.WebhookEndpointUncheckedUpdateOneWithoutWorkflowNestedInput
+}
+
+export type WorkflowCreateWithoutEventCursorsInput = {
+  id?: string
+  name?: string
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
+  executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
+  isActive?: boolean
+  triggerType?: string
+  cronExpression?: string | null
+  timezone?: string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutWorkflowsInput
+  prompt?: Prisma.PromptCreateNestedOneWithoutWorkflowInput
+  onChainWorkflows?: Prisma.OnChainWorkflowCreateNestedManyWithoutWorkflowInput
+  versions?: Prisma.WorkflowVersionCreateNestedManyWithoutWorkflowInput
+  runs?: Prisma.WorkflowRunCreateNestedManyWithoutWorkflowInput
+  resumptions?: Prisma.WorkflowResumptionCreateNestedManyWithoutWorkflowInput
+  scheduleFires?: Prisma.ScheduleFireCreateNestedManyWithoutWorkflowInput
+  priceWatch?: Prisma.PriceWatchCreateNestedOneWithoutWorkflowInput
+  webhookEndpoint?: Prisma.WebhookEndpointCreateNestedOneWithoutWorkflowInput
+}
+
+export type WorkflowUncheckedCreateWithoutEventCursorsInput = {
+  id?: string
+  userId: string
+  name?: string
+  promptId?: string | null
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
+  executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
+  isActive?: boolean
+  triggerType?: string
+  cronExpression?: string | null
+  timezone?: string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  onChainWorkflows?: Prisma.OnChainWorkflowUncheckedCreateNestedManyWithoutWorkflowInput
+  versions?: Prisma.WorkflowVersionUncheckedCreateNestedManyWithoutWorkflowInput
+  runs?: Prisma.WorkflowRunUncheckedCreateNestedManyWithoutWorkflowInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedCreateNestedManyWithoutWorkflowInput
+  scheduleFires?: Prisma.ScheduleFireUncheckedCreateNestedManyWithoutWorkflowInput
+  priceWatch?: Prisma.PriceWatchUncheckedCreateNestedOneWithoutWorkflowInput
+  webhookEndpoint?: Prisma.WebhookEndpointUncheckedCreateNestedOneWithoutWorkflowInput
+}
+
+export type WorkflowCreateOrConnectWithoutEventCursorsInput = {
+  where: Prisma.WorkflowWhereUniqueInput
+  create: Prisma.XOR<Prisma.WorkflowCreateWithoutEventCursorsInput, Prisma.WorkflowUncheckedCreateWithoutEventCursorsInput>
+}
+
+export type WorkflowUpsertWithoutEventCursorsInput = {
+  update: Prisma.XOR<Prisma.WorkflowUpdateWithoutEventCursorsInput, Prisma.WorkflowUncheckedUpdateWithoutEventCursorsInput>
+  create: Prisma.XOR<Prisma.WorkflowCreateWithoutEventCursorsInput, Prisma.WorkflowUncheckedCreateWithoutEventCursorsInput>
+  where?: Prisma.WorkflowWhereInput
+}
+
+export type WorkflowUpdateToOneWithWhereWithoutEventCursorsInput = {
+  where?: Prisma.WorkflowWhereInput
+  data: Prisma.XOR<Prisma.WorkflowUpdateWithoutEventCursorsInput, Prisma.WorkflowUncheckedUpdateWithoutEventCursorsInput>
+}
+
+export type WorkflowUpdateWithoutEventCursorsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggerType?: Prisma.StringFieldUpdateOperationsInput | string
+  cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutWorkflowsNestedInput
+  prompt?: Prisma.PromptUpdateOneWithoutWorkflowNestedInput
+  onChainWorkflows?: Prisma.OnChainWorkflowUpdateManyWithoutWorkflowNestedInput
+  versions?: Prisma.WorkflowVersionUpdateManyWithoutWorkflowNestedInput
+  runs?: Prisma.WorkflowRunUpdateManyWithoutWorkflowNestedInput
+  resumptions?: Prisma.WorkflowResumptionUpdateManyWithoutWorkflowNestedInput
+  scheduleFires?: Prisma.ScheduleFireUpdateManyWithoutWorkflowNestedInput
+  priceWatch?: Prisma.PriceWatchUpdateOneWithoutWorkflowNestedInput
+  webhookEndpoint?: Prisma.WebhookEndpointUpdateOneWithoutWorkflowNestedInput
+}
+
+export type WorkflowUncheckedUpdateWithoutEventCursorsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  promptId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggerType?: Prisma.StringFieldUpdateOperationsInput | string
+  cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  onChainWorkflows?: Prisma.OnChainWorkflowUncheckedUpdateManyWithoutWorkflowNestedInput
+  versions?: Prisma.WorkflowVersionUncheckedUpdateManyWithoutWorkflowNestedInput
+  runs?: Prisma.WorkflowRunUncheckedUpdateManyWithoutWorkflowNestedInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedUpdateManyWithoutWorkflowNestedInput
+  scheduleFires?: Prisma.ScheduleFireUncheckedUpdateManyWithoutWorkflowNestedInput
+  priceWatch?: Prisma.PriceWatchUncheckedUpdateOneWithoutWorkflowNestedInput
+  webhookEndpoint?: Prisma.WebhookEndpointUncheckedUpdateOneWithoutWorkflowNestedInput
+}
+
+export type WorkflowCreateWithoutPriceWatchInput = {
+  id?: string
+  name?: string
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
+  executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
+  isActive?: boolean
+  triggerType?: string
+  cronExpression?: string | null
+  timezone?: string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutWorkflowsInput
+  prompt?: Prisma.PromptCreateNestedOneWithoutWorkflowInput
+  onChainWorkflows?: Prisma.OnChainWorkflowCreateNestedManyWithoutWorkflowInput
+  versions?: Prisma.WorkflowVersionCreateNestedManyWithoutWorkflowInput
+  runs?: Prisma.WorkflowRunCreateNestedManyWithoutWorkflowInput
+  resumptions?: Prisma.WorkflowResumptionCreateNestedManyWithoutWorkflowInput
+  scheduleFires?: Prisma.ScheduleFireCreateNestedManyWithoutWorkflowInput
+  eventCursors?: Prisma.EventCursorCreateNestedManyWithoutWorkflowInput
+  webhookEndpoint?: Prisma.WebhookEndpointCreateNestedOneWithoutWorkflowInput
+}
+
+export type WorkflowUncheckedCreateWithoutPriceWatchInput = {
+  id?: string
+  userId: string
+  name?: string
+  promptId?: string | null
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
+  executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
+  isActive?: boolean
+  triggerType?: string
+  cronExpression?: string | null
+  timezone?: string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  onChainWorkflows?: Prisma.OnChainWorkflowUncheckedCreateNestedManyWithoutWorkflowInput
+  versions?: Prisma.WorkflowVersionUncheckedCreateNestedManyWithoutWorkflowInput
+  runs?: Prisma.WorkflowRunUncheckedCreateNestedManyWithoutWorkflowInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedCreateNestedManyWithoutWorkflowInput
+  scheduleFires?: Prisma.ScheduleFireUncheckedCreateNestedManyWithoutWorkflowInput
+  eventCursors?: Prisma.EventCursorUncheckedCreateNestedManyWithoutWorkflowInput
+  webhookEndpoint?: Prisma.WebhookEndpointUncheckedCreateNestedOneWithoutWorkflowInput
+}
+
+export type WorkflowCreateOrConnectWithoutPriceWatchInput = {
+  where: Prisma.WorkflowWhereUniqueInput
+  create: Prisma.XOR<Prisma.WorkflowCreateWithoutPriceWatchInput, Prisma.WorkflowUncheckedCreateWithoutPriceWatchInput>
 }
 
-export type WorkflowUpdateOneWithoutPromptNestedInput = {
-  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutPromptInput, Prisma.WorkflowUncheckedCreateWithoutPromptInput>
-  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutPromptInput
-  upsert?: Prisma.WorkflowUpsertWithoutPromptInput
-  disconnect?: Prisma.WorkflowWhereInput | boolean
-  delete?: Prisma.WorkflowWhereInput | boolean
-  connect?: Prisma.WorkflowWhereUniqueInput
-  update?: Prisma.XOR<Prisma.XOR<Prisma.WorkflowUpdateToOneWithWhereWithoutPromptInput, Prisma.WorkflowUpdateWithoutPromptInput>, Prisma.WorkflowUncheckedUpdateWithoutPromptInput>
+export type WorkflowUpsertWithoutPriceWatchInput = {
+  update: Prisma.XOR<Prisma.WorkflowUpdateWithoutPriceWatchInput, Prisma.WorkflowUncheckedUpdateWithoutPriceWatchInput>
+  create: Prisma.XOR<Prisma.WorkflowCreateWithoutPriceWatchInput, Prisma.WorkflowUncheckedCreateWithoutPriceWatchInput>
+  where?: Prisma.WorkflowWhereInput
 }
 
-export type WorkflowUncheckedUpdateOneWithoutPromptNestedInput = {
-  create?: Prisma.XOR<Prisma.WorkflowCreateWithoutPromptInput, Prisma.WorkflowUncheckedCreateWithoutPromptInput>
-  connectOrCreate?: Prisma.WorkflowCreateOrConnectWithoutPromptInput
-  upsert?: Prisma.WorkflowUpsertWithoutPromptInput
-  disconnect?: Prisma.WorkflowWhereInput | boolean
-  delete?: Prisma.WorkflowWhereInput | boolean
-  connect?: Prisma.WorkflowWhereUniqueInput
-  update?: Prisma.XOR<Prisma.XOR<Prisma.WorkflowUpdateToOneWithWhereWithoutPromptInput, Prisma.WorkflowUpdateWithoutPromptInput>, Prisma.WorkflowUncheckedUpdateWithoutPromptInput>
+export type WorkflowUpdateToOneWithWhereWithoutPriceWatchInput = {
+  where?: Prisma.WorkflowWhereInput
+  data: Prisma.XOR<Prisma.WorkflowUpdateWithoutPriceWatchInput, Prisma.WorkflowUncheckedUpdateWithoutPriceWatchInput>
 }
 
-export type EnumExecutionStatusFieldUpdateOperationsInput = {
-  set?: $Enums.ExecutionStatus
+export type WorkflowUpdateWithoutPriceWatchInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggerType?: Prisma.StringFieldUpdateOperationsInput | string
+  cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutWorkflowsNestedInput
+  prompt?: Prisma.PromptUpdateOneWithoutWorkflowNestedInput
+  onChainWorkflows?: Prisma.OnChainWorkflowUpdateManyWithoutWorkflowNestedInput
+  versions?: Prisma.WorkflowVersionUpdateManyWithoutWorkflowNestedInput
+  runs?: Prisma.WorkflowRunUpdateManyWithoutWorkflowNestedInput
+  resumptions?: Prisma.WorkflowResumptionUpdateManyWithoutWorkflowNestedInput
+  scheduleFires?: Prisma.ScheduleFireUpdateManyWithoutWorkflowNestedInput
+  eventCursors?: Prisma.EventCursorUpdateManyWithoutWorkflowNestedInput
+  webhookEndpoint?: Prisma.WebhookEndpointUpdateOneWithoutWorkflowNestedInput
 }
 
-export type BoolFieldUpdateOperationsInput = {
-  set?: boolean
+export type WorkflowUncheckedUpdateWithoutPriceWatchInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  promptId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggerType?: Prisma.StringFieldUpdateOperationsInput | string
+  cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  onChainWorkflows?: Prisma.OnChainWorkflowUncheckedUpdateManyWithoutWorkflowNestedInput
+  versions?: Prisma.WorkflowVersionUncheckedUpdateManyWithoutWorkflowNestedInput
+  runs?: Prisma.WorkflowRunUncheckedUpdateManyWithoutWorkflowNestedInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedUpdateManyWithoutWorkflowNestedInput
+  scheduleFires?: Prisma.ScheduleFireUncheckedUpdateManyWithoutWorkflowNestedInput
+  eventCursors?: Prisma.EventCursorUncheckedUpdateManyWithoutWorkflowNestedInput
+  webhookEndpoint?: Prisma.WebhookEndpointUncheckedUpdateOneWithoutWorkflowNestedInput
 }
 
-export type WorkflowCreateWithoutPromptInput = {
+export type WorkflowCreateWithoutWebhookEndpointInput = {
   id?: string
+  name?: string
   workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
   executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
   isActive?: boolean
   triggerType?: string
   cronExpression?: string | null
+  timezone?: string
   triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutWorkflowsInput
+  prompt?: Prisma.PromptCreateNestedOneWithoutWorkflowInput
+  onChainWorkflows?: Prisma.OnChainWorkflowCreateNestedManyWithoutWorkflowInput
+  versions?: Prisma.WorkflowVersionCreateNestedManyWithoutWorkflowInput
+  runs?: Prisma.WorkflowRunCreateNestedManyWithoutWorkflowInput
+  resumptions?: Prisma.WorkflowResumptionCreateNestedManyWithoutWorkflowInput
+  scheduleFires?: Prisma.ScheduleFireCreateNestedManyWithoutWorkflowInput
+  eventCursors?: Prisma.EventCursorCreateNestedManyWithoutWorkflowInput
+  priceWatch?: Prisma.PriceWatchCreateNestedOneWithoutWorkflowInput
 }
 
-export type WorkflowUncheckedCreateWithoutPromptInput = {
+export type WorkflowUncheckedCreateWithoutWebhookEndpointInput = {
   id?: string
+  userId: string
+  name?: string
+  promptId?: string | null
   workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
   executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
   isActive?: boolean
   triggerType?: string
   cronExpression?: string | null
+  timezone?: string
   triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  onChainWorkflows?: Prisma.OnChainWorkflowUncheckedCreateNestedManyWithoutWorkflowInput
+  versions?: Prisma.WorkflowVersionUncheckedCreateNestedManyWithoutWorkflowInput
+  runs?: Prisma.WorkflowRunUncheckedCreateNestedManyWithoutWorkflowInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedCreateNestedManyWithoutWorkflowInput
+  scheduleFires?: Prisma.ScheduleFireUncheckedCreateNestedManyWithoutWorkflowInput
+  eventCursors?: Prisma.EventCursorUncheckedCreateNestedManyWithoutWorkflowInput
+  priceWatch?: Prisma.PriceWatchUncheckedCreateNestedOneWithoutWorkflowInput
 }
 
-export type WorkflowCreateOrConnectWithoutPromptInput = {
+export type WorkflowCreateOrConnectWithoutWebhookEndpointInput = {
   where: Prisma.WorkflowWhereUniqueInput
-  create: Prisma.XOR<Prisma.WorkflowCreateWithoutPromptInput, Prisma.WorkflowUncheckedCreateWithoutPromptInput>
+  create: Prisma.XOR<Prisma.WorkflowCreateWithoutWebhookEndpointInput, Prisma.WorkflowUncheckedCreateWithoutWebhookEndpointInput>
 }
 
-export type WorkflowUpsertWithoutPromptInput = {
-  update: Prisma.XOR<Prisma.WorkflowUpdateWithoutPromptInput, Prisma.WorkflowUncheckedUpdateWithoutPromptInput>
-  create: Prisma.XOR<Prisma.WorkflowCreateWithoutPromptInput, Prisma.WorkflowUncheckedCreateWithoutPromptInput>
+export type WorkflowUpsertWithoutWebhookEndpointInput = {
+  update: Prisma.XOR<Prisma.WorkflowUpdateWithoutWebhookEndpointInput, Prisma.WorkflowUncheckedUpdateWithoutWebhookEndpointInput>
+  create: Prisma.XOR<Prisma.WorkflowCreateWithoutWebhookEndpointInput, Prisma.WorkflowUncheckedCreateWithoutWebhookEndpointInput>
   where?: Prisma.WorkflowWhereInput
 }
 
-export type WorkflowUpdateToOneWithWhereWithoutPromptInput = {
+export type WorkflowUpdateToOneWithWhereWithoutWebhookEndpointInput = {
   where?: Prisma.WorkflowWhereInput
-  data: Prisma.XOR<Prisma.WorkflowUpdateWithoutPromptInput, Prisma.WorkflowUncheckedUpdateWithoutPromptInput>
+  data: Prisma.XOR<Prisma.WorkflowUpdateWithoutWebhookEndpointInput, Prisma.WorkflowUncheckedUpdateWithoutWebhookEndpointInput>
 }
 
-export type WorkflowUpdateWithoutPromptInput = {
+export type WorkflowUpdateWithoutWebhookEndpointInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
   workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   triggerType?: Prisma.StringFieldUpdateOperationsInput | string
   cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
   triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutWorkflowsNestedInput
+  prompt?: Prisma.PromptUpdateOneWithoutWorkflowNestedInput
+  onChainWorkflows?: Prisma.OnChainWorkflowUpdateManyWithoutWorkflowNestedInput
+  versions?: Prisma.WorkflowVersionUpdateManyWithoutWorkflowNestedInput
+  runs?: Prisma.WorkflowRunUpdateManyWithoutWorkflowNestedInput
+  resumptions?: Prisma.WorkflowResumptionUpdateManyWithoutWorkflowNestedInput
+  scheduleFires?: Prisma.ScheduleFireUpdateManyWithoutWorkflowNestedInput
+  eventCursors?: Prisma.EventCursorUpdateManyWithoutWorkflowNestedInput
+  priceWatch?: Prisma.PriceWatchUpdateOneWithoutWorkflowNestedInput
 }
 
-export type WorkflowUncheckedUpdateWithoutPromptInput = {
+export type WorkflowUncheckedUpdateWithoutWebhookEndpointInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  promptId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   triggerType?: Prisma.StringFieldUpdateOperationsInput | string
   cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
   triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  onChainWorkflows?: Prisma.OnChainWorkflowUncheckedUpdateManyWithoutWorkflowNestedInput
+  versions?: Prisma.WorkflowVersionUncheckedUpdateManyWithoutWorkflowNestedInput
+  runs?: Prisma.WorkflowRunUncheckedUpdateManyWithoutWorkflowNestedInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedUpdateManyWithoutWorkflowNestedInput
+  scheduleFires?: Prisma.ScheduleFireUncheckedUpdateManyWithoutWorkflowNestedInput
+  eventCursors?: Prisma.EventCursorUncheckedUpdateManyWithoutWorkflowNestedInput
+  priceWatch?: Prisma.PriceWatchUncheckedUpdateOneWithoutWorkflowNestedInput
+}
+
+export type WorkflowCreateManyUserInput = {
+  id?: string
+  name?: string
+  promptId?: string | null
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: number
+  executionStatus?: $Enums.ExecutionStatus
+  activationState?: $Enums.ActivationState
+  isActive?: boolean
+  triggerType?: string
+  cronExpression?: string | null
+  timezone?: string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WorkflowUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggerType?: Prisma.StringFieldUpdateOperationsInput | string
+  cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prompt?: Prisma.PromptUpdateOneWithoutWorkflowNestedInput
+  onChainWorkflows?: Prisma.OnChainWorkflowUpdateManyWithoutWorkflowNestedInput
+  versions?: Prisma.WorkflowVersionUpdateManyWithoutWorkflowNestedInput
+  runs?: Prisma.WorkflowRunUpdateManyWithoutWorkflowNestedInput
+  resumptions?: Prisma.WorkflowResumptionUpdateManyWithoutWorkflowNestedInput
+  scheduleFires?: Prisma.ScheduleFireUpdateManyWithoutWorkflowNestedInput
+  eventCursors?: Prisma.EventCursorUpdateManyWithoutWorkflowNestedInput
+  priceWatch?: Prisma.PriceWatchUpdateOneWithoutWorkflowNestedInput
+  webhookEndpoint?: Prisma.WebhookEndpointUpdateOneWithoutWorkflowNestedInput
+}
+
+export type WorkflowUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  promptId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggerType?: Prisma.StringFieldUpdateOperationsInput | string
+  cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  onChainWorkflows?: Prisma.OnChainWorkflowUncheckedUpdateManyWithoutWorkflowNestedInput
+  versions?: Prisma.WorkflowVersionUncheckedUpdateManyWithoutWorkflowNestedInput
+  runs?: Prisma.WorkflowRunUncheckedUpdateManyWithoutWorkflowNestedInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedUpdateManyWithoutWorkflowNestedInput
+  scheduleFires?: Prisma.ScheduleFireUncheckedUpdateManyWithoutWorkflowNestedInput
+  eventCursors?: Prisma.EventCursorUncheckedUpdateManyWithoutWorkflowNestedInput
+  priceWatch?: Prisma.PriceWatchUncheckedUpdateOneWithoutWorkflowNestedInput
+  webhookEndpoint?: Prisma.WebhookEndpointUncheckedUpdateOneWithoutWorkflowNestedInput
+}
+
+export type WorkflowUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  promptId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  executionStatus?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  activationState?: Prisma.EnumActivationStateFieldUpdateOperationsInput | $Enums.ActivationState
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggerType?: Prisma.StringFieldUpdateOperationsInput | string
+  cronExpression?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  triggerConfig?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  activatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type WorkflowCountOutputType
+ */
+
+export type WorkflowCountOutputType = {
+  onChainWorkflows: number
+  versions: number
+  runs: number
+  resumptions: number
+  scheduleFires: number
+  eventCursors: number
+}
+
+export type WorkflowCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  onChainWorkflows?: boolean | WorkflowCountOutputTypeCountOnChainWorkflowsArgs
+  versions?: boolean | WorkflowCountOutputTypeCountVersionsArgs
+  runs?: boolean | WorkflowCountOutputTypeCountRunsArgs
+  resumptions?: boolean | WorkflowCountOutputTypeCountResumptionsArgs
+  scheduleFires?: boolean | WorkflowCountOutputTypeCountScheduleFiresArgs
+  eventCursors?: boolean | WorkflowCountOutputTypeCountEventCursorsArgs
+}
+
+/**
+ * WorkflowCountOutputType without action
+ */
+export type WorkflowCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowCountOutputType
+   */
+  select?: Prisma.WorkflowCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * WorkflowCountOutputType without action
+ */
+export type WorkflowCountOutputTypeCountOnChainWorkflowsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OnChainWorkflowWhereInput
+}
+
+/**
+ * WorkflowCountOutputType without action
+ */
+export type WorkflowCountOutputTypeCountVersionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WorkflowVersionWhereInput
+}
+
+/**
+ * WorkflowCountOutputType without action
+ */
+export type WorkflowCountOutputTypeCountRunsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WorkflowRunWhereInput
+}
+
+/**
+ * WorkflowCountOutputType without action
+ */
+export type WorkflowCountOutputTypeCountResumptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WorkflowResumptionWhereInput
+}
+
+/**
+ * WorkflowCountOutputType without action
+ */
+export type WorkflowCountOutputTypeCountScheduleFiresArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ScheduleFireWhereInput
 }
 
+/**
+ * WorkflowCountOutputType without action
+ */
+export type WorkflowCountOutputTypeCountEventCursorsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.EventCursorWhereInput
+}
 
 
 export type WorkflowSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
+  userId?: boolean
+  name?: boolean
   promptId?: boolean
   workflowData?: boolean
+  version?: boolean
   executionStatus?: boolean
+  activationState?: boolean
   isActive?: boolean
   triggerType?: boolean
   cronExpression?: boolean
+  timezone?: boolean
   triggerConfig?: boolean
+  activatedAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
-  prompt?: boolean | Prisma.PromptDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  prompt?: boolean | Prisma.Workflow$promptArgs<ExtArgs>
+  onChainWorkflows?: boolean | Prisma.Workflow$onChainWorkflowsArgs<ExtArgs>
+  versions?: boolean | Prisma.Workflow$versionsArgs<ExtArgs>
+  runs?: boolean | Prisma.Workflow$runsArgs<ExtArgs>
+  resumptions?: boolean | Prisma.Workflow$resumptionsArgs<ExtArgs>
+  scheduleFires?: boolean | Prisma.Workflow$scheduleFiresArgs<ExtArgs>
+  eventCursors?: boolean | Prisma.Workflow$eventCursorsArgs<ExtArgs>
+  priceWatch?: boolean | Prisma.Workflow$priceWatchArgs<ExtArgs>
+  webhookEndpoint?: boolean | Prisma.Workflow$webhookEndpointArgs<ExtArgs>
+  _count?: boolean | Prisma.WorkflowCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["workflow"]>
 
 export type WorkflowSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
+  userId?: boolean
+  name?: boolean
   promptId?: boolean
   workflowData?: boolean
+  version?: boolean
   executionStatus?: boolean
+  activationState?: boolean
   isActive?: boolean
   triggerType?: boolean
   cronExpression?: boolean
+  timezone?: boolean
   triggerConfig?: boolean
+  activatedAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
-  prompt?: boolean | Prisma.PromptDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  prompt?: boolean | Prisma.Workflow$promptArgs<ExtArgs>
 }, ExtArgs["result"]["workflow"]>
 
 export type WorkflowSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
+  userId?: boolean
+  name?: boolean
   promptId?: boolean
   workflowData?: boolean
+  version?: boolean
   executionStatus?: boolean
+  activationState?: boolean
   isActive?: boolean
   triggerType?: boolean
   cronExpression?: boolean
+  timezone?: boolean
   triggerConfig?: boolean
+  activatedAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
-  prompt?: boolean | Prisma.PromptDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  prompt?: boolean | Prisma.Workflow$promptArgs<ExtArgs>
 }, ExtArgs["result"]["workflow"]>
 
 export type WorkflowSelectScalar = {
   id?: boolean
+  userId?: boolean
+  name?: boolean
   promptId?: boolean
   workflowData?: boolean
+  version?: boolean
   executionStatus?: boolean
+  activationState?: boolean
   isActive?: boolean
   triggerType?: boolean
   cronExpression?: boolean
+  timezone?: boolean
   triggerConfig?: boolean
+  activatedAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type WorkflowOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "promptId" | "workflowData" | "executionStatus" | "isActive" | "triggerType" | "cronExpression" | "triggerConfig" | "createdAt" | "updatedAt", ExtArgs["result"]["workflow"]>
+export type WorkflowOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "name" | "promptId" | "workflowData" | "version" | "executionStatus" | "activationState" | "isActive" | "triggerType" | "cronExpression" | "timezone" | "triggerConfig" | "activatedAt" | "createdAt" | "updatedAt", ExtArgs["result"]["workflow"]>
 export type WorkflowInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  prompt?: boolean | Prisma.PromptDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  prompt?: boolean | Prisma.Workflow$promptArgs<ExtArgs>
+  onChainWorkflows?: boolean | Prisma.Workflow$onChainWorkflowsArgs<ExtArgs>
+  versions?: boolean | Prisma.Workflow$versionsArgs<ExtArgs>
+  runs?: boolean | Prisma.Workflow$runsArgs<ExtArgs>
+  resumptions?: boolean | Prisma.Workflow$resumptionsArgs<ExtArgs>
+  scheduleFires?: boolean | Prisma.Workflow$scheduleFiresArgs<ExtArgs>
+  eventCursors?: boolean | Prisma.Workflow$eventCursorsArgs<ExtArgs>
+  priceWatch?: boolean | Prisma.Workflow$priceWatchArgs<ExtArgs>
+  webhookEndpoint?: boolean | Prisma.Workflow$webhookEndpointArgs<ExtArgs>
+  _count?: boolean | Prisma.WorkflowCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type WorkflowIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  prompt?: boolean | Prisma.PromptDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  prompt?: boolean | Prisma.Workflow$promptArgs<ExtArgs>
 }
 export type WorkflowIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  prompt?: boolean | Prisma.PromptDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  prompt?: boolean | Prisma.Workflow$promptArgs<ExtArgs>
 }
 
 export type $WorkflowPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "Workflow"
   objects: {
-    prompt: Prisma.$PromptPayload<ExtArgs>
+    user: Prisma.$UserPayload<ExtArgs>
+    prompt: Prisma.$PromptPayload<ExtArgs> | null
+    onChainWorkflows: Prisma.$OnChainWorkflowPayload<ExtArgs>[]
+    versions: Prisma.$WorkflowVersionPayload<ExtArgs>[]
+    runs: Prisma.$WorkflowRunPayload<ExtArgs>[]
+    resumptions: Prisma.$WorkflowResumptionPayload<ExtArgs>[]
+    scheduleFires: Prisma.$ScheduleFirePayload<ExtArgs>[]
+    eventCursors: Prisma.$EventCursorPayload<ExtArgs>[]
+    priceWatch: Prisma.$PriceWatchPayload<ExtArgs> | null
+    webhookEndpoint: Prisma.$WebhookEndpointPayload<ExtArgs> | null
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
-    promptId: string
+    userId: string
+    name: string
+    promptId: string | null
     workflowData: runtime.JsonValue
+    version: number
     executionStatus: $Enums.ExecutionStatus
+    activationState: $Enums.ActivationState
     isActive: boolean
     triggerType: string
     cronExpression: string | null
+    timezone: string
     triggerConfig: runtime.JsonValue | null
+    activatedAt: Date | null
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["workflow"]>
@@ -992,7 +2748,16 @@ readonly fields: WorkflowFieldRefs;
  */
 export interface Prisma__WorkflowClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
-  prompt<T extends Prisma.PromptDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PromptDefaultArgs<ExtArgs>>): Prisma.Prisma__PromptClient<runtime.Types.Result.GetResult<Prisma.$PromptPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  prompt<T extends Prisma.Workflow$promptArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Workflow$promptArgs<ExtArgs>>): Prisma.Prisma__PromptClient<runtime.Types.Result.GetResult<Prisma.$PromptPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  onChainWorkflows<T extends Prisma.Workflow$onChainWorkflowsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Workflow$onChainWorkflowsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OnChainWorkflowPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  versions<T extends Prisma.Workflow$versionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Workflow$versionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkflowVersionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  runs<T extends Prisma.Workflow$runsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Workflow$runsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkflowRunPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  resumptions<T extends Prisma.Workflow$resumptionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Workflow$resumptionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkflowResumptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  scheduleFires<T extends Prisma.Workflow$scheduleFiresArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Workflow$scheduleFiresArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ScheduleFirePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  eventCursors<T extends Prisma.Workflow$eventCursorsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Workflow$eventCursorsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EventCursorPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  priceWatch<T extends Prisma.Workflow$priceWatchArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Workflow$priceWatchArgs<ExtArgs>>): Prisma.Prisma__PriceWatchClient<runtime.Types.Result.GetResult<Prisma.$PriceWatchPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  webhookEndpoint<T extends Prisma.Workflow$webhookEndpointArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Workflow$webhookEndpointArgs<ExtArgs>>): Prisma.Prisma__WebhookEndpointClient<runtime.Types.Result.GetResult<Prisma.$WebhookEndpointPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1023,13 +2788,19 @@ export interface Prisma__WorkflowClient<T, Null = never, ExtArgs extends runtime
  */
 export interface WorkflowFieldRefs {
   readonly id: Prisma.FieldRef<"Workflow", 'String'>
+  readonly userId: Prisma.FieldRef<"Workflow", 'String'>
+  readonly name: Prisma.FieldRef<"Workflow", 'String'>
   readonly promptId: Prisma.FieldRef<"Workflow", 'String'>
   readonly workflowData: Prisma.FieldRef<"Workflow", 'Json'>
+  readonly version: Prisma.FieldRef<"Workflow", 'Int'>
   readonly executionStatus: Prisma.FieldRef<"Workflow", 'ExecutionStatus'>
+  readonly activationState: Prisma.FieldRef<"Workflow", 'ActivationState'>
   readonly isActive: Prisma.FieldRef<"Workflow", 'Boolean'>
   readonly triggerType: Prisma.FieldRef<"Workflow", 'String'>
   readonly cronExpression: Prisma.FieldRef<"Workflow", 'String'>
+  readonly timezone: Prisma.FieldRef<"Workflow", 'String'>
   readonly triggerConfig: Prisma.FieldRef<"Workflow", 'Json'>
+  readonly activatedAt: Prisma.FieldRef<"Workflow", 'DateTime'>
   readonly createdAt: Prisma.FieldRef<"Workflow", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Workflow", 'DateTime'>
 }
@@ -1427,6 +3198,207 @@ export type WorkflowDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.Inte
   limit?: number
 }
 
+/**
+ * Workflow.prompt
+ */
+export type Workflow$promptArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Prompt
+   */
+  select?: Prisma.PromptSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Prompt
+   */
+  omit?: Prisma.PromptOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromptInclude<ExtArgs> | null
+  where?: Prisma.PromptWhereInput
+}
+
+/**
+ * Workflow.onChainWorkflows
+ */
+export type Workflow$onChainWorkflowsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OnChainWorkflow
+   */
+  select?: Prisma.OnChainWorkflowSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OnChainWorkflow
+   */
+  omit?: Prisma.OnChainWorkflowOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OnChainWorkflowInclude<ExtArgs> | null
+  where?: Prisma.OnChainWorkflowWhereInput
+  orderBy?: Prisma.OnChainWorkflowOrderByWithRelationInput | Prisma.OnChainWorkflowOrderByWithRelationInput[]
+  cursor?: Prisma.OnChainWorkflowWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OnChainWorkflowScalarFieldEnum | Prisma.OnChainWorkflowScalarFieldEnum[]
+}
+
+/**
+ * Workflow.versions
+ */
+export type Workflow$versionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowVersion
+   */
+  select?: Prisma.WorkflowVersionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowVersion
+   */
+  omit?: Prisma.WorkflowVersionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowVersionInclude<ExtArgs> | null
+  where?: Prisma.WorkflowVersionWhereInput
+  orderBy?: Prisma.WorkflowVersionOrderByWithRelationInput | Prisma.WorkflowVersionOrderByWithRelationInput[]
+  cursor?: Prisma.WorkflowVersionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.WorkflowVersionScalarFieldEnum | Prisma.WorkflowVersionScalarFieldEnum[]
+}
+
+/**
+ * Workflow.runs
+ */
+export type Workflow$runsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRun
+   */
+  select?: Prisma.WorkflowRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRun
+   */
+  omit?: Prisma.WorkflowRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunInclude<ExtArgs> | null
+  where?: Prisma.WorkflowRunWhereInput
+  orderBy?: Prisma.WorkflowRunOrderByWithRelationInput | Prisma.WorkflowRunOrderByWithRelationInput[]
+  cursor?: Prisma.WorkflowRunWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.WorkflowRunScalarFieldEnum | Prisma.WorkflowRunScalarFieldEnum[]
+}
+
+/**
+ * Workflow.resumptions
+ */
+export type Workflow$resumptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowResumption
+   */
+  select?: Prisma.WorkflowResumptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowResumption
+   */
+  omit?: Prisma.WorkflowResumptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowResumptionInclude<ExtArgs> | null
+  where?: Prisma.WorkflowResumptionWhereInput
+  orderBy?: Prisma.WorkflowResumptionOrderByWithRelationInput | Prisma.WorkflowResumptionOrderByWithRelationInput[]
+  cursor?: Prisma.WorkflowResumptionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.WorkflowResumptionScalarFieldEnum | Prisma.WorkflowResumptionScalarFieldEnum[]
+}
+
+/**
+ * Workflow.scheduleFires
+ */
+export type Workflow$scheduleFiresArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleFire
+   */
+  select?: Prisma.ScheduleFireSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleFire
+   */
+  omit?: Prisma.ScheduleFireOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleFireInclude<ExtArgs> | null
+  where?: Prisma.ScheduleFireWhereInput
+  orderBy?: Prisma.ScheduleFireOrderByWithRelationInput | Prisma.ScheduleFireOrderByWithRelationInput[]
+  cursor?: Prisma.ScheduleFireWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ScheduleFireScalarFieldEnum | Prisma.ScheduleFireScalarFieldEnum[]
+}
+
+/**
+ * Workflow.eventCursors
+ */
+export type Workflow$eventCursorsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EventCursor
+   */
+  select?: Prisma.EventCursorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EventCursor
+   */
+  omit?: Prisma.EventCursorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EventCursorInclude<ExtArgs> | null
+  where?: Prisma.EventCursorWhereInput
+  orderBy?: Prisma.EventCursorOrderByWithRelationInput | Prisma.EventCursorOrderByWithRelationInput[]
+  cursor?: Prisma.EventCursorWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.EventCursorScalarFieldEnum | Prisma.EventCursorScalarFieldEnum[]
+}
+
+/**
+ * Workflow.priceWatch
+ */
+export type Workflow$priceWatchArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PriceWatch
+   */
+  select?: Prisma.PriceWatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PriceWatch
+   */
+  omit?: Prisma.PriceWatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PriceWatchInclude<ExtArgs> | null
+  where?: Prisma.PriceWatchWhereInput
+}
+
+/**
+ * Workflow.webhookEndpoint
+ */
+export type Workflow$webhookEndpointArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WebhookEndpoint
+   */
+  select?: Prisma.WebhookEndpointSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WebhookEndpoint
+   */
+  omit?: Prisma.WebhookEndpointOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WebhookEndpointInclude<ExtArgs> | null
+  where?: Prisma.WebhookEndpointWhereInput
+}
+
 /**
  * Workflow without action
  */
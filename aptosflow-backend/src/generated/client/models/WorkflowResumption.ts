@@ -0,0 +1,1801 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `WorkflowResumption` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model WorkflowResumption
+ * 
+ */
+export type WorkflowResumptionModel = runtime.Types.Result.DefaultSelection<Prisma.$WorkflowResumptionPayload>
+
+export type AggregateWorkflowResumption = {
+  _count: WorkflowResumptionCountAggregateOutputType | null
+  _avg: WorkflowResumptionAvgAggregateOutputType | null
+  _sum: WorkflowResumptionSumAggregateOutputType | null
+  _min: WorkflowResumptionMinAggregateOutputType | null
+  _max: WorkflowResumptionMaxAggregateOutputType | null
+}
+
+export type WorkflowResumptionAvgAggregateOutputType = {
+  attempts: number | null
+}
+
+export type WorkflowResumptionSumAggregateOutputType = {
+  attempts: number | null
+}
+
+export type WorkflowResumptionMinAggregateOutputType = {
+  id: string | null
+  runId: string | null
+  workflowId: string | null
+  waitNodeId: string | null
+  resumeNodeId: string | null
+  resumeAt: Date | null
+  status: $Enums.ResumptionStatus | null
+  resumedRunId: string | null
+  attempts: number | null
+  lastError: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type WorkflowResumptionMaxAggregateOutputType = {
+  id: string | null
+  runId: string | null
+  workflowId: string | null
+  waitNodeId: string | null
+  resumeNodeId: string | null
+  resumeAt: Date | null
+  status: $Enums.ResumptionStatus | null
+  resumedRunId: string | null
+  attempts: number | null
+  lastError: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type WorkflowResumptionCountAggregateOutputType = {
+  id: number
+  runId: number
+  workflowId: number
+  waitNodeId: number
+  resumeNodeId: number
+  resumeAt: number
+  status: number
+  resumedRunId: number
+  attempts: number
+  lastError: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type WorkflowResumptionAvgAggregateInputType = {
+  attempts?: true
+}
+
+export type WorkflowResumptionSumAggregateInputType = {
+  attempts?: true
+}
+
+export type WorkflowResumptionMinAggregateInputType = {
+  id?: true
+  runId?: true
+  workflowId?: true
+  waitNodeId?: true
+  resumeNodeId?: true
+  resumeAt?: true
+  status?: true
+  resumedRunId?: true
+  attempts?: true
+  lastError?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type WorkflowResumptionMaxAggregateInputType = {
+  id?: true
+  runId?: true
+  workflowId?: true
+  waitNodeId?: true
+  resumeNodeId?: true
+  resumeAt?: true
+  status?: true
+  resumedRunId?: true
+  attempts?: true
+  lastError?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type WorkflowResumptionCountAggregateInputType = {
+  id?: true
+  runId?: true
+  workflowId?: true
+  waitNodeId?: true
+  resumeNodeId?: true
+  resumeAt?: true
+  status?: true
+  resumedRunId?: true
+  attempts?: true
+  lastError?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type WorkflowResumptionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WorkflowResumption to aggregate.
+   */
+  where?: Prisma.WorkflowResumptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkflowResumptions to fetch.
+   */
+  orderBy?: Prisma.WorkflowResumptionOrderByWithRelationInput | Prisma.WorkflowResumptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.WorkflowResumptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkflowResumptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkflowResumptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned WorkflowResumptions
+  **/
+  _count?: true | WorkflowResumptionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: WorkflowResumptionAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: WorkflowResumptionSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: WorkflowResumptionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: WorkflowResumptionMaxAggregateInputType
+}
+
+export type GetWorkflowResumptionAggregateType<T extends WorkflowResumptionAggregateArgs> = {
+      [P in keyof T & keyof AggregateWorkflowResumption]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateWorkflowResumption[P]>
+    : Prisma.GetScalarType<T[P], AggregateWorkflowResumption[P]>
+}
+
+
+
+
+export type WorkflowResumptionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WorkflowResumptionWhereInput
+  orderBy?: Prisma.WorkflowResumptionOrderByWithAggregationInput | Prisma.WorkflowResumptionOrderByWithAggregationInput[]
+  by: Prisma.WorkflowResumptionScalarFieldEnum[] | Prisma.WorkflowResumptionScalarFieldEnum
+  having?: Prisma.WorkflowResumptionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: WorkflowResumptionCountAggregateInputType | true
+  _avg?: WorkflowResumptionAvgAggregateInputType
+  _sum?: WorkflowResumptionSumAggregateInputType
+  _min?: WorkflowResumptionMinAggregateInputType
+  _max?: WorkflowResumptionMaxAggregateInputType
+}
+
+export type WorkflowResumptionGroupByOutputType = {
+  id: string
+  runId: string
+  workflowId: string
+  waitNodeId: string
+  resumeNodeId: string
+  resumeAt: Date
+  status: $Enums.ResumptionStatus
+  resumedRunId: string | null
+  attempts: number
+  lastError: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: WorkflowResumptionCountAggregateOutputType | null
+  _avg: WorkflowResumptionAvgAggregateOutputType | null
+  _sum: WorkflowResumptionSumAggregateOutputType | null
+  _min: WorkflowResumptionMinAggregateOutputType | null
+  _max: WorkflowResumptionMaxAggregateOutputType | null
+}
+
+type GetWorkflowResumptionGroupByPayload<T extends WorkflowResumptionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<WorkflowResumptionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof WorkflowResumptionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], WorkflowResumptionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], WorkflowResumptionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type WorkflowResumptionWhereInput = {
+  AND?: Prisma.WorkflowResumptionWhereInput | Prisma.WorkflowResumptionWhereInput[]
+  OR?: Prisma.WorkflowResumptionWhereInput[]
+  NOT?: Prisma.WorkflowResumptionWhereInput | Prisma.WorkflowResumptionWhereInput[]
+  id?: Prisma.StringFilter<"WorkflowResumption"> | string
+  runId?: Prisma.StringFilter<"WorkflowResumption"> | string
+  workflowId?: Prisma.StringFilter<"WorkflowResumption"> | string
+  waitNodeId?: Prisma.StringFilter<"WorkflowResumption"> | string
+  resumeNodeId?: Prisma.StringFilter<"WorkflowResumption"> | string
+  resumeAt?: Prisma.DateTimeFilter<"WorkflowResumption"> | Date | string
+  status?: Prisma.EnumResumptionStatusFilter<"WorkflowResumption"> | $Enums.ResumptionStatus
+  resumedRunId?: Prisma.StringNullableFilter<"WorkflowResumption"> | string | null
+  attempts?: Prisma.IntFilter<"WorkflowResumption"> | number
+  lastError?: Prisma.StringNullableFilter<"WorkflowResumption"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"WorkflowResumption"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"WorkflowResumption"> | Date | string
+  run?: Prisma.XOR<Prisma.WorkflowRunScalarRelationFilter, Prisma.WorkflowRunWhereInput>
+  workflow?: Prisma.XOR<Prisma.WorkflowScalarRelationFilter, Prisma.WorkflowWhereInput>
+}
+
+export type WorkflowResumptionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  waitNodeId?: Prisma.SortOrder
+  resumeNodeId?: Prisma.SortOrder
+  resumeAt?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  resumedRunId?: Prisma.SortOrderInput | Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastError?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  run?: Prisma.WorkflowRunOrderByWithRelationInput
+  workflow?: Prisma.WorkflowOrderByWithRelationInput
+}
+
+export type WorkflowResumptionWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  runId_waitNodeId?: Prisma.WorkflowResumptionRunIdWaitNodeIdCompoundUniqueInput
+  AND?: Prisma.WorkflowResumptionWhereInput | Prisma.WorkflowResumptionWhereInput[]
+  OR?: Prisma.WorkflowResumptionWhereInput[]
+  NOT?: Prisma.WorkflowResumptionWhereInput | Prisma.WorkflowResumptionWhereInput[]
+  runId?: Prisma.StringFilter<"WorkflowResumption"> | string
+  workflowId?: Prisma.StringFilter<"WorkflowResumption"> | string
+  waitNodeId?: Prisma.StringFilter<"WorkflowResumption"> | string
+  resumeNodeId?: Prisma.StringFilter<"WorkflowResumption"> | string
+  resumeAt?: Prisma.DateTimeFilter<"WorkflowResumption"> | Date | string
+  status?: Prisma.EnumResumptionStatusFilter<"WorkflowResumption"> | $Enums.ResumptionStatus
+  resumedRunId?: Prisma.StringNullableFilter<"WorkflowResumption"> | string | null
+  attempts?: Prisma.IntFilter<"WorkflowResumption"> | number
+  lastError?: Prisma.StringNullableFilter<"WorkflowResumption"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"WorkflowResumption"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"WorkflowResumption"> | Date | string
+  run?: Prisma.XOR<Prisma.WorkflowRunScalarRelationFilter, Prisma.WorkflowRunWhereInput>
+  workflow?: Prisma.XOR<Prisma.WorkflowScalarRelationFilter, Prisma.WorkflowWhereInput>
+}, "id" | "runId_waitNodeId">
+
+export type WorkflowResumptionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  waitNodeId?: Prisma.SortOrder
+  resumeNodeId?: Prisma.SortOrder
+  resumeAt?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  resumedRunId?: Prisma.SortOrderInput | Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastError?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.WorkflowResumptionCountOrderByAggregateInput
+  _avg?: Prisma.WorkflowResumptionAvgOrderByAggregateInput
+  _max?: Prisma.WorkflowResumptionMaxOrderByAggregateInput
+  _min?: Prisma.WorkflowResumptionMinOrderByAggregateInput
+  _sum?: Prisma.WorkflowResumptionSumOrderByAggregateInput
+}
+
+export type WorkflowResumptionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.WorkflowResumptionScalarWhereWithAggregatesInput | Prisma.WorkflowResumptionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.WorkflowResumptionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.WorkflowResumptionScalarWhereWithAggregatesInput | Prisma.WorkflowResumptionScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"WorkflowResumption"> | string
+  runId?: Prisma.StringWithAggregatesFilter<"WorkflowResumption"> | string
+  workflowId?: Prisma.StringWithAggregatesFilter<"WorkflowResumption"> | string
+  waitNodeId?: Prisma.StringWithAggregatesFilter<"WorkflowResumption"> | string
+  resumeNodeId?: Prisma.StringWithAggregatesFilter<"WorkflowResumption"> | string
+  resumeAt?: Prisma.DateTimeWithAggregatesFilter<"WorkflowResumption"> | Date | string
+  status?: Prisma.EnumResumptionStatusWithAggregatesFilter<"WorkflowResumption"> | $Enums.ResumptionStatus
+  resumedRunId?: Prisma.StringNullableWithAggregatesFilter<"WorkflowResumption"> | string | null
+  attempts?: Prisma.IntWithAggregatesFilter<"WorkflowResumption"> | number
+  lastError?: Prisma.StringNullableWithAggregatesFilter<"WorkflowResumption"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"WorkflowResumption"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"WorkflowResumption"> | Date | string
+}
+
+export type WorkflowResumptionCreateInput = {
+  id?: string
+  waitNodeId: string
+  resumeNodeId: string
+  resumeAt: Date | string
+  status?: $Enums.ResumptionStatus
+  resumedRunId?: string | null
+  attempts?: number
+  lastError?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  run: Prisma.WorkflowRunCreateNestedOneWithoutResumptionsInput
+  workflow: Prisma.WorkflowCreateNestedOneWithoutResumptionsInput
+}
+
+export type WorkflowResumptionUncheckedCreateInput = {
+  id?: string
+  runId: string
+  workflowId: string
+  waitNodeId: string
+  resumeNodeId: string
+  resumeAt: Date | string
+  status?: $Enums.ResumptionStatus
+  resumedRunId?: string | null
+  attempts?: number
+  lastError?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WorkflowResumptionUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  waitNodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  resumeNodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  resumeAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumResumptionStatusFieldUpdateOperationsInput | $Enums.ResumptionStatus
+  resumedRunId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  run?: Prisma.WorkflowRunUpdateOneRequiredWithoutResumptionsNestedInput
+  workflow?: Prisma.WorkflowUpdateOneRequiredWithoutResumptionsNestedInput
+}
+
+export type WorkflowResumptionUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  runId?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  waitNodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  resumeNodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  resumeAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumResumptionStatusFieldUpdateOperationsInput | $Enums.ResumptionStatus
+  resumedRunId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkflowResumptionCreateManyInput = {
+  id?: string
+  runId: string
+  workflowId: string
+  waitNodeId: string
+  resumeNodeId: string
+  resumeAt: Date | string
+  status?: $Enums.ResumptionStatus
+  resumedRunId?: string | null
+  attempts?: number
+  lastError?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WorkflowResumptionUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  waitNodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  resumeNodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  resumeAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumResumptionStatusFieldUpdateOperationsInput | $Enums.ResumptionStatus
+  resumedRunId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkflowResumptionUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  runId?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  waitNodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  resumeNodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  resumeAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumResumptionStatusFieldUpdateOperationsInput | $Enums.ResumptionStatus
+  resumedRunId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkflowResumptionListRelationFilter = {
+  every?: Prisma.WorkflowResumptionWhereInput
+  some?: Prisma.WorkflowResumptionWhereInput
+  none?: Prisma.WorkflowResumptionWhereInput
+}
+
+export type WorkflowResumptionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type WorkflowResumptionRunIdWaitNodeIdCompoundUniqueInput = {
+  runId: string
+  waitNodeId: string
+}
+
+export type WorkflowResumptionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  waitNodeId?: Prisma.SortOrder
+  resumeNodeId?: Prisma.SortOrder
+  resumeAt?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  resumedRunId?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastError?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type WorkflowResumptionAvgOrderByAggregateInput = {
+  attempts?: Prisma.SortOrder
+}
+
+export type WorkflowResumptionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  waitNodeId?: Prisma.SortOrder
+  resumeNodeId?: Prisma.SortOrder
+  resumeAt?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  resumedRunId?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastError?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type WorkflowResumptionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  waitNodeId?: Prisma.SortOrder
+  resumeNodeId?: Prisma.SortOrder
+  resumeAt?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  resumedRunId?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastError?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type WorkflowResumptionSumOrderByAggregateInput = {
+  attempts?: Prisma.SortOrder
+}
+
+export type WorkflowResumptionCreateNestedManyWithoutWorkflowInput = {
+  create?: Prisma.XOR<Prisma.WorkflowResumptionCreateWithoutWorkflowInput, Prisma.WorkflowResumptionUncheckedCreateWithoutWorkflowInput> | Prisma.WorkflowResumptionCreateWithoutWorkflowInput[] | Prisma.WorkflowResumptionUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.WorkflowResumptionCreateOrConnectWithoutWorkflowInput | Prisma.WorkflowResumptionCreateOrConnectWithoutWorkflowInput[]
+  createMany?: Prisma.WorkflowResumptionCreateManyWorkflowInputEnvelope
+  connect?: Prisma.WorkflowResumptionWhereUniqueInput | Prisma.WorkflowResumptionWhereUniqueInput[]
+}
+
+export type WorkflowResumptionUncheckedCreateNestedManyWithoutWorkflowInput = {
+  create?: Prisma.XOR<Prisma.WorkflowResumptionCreateWithoutWorkflowInput, Prisma.WorkflowResumptionUncheckedCreateWithoutWorkflowInput> | Prisma.WorkflowResumptionCreateWithoutWorkflowInput[] | Prisma.WorkflowResumptionUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.WorkflowResumptionCreateOrConnectWithoutWorkflowInput | Prisma.WorkflowResumptionCreateOrConnectWithoutWorkflowInput[]
+  createMany?: Prisma.WorkflowResumptionCreateManyWorkflowInputEnvelope
+  connect?: Prisma.WorkflowResumptionWhereUniqueInput | Prisma.WorkflowResumptionWhereUniqueInput[]
+}
+
+export type WorkflowResumptionUpdateManyWithoutWorkflowNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowResumptionCreateWithoutWorkflowInput, Prisma.WorkflowResumptionUncheckedCreateWithoutWorkflowInput> | Prisma.WorkflowResumptionCreateWithoutWorkflowInput[] | Prisma.WorkflowResumptionUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.WorkflowResumptionCreateOrConnectWithoutWorkflowInput | Prisma.WorkflowResumptionCreateOrConnectWithoutWorkflowInput[]
+  upsert?: Prisma.WorkflowResumptionUpsertWithWhereUniqueWithoutWorkflowInput | Prisma.WorkflowResumptionUpsertWithWhereUniqueWithoutWorkflowInput[]
+  createMany?: Prisma.WorkflowResumptionCreateManyWorkflowInputEnvelope
+  set?: Prisma.WorkflowResumptionWhereUniqueInput | Prisma.WorkflowResumptionWhereUniqueInput[]
+  disconnect?: Prisma.WorkflowResumptionWhereUniqueInput | Prisma.WorkflowResumptionWhereUniqueInput[]
+  delete?: Prisma.WorkflowResumptionWhereUniqueInput | Prisma.WorkflowResumptionWhereUniqueInput[]
+  connect?: Prisma.WorkflowResumptionWhereUniqueInput | Prisma.WorkflowResumptionWhereUniqueInput[]
+  update?: Prisma.WorkflowResumptionUpdateWithWhereUniqueWithoutWorkflowInput | Prisma.WorkflowResumptionUpdateWithWhereUniqueWithoutWorkflowInput[]
+  updateMany?: Prisma.WorkflowResumptionUpdateManyWithWhereWithoutWorkflowInput | Prisma.WorkflowResumptionUpdateManyWithWhereWithoutWorkflowInput[]
+  deleteMany?: Prisma.WorkflowResumptionScalarWhereInput | Prisma.WorkflowResumptionScalarWhereInput[]
+}
+
+export type WorkflowResumptionUncheckedUpdateManyWithoutWorkflowNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowResumptionCreateWithoutWorkflowInput, Prisma.WorkflowResumptionUncheckedCreateWithoutWorkflowInput> | Prisma.WorkflowResumptionCreateWithoutWorkflowInput[] | Prisma.WorkflowResumptionUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.WorkflowResumptionCreateOrConnectWithoutWorkflowInput | Prisma.WorkflowResumptionCreateOrConnectWithoutWorkflowInput[]
+  upsert?: Prisma.WorkflowResumptionUpsertWithWhereUniqueWithoutWorkflowInput | Prisma.WorkflowResumptionUpsertWithWhereUniqueWithoutWorkflowInput[]
+  createMany?: Prisma.WorkflowResumptionCreateManyWorkflowInputEnvelope
+  set?: Prisma.WorkflowResumptionWhereUniqueInput | Prisma.WorkflowResumptionWhereUniqueInput[]
+  disconnect?: Prisma.WorkflowResumptionWhereUniqueInput | Prisma.WorkflowResumptionWhereUniqueInput[]
+  delete?: Prisma.WorkflowResumptionWhereUniqueInput | Prisma.WorkflowResumptionWhereUniqueInput[]
+  connect?: Prisma.WorkflowResumptionWhereUniqueInput | Prisma.WorkflowResumptionWhereUniqueInput[]
+  update?: Prisma.WorkflowResumptionUpdateWithWhereUniqueWithoutWorkflowInput | Prisma.WorkflowResumptionUpdateWithWhereUniqueWithoutWorkflowInput[]
+  updateMany?: Prisma.WorkflowResumptionUpdateManyWithWhereWithoutWorkflowInput | Prisma.WorkflowResumptionUpdateManyWithWhereWithoutWorkflowInput[]
+  deleteMany?: Prisma.WorkflowResumptionScalarWhereInput | Prisma.WorkflowResumptionScalarWhereInput[]
+}
+
+export type WorkflowResumptionCreateNestedManyWithoutRunInput = {
+  create?: Prisma.XOR<Prisma.WorkflowResumptionCreateWithoutRunInput, Prisma.WorkflowResumptionUncheckedCreateWithoutRunInput> | Prisma.WorkflowResumptionCreateWithoutRunInput[] | Prisma.WorkflowResumptionUncheckedCreateWithoutRunInput[]
+  connectOrCreate?: Prisma.WorkflowResumptionCreateOrConnectWithoutRunInput | Prisma.WorkflowResumptionCreateOrConnectWithoutRunInput[]
+  createMany?: Prisma.WorkflowResumptionCreateManyRunInputEnvelope
+  connect?: Prisma.WorkflowResumptionWhereUniqueInput | Prisma.WorkflowResumptionWhereUniqueInput[]
+}
+
+export type WorkflowResumptionUncheckedCreateNestedManyWithoutRunInput = {
+  create?: Prisma.XOR<Prisma.WorkflowResumptionCreateWithoutRunInput, Prisma.WorkflowResumptionUncheckedCreateWithoutRunInput> | Prisma.WorkflowResumptionCreateWithoutRunInput[] | Prisma.WorkflowResumptionUncheckedCreateWithoutRunInput[]
+  connectOrCreate?: Prisma.WorkflowResumptionCreateOrConnectWithoutRunInput | Prisma.WorkflowResumptionCreateOrConnectWithoutRunInput[]
+  createMany?: Prisma.WorkflowResumptionCreateManyRunInputEnvelope
+  connect?: Prisma.WorkflowResumptionWhereUniqueInput | Prisma.WorkflowResumptionWhereUniqueInput[]
+}
+
+export type WorkflowResumptionUpdateManyWithoutRunNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowResumptionCreateWithoutRunInput, Prisma.WorkflowResumptionUncheckedCreateWithoutRunInput> | Prisma.WorkflowResumptionCreateWithoutRunInput[] | Prisma.WorkflowResumptionUncheckedCreateWithoutRunInput[]
+  connectOrCreate?: Prisma.WorkflowResumptionCreateOrConnectWithoutRunInput | Prisma.WorkflowResumptionCreateOrConnectWithoutRunInput[]
+  upsert?: Prisma.WorkflowResumptionUpsertWithWhereUniqueWithoutRunInput | Prisma.WorkflowResumptionUpsertWithWhereUniqueWithoutRunInput[]
+  createMany?: Prisma.WorkflowResumptionCreateManyRunInputEnvelope
+  set?: Prisma.WorkflowResumptionWhereUniqueInput | Prisma.WorkflowResumptionWhereUniqueInput[]
+  disconnect?: Prisma.WorkflowResumptionWhereUniqueInput | Prisma.WorkflowResumptionWhereUniqueInput[]
+  delete?: Prisma.WorkflowResumptionWhereUniqueInput | Prisma.WorkflowResumptionWhereUniqueInput[]
+  connect?: Prisma.WorkflowResumptionWhereUniqueInput | Prisma.WorkflowResumptionWhereUniqueInput[]
+  update?: Prisma.WorkflowResumptionUpdateWithWhereUniqueWithoutRunInput | Prisma.WorkflowResumptionUpdateWithWhereUniqueWithoutRunInput[]
+  updateMany?: Prisma.WorkflowResumptionUpdateManyWithWhereWithoutRunInput | Prisma.WorkflowResumptionUpdateManyWithWhereWithoutRunInput[]
+  deleteMany?: Prisma.WorkflowResumptionScalarWhereInput | Prisma.WorkflowResumptionScalarWhereInput[]
+}
+
+export type WorkflowResumptionUncheckedUpdateManyWithoutRunNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowResumptionCreateWithoutRunInput, Prisma.WorkflowResumptionUncheckedCreateWithoutRunInput> | Prisma.WorkflowResumptionCreateWithoutRunInput[] | Prisma.WorkflowResumptionUncheckedCreateWithoutRunInput[]
+  connectOrCreate?: Prisma.WorkflowResumptionCreateOrConnectWithoutRunInput | Prisma.WorkflowResumptionCreateOrConnectWithoutRunInput[]
+  upsert?: Prisma.WorkflowResumptionUpsertWithWhereUniqueWithoutRunInput | Prisma.WorkflowResumptionUpsertWithWhereUniqueWithoutRunInput[]
+  createMany?: Prisma.WorkflowResumptionCreateManyRunInputEnvelope
+  set?: Prisma.WorkflowResumptionWhereUniqueInput | Prisma.WorkflowResumptionWhereUniqueInput[]
+  disconnect?: Prisma.WorkflowResumptionWhereUniqueInput | Prisma.WorkflowResumptionWhereUniqueInput[]
+  delete?: Prisma.WorkflowResumptionWhereUniqueInput | Prisma.WorkflowResumptionWhereUniqueInput[]
+  connect?: Prisma.WorkflowResumptionWhereUniqueInput | Prisma.WorkflowResumptionWhereUniqueInput[]
+  update?: Prisma.WorkflowResumptionUpdateWithWhereUniqueWithoutRunInput | Prisma.WorkflowResumptionUpdateWithWhereUniqueWithoutRunInput[]
+  updateMany?: Prisma.WorkflowResumptionUpdateManyWithWhereWithoutRunInput | Prisma.WorkflowResumptionUpdateManyWithWhereWithoutRunInput[]
+  deleteMany?: Prisma.WorkflowResumptionScalarWhereInput | Prisma.WorkflowResumptionScalarWhereInput[]
+}
+
+export type EnumResumptionStatusFieldUpdateOperationsInput = {
+  set?: $Enums.ResumptionStatus
+}
+
+export type WorkflowResumptionCreateWithoutWorkflowInput = {
+  id?: string
+  waitNodeId: string
+  resumeNodeId: string
+  resumeAt: Date | string
+  status?: $Enums.ResumptionStatus
+  resumedRunId?: string | null
+  attempts?: number
+  lastError?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  run: Prisma.WorkflowRunCreateNestedOneWithoutResumptionsInput
+}
+
+export type WorkflowResumptionUncheckedCreateWithoutWorkflowInput = {
+  id?: string
+  runId: string
+  waitNodeId: string
+  resumeNodeId: string
+  resumeAt: Date | string
+  status?: $Enums.ResumptionStatus
+  resumedRunId?: string | null
+  attempts?: number
+  lastError?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WorkflowResumptionCreateOrConnectWithoutWorkflowInput = {
+  where: Prisma.WorkflowResumptionWhereUniqueInput
+  create: Prisma.XOR<Prisma.WorkflowResumptionCreateWithoutWorkflowInput, Prisma.WorkflowResumptionUncheckedCreateWithoutWorkflowInput>
+}
+
+export type WorkflowResumptionCreateManyWorkflowInputEnvelope = {
+  data: Prisma.WorkflowResumptionCreateManyWorkflowInput | Prisma.WorkflowResumptionCreateManyWorkflowInput[]
+  skipDuplicates?: boolean
+}
+
+export type WorkflowResumptionUpsertWithWhereUniqueWithoutWorkflowInput = {
+  where: Prisma.WorkflowResumptionWhereUniqueInput
+  update: Prisma.XOR<Prisma.WorkflowResumptionUpdateWithoutWorkflowInput, Prisma.WorkflowResumptionUncheckedUpdateWithoutWorkflowInput>
+  create: Prisma.XOR<Prisma.WorkflowResumptionCreateWithoutWorkflowInput, Prisma.WorkflowResumptionUncheckedCreateWithoutWorkflowInput>
+}
+
+export type WorkflowResumptionUpdateWithWhereUniqueWithoutWorkflowInput = {
+  where: Prisma.WorkflowResumptionWhereUniqueInput
+  data: Prisma.XOR<Prisma.WorkflowResumptionUpdateWithoutWorkflowInput, Prisma.WorkflowResumptionUncheckedUpdateWithoutWorkflowInput>
+}
+
+export type WorkflowResumptionUpdateManyWithWhereWithoutWorkflowInput = {
+  where: Prisma.WorkflowResumptionScalarWhereInput
+  data: Prisma.XOR<Prisma.WorkflowResumptionUpdateManyMutationInput, Prisma.WorkflowResumptionUncheckedUpdateManyWithoutWorkflowInput>
+}
+
+export type WorkflowResumptionScalarWhereInput = {
+  AND?: Prisma.WorkflowResumptionScalarWhereInput | Prisma.WorkflowResumptionScalarWhereInput[]
+  OR?: Prisma.WorkflowResumptionScalarWhereInput[]
+  NOT?: Prisma.WorkflowResumptionScalarWhereInput | Prisma.WorkflowResumptionScalarWhereInput[]
+  id?: Prisma.StringFilter<"WorkflowResumption"> | string
+  runId?: Prisma.StringFilter<"WorkflowResumption"> | string
+  workflowId?: Prisma.StringFilter<"WorkflowResumption"> | string
+  waitNodeId?: Prisma.StringFilter<"WorkflowResumption"> | string
+  resumeNodeId?: Prisma.StringFilter<"WorkflowResumption"> | string
+  resumeAt?: Prisma.DateTimeFilter<"WorkflowResumption"> | Date | string
+  status?: Prisma.EnumResumptionStatusFilter<"WorkflowResumption"> | $Enums.ResumptionStatus
+  resumedRunId?: Prisma.StringNullableFilter<"WorkflowResumption"> | string | null
+  attempts?: Prisma.IntFilter<"WorkflowResumption"> | number
+  lastError?: Prisma.StringNullableFilter<"WorkflowResumption"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"WorkflowResumption"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"WorkflowResumption"> | Date | string
+}
+
+export type WorkflowResumptionCreateWithoutRunInput = {
+  id?: string
+  waitNodeId: string
+  resumeNodeId: string
+  resumeAt: Date | string
+  status?: $Enums.ResumptionStatus
+  resumedRunId?: string | null
+  attempts?: number
+  lastError?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  workflow: Prisma.WorkflowCreateNestedOneWithoutResumptionsInput
+}
+
+export type WorkflowResumptionUncheckedCreateWithoutRunInput = {
+  id?: string
+  workflowId: string
+  waitNodeId: string
+  resumeNodeId: string
+  resumeAt: Date | string
+  status?: $Enums.ResumptionStatus
+  resumedRunId?: string | null
+  attempts?: number
+  lastError?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WorkflowResumptionCreateOrConnectWithoutRunInput = {
+  where: Prisma.WorkflowResumptionWhereUniqueInput
+  create: Prisma.XOR<Prisma.WorkflowResumptionCreateWithoutRunInput, Prisma.WorkflowResumptionUncheckedCreateWithoutRunInput>
+}
+
+export type WorkflowResumptionCreateManyRunInputEnvelope = {
+  data: Prisma.WorkflowResumptionCreateManyRunInput | Prisma.WorkflowResumptionCreateManyRunInput[]
+  skipDuplicates?: boolean
+}
+
+export type WorkflowResumptionUpsertWithWhereUniqueWithoutRunInput = {
+  where: Prisma.WorkflowResumptionWhereUniqueInput
+  update: Prisma.XOR<Prisma.WorkflowResumptionUpdateWithoutRunInput, Prisma.WorkflowResumptionUncheckedUpdateWithoutRunInput>
+  create: Prisma.XOR<Prisma.WorkflowResumptionCreateWithoutRunInput, Prisma.WorkflowResumptionUncheckedCreateWithoutRunInput>
+}
+
+export type WorkflowResumptionUpdateWithWhereUniqueWithoutRunInput = {
+  where: Prisma.WorkflowResumptionWhereUniqueInput
+  data: Prisma.XOR<Prisma.WorkflowResumptionUpdateWithoutRunInput, Prisma.WorkflowResumptionUncheckedUpdateWithoutRunInput>
+}
+
+export type WorkflowResumptionUpdateManyWithWhereWithoutRunInput = {
+  where: Prisma.WorkflowResumptionScalarWhereInput
+  data: Prisma.XOR<Prisma.WorkflowResumptionUpdateManyMutationInput, Prisma.WorkflowResumptionUncheckedUpdateManyWithoutRunInput>
+}
+
+export type WorkflowResumptionCreateManyWorkflowInput = {
+  id?: string
+  runId: string
+  waitNodeId: string
+  resumeNodeId: string
+  resumeAt: Date | string
+  status?: $Enums.ResumptionStatus
+  resumedRunId?: string | null
+  attempts?: number
+  lastError?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WorkflowResumptionUpdateWithoutWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  waitNodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  resumeNodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  resumeAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumResumptionStatusFieldUpdateOperationsInput | $Enums.ResumptionStatus
+  resumedRunId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  run?: Prisma.WorkflowRunUpdateOneRequiredWithoutResumptionsNestedInput
+}
+
+export type WorkflowResumptionUncheckedUpdateWithoutWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  runId?: Prisma.StringFieldUpdateOperationsInput | string
+  waitNodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  resumeNodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  resumeAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumResumptionStatusFieldUpdateOperationsInput | $Enums.ResumptionStatus
+  resumedRunId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkflowResumptionUncheckedUpdateManyWithoutWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  runId?: Prisma.StringFieldUpdateOperationsInput | string
+  waitNodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  resumeNodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  resumeAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumResumptionStatusFieldUpdateOperationsInput | $Enums.ResumptionStatus
+  resumedRunId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkflowResumptionCreateManyRunInput = {
+  id?: string
+  workflowId: string
+  waitNodeId: string
+  resumeNodeId: string
+  resumeAt: Date | string
+  status?: $Enums.ResumptionStatus
+  resumedRunId?: string | null
+  attempts?: number
+  lastError?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WorkflowResumptionUpdateWithoutRunInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  waitNodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  resumeNodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  resumeAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumResumptionStatusFieldUpdateOperationsInput | $Enums.ResumptionStatus
+  resumedRunId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  workflow?: Prisma.WorkflowUpdateOneRequiredWithoutResumptionsNestedInput
+}
+
+export type WorkflowResumptionUncheckedUpdateWithoutRunInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  waitNodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  resumeNodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  resumeAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumResumptionStatusFieldUpdateOperationsInput | $Enums.ResumptionStatus
+  resumedRunId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkflowResumptionUncheckedUpdateManyWithoutRunInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  waitNodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  resumeNodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  resumeAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumResumptionStatusFieldUpdateOperationsInput | $Enums.ResumptionStatus
+  resumedRunId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type WorkflowResumptionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  runId?: boolean
+  workflowId?: boolean
+  waitNodeId?: boolean
+  resumeNodeId?: boolean
+  resumeAt?: boolean
+  status?: boolean
+  resumedRunId?: boolean
+  attempts?: boolean
+  lastError?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  run?: boolean | Prisma.WorkflowRunDefaultArgs<ExtArgs>
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["workflowResumption"]>
+
+export type WorkflowResumptionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  runId?: boolean
+  workflowId?: boolean
+  waitNodeId?: boolean
+  resumeNodeId?: boolean
+  resumeAt?: boolean
+  status?: boolean
+  resumedRunId?: boolean
+  attempts?: boolean
+  lastError?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  run?: boolean | Prisma.WorkflowRunDefaultArgs<ExtArgs>
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["workflowResumption"]>
+
+export type WorkflowResumptionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  runId?: boolean
+  workflowId?: boolean
+  waitNodeId?: boolean
+  resumeNodeId?: boolean
+  resumeAt?: boolean
+  status?: boolean
+  resumedRunId?: boolean
+  attempts?: boolean
+  lastError?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  run?: boolean | Prisma.WorkflowRunDefaultArgs<ExtArgs>
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["workflowResumption"]>
+
+export type WorkflowResumptionSelectScalar = {
+  id?: boolean
+  runId?: boolean
+  workflowId?: boolean
+  waitNodeId?: boolean
+  resumeNodeId?: boolean
+  resumeAt?: boolean
+  status?: boolean
+  resumedRunId?: boolean
+  attempts?: boolean
+  lastError?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type WorkflowResumptionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "runId" | "workflowId" | "waitNodeId" | "resumeNodeId" | "resumeAt" | "status" | "resumedRunId" | "attempts" | "lastError" | "createdAt" | "updatedAt", ExtArgs["result"]["workflowResumption"]>
+export type WorkflowResumptionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  run?: boolean | Prisma.WorkflowRunDefaultArgs<ExtArgs>
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}
+export type WorkflowResumptionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  run?: boolean | Prisma.WorkflowRunDefaultArgs<ExtArgs>
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}
+export type WorkflowResumptionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  run?: boolean | Prisma.WorkflowRunDefaultArgs<ExtArgs>
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}
+
+export type $WorkflowResumptionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "WorkflowResumption"
+  objects: {
+    run: Prisma.$WorkflowRunPayload<ExtArgs>
+    workflow: Prisma.$WorkflowPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    runId: string
+    workflowId: string
+    waitNodeId: string
+    resumeNodeId: string
+    resumeAt: Date
+    status: $Enums.ResumptionStatus
+    resumedRunId: string | null
+    attempts: number
+    lastError: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["workflowResumption"]>
+  composites: {}
+}
+
+export type WorkflowResumptionGetPayload<S extends boolean | null | undefined | WorkflowResumptionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$WorkflowResumptionPayload, S>
+
+export type WorkflowResumptionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<WorkflowResumptionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: WorkflowResumptionCountAggregateInputType | true
+  }
+
+export interface WorkflowResumptionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['WorkflowResumption'], meta: { name: 'WorkflowResumption' } }
+  /**
+   * Find zero or one WorkflowResumption that matches the filter.
+   * @param {WorkflowResumptionFindUniqueArgs} args - Arguments to find a WorkflowResumption
+   * @example
+   * // Get one WorkflowResumption
+   * const workflowResumption = await prisma.workflowResumption.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends WorkflowResumptionFindUniqueArgs>(args: Prisma.SelectSubset<T, WorkflowResumptionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__WorkflowResumptionClient<runtime.Types.Result.GetResult<Prisma.$WorkflowResumptionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one WorkflowResumption that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {WorkflowResumptionFindUniqueOrThrowArgs} args - Arguments to find a WorkflowResumption
+   * @example
+   * // Get one WorkflowResumption
+   * const workflowResumption = await prisma.workflowResumption.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends WorkflowResumptionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, WorkflowResumptionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__WorkflowResumptionClient<runtime.Types.Result.GetResult<Prisma.$WorkflowResumptionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WorkflowResumption that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowResumptionFindFirstArgs} args - Arguments to find a WorkflowResumption
+   * @example
+   * // Get one WorkflowResumption
+   * const workflowResumption = await prisma.workflowResumption.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends WorkflowResumptionFindFirstArgs>(args?: Prisma.SelectSubset<T, WorkflowResumptionFindFirstArgs<ExtArgs>>): Prisma.Prisma__WorkflowResumptionClient<runtime.Types.Result.GetResult<Prisma.$WorkflowResumptionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WorkflowResumption that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowResumptionFindFirstOrThrowArgs} args - Arguments to find a WorkflowResumption
+   * @example
+   * // Get one WorkflowResumption
+   * const workflowResumption = await prisma.workflowResumption.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends WorkflowResumptionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, WorkflowResumptionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__WorkflowResumptionClient<runtime.Types.Result.GetResult<Prisma.$WorkflowResumptionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more WorkflowResumptions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowResumptionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all WorkflowResumptions
+   * const workflowResumptions = await prisma.workflowResumption.findMany()
+   * 
+   * // Get first 10 WorkflowResumptions
+   * const workflowResumptions = await prisma.workflowResumption.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const workflowResumptionWithIdOnly = await prisma.workflowResumption.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends WorkflowResumptionFindManyArgs>(args?: Prisma.SelectSubset<T, WorkflowResumptionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkflowResumptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a WorkflowResumption.
+   * @param {WorkflowResumptionCreateArgs} args - Arguments to create a WorkflowResumption.
+   * @example
+   * // Create one WorkflowResumption
+   * const WorkflowResumption = await prisma.workflowResumption.create({
+   *   data: {
+   *     // ... data to create a WorkflowResumption
+   *   }
+   * })
+   * 
+   */
+  create<T extends WorkflowResumptionCreateArgs>(args: Prisma.SelectSubset<T, WorkflowResumptionCreateArgs<ExtArgs>>): Prisma.Prisma__WorkflowResumptionClient<runtime.Types.Result.GetResult<Prisma.$WorkflowResumptionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many WorkflowResumptions.
+   * @param {WorkflowResumptionCreateManyArgs} args - Arguments to create many WorkflowResumptions.
+   * @example
+   * // Create many WorkflowResumptions
+   * const workflowResumption = await prisma.workflowResumption.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends WorkflowResumptionCreateManyArgs>(args?: Prisma.SelectSubset<T, WorkflowResumptionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many WorkflowResumptions and returns the data saved in the database.
+   * @param {WorkflowResumptionCreateManyAndReturnArgs} args - Arguments to create many WorkflowResumptions.
+   * @example
+   * // Create many WorkflowResumptions
+   * const workflowResumption = await prisma.workflowResumption.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many WorkflowResumptions and only return the `id`
+   * const workflowResumptionWithIdOnly = await prisma.workflowResumption.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends WorkflowResumptionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, WorkflowResumptionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkflowResumptionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a WorkflowResumption.
+   * @param {WorkflowResumptionDeleteArgs} args - Arguments to delete one WorkflowResumption.
+   * @example
+   * // Delete one WorkflowResumption
+   * const WorkflowResumption = await prisma.workflowResumption.delete({
+   *   where: {
+   *     // ... filter to delete one WorkflowResumption
+   *   }
+   * })
+   * 
+   */
+  delete<T extends WorkflowResumptionDeleteArgs>(args: Prisma.SelectSubset<T, WorkflowResumptionDeleteArgs<ExtArgs>>): Prisma.Prisma__WorkflowResumptionClient<runtime.Types.Result.GetResult<Prisma.$WorkflowResumptionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one WorkflowResumption.
+   * @param {WorkflowResumptionUpdateArgs} args - Arguments to update one WorkflowResumption.
+   * @example
+   * // Update one WorkflowResumption
+   * const workflowResumption = await prisma.workflowResumption.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends WorkflowResumptionUpdateArgs>(args: Prisma.SelectSubset<T, WorkflowResumptionUpdateArgs<ExtArgs>>): Prisma.Prisma__WorkflowResumptionClient<runtime.Types.Result.GetResult<Prisma.$WorkflowResumptionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more WorkflowResumptions.
+   * @param {WorkflowResumptionDeleteManyArgs} args - Arguments to filter WorkflowResumptions to delete.
+   * @example
+   * // Delete a few WorkflowResumptions
+   * const { count } = await prisma.workflowResumption.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends WorkflowResumptionDeleteManyArgs>(args?: Prisma.SelectSubset<T, WorkflowResumptionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WorkflowResumptions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowResumptionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many WorkflowResumptions
+   * const workflowResumption = await prisma.workflowResumption.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends WorkflowResumptionUpdateManyArgs>(args: Prisma.SelectSubset<T, WorkflowResumptionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WorkflowResumptions and returns the data updated in the database.
+   * @param {WorkflowResumptionUpdateManyAndReturnArgs} args - Arguments to update many WorkflowResumptions.
+   * @example
+   * // Update many WorkflowResumptions
+   * const workflowResumption = await prisma.workflowResumption.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more WorkflowResumptions and only return the `id`
+   * const workflowResumptionWithIdOnly = await prisma.workflowResumption.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends WorkflowResumptionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, WorkflowResumptionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkflowResumptionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one WorkflowResumption.
+   * @param {WorkflowResumptionUpsertArgs} args - Arguments to update or create a WorkflowResumption.
+   * @example
+   * // Update or create a WorkflowResumption
+   * const workflowResumption = await prisma.workflowResumption.upsert({
+   *   create: {
+   *     // ... data to create a WorkflowResumption
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the WorkflowResumption we want to update
+   *   }
+   * })
+   */
+  upsert<T extends WorkflowResumptionUpsertArgs>(args: Prisma.SelectSubset<T, WorkflowResumptionUpsertArgs<ExtArgs>>): Prisma.Prisma__WorkflowResumptionClient<runtime.Types.Result.GetResult<Prisma.$WorkflowResumptionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of WorkflowResumptions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowResumptionCountArgs} args - Arguments to filter WorkflowResumptions to count.
+   * @example
+   * // Count the number of WorkflowResumptions
+   * const count = await prisma.workflowResumption.count({
+   *   where: {
+   *     // ... the filter for the WorkflowResumptions we want to count
+   *   }
+   * })
+  **/
+  count<T extends WorkflowResumptionCountArgs>(
+    args?: Prisma.Subset<T, WorkflowResumptionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], WorkflowResumptionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a WorkflowResumption.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowResumptionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends WorkflowResumptionAggregateArgs>(args: Prisma.Subset<T, WorkflowResumptionAggregateArgs>): Prisma.PrismaPromise<GetWorkflowResumptionAggregateType<T>>
+
+  /**
+   * Group by WorkflowResumption.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowResumptionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends WorkflowResumptionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: WorkflowResumptionGroupByArgs['orderBy'] }
+      : { orderBy?: WorkflowResumptionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, WorkflowResumptionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetWorkflowResumptionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the WorkflowResumption model
+ */
+readonly fields: WorkflowResumptionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for WorkflowResumption.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__WorkflowResumptionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  run<T extends Prisma.WorkflowRunDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WorkflowRunDefaultArgs<ExtArgs>>): Prisma.Prisma__WorkflowRunClient<runtime.Types.Result.GetResult<Prisma.$WorkflowRunPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  workflow<T extends Prisma.WorkflowDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WorkflowDefaultArgs<ExtArgs>>): Prisma.Prisma__WorkflowClient<runtime.Types.Result.GetResult<Prisma.$WorkflowPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the WorkflowResumption model
+ */
+export interface WorkflowResumptionFieldRefs {
+  readonly id: Prisma.FieldRef<"WorkflowResumption", 'String'>
+  readonly runId: Prisma.FieldRef<"WorkflowResumption", 'String'>
+  readonly workflowId: Prisma.FieldRef<"WorkflowResumption", 'String'>
+  readonly waitNodeId: Prisma.FieldRef<"WorkflowResumption", 'String'>
+  readonly resumeNodeId: Prisma.FieldRef<"WorkflowResumption", 'String'>
+  readonly resumeAt: Prisma.FieldRef<"WorkflowResumption", 'DateTime'>
+  readonly status: Prisma.FieldRef<"WorkflowResumption", 'ResumptionStatus'>
+  readonly resumedRunId: Prisma.FieldRef<"WorkflowResumption", 'String'>
+  readonly attempts: Prisma.FieldRef<"WorkflowResumption", 'Int'>
+  readonly lastError: Prisma.FieldRef<"WorkflowResumption", 'String'>
+  readonly createdAt: Prisma.FieldRef<"WorkflowResumption", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"WorkflowResumption", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * WorkflowResumption findUnique
+ */
+export type WorkflowResumptionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowResumption
+   */
+  select?: Prisma.WorkflowResumptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowResumption
+   */
+  omit?: Prisma.WorkflowResumptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowResumptionInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkflowResumption to fetch.
+   */
+  where: Prisma.WorkflowResumptionWhereUniqueInput
+}
+
+/**
+ * WorkflowResumption findUniqueOrThrow
+ */
+export type WorkflowResumptionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowResumption
+   */
+  select?: Prisma.WorkflowResumptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowResumption
+   */
+  omit?: Prisma.WorkflowResumptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowResumptionInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkflowResumption to fetch.
+   */
+  where: Prisma.WorkflowResumptionWhereUniqueInput
+}
+
+/**
+ * WorkflowResumption findFirst
+ */
+export type WorkflowResumptionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowResumption
+   */
+  select?: Prisma.WorkflowResumptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowResumption
+   */
+  omit?: Prisma.WorkflowResumptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowResumptionInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkflowResumption to fetch.
+   */
+  where?: Prisma.WorkflowResumptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkflowResumptions to fetch.
+   */
+  orderBy?: Prisma.WorkflowResumptionOrderByWithRelationInput | Prisma.WorkflowResumptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WorkflowResumptions.
+   */
+  cursor?: Prisma.WorkflowResumptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkflowResumptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkflowResumptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WorkflowResumptions.
+   */
+  distinct?: Prisma.WorkflowResumptionScalarFieldEnum | Prisma.WorkflowResumptionScalarFieldEnum[]
+}
+
+/**
+ * WorkflowResumption findFirstOrThrow
+ */
+export type WorkflowResumptionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowResumption
+   */
+  select?: Prisma.WorkflowResumptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowResumption
+   */
+  omit?: Prisma.WorkflowResumptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowResumptionInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkflowResumption to fetch.
+   */
+  where?: Prisma.WorkflowResumptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkflowResumptions to fetch.
+   */
+  orderBy?: Prisma.WorkflowResumptionOrderByWithRelationInput | Prisma.WorkflowResumptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WorkflowResumptions.
+   */
+  cursor?: Prisma.WorkflowResumptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkflowResumptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkflowResumptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WorkflowResumptions.
+   */
+  distinct?: Prisma.WorkflowResumptionScalarFieldEnum | Prisma.WorkflowResumptionScalarFieldEnum[]
+}
+
+/**
+ * WorkflowResumption findMany
+ */
+export type WorkflowResumptionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowResumption
+   */
+  select?: Prisma.WorkflowResumptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowResumption
+   */
+  omit?: Prisma.WorkflowResumptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowResumptionInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkflowResumptions to fetch.
+   */
+  where?: Prisma.WorkflowResumptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkflowResumptions to fetch.
+   */
+  orderBy?: Prisma.WorkflowResumptionOrderByWithRelationInput | Prisma.WorkflowResumptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing WorkflowResumptions.
+   */
+  cursor?: Prisma.WorkflowResumptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkflowResumptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkflowResumptions.
+   */
+  skip?: number
+  distinct?: Prisma.WorkflowResumptionScalarFieldEnum | Prisma.WorkflowResumptionScalarFieldEnum[]
+}
+
+/**
+ * WorkflowResumption create
+ */
+export type WorkflowResumptionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowResumption
+   */
+  select?: Prisma.WorkflowResumptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowResumption
+   */
+  omit?: Prisma.WorkflowResumptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowResumptionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a WorkflowResumption.
+   */
+  data: Prisma.XOR<Prisma.WorkflowResumptionCreateInput, Prisma.WorkflowResumptionUncheckedCreateInput>
+}
+
+/**
+ * WorkflowResumption createMany
+ */
+export type WorkflowResumptionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many WorkflowResumptions.
+   */
+  data: Prisma.WorkflowResumptionCreateManyInput | Prisma.WorkflowResumptionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * WorkflowResumption createManyAndReturn
+ */
+export type WorkflowResumptionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowResumption
+   */
+  select?: Prisma.WorkflowResumptionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowResumption
+   */
+  omit?: Prisma.WorkflowResumptionOmit<ExtArgs> | null
+  /**
+   * The data used to create many WorkflowResumptions.
+   */
+  data: Prisma.WorkflowResumptionCreateManyInput | Prisma.WorkflowResumptionCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowResumptionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WorkflowResumption update
+ */
+export type WorkflowResumptionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowResumption
+   */
+  select?: Prisma.WorkflowResumptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowResumption
+   */
+  omit?: Prisma.WorkflowResumptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowResumptionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a WorkflowResumption.
+   */
+  data: Prisma.XOR<Prisma.WorkflowResumptionUpdateInput, Prisma.WorkflowResumptionUncheckedUpdateInput>
+  /**
+   * Choose, which WorkflowResumption to update.
+   */
+  where: Prisma.WorkflowResumptionWhereUniqueInput
+}
+
+/**
+ * WorkflowResumption updateMany
+ */
+export type WorkflowResumptionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update WorkflowResumptions.
+   */
+  data: Prisma.XOR<Prisma.WorkflowResumptionUpdateManyMutationInput, Prisma.WorkflowResumptionUncheckedUpdateManyInput>
+  /**
+   * Filter which WorkflowResumptions to update
+   */
+  where?: Prisma.WorkflowResumptionWhereInput
+  /**
+   * Limit how many WorkflowResumptions to update.
+   */
+  limit?: number
+}
+
+/**
+ * WorkflowResumption updateManyAndReturn
+ */
+export type WorkflowResumptionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowResumption
+   */
+  select?: Prisma.WorkflowResumptionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowResumption
+   */
+  omit?: Prisma.WorkflowResumptionOmit<ExtArgs> | null
+  /**
+   * The data used to update WorkflowResumptions.
+   */
+  data: Prisma.XOR<Prisma.WorkflowResumptionUpdateManyMutationInput, Prisma.WorkflowResumptionUncheckedUpdateManyInput>
+  /**
+   * Filter which WorkflowResumptions to update
+   */
+  where?: Prisma.WorkflowResumptionWhereInput
+  /**
+   * Limit how many WorkflowResumptions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowResumptionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WorkflowResumption upsert
+ */
+export type WorkflowResumptionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowResumption
+   */
+  select?: Prisma.WorkflowResumptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowResumption
+   */
+  omit?: Prisma.WorkflowResumptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowResumptionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the WorkflowResumption to update in case it exists.
+   */
+  where: Prisma.WorkflowResumptionWhereUniqueInput
+  /**
+   * In case the WorkflowResumption found by the `where` argument doesn't exist, create a new WorkflowResumption with this data.
+   */
+  create: Prisma.XOR<Prisma.WorkflowResumptionCreateInput, Prisma.WorkflowResumptionUncheckedCreateInput>
+  /**
+   * In case the WorkflowResumption was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.WorkflowResumptionUpdateInput, Prisma.WorkflowResumptionUncheckedUpdateInput>
+}
+
+/**
+ * WorkflowResumption delete
+ */
+export type WorkflowResumptionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowResumption
+   */
+  select?: Prisma.WorkflowResumptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowResumption
+   */
+  omit?: Prisma.WorkflowResumptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowResumptionInclude<ExtArgs> | null
+  /**
+   * Filter which WorkflowResumption to delete.
+   */
+  where: Prisma.WorkflowResumptionWhereUniqueInput
+}
+
+/**
+ * WorkflowResumption deleteMany
+ */
+export type WorkflowResumptionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WorkflowResumptions to delete
+   */
+  where?: Prisma.WorkflowResumptionWhereInput
+  /**
+   * Limit how many WorkflowResumptions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * WorkflowResumption without action
+ */
+export type WorkflowResumptionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowResumption
+   */
+  select?: Prisma.WorkflowResumptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowResumption
+   */
+  omit?: Prisma.WorkflowResumptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowResumptionInclude<ExtArgs> | null
+}
@@ -0,0 +1,2614 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `WorkflowRun` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model WorkflowRun
+ * 
+ */
+export type WorkflowRunModel = runtime.Types.Result.DefaultSelection<Prisma.$WorkflowRunPayload>
+
+export type AggregateWorkflowRun = {
+  _count: WorkflowRunCountAggregateOutputType | null
+  _avg: WorkflowRunAvgAggregateOutputType | null
+  _sum: WorkflowRunSumAggregateOutputType | null
+  _min: WorkflowRunMinAggregateOutputType | null
+  _max: WorkflowRunMaxAggregateOutputType | null
+}
+
+export type WorkflowRunAvgAggregateOutputType = {
+  version: number | null
+  totalSteps: number | null
+  gasUsed: number | null
+}
+
+export type WorkflowRunSumAggregateOutputType = {
+  version: number | null
+  totalSteps: number | null
+  gasUsed: bigint | null
+}
+
+export type WorkflowRunMinAggregateOutputType = {
+  id: string | null
+  workflowId: string | null
+  onChainWorkflowId: string | null
+  status: $Enums.ExecutionStatus | null
+  trigger: string | null
+  version: number | null
+  idempotencyKey: string | null
+  txHash: string | null
+  totalSteps: number | null
+  gasUsed: bigint | null
+  vmStatus: string | null
+  errorMessage: string | null
+  errorCode: string | null
+  errorNodeId: string | null
+  startedAt: Date | null
+  completedAt: Date | null
+}
+
+export type WorkflowRunMaxAggregateOutputType = {
+  id: string | null
+  workflowId: string | null
+  onChainWorkflowId: string | null
+  status: $Enums.ExecutionStatus | null
+  trigger: string | null
+  version: number | null
+  idempotencyKey: string | null
+  txHash: string | null
+  totalSteps: number | null
+  gasUsed: bigint | null
+  vmStatus: string | null
+  errorMessage: string | null
+  errorCode: string | null
+  errorNodeId: string | null
+  startedAt: Date | null
+  completedAt: Date | null
+}
+
+export type WorkflowRunCountAggregateOutputType = {
+  id: number
+  workflowId: number
+  onChainWorkflowId: number
+  status: number
+  trigger: number
+  version: number
+  idempotencyKey: number
+  triggerContext: number
+  conditionTrace: number
+  txHash: number
+  totalSteps: number
+  gasUsed: number
+  vmStatus: number
+  errorMessage: number
+  errorCode: number
+  errorNodeId: number
+  startedAt: number
+  completedAt: number
+  _all: number
+}
+
+
+export type WorkflowRunAvgAggregateInputType = {
+  version?: true
+  totalSteps?: true
+  gasUsed?: true
+}
+
+export type WorkflowRunSumAggregateInputType = {
+  version?: true
+  totalSteps?: true
+  gasUsed?: true
+}
+
+export type WorkflowRunMinAggregateInputType = {
+  id?: true
+  workflowId?: true
+  onChainWorkflowId?: true
+  status?: true
+  trigger?: true
+  version?: true
+  idempotencyKey?: true
+  txHash?: true
+  totalSteps?: true
+  gasUsed?: true
+  vmStatus?: true
+  errorMessage?: true
+  errorCode?: true
+  errorNodeId?: true
+  startedAt?: true
+  completedAt?: true
+}
+
+export type WorkflowRunMaxAggregateInputType = {
+  id?: true
+  workflowId?: true
+  onChainWorkflowId?: true
+  status?: true
+  trigger?: true
+  version?: true
+  idempotencyKey?: true
+  txHash?: true
+  totalSteps?: true
+  gasUsed?: true
+  vmStatus?: true
+  errorMessage?: true
+  errorCode?: true
+  errorNodeId?: true
+  startedAt?: true
+  completedAt?: true
+}
+
+export type WorkflowRunCountAggregateInputType = {
+  id?: true
+  workflowId?: true
+  onChainWorkflowId?: true
+  status?: true
+  trigger?: true
+  version?: true
+  idempotencyKey?: true
+  triggerContext?: true
+  conditionTrace?: true
+  txHash?: true
+  totalSteps?: true
+  gasUsed?: true
+  vmStatus?: true
+  errorMessage?: true
+  errorCode?: true
+  errorNodeId?: true
+  startedAt?: true
+  completedAt?: true
+  _all?: true
+}
+
+export type WorkflowRunAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WorkflowRun to aggregate.
+   */
+  where?: Prisma.WorkflowRunWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkflowRuns to fetch.
+   */
+  orderBy?: Prisma.WorkflowRunOrderByWithRelationInput | Prisma.WorkflowRunOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.WorkflowRunWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkflowRuns from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkflowRuns.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned WorkflowRuns
+  **/
+  _count?: true | WorkflowRunCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: WorkflowRunAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: WorkflowRunSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: WorkflowRunMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: WorkflowRunMaxAggregateInputType
+}
+
+export type GetWorkflowRunAggregateType<T extends WorkflowRunAggregateArgs> = {
+      [P in keyof T & keyof AggregateWorkflowRun]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateWorkflowRun[P]>
+    : Prisma.GetScalarType<T[P], AggregateWorkflowRun[P]>
+}
+
+
+
+
+export type WorkflowRunGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WorkflowRunWhereInput
+  orderBy?: Prisma.WorkflowRunOrderByWithAggregationInput | Prisma.WorkflowRunOrderByWithAggregationInput[]
+  by: Prisma.WorkflowRunScalarFieldEnum[] | Prisma.WorkflowRunScalarFieldEnum
+  having?: Prisma.WorkflowRunScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: WorkflowRunCountAggregateInputType | true
+  _avg?: WorkflowRunAvgAggregateInputType
+  _sum?: WorkflowRunSumAggregateInputType
+  _min?: WorkflowRunMinAggregateInputType
+  _max?: WorkflowRunMaxAggregateInputType
+}
+
+export type WorkflowRunGroupByOutputType = {
+  id: string
+  workflowId: string
+  onChainWorkflowId: string | null
+  status: $Enums.ExecutionStatus
+  trigger: string
+  version: number | null
+  idempotencyKey: string | null
+  triggerContext: runtime.JsonValue | null
+  conditionTrace: runtime.JsonValue | null
+  txHash: string | null
+  totalSteps: number | null
+  gasUsed: bigint | null
+  vmStatus: string | null
+  errorMessage: string | null
+  errorCode: string | null
+  errorNodeId: string | null
+  startedAt: Date
+  completedAt: Date | null
+  _count: WorkflowRunCountAggregateOutputType | null
+  _avg: WorkflowRunAvgAggregateOutputType | null
+  _sum: WorkflowRunSumAggregateOutputType | null
+  _min: WorkflowRunMinAggregateOutputType | null
+  _max: WorkflowRunMaxAggregateOutputType | null
+}
+
+type GetWorkflowRunGroupByPayload<T extends WorkflowRunGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<WorkflowRunGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof WorkflowRunGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], WorkflowRunGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], WorkflowRunGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type WorkflowRunWhereInput = {
+  AND?: Prisma.WorkflowRunWhereInput | Prisma.WorkflowRunWhereInput[]
+  OR?: Prisma.WorkflowRunWhereInput[]
+  NOT?: Prisma.WorkflowRunWhereInput | Prisma.WorkflowRunWhereInput[]
+  id?: Prisma.StringFilter<"WorkflowRun"> | string
+  workflowId?: Prisma.StringFilter<"WorkflowRun"> | string
+  onChainWorkflowId?: Prisma.StringNullableFilter<"WorkflowRun"> | string | null
+  status?: Prisma.EnumExecutionStatusFilter<"WorkflowRun"> | $Enums.ExecutionStatus
+  trigger?: Prisma.StringFilter<"WorkflowRun"> | string
+  version?: Prisma.IntNullableFilter<"WorkflowRun"> | number | null
+  idempotencyKey?: Prisma.StringNullableFilter<"WorkflowRun"> | string | null
+  triggerContext?: Prisma.JsonNullableFilter<"WorkflowRun">
+  conditionTrace?: Prisma.JsonNullableFilter<"WorkflowRun">
+  txHash?: Prisma.StringNullableFilter<"WorkflowRun"> | string | null
+  totalSteps?: Prisma.IntNullableFilter<"WorkflowRun"> | number | null
+  gasUsed?: Prisma.BigIntNullableFilter<"WorkflowRun"> | bigint | number | null
+  vmStatus?: Prisma.StringNullableFilter<"WorkflowRun"> | string | null
+  errorMessage?: Prisma.StringNullableFilter<"WorkflowRun"> | string | null
+  errorCode?: Prisma.StringNullableFilter<"WorkflowRun"> | string | null
+  errorNodeId?: Prisma.StringNullableFilter<"WorkflowRun"> | string | null
+  startedAt?: Prisma.DateTimeFilter<"WorkflowRun"> | Date | string
+  completedAt?: Prisma.DateTimeNullableFilter<"WorkflowRun"> | Date | string | null
+  workflow?: Prisma.XOR<Prisma.WorkflowScalarRelationFilter, Prisma.WorkflowWhereInput>
+  onChainWorkflow?: Prisma.XOR<Prisma.OnChainWorkflowNullableScalarRelationFilter, Prisma.OnChainWorkflowWhereInput> | null
+  steps?: Prisma.WorkflowRunStepListRelationFilter
+  resumptions?: Prisma.WorkflowResumptionListRelationFilter
+  scheduleFire?: Prisma.XOR<Prisma.ScheduleFireNullableScalarRelationFilter, Prisma.ScheduleFireWhereInput> | null
+}
+
+export type WorkflowRunOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  onChainWorkflowId?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  trigger?: Prisma.SortOrder
+  version?: Prisma.SortOrderInput | Prisma.SortOrder
+  idempotencyKey?: Prisma.SortOrderInput | Prisma.SortOrder
+  triggerContext?: Prisma.SortOrderInput | Prisma.SortOrder
+  conditionTrace?: Prisma.SortOrderInput | Prisma.SortOrder
+  txHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  totalSteps?: Prisma.SortOrderInput | Prisma.SortOrder
+  gasUsed?: Prisma.SortOrderInput | Prisma.SortOrder
+  vmStatus?: Prisma.SortOrderInput | Prisma.SortOrder
+  errorMessage?: Prisma.SortOrderInput | Prisma.SortOrder
+  errorCode?: Prisma.SortOrderInput | Prisma.SortOrder
+  errorNodeId?: Prisma.SortOrderInput | Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  completedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  workflow?: Prisma.WorkflowOrderByWithRelationInput
+  onChainWorkflow?: Prisma.OnChainWorkflowOrderByWithRelationInput
+  steps?: Prisma.WorkflowRunStepOrderByRelationAggregateInput
+  resumptions?: Prisma.WorkflowResumptionOrderByRelationAggregateInput
+  scheduleFire?: Prisma.ScheduleFireOrderByWithRelationInput
+}
+
+export type WorkflowRunWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  idempotencyKey?: string
+  txHash?: string
+  AND?: Prisma.WorkflowRunWhereInput | Prisma.WorkflowRunWhereInput[]
+  OR?: Prisma.WorkflowRunWhereInput[]
+  NOT?: Prisma.WorkflowRunWhereInput | Prisma.WorkflowRunWhereInput[]
+  workflowId?: Prisma.StringFilter<"WorkflowRun"> | string
+  onChainWorkflowId?: Prisma.StringNullableFilter<"WorkflowRun"> | string | null
+  status?: Prisma.EnumExecutionStatusFilter<"WorkflowRun"> | $Enums.ExecutionStatus
+  trigger?: Prisma.StringFilter<"WorkflowRun"> | string
+  version?: Prisma.IntNullableFilter<"WorkflowRun"> | number | null
+  triggerContext?: Prisma.JsonNullableFilter<"WorkflowRun">
+  conditionTrace?: Prisma.JsonNullableFilter<"WorkflowRun">
+  totalSteps?: Prisma.IntNullableFilter<"WorkflowRun"> | number | null
+  gasUsed?: Prisma.BigIntNullableFilter<"WorkflowRun"> | bigint | number | null
+  vmStatus?: Prisma.StringNullableFilter<"WorkflowRun"> | string | null
+  errorMessage?: Prisma.StringNullableFilter<"WorkflowRun"> | string | null
+  errorCode?: Prisma.StringNullableFilter<"WorkflowRun"> | string | null
+  errorNodeId?: Prisma.StringNullableFilter<"WorkflowRun"> | string | null
+  startedAt?: Prisma.DateTimeFilter<"WorkflowRun"> | Date | string
+  completedAt?: Prisma.DateTimeNullableFilter<"WorkflowRun"> | Date | string | null
+  workflow?: Prisma.XOR<Prisma.WorkflowScalarRelationFilter, Prisma.WorkflowWhereInput>
+  onChainWorkflow?: Prisma.XOR<Prisma.OnChainWorkflowNullableScalarRelationFilter, Prisma.OnChainWorkflowWhereInput> | null
+  steps?: Prisma.WorkflowRunStepListRelationFilter
+  resumptions?: Prisma.WorkflowResumptionListRelationFilter
+  scheduleFire?: Prisma.XOR<Prisma.ScheduleFireNullableScalarRelationFilter, Prisma.ScheduleFireWhereInput> | null
+}, "id" | "idempotencyKey" | "txHash">
+
+export type WorkflowRunOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  onChainWorkflowId?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  trigger?: Prisma.SortOrder
+  version?: Prisma.SortOrderInput | Prisma.SortOrder
+  idempotencyKey?: Prisma.SortOrderInput | Prisma.SortOrder
+  triggerContext?: Prisma.SortOrderInput | Prisma.SortOrder
+  conditionTrace?: Prisma.SortOrderInput | Prisma.SortOrder
+  txHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  totalSteps?: Prisma.SortOrderInput | Prisma.SortOrder
+  gasUsed?: Prisma.SortOrderInput | Prisma.SortOrder
+  vmStatus?: Prisma.SortOrderInput | Prisma.SortOrder
+  errorMessage?: Prisma.SortOrderInput | Prisma.SortOrder
+  errorCode?: Prisma.SortOrderInput | Prisma.SortOrder
+  errorNodeId?: Prisma.SortOrderInput | Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  completedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  _count?: Prisma.WorkflowRunCountOrderByAggregateInput
+  _avg?: Prisma.WorkflowRunAvgOrderByAggregateInput
+  _max?: Prisma.WorkflowRunMaxOrderByAggregateInput
+  _min?: Prisma.WorkflowRunMinOrderByAggregateInput
+  _sum?: Prisma.WorkflowRunSumOrderByAggregateInput
+}
+
+export type WorkflowRunScalarWhereWithAggregatesInput = {
+  AND?: Prisma.WorkflowRunScalarWhereWithAggregatesInput | Prisma.WorkflowRunScalarWhereWithAggregatesInput[]
+  OR?: Prisma.WorkflowRunScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.WorkflowRunScalarWhereWithAggregatesInput | Prisma.WorkflowRunScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"WorkflowRun"> | string
+  workflowId?: Prisma.StringWithAggregatesFilter<"WorkflowRun"> | string
+  onChainWorkflowId?: Prisma.StringNullableWithAggregatesFilter<"WorkflowRun"> | string | null
+  status?: Prisma.EnumExecutionStatusWithAggregatesFilter<"WorkflowRun"> | $Enums.ExecutionStatus
+  trigger?: Prisma.StringWithAggregatesFilter<"WorkflowRun"> | string
+  version?: Prisma.IntNullableWithAggregatesFilter<"WorkflowRun"> | number | null
+  idempotencyKey?: Prisma.StringNullableWithAggregatesFilter<"WorkflowRun"> | string | null
+  triggerContext?: Prisma.JsonNullableWithAggregatesFilter<"WorkflowRun">
+  conditionTrace?: Prisma.JsonNullableWithAggregatesFilter<"WorkflowRun">
+  txHash?: Prisma.StringNullableWithAggregatesFilter<"WorkflowRun"> | string | null
+  totalSteps?: Prisma.IntNullableWithAggregatesFilter<"WorkflowRun"> | number | null
+  gasUsed?: Prisma.BigIntNullableWithAggregatesFilter<"WorkflowRun"> | bigint | number | null
+  vmStatus?: Prisma.StringNullableWithAggregatesFilter<"WorkflowRun"> | string | null
+  errorMessage?: Prisma.StringNullableWithAggregatesFilter<"WorkflowRun"> | string | null
+  errorCode?: Prisma.StringNullableWithAggregatesFilter<"WorkflowRun"> | string | null
+  errorNodeId?: Prisma.StringNullableWithAggregatesFilter<"WorkflowRun"> | string | null
+  startedAt?: Prisma.DateTimeWithAggregatesFilter<"WorkflowRun"> | Date | string
+  completedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"WorkflowRun"> | Date | string | null
+}
+
+export type WorkflowRunCreateInput = {
+  id?: string
+  status?: $Enums.ExecutionStatus
+  trigger?: string
+  version?: number | null
+  idempotencyKey?: string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: string | null
+  totalSteps?: number | null
+  gasUsed?: bigint | number | null
+  vmStatus?: string | null
+  errorMessage?: string | null
+  errorCode?: string | null
+  errorNodeId?: string | null
+  startedAt?: Date | string
+  completedAt?: Date | string | null
+  workflow: Prisma.WorkflowCreateNestedOneWithoutRunsInput
+  onChainWorkflow?: Prisma.OnChainWorkflowCreateNestedOneWithoutRunsInput
+  steps?: Prisma.WorkflowRunStepCreateNestedManyWithoutRunInput
+  resumptions?: Prisma.WorkflowResumptionCreateNestedManyWithoutRunInput
+  scheduleFire?: Prisma.ScheduleFireCreateNestedOneWithoutRunInput
+}
+
+export type WorkflowRunUncheckedCreateInput = {
+  id?: string
+  workflowId: string
+  onChainWorkflowId?: string | null
+  status?: $Enums.ExecutionStatus
+  trigger?: string
+  version?: number | null
+  idempotencyKey?: string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: string | null
+  totalSteps?: number | null
+  gasUsed?: bigint | number | null
+  vmStatus?: string | null
+  errorMessage?: string | null
+  errorCode?: string | null
+  errorNodeId?: string | null
+  startedAt?: Date | string
+  completedAt?: Date | string | null
+  steps?: Prisma.WorkflowRunStepUncheckedCreateNestedManyWithoutRunInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedCreateNestedManyWithoutRunInput
+  scheduleFire?: Prisma.ScheduleFireUncheckedCreateNestedOneWithoutRunInput
+}
+
+export type WorkflowRunUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  trigger?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  idempotencyKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  totalSteps?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gasUsed?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  vmStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  workflow?: Prisma.WorkflowUpdateOneRequiredWithoutRunsNestedInput
+  onChainWorkflow?: Prisma.OnChainWorkflowUpdateOneWithoutRunsNestedInput
+  steps?: Prisma.WorkflowRunStepUpdateManyWithoutRunNestedInput
+  resumptions?: Prisma.WorkflowResumptionUpdateManyWithoutRunNestedInput
+  scheduleFire?: Prisma.ScheduleFireUpdateOneWithoutRunNestedInput
+}
+
+export type WorkflowRunUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  onChainWorkflowId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  trigger?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  idempotencyKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  totalSteps?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gasUsed?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  vmStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  steps?: Prisma.WorkflowRunStepUncheckedUpdateManyWithoutRunNestedInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedUpdateManyWithoutRunNestedInput
+  scheduleFire?: Prisma.ScheduleFireUncheckedUpdateOneWithoutRunNestedInput
+}
+
+export type WorkflowRunCreateManyInput = {
+  id?: string
+  workflowId: string
+  onChainWorkflowId?: string | null
+  status?: $Enums.ExecutionStatus
+  trigger?: string
+  version?: number | null
+  idempotencyKey?: string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: string | null
+  totalSteps?: number | null
+  gasUsed?: bigint | number | null
+  vmStatus?: string | null
+  errorMessage?: string | null
+  errorCode?: string | null
+  errorNodeId?: string | null
+  startedAt?: Date | string
+  completedAt?: Date | string | null
+}
+
+export type WorkflowRunUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  trigger?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  idempotencyKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  totalSteps?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gasUsed?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  vmStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type WorkflowRunUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  onChainWorkflowId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  trigger?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  idempotencyKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  totalSteps?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gasUsed?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  vmStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type WorkflowRunListRelationFilter = {
+  every?: Prisma.WorkflowRunWhereInput
+  some?: Prisma.WorkflowRunWhereInput
+  none?: Prisma.WorkflowRunWhereInput
+}
+
+export type WorkflowRunOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type WorkflowRunCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  onChainWorkflowId?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  trigger?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  idempotencyKey?: Prisma.SortOrder
+  triggerContext?: Prisma.SortOrder
+  conditionTrace?: Prisma.SortOrder
+  txHash?: Prisma.SortOrder
+  totalSteps?: Prisma.SortOrder
+  gasUsed?: Prisma.SortOrder
+  vmStatus?: Prisma.SortOrder
+  errorMessage?: Prisma.SortOrder
+  errorCode?: Prisma.SortOrder
+  errorNodeId?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  completedAt?: Prisma.SortOrder
+}
+
+export type WorkflowRunAvgOrderByAggregateInput = {
+  version?: Prisma.SortOrder
+  totalSteps?: Prisma.SortOrder
+  gasUsed?: Prisma.SortOrder
+}
+
+export type WorkflowRunMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  onChainWorkflowId?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  trigger?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  idempotencyKey?: Prisma.SortOrder
+  txHash?: Prisma.SortOrder
+  totalSteps?: Prisma.SortOrder
+  gasUsed?: Prisma.SortOrder
+  vmStatus?: Prisma.SortOrder
+  errorMessage?: Prisma.SortOrder
+  errorCode?: Prisma.SortOrder
+  errorNodeId?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  completedAt?: Prisma.SortOrder
+}
+
+export type WorkflowRunMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  onChainWorkflowId?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  trigger?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  idempotencyKey?: Prisma.SortOrder
+  txHash?: Prisma.SortOrder
+  totalSteps?: Prisma.SortOrder
+  gasUsed?: Prisma.SortOrder
+  vmStatus?: Prisma.SortOrder
+  errorMessage?: Prisma.SortOrder
+  errorCode?: Prisma.SortOrder
+  errorNodeId?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  completedAt?: Prisma.SortOrder
+}
+
+export type WorkflowRunSumOrderByAggregateInput = {
+  version?: Prisma.SortOrder
+  totalSteps?: Prisma.SortOrder
+  gasUsed?: Prisma.SortOrder
+}
+
+export type WorkflowRunScalarRelationFilter = {
+  is?: Prisma.WorkflowRunWhereInput
+  isNot?: Prisma.WorkflowRunWhereInput
+}
+
+export type WorkflowRunNullableScalarRelationFilter = {
+  is?: Prisma.WorkflowRunWhereInput | null
+  isNot?: Prisma.WorkflowRunWhereInput | null
+}
+
+export type WorkflowRunCreateNestedManyWithoutWorkflowInput = {
+  create?: Prisma.XOR<Prisma.WorkflowRunCreateWithoutWorkflowInput, Prisma.WorkflowRunUncheckedCreateWithoutWorkflowInput> | Prisma.WorkflowRunCreateWithoutWorkflowInput[] | Prisma.WorkflowRunUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.WorkflowRunCreateOrConnectWithoutWorkflowInput | Prisma.WorkflowRunCreateOrConnectWithoutWorkflowInput[]
+  createMany?: Prisma.WorkflowRunCreateManyWorkflowInputEnvelope
+  connect?: Prisma.WorkflowRunWhereUniqueInput | Prisma.WorkflowRunWhereUniqueInput[]
+}
+
+export type WorkflowRunUncheckedCreateNestedManyWithoutWorkflowInput = {
+  create?: Prisma.XOR<Prisma.WorkflowRunCreateWithoutWorkflowInput, Prisma.WorkflowRunUncheckedCreateWithoutWorkflowInput> | Prisma.WorkflowRunCreateWithoutWorkflowInput[] | Prisma.WorkflowRunUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.WorkflowRunCreateOrConnectWithoutWorkflowInput | Prisma.WorkflowRunCreateOrConnectWithoutWorkflowInput[]
+  createMany?: Prisma.WorkflowRunCreateManyWorkflowInputEnvelope
+  connect?: Prisma.WorkflowRunWhereUniqueInput | Prisma.WorkflowRunWhereUniqueInput[]
+}
+
+export type WorkflowRunUpdateManyWithoutWorkflowNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowRunCreateWithoutWorkflowInput, Prisma.WorkflowRunUncheckedCreateWithoutWorkflowInput> | Prisma.WorkflowRunCreateWithoutWorkflowInput[] | Prisma.WorkflowRunUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.WorkflowRunCreateOrConnectWithoutWorkflowInput | Prisma.WorkflowRunCreateOrConnectWithoutWorkflowInput[]
+  upsert?: Prisma.WorkflowRunUpsertWithWhereUniqueWithoutWorkflowInput | Prisma.WorkflowRunUpsertWithWhereUniqueWithoutWorkflowInput[]
+  createMany?: Prisma.WorkflowRunCreateManyWorkflowInputEnvelope
+  set?: Prisma.WorkflowRunWhereUniqueInput | Prisma.WorkflowRunWhereUniqueInput[]
+  disconnect?: Prisma.WorkflowRunWhereUniqueInput | Prisma.WorkflowRunWhereUniqueInput[]
+  delete?: Prisma.WorkflowRunWhereUniqueInput | Prisma.WorkflowRunWhereUniqueInput[]
+  connect?: Prisma.WorkflowRunWhereUniqueInput | Prisma.WorkflowRunWhereUniqueInput[]
+  update?: Prisma.WorkflowRunUpdateWithWhereUniqueWithoutWorkflowInput | Prisma.WorkflowRunUpdateWithWhereUniqueWithoutWorkflowInput[]
+  updateMany?: Prisma.WorkflowRunUpdateManyWithWhereWithoutWorkflowInput | Prisma.WorkflowRunUpdateManyWithWhereWithoutWorkflowInput[]
+  deleteMany?: Prisma.WorkflowRunScalarWhereInput | Prisma.WorkflowRunScalarWhereInput[]
+}
+
+export type WorkflowRunUncheckedUpdateManyWithoutWorkflowNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowRunCreateWithoutWorkflowInput, Prisma.WorkflowRunUncheckedCreateWithoutWorkflowInput> | Prisma.WorkflowRunCreateWithoutWorkflowInput[] | Prisma.WorkflowRunUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.WorkflowRunCreateOrConnectWithoutWorkflowInput | Prisma.WorkflowRunCreateOrConnectWithoutWorkflowInput[]
+  upsert?: Prisma.WorkflowRunUpsertWithWhereUniqueWithoutWorkflowInput | Prisma.WorkflowRunUpsertWithWhereUniqueWithoutWorkflowInput[]
+  createMany?: Prisma.WorkflowRunCreateManyWorkflowInputEnvelope
+  set?: Prisma.WorkflowRunWhereUniqueInput | Prisma.WorkflowRunWhereUniqueInput[]
+  disconnect?: Prisma.WorkflowRunWhereUniqueInput | Prisma.WorkflowRunWhereUniqueInput[]
+  delete?: Prisma.WorkflowRunWhereUniqueInput | Prisma.WorkflowRunWhereUniqueInput[]
+  connect?: Prisma.WorkflowRunWhereUniqueInput | Prisma.WorkflowRunWhereUniqueInput[]
+  update?: Prisma.WorkflowRunUpdateWithWhereUniqueWithoutWorkflowInput | Prisma.WorkflowRunUpdateWithWhereUniqueWithoutWorkflowInput[]
+  updateMany?: Prisma.WorkflowRunUpdateManyWithWhereWithoutWorkflowInput | Prisma.WorkflowRunUpdateManyWithWhereWithoutWorkflowInput[]
+  deleteMany?: Prisma.WorkflowRunScalarWhereInput | Prisma.WorkflowRunScalarWhereInput[]
+}
+
+export type WorkflowRunCreateNestedManyWithoutOnChainWorkflowInput = {
+  create?: Prisma.XOR<Prisma.WorkflowRunCreateWithoutOnChainWorkflowInput, Prisma.WorkflowRunUncheckedCreateWithoutOnChainWorkflowInput> | Prisma.WorkflowRunCreateWithoutOnChainWorkflowInput[] | Prisma.WorkflowRunUncheckedCreateWithoutOnChainWorkflowInput[]
+  connectOrCreate?: Prisma.WorkflowRunCreateOrConnectWithoutOnChainWorkflowInput | Prisma.WorkflowRunCreateOrConnectWithoutOnChainWorkflowInput[]
+  createMany?: Prisma.WorkflowRunCreateManyOnChainWorkflowInputEnvelope
+  connect?: Prisma.WorkflowRunWhereUniqueInput | Prisma.WorkflowRunWhereUniqueInput[]
+}
+
+export type WorkflowRunUncheckedCreateNestedManyWithoutOnChainWorkflowInput = {
+  create?: Prisma.XOR<Prisma.WorkflowRunCreateWithoutOnChainWorkflowInput, Prisma.WorkflowRunUncheckedCreateWithoutOnChainWorkflowInput> | Prisma.WorkflowRunCreateWithoutOnChainWorkflowInput[] | Prisma.WorkflowRunUncheckedCreateWithoutOnChainWorkflowInput[]
+  connectOrCreate?: Prisma.WorkflowRunCreateOrConnectWithoutOnChainWorkflowInput | Prisma.WorkflowRunCreateOrConnectWithoutOnChainWorkflowInput[]
+  createMany?: Prisma.WorkflowRunCreateManyOnChainWorkflowInputEnvelope
+  connect?: Prisma.WorkflowRunWhereUniqueInput | Prisma.WorkflowRunWhereUniqueInput[]
+}
+
+export type WorkflowRunUpdateManyWithoutOnChainWorkflowNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowRunCreateWithoutOnChainWorkflowInput, Prisma.WorkflowRunUncheckedCreateWithoutOnChainWorkflowInput> | Prisma.WorkflowRunCreateWithoutOnChainWorkflowInput[] | Prisma.WorkflowRunUncheckedCreateWithoutOnChainWorkflowInput[]
+  connectOrCreate?: Prisma.WorkflowRunCreateOrConnectWithoutOnChainWorkflowInput | Prisma.WorkflowRunCreateOrConnectWithoutOnChainWorkflowInput[]
+  upsert?: Prisma.WorkflowRunUpsertWithWhereUniqueWithoutOnChainWorkflowInput | Prisma.WorkflowRunUpsertWithWhereUniqueWithoutOnChainWorkflowInput[]
+  createMany?: Prisma.WorkflowRunCreateManyOnChainWorkflowInputEnvelope
+  set?: Prisma.WorkflowRunWhereUniqueInput | Prisma.WorkflowRunWhereUniqueInput[]
+  disconnect?: Prisma.WorkflowRunWhereUniqueInput | Prisma.WorkflowRunWhereUniqueInput[]
+  delete?: Prisma.WorkflowRunWhereUniqueInput | Prisma.WorkflowRunWhereUniqueInput[]
+  connect?: Prisma.WorkflowRunWhereUniqueInput | Prisma.WorkflowRunWhereUniqueInput[]
+  update?: Prisma.WorkflowRunUpdateWithWhereUniqueWithoutOnChainWorkflowInput | Prisma.WorkflowRunUpdateWithWhereUniqueWithoutOnChainWorkflowInput[]
+  updateMany?: Prisma.WorkflowRunUpdateManyWithWhereWithoutOnChainWorkflowInput | Prisma.WorkflowRunUpdateManyWithWhereWithoutOnChainWorkflowInput[]
+  deleteMany?: Prisma.WorkflowRunScalarWhereInput | Prisma.WorkflowRunScalarWhereInput[]
+}
+
+export type WorkflowRunUncheckedUpdateManyWithoutOnChainWorkflowNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowRunCreateWithoutOnChainWorkflowInput, Prisma.WorkflowRunUncheckedCreateWithoutOnChainWorkflowInput> | Prisma.WorkflowRunCreateWithoutOnChainWorkflowInput[] | Prisma.WorkflowRunUncheckedCreateWithoutOnChainWorkflowInput[]
+  connectOrCreate?: Prisma.WorkflowRunCreateOrConnectWithoutOnChainWorkflowInput | Prisma.WorkflowRunCreateOrConnectWithoutOnChainWorkflowInput[]
+  upsert?: Prisma.WorkflowRunUpsertWithWhereUniqueWithoutOnChainWorkflowInput | Prisma.WorkflowRunUpsertWithWhereUniqueWithoutOnChainWorkflowInput[]
+  createMany?: Prisma.WorkflowRunCreateManyOnChainWorkflowInputEnvelope
+  set?: Prisma.WorkflowRunWhereUniqueInput | Prisma.WorkflowRunWhereUniqueInput[]
+  disconnect?: Prisma.WorkflowRunWhereUniqueInput | Prisma.WorkflowRunWhereUniqueInput[]
+  delete?: Prisma.WorkflowRunWhereUniqueInput | Prisma.WorkflowRunWhereUniqueInput[]
+  connect?: Prisma.WorkflowRunWhereUniqueInput | Prisma.WorkflowRunWhereUniqueInput[]
+  update?: Prisma.WorkflowRunUpdateWithWhereUniqueWithoutOnChainWorkflowInput | Prisma.WorkflowRunUpdateWithWhereUniqueWithoutOnChainWorkflowInput[]
+  updateMany?: Prisma.WorkflowRunUpdateManyWithWhereWithoutOnChainWorkflowInput | Prisma.WorkflowRunUpdateManyWithWhereWithoutOnChainWorkflowInput[]
+  deleteMany?: Prisma.WorkflowRunScalarWhereInput | Prisma.WorkflowRunScalarWhereInput[]
+}
+
+export type NullableIntFieldUpdateOperationsInput = {
+  set?: number | null
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+export type NullableBigIntFieldUpdateOperationsInput = {
+  set?: bigint | number | null
+  increment?: bigint | number
+  decrement?: bigint | number
+  multiply?: bigint | number
+  divide?: bigint | number
+}
+
+export type WorkflowRunCreateNestedOneWithoutStepsInput = {
+  create?: Prisma.XOR<Prisma.WorkflowRunCreateWithoutStepsInput, Prisma.WorkflowRunUncheckedCreateWithoutStepsInput>
+  connectOrCreate?: Prisma.WorkflowRunCreateOrConnectWithoutStepsInput
+  connect?: Prisma.WorkflowRunWhereUniqueInput
+}
+
+export type WorkflowRunUpdateOneRequiredWithoutStepsNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowRunCreateWithoutStepsInput, Prisma.WorkflowRunUncheckedCreateWithoutStepsInput>
+  connectOrCreate?: Prisma.WorkflowRunCreateOrConnectWithoutStepsInput
+  upsert?: Prisma.WorkflowRunUpsertWithoutStepsInput
+  connect?: Prisma.WorkflowRunWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.WorkflowRunUpdateToOneWithWhereWithoutStepsInput, Prisma.WorkflowRunUpdateWithoutStepsInput>, Prisma.WorkflowRunUncheckedUpdateWithoutStepsInput>
+}
+
+export type WorkflowRunCreateNestedOneWithoutResumptionsInput = {
+  create?: Prisma.XOR<Prisma.WorkflowRunCreateWithoutResumptionsInput, Prisma.WorkflowRunUncheckedCreateWithoutResumptionsInput>
+  connectOrCreate?: Prisma.WorkflowRunCreateOrConnectWithoutResumptionsInput
+  connect?: Prisma.WorkflowRunWhereUniqueInput
+}
+
+export type WorkflowRunUpdateOneRequiredWithoutResumptionsNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowRunCreateWithoutResumptionsInput, Prisma.WorkflowRunUncheckedCreateWithoutResumptionsInput>
+  connectOrCreate?: Prisma.WorkflowRunCreateOrConnectWithoutResumptionsInput
+  upsert?: Prisma.WorkflowRunUpsertWithoutResumptionsInput
+  connect?: Prisma.WorkflowRunWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.WorkflowRunUpdateToOneWithWhereWithoutResumptionsInput, Prisma.WorkflowRunUpdateWithoutResumptionsInput>, Prisma.WorkflowRunUncheckedUpdateWithoutResumptionsInput>
+}
+
+export type WorkflowRunCreateNestedOneWithoutScheduleFireInput = {
+  create?: Prisma.XOR<Prisma.WorkflowRunCreateWithoutScheduleFireInput, Prisma.WorkflowRunUncheckedCreateWithoutScheduleFireInput>
+  connectOrCreate?: Prisma.WorkflowRunCreateOrConnectWithoutScheduleFireInput
+  connect?: Prisma.WorkflowRunWhereUniqueInput
+}
+
+export type WorkflowRunUpdateOneWithoutScheduleFireNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowRunCreateWithoutScheduleFireInput, Prisma.WorkflowRunUncheckedCreateWithoutScheduleFireInput>
+  connectOrCreate?: Prisma.WorkflowRunCreateOrConnectWithoutScheduleFireInput
+  upsert?: Prisma.WorkflowRunUpsertWithoutScheduleFireInput
+  disconnect?: Prisma.WorkflowRunWhereInput | boolean
+  delete?: Prisma.WorkflowRunWhereInput | boolean
+  connect?: Prisma.WorkflowRunWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.WorkflowRunUpdateToOneWithWhereWithoutScheduleFireInput, Prisma.WorkflowRunUpdateWithoutScheduleFireInput>, Prisma.WorkflowRunUncheckedUpdateWithoutScheduleFireInput>
+}
+
+export type WorkflowRunCreateWithoutWorkflowInput = {
+  id?: string
+  status?: $Enums.ExecutionStatus
+  trigger?: string
+  version?: number | null
+  idempotencyKey?: string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: string | null
+  totalSteps?: number | null
+  gasUsed?: bigint | number | null
+  vmStatus?: string | null
+  errorMessage?: string | null
+  errorCode?: string | null
+  errorNodeId?: string | null
+  startedAt?: Date | string
+  completedAt?: Date | string | null
+  onChainWorkflow?: Prisma.OnChainWorkflowCreateNestedOneWithoutRunsInput
+  steps?: Prisma.WorkflowRunStepCreateNestedManyWithoutRunInput
+  resumptions?: Prisma.WorkflowResumptionCreateNestedManyWithoutRunInput
+  scheduleFire?: Prisma.ScheduleFireCreateNestedOneWithoutRunInput
+}
+
+export type WorkflowRunUncheckedCreateWithoutWorkflowInput = {
+  id?: string
+  onChainWorkflowId?: string | null
+  status?: $Enums.ExecutionStatus
+  trigger?: string
+  version?: number | null
+  idempotencyKey?: string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: string | null
+  totalSteps?: number | null
+  gasUsed?: bigint | number | null
+  vmStatus?: string | null
+  errorMessage?: string | null
+  errorCode?: string | null
+  errorNodeId?: string | null
+  startedAt?: Date | string
+  completedAt?: Date | string | null
+  steps?: Prisma.WorkflowRunStepUncheckedCreateNestedManyWithoutRunInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedCreateNestedManyWithoutRunInput
+  scheduleFire?: Prisma.ScheduleFireUncheckedCreateNestedOneWithoutRunInput
+}
+
+export type WorkflowRunCreateOrConnectWithoutWorkflowInput = {
+  where: Prisma.WorkflowRunWhereUniqueInput
+  create: Prisma.XOR<Prisma.WorkflowRunCreateWithoutWorkflowInput, Prisma.WorkflowRunUncheckedCreateWithoutWorkflowInput>
+}
+
+export type WorkflowRunCreateManyWorkflowInputEnvelope = {
+  data: Prisma.WorkflowRunCreateManyWorkflowInput | Prisma.WorkflowRunCreateManyWorkflowInput[]
+  skipDuplicates?: boolean
+}
+
+export type WorkflowRunUpsertWithWhereUniqueWithoutWorkflowInput = {
+  where: Prisma.WorkflowRunWhereUniqueInput
+  update: Prisma.XOR<Prisma.WorkflowRunUpdateWithoutWorkflowInput, Prisma.WorkflowRunUncheckedUpdateWithoutWorkflowInput>
+  create: Prisma.XOR<Prisma.WorkflowRunCreateWithoutWorkflowInput, Prisma.WorkflowRunUncheckedCreateWithoutWorkflowInput>
+}
+
+export type WorkflowRunUpdateWithWhereUniqueWithoutWorkflowInput = {
+  where: Prisma.WorkflowRunWhereUniqueInput
+  data: Prisma.XOR<Prisma.WorkflowRunUpdateWithoutWorkflowInput, Prisma.WorkflowRunUncheckedUpdateWithoutWorkflowInput>
+}
+
+export type WorkflowRunUpdateManyWithWhereWithoutWorkflowInput = {
+  where: Prisma.WorkflowRunScalarWhereInput
+  data: Prisma.XOR<Prisma.WorkflowRunUpdateManyMutationInput, Prisma.WorkflowRunUncheckedUpdateManyWithoutWorkflowInput>
+}
+
+export type WorkflowRunScalarWhereInput = {
+  AND?: Prisma.WorkflowRunScalarWhereInput | Prisma.WorkflowRunScalarWhereInput[]
+  OR?: Prisma.WorkflowRunScalarWhereInput[]
+  NOT?: Prisma.WorkflowRunScalarWhereInput | Prisma.WorkflowRunScalarWhereInput[]
+  id?: Prisma.StringFilter<"WorkflowRun"> | string
+  workflowId?: Prisma.StringFilter<"WorkflowRun"> | string
+  onChainWorkflowId?: Prisma.StringNullableFilter<"WorkflowRun"> | string | null
+  status?: Prisma.EnumExecutionStatusFilter<"WorkflowRun"> | $Enums.ExecutionStatus
+  trigger?: Prisma.StringFilter<"WorkflowRun"> | string
+  version?: Prisma.IntNullableFilter<"WorkflowRun"> | number | null
+  idempotencyKey?: Prisma.StringNullableFilter<"WorkflowRun"> | string | null
+  triggerContext?: Prisma.JsonNullableFilter<"WorkflowRun">
+  conditionTrace?: Prisma.JsonNullableFilter<"WorkflowRun">
+  txHash?: Prisma.StringNullableFilter<"WorkflowRun"> | string | null
+  totalSteps?: Prisma.IntNullableFilter<"WorkflowRun"> | number | null
+  gasUsed?: Prisma.BigIntNullableFilter<"WorkflowRun"> | bigint | number | null
+  vmStatus?: Prisma.StringNullableFilter<"WorkflowRun"> | string | null
+  errorMessage?: Prisma.StringNullableFilter<"WorkflowRun"> | string | null
+  errorCode?: Prisma.StringNullableFilter<"WorkflowRun"> | string | null
+  errorNodeId?: Prisma.StringNullableFilter<"WorkflowRun"> | string | null
+  startedAt?: Prisma.DateTimeFilter<"WorkflowRun"> | Date | string
+  completedAt?: Prisma.DateTimeNullableFilter<"WorkflowRun"> | Date | string | null
+}
+
+export type WorkflowRunCreateWithoutOnChainWorkflowInput = {
+  id?: string
+  status?: $Enums.ExecutionStatus
+  trigger?: string
+  version?: number | null
+  idempotencyKey?: string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: string | null
+  totalSteps?: number | null
+  gasUsed?: bigint | number | null
+  vmStatus?: string | null
+  errorMessage?: string | null
+  errorCode?: string | null
+  errorNodeId?: string | null
+  startedAt?: Date | string
+  completedAt?: Date | string | null
+  workflow: Prisma.WorkflowCreateNestedOneWithoutRunsInput
+  steps?: Prisma.WorkflowRunStepCreateNestedManyWithoutRunInput
+  resumptions?: Prisma.WorkflowResumptionCreateNestedManyWithoutRunInput
+  scheduleFire?: Prisma.ScheduleFireCreateNestedOneWithoutRunInput
+}
+
+export type WorkflowRunUncheckedCreateWithoutOnChainWorkflowInput = {
+  id?: string
+  workflowId: string
+  status?: $Enums.ExecutionStatus
+  trigger?: string
+  version?: number | null
+  idempotencyKey?: string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: string | null
+  totalSteps?: number | null
+  gasUsed?: bigint | number | null
+  vmStatus?: string | null
+  errorMessage?: string | null
+  errorCode?: string | null
+  errorNodeId?: string | null
+  startedAt?: Date | string
+  completedAt?: Date | string | null
+  steps?: Prisma.WorkflowRunStepUncheckedCreateNestedManyWithoutRunInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedCreateNestedManyWithoutRunInput
+  scheduleFire?: Prisma.ScheduleFireUncheckedCreateNestedOneWithoutRunInput
+}
+
+export type WorkflowRunCreateOrConnectWithoutOnChainWorkflowInput = {
+  where: Prisma.WorkflowRunWhereUniqueInput
+  create: Prisma.XOR<Prisma.WorkflowRunCreateWithoutOnChainWorkflowInput, Prisma.WorkflowRunUncheckedCreateWithoutOnChainWorkflowInput>
+}
+
+export type WorkflowRunCreateManyOnChainWorkflowInputEnvelope = {
+  data: Prisma.WorkflowRunCreateManyOnChainWorkflowInput | Prisma.WorkflowRunCreateManyOnChainWorkflowInput[]
+  skipDuplicates?: boolean
+}
+
+export type WorkflowRunUpsertWithWhereUniqueWithoutOnChainWorkflowInput = {
+  where: Prisma.WorkflowRunWhereUniqueInput
+  update: Prisma.XOR<Prisma.WorkflowRunUpdateWithoutOnChainWorkflowInput, Prisma.WorkflowRunUncheckedUpdateWithoutOnChainWorkflowInput>
+  create: Prisma.XOR<Prisma.WorkflowRunCreateWithoutOnChainWorkflowInput, Prisma.WorkflowRunUncheckedCreateWithoutOnChainWorkflowInput>
+}
+
+export type WorkflowRunUpdateWithWhereUniqueWithoutOnChainWorkflowInput = {
+  where: Prisma.WorkflowRunWhereUniqueInput
+  data: Prisma.XOR<Prisma.WorkflowRunUpdateWithoutOnChainWorkflowInput, Prisma.WorkflowRunUncheckedUpdateWithoutOnChainWorkflowInput>
+}
+
+export type WorkflowRunUpdateManyWithWhereWithoutOnChainWorkflowInput = {
+  where: Prisma.WorkflowRunScalarWhereInput
+  data: Prisma.XOR<Prisma.WorkflowRunUpdateManyMutationInput, Prisma.WorkflowRunUncheckedUpdateManyWithoutOnChainWorkflowInput>
+}
+
+export type WorkflowRunCreateWithoutStepsInput = {
+  id?: string
+  status?: $Enums.ExecutionStatus
+  trigger?: string
+  version?: number | null
+  idempotencyKey?: string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: string | null
+  totalSteps?: number | null
+  gasUsed?: bigint | number | null
+  vmStatus?: string | null
+  errorMessage?: string | null
+  errorCode?: string | null
+  errorNodeId?: string | null
+  startedAt?: Date | string
+  completedAt?: Date | string | null
+  workflow: Prisma.WorkflowCreateNestedOneWithoutRunsInput
+  onChainWorkflow?: Prisma.OnChainWorkflowCreateNestedOneWithoutRunsInput
+  resumptions?: Prisma.WorkflowResumptionCreateNestedManyWithoutRunInput
+  scheduleFire?: Prisma.ScheduleFireCreateNestedOneWithoutRunInput
+}
+
+export type WorkflowRunUncheckedCreateWithoutStepsInput = {
+  id?: string
+  workflowId: string
+  onChainWorkflowId?: string | null
+  status?: $Enums.ExecutionStatus
+  trigger?: string
+  version?: number | null
+  idempotencyKey?: string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: string | null
+  totalSteps?: number | null
+  gasUsed?: bigint | number | null
+  vmStatus?: string | null
+  errorMessage?: string | null
+  errorCode?: string | null
+  errorNodeId?: string | null
+  startedAt?: Date | string
+  completedAt?: Date | string | null
+  resumptions?: Prisma.WorkflowResumptionUncheckedCreateNestedManyWithoutRunInput
+  scheduleFire?: Prisma.ScheduleFireUncheckedCreateNestedOneWithoutRunInput
+}
+
+export type WorkflowRunCreateOrConnectWithoutStepsInput = {
+  where: Prisma.WorkflowRunWhereUniqueInput
+  create: Prisma.XOR<Prisma.WorkflowRunCreateWithoutStepsInput, Prisma.WorkflowRunUncheckedCreateWithoutStepsInput>
+}
+
+export type WorkflowRunUpsertWithoutStepsInput = {
+  update: Prisma.XOR<Prisma.WorkflowRunUpdateWithoutStepsInput, Prisma.WorkflowRunUncheckedUpdateWithoutStepsInput>
+  create: Prisma.XOR<Prisma.WorkflowRunCreateWithoutStepsInput, Prisma.WorkflowRunUncheckedCreateWithoutStepsInput>
+  where?: Prisma.WorkflowRunWhereInput
+}
+
+export type WorkflowRunUpdateToOneWithWhereWithoutStepsInput = {
+  where?: Prisma.WorkflowRunWhereInput
+  data: Prisma.XOR<Prisma.WorkflowRunUpdateWithoutStepsInput, Prisma.WorkflowRunUncheckedUpdateWithoutStepsInput>
+}
+
+export type WorkflowRunUpdateWithoutStepsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  trigger?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  idempotencyKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  totalSteps?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gasUsed?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  vmStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  workflow?: Prisma.WorkflowUpdateOneRequiredWithoutRunsNestedInput
+  onChainWorkflow?: Prisma.OnChainWorkflowUpdateOneWithoutRunsNestedInput
+  resumptions?: Prisma.WorkflowResumptionUpdateManyWithoutRunNestedInput
+  scheduleFire?: Prisma.ScheduleFireUpdateOneWithoutRunNestedInput
+}
+
+export type WorkflowRunUncheckedUpdateWithoutStepsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  onChainWorkflowId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  trigger?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  idempotencyKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  totalSteps?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gasUsed?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  vmStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resumptions?: Prisma.WorkflowResumptionUncheckedUpdateManyWithoutRunNestedInput
+  scheduleFire?: Prisma.ScheduleFireUncheckedUpdateOneWithoutRunNestedInput
+}
+
+export type WorkflowRunCreateWithoutResumptionsInput = {
+  id?: string
+  status?: $Enums.ExecutionStatus
+  trigger?: string
+  version?: number | null
+  idempotencyKey?: string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: string | null
+  totalSteps?: number | null
+  gasUsed?: bigint | number | null
+  vmStatus?: string | null
+  errorMessage?: string | null
+  errorCode?: string | null
+  errorNodeId?: string | null
+  startedAt?: Date | string
+  completedAt?: Date | string | null
+  workflow: Prisma.WorkflowCreateNestedOneWithoutRunsInput
+  onChainWorkflow?: Prisma.OnChainWorkflowCreateNestedOneWithoutRunsInput
+  steps?: Prisma.WorkflowRunStepCreateNestedManyWithoutRunInput
+  scheduleFire?: Prisma.ScheduleFireCreateNestedOneWithoutRunInput
+}
+
+export type WorkflowRunUncheckedCreateWithoutResumptionsInput = {
+  id?: string
+  workflowId: string
+  onChainWorkflowId?: string | null
+  status?: $Enums.ExecutionStatus
+  trigger?: string
+  version?: number | null
+  idempotencyKey?: string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: string | null
+  totalSteps?: number | null
+  gasUsed?: bigint | number | null
+  vmStatus?: string | null
+  errorMessage?: string | null
+  errorCode?: string | null
+  errorNodeId?: string | null
+  startedAt?: Date | string
+  completedAt?: Date | string | null
+  steps?: Prisma.WorkflowRunStepUncheckedCreateNestedManyWithoutRunInput
+  scheduleFire?: Prisma.ScheduleFireUncheckedCreateNestedOneWithoutRunInput
+}
+
+export type WorkflowRunCreateOrConnectWithoutResumptionsInput = {
+  where: Prisma.WorkflowRunWhereUniqueInput
+  create: Prisma.XOR<Prisma.WorkflowRunCreateWithoutResumptionsInput, Prisma.WorkflowRunUncheckedCreateWithoutResumptionsInput>
+}
+
+export type WorkflowRunUpsertWithoutResumptionsInput = {
+  update: Prisma.XOR<Prisma.WorkflowRunUpdateWithoutResumptionsInput, Prisma.WorkflowRunUncheckedUpdateWithoutResumptionsInput>
+  create: Prisma.XOR<Prisma.WorkflowRunCreateWithoutResumptionsInput, Prisma.WorkflowRunUncheckedCreateWithoutResumptionsInput>
+  where?: Prisma.WorkflowRunWhereInput
+}
+
+export type WorkflowRunUpdateToOneWithWhereWithoutResumptionsInput = {
+  where?: Prisma.WorkflowRunWhereInput
+  data: Prisma.XOR<Prisma.WorkflowRunUpdateWithoutResumptionsInput, Prisma.WorkflowRunUncheckedUpdateWithoutResumptionsInput>
+}
+
+export type WorkflowRunUpdateWithoutResumptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  trigger?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  idempotencyKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  totalSteps?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gasUsed?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  vmStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  workflow?: Prisma.WorkflowUpdateOneRequiredWithoutRunsNestedInput
+  onChainWorkflow?: Prisma.OnChainWorkflowUpdateOneWithoutRunsNestedInput
+  steps?: Prisma.WorkflowRunStepUpdateManyWithoutRunNestedInput
+  scheduleFire?: Prisma.ScheduleFireUpdateOneWithoutRunNestedInput
+}
+
+export type WorkflowRunUncheckedUpdateWithoutResumptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  onChainWorkflowId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  trigger?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  idempotencyKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  totalSteps?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gasUsed?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  vmStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  steps?: Prisma.WorkflowRunStepUncheckedUpdateManyWithoutRunNestedInput
+  scheduleFire?: Prisma.ScheduleFireUncheckedUpdateOneWithoutRunNestedInput
+}
+
+export type WorkflowRunCreateWithoutScheduleFireInput = {
+  id?: string
+  status?: $Enums.ExecutionStatus
+  trigger?: string
+  version?: number | null
+  idempotencyKey?: string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: string | null
+  totalSteps?: number | null
+  gasUsed?: bigint | number | null
+  vmStatus?: string | null
+  errorMessage?: string | null
+  errorCode?: string | null
+  errorNodeId?: string | null
+  startedAt?: Date | string
+  completedAt?: Date | string | null
+  workflow: Prisma.WorkflowCreateNestedOneWithoutRunsInput
+  onChainWorkflow?: Prisma.OnChainWorkflowCreateNestedOneWithoutRunsInput
+  steps?: Prisma.WorkflowRunStepCreateNestedManyWithoutRunInput
+  resumptions?: Prisma.WorkflowResumptionCreateNestedManyWithoutRunInput
+}
+
+export type WorkflowRunUncheckedCreateWithoutScheduleFireInput = {
+  id?: string
+  workflowId: string
+  onChainWorkflowId?: string | null
+  status?: $Enums.ExecutionStatus
+  trigger?: string
+  version?: number | null
+  idempotencyKey?: string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: string | null
+  totalSteps?: number | null
+  gasUsed?: bigint | number | null
+  vmStatus?: string | null
+  errorMessage?: string | null
+  errorCode?: string | null
+  errorNodeId?: string | null
+  startedAt?: Date | string
+  completedAt?: Date | string | null
+  steps?: Prisma.WorkflowRunStepUncheckedCreateNestedManyWithoutRunInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedCreateNestedManyWithoutRunInput
+}
+
+export type WorkflowRunCreateOrConnectWithoutScheduleFireInput = {
+  where: Prisma.WorkflowRunWhereUniqueInput
+  create: Prisma.XOR<Prisma.WorkflowRunCreateWithoutScheduleFireInput, Prisma.WorkflowRunUncheckedCreateWithoutScheduleFireInput>
+}
+
+export type WorkflowRunUpsertWithoutScheduleFireInput = {
+  update: Prisma.XOR<Prisma.WorkflowRunUpdateWithoutScheduleFireInput, Prisma.WorkflowRunUncheckedUpdateWithoutScheduleFireInput>
+  create: Prisma.XOR<Prisma.WorkflowRunCreateWithoutScheduleFireInput, Prisma.WorkflowRunUncheckedCreateWithoutScheduleFireInput>
+  where?: Prisma.WorkflowRunWhereInput
+}
+
+export type WorkflowRunUpdateToOneWithWhereWithoutScheduleFireInput = {
+  where?: Prisma.WorkflowRunWhereInput
+  data: Prisma.XOR<Prisma.WorkflowRunUpdateWithoutScheduleFireInput, Prisma.WorkflowRunUncheckedUpdateWithoutScheduleFireInput>
+}
+
+export type WorkflowRunUpdateWithoutScheduleFireInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  trigger?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  idempotencyKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  totalSteps?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gasUsed?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  vmStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  workflow?: Prisma.WorkflowUpdateOneRequiredWithoutRunsNestedInput
+  onChainWorkflow?: Prisma.OnChainWorkflowUpdateOneWithoutRunsNestedInput
+  steps?: Prisma.WorkflowRunStepUpdateManyWithoutRunNestedInput
+  resumptions?: Prisma.WorkflowResumptionUpdateManyWithoutRunNestedInput
+}
+
+export type WorkflowRunUncheckedUpdateWithoutScheduleFireInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  onChainWorkflowId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  trigger?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  idempotencyKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  totalSteps?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gasUsed?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  vmStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  steps?: Prisma.WorkflowRunStepUncheckedUpdateManyWithoutRunNestedInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedUpdateManyWithoutRunNestedInput
+}
+
+export type WorkflowRunCreateManyWorkflowInput = {
+  id?: string
+  onChainWorkflowId?: string | null
+  status?: $Enums.ExecutionStatus
+  trigger?: string
+  version?: number | null
+  idempotencyKey?: string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: string | null
+  totalSteps?: number | null
+  gasUsed?: bigint | number | null
+  vmStatus?: string | null
+  errorMessage?: string | null
+  errorCode?: string | null
+  errorNodeId?: string | null
+  startedAt?: Date | string
+  completedAt?: Date | string | null
+}
+
+export type WorkflowRunUpdateWithoutWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  trigger?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  idempotencyKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  totalSteps?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gasUsed?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  vmStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  onChainWorkflow?: Prisma.OnChainWorkflowUpdateOneWithoutRunsNestedInput
+  steps?: Prisma.WorkflowRunStepUpdateManyWithoutRunNestedInput
+  resumptions?: Prisma.WorkflowResumptionUpdateManyWithoutRunNestedInput
+  scheduleFire?: Prisma.ScheduleFireUpdateOneWithoutRunNestedInput
+}
+
+export type WorkflowRunUncheckedUpdateWithoutWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  onChainWorkflowId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  trigger?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  idempotencyKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  totalSteps?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gasUsed?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  vmStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  steps?: Prisma.WorkflowRunStepUncheckedUpdateManyWithoutRunNestedInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedUpdateManyWithoutRunNestedInput
+  scheduleFire?: Prisma.ScheduleFireUncheckedUpdateOneWithoutRunNestedInput
+}
+
+export type WorkflowRunUncheckedUpdateManyWithoutWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  onChainWorkflowId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  trigger?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  idempotencyKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  totalSteps?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gasUsed?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  vmStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type WorkflowRunCreateManyOnChainWorkflowInput = {
+  id?: string
+  workflowId: string
+  status?: $Enums.ExecutionStatus
+  trigger?: string
+  version?: number | null
+  idempotencyKey?: string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: string | null
+  totalSteps?: number | null
+  gasUsed?: bigint | number | null
+  vmStatus?: string | null
+  errorMessage?: string | null
+  errorCode?: string | null
+  errorNodeId?: string | null
+  startedAt?: Date | string
+  completedAt?: Date | string | null
+}
+
+export type WorkflowRunUpdateWithoutOnChainWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  trigger?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  idempotencyKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  totalSteps?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gasUsed?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  vmStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  workflow?: Prisma.WorkflowUpdateOneRequiredWithoutRunsNestedInput
+  steps?: Prisma.WorkflowRunStepUpdateManyWithoutRunNestedInput
+  resumptions?: Prisma.WorkflowResumptionUpdateManyWithoutRunNestedInput
+  scheduleFire?: Prisma.ScheduleFireUpdateOneWithoutRunNestedInput
+}
+
+export type WorkflowRunUncheckedUpdateWithoutOnChainWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  trigger?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  idempotencyKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  totalSteps?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gasUsed?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  vmStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  steps?: Prisma.WorkflowRunStepUncheckedUpdateManyWithoutRunNestedInput
+  resumptions?: Prisma.WorkflowResumptionUncheckedUpdateManyWithoutRunNestedInput
+  scheduleFire?: Prisma.ScheduleFireUncheckedUpdateOneWithoutRunNestedInput
+}
+
+export type WorkflowRunUncheckedUpdateManyWithoutOnChainWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumExecutionStatusFieldUpdateOperationsInput | $Enums.ExecutionStatus
+  trigger?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  idempotencyKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  triggerContext?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  conditionTrace?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  txHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  totalSteps?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gasUsed?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  vmStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+
+/**
+ * Count Type WorkflowRunCountOutputType
+ */
+
+export type WorkflowRunCountOutputType = {
+  steps: number
+  resumptions: number
+}
+
+export type WorkflowRunCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  steps?: boolean | WorkflowRunCountOutputTypeCountStepsArgs
+  resumptions?: boolean | WorkflowRunCountOutputTypeCountResumptionsArgs
+}
+
+/**
+ * WorkflowRunCountOutputType without action
+ */
+export type WorkflowRunCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRunCountOutputType
+   */
+  select?: Prisma.WorkflowRunCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * WorkflowRunCountOutputType without action
+ */
+export type WorkflowRunCountOutputTypeCountStepsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WorkflowRunStepWhereInput
+}
+
+/**
+ * WorkflowRunCountOutputType without action
+ */
+export type WorkflowRunCountOutputTypeCountResumptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WorkflowResumptionWhereInput
+}
+
+
+export type WorkflowRunSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workflowId?: boolean
+  onChainWorkflowId?: boolean
+  status?: boolean
+  trigger?: boolean
+  version?: boolean
+  idempotencyKey?: boolean
+  triggerContext?: boolean
+  conditionTrace?: boolean
+  txHash?: boolean
+  totalSteps?: boolean
+  gasUsed?: boolean
+  vmStatus?: boolean
+  errorMessage?: boolean
+  errorCode?: boolean
+  errorNodeId?: boolean
+  startedAt?: boolean
+  completedAt?: boolean
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+  onChainWorkflow?: boolean | Prisma.WorkflowRun$onChainWorkflowArgs<ExtArgs>
+  steps?: boolean | Prisma.WorkflowRun$stepsArgs<ExtArgs>
+  resumptions?: boolean | Prisma.WorkflowRun$resumptionsArgs<ExtArgs>
+  scheduleFire?: boolean | Prisma.WorkflowRun$scheduleFireArgs<ExtArgs>
+  _count?: boolean | Prisma.WorkflowRunCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["workflowRun"]>
+
+export type WorkflowRunSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workflowId?: boolean
+  onChainWorkflowId?: boolean
+  status?: boolean
+  trigger?: boolean
+  version?: boolean
+  idempotencyKey?: boolean
+  triggerContext?: boolean
+  conditionTrace?: boolean
+  txHash?: boolean
+  totalSteps?: boolean
+  gasUsed?: boolean
+  vmStatus?: boolean
+  errorMessage?: boolean
+  errorCode?: boolean
+  errorNodeId?: boolean
+  startedAt?: boolean
+  completedAt?: boolean
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+  onChainWorkflow?: boolean | Prisma.WorkflowRun$onChainWorkflowArgs<ExtArgs>
+}, ExtArgs["result"]["workflowRun"]>
+
+export type WorkflowRunSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workflowId?: boolean
+  onChainWorkflowId?: boolean
+  status?: boolean
+  trigger?: boolean
+  version?: boolean
+  idempotencyKey?: boolean
+  triggerContext?: boolean
+  conditionTrace?: boolean
+  txHash?: boolean
+  totalSteps?: boolean
+  gasUsed?: boolean
+  vmStatus?: boolean
+  errorMessage?: boolean
+  errorCode?: boolean
+  errorNodeId?: boolean
+  startedAt?: boolean
+  completedAt?: boolean
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+  onChainWorkflow?: boolean | Prisma.WorkflowRun$onChainWorkflowArgs<ExtArgs>
+}, ExtArgs["result"]["workflowRun"]>
+
+export type WorkflowRunSelectScalar = {
+  id?: boolean
+  workflowId?: boolean
+  onChainWorkflowId?: boolean
+  status?: boolean
+  trigger?: boolean
+  version?: boolean
+  idempotencyKey?: boolean
+  triggerContext?: boolean
+  conditionTrace?: boolean
+  txHash?: boolean
+  totalSteps?: boolean
+  gasUsed?: boolean
+  vmStatus?: boolean
+  errorMessage?: boolean
+  errorCode?: boolean
+  errorNodeId?: boolean
+  startedAt?: boolean
+  completedAt?: boolean
+}
+
+export type WorkflowRunOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "workflowId" | "onChainWorkflowId" | "status" | "trigger" | "version" | "idempotencyKey" | "triggerContext" | "conditionTrace" | "txHash" | "totalSteps" | "gasUsed" | "vmStatus" | "errorMessage" | "errorCode" | "errorNodeId" | "startedAt" | "completedAt", ExtArgs["result"]["workflowRun"]>
+export type WorkflowRunInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+  onChainWorkflow?: boolean | Prisma.WorkflowRun$onChainWorkflowArgs<ExtArgs>
+  steps?: boolean | Prisma.WorkflowRun$stepsArgs<ExtArgs>
+  resumptions?: boolean | Prisma.WorkflowRun$resumptionsArgs<ExtArgs>
+  scheduleFire?: boolean | Prisma.WorkflowRun$scheduleFireArgs<ExtArgs>
+  _count?: boolean | Prisma.WorkflowRunCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type WorkflowRunIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+  onChainWorkflow?: boolean | Prisma.WorkflowRun$onChainWorkflowArgs<ExtArgs>
+}
+export type WorkflowRunIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+  onChainWorkflow?: boolean | Prisma.WorkflowRun$onChainWorkflowArgs<ExtArgs>
+}
+
+export type $WorkflowRunPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "WorkflowRun"
+  objects: {
+    workflow: Prisma.$WorkflowPayload<ExtArgs>
+    onChainWorkflow: Prisma.$OnChainWorkflowPayload<ExtArgs> | null
+    steps: Prisma.$WorkflowRunStepPayload<ExtArgs>[]
+    resumptions: Prisma.$WorkflowResumptionPayload<ExtArgs>[]
+    scheduleFire: Prisma.$ScheduleFirePayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    workflowId: string
+    onChainWorkflowId: string | null
+    status: $Enums.ExecutionStatus
+    trigger: string
+    version: number | null
+    idempotencyKey: string | null
+    triggerContext: runtime.JsonValue | null
+    conditionTrace: runtime.JsonValue | null
+    txHash: string | null
+    totalSteps: number | null
+    gasUsed: bigint | null
+    vmStatus: string | null
+    errorMessage: string | null
+    errorCode: string | null
+    errorNodeId: string | null
+    startedAt: Date
+    completedAt: Date | null
+  }, ExtArgs["result"]["workflowRun"]>
+  composites: {}
+}
+
+export type WorkflowRunGetPayload<S extends boolean | null | undefined | WorkflowRunDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$WorkflowRunPayload, S>
+
+export type WorkflowRunCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<WorkflowRunFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: WorkflowRunCountAggregateInputType | true
+  }
+
+export interface WorkflowRunDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['WorkflowRun'], meta: { name: 'WorkflowRun' } }
+  /**
+   * Find zero or one WorkflowRun that matches the filter.
+   * @param {WorkflowRunFindUniqueArgs} args - Arguments to find a WorkflowRun
+   * @example
+   * // Get one WorkflowRun
+   * const workflowRun = await prisma.workflowRun.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends WorkflowRunFindUniqueArgs>(args: Prisma.SelectSubset<T, WorkflowRunFindUniqueArgs<ExtArgs>>): Prisma.Prisma__WorkflowRunClient<runtime.Types.Result.GetResult<Prisma.$WorkflowRunPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one WorkflowRun that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {WorkflowRunFindUniqueOrThrowArgs} args - Arguments to find a WorkflowRun
+   * @example
+   * // Get one WorkflowRun
+   * const workflowRun = await prisma.workflowRun.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends WorkflowRunFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, WorkflowRunFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__WorkflowRunClient<runtime.Types.Result.GetResult<Prisma.$WorkflowRunPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WorkflowRun that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowRunFindFirstArgs} args - Arguments to find a WorkflowRun
+   * @example
+   * // Get one WorkflowRun
+   * const workflowRun = await prisma.workflowRun.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends WorkflowRunFindFirstArgs>(args?: Prisma.SelectSubset<T, WorkflowRunFindFirstArgs<ExtArgs>>): Prisma.Prisma__WorkflowRunClient<runtime.Types.Result.GetResult<Prisma.$WorkflowRunPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WorkflowRun that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowRunFindFirstOrThrowArgs} args - Arguments to find a WorkflowRun
+   * @example
+   * // Get one WorkflowRun
+   * const workflowRun = await prisma.workflowRun.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends WorkflowRunFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, WorkflowRunFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__WorkflowRunClient<runtime.Types.Result.GetResult<Prisma.$WorkflowRunPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more WorkflowRuns that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowRunFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all WorkflowRuns
+   * const workflowRuns = await prisma.workflowRun.findMany()
+   * 
+   * // Get first 10 WorkflowRuns
+   * const workflowRuns = await prisma.workflowRun.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const workflowRunWithIdOnly = await prisma.workflowRun.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends WorkflowRunFindManyArgs>(args?: Prisma.SelectSubset<T, WorkflowRunFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkflowRunPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a WorkflowRun.
+   * @param {WorkflowRunCreateArgs} args - Arguments to create a WorkflowRun.
+   * @example
+   * // Create one WorkflowRun
+   * const WorkflowRun = await prisma.workflowRun.create({
+   *   data: {
+   *     // ... data to create a WorkflowRun
+   *   }
+   * })
+   * 
+   */
+  create<T extends WorkflowRunCreateArgs>(args: Prisma.SelectSubset<T, WorkflowRunCreateArgs<ExtArgs>>): Prisma.Prisma__WorkflowRunClient<runtime.Types.Result.GetResult<Prisma.$WorkflowRunPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many WorkflowRuns.
+   * @param {WorkflowRunCreateManyArgs} args - Arguments to create many WorkflowRuns.
+   * @example
+   * // Create many WorkflowRuns
+   * const workflowRun = await prisma.workflowRun.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends WorkflowRunCreateManyArgs>(args?: Prisma.SelectSubset<T, WorkflowRunCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many WorkflowRuns and returns the data saved in the database.
+   * @param {WorkflowRunCreateManyAndReturnArgs} args - Arguments to create many WorkflowRuns.
+   * @example
+   * // Create many WorkflowRuns
+   * const workflowRun = await prisma.workflowRun.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many WorkflowRuns and only return the `id`
+   * const workflowRunWithIdOnly = await prisma.workflowRun.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends WorkflowRunCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, WorkflowRunCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkflowRunPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a WorkflowRun.
+   * @param {WorkflowRunDeleteArgs} args - Arguments to delete one WorkflowRun.
+   * @example
+   * // Delete one WorkflowRun
+   * const WorkflowRun = await prisma.workflowRun.delete({
+   *   where: {
+   *     // ... filter to delete one WorkflowRun
+   *   }
+   * })
+   * 
+   */
+  delete<T extends WorkflowRunDeleteArgs>(args: Prisma.SelectSubset<T, WorkflowRunDeleteArgs<ExtArgs>>): Prisma.Prisma__WorkflowRunClient<runtime.Types.Result.GetResult<Prisma.$WorkflowRunPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one WorkflowRun.
+   * @param {WorkflowRunUpdateArgs} args - Arguments to update one WorkflowRun.
+   * @example
+   * // Update one WorkflowRun
+   * const workflowRun = await prisma.workflowRun.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends WorkflowRunUpdateArgs>(args: Prisma.SelectSubset<T, WorkflowRunUpdateArgs<ExtArgs>>): Prisma.Prisma__WorkflowRunClient<runtime.Types.Result.GetResult<Prisma.$WorkflowRunPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more WorkflowRuns.
+   * @param {WorkflowRunDeleteManyArgs} args - Arguments to filter WorkflowRuns to delete.
+   * @example
+   * // Delete a few WorkflowRuns
+   * const { count } = await prisma.workflowRun.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends WorkflowRunDeleteManyArgs>(args?: Prisma.SelectSubset<T, WorkflowRunDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WorkflowRuns.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowRunUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many WorkflowRuns
+   * const workflowRun = await prisma.workflowRun.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends WorkflowRunUpdateManyArgs>(args: Prisma.SelectSubset<T, WorkflowRunUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WorkflowRuns and returns the data updated in the database.
+   * @param {WorkflowRunUpdateManyAndReturnArgs} args - Arguments to update many WorkflowRuns.
+   * @example
+   * // Update many WorkflowRuns
+   * const workflowRun = await prisma.workflowRun.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more WorkflowRuns and only return the `id`
+   * const workflowRunWithIdOnly = await prisma.workflowRun.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends WorkflowRunUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, WorkflowRunUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkflowRunPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one WorkflowRun.
+   * @param {WorkflowRunUpsertArgs} args - Arguments to update or create a WorkflowRun.
+   * @example
+   * // Update or create a WorkflowRun
+   * const workflowRun = await prisma.workflowRun.upsert({
+   *   create: {
+   *     // ... data to create a WorkflowRun
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the WorkflowRun we want to update
+   *   }
+   * })
+   */
+  upsert<T extends WorkflowRunUpsertArgs>(args: Prisma.SelectSubset<T, WorkflowRunUpsertArgs<ExtArgs>>): Prisma.Prisma__WorkflowRunClient<runtime.Types.Result.GetResult<Prisma.$WorkflowRunPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of WorkflowRuns.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowRunCountArgs} args - Arguments to filter WorkflowRuns to count.
+   * @example
+   * // Count the number of WorkflowRuns
+   * const count = await prisma.workflowRun.count({
+   *   where: {
+   *     // ... the filter for the WorkflowRuns we want to count
+   *   }
+   * })
+  **/
+  count<T extends WorkflowRunCountArgs>(
+    args?: Prisma.Subset<T, WorkflowRunCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], WorkflowRunCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a WorkflowRun.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowRunAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends WorkflowRunAggregateArgs>(args: Prisma.Subset<T, WorkflowRunAggregateArgs>): Prisma.PrismaPromise<GetWorkflowRunAggregateType<T>>
+
+  /**
+   * Group by WorkflowRun.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowRunGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends WorkflowRunGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: WorkflowRunGroupByArgs['orderBy'] }
+      : { orderBy?: WorkflowRunGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, WorkflowRunGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetWorkflowRunGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the WorkflowRun model
+ */
+readonly fields: WorkflowRunFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for WorkflowRun.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__WorkflowRunClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  workflow<T extends Prisma.WorkflowDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WorkflowDefaultArgs<ExtArgs>>): Prisma.Prisma__WorkflowClient<runtime.Types.Result.GetResult<Prisma.$WorkflowPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  onChainWorkflow<T extends Prisma.WorkflowRun$onChainWorkflowArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WorkflowRun$onChainWorkflowArgs<ExtArgs>>): Prisma.Prisma__OnChainWorkflowClient<runtime.Types.Result.GetResult<Prisma.$OnChainWorkflowPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  steps<T extends Prisma.WorkflowRun$stepsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WorkflowRun$stepsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkflowRunStepPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  resumptions<T extends Prisma.WorkflowRun$resumptionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WorkflowRun$resumptionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkflowResumptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  scheduleFire<T extends Prisma.WorkflowRun$scheduleFireArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WorkflowRun$scheduleFireArgs<ExtArgs>>): Prisma.Prisma__ScheduleFireClient<runtime.Types.Result.GetResult<Prisma.$ScheduleFirePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the WorkflowRun model
+ */
+export interface WorkflowRunFieldRefs {
+  readonly id: Prisma.FieldRef<"WorkflowRun", 'String'>
+  readonly workflowId: Prisma.FieldRef<"WorkflowRun", 'String'>
+  readonly onChainWorkflowId: Prisma.FieldRef<"WorkflowRun", 'String'>
+  readonly status: Prisma.FieldRef<"WorkflowRun", 'ExecutionStatus'>
+  readonly trigger: Prisma.FieldRef<"WorkflowRun", 'String'>
+  readonly version: Prisma.FieldRef<"WorkflowRun", 'Int'>
+  readonly idempotencyKey: Prisma.FieldRef<"WorkflowRun", 'String'>
+  readonly triggerContext: Prisma.FieldRef<"WorkflowRun", 'Json'>
+  readonly conditionTrace: Prisma.FieldRef<"WorkflowRun", 'Json'>
+  readonly txHash: Prisma.FieldRef<"WorkflowRun", 'String'>
+  readonly totalSteps: Prisma.FieldRef<"WorkflowRun", 'Int'>
+  readonly gasUsed: Prisma.FieldRef<"WorkflowRun", 'BigInt'>
+  readonly vmStatus: Prisma.FieldRef<"WorkflowRun", 'String'>
+  readonly errorMessage: Prisma.FieldRef<"WorkflowRun", 'String'>
+  readonly errorCode: Prisma.FieldRef<"WorkflowRun", 'String'>
+  readonly errorNodeId: Prisma.FieldRef<"WorkflowRun", 'String'>
+  readonly startedAt: Prisma.FieldRef<"WorkflowRun", 'DateTime'>
+  readonly completedAt: Prisma.FieldRef<"WorkflowRun", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * WorkflowRun findUnique
+ */
+export type WorkflowRunFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRun
+   */
+  select?: Prisma.WorkflowRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRun
+   */
+  omit?: Prisma.WorkflowRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkflowRun to fetch.
+   */
+  where: Prisma.WorkflowRunWhereUniqueInput
+}
+
+/**
+ * WorkflowRun findUniqueOrThrow
+ */
+export type WorkflowRunFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRun
+   */
+  select?: Prisma.WorkflowRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRun
+   */
+  omit?: Prisma.WorkflowRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkflowRun to fetch.
+   */
+  where: Prisma.WorkflowRunWhereUniqueInput
+}
+
+/**
+ * WorkflowRun findFirst
+ */
+export type WorkflowRunFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRun
+   */
+  select?: Prisma.WorkflowRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRun
+   */
+  omit?: Prisma.WorkflowRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkflowRun to fetch.
+   */
+  where?: Prisma.WorkflowRunWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkflowRuns to fetch.
+   */
+  orderBy?: Prisma.WorkflowRunOrderByWithRelationInput | Prisma.WorkflowRunOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WorkflowRuns.
+   */
+  cursor?: Prisma.WorkflowRunWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkflowRuns from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkflowRuns.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WorkflowRuns.
+   */
+  distinct?: Prisma.WorkflowRunScalarFieldEnum | Prisma.WorkflowRunScalarFieldEnum[]
+}
+
+/**
+ * WorkflowRun findFirstOrThrow
+ */
+export type WorkflowRunFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRun
+   */
+  select?: Prisma.WorkflowRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRun
+   */
+  omit?: Prisma.WorkflowRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkflowRun to fetch.
+   */
+  where?: Prisma.WorkflowRunWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkflowRuns to fetch.
+   */
+  orderBy?: Prisma.WorkflowRunOrderByWithRelationInput | Prisma.WorkflowRunOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WorkflowRuns.
+   */
+  cursor?: Prisma.WorkflowRunWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkflowRuns from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkflowRuns.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WorkflowRuns.
+   */
+  distinct?: Prisma.WorkflowRunScalarFieldEnum | Prisma.WorkflowRunScalarFieldEnum[]
+}
+
+/**
+ * WorkflowRun findMany
+ */
+export type WorkflowRunFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRun
+   */
+  select?: Prisma.WorkflowRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRun
+   */
+  omit?: Prisma.WorkflowRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkflowRuns to fetch.
+   */
+  where?: Prisma.WorkflowRunWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkflowRuns to fetch.
+   */
+  orderBy?: Prisma.WorkflowRunOrderByWithRelationInput | Prisma.WorkflowRunOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing WorkflowRuns.
+   */
+  cursor?: Prisma.WorkflowRunWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkflowRuns from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkflowRuns.
+   */
+  skip?: number
+  distinct?: Prisma.WorkflowRunScalarFieldEnum | Prisma.WorkflowRunScalarFieldEnum[]
+}
+
+/**
+ * WorkflowRun create
+ */
+export type WorkflowRunCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRun
+   */
+  select?: Prisma.WorkflowRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRun
+   */
+  omit?: Prisma.WorkflowRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunInclude<ExtArgs> | null
+  /**
+   * The data needed to create a WorkflowRun.
+   */
+  data: Prisma.XOR<Prisma.WorkflowRunCreateInput, Prisma.WorkflowRunUncheckedCreateInput>
+}
+
+/**
+ * WorkflowRun createMany
+ */
+export type WorkflowRunCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many WorkflowRuns.
+   */
+  data: Prisma.WorkflowRunCreateManyInput | Prisma.WorkflowRunCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * WorkflowRun createManyAndReturn
+ */
+export type WorkflowRunCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRun
+   */
+  select?: Prisma.WorkflowRunSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRun
+   */
+  omit?: Prisma.WorkflowRunOmit<ExtArgs> | null
+  /**
+   * The data used to create many WorkflowRuns.
+   */
+  data: Prisma.WorkflowRunCreateManyInput | Prisma.WorkflowRunCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WorkflowRun update
+ */
+export type WorkflowRunUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRun
+   */
+  select?: Prisma.WorkflowRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRun
+   */
+  omit?: Prisma.WorkflowRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunInclude<ExtArgs> | null
+  /**
+   * The data needed to update a WorkflowRun.
+   */
+  data: Prisma.XOR<Prisma.WorkflowRunUpdateInput, Prisma.WorkflowRunUncheckedUpdateInput>
+  /**
+   * Choose, which WorkflowRun to update.
+   */
+  where: Prisma.WorkflowRunWhereUniqueInput
+}
+
+/**
+ * WorkflowRun updateMany
+ */
+export type WorkflowRunUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update WorkflowRuns.
+   */
+  data: Prisma.XOR<Prisma.WorkflowRunUpdateManyMutationInput, Prisma.WorkflowRunUncheckedUpdateManyInput>
+  /**
+   * Filter which WorkflowRuns to update
+   */
+  where?: Prisma.WorkflowRunWhereInput
+  /**
+   * Limit how many WorkflowRuns to update.
+   */
+  limit?: number
+}
+
+/**
+ * WorkflowRun updateManyAndReturn
+ */
+export type WorkflowRunUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRun
+   */
+  select?: Prisma.WorkflowRunSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRun
+   */
+  omit?: Prisma.WorkflowRunOmit<ExtArgs> | null
+  /**
+   * The data used to update WorkflowRuns.
+   */
+  data: Prisma.XOR<Prisma.WorkflowRunUpdateManyMutationInput, Prisma.WorkflowRunUncheckedUpdateManyInput>
+  /**
+   * Filter which WorkflowRuns to update
+   */
+  where?: Prisma.WorkflowRunWhereInput
+  /**
+   * Limit how many WorkflowRuns to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WorkflowRun upsert
+ */
+export type WorkflowRunUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRun
+   */
+  select?: Prisma.WorkflowRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRun
+   */
+  omit?: Prisma.WorkflowRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunInclude<ExtArgs> | null
+  /**
+   * The filter to search for the WorkflowRun to update in case it exists.
+   */
+  where: Prisma.WorkflowRunWhereUniqueInput
+  /**
+   * In case the WorkflowRun found by the `where` argument doesn't exist, create a new WorkflowRun with this data.
+   */
+  create: Prisma.XOR<Prisma.WorkflowRunCreateInput, Prisma.WorkflowRunUncheckedCreateInput>
+  /**
+   * In case the WorkflowRun was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.WorkflowRunUpdateInput, Prisma.WorkflowRunUncheckedUpdateInput>
+}
+
+/**
+ * WorkflowRun delete
+ */
+export type WorkflowRunDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRun
+   */
+  select?: Prisma.WorkflowRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRun
+   */
+  omit?: Prisma.WorkflowRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunInclude<ExtArgs> | null
+  /**
+   * Filter which WorkflowRun to delete.
+   */
+  where: Prisma.WorkflowRunWhereUniqueInput
+}
+
+/**
+ * WorkflowRun deleteMany
+ */
+export type WorkflowRunDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WorkflowRuns to delete
+   */
+  where?: Prisma.WorkflowRunWhereInput
+  /**
+   * Limit how many WorkflowRuns to delete.
+   */
+  limit?: number
+}
+
+/**
+ * WorkflowRun.onChainWorkflow
+ */
+export type WorkflowRun$onChainWorkflowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OnChainWorkflow
+   */
+  select?: Prisma.OnChainWorkflowSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OnChainWorkflow
+   */
+  omit?: Prisma.OnChainWorkflowOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OnChainWorkflowInclude<ExtArgs> | null
+  where?: Prisma.OnChainWorkflowWhereInput
+}
+
+/**
+ * WorkflowRun.steps
+ */
+export type WorkflowRun$stepsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRunStep
+   */
+  select?: Prisma.WorkflowRunStepSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRunStep
+   */
+  omit?: Prisma.WorkflowRunStepOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunStepInclude<ExtArgs> | null
+  where?: Prisma.WorkflowRunStepWhereInput
+  orderBy?: Prisma.WorkflowRunStepOrderByWithRelationInput | Prisma.WorkflowRunStepOrderByWithRelationInput[]
+  cursor?: Prisma.WorkflowRunStepWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.WorkflowRunStepScalarFieldEnum | Prisma.WorkflowRunStepScalarFieldEnum[]
+}
+
+/**
+ * WorkflowRun.resumptions
+ */
+export type WorkflowRun$resumptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowResumption
+   */
+  select?: Prisma.WorkflowResumptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowResumption
+   */
+  omit?: Prisma.WorkflowResumptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowResumptionInclude<ExtArgs> | null
+  where?: Prisma.WorkflowResumptionWhereInput
+  orderBy?: Prisma.WorkflowResumptionOrderByWithRelationInput | Prisma.WorkflowResumptionOrderByWithRelationInput[]
+  cursor?: Prisma.WorkflowResumptionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.WorkflowResumptionScalarFieldEnum | Prisma.WorkflowResumptionScalarFieldEnum[]
+}
+
+/**
+ * WorkflowRun.scheduleFire
+ */
+export type WorkflowRun$scheduleFireArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleFire
+   */
+  select?: Prisma.ScheduleFireSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleFire
+   */
+  omit?: Prisma.ScheduleFireOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleFireInclude<ExtArgs> | null
+  where?: Prisma.ScheduleFireWhereInput
+}
+
+/**
+ * WorkflowRun without action
+ */
+export type WorkflowRunDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRun
+   */
+  select?: Prisma.WorkflowRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRun
+   */
+  omit?: Prisma.WorkflowRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunInclude<ExtArgs> | null
+}
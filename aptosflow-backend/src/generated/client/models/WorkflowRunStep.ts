@@ -0,0 +1,1548 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `WorkflowRunStep` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model WorkflowRunStep
+ * 
+ */
+export type WorkflowRunStepModel = runtime.Types.Result.DefaultSelection<Prisma.$WorkflowRunStepPayload>
+
+export type AggregateWorkflowRunStep = {
+  _count: WorkflowRunStepCountAggregateOutputType | null
+  _avg: WorkflowRunStepAvgAggregateOutputType | null
+  _sum: WorkflowRunStepSumAggregateOutputType | null
+  _min: WorkflowRunStepMinAggregateOutputType | null
+  _max: WorkflowRunStepMaxAggregateOutputType | null
+}
+
+export type WorkflowRunStepAvgAggregateOutputType = {
+  sequence: number | null
+  nodeId: number | null
+  nodeType: number | null
+  errorCode: number | null
+}
+
+export type WorkflowRunStepSumAggregateOutputType = {
+  sequence: number | null
+  nodeId: bigint | null
+  nodeType: number | null
+  errorCode: bigint | null
+}
+
+export type WorkflowRunStepMinAggregateOutputType = {
+  id: string | null
+  runId: string | null
+  sequence: number | null
+  nodeId: bigint | null
+  canvasNodeId: string | null
+  nodeType: number | null
+  success: boolean | null
+  errorCode: bigint | null
+  createdAt: Date | null
+}
+
+export type WorkflowRunStepMaxAggregateOutputType = {
+  id: string | null
+  runId: string | null
+  sequence: number | null
+  nodeId: bigint | null
+  canvasNodeId: string | null
+  nodeType: number | null
+  success: boolean | null
+  errorCode: bigint | null
+  createdAt: Date | null
+}
+
+export type WorkflowRunStepCountAggregateOutputType = {
+  id: number
+  runId: number
+  sequence: number
+  nodeId: number
+  canvasNodeId: number
+  nodeType: number
+  success: number
+  errorCode: number
+  createdAt: number
+  _all: number
+}
+
+
+export type WorkflowRunStepAvgAggregateInputType = {
+  sequence?: true
+  nodeId?: true
+  nodeType?: true
+  errorCode?: true
+}
+
+export type WorkflowRunStepSumAggregateInputType = {
+  sequence?: true
+  nodeId?: true
+  nodeType?: true
+  errorCode?: true
+}
+
+export type WorkflowRunStepMinAggregateInputType = {
+  id?: true
+  runId?: true
+  sequence?: true
+  nodeId?: true
+  canvasNodeId?: true
+  nodeType?: true
+  success?: true
+  errorCode?: true
+  createdAt?: true
+}
+
+export type WorkflowRunStepMaxAggregateInputType = {
+  id?: true
+  runId?: true
+  sequence?: true
+  nodeId?: true
+  canvasNodeId?: true
+  nodeType?: true
+  success?: true
+  errorCode?: true
+  createdAt?: true
+}
+
+export type WorkflowRunStepCountAggregateInputType = {
+  id?: true
+  runId?: true
+  sequence?: true
+  nodeId?: true
+  canvasNodeId?: true
+  nodeType?: true
+  success?: true
+  errorCode?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type WorkflowRunStepAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WorkflowRunStep to aggregate.
+   */
+  where?: Prisma.WorkflowRunStepWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkflowRunSteps to fetch.
+   */
+  orderBy?: Prisma.WorkflowRunStepOrderByWithRelationInput | Prisma.WorkflowRunStepOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.WorkflowRunStepWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkflowRunSteps from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkflowRunSteps.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned WorkflowRunSteps
+  **/
+  _count?: true | WorkflowRunStepCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: WorkflowRunStepAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: WorkflowRunStepSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: WorkflowRunStepMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: WorkflowRunStepMaxAggregateInputType
+}
+
+export type GetWorkflowRunStepAggregateType<T extends WorkflowRunStepAggregateArgs> = {
+      [P in keyof T & keyof AggregateWorkflowRunStep]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateWorkflowRunStep[P]>
+    : Prisma.GetScalarType<T[P], AggregateWorkflowRunStep[P]>
+}
+
+
+
+
+export type WorkflowRunStepGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WorkflowRunStepWhereInput
+  orderBy?: Prisma.WorkflowRunStepOrderByWithAggregationInput | Prisma.WorkflowRunStepOrderByWithAggregationInput[]
+  by: Prisma.WorkflowRunStepScalarFieldEnum[] | Prisma.WorkflowRunStepScalarFieldEnum
+  having?: Prisma.WorkflowRunStepScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: WorkflowRunStepCountAggregateInputType | true
+  _avg?: WorkflowRunStepAvgAggregateInputType
+  _sum?: WorkflowRunStepSumAggregateInputType
+  _min?: WorkflowRunStepMinAggregateInputType
+  _max?: WorkflowRunStepMaxAggregateInputType
+}
+
+export type WorkflowRunStepGroupByOutputType = {
+  id: string
+  runId: string
+  sequence: number
+  nodeId: bigint
+  canvasNodeId: string | null
+  nodeType: number
+  success: boolean
+  errorCode: bigint
+  createdAt: Date
+  _count: WorkflowRunStepCountAggregateOutputType | null
+  _avg: WorkflowRunStepAvgAggregateOutputType | null
+  _sum: WorkflowRunStepSumAggregateOutputType | null
+  _min: WorkflowRunStepMinAggregateOutputType | null
+  _max: WorkflowRunStepMaxAggregateOutputType | null
+}
+
+type GetWorkflowRunStepGroupByPayload<T extends WorkflowRunStepGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<WorkflowRunStepGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof WorkflowRunStepGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], WorkflowRunStepGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], WorkflowRunStepGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type WorkflowRunStepWhereInput = {
+  AND?: Prisma.WorkflowRunStepWhereInput | Prisma.WorkflowRunStepWhereInput[]
+  OR?: Prisma.WorkflowRunStepWhereInput[]
+  NOT?: Prisma.WorkflowRunStepWhereInput | Prisma.WorkflowRunStepWhereInput[]
+  id?: Prisma.StringFilter<"WorkflowRunStep"> | string
+  runId?: Prisma.StringFilter<"WorkflowRunStep"> | string
+  sequence?: Prisma.IntFilter<"WorkflowRunStep"> | number
+  nodeId?: Prisma.BigIntFilter<"WorkflowRunStep"> | bigint | number
+  canvasNodeId?: Prisma.StringNullableFilter<"WorkflowRunStep"> | string | null
+  nodeType?: Prisma.IntFilter<"WorkflowRunStep"> | number
+  success?: Prisma.BoolFilter<"WorkflowRunStep"> | boolean
+  errorCode?: Prisma.BigIntFilter<"WorkflowRunStep"> | bigint | number
+  createdAt?: Prisma.DateTimeFilter<"WorkflowRunStep"> | Date | string
+  run?: Prisma.XOR<Prisma.WorkflowRunScalarRelationFilter, Prisma.WorkflowRunWhereInput>
+}
+
+export type WorkflowRunStepOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  sequence?: Prisma.SortOrder
+  nodeId?: Prisma.SortOrder
+  canvasNodeId?: Prisma.SortOrderInput | Prisma.SortOrder
+  nodeType?: Prisma.SortOrder
+  success?: Prisma.SortOrder
+  errorCode?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  run?: Prisma.WorkflowRunOrderByWithRelationInput
+}
+
+export type WorkflowRunStepWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  runId_sequence?: Prisma.WorkflowRunStepRunIdSequenceCompoundUniqueInput
+  AND?: Prisma.WorkflowRunStepWhereInput | Prisma.WorkflowRunStepWhereInput[]
+  OR?: Prisma.WorkflowRunStepWhereInput[]
+  NOT?: Prisma.WorkflowRunStepWhereInput | Prisma.WorkflowRunStepWhereInput[]
+  runId?: Prisma.StringFilter<"WorkflowRunStep"> | string
+  sequence?: Prisma.IntFilter<"WorkflowRunStep"> | number
+  nodeId?: Prisma.BigIntFilter<"WorkflowRunStep"> | bigint | number
+  canvasNodeId?: Prisma.StringNullableFilter<"WorkflowRunStep"> | string | null
+  nodeType?: Prisma.IntFilter<"WorkflowRunStep"> | number
+  success?: Prisma.BoolFilter<"WorkflowRunStep"> | boolean
+  errorCode?: Prisma.BigIntFilter<"WorkflowRunStep"> | bigint | number
+  createdAt?: Prisma.DateTimeFilter<"WorkflowRunStep"> | Date | string
+  run?: Prisma.XOR<Prisma.WorkflowRunScalarRelationFilter, Prisma.WorkflowRunWhereInput>
+}, "id" | "runId_sequence">
+
+export type WorkflowRunStepOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  sequence?: Prisma.SortOrder
+  nodeId?: Prisma.SortOrder
+  canvasNodeId?: Prisma.SortOrderInput | Prisma.SortOrder
+  nodeType?: Prisma.SortOrder
+  success?: Prisma.SortOrder
+  errorCode?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.WorkflowRunStepCountOrderByAggregateInput
+  _avg?: Prisma.WorkflowRunStepAvgOrderByAggregateInput
+  _max?: Prisma.WorkflowRunStepMaxOrderByAggregateInput
+  _min?: Prisma.WorkflowRunStepMinOrderByAggregateInput
+  _sum?: Prisma.WorkflowRunStepSumOrderByAggregateInput
+}
+
+export type WorkflowRunStepScalarWhereWithAggregatesInput = {
+  AND?: Prisma.WorkflowRunStepScalarWhereWithAggregatesInput | Prisma.WorkflowRunStepScalarWhereWithAggregatesInput[]
+  OR?: Prisma.WorkflowRunStepScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.WorkflowRunStepScalarWhereWithAggregatesInput | Prisma.WorkflowRunStepScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"WorkflowRunStep"> | string
+  runId?: Prisma.StringWithAggregatesFilter<"WorkflowRunStep"> | string
+  sequence?: Prisma.IntWithAggregatesFilter<"WorkflowRunStep"> | number
+  nodeId?: Prisma.BigIntWithAggregatesFilter<"WorkflowRunStep"> | bigint | number
+  canvasNodeId?: Prisma.StringNullableWithAggregatesFilter<"WorkflowRunStep"> | string | null
+  nodeType?: Prisma.IntWithAggregatesFilter<"WorkflowRunStep"> | number
+  success?: Prisma.BoolWithAggregatesFilter<"WorkflowRunStep"> | boolean
+  errorCode?: Prisma.BigIntWithAggregatesFilter<"WorkflowRunStep"> | bigint | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"WorkflowRunStep"> | Date | string
+}
+
+export type WorkflowRunStepCreateInput = {
+  id?: string
+  sequence: number
+  nodeId: bigint | number
+  canvasNodeId?: string | null
+  nodeType: number
+  success: boolean
+  errorCode: bigint | number
+  createdAt?: Date | string
+  run: Prisma.WorkflowRunCreateNestedOneWithoutStepsInput
+}
+
+export type WorkflowRunStepUncheckedCreateInput = {
+  id?: string
+  runId: string
+  sequence: number
+  nodeId: bigint | number
+  canvasNodeId?: string | null
+  nodeType: number
+  success: boolean
+  errorCode: bigint | number
+  createdAt?: Date | string
+}
+
+export type WorkflowRunStepUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  sequence?: Prisma.IntFieldUpdateOperationsInput | number
+  nodeId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  canvasNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nodeType?: Prisma.IntFieldUpdateOperationsInput | number
+  success?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  errorCode?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  run?: Prisma.WorkflowRunUpdateOneRequiredWithoutStepsNestedInput
+}
+
+export type WorkflowRunStepUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  runId?: Prisma.StringFieldUpdateOperationsInput | string
+  sequence?: Prisma.IntFieldUpdateOperationsInput | number
+  nodeId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  canvasNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nodeType?: Prisma.IntFieldUpdateOperationsInput | number
+  success?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  errorCode?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkflowRunStepCreateManyInput = {
+  id?: string
+  runId: string
+  sequence: number
+  nodeId: bigint | number
+  canvasNodeId?: string | null
+  nodeType: number
+  success: boolean
+  errorCode: bigint | number
+  createdAt?: Date | string
+}
+
+export type WorkflowRunStepUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  sequence?: Prisma.IntFieldUpdateOperationsInput | number
+  nodeId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  canvasNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nodeType?: Prisma.IntFieldUpdateOperationsInput | number
+  success?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  errorCode?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkflowRunStepUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  runId?: Prisma.StringFieldUpdateOperationsInput | string
+  sequence?: Prisma.IntFieldUpdateOperationsInput | number
+  nodeId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  canvasNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nodeType?: Prisma.IntFieldUpdateOperationsInput | number
+  success?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  errorCode?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkflowRunStepListRelationFilter = {
+  every?: Prisma.WorkflowRunStepWhereInput
+  some?: Prisma.WorkflowRunStepWhereInput
+  none?: Prisma.WorkflowRunStepWhereInput
+}
+
+export type WorkflowRunStepOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type WorkflowRunStepRunIdSequenceCompoundUniqueInput = {
+  runId: string
+  sequence: number
+}
+
+export type WorkflowRunStepCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  sequence?: Prisma.SortOrder
+  nodeId?: Prisma.SortOrder
+  canvasNodeId?: Prisma.SortOrder
+  nodeType?: Prisma.SortOrder
+  success?: Prisma.SortOrder
+  errorCode?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type WorkflowRunStepAvgOrderByAggregateInput = {
+  sequence?: Prisma.SortOrder
+  nodeId?: Prisma.SortOrder
+  nodeType?: Prisma.SortOrder
+  errorCode?: Prisma.SortOrder
+}
+
+export type WorkflowRunStepMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  sequence?: Prisma.SortOrder
+  nodeId?: Prisma.SortOrder
+  canvasNodeId?: Prisma.SortOrder
+  nodeType?: Prisma.SortOrder
+  success?: Prisma.SortOrder
+  errorCode?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type WorkflowRunStepMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  sequence?: Prisma.SortOrder
+  nodeId?: Prisma.SortOrder
+  canvasNodeId?: Prisma.SortOrder
+  nodeType?: Prisma.SortOrder
+  success?: Prisma.SortOrder
+  errorCode?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type WorkflowRunStepSumOrderByAggregateInput = {
+  sequence?: Prisma.SortOrder
+  nodeId?: Prisma.SortOrder
+  nodeType?: Prisma.SortOrder
+  errorCode?: Prisma.SortOrder
+}
+
+export type WorkflowRunStepCreateNestedManyWithoutRunInput = {
+  create?: Prisma.XOR<Prisma.WorkflowRunStepCreateWithoutRunInput, Prisma.WorkflowRunStepUncheckedCreateWithoutRunInput> | Prisma.WorkflowRunStepCreateWithoutRunInput[] | Prisma.WorkflowRunStepUncheckedCreateWithoutRunInput[]
+  connectOrCreate?: Prisma.WorkflowRunStepCreateOrConnectWithoutRunInput | Prisma.WorkflowRunStepCreateOrConnectWithoutRunInput[]
+  createMany?: Prisma.WorkflowRunStepCreateManyRunInputEnvelope
+  connect?: Prisma.WorkflowRunStepWhereUniqueInput | Prisma.WorkflowRunStepWhereUniqueInput[]
+}
+
+export type WorkflowRunStepUncheckedCreateNestedManyWithoutRunInput = {
+  create?: Prisma.XOR<Prisma.WorkflowRunStepCreateWithoutRunInput, Prisma.WorkflowRunStepUncheckedCreateWithoutRunInput> | Prisma.WorkflowRunStepCreateWithoutRunInput[] | Prisma.WorkflowRunStepUncheckedCreateWithoutRunInput[]
+  connectOrCreate?: Prisma.WorkflowRunStepCreateOrConnectWithoutRunInput | Prisma.WorkflowRunStepCreateOrConnectWithoutRunInput[]
+  createMany?: Prisma.WorkflowRunStepCreateManyRunInputEnvelope
+  connect?: Prisma.WorkflowRunStepWhereUniqueInput | Prisma.WorkflowRunStepWhereUniqueInput[]
+}
+
+export type WorkflowRunStepUpdateManyWithoutRunNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowRunStepCreateWithoutRunInput, Prisma.WorkflowRunStepUncheckedCreateWithoutRunInput> | Prisma.WorkflowRunStepCreateWithoutRunInput[] | Prisma.WorkflowRunStepUncheckedCreateWithoutRunInput[]
+  connectOrCreate?: Prisma.WorkflowRunStepCreateOrConnectWithoutRunInput | Prisma.WorkflowRunStepCreateOrConnectWithoutRunInput[]
+  upsert?: Prisma.WorkflowRunStepUpsertWithWhereUniqueWithoutRunInput | Prisma.WorkflowRunStepUpsertWithWhereUniqueWithoutRunInput[]
+  createMany?: Prisma.WorkflowRunStepCreateManyRunInputEnvelope
+  set?: Prisma.WorkflowRunStepWhereUniqueInput | Prisma.WorkflowRunStepWhereUniqueInput[]
+  disconnect?: Prisma.WorkflowRunStepWhereUniqueInput | Prisma.WorkflowRunStepWhereUniqueInput[]
+  delete?: Prisma.WorkflowRunStepWhereUniqueInput | Prisma.WorkflowRunStepWhereUniqueInput[]
+  connect?: Prisma.WorkflowRunStepWhereUniqueInput | Prisma.WorkflowRunStepWhereUniqueInput[]
+  update?: Prisma.WorkflowRunStepUpdateWithWhereUniqueWithoutRunInput | Prisma.WorkflowRunStepUpdateWithWhereUniqueWithoutRunInput[]
+  updateMany?: Prisma.WorkflowRunStepUpdateManyWithWhereWithoutRunInput | Prisma.WorkflowRunStepUpdateManyWithWhereWithoutRunInput[]
+  deleteMany?: Prisma.WorkflowRunStepScalarWhereInput | Prisma.WorkflowRunStepScalarWhereInput[]
+}
+
+export type WorkflowRunStepUncheckedUpdateManyWithoutRunNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowRunStepCreateWithoutRunInput, Prisma.WorkflowRunStepUncheckedCreateWithoutRunInput> | Prisma.WorkflowRunStepCreateWithoutRunInput[] | Prisma.WorkflowRunStepUncheckedCreateWithoutRunInput[]
+  connectOrCreate?: Prisma.WorkflowRunStepCreateOrConnectWithoutRunInput | Prisma.WorkflowRunStepCreateOrConnectWithoutRunInput[]
+  upsert?: Prisma.WorkflowRunStepUpsertWithWhereUniqueWithoutRunInput | Prisma.WorkflowRunStepUpsertWithWhereUniqueWithoutRunInput[]
+  createMany?: Prisma.WorkflowRunStepCreateManyRunInputEnvelope
+  set?: Prisma.WorkflowRunStepWhereUniqueInput | Prisma.WorkflowRunStepWhereUniqueInput[]
+  disconnect?: Prisma.WorkflowRunStepWhereUniqueInput | Prisma.WorkflowRunStepWhereUniqueInput[]
+  delete?: Prisma.WorkflowRunStepWhereUniqueInput | Prisma.WorkflowRunStepWhereUniqueInput[]
+  connect?: Prisma.WorkflowRunStepWhereUniqueInput | Prisma.WorkflowRunStepWhereUniqueInput[]
+  update?: Prisma.WorkflowRunStepUpdateWithWhereUniqueWithoutRunInput | Prisma.WorkflowRunStepUpdateWithWhereUniqueWithoutRunInput[]
+  updateMany?: Prisma.WorkflowRunStepUpdateManyWithWhereWithoutRunInput | Prisma.WorkflowRunStepUpdateManyWithWhereWithoutRunInput[]
+  deleteMany?: Prisma.WorkflowRunStepScalarWhereInput | Prisma.WorkflowRunStepScalarWhereInput[]
+}
+
+export type WorkflowRunStepCreateWithoutRunInput = {
+  id?: string
+  sequence: number
+  nodeId: bigint | number
+  canvasNodeId?: string | null
+  nodeType: number
+  success: boolean
+  errorCode: bigint | number
+  createdAt?: Date | string
+}
+
+export type WorkflowRunStepUncheckedCreateWithoutRunInput = {
+  id?: string
+  sequence: number
+  nodeId: bigint | number
+  canvasNodeId?: string | null
+  nodeType: number
+  success: boolean
+  errorCode: bigint | number
+  createdAt?: Date | string
+}
+
+export type WorkflowRunStepCreateOrConnectWithoutRunInput = {
+  where: Prisma.WorkflowRunStepWhereUniqueInput
+  create: Prisma.XOR<Prisma.WorkflowRunStepCreateWithoutRunInput, Prisma.WorkflowRunStepUncheckedCreateWithoutRunInput>
+}
+
+export type WorkflowRunStepCreateManyRunInputEnvelope = {
+  data: Prisma.WorkflowRunStepCreateManyRunInput | Prisma.WorkflowRunStepCreateManyRunInput[]
+  skipDuplicates?: boolean
+}
+
+export type WorkflowRunStepUpsertWithWhereUniqueWithoutRunInput = {
+  where: Prisma.WorkflowRunStepWhereUniqueInput
+  update: Prisma.XOR<Prisma.WorkflowRunStepUpdateWithoutRunInput, Prisma.WorkflowRunStepUncheckedUpdateWithoutRunInput>
+  create: Prisma.XOR<Prisma.WorkflowRunStepCreateWithoutRunInput, Prisma.WorkflowRunStepUncheckedCreateWithoutRunInput>
+}
+
+export type WorkflowRunStepUpdateWithWhereUniqueWithoutRunInput = {
+  where: Prisma.WorkflowRunStepWhereUniqueInput
+  data: Prisma.XOR<Prisma.WorkflowRunStepUpdateWithoutRunInput, Prisma.WorkflowRunStepUncheckedUpdateWithoutRunInput>
+}
+
+export type WorkflowRunStepUpdateManyWithWhereWithoutRunInput = {
+  where: Prisma.WorkflowRunStepScalarWhereInput
+  data: Prisma.XOR<Prisma.WorkflowRunStepUpdateManyMutationInput, Prisma.WorkflowRunStepUncheckedUpdateManyWithoutRunInput>
+}
+
+export type WorkflowRunStepScalarWhereInput = {
+  AND?: Prisma.WorkflowRunStepScalarWhereInput | Prisma.WorkflowRunStepScalarWhereInput[]
+  OR?: Prisma.WorkflowRunStepScalarWhereInput[]
+  NOT?: Prisma.WorkflowRunStepScalarWhereInput | Prisma.WorkflowRunStepScalarWhereInput[]
+  id?: Prisma.StringFilter<"WorkflowRunStep"> | string
+  runId?: Prisma.StringFilter<"WorkflowRunStep"> | string
+  sequence?: Prisma.IntFilter<"WorkflowRunStep"> | number
+  nodeId?: Prisma.BigIntFilter<"WorkflowRunStep"> | bigint | number
+  canvasNodeId?: Prisma.StringNullableFilter<"WorkflowRunStep"> | string | null
+  nodeType?: Prisma.IntFilter<"WorkflowRunStep"> | number
+  success?: Prisma.BoolFilter<"WorkflowRunStep"> | boolean
+  errorCode?: Prisma.BigIntFilter<"WorkflowRunStep"> | bigint | number
+  createdAt?: Prisma.DateTimeFilter<"WorkflowRunStep"> | Date | string
+}
+
+export type WorkflowRunStepCreateManyRunInput = {
+  id?: string
+  sequence: number
+  nodeId: bigint | number
+  canvasNodeId?: string | null
+  nodeType: number
+  success: boolean
+  errorCode: bigint | number
+  createdAt?: Date | string
+}
+
+export type WorkflowRunStepUpdateWithoutRunInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  sequence?: Prisma.IntFieldUpdateOperationsInput | number
+  nodeId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  canvasNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nodeType?: Prisma.IntFieldUpdateOperationsInput | number
+  success?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  errorCode?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkflowRunStepUncheckedUpdateWithoutRunInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  sequence?: Prisma.IntFieldUpdateOperationsInput | number
+  nodeId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  canvasNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nodeType?: Prisma.IntFieldUpdateOperationsInput | number
+  success?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  errorCode?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkflowRunStepUncheckedUpdateManyWithoutRunInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  sequence?: Prisma.IntFieldUpdateOperationsInput | number
+  nodeId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  canvasNodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nodeType?: Prisma.IntFieldUpdateOperationsInput | number
+  success?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  errorCode?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type WorkflowRunStepSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  runId?: boolean
+  sequence?: boolean
+  nodeId?: boolean
+  canvasNodeId?: boolean
+  nodeType?: boolean
+  success?: boolean
+  errorCode?: boolean
+  createdAt?: boolean
+  run?: boolean | Prisma.WorkflowRunDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["workflowRunStep"]>
+
+export type WorkflowRunStepSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  runId?: boolean
+  sequence?: boolean
+  nodeId?: boolean
+  canvasNodeId?: boolean
+  nodeType?: boolean
+  success?: boolean
+  errorCode?: boolean
+  createdAt?: boolean
+  run?: boolean | Prisma.WorkflowRunDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["workflowRunStep"]>
+
+export type WorkflowRunStepSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  runId?: boolean
+  sequence?: boolean
+  nodeId?: boolean
+  canvasNodeId?: boolean
+  nodeType?: boolean
+  success?: boolean
+  errorCode?: boolean
+  createdAt?: boolean
+  run?: boolean | Prisma.WorkflowRunDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["workflowRunStep"]>
+
+export type WorkflowRunStepSelectScalar = {
+  id?: boolean
+  runId?: boolean
+  sequence?: boolean
+  nodeId?: boolean
+  canvasNodeId?: boolean
+  nodeType?: boolean
+  success?: boolean
+  errorCode?: boolean
+  createdAt?: boolean
+}
+
+export type WorkflowRunStepOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "runId" | "sequence" | "nodeId" | "canvasNodeId" | "nodeType" | "success" | "errorCode" | "createdAt", ExtArgs["result"]["workflowRunStep"]>
+export type WorkflowRunStepInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  run?: boolean | Prisma.WorkflowRunDefaultArgs<ExtArgs>
+}
+export type WorkflowRunStepIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  run?: boolean | Prisma.WorkflowRunDefaultArgs<ExtArgs>
+}
+export type WorkflowRunStepIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  run?: boolean | Prisma.WorkflowRunDefaultArgs<ExtArgs>
+}
+
+export type $WorkflowRunStepPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "WorkflowRunStep"
+  objects: {
+    run: Prisma.$WorkflowRunPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    runId: string
+    sequence: number
+    nodeId: bigint
+    canvasNodeId: string | null
+    nodeType: number
+    success: boolean
+    errorCode: bigint
+    createdAt: Date
+  }, ExtArgs["result"]["workflowRunStep"]>
+  composites: {}
+}
+
+export type WorkflowRunStepGetPayload<S extends boolean | null | undefined | WorkflowRunStepDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$WorkflowRunStepPayload, S>
+
+export type WorkflowRunStepCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<WorkflowRunStepFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: WorkflowRunStepCountAggregateInputType | true
+  }
+
+export interface WorkflowRunStepDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['WorkflowRunStep'], meta: { name: 'WorkflowRunStep' } }
+  /**
+   * Find zero or one WorkflowRunStep that matches the filter.
+   * @param {WorkflowRunStepFindUniqueArgs} args - Arguments to find a WorkflowRunStep
+   * @example
+   * // Get one WorkflowRunStep
+   * const workflowRunStep = await prisma.workflowRunStep.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends WorkflowRunStepFindUniqueArgs>(args: Prisma.SelectSubset<T, WorkflowRunStepFindUniqueArgs<ExtArgs>>): Prisma.Prisma__WorkflowRunStepClient<runtime.Types.Result.GetResult<Prisma.$WorkflowRunStepPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one WorkflowRunStep that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {WorkflowRunStepFindUniqueOrThrowArgs} args - Arguments to find a WorkflowRunStep
+   * @example
+   * // Get one WorkflowRunStep
+   * const workflowRunStep = await prisma.workflowRunStep.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends WorkflowRunStepFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, WorkflowRunStepFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__WorkflowRunStepClient<runtime.Types.Result.GetResult<Prisma.$WorkflowRunStepPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WorkflowRunStep that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowRunStepFindFirstArgs} args - Arguments to find a WorkflowRunStep
+   * @example
+   * // Get one WorkflowRunStep
+   * const workflowRunStep = await prisma.workflowRunStep.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends WorkflowRunStepFindFirstArgs>(args?: Prisma.SelectSubset<T, WorkflowRunStepFindFirstArgs<ExtArgs>>): Prisma.Prisma__WorkflowRunStepClient<runtime.Types.Result.GetResult<Prisma.$WorkflowRunStepPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WorkflowRunStep that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowRunStepFindFirstOrThrowArgs} args - Arguments to find a WorkflowRunStep
+   * @example
+   * // Get one WorkflowRunStep
+   * const workflowRunStep = await prisma.workflowRunStep.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends WorkflowRunStepFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, WorkflowRunStepFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__WorkflowRunStepClient<runtime.Types.Result.GetResult<Prisma.$WorkflowRunStepPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more WorkflowRunSteps that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowRunStepFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all WorkflowRunSteps
+   * const workflowRunSteps = await prisma.workflowRunStep.findMany()
+   * 
+   * // Get first 10 WorkflowRunSteps
+   * const workflowRunSteps = await prisma.workflowRunStep.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const workflowRunStepWithIdOnly = await prisma.workflowRunStep.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends WorkflowRunStepFindManyArgs>(args?: Prisma.SelectSubset<T, WorkflowRunStepFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkflowRunStepPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a WorkflowRunStep.
+   * @param {WorkflowRunStepCreateArgs} args - Arguments to create a WorkflowRunStep.
+   * @example
+   * // Create one WorkflowRunStep
+   * const WorkflowRunStep = await prisma.workflowRunStep.create({
+   *   data: {
+   *     // ... data to create a WorkflowRunStep
+   *   }
+   * })
+   * 
+   */
+  create<T extends WorkflowRunStepCreateArgs>(args: Prisma.SelectSubset<T, WorkflowRunStepCreateArgs<ExtArgs>>): Prisma.Prisma__WorkflowRunStepClient<runtime.Types.Result.GetResult<Prisma.$WorkflowRunStepPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many WorkflowRunSteps.
+   * @param {WorkflowRunStepCreateManyArgs} args - Arguments to create many WorkflowRunSteps.
+   * @example
+   * // Create many WorkflowRunSteps
+   * const workflowRunStep = await prisma.workflowRunStep.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends WorkflowRunStepCreateManyArgs>(args?: Prisma.SelectSubset<T, WorkflowRunStepCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many WorkflowRunSteps and returns the data saved in the database.
+   * @param {WorkflowRunStepCreateManyAndReturnArgs} args - Arguments to create many WorkflowRunSteps.
+   * @example
+   * // Create many WorkflowRunSteps
+   * const workflowRunStep = await prisma.workflowRunStep.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many WorkflowRunSteps and only return the `id`
+   * const workflowRunStepWithIdOnly = await prisma.workflowRunStep.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends WorkflowRunStepCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, WorkflowRunStepCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkflowRunStepPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a WorkflowRunStep.
+   * @param {WorkflowRunStepDeleteArgs} args - Arguments to delete one WorkflowRunStep.
+   * @example
+   * // Delete one WorkflowRunStep
+   * const WorkflowRunStep = await prisma.workflowRunStep.delete({
+   *   where: {
+   *     // ... filter to delete one WorkflowRunStep
+   *   }
+   * })
+   * 
+   */
+  delete<T extends WorkflowRunStepDeleteArgs>(args: Prisma.SelectSubset<T, WorkflowRunStepDeleteArgs<ExtArgs>>): Prisma.Prisma__WorkflowRunStepClient<runtime.Types.Result.GetResult<Prisma.$WorkflowRunStepPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one WorkflowRunStep.
+   * @param {WorkflowRunStepUpdateArgs} args - Arguments to update one WorkflowRunStep.
+   * @example
+   * // Update one WorkflowRunStep
+   * const workflowRunStep = await prisma.workflowRunStep.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends WorkflowRunStepUpdateArgs>(args: Prisma.SelectSubset<T, WorkflowRunStepUpdateArgs<ExtArgs>>): Prisma.Prisma__WorkflowRunStepClient<runtime.Types.Result.GetResult<Prisma.$WorkflowRunStepPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more WorkflowRunSteps.
+   * @param {WorkflowRunStepDeleteManyArgs} args - Arguments to filter WorkflowRunSteps to delete.
+   * @example
+   * // Delete a few WorkflowRunSteps
+   * const { count } = await prisma.workflowRunStep.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends WorkflowRunStepDeleteManyArgs>(args?: Prisma.SelectSubset<T, WorkflowRunStepDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WorkflowRunSteps.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowRunStepUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many WorkflowRunSteps
+   * const workflowRunStep = await prisma.workflowRunStep.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends WorkflowRunStepUpdateManyArgs>(args: Prisma.SelectSubset<T, WorkflowRunStepUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WorkflowRunSteps and returns the data updated in the database.
+   * @param {WorkflowRunStepUpdateManyAndReturnArgs} args - Arguments to update many WorkflowRunSteps.
+   * @example
+   * // Update many WorkflowRunSteps
+   * const workflowRunStep = await prisma.workflowRunStep.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more WorkflowRunSteps and only return the `id`
+   * const workflowRunStepWithIdOnly = await prisma.workflowRunStep.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends WorkflowRunStepUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, WorkflowRunStepUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkflowRunStepPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one WorkflowRunStep.
+   * @param {WorkflowRunStepUpsertArgs} args - Arguments to update or create a WorkflowRunStep.
+   * @example
+   * // Update or create a WorkflowRunStep
+   * const workflowRunStep = await prisma.workflowRunStep.upsert({
+   *   create: {
+   *     // ... data to create a WorkflowRunStep
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the WorkflowRunStep we want to update
+   *   }
+   * })
+   */
+  upsert<T extends WorkflowRunStepUpsertArgs>(args: Prisma.SelectSubset<T, WorkflowRunStepUpsertArgs<ExtArgs>>): Prisma.Prisma__WorkflowRunStepClient<runtime.Types.Result.GetResult<Prisma.$WorkflowRunStepPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of WorkflowRunSteps.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowRunStepCountArgs} args - Arguments to filter WorkflowRunSteps to count.
+   * @example
+   * // Count the number of WorkflowRunSteps
+   * const count = await prisma.workflowRunStep.count({
+   *   where: {
+   *     // ... the filter for the WorkflowRunSteps we want to count
+   *   }
+   * })
+  **/
+  count<T extends WorkflowRunStepCountArgs>(
+    args?: Prisma.Subset<T, WorkflowRunStepCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], WorkflowRunStepCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a WorkflowRunStep.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowRunStepAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends WorkflowRunStepAggregateArgs>(args: Prisma.Subset<T, WorkflowRunStepAggregateArgs>): Prisma.PrismaPromise<GetWorkflowRunStepAggregateType<T>>
+
+  /**
+   * Group by WorkflowRunStep.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowRunStepGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends WorkflowRunStepGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: WorkflowRunStepGroupByArgs['orderBy'] }
+      : { orderBy?: WorkflowRunStepGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, WorkflowRunStepGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetWorkflowRunStepGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the WorkflowRunStep model
+ */
+readonly fields: WorkflowRunStepFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for WorkflowRunStep.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__WorkflowRunStepClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  run<T extends Prisma.WorkflowRunDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WorkflowRunDefaultArgs<ExtArgs>>): Prisma.Prisma__WorkflowRunClient<runtime.Types.Result.GetResult<Prisma.$WorkflowRunPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the WorkflowRunStep model
+ */
+export interface WorkflowRunStepFieldRefs {
+  readonly id: Prisma.FieldRef<"WorkflowRunStep", 'String'>
+  readonly runId: Prisma.FieldRef<"WorkflowRunStep", 'String'>
+  readonly sequence: Prisma.FieldRef<"WorkflowRunStep", 'Int'>
+  readonly nodeId: Prisma.FieldRef<"WorkflowRunStep", 'BigInt'>
+  readonly canvasNodeId: Prisma.FieldRef<"WorkflowRunStep", 'String'>
+  readonly nodeType: Prisma.FieldRef<"WorkflowRunStep", 'Int'>
+  readonly success: Prisma.FieldRef<"WorkflowRunStep", 'Boolean'>
+  readonly errorCode: Prisma.FieldRef<"WorkflowRunStep", 'BigInt'>
+  readonly createdAt: Prisma.FieldRef<"WorkflowRunStep", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * WorkflowRunStep findUnique
+ */
+export type WorkflowRunStepFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRunStep
+   */
+  select?: Prisma.WorkflowRunStepSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRunStep
+   */
+  omit?: Prisma.WorkflowRunStepOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunStepInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkflowRunStep to fetch.
+   */
+  where: Prisma.WorkflowRunStepWhereUniqueInput
+}
+
+/**
+ * WorkflowRunStep findUniqueOrThrow
+ */
+export type WorkflowRunStepFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRunStep
+   */
+  select?: Prisma.WorkflowRunStepSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRunStep
+   */
+  omit?: Prisma.WorkflowRunStepOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunStepInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkflowRunStep to fetch.
+   */
+  where: Prisma.WorkflowRunStepWhereUniqueInput
+}
+
+/**
+ * WorkflowRunStep findFirst
+ */
+export type WorkflowRunStepFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRunStep
+   */
+  select?: Prisma.WorkflowRunStepSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRunStep
+   */
+  omit?: Prisma.WorkflowRunStepOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunStepInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkflowRunStep to fetch.
+   */
+  where?: Prisma.WorkflowRunStepWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkflowRunSteps to fetch.
+   */
+  orderBy?: Prisma.WorkflowRunStepOrderByWithRelationInput | Prisma.WorkflowRunStepOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WorkflowRunSteps.
+   */
+  cursor?: Prisma.WorkflowRunStepWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkflowRunSteps from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkflowRunSteps.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WorkflowRunSteps.
+   */
+  distinct?: Prisma.WorkflowRunStepScalarFieldEnum | Prisma.WorkflowRunStepScalarFieldEnum[]
+}
+
+/**
+ * WorkflowRunStep findFirstOrThrow
+ */
+export type WorkflowRunStepFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRunStep
+   */
+  select?: Prisma.WorkflowRunStepSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRunStep
+   */
+  omit?: Prisma.WorkflowRunStepOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunStepInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkflowRunStep to fetch.
+   */
+  where?: Prisma.WorkflowRunStepWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkflowRunSteps to fetch.
+   */
+  orderBy?: Prisma.WorkflowRunStepOrderByWithRelationInput | Prisma.WorkflowRunStepOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WorkflowRunSteps.
+   */
+  cursor?: Prisma.WorkflowRunStepWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkflowRunSteps from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkflowRunSteps.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WorkflowRunSteps.
+   */
+  distinct?: Prisma.WorkflowRunStepScalarFieldEnum | Prisma.WorkflowRunStepScalarFieldEnum[]
+}
+
+/**
+ * WorkflowRunStep findMany
+ */
+export type WorkflowRunStepFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRunStep
+   */
+  select?: Prisma.WorkflowRunStepSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRunStep
+   */
+  omit?: Prisma.WorkflowRunStepOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunStepInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkflowRunSteps to fetch.
+   */
+  where?: Prisma.WorkflowRunStepWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkflowRunSteps to fetch.
+   */
+  orderBy?: Prisma.WorkflowRunStepOrderByWithRelationInput | Prisma.WorkflowRunStepOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing WorkflowRunSteps.
+   */
+  cursor?: Prisma.WorkflowRunStepWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkflowRunSteps from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkflowRunSteps.
+   */
+  skip?: number
+  distinct?: Prisma.WorkflowRunStepScalarFieldEnum | Prisma.WorkflowRunStepScalarFieldEnum[]
+}
+
+/**
+ * WorkflowRunStep create
+ */
+export type WorkflowRunStepCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRunStep
+   */
+  select?: Prisma.WorkflowRunStepSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRunStep
+   */
+  omit?: Prisma.WorkflowRunStepOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunStepInclude<ExtArgs> | null
+  /**
+   * The data needed to create a WorkflowRunStep.
+   */
+  data: Prisma.XOR<Prisma.WorkflowRunStepCreateInput, Prisma.WorkflowRunStepUncheckedCreateInput>
+}
+
+/**
+ * WorkflowRunStep createMany
+ */
+export type WorkflowRunStepCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many WorkflowRunSteps.
+   */
+  data: Prisma.WorkflowRunStepCreateManyInput | Prisma.WorkflowRunStepCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * WorkflowRunStep createManyAndReturn
+ */
+export type WorkflowRunStepCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRunStep
+   */
+  select?: Prisma.WorkflowRunStepSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRunStep
+   */
+  omit?: Prisma.WorkflowRunStepOmit<ExtArgs> | null
+  /**
+   * The data used to create many WorkflowRunSteps.
+   */
+  data: Prisma.WorkflowRunStepCreateManyInput | Prisma.WorkflowRunStepCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunStepIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WorkflowRunStep update
+ */
+export type WorkflowRunStepUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRunStep
+   */
+  select?: Prisma.WorkflowRunStepSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRunStep
+   */
+  omit?: Prisma.WorkflowRunStepOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunStepInclude<ExtArgs> | null
+  /**
+   * The data needed to update a WorkflowRunStep.
+   */
+  data: Prisma.XOR<Prisma.WorkflowRunStepUpdateInput, Prisma.WorkflowRunStepUncheckedUpdateInput>
+  /**
+   * Choose, which WorkflowRunStep to update.
+   */
+  where: Prisma.WorkflowRunStepWhereUniqueInput
+}
+
+/**
+ * WorkflowRunStep updateMany
+ */
+export type WorkflowRunStepUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update WorkflowRunSteps.
+   */
+  data: Prisma.XOR<Prisma.WorkflowRunStepUpdateManyMutationInput, Prisma.WorkflowRunStepUncheckedUpdateManyInput>
+  /**
+   * Filter which WorkflowRunSteps to update
+   */
+  where?: Prisma.WorkflowRunStepWhereInput
+  /**
+   * Limit how many WorkflowRunSteps to update.
+   */
+  limit?: number
+}
+
+/**
+ * WorkflowRunStep updateManyAndReturn
+ */
+export type WorkflowRunStepUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRunStep
+   */
+  select?: Prisma.WorkflowRunStepSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRunStep
+   */
+  omit?: Prisma.WorkflowRunStepOmit<ExtArgs> | null
+  /**
+   * The data used to update WorkflowRunSteps.
+   */
+  data: Prisma.XOR<Prisma.WorkflowRunStepUpdateManyMutationInput, Prisma.WorkflowRunStepUncheckedUpdateManyInput>
+  /**
+   * Filter which WorkflowRunSteps to update
+   */
+  where?: Prisma.WorkflowRunStepWhereInput
+  /**
+   * Limit how many WorkflowRunSteps to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunStepIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WorkflowRunStep upsert
+ */
+export type WorkflowRunStepUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRunStep
+   */
+  select?: Prisma.WorkflowRunStepSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRunStep
+   */
+  omit?: Prisma.WorkflowRunStepOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunStepInclude<ExtArgs> | null
+  /**
+   * The filter to search for the WorkflowRunStep to update in case it exists.
+   */
+  where: Prisma.WorkflowRunStepWhereUniqueInput
+  /**
+   * In case the WorkflowRunStep found by the `where` argument doesn't exist, create a new WorkflowRunStep with this data.
+   */
+  create: Prisma.XOR<Prisma.WorkflowRunStepCreateInput, Prisma.WorkflowRunStepUncheckedCreateInput>
+  /**
+   * In case the WorkflowRunStep was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.WorkflowRunStepUpdateInput, Prisma.WorkflowRunStepUncheckedUpdateInput>
+}
+
+/**
+ * WorkflowRunStep delete
+ */
+export type WorkflowRunStepDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRunStep
+   */
+  select?: Prisma.WorkflowRunStepSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRunStep
+   */
+  omit?: Prisma.WorkflowRunStepOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunStepInclude<ExtArgs> | null
+  /**
+   * Filter which WorkflowRunStep to delete.
+   */
+  where: Prisma.WorkflowRunStepWhereUniqueInput
+}
+
+/**
+ * WorkflowRunStep deleteMany
+ */
+export type WorkflowRunStepDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WorkflowRunSteps to delete
+   */
+  where?: Prisma.WorkflowRunStepWhereInput
+  /**
+   * Limit how many WorkflowRunSteps to delete.
+   */
+  limit?: number
+}
+
+/**
+ * WorkflowRunStep without action
+ */
+export type WorkflowRunStepDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowRunStep
+   */
+  select?: Prisma.WorkflowRunStepSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowRunStep
+   */
+  omit?: Prisma.WorkflowRunStepOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowRunStepInclude<ExtArgs> | null
+}
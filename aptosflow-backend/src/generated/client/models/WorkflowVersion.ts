@@ -0,0 +1,1454 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `WorkflowVersion` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model WorkflowVersion
+ * 
+ */
+export type WorkflowVersionModel = runtime.Types.Result.DefaultSelection<Prisma.$WorkflowVersionPayload>
+
+export type AggregateWorkflowVersion = {
+  _count: WorkflowVersionCountAggregateOutputType | null
+  _avg: WorkflowVersionAvgAggregateOutputType | null
+  _sum: WorkflowVersionSumAggregateOutputType | null
+  _min: WorkflowVersionMinAggregateOutputType | null
+  _max: WorkflowVersionMaxAggregateOutputType | null
+}
+
+export type WorkflowVersionAvgAggregateOutputType = {
+  version: number | null
+}
+
+export type WorkflowVersionSumAggregateOutputType = {
+  version: number | null
+}
+
+export type WorkflowVersionMinAggregateOutputType = {
+  id: string | null
+  workflowId: string | null
+  version: number | null
+  authorWallet: string | null
+  message: string | null
+  createdAt: Date | null
+}
+
+export type WorkflowVersionMaxAggregateOutputType = {
+  id: string | null
+  workflowId: string | null
+  version: number | null
+  authorWallet: string | null
+  message: string | null
+  createdAt: Date | null
+}
+
+export type WorkflowVersionCountAggregateOutputType = {
+  id: number
+  workflowId: number
+  version: number
+  workflowData: number
+  authorWallet: number
+  message: number
+  createdAt: number
+  _all: number
+}
+
+
+export type WorkflowVersionAvgAggregateInputType = {
+  version?: true
+}
+
+export type WorkflowVersionSumAggregateInputType = {
+  version?: true
+}
+
+export type WorkflowVersionMinAggregateInputType = {
+  id?: true
+  workflowId?: true
+  version?: true
+  authorWallet?: true
+  message?: true
+  createdAt?: true
+}
+
+export type WorkflowVersionMaxAggregateInputType = {
+  id?: true
+  workflowId?: true
+  version?: true
+  authorWallet?: true
+  message?: true
+  createdAt?: true
+}
+
+export type WorkflowVersionCountAggregateInputType = {
+  id?: true
+  workflowId?: true
+  version?: true
+  workflowData?: true
+  authorWallet?: true
+  message?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type WorkflowVersionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WorkflowVersion to aggregate.
+   */
+  where?: Prisma.WorkflowVersionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkflowVersions to fetch.
+   */
+  orderBy?: Prisma.WorkflowVersionOrderByWithRelationInput | Prisma.WorkflowVersionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.WorkflowVersionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkflowVersions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkflowVersions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned WorkflowVersions
+  **/
+  _count?: true | WorkflowVersionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: WorkflowVersionAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: WorkflowVersionSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: WorkflowVersionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: WorkflowVersionMaxAggregateInputType
+}
+
+export type GetWorkflowVersionAggregateType<T extends WorkflowVersionAggregateArgs> = {
+      [P in keyof T & keyof AggregateWorkflowVersion]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateWorkflowVersion[P]>
+    : Prisma.GetScalarType<T[P], AggregateWorkflowVersion[P]>
+}
+
+
+
+
+export type WorkflowVersionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WorkflowVersionWhereInput
+  orderBy?: Prisma.WorkflowVersionOrderByWithAggregationInput | Prisma.WorkflowVersionOrderByWithAggregationInput[]
+  by: Prisma.WorkflowVersionScalarFieldEnum[] | Prisma.WorkflowVersionScalarFieldEnum
+  having?: Prisma.WorkflowVersionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: WorkflowVersionCountAggregateInputType | true
+  _avg?: WorkflowVersionAvgAggregateInputType
+  _sum?: WorkflowVersionSumAggregateInputType
+  _min?: WorkflowVersionMinAggregateInputType
+  _max?: WorkflowVersionMaxAggregateInputType
+}
+
+export type WorkflowVersionGroupByOutputType = {
+  id: string
+  workflowId: string
+  version: number
+  workflowData: runtime.JsonValue
+  authorWallet: string | null
+  message: string | null
+  createdAt: Date
+  _count: WorkflowVersionCountAggregateOutputType | null
+  _avg: WorkflowVersionAvgAggregateOutputType | null
+  _sum: WorkflowVersionSumAggregateOutputType | null
+  _min: WorkflowVersionMinAggregateOutputType | null
+  _max: WorkflowVersionMaxAggregateOutputType | null
+}
+
+type GetWorkflowVersionGroupByPayload<T extends WorkflowVersionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<WorkflowVersionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof WorkflowVersionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], WorkflowVersionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], WorkflowVersionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type WorkflowVersionWhereInput = {
+  AND?: Prisma.WorkflowVersionWhereInput | Prisma.WorkflowVersionWhereInput[]
+  OR?: Prisma.WorkflowVersionWhereInput[]
+  NOT?: Prisma.WorkflowVersionWhereInput | Prisma.WorkflowVersionWhereInput[]
+  id?: Prisma.StringFilter<"WorkflowVersion"> | string
+  workflowId?: Prisma.StringFilter<"WorkflowVersion"> | string
+  version?: Prisma.IntFilter<"WorkflowVersion"> | number
+  workflowData?: Prisma.JsonFilter<"WorkflowVersion">
+  authorWallet?: Prisma.StringNullableFilter<"WorkflowVersion"> | string | null
+  message?: Prisma.StringNullableFilter<"WorkflowVersion"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"WorkflowVersion"> | Date | string
+  workflow?: Prisma.XOR<Prisma.WorkflowScalarRelationFilter, Prisma.WorkflowWhereInput>
+}
+
+export type WorkflowVersionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  workflowData?: Prisma.SortOrder
+  authorWallet?: Prisma.SortOrderInput | Prisma.SortOrder
+  message?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  workflow?: Prisma.WorkflowOrderByWithRelationInput
+}
+
+export type WorkflowVersionWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  workflowId_version?: Prisma.WorkflowVersionWorkflowIdVersionCompoundUniqueInput
+  AND?: Prisma.WorkflowVersionWhereInput | Prisma.WorkflowVersionWhereInput[]
+  OR?: Prisma.WorkflowVersionWhereInput[]
+  NOT?: Prisma.WorkflowVersionWhereInput | Prisma.WorkflowVersionWhereInput[]
+  workflowId?: Prisma.StringFilter<"WorkflowVersion"> | string
+  version?: Prisma.IntFilter<"WorkflowVersion"> | number
+  workflowData?: Prisma.JsonFilter<"WorkflowVersion">
+  authorWallet?: Prisma.StringNullableFilter<"WorkflowVersion"> | string | null
+  message?: Prisma.StringNullableFilter<"WorkflowVersion"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"WorkflowVersion"> | Date | string
+  workflow?: Prisma.XOR<Prisma.WorkflowScalarRelationFilter, Prisma.WorkflowWhereInput>
+}, "id" | "workflowId_version">
+
+export type WorkflowVersionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  workflowData?: Prisma.SortOrder
+  authorWallet?: Prisma.SortOrderInput | Prisma.SortOrder
+  message?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.WorkflowVersionCountOrderByAggregateInput
+  _avg?: Prisma.WorkflowVersionAvgOrderByAggregateInput
+  _max?: Prisma.WorkflowVersionMaxOrderByAggregateInput
+  _min?: Prisma.WorkflowVersionMinOrderByAggregateInput
+  _sum?: Prisma.WorkflowVersionSumOrderByAggregateInput
+}
+
+export type WorkflowVersionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.WorkflowVersionScalarWhereWithAggregatesInput | Prisma.WorkflowVersionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.WorkflowVersionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.WorkflowVersionScalarWhereWithAggregatesInput | Prisma.WorkflowVersionScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"WorkflowVersion"> | string
+  workflowId?: Prisma.StringWithAggregatesFilter<"WorkflowVersion"> | string
+  version?: Prisma.IntWithAggregatesFilter<"WorkflowVersion"> | number
+  workflowData?: Prisma.JsonWithAggregatesFilter<"WorkflowVersion">
+  authorWallet?: Prisma.StringNullableWithAggregatesFilter<"WorkflowVersion"> | string | null
+  message?: Prisma.StringNullableWithAggregatesFilter<"WorkflowVersion"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"WorkflowVersion"> | Date | string
+}
+
+export type WorkflowVersionCreateInput = {
+  id?: string
+  version: number
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  authorWallet?: string | null
+  message?: string | null
+  createdAt?: Date | string
+  workflow: Prisma.WorkflowCreateNestedOneWithoutVersionsInput
+}
+
+export type WorkflowVersionUncheckedCreateInput = {
+  id?: string
+  workflowId: string
+  version: number
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  authorWallet?: string | null
+  message?: string | null
+  createdAt?: Date | string
+}
+
+export type WorkflowVersionUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  authorWallet?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  message?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  workflow?: Prisma.WorkflowUpdateOneRequiredWithoutVersionsNestedInput
+}
+
+export type WorkflowVersionUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  authorWallet?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  message?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkflowVersionCreateManyInput = {
+  id?: string
+  workflowId: string
+  version: number
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  authorWallet?: string | null
+  message?: string | null
+  createdAt?: Date | string
+}
+
+export type WorkflowVersionUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  authorWallet?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  message?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkflowVersionUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workflowId?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  authorWallet?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  message?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkflowVersionListRelationFilter = {
+  every?: Prisma.WorkflowVersionWhereInput
+  some?: Prisma.WorkflowVersionWhereInput
+  none?: Prisma.WorkflowVersionWhereInput
+}
+
+export type WorkflowVersionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type WorkflowVersionWorkflowIdVersionCompoundUniqueInput = {
+  workflowId: string
+  version: number
+}
+
+export type WorkflowVersionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  workflowData?: Prisma.SortOrder
+  authorWallet?: Prisma.SortOrder
+  message?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type WorkflowVersionAvgOrderByAggregateInput = {
+  version?: Prisma.SortOrder
+}
+
+export type WorkflowVersionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  authorWallet?: Prisma.SortOrder
+  message?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type WorkflowVersionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workflowId?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  authorWallet?: Prisma.SortOrder
+  message?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type WorkflowVersionSumOrderByAggregateInput = {
+  version?: Prisma.SortOrder
+}
+
+export type WorkflowVersionCreateNestedManyWithoutWorkflowInput = {
+  create?: Prisma.XOR<Prisma.WorkflowVersionCreateWithoutWorkflowInput, Prisma.WorkflowVersionUncheckedCreateWithoutWorkflowInput> | Prisma.WorkflowVersionCreateWithoutWorkflowInput[] | Prisma.WorkflowVersionUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.WorkflowVersionCreateOrConnectWithoutWorkflowInput | Prisma.WorkflowVersionCreateOrConnectWithoutWorkflowInput[]
+  createMany?: Prisma.WorkflowVersionCreateManyWorkflowInputEnvelope
+  connect?: Prisma.WorkflowVersionWhereUniqueInput | Prisma.WorkflowVersionWhereUniqueInput[]
+}
+
+export type WorkflowVersionUncheckedCreateNestedManyWithoutWorkflowInput = {
+  create?: Prisma.XOR<Prisma.WorkflowVersionCreateWithoutWorkflowInput, Prisma.WorkflowVersionUncheckedCreateWithoutWorkflowInput> | Prisma.WorkflowVersionCreateWithoutWorkflowInput[] | Prisma.WorkflowVersionUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.WorkflowVersionCreateOrConnectWithoutWorkflowInput | Prisma.WorkflowVersionCreateOrConnectWithoutWorkflowInput[]
+  createMany?: Prisma.WorkflowVersionCreateManyWorkflowInputEnvelope
+  connect?: Prisma.WorkflowVersionWhereUniqueInput | Prisma.WorkflowVersionWhereUniqueInput[]
+}
+
+export type WorkflowVersionUpdateManyWithoutWorkflowNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowVersionCreateWithoutWorkflowInput, Prisma.WorkflowVersionUncheckedCreateWithoutWorkflowInput> | Prisma.WorkflowVersionCreateWithoutWorkflowInput[] | Prisma.WorkflowVersionUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.WorkflowVersionCreateOrConnectWithoutWorkflowInput | Prisma.WorkflowVersionCreateOrConnectWithoutWorkflowInput[]
+  upsert?: Prisma.WorkflowVersionUpsertWithWhereUniqueWithoutWorkflowInput | Prisma.WorkflowVersionUpsertWithWhereUniqueWithoutWorkflowInput[]
+  createMany?: Prisma.WorkflowVersionCreateManyWorkflowInputEnvelope
+  set?: Prisma.WorkflowVersionWhereUniqueInput | Prisma.WorkflowVersionWhereUniqueInput[]
+  disconnect?: Prisma.WorkflowVersionWhereUniqueInput | Prisma.WorkflowVersionWhereUniqueInput[]
+  delete?: Prisma.WorkflowVersionWhereUniqueInput | Prisma.WorkflowVersionWhereUniqueInput[]
+  connect?: Prisma.WorkflowVersionWhereUniqueInput | Prisma.WorkflowVersionWhereUniqueInput[]
+  update?: Prisma.WorkflowVersionUpdateWithWhereUniqueWithoutWorkflowInput | Prisma.WorkflowVersionUpdateWithWhereUniqueWithoutWorkflowInput[]
+  updateMany?: Prisma.WorkflowVersionUpdateManyWithWhereWithoutWorkflowInput | Prisma.WorkflowVersionUpdateManyWithWhereWithoutWorkflowInput[]
+  deleteMany?: Prisma.WorkflowVersionScalarWhereInput | Prisma.WorkflowVersionScalarWhereInput[]
+}
+
+export type WorkflowVersionUncheckedUpdateManyWithoutWorkflowNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkflowVersionCreateWithoutWorkflowInput, Prisma.WorkflowVersionUncheckedCreateWithoutWorkflowInput> | Prisma.WorkflowVersionCreateWithoutWorkflowInput[] | Prisma.WorkflowVersionUncheckedCreateWithoutWorkflowInput[]
+  connectOrCreate?: Prisma.WorkflowVersionCreateOrConnectWithoutWorkflowInput | Prisma.WorkflowVersionCreateOrConnectWithoutWorkflowInput[]
+  upsert?: Prisma.WorkflowVersionUpsertWithWhereUniqueWithoutWorkflowInput | Prisma.WorkflowVersionUpsertWithWhereUniqueWithoutWorkflowInput[]
+  createMany?: Prisma.WorkflowVersionCreateManyWorkflowInputEnvelope
+  set?: Prisma.WorkflowVersionWhereUniqueInput | Prisma.WorkflowVersionWhereUniqueInput[]
+  disconnect?: Prisma.WorkflowVersionWhereUniqueInput | Prisma.WorkflowVersionWhereUniqueInput[]
+  delete?: Prisma.WorkflowVersionWhereUniqueInput | Prisma.WorkflowVersionWhereUniqueInput[]
+  connect?: Prisma.WorkflowVersionWhereUniqueInput | Prisma.WorkflowVersionWhereUniqueInput[]
+  update?: Prisma.WorkflowVersionUpdateWithWhereUniqueWithoutWorkflowInput | Prisma.WorkflowVersionUpdateWithWhereUniqueWithoutWorkflowInput[]
+  updateMany?: Prisma.WorkflowVersionUpdateManyWithWhereWithoutWorkflowInput | Prisma.WorkflowVersionUpdateManyWithWhereWithoutWorkflowInput[]
+  deleteMany?: Prisma.WorkflowVersionScalarWhereInput | Prisma.WorkflowVersionScalarWhereInput[]
+}
+
+export type WorkflowVersionCreateWithoutWorkflowInput = {
+  id?: string
+  version: number
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  authorWallet?: string | null
+  message?: string | null
+  createdAt?: Date | string
+}
+
+export type WorkflowVersionUncheckedCreateWithoutWorkflowInput = {
+  id?: string
+  version: number
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  authorWallet?: string | null
+  message?: string | null
+  createdAt?: Date | string
+}
+
+export type WorkflowVersionCreateOrConnectWithoutWorkflowInput = {
+  where: Prisma.WorkflowVersionWhereUniqueInput
+  create: Prisma.XOR<Prisma.WorkflowVersionCreateWithoutWorkflowInput, Prisma.WorkflowVersionUncheckedCreateWithoutWorkflowInput>
+}
+
+export type WorkflowVersionCreateManyWorkflowInputEnvelope = {
+  data: Prisma.WorkflowVersionCreateManyWorkflowInput | Prisma.WorkflowVersionCreateManyWorkflowInput[]
+  skipDuplicates?: boolean
+}
+
+export type WorkflowVersionUpsertWithWhereUniqueWithoutWorkflowInput = {
+  where: Prisma.WorkflowVersionWhereUniqueInput
+  update: Prisma.XOR<Prisma.WorkflowVersionUpdateWithoutWorkflowInput, Prisma.WorkflowVersionUncheckedUpdateWithoutWorkflowInput>
+  create: Prisma.XOR<Prisma.WorkflowVersionCreateWithoutWorkflowInput, Prisma.WorkflowVersionUncheckedCreateWithoutWorkflowInput>
+}
+
+export type WorkflowVersionUpdateWithWhereUniqueWithoutWorkflowInput = {
+  where: Prisma.WorkflowVersionWhereUniqueInput
+  data: Prisma.XOR<Prisma.WorkflowVersionUpdateWithoutWorkflowInput, Prisma.WorkflowVersionUncheckedUpdateWithoutWorkflowInput>
+}
+
+export type WorkflowVersionUpdateManyWithWhereWithoutWorkflowInput = {
+  where: Prisma.WorkflowVersionScalarWhereInput
+  data: Prisma.XOR<Prisma.WorkflowVersionUpdateManyMutationInput, Prisma.WorkflowVersionUncheckedUpdateManyWithoutWorkflowInput>
+}
+
+export type WorkflowVersionScalarWhereInput = {
+  AND?: Prisma.WorkflowVersionScalarWhereInput | Prisma.WorkflowVersionScalarWhereInput[]
+  OR?: Prisma.WorkflowVersionScalarWhereInput[]
+  NOT?: Prisma.WorkflowVersionScalarWhereInput | Prisma.WorkflowVersionScalarWhereInput[]
+  id?: Prisma.StringFilter<"WorkflowVersion"> | string
+  workflowId?: Prisma.StringFilter<"WorkflowVersion"> | string
+  version?: Prisma.IntFilter<"WorkflowVersion"> | number
+  workflowData?: Prisma.JsonFilter<"WorkflowVersion">
+  authorWallet?: Prisma.StringNullableFilter<"WorkflowVersion"> | string | null
+  message?: Prisma.StringNullableFilter<"WorkflowVersion"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"WorkflowVersion"> | Date | string
+}
+
+export type WorkflowVersionCreateManyWorkflowInput = {
+  id?: string
+  version: number
+  workflowData: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  authorWallet?: string | null
+  message?: string | null
+  createdAt?: Date | string
+}
+
+export type WorkflowVersionUpdateWithoutWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  authorWallet?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  message?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkflowVersionUncheckedUpdateWithoutWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  authorWallet?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  message?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkflowVersionUncheckedUpdateManyWithoutWorkflowInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  workflowData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  authorWallet?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  message?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type WorkflowVersionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workflowId?: boolean
+  version?: boolean
+  workflowData?: boolean
+  authorWallet?: boolean
+  message?: boolean
+  createdAt?: boolean
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["workflowVersion"]>
+
+export type WorkflowVersionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workflowId?: boolean
+  version?: boolean
+  workflowData?: boolean
+  authorWallet?: boolean
+  message?: boolean
+  createdAt?: boolean
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["workflowVersion"]>
+
+export type WorkflowVersionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workflowId?: boolean
+  version?: boolean
+  workflowData?: boolean
+  authorWallet?: boolean
+  message?: boolean
+  createdAt?: boolean
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["workflowVersion"]>
+
+export type WorkflowVersionSelectScalar = {
+  id?: boolean
+  workflowId?: boolean
+  version?: boolean
+  workflowData?: boolean
+  authorWallet?: boolean
+  message?: boolean
+  createdAt?: boolean
+}
+
+export type WorkflowVersionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "workflowId" | "version" | "workflowData" | "authorWallet" | "message" | "createdAt", ExtArgs["result"]["workflowVersion"]>
+export type WorkflowVersionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}
+export type WorkflowVersionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}
+export type WorkflowVersionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  workflow?: boolean | Prisma.WorkflowDefaultArgs<ExtArgs>
+}
+
+export type $WorkflowVersionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "WorkflowVersion"
+  objects: {
+    workflow: Prisma.$WorkflowPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    workflowId: string
+    version: number
+    workflowData: runtime.JsonValue
+    authorWallet: string | null
+    message: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["workflowVersion"]>
+  composites: {}
+}
+
+export type WorkflowVersionGetPayload<S extends boolean | null | undefined | WorkflowVersionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$WorkflowVersionPayload, S>
+
+export type WorkflowVersionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<WorkflowVersionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: WorkflowVersionCountAggregateInputType | true
+  }
+
+export interface WorkflowVersionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['WorkflowVersion'], meta: { name: 'WorkflowVersion' } }
+  /**
+   * Find zero or one WorkflowVersion that matches the filter.
+   * @param {WorkflowVersionFindUniqueArgs} args - Arguments to find a WorkflowVersion
+   * @example
+   * // Get one WorkflowVersion
+   * const workflowVersion = await prisma.workflowVersion.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends WorkflowVersionFindUniqueArgs>(args: Prisma.SelectSubset<T, WorkflowVersionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__WorkflowVersionClient<runtime.Types.Result.GetResult<Prisma.$WorkflowVersionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one WorkflowVersion that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {WorkflowVersionFindUniqueOrThrowArgs} args - Arguments to find a WorkflowVersion
+   * @example
+   * // Get one WorkflowVersion
+   * const workflowVersion = await prisma.workflowVersion.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends WorkflowVersionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, WorkflowVersionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__WorkflowVersionClient<runtime.Types.Result.GetResult<Prisma.$WorkflowVersionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WorkflowVersion that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowVersionFindFirstArgs} args - Arguments to find a WorkflowVersion
+   * @example
+   * // Get one WorkflowVersion
+   * const workflowVersion = await prisma.workflowVersion.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends WorkflowVersionFindFirstArgs>(args?: Prisma.SelectSubset<T, WorkflowVersionFindFirstArgs<ExtArgs>>): Prisma.Prisma__WorkflowVersionClient<runtime.Types.Result.GetResult<Prisma.$WorkflowVersionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WorkflowVersion that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowVersionFindFirstOrThrowArgs} args - Arguments to find a WorkflowVersion
+   * @example
+   * // Get one WorkflowVersion
+   * const workflowVersion = await prisma.workflowVersion.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends WorkflowVersionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, WorkflowVersionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__WorkflowVersionClient<runtime.Types.Result.GetResult<Prisma.$WorkflowVersionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more WorkflowVersions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowVersionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all WorkflowVersions
+   * const workflowVersions = await prisma.workflowVersion.findMany()
+   * 
+   * // Get first 10 WorkflowVersions
+   * const workflowVersions = await prisma.workflowVersion.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const workflowVersionWithIdOnly = await prisma.workflowVersion.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends WorkflowVersionFindManyArgs>(args?: Prisma.SelectSubset<T, WorkflowVersionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkflowVersionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a WorkflowVersion.
+   * @param {WorkflowVersionCreateArgs} args - Arguments to create a WorkflowVersion.
+   * @example
+   * // Create one WorkflowVersion
+   * const WorkflowVersion = await prisma.workflowVersion.create({
+   *   data: {
+   *     // ... data to create a WorkflowVersion
+   *   }
+   * })
+   * 
+   */
+  create<T extends WorkflowVersionCreateArgs>(args: Prisma.SelectSubset<T, WorkflowVersionCreateArgs<ExtArgs>>): Prisma.Prisma__WorkflowVersionClient<runtime.Types.Result.GetResult<Prisma.$WorkflowVersionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many WorkflowVersions.
+   * @param {WorkflowVersionCreateManyArgs} args - Arguments to create many WorkflowVersions.
+   * @example
+   * // Create many WorkflowVersions
+   * const workflowVersion = await prisma.workflowVersion.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends WorkflowVersionCreateManyArgs>(args?: Prisma.SelectSubset<T, WorkflowVersionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many WorkflowVersions and returns the data saved in the database.
+   * @param {WorkflowVersionCreateManyAndReturnArgs} args - Arguments to create many WorkflowVersions.
+   * @example
+   * // Create many WorkflowVersions
+   * const workflowVersion = await prisma.workflowVersion.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many WorkflowVersions and only return the `id`
+   * const workflowVersionWithIdOnly = await prisma.workflowVersion.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends WorkflowVersionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, WorkflowVersionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkflowVersionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a WorkflowVersion.
+   * @param {WorkflowVersionDeleteArgs} args - Arguments to delete one WorkflowVersion.
+   * @example
+   * // Delete one WorkflowVersion
+   * const WorkflowVersion = await prisma.workflowVersion.delete({
+   *   where: {
+   *     // ... filter to delete one WorkflowVersion
+   *   }
+   * })
+   * 
+   */
+  delete<T extends WorkflowVersionDeleteArgs>(args: Prisma.SelectSubset<T, WorkflowVersionDeleteArgs<ExtArgs>>): Prisma.Prisma__WorkflowVersionClient<runtime.Types.Result.GetResult<Prisma.$WorkflowVersionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one WorkflowVersion.
+   * @param {WorkflowVersionUpdateArgs} args - Arguments to update one WorkflowVersion.
+   * @example
+   * // Update one WorkflowVersion
+   * const workflowVersion = await prisma.workflowVersion.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends WorkflowVersionUpdateArgs>(args: Prisma.SelectSubset<T, WorkflowVersionUpdateArgs<ExtArgs>>): Prisma.Prisma__WorkflowVersionClient<runtime.Types.Result.GetResult<Prisma.$WorkflowVersionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more WorkflowVersions.
+   * @param {WorkflowVersionDeleteManyArgs} args - Arguments to filter WorkflowVersions to delete.
+   * @example
+   * // Delete a few WorkflowVersions
+   * const { count } = await prisma.workflowVersion.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends WorkflowVersionDeleteManyArgs>(args?: Prisma.SelectSubset<T, WorkflowVersionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WorkflowVersions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowVersionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many WorkflowVersions
+   * const workflowVersion = await prisma.workflowVersion.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends WorkflowVersionUpdateManyArgs>(args: Prisma.SelectSubset<T, WorkflowVersionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WorkflowVersions and returns the data updated in the database.
+   * @param {WorkflowVersionUpdateManyAndReturnArgs} args - Arguments to update many WorkflowVersions.
+   * @example
+   * // Update many WorkflowVersions
+   * const workflowVersion = await prisma.workflowVersion.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more WorkflowVersions and only return the `id`
+   * const workflowVersionWithIdOnly = await prisma.workflowVersion.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends WorkflowVersionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, WorkflowVersionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkflowVersionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one WorkflowVersion.
+   * @param {WorkflowVersionUpsertArgs} args - Arguments to update or create a WorkflowVersion.
+   * @example
+   * // Update or create a WorkflowVersion
+   * const workflowVersion = await prisma.workflowVersion.upsert({
+   *   create: {
+   *     // ... data to create a WorkflowVersion
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the WorkflowVersion we want to update
+   *   }
+   * })
+   */
+  upsert<T extends WorkflowVersionUpsertArgs>(args: Prisma.SelectSubset<T, WorkflowVersionUpsertArgs<ExtArgs>>): Prisma.Prisma__WorkflowVersionClient<runtime.Types.Result.GetResult<Prisma.$WorkflowVersionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of WorkflowVersions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowVersionCountArgs} args - Arguments to filter WorkflowVersions to count.
+   * @example
+   * // Count the number of WorkflowVersions
+   * const count = await prisma.workflowVersion.count({
+   *   where: {
+   *     // ... the filter for the WorkflowVersions we want to count
+   *   }
+   * })
+  **/
+  count<T extends WorkflowVersionCountArgs>(
+    args?: Prisma.Subset<T, WorkflowVersionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], WorkflowVersionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a WorkflowVersion.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowVersionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends WorkflowVersionAggregateArgs>(args: Prisma.Subset<T, WorkflowVersionAggregateArgs>): Prisma.PrismaPromise<GetWorkflowVersionAggregateType<T>>
+
+  /**
+   * Group by WorkflowVersion.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkflowVersionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends WorkflowVersionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: WorkflowVersionGroupByArgs['orderBy'] }
+      : { orderBy?: WorkflowVersionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, WorkflowVersionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetWorkflowVersionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the WorkflowVersion model
+ */
+readonly fields: WorkflowVersionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for WorkflowVersion.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__WorkflowVersionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  workflow<T extends Prisma.WorkflowDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WorkflowDefaultArgs<ExtArgs>>): Prisma.Prisma__WorkflowClient<runtime.Types.Result.GetResult<Prisma.$WorkflowPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the WorkflowVersion model
+ */
+export interface WorkflowVersionFieldRefs {
+  readonly id: Prisma.FieldRef<"WorkflowVersion", 'String'>
+  readonly workflowId: Prisma.FieldRef<"WorkflowVersion", 'String'>
+  readonly version: Prisma.FieldRef<"WorkflowVersion", 'Int'>
+  readonly workflowData: Prisma.FieldRef<"WorkflowVersion", 'Json'>
+  readonly authorWallet: Prisma.FieldRef<"WorkflowVersion", 'String'>
+  readonly message: Prisma.FieldRef<"WorkflowVersion", 'String'>
+  readonly createdAt: Prisma.FieldRef<"WorkflowVersion", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * WorkflowVersion findUnique
+ */
+export type WorkflowVersionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowVersion
+   */
+  select?: Prisma.WorkflowVersionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowVersion
+   */
+  omit?: Prisma.WorkflowVersionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowVersionInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkflowVersion to fetch.
+   */
+  where: Prisma.WorkflowVersionWhereUniqueInput
+}
+
+/**
+ * WorkflowVersion findUniqueOrThrow
+ */
+export type WorkflowVersionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowVersion
+   */
+  select?: Prisma.WorkflowVersionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowVersion
+   */
+  omit?: Prisma.WorkflowVersionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowVersionInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkflowVersion to fetch.
+   */
+  where: Prisma.WorkflowVersionWhereUniqueInput
+}
+
+/**
+ * WorkflowVersion findFirst
+ */
+export type WorkflowVersionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowVersion
+   */
+  select?: Prisma.WorkflowVersionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowVersion
+   */
+  omit?: Prisma.WorkflowVersionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowVersionInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkflowVersion to fetch.
+   */
+  where?: Prisma.WorkflowVersionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkflowVersions to fetch.
+   */
+  orderBy?: Prisma.WorkflowVersionOrderByWithRelationInput | Prisma.WorkflowVersionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WorkflowVersions.
+   */
+  cursor?: Prisma.WorkflowVersionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkflowVersions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkflowVersions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WorkflowVersions.
+   */
+  distinct?: Prisma.WorkflowVersionScalarFieldEnum | Prisma.WorkflowVersionScalarFieldEnum[]
+}
+
+/**
+ * WorkflowVersion findFirstOrThrow
+ */
+export type WorkflowVersionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowVersion
+   */
+  select?: Prisma.WorkflowVersionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowVersion
+   */
+  omit?: Prisma.WorkflowVersionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowVersionInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkflowVersion to fetch.
+   */
+  where?: Prisma.WorkflowVersionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkflowVersions to fetch.
+   */
+  orderBy?: Prisma.WorkflowVersionOrderByWithRelationInput | Prisma.WorkflowVersionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WorkflowVersions.
+   */
+  cursor?: Prisma.WorkflowVersionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkflowVersions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkflowVersions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WorkflowVersions.
+   */
+  distinct?: Prisma.WorkflowVersionScalarFieldEnum | Prisma.WorkflowVersionScalarFieldEnum[]
+}
+
+/**
+ * WorkflowVersion findMany
+ */
+export type WorkflowVersionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowVersion
+   */
+  select?: Prisma.WorkflowVersionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowVersion
+   */
+  omit?: Prisma.WorkflowVersionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowVersionInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkflowVersions to fetch.
+   */
+  where?: Prisma.WorkflowVersionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkflowVersions to fetch.
+   */
+  orderBy?: Prisma.WorkflowVersionOrderByWithRelationInput | Prisma.WorkflowVersionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing WorkflowVersions.
+   */
+  cursor?: Prisma.WorkflowVersionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkflowVersions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkflowVersions.
+   */
+  skip?: number
+  distinct?: Prisma.WorkflowVersionScalarFieldEnum | Prisma.WorkflowVersionScalarFieldEnum[]
+}
+
+/**
+ * WorkflowVersion create
+ */
+export type WorkflowVersionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowVersion
+   */
+  select?: Prisma.WorkflowVersionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowVersion
+   */
+  omit?: Prisma.WorkflowVersionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowVersionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a WorkflowVersion.
+   */
+  data: Prisma.XOR<Prisma.WorkflowVersionCreateInput, Prisma.WorkflowVersionUncheckedCreateInput>
+}
+
+/**
+ * WorkflowVersion createMany
+ */
+export type WorkflowVersionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many WorkflowVersions.
+   */
+  data: Prisma.WorkflowVersionCreateManyInput | Prisma.WorkflowVersionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * WorkflowVersion createManyAndReturn
+ */
+export type WorkflowVersionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowVersion
+   */
+  select?: Prisma.WorkflowVersionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowVersion
+   */
+  omit?: Prisma.WorkflowVersionOmit<ExtArgs> | null
+  /**
+   * The data used to create many WorkflowVersions.
+   */
+  data: Prisma.WorkflowVersionCreateManyInput | Prisma.WorkflowVersionCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowVersionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WorkflowVersion update
+ */
+export type WorkflowVersionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowVersion
+   */
+  select?: Prisma.WorkflowVersionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowVersion
+   */
+  omit?: Prisma.WorkflowVersionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowVersionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a WorkflowVersion.
+   */
+  data: Prisma.XOR<Prisma.WorkflowVersionUpdateInput, Prisma.WorkflowVersionUncheckedUpdateInput>
+  /**
+   * Choose, which WorkflowVersion to update.
+   */
+  where: Prisma.WorkflowVersionWhereUniqueInput
+}
+
+/**
+ * WorkflowVersion updateMany
+ */
+export type WorkflowVersionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update WorkflowVersions.
+   */
+  data: Prisma.XOR<Prisma.WorkflowVersionUpdateManyMutationInput, Prisma.WorkflowVersionUncheckedUpdateManyInput>
+  /**
+   * Filter which WorkflowVersions to update
+   */
+  where?: Prisma.WorkflowVersionWhereInput
+  /**
+   * Limit how many WorkflowVersions to update.
+   */
+  limit?: number
+}
+
+/**
+ * WorkflowVersion updateManyAndReturn
+ */
+export type WorkflowVersionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowVersion
+   */
+  select?: Prisma.WorkflowVersionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowVersion
+   */
+  omit?: Prisma.WorkflowVersionOmit<ExtArgs> | null
+  /**
+   * The data used to update WorkflowVersions.
+   */
+  data: Prisma.XOR<Prisma.WorkflowVersionUpdateManyMutationInput, Prisma.WorkflowVersionUncheckedUpdateManyInput>
+  /**
+   * Filter which WorkflowVersions to update
+   */
+  where?: Prisma.WorkflowVersionWhereInput
+  /**
+   * Limit how many WorkflowVersions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowVersionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WorkflowVersion upsert
+ */
+export type WorkflowVersionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowVersion
+   */
+  select?: Prisma.WorkflowVersionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowVersion
+   */
+  omit?: Prisma.WorkflowVersionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowVersionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the WorkflowVersion to update in case it exists.
+   */
+  where: Prisma.WorkflowVersionWhereUniqueInput
+  /**
+   * In case the WorkflowVersion found by the `where` argument doesn't exist, create a new WorkflowVersion with this data.
+   */
+  create: Prisma.XOR<Prisma.WorkflowVersionCreateInput, Prisma.WorkflowVersionUncheckedCreateInput>
+  /**
+   * In case the WorkflowVersion was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.WorkflowVersionUpdateInput, Prisma.WorkflowVersionUncheckedUpdateInput>
+}
+
+/**
+ * WorkflowVersion delete
+ */
+export type WorkflowVersionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowVersion
+   */
+  select?: Prisma.WorkflowVersionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowVersion
+   */
+  omit?: Prisma.WorkflowVersionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowVersionInclude<ExtArgs> | null
+  /**
+   * Filter which WorkflowVersion to delete.
+   */
+  where: Prisma.WorkflowVersionWhereUniqueInput
+}
+
+/**
+ * WorkflowVersion deleteMany
+ */
+export type WorkflowVersionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WorkflowVersions to delete
+   */
+  where?: Prisma.WorkflowVersionWhereInput
+  /**
+   * Limit how many WorkflowVersions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * WorkflowVersion without action
+ */
+export type WorkflowVersionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkflowVersion
+   */
+  select?: Prisma.WorkflowVersionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkflowVersion
+   */
+  omit?: Prisma.WorkflowVersionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkflowVersionInclude<ExtArgs> | null
+}
@@ -11,9 +11,24 @@ import nodesRoute from './routes/nodes.route.js';
 import chatRoute from './routes/chat.route.js';
 import persistenceRoute from './routes/persistence.route.js';
 import executeRoute from './routes/workflow/execute.route.js';
+import runsRoute from './routes/workflow/runs.route.js';
+import simulateRoute from './routes/workflow/simulate.route.js';
+import resumptionsRoute from './routes/workflow/resumptions.route.js';
+import workflowScheduleRoute from './routes/workflow/schedule.route.js';
+import workflowWebhookRoute from './routes/workflow/webhook.route.js';
+import scheduleRoute from './routes/schedule.route.js';
+import expressionsRoute from './routes/expressions.route.js';
+import hooksRoute from './routes/hooks.route.js';
 import chatMessagesRoute from './routes/chat/messages.route.js';
 import workflowSaveRoute from './routes/workflow/save.route.js';
+import workflowLifecycleRoute from './routes/workflow/lifecycle.route.js';
+import workflowLibraryRoute from './routes/workflow/library.route.js';
+import workflowVersionsRoute from './routes/workflow/versions.route.js';
 import prisma from './utils/prisma.js';
+import { resumeService } from './services/resume.service.js';
+import { schedulerService } from './services/scheduler.service.js';
+import { indexerService } from './services/indexer.service.js';
+import { priceMonitorService } from './services/price-monitor.service.js';
 
 const app = express();
 
@@ -24,8 +39,12 @@ const app = express();
 app.use(cors({
   origin: config.corsOrigin,
   credentials: true,
+  // Workflow loads and saves return their revision as the ETag
+  exposedHeaders: ['ETag'],
 }));
 
+// Webhook signatures cover the exact bytes received, so hook bodies stay raw
+app.use('/api/hooks', express.raw({ type: () => true, limit: '1mb' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -43,12 +62,23 @@ app.use('/health', healthRoute);
 app.use('/api/generate', generateRoute);
 app.use('/api/workflow/stream', generateStreamRoute); // Separate endpoint to avoid conflicts
 app.use('/api/workflow', executeRoute); // Workflow execution
+app.use('/api/workflow', runsRoute); // Execution run history
+app.use('/api/workflow', simulateRoute); // Dry-run execution
+app.use('/api/workflow', resumptionsRoute); // Wait-node resumptions
+app.use('/api/workflow', workflowScheduleRoute); // Schedule and next fire times
+app.use('/api/workflow', workflowWebhookRoute); // Webhook URL and secret
 app.use('/api/workflows', workflowSaveRoute); // Workflow save/load
+app.use('/api/workflows', workflowLifecycleRoute); // Activate, pause, resume, deactivate
 app.use('/api/payment', paymentRoute);
 app.use('/api/nodes', nodesRoute);
+app.use('/api/schedule', scheduleRoute);
+app.use('/api/expressions', expressionsRoute); // Custom condition expressions
+app.use('/api/hooks', hooksRoute); // Webhook trigger deliveries
 app.use('/api/chat', chatRoute);
 app.use('/api/chat', chatMessagesRoute); // Chat message persistence
 app.use('/api/workflows', persistenceRoute);
+app.use('/api/workflows', workflowLibraryRoute); // Create, list, rename, duplicate, delete; after /latest
+app.use('/api/workflows', workflowVersionsRoute); // Version history, diff and rollback
 app.use('/api/chat', persistenceRoute);
 
 // Inngest endpoint
@@ -80,9 +110,21 @@ const server = app.listen(PORT, () => {
   console.log(`Generate API: http://localhost:${PORT}/api/generate`);
   console.log(`Payment API: http://localhost:${PORT}/api/payment`);
   console.log(`Nodes API: http://localhost:${PORT}/api/nodes`);
+  console.log(`Schedule API: http://localhost:${PORT}/api/schedule`);
   console.log(`Chat API: http://localhost:${PORT}/api/chat`);
   console.log(`Inngest: http://localhost:${PORT}/api/inngest`);
   console.log('================================');
+
+  resumeService.start().catch((error) => {
+    console.error('Failed to start resume worker:', error);
+  });
+  schedulerService.start().catch((error) => {
+    console.error('Failed to start scheduler:', error);
+  });
+  indexerService.start();
+  priceMonitorService.start().catch((error) => {
+    console.error('Failed to start price monitor:', error);
+  });
 });
 
 // ============================================================================
@@ -91,11 +133,16 @@ const server = app.listen(PORT, () => {
 
 const gracefulShutdown = async (signal: string) => {
   console.log(`\n${signal} received. Starting graceful shutdown...`);
+  resumeService.stop();
+  indexerService.stop();
+  priceMonitorService.stop();
   
   server.close(async () => {
     console.log('HTTP server closed');
     
     try {
+      // Release the scheduler lease so another replica can take over immediately
+      await schedulerService.stop();
       await prisma.$disconnect();
       console.log('Database connection closed');
       process.exit(0);
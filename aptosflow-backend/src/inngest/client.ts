@@ -27,4 +27,9 @@ export type Events = {
       error: string;
     };
   };
+  'workflow/run.requested': {
+    data: {
+      runId: string;
+    };
+  };
 };
@@ -0,0 +1,21 @@
+import { inngest } from '../client.js';
+import { workflowService } from '@/services/workflow.service.js';
+
+export const executeRun = inngest.createFunction(
+  {
+    id: 'execute-run',
+    name: 'Execute Queued Workflow Run',
+    // A retry could submit a transaction that already reached the chain;
+    // failures are recorded on the run instead
+    retries: 0,
+  },
+  { event: 'workflow/run.requested' },
+  async ({ event, step }) => {
+    const { runId } = event.data;
+
+    return await step.run('execute-run', async () => {
+      const { run, txHash, duplicate } = await workflowService.executeRun(runId);
+      return { runId: run.id, status: run.status, txHash, duplicate };
+    });
+  }
+);
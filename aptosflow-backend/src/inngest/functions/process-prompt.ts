@@ -1,6 +1,9 @@
 import { inngest } from '../client.js';
 import { aiService } from '@/services/ai.service.js';
+import { workflowLibraryService } from '@/services/workflow-library.service.js';
+import { workflowVersionService } from '@/services/workflow-version.service.js';
 import prisma from '@/utils/prisma.js';
+import type { Prisma } from '../../generated/client/client.js';
 
 export const processPrompt = inngest.createFunction(
   {
@@ -10,7 +13,7 @@ export const processPrompt = inngest.createFunction(
   },
   { event: 'prompt/submitted' },
   async ({ event, step }) => {
-    const { promptId, promptText } = event.data;
+    const { promptId, userId, promptText } = event.data;
 
     // Step 1: Update prompt status to PROCESSING
     await step.run('update-status-processing', async () => {
@@ -51,6 +54,8 @@ export const processPrompt = inngest.createFunction(
     }
 
     // Step 3b: Store workflow in database
+    const { nodes, edges, metadata } = workflowResult.workflow;
+    const workflowData: Prisma.InputJsonValue = { nodes, edges, ...(metadata && { metadata }) };
     const workflow = await step.run('store-workflow', async () => {
       return await prisma.$transaction(async () => {
         // Update prompt with workflow JSON
@@ -66,9 +71,12 @@ export const processPrompt = inngest.createFunction(
         // Create workflow record
         const workflow = await prisma.workflow.create({
           data: {
+            userId,
             promptId,
-            workflowData: workflowResult.workflow as any,
+            name: workflowLibraryService.nameFor(workflowResult.workflow, promptText),
+            workflowData,
             executionStatus: 'DRAFT',
+            ...workflowVersionService.initial(workflowData, { message: 'Generated from prompt' }),
           },
         });
 
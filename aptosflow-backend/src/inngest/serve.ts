@@ -1,10 +1,11 @@
 import { serve } from 'inngest/express';
 import { inngest } from './client.js';
 import { processPrompt } from './functions/process-prompt.js';
+import { executeRun } from './functions/execute-run.js';
 import { config } from '@/config/index.js';
 
 export const inngestServe = serve({
   client: inngest,
-  functions: [processPrompt],
+  functions: [processPrompt, executeRun],
   signingKey: config.inngestSigningKey,
 });
@@ -0,0 +1,85 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { expressionService } from '@/services/expression.service.js';
+import { ExpressionError } from '@/utils/expression-errors.js';
+import { DEFAULT_TIMEZONE, isValidTimezone } from '@/utils/timezone.js';
+import type { CompiledExpression } from '@/types/expression.types.js';
+
+const router = Router();
+
+const evaluateSchema = z.object({
+  expression: z.string().min(1),
+  context: z
+    .object({
+      balance: z.record(z.number()).optional(),
+      price: z.record(z.number()).optional(),
+      now: z.string().datetime({ offset: true }).optional(),
+      timezone: z.string().refine(isValidTimezone, { message: 'Timezone must be an IANA name' }).optional(),
+      trigger: z.record(z.any()).optional(),
+    })
+    .optional(),
+});
+
+const upperKeys = (values: Record<string, number> = {}) =>
+  Object.fromEntries(Object.entries(values).map(([symbol, value]) => [symbol.toUpperCase(), value]));
+
+/**
+ * POST /api/expressions/evaluate
+ * Parse, type-check and evaluate a custom condition expression against a
+ * supplied context ({ balance, price, now, timezone, trigger }). Nothing
+ * is read from the chain or an oracle; values the expression uses must be
+ * in the context.
+ */
+router.post('/evaluate', (req, res) => {
+  const parsed = evaluateSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    res.status(400).json({
+      success: false,
+      error: 'expression is required',
+      details: parsed.error.errors.map((e) => ({ path: e.path.join('.'), message: e.message })),
+    });
+    return;
+  }
+
+  const { expression, context = {} } = parsed.data;
+  let compiled: CompiledExpression | undefined;
+
+  try {
+    compiled = expressionService.compile(expression);
+    const value = expressionService.evaluate(compiled, {
+      balance: upperKeys(context.balance),
+      price: upperKeys(context.price),
+      now: context.now ? new Date(context.now) : new Date(),
+      timezone: context.timezone ?? DEFAULT_TIMEZONE,
+      trigger: context.trigger,
+    });
+
+    res.json({
+      success: true,
+      valid: true,
+      type: compiled.type,
+      value: value instanceof Date ? value.toISOString() : value,
+      reads: { balances: compiled.balances, prices: compiled.prices },
+      error: null,
+    });
+  } catch (error) {
+    if (!(error instanceof ExpressionError)) {
+      console.error('Error evaluating expression:', error);
+      res.status(500).json({ success: false, error: 'Failed to evaluate expression' });
+      return;
+    }
+
+    // A compiled expression failed on the context, not on its syntax or types
+    res.json({
+      success: true,
+      valid: !!compiled,
+      type: compiled?.type ?? null,
+      value: null,
+      reads: compiled ? { balances: compiled.balances, prices: compiled.prices } : null,
+      error: { message: error.message, position: error.position, column: error.position + 1 },
+    });
+  }
+});
+
+export default router;
@@ -1,8 +1,30 @@
 import { Router, Request, Response } from 'express';
 import { requirePayment } from '@/middleware/payment.middleware.js';
 import { aiService } from '@/services/ai.service.js';
+import { workflowValidatorService } from '@/services/workflow-validator.service.js';
+import { workflowLibraryService } from '@/services/workflow-library.service.js';
+import { workflowVersionService } from '@/services/workflow-version.service.js';
+import { cronService } from '@/services/cron.service.js';
+import type { DeepPartial } from 'ai';
+import {
+  NODE_SCHEMAS,
+  NODE_TYPES,
+  TRIGGER_NODE_TYPES,
+  workflowSchema,
+  type CanvasNode,
+  type WorkflowGraph,
+  type WorkflowGraphNode,
+} from '@/types/workflow.types.js';
+import { layoutWorkflow, type LayoutPosition } from '@/utils/workflow-layout.js';
 import prisma from '@/utils/prisma.js';
 
+// The workflow as far as the model has generated it
+type PartialWorkflow = DeepPartial<WorkflowGraph>;
+type PartialNode = NonNullable<NonNullable<PartialWorkflow['nodes']>[number]>;
+type PartialEdge = NonNullable<NonNullable<PartialWorkflow['edges']>[number]>;
+type StreamedNode = PartialNode & { id: string; type: string };
+type StreamedEdge = PartialEdge & { source: string; target: string };
+
 /**
  * Extract values from user prompt to pre-fill node configurations
  */
@@ -20,14 +42,14 @@ function extractValuesFromPrompt(prompt: string) {
   const aptMatch = prompt.match(/(\d+(?:\.\d+)?)\s*APT/i);
   if (aptMatch) {
     const aptAmount = parseFloat(aptMatch[1]);
-    extracted.amount = (aptAmount * 100000000).toString(); // Convert to octas
+    extracted.amount = Math.round(aptAmount * 100000000); // Convert to octas
     extracted.amountInAPT = aptMatch[1];
   }
 
   // Extract plain numbers (might be amounts in octas)
   const numberMatch = prompt.match(/\b(\d{6,})\b/); // 6+ digits likely octas
   if (numberMatch && !extracted.amount) {
-    extracted.amount = numberMatch[1];
+    extracted.amount = Number(numberMatch[1]);
   }
 
   // Extract token names
@@ -46,11 +68,23 @@ function extractValuesFromPrompt(prompt: string) {
   return extracted;
 }
 
+/**
+ * Stable id for a generated edge, the same in every partial object
+ */
+function edgeId(edge: { id?: string; source: string; target: string; label?: string }) {
+  return edge.id ?? `${edge.source}-${edge.target}${edge.label ? `-${edge.label}` : ''}`;
+}
+
 const router = Router();
 
 /**
  * POST /api/workflow/stream
- * Stream workflow generation with progressive node updates (SSE)
+ * Stream workflow generation with progressive node updates (SSE).
+ *
+ * Events: `node` when a node's id and type are known (with a layout
+ * `position`), `node_update` with the fields or position of a sent node
+ * that changed, `edge` once an edge is complete, then `complete` with the
+ * saved workflow id, or `error`.
  */
 router.post('/', requirePayment, async (req: Request, res: Response): Promise<void> => {
   try {
@@ -100,156 +134,177 @@ router.post('/', requirePayment, async (req: Request, res: Response): Promise<vo
     // Send initial status
     res.write(`data: ${JSON.stringify({ type: 'status', message: 'Starting generation...' })}\n\n`);
 
-    // Track which nodes have been sent to avoid duplicates
-    const sentNodes = new Set<string>();
-    let triggerId: string | null = null;
-    let conditionId: string | null = null;
-    let actionId: string | null = null;
-
     // Detect if prompt mentions schedule/time keywords
     const hasScheduleKeywords = /every|daily|weekly|monthly|hourly|cron|schedule|at \d|on (monday|tuesday|wednesday|thursday|friday|saturday|sunday)/i.test(prompt);
 
     // ENHANCED: Extract values from prompt for pre-filling nodes
     const extractedValues = extractValuesFromPrompt(prompt);
 
-    // Stream partial objects as they're generated
-    for await (const partialObject of stream.partialObjectStream) {
-      completeWorkflow = partialObject; // Keep updating with latest
-
-      // POST-PROCESS: Fix trigger type if AI incorrectly uses schedule_trigger
-      if (partialObject.trigger && partialObject.trigger.type === 'schedule_trigger' && !hasScheduleKeywords) {
-        partialObject.trigger.type = 'manual_trigger';
-        // Remove schedule-related fields
-        const trigger = partialObject.trigger as any;
-        delete trigger.schedule;
-        delete trigger.cron;
-      }
-
-      // Send trigger node when available (only once)
-      if (partialObject.trigger && !sentNodes.has('trigger')) {
-        triggerId = `trigger_${Date.now()}`;
-        
-        // Determine correct trigger type (apply post-processing here)
-        let triggerType = partialObject.trigger.type || 'manual_trigger';
-        if (triggerType === 'schedule_trigger' && !hasScheduleKeywords) {
-          triggerType = 'manual_trigger'; // Override to manual
+    // Nodes of an edited workflow stay where the canvas had them
+    const fixedPositions = new Map<string, LayoutPosition>(
+      ((existingWorkflow?.nodes ?? []) as CanvasNode[]).flatMap((node): [string, LayoutPosition][] =>
+        node?.id && node.position ? [[node.id, node.position]] : []
+      )
+    );
+
+    // What the canvas has been sent so far, to send only what changed
+    const sentNodes = new Map<string, { data: Record<string, unknown>; position: LayoutPosition }>();
+    const sentEdges = new Set<string>();
+
+    const send = (event: { type: string; data: Record<string, unknown> }) => res.write(`data: ${JSON.stringify(event)}\n\n`);
+
+    // POST-PROCESS: Fix trigger type if AI incorrectly uses schedule_trigger
+    const correctTrigger = (workflow: PartialWorkflow | undefined) => {
+      for (const node of workflow?.nodes ?? []) {
+        if (node?.type === 'schedule_trigger' && !hasScheduleKeywords) {
+          node.type = 'manual_trigger';
+          // Remove schedule-related fields
+          delete node.data?.cron;
+          delete node.data?.timezone;
         }
-        
-        res.write(`data: ${JSON.stringify({
-          type: 'node',
-          data: {
-            id: triggerId,
-            type: triggerType, // Use corrected type
-            ...partialObject.trigger,
-          }
-        })}\n\n`);
-        sentNodes.add('trigger');
-        nodeCount++;
       }
-
-      // Send condition node when available (only once)
-      if (partialObject.condition && !sentNodes.has('condition')) {
-        conditionId = `condition_${Date.now()}`;
-        
-        // PRE-FILL: Apply extracted values to condition
-        const conditionData = {
-          ...partialObject.condition,
-          address: (partialObject.condition as any).address || extractedValues.address,
-          amount: (partialObject.condition as any).amount || extractedValues.amount,
-        };
-        
-        res.write(`data: ${JSON.stringify({
-          type: 'node',
-          data: {
-            id: conditionId,
-            type: partialObject.condition.type || 'balance_check',
-            ...conditionData,
-          }
-        })}\n\n`);
-        sentNodes.add('condition');
-        nodeCount++;
-        
-        // Send edge connecting trigger to condition
-        if (triggerId) {
-          res.write(`data: ${JSON.stringify({
-            type: 'edge',
-            data: {
-              id: `edge_${edgeCount++}`,
-              source: triggerId,
-              target: conditionId,
-            }
-          })}\n\n`);
+    };
+
+    // The fields of a partial node that will not change: the model writes
+    // keys in order, so only the last one can still be growing
+    const settledData = (node: StreamedNode, complete: boolean) => {
+      const nodeData: Record<string, unknown> = node.data ?? {};
+      const entries = Object.entries(nodeData);
+      const settled = Object.fromEntries(complete ? entries : entries.slice(0, -1));
+
+      // PRE-FILL: Apply extracted values to the fields this condition or
+      // action has and the model has not filled in
+      const fields = TRIGGER_NODE_TYPES.includes(node.type) ? [] : Object.keys(NODE_SCHEMAS[node.type]?.shape ?? {});
+      const prefill = Object.fromEntries(
+        Object.entries(extractedValues).filter(([field]) => fields.includes(field) && nodeData[field] === undefined)
+      );
+
+      return { ...prefill, ...settled };
+    };
+
+    // Send nodes once their id and type are final, then node_update with
+    // the fields and position that changed since; send edges once final
+    const flush = (workflow: PartialWorkflow | undefined, done: boolean) => {
+      const nodes = workflow?.nodes ?? [];
+      const edgesStarted = workflow?.edges !== undefined;
+      const isComplete = (i: number) => done || edgesStarted || i < nodes.length - 1;
+
+      const ready = nodes
+        .map((node, i) => ({ node, complete: isComplete(i) }))
+        .filter((entry, i): entry is { node: StreamedNode; complete: boolean } => {
+          const { node, complete } = entry;
+          return (
+            typeof node?.id === 'string' &&
+            typeof node.type === 'string' &&
+            NODE_TYPES.includes(node.type) &&
+            (complete || node.data !== undefined) &&
+            nodes.findIndex((other) => other?.id === node.id) === i
+          );
+        });
+      const readyIds = new Set(ready.map(({ node }) => node.id));
+
+      const edges = (workflow?.edges ?? []).filter(
+        (edge, i, all): edge is StreamedEdge =>
+          (done || i < all.length - 1) &&
+          typeof edge?.source === 'string' &&
+          typeof edge.target === 'string' &&
+          readyIds.has(edge.source) &&
+          readyIds.has(edge.target)
+      );
+      // Until its edges arrive, a node is placed below the one listed before it
+      const ids = [...readyIds];
+      const targets = new Set(edges.map((edge) => edge.target));
+      const provisional = done
+        ? []
+        : ids.flatMap((id, i) => (i > 0 && !targets.has(id) ? [{ source: ids[i - 1], target: id }] : []));
+      const positions = layoutWorkflow(ids, [...edges, ...provisional], fixedPositions);
+
+      for (const { node, complete } of ready) {
+        const data = settledData(node, complete);
+        const position = positions.get(node.id)!;
+        const sent = sentNodes.get(node.id);
+
+        if (!sent) {
+          send({ type: 'node', data: { id: node.id, type: node.type, position, ...data } });
+          sentNodes.set(node.id, { data, position });
+          nodeCount++;
+          continue;
         }
-      }
 
-      // Send action node when available (only once)
-      if (partialObject.action && !sentNodes.has('action')) {
-        actionId = `action_${Date.now()}`;
-        
-        // PRE-FILL: Apply extracted values to action
-        const actionData = {
-          ...partialObject.action,
-          recipient: (partialObject.action as any).recipient || extractedValues.recipient,
-          amount: (partialObject.action as any).amount || extractedValues.amount,
-          token: (partialObject.action as any).token || extractedValues.token || 'APT',
-          poolAddress: (partialObject.action as any).poolAddress || extractedValues.poolAddress,
-          validatorAddress: (partialObject.action as any).validatorAddress || extractedValues.validatorAddress,
-        };
-        
-        res.write(`data: ${JSON.stringify({
-          type: 'node',
-          data: {
-            id: actionId,
-            type: partialObject.action.type || 'transfer_action',
-            ...actionData,
-          }
-        })}\n\n`);
-        sentNodes.add('action');
-        nodeCount++;
-        
-        // Send edge connecting to action
-        const sourceId = conditionId || triggerId;
-        if (sourceId) {
-          res.write(`data: ${JSON.stringify({
-            type: 'edge',
-            data: {
-              id: `edge_${edgeCount++}`,
-              source: sourceId,
-              target: actionId,
-            }
-          })}\n\n`);
+        const changed = Object.fromEntries(
+          Object.entries(data).filter(([field, value]) => JSON.stringify(sent.data[field]) !== JSON.stringify(value))
+        );
+        const moved = sent.position.x !== position.x || sent.position.y !== position.y;
+        if (Object.keys(changed).length > 0 || moved) {
+          send({ type: 'node_update', data: { id: node.id, ...changed, ...(moved && { position }) } });
+          sentNodes.set(node.id, { data, position });
         }
       }
 
-      // Send flow control nodes when available
-      if (partialObject.flowControl && !sentNodes.has('flowControl')) {
-        const flowControlId = `flow_${Date.now()}`;
-        res.write(`data: ${JSON.stringify({
-          type: 'node',
-          data: {
-            id: flowControlId,
-            type: partialObject.flowControl.type || 'end_node',
-            ...partialObject.flowControl,
-          }
-        })}\n\n`);
-        sentNodes.add('flowControl');
-        nodeCount++;
-        
-        // Send edge connecting to flow control
-        const sourceId = actionId || conditionId || triggerId;
-        if (sourceId) {
-          res.write(`data: ${JSON.stringify({
+      for (const edge of edges) {
+        const id = edgeId(edge);
+        if (!sentEdges.has(id)) {
+          send({
             type: 'edge',
-            data: {
-              id: `edge_${edgeCount++}`,
-              source: sourceId,
-              target: flowControlId,
-            }
-          })}\n\n`);
+            data: { id, source: edge.source, target: edge.target, ...(edge.label && { label: edge.label }) },
+          });
+          sentEdges.add(id);
+          edgeCount++;
         }
       }
+    };
+
+    // Stream partial objects as they're generated
+    for await (const partialObject of stream.partialObjectStream) {
+      completeWorkflow = partialObject; // Keep updating with latest
+      correctTrigger(partialObject);
+      flush(partialObject, false);
+    }
+    flush(completeWorkflow, true);
+
+    const parsed = workflowSchema.safeParse(completeWorkflow);
+    if (!parsed.success) {
+      const message = 'Generated workflow is not a valid graph of nodes and edges';
+      await prisma.prompt.update({
+        where: { id: promptRecord.id },
+        data: { status: 'FAILED', errorMessage: message },
+      });
+      res.write(`data: ${JSON.stringify({ type: 'error', message })}\n\n`);
+      res.end();
+      return;
+    }
+    completeWorkflow = parsed.data;
+
+    // Store the ids and positions the canvas was sent
+    for (const node of completeWorkflow.nodes) {
+      node.position = sentNodes.get(node.id)?.position ?? node.position;
+    }
+    for (const edge of completeWorkflow.edges) {
+      edge.id = edgeId(edge);
     }
 
+    // Reject graphs that are malformed or whose nodes do not match their
+    // schema before the workflow is saved
+    const validation = workflowValidatorService.validate(completeWorkflow);
+    if (!validation.valid) {
+      const message = `Workflow validation failed: ${validation.errors[0].message}`;
+      await prisma.prompt.update({
+        where: { id: promptRecord.id },
+        data: { status: 'FAILED', errorMessage: message },
+      });
+      res.write(`data: ${JSON.stringify({ type: 'error', message, errors: validation.errors })}\n\n`);
+      res.end();
+      return;
+    }
+    workflowValidatorService.normalize(completeWorkflow);
+
+    const trigger = completeWorkflow.nodes.find((node: WorkflowGraphNode) => node.type === 'schedule_trigger');
+    if (trigger) {
+      res.write(`data: ${JSON.stringify({
+        type: 'status',
+        message: `Schedule: ${cronService.describe(trigger.data.cron)}`,
+      })}\n\n`);
+    }
 
     // Save workflow to database
     if (completeWorkflow) {
@@ -268,9 +323,15 @@ router.post('/', requirePayment, async (req: Request, res: Response): Promise<vo
           // Create workflow record linked to prompt
           return await tx.workflow.create({
             data: {
+              userId: user.id,
               promptId: promptRecord.id,
+              name: workflowLibraryService.nameFor(completeWorkflow, prompt),
               workflowData: completeWorkflow as any,
               executionStatus: 'DRAFT',
+              ...workflowVersionService.initial(completeWorkflow, {
+                authorWallet: sender,
+                message: 'Generated from prompt',
+              }),
             },
           });
         });
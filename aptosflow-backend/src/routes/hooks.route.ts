@@ -0,0 +1,53 @@
+import { Router } from 'express';
+import {
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  webhookService,
+} from '@/services/webhook.service.js';
+import { AppError } from '@/middleware/error.middleware.js';
+
+const router = Router();
+
+/**
+ * POST /api/hooks/:workflowId/:token
+ * Receive a webhook delivery for a workflow with a webhook_trigger.
+ *
+ * Headers: X-AptosFlow-Timestamp (unix seconds), X-AptosFlow-Signature
+ * (hex HMAC-SHA256 of "<timestamp>.<raw body>" with the workflow's secret)
+ * and optionally X-AptosFlow-Event, otherwise `event` in the JSON body.
+ * Returns 202 with the queued run; a delivery for another event is
+ * acknowledged with 200 and not run.
+ */
+router.post('/:workflowId/:token', async (req, res) => {
+  try {
+    const { workflowId, token } = req.params;
+
+    const receipt = await webhookService.receive(workflowId, token, {
+      timestamp: req.get(WEBHOOK_TIMESTAMP_HEADER),
+      signature: req.get(WEBHOOK_SIGNATURE_HEADER),
+      event: req.get(WEBHOOK_EVENT_HEADER),
+      body: Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0),
+    });
+
+    if (!receipt.accepted) {
+      return res.json({ success: true, accepted: false, runId: null, reason: receipt.reason });
+    }
+
+    return res.status(202).json({
+      success: true,
+      accepted: true,
+      runId: receipt.runId,
+      status: receipt.status,
+      duplicate: receipt.duplicate,
+    });
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error receiving webhook:', error);
+    return res.status(500).json({ error: 'Failed to receive webhook' });
+  }
+});
+
+export default router;
@@ -43,11 +43,7 @@ router.get('/latest/:walletAddress', async (req, res) => {
     }
 
     const workflow = await prisma.workflow.findFirst({
-      where: {
-        prompt: {
-          userId: user.id
-        }
-      },
+      where: { userId: user.id },
       orderBy: { updatedAt: 'desc' },
     });
 
@@ -0,0 +1,44 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { cronService } from '@/services/cron.service.js';
+
+const router = Router();
+
+const previewSchema = z.object({
+  cron: z.string().min(1),
+  timezone: z.string().optional(),
+  count: z.coerce.number().int().min(1).max(50).optional(),
+});
+
+/**
+ * POST /api/schedule/preview
+ * Validate a cron expression and preview its next fire times
+ */
+router.post('/preview', (req, res) => {
+  const parsed = previewSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    res.status(400).json({
+      success: false,
+      error: 'cron is required',
+      details: parsed.error.errors.map((e) => ({ path: e.path.join('.'), message: e.message })),
+    });
+    return;
+  }
+
+  const { cron, timezone, count } = parsed.data;
+  const validation = cronService.validate(cron, timezone, count ?? 10);
+
+  res.json({
+    success: true,
+    valid: validation.valid,
+    input: cron,
+    normalized: validation.normalized ?? null,
+    description: validation.description ?? null,
+    timezone: validation.timezone,
+    nextFireTimes: validation.nextFireTimes ?? [],
+    error: validation.error ?? null,
+  });
+});
+
+export default router;
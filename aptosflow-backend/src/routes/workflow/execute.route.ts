@@ -1,7 +1,15 @@
 import { Router } from 'express';
 import { requirePayment } from '../../middleware/payment.middleware.js';
-import { aptosService } from '../../services/aptos.service.js';
+import { workflowCompilerService } from '../../services/workflow-compiler.service.js';
+import { workflowService } from '../../services/workflow.service.js';
+import { workflowValidatorService } from '../../services/workflow-validator.service.js';
+import { workflowVersionService } from '../../services/workflow-version.service.js';
+import { runService } from '../../services/run.service.js';
+import { AppError } from '../../middleware/error.middleware.js';
 import prisma from '../../utils/prisma.js';
+import { workflowErrorHint } from '../../utils/workflow-errors.js';
+import type { ExecutionStatus, WorkflowRun } from '../../generated/client/client.js';
+import type { TransactionInspection } from '../../types/contract.types.js';
 
 const router = Router();
 
@@ -11,7 +19,7 @@ const router = Router();
  */
 router.post('/execute', requirePayment, async (req, res) => {
   try {
-    const { workflow } = req.body;
+    const { workflow, sender } = req.body;
     
     if (!workflow || !workflow.nodes || !workflow.edges) {
       return res.status(400).json({
@@ -20,7 +28,7 @@ router.post('/execute', requirePayment, async (req, res) => {
     }
 
     // Validate workflow
-    const validation = validateWorkflow(workflow.nodes);
+    const validation = workflowValidatorService.validate(workflow);
     if (!validation.valid) {
       return res.status(400).json({
         error: 'Workflow validation failed',
@@ -28,41 +36,63 @@ router.post('/execute', requirePayment, async (req, res) => {
       });
     }
 
-    // Create workflow in database using correct schema fields
+    // Compile before anything is persisted so graphs the contract would
+    // abort on never reach a transaction
+    workflowCompilerService.compile(workflow);
+
+    // Store the workflow for the paying wallet
+    const user = await prisma.user.upsert({
+      where: { walletAddress: sender },
+      create: { walletAddress: sender },
+      update: {},
+    });
+    const workflowData = { nodes: workflow.nodes, edges: workflow.edges };
     const dbWorkflow = await prisma.workflow.create({
       data: {
-        promptId: workflow.promptId || 'manual',
-        workflowData: { nodes: workflow.nodes, edges: workflow.edges },
+        userId: user.id,
+        workflowData,
         executionStatus: 'PENDING',
-        isActive: true,
         triggerType: 'manual',
         triggerConfig: {},
+        ...workflowVersionService.initial(workflowData, { authorWallet: sender }),
       },
     });
 
-    // Execute on contract using backend private key
-    // const privateKeyHex = process.env.APTOS_PRIVATE_KEY!;
-    // const privateKey = new Ed25519PrivateKey(privateKeyHex);
-
-    // Execute workflow on blockchain
-    const txHash = await aptosService.executeWorkflow(
-      dbWorkflow.id
-    );
+    // Register and execute workflow on blockchain
+    const { txHash, run } = await workflowService.executeWorkflow(dbWorkflow.id);
 
-    // Update workflow with transaction hash
+    // Mirror the run outcome on the workflow
     await prisma.workflow.update({
       where: { id: dbWorkflow.id },
-      data: {
-        executionStatus: 'SUBMITTED',
-        workflowData: { 
-          ...dbWorkflow.workflowData as any,
-          transactionHash: txHash 
-        },
-      },
+      data: { executionStatus: run.status },
     });
 
-    return res.json({ success: true, transactionHash: txHash });
+    if (run.status === 'FAILED') {
+      return res.status(422).json({
+        success: false,
+        workflowId: dbWorkflow.id,
+        runId: run.id,
+        status: run.status,
+        transactionHash: txHash,
+        error: serializeRunError(run),
+      });
+    }
+
+    return res.json({
+      success: true,
+      workflowId: dbWorkflow.id,
+      runId: run.id,
+      status: run.status,
+      transactionHash: txHash,
+      conditions: run.conditionTrace,
+    });
   } catch (error: any) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        error: error.message,
+        details: error.details,
+      });
+    }
     console.error('Workflow execution error:', error);
     return res.status(500).json({ error: error.message || 'Failed to execute workflow' });
   }
@@ -84,19 +114,26 @@ router.get('/execute/:id', async (req, res) => {
       return res.status(404).json({ error: 'Workflow not found' });
     }
 
-    // Extract transaction hash from workflowData
-    const workflowData = workflow.workflowData as any;
-    const txHash = workflowData?.txHash;
+    const onChainWorkflow = await workflowService.getOnChainWorkflow(id);
+
+    // Drive the latest run (and the workflow's status) from its transaction
+    let latestRun = await runService.getLatestRun(id);
+    let executionStatus = workflow.executionStatus;
     let txStatus = null;
 
-    if (txHash) {
+    if (latestRun) {
       try {
-        // Access aptos through a public method instead
-        const tx = await aptosService.verifyPayment(txHash, '0x1'); // Temporary workaround
-        txStatus = {
-          success: true,
-          verified: tx.valid,
-        };
+        const synced = await runService.syncRun(latestRun.id);
+        latestRun = synced.run;
+        txStatus = synced.transaction && serializeInspection(synced.transaction);
+
+        if (RUN_STATUSES.includes(executionStatus) && executionStatus !== latestRun.status) {
+          executionStatus = latestRun.status;
+          await prisma.workflow.update({
+            where: { id },
+            data: { executionStatus },
+          });
+        }
       } catch (error) {
         console.error('Error fetching transaction:', error);
       }
@@ -105,10 +142,26 @@ router.get('/execute/:id', async (req, res) => {
     return res.json({
       workflow: {
         id: workflow.id,
-        executionStatus: workflow.executionStatus,
+        executionStatus,
         createdAt: workflow.createdAt,
         updatedAt: workflow.updatedAt,
       },
+      onChain: onChainWorkflow
+        ? {
+            owner: onChainWorkflow.ownerAddress,
+            workflowId: onChainWorkflow.onChainId.toString(),
+            registrationTxHash: onChainWorkflow.registrationTxHash,
+            registeredAt: onChainWorkflow.createdAt,
+          }
+        : null,
+      latestRun: latestRun
+        ? {
+            id: latestRun.id,
+            status: latestRun.status,
+            txHash: latestRun.txHash,
+            error: serializeRunError(latestRun),
+          }
+        : null,
       transaction: txStatus,
     });
   } catch (error: any) {
@@ -121,22 +174,55 @@ router.get('/execute/:id', async (req, res) => {
 });
 
 // Helper functions (these would normally be in a separate service)
-function validateWorkflow(nodes: any[]) {
-  const errors: string[] = [];
 
-  const hasTrigger = nodes.some((n) => n.type.includes('trigger'));
-  if (!hasTrigger) {
-    errors.push('Workflow must have at least one trigger node');
-  }
+// Workflow statuses that mirror the latest run rather than its activation state
+const RUN_STATUSES: ExecutionStatus[] = [
+  'PENDING',
+  'SUBMITTED',
+  'RUNNING',
+  'COMPLETED',
+  'FAILED',
+  'PAUSED',
+  'CANCELLED',
+  'SKIPPED',
+];
+
+function serializeRunError(run: WorkflowRun) {
+  if (run.status !== 'FAILED') return null;
 
-  const hasAction = nodes.some((n) => n.type.includes('action'));
-  if (!hasAction) {
-    errors.push('Workflow must have at least one action node');
-  }
+  return {
+    code: run.errorCode,
+    message: run.errorMessage,
+    nodeId: run.errorNodeId,
+    hint: run.errorCode ? workflowErrorHint(run.errorCode) : null,
+  };
+}
 
+function serializeInspection(tx: TransactionInspection) {
   return {
-    valid: errors.length === 0,
-    errors,
+    hash: tx.hash,
+    state: tx.state,
+    sender: tx.sender ?? null,
+    sequenceNumber: tx.sequenceNumber?.toString() ?? null,
+    version: tx.version?.toString() ?? null,
+    vmStatus: tx.vmStatus ?? null,
+    gasUsed: tx.gasUsed?.toString() ?? null,
+    timestamp: tx.timestamp ?? null,
+    events: {
+      steps: tx.events.steps.map((step) => ({
+        nodeId: step.nodeId.toString(),
+        nodeType: step.nodeType,
+        success: step.success,
+        errorCode: step.errorCode.toString(),
+      })),
+      completed: tx.events.completed
+        ? {
+            workflowId: tx.events.completed.workflowId.toString(),
+            totalSteps: tx.events.completed.totalSteps,
+            success: tx.events.completed.success,
+          }
+        : null,
+    },
   };
 }
 
@@ -0,0 +1,163 @@
+import { Router, type Response } from 'express';
+import { workflowLibraryService } from '../../services/workflow-library.service.js';
+import { AppError } from '../../middleware/error.middleware.js';
+import { toCanvasGraph } from '../../utils/workflow-graph.js';
+import { expectedRevision, revisionETag } from '../../utils/workflow-revision.js';
+import type { Workflow } from '../../generated/client/client.js';
+
+const router = Router();
+
+const serializeSummary = (workflow: Workflow) => ({
+  id: workflow.id,
+  name: workflow.name,
+  tags: workflowLibraryService.tagsOf(workflow),
+  version: workflow.version,
+  promptId: workflow.promptId,
+  executionStatus: workflow.executionStatus,
+  activationState: workflow.activationState,
+  isActive: workflow.isActive,
+  triggerType: workflow.triggerType,
+  createdAt: workflow.createdAt,
+  updatedAt: workflow.updatedAt,
+});
+
+const serializeWorkflow = (workflow: Workflow) => {
+  const { nodes, edges } = toCanvasGraph(workflow.workflowData);
+  return { ...serializeSummary(workflow), revision: workflow.version, nodes, edges };
+};
+
+/**
+ * List a wallet's workflows, most recently updated first
+ * GET /api/workflows?walletAddress=...&page=1&pageSize=20&search=...&tag=...
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { walletAddress, search, tag } = req.query;
+
+    if (typeof walletAddress !== 'string' || !walletAddress) {
+      return res.status(400).json({ error: 'Wallet address required' });
+    }
+
+    const { workflows, ...pagination } = await workflowLibraryService.list(walletAddress, {
+      page: Number(req.query.page) || 1,
+      pageSize: Number(req.query.pageSize) || 20,
+      search: typeof search === 'string' && search.trim() ? search.trim() : undefined,
+      tag: typeof tag === 'string' && tag.trim() ? tag.trim() : undefined,
+    });
+
+    return res.json({ success: true, workflows: workflows.map(serializeSummary), pagination });
+  } catch (error: any) {
+    return handleError(res, error, 'Failed to list workflows');
+  }
+});
+
+/**
+ * Create a workflow, blank unless nodes and edges are given
+ * POST /api/workflows
+ * Body: { walletAddress, name?, nodes?, edges?, metadata? }
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { walletAddress, name, nodes = [], edges = [], metadata } = req.body;
+
+    if (!walletAddress) {
+      return res.status(400).json({ error: 'Wallet address required' });
+    }
+
+    const workflow = await workflowLibraryService.create(walletAddress, { name, graph: { nodes, edges, metadata } });
+    return res.status(201).json({ success: true, workflow: serializeWorkflow(workflow) });
+  } catch (error: any) {
+    return handleError(res, error, 'Failed to create workflow');
+  }
+});
+
+/**
+ * Load a workflow by id
+ * GET /api/workflows/:id
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const workflow = await workflowLibraryService.get(req.params.id);
+    res.set('ETag', revisionETag(workflow.id, workflow.version));
+    return res.json({ success: true, workflow: serializeWorkflow(workflow) });
+  } catch (error: any) {
+    return handleError(res, error, 'Failed to load workflow');
+  }
+});
+
+/**
+ * Rename a workflow or replace its tags, as a new version
+ * PATCH /api/workflows/:id
+ * Body: { walletAddress, name?, tags?, revision? }. Needs the loaded ETag
+ * as If-Match (or its revision in the body): 409 when the workflow was
+ * saved since, 428 without either.
+ */
+router.patch('/:id', async (req, res) => {
+  try {
+    const { walletAddress, name, tags } = req.body;
+
+    if (!walletAddress) {
+      return res.status(400).json({ error: 'Wallet address required' });
+    }
+
+    const workflow = await workflowLibraryService.update(req.params.id, walletAddress, {
+      name,
+      tags,
+      revision: expectedRevision(req.params.id, req.get('If-Match'), req.body.revision),
+    });
+    res.set('ETag', revisionETag(workflow.id, workflow.version));
+    return res.json({ success: true, workflow: serializeSummary(workflow) });
+  } catch (error: any) {
+    return handleError(res, error, 'Failed to update workflow');
+  }
+});
+
+/**
+ * Copy a workflow into a new draft
+ * POST /api/workflows/:id/duplicate
+ * Body: { walletAddress, name? }
+ */
+router.post('/:id/duplicate', async (req, res) => {
+  try {
+    const { walletAddress, name } = req.body;
+
+    if (!walletAddress) {
+      return res.status(400).json({ error: 'Wallet address required' });
+    }
+
+    const workflow = await workflowLibraryService.duplicate(req.params.id, walletAddress, name);
+    return res.status(201).json({ success: true, workflow: serializeWorkflow(workflow) });
+  } catch (error: any) {
+    return handleError(res, error, 'Failed to duplicate workflow');
+  }
+});
+
+/**
+ * Delete a workflow; active or paused ones have to be deactivated first
+ * DELETE /api/workflows/:id
+ * Body: { walletAddress }
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const walletAddress = req.body?.walletAddress ?? req.query.walletAddress;
+
+    if (typeof walletAddress !== 'string' || !walletAddress) {
+      return res.status(400).json({ error: 'Wallet address required' });
+    }
+
+    await workflowLibraryService.delete(req.params.id, walletAddress);
+    return res.json({ success: true });
+  } catch (error: any) {
+    return handleError(res, error, 'Failed to delete workflow');
+  }
+});
+
+function handleError(res: Response, error: any, fallback: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ error: fallback });
+}
+
+export default router;
@@ -0,0 +1,100 @@
+import { Router, type Response } from 'express';
+import { workflowLifecycleService } from '../../services/workflow-lifecycle.service.js';
+import { workflowLibraryService } from '../../services/workflow-library.service.js';
+import { AppError } from '../../middleware/error.middleware.js';
+import type { Workflow } from '../../generated/client/client.js';
+
+const router = Router();
+
+const serializeWorkflow = (workflow: Workflow) => ({
+  id: workflow.id,
+  executionStatus: workflow.executionStatus,
+  activationState: workflow.activationState,
+  isActive: workflow.isActive,
+  triggerType: workflow.triggerType,
+  cronExpression: workflow.cronExpression,
+  timezone: workflow.timezone,
+  triggerConfig: workflow.triggerConfig,
+  activatedAt: workflow.activatedAt,
+  updatedAt: workflow.updatedAt,
+});
+
+/**
+ * Only the wallet that owns a workflow can arm or disarm it
+ */
+const assertOwner = async (workflowId: string, walletAddress: unknown) => {
+  if (typeof walletAddress !== 'string' || !walletAddress) {
+    throw new AppError(400, 'Wallet address required');
+  }
+  await workflowLibraryService.getOwned(workflowId, walletAddress);
+};
+
+/**
+ * Validate the graph and arm its trigger
+ * POST /api/workflows/:id/activate
+ * Body: { walletAddress }
+ */
+router.post('/:id/activate', async (req, res) => {
+  try {
+    await assertOwner(req.params.id, req.body?.walletAddress);
+    const workflow = await workflowLifecycleService.activate(req.params.id);
+    return res.json({ success: true, workflow: serializeWorkflow(workflow) });
+  } catch (error: any) {
+    return handleError(res, error, 'Failed to activate workflow');
+  }
+});
+
+/**
+ * Disarm an active or paused workflow; it can be activated again
+ * POST /api/workflows/:id/deactivate
+ * Body: { walletAddress }
+ */
+router.post('/:id/deactivate', async (req, res) => {
+  try {
+    await assertOwner(req.params.id, req.body?.walletAddress);
+    const workflow = await workflowLifecycleService.deactivate(req.params.id);
+    return res.json({ success: true, workflow: serializeWorkflow(workflow) });
+  } catch (error: any) {
+    return handleError(res, error, 'Failed to deactivate workflow');
+  }
+});
+
+/**
+ * Stop an active workflow firing; nothing missed meanwhile is caught up
+ * POST /api/workflows/:id/pause
+ * Body: { walletAddress }
+ */
+router.post('/:id/pause', async (req, res) => {
+  try {
+    await assertOwner(req.params.id, req.body?.walletAddress);
+    const workflow = await workflowLifecycleService.pause(req.params.id);
+    return res.json({ success: true, workflow: serializeWorkflow(workflow) });
+  } catch (error: any) {
+    return handleError(res, error, 'Failed to pause workflow');
+  }
+});
+
+/**
+ * Re-arm a paused workflow with its current graph
+ * POST /api/workflows/:id/resume
+ * Body: { walletAddress }
+ */
+router.post('/:id/resume', async (req, res) => {
+  try {
+    await assertOwner(req.params.id, req.body?.walletAddress);
+    const workflow = await workflowLifecycleService.resume(req.params.id);
+    return res.json({ success: true, workflow: serializeWorkflow(workflow) });
+  } catch (error: any) {
+    return handleError(res, error, 'Failed to resume workflow');
+  }
+});
+
+function handleError(res: Response, error: any, fallback: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ error: fallback });
+}
+
+export default router;
@@ -0,0 +1,125 @@
+import { Router, type Response } from 'express';
+import { resumeService } from '../../services/resume.service.js';
+import { workflowLibraryService } from '../../services/workflow-library.service.js';
+import { AppError } from '../../middleware/error.middleware.js';
+import type { ResumptionStatus, WorkflowResumption } from '../../generated/client/client.js';
+
+const router = Router();
+
+const RESUMPTION_STATUSES: ResumptionStatus[] = [
+  'PENDING',
+  'HELD',
+  'SUSPENDED',
+  'PROCESSING',
+  'COMPLETED',
+  'CANCELLED',
+  'FAILED',
+];
+
+const serializeResumption = (resumption: WorkflowResumption) => ({
+  id: resumption.id,
+  runId: resumption.runId,
+  workflowId: resumption.workflowId,
+  waitNodeId: resumption.waitNodeId,
+  resumeNodeId: resumption.resumeNodeId,
+  resumeAt: resumption.resumeAt,
+  status: resumption.status,
+  resumedRunId: resumption.resumedRunId,
+  attempts: resumption.attempts,
+  lastError: resumption.lastError,
+});
+
+/**
+ * Only the wallet that owns a resumption's workflow can hold, release or
+ * cancel it
+ */
+const assertOwner = async (resumptionId: string, walletAddress: unknown) => {
+  if (typeof walletAddress !== 'string' || !walletAddress) {
+    throw new AppError(400, 'Wallet address required');
+  }
+  const resumption = await resumeService.getResumption(resumptionId);
+  await workflowLibraryService.getOwned(resumption.workflowId, walletAddress);
+};
+
+/**
+ * List the wait-node resumptions of a wallet's workflows
+ * GET /api/workflow/resumptions?walletAddress=...&workflowId=...&status=PENDING
+ */
+router.get('/resumptions', async (req, res) => {
+  try {
+    const { walletAddress } = req.query;
+    const workflowId = typeof req.query.workflowId === 'string' ? req.query.workflowId : undefined;
+    const status = req.query.status as ResumptionStatus | undefined;
+
+    if (typeof walletAddress !== 'string' || !walletAddress) {
+      return res.status(400).json({ error: 'Wallet address required' });
+    }
+    if (status && !RESUMPTION_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of ${RESUMPTION_STATUSES.join(', ')}` });
+    }
+    if (workflowId) {
+      await workflowLibraryService.getOwned(workflowId, walletAddress);
+    }
+
+    const resumptions = await resumeService.listResumptions(walletAddress, { workflowId, status });
+
+    return res.json({ success: true, resumptions: resumptions.map(serializeResumption) });
+  } catch (error: any) {
+    return handleError(res, error, 'Failed to list resumptions');
+  }
+});
+
+/**
+ * Hold a pending resumption so the worker skips it
+ * POST /api/workflow/resumptions/:id/pause
+ * Body: { walletAddress }
+ */
+router.post('/resumptions/:id/pause', async (req, res) => {
+  try {
+    await assertOwner(req.params.id, req.body?.walletAddress);
+    const resumption = await resumeService.hold(req.params.id);
+    return res.json({ success: true, resumption: serializeResumption(resumption) });
+  } catch (error: any) {
+    return handleError(res, error, 'Failed to pause resumption');
+  }
+});
+
+/**
+ * Return a held or failed resumption to the queue
+ * POST /api/workflow/resumptions/:id/resume
+ * Body: { walletAddress }
+ */
+router.post('/resumptions/:id/resume', async (req, res) => {
+  try {
+    await assertOwner(req.params.id, req.body?.walletAddress);
+    const resumption = await resumeService.release(req.params.id);
+    return res.json({ success: true, resumption: serializeResumption(resumption) });
+  } catch (error: any) {
+    return handleError(res, error, 'Failed to resume resumption');
+  }
+});
+
+/**
+ * Cancel a resumption that has not run yet
+ * POST /api/workflow/resumptions/:id/cancel
+ * Body: { walletAddress }
+ */
+router.post('/resumptions/:id/cancel', async (req, res) => {
+  try {
+    await assertOwner(req.params.id, req.body?.walletAddress);
+    const resumption = await resumeService.cancel(req.params.id);
+    return res.json({ success: true, resumption: serializeResumption(resumption) });
+  } catch (error: any) {
+    return handleError(res, error, 'Failed to cancel resumption');
+  }
+});
+
+function handleError(res: Response, error: any, fallback: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ error: fallback });
+}
+
+export default router;
@@ -0,0 +1,84 @@
+import { Router } from 'express';
+import { runService } from '../../services/run.service.js';
+import { workflowErrorHint } from '../../utils/workflow-errors.js';
+import type { WorkflowRun, WorkflowRunStep } from '../../generated/client/client.js';
+
+const router = Router();
+
+const serializeRun = (run: WorkflowRun) => ({
+  id: run.id,
+  workflowId: run.workflowId,
+  status: run.status,
+  trigger: run.trigger,
+  version: run.version,
+  triggerContext: run.triggerContext,
+  conditionTrace: run.conditionTrace,
+  txHash: run.txHash,
+  totalSteps: run.totalSteps,
+  gasUsed: run.gasUsed?.toString() ?? null,
+  vmStatus: run.vmStatus,
+  errorMessage: run.errorMessage,
+  errorCode: run.errorCode,
+  errorNodeId: run.errorNodeId,
+  errorHint: run.errorCode ? workflowErrorHint(run.errorCode) : null,
+  startedAt: run.startedAt,
+  completedAt: run.completedAt,
+});
+
+const serializeStep = (step: WorkflowRunStep) => ({
+  sequence: step.sequence,
+  nodeId: step.nodeId.toString(),
+  canvasNodeId: step.canvasNodeId,
+  nodeType: step.nodeType,
+  success: step.success,
+  errorCode: step.errorCode.toString(),
+});
+
+/**
+ * List recent runs of a workflow
+ * GET /api/workflow/:id/runs?limit=20
+ */
+router.get('/:id/runs', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+
+    const runs = await runService.listRuns(id, limit);
+
+    return res.json({ success: true, runs: runs.map(serializeRun) });
+  } catch (error: any) {
+    console.error('Error listing workflow runs:', error);
+    return res.status(500).json({ error: 'Failed to list workflow runs' });
+  }
+});
+
+/**
+ * Get one run with its per-node timeline. Gas is reported per transaction
+ * by Aptos, so it is returned on the run rather than on each step.
+ * GET /api/workflow/runs/:runId
+ */
+router.get('/runs/:runId', async (req, res) => {
+  try {
+    const { runId } = req.params;
+
+    const run = await runService.getRun(runId);
+
+    if (!run) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    return res.json({
+      success: true,
+      run: {
+        ...serializeRun(run),
+        onChainWorkflowId: run.onChainWorkflow?.onChainId.toString() ?? null,
+        steps: run.steps.map(serializeStep),
+      },
+    });
+  } catch (error: any) {
+    console.error('Error fetching workflow run:', error);
+    return res.status(500).json({ error: 'Failed to fetch workflow run' });
+  }
+});
+
+export default router;
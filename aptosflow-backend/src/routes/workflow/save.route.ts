@@ -1,97 +1,76 @@
 import { Router } from 'express';
-import prisma from '../../utils/prisma.js';
+import { workflowLibraryService } from '../../services/workflow-library.service.js';
+import { AppError } from '../../middleware/error.middleware.js';
+import { toCanvasGraph } from '../../utils/workflow-graph.js';
+import { expectedRevision, revisionETag } from '../../utils/workflow-revision.js';
 
 const router = Router();
 
 /**
  * Save workflow state
  * POST /api/workflows/save
+ * Body: { walletAddress, nodes, edges, workflowId?, name?, message?, revision? }.
+ * Every save is a new version; without a workflowId a new workflow is
+ * created, so pass the returned id to keep saving to it. Saving to a
+ * workflow needs the ETag it was loaded with as If-Match (or its revision
+ * in the body): a stale save gets 409 with the server's copy in
+ * details.current, and one without either gets 428.
  */
 router.post('/save', async (req, res) => {
   try {
-    const { walletAddress, nodes, edges } = req.body;
+    const { walletAddress, workflowId, name, message, nodes, edges, metadata } = req.body;
 
     if (!walletAddress) {
       return res.status(400).json({ error: 'Wallet address required' });
     }
 
-    // Find or create user
-    let user = await prisma.user.findUnique({
-      where: { walletAddress },
+    const workflow = await workflowLibraryService.save(walletAddress, {
+      workflowId,
+      name,
+      message,
+      revision: workflowId ? expectedRevision(workflowId, req.get('If-Match'), req.body.revision) : undefined,
+      graph: { nodes, edges, metadata },
     });
 
-    if (!user) {
-      user = await prisma.user.create({
-        data: { walletAddress },
-      });
-    }
-
-    // Find existing workflow or create new one
-    let workflow = await prisma.workflow.findFirst({
-      where: {
-        promptId: `canvas_${walletAddress}`,
-        isActive: true,
-      },
-    });
-
-    const workflowData = { nodes, edges, lastSaved: new Date().toISOString() };
-
-    if (workflow) {
-      // Update existing
-      workflow = await prisma.workflow.update({
-        where: { id: workflow.id },
-        data: {
-          workflowData,
-          updatedAt: new Date(),
-        },
-      });
-    } else {
-      // Create new
-      workflow = await prisma.workflow.create({
-        data: {
-          promptId: `canvas_${walletAddress}`,
-          workflowData,
-          executionStatus: 'PENDING',
-          isActive: true,
-          triggerType: 'manual',
-          triggerConfig: {},
-        },
+    res.set('ETag', revisionETag(workflow.id, workflow.version));
+    return res.json({ success: true, workflowId: workflow.id, name: workflow.name, revision: workflow.version });
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        error: error.message,
+        details: error.details,
       });
     }
-
-    return res.json({ success: true, workflowId: workflow.id });
-  } catch (error: any) {
     console.error('Error saving workflow:', error);
     return res.status(500).json({ error: 'Failed to save workflow' });
   }
 });
 
 /**
- * Load workflow state
+ * Load the wallet's most recently updated workflow
  * GET /api/workflows/load/:walletAddress
  */
 router.get('/load/:walletAddress', async (req, res) => {
   try {
     const { walletAddress } = req.params;
 
-    const workflow = await prisma.workflow.findFirst({
-      where: {
-        promptId: `canvas_${walletAddress}`,
-        isActive: true,
-      },
-      orderBy: { updatedAt: 'desc' },
-    });
+    const workflow = await workflowLibraryService.latest(walletAddress);
 
     if (!workflow) {
       return res.json({ success: true, workflow: null });
     }
 
+    const { nodes, edges } = toCanvasGraph(workflow.workflowData);
+
+    res.set('ETag', revisionETag(workflow.id, workflow.version));
     return res.json({
       success: true,
       workflow: {
         id: workflow.id,
-        nodes: (workflow.workflowData as any)?.nodes || [],
-        edges: (workflow.workflowData as any)?.edges || [],
+        name: workflow.name,
+        revision: workflow.version,
+        nodes,
+        edges,
       },
     });
   } catch (error: any) {
@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import { cronService } from '../../services/cron.service.js';
+import { AppError } from '../../middleware/error.middleware.js';
+import prisma from '../../utils/prisma.js';
+
+const router = Router();
+
+/**
+ * Get a workflow's schedule and its next fire times
+ * GET /api/workflow/:id/schedule?count=10
+ */
+router.get('/:id/schedule', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const count = Math.min(Math.max(Number(req.query.count) || 10, 1), 50);
+
+    const workflow = await prisma.workflow.findUnique({
+      where: { id },
+    });
+
+    if (!workflow) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
+    if (!workflow.cronExpression) {
+      return res.status(404).json({ error: 'Workflow has no schedule' });
+    }
+
+    const nextFireTimes = cronService.nextFireTimes(workflow.cronExpression, workflow.timezone, count);
+
+    return res.json({
+      success: true,
+      schedule: {
+        cronExpression: workflow.cronExpression,
+        timezone: workflow.timezone,
+        active: workflow.isActive && workflow.triggerType === 'schedule',
+        nextFireTimes,
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error fetching workflow schedule:', error);
+    return res.status(500).json({ error: 'Failed to fetch workflow schedule' });
+  }
+});
+
+export default router;
@@ -0,0 +1,107 @@
+import { Router } from 'express';
+import { aptosService } from '../../services/aptos.service.js';
+import { workflowCompilerService } from '../../services/workflow-compiler.service.js';
+import { workflowService } from '../../services/workflow.service.js';
+import { AppError } from '../../middleware/error.middleware.js';
+import { parseStepFailure, parseVmStatus } from '../../utils/workflow-errors.js';
+import { DEFAULT_TIMEZONE } from '../../utils/timezone.js';
+import type { CompiledWorkflow, SimulationResult } from '../../types/contract.types.js';
+import type { ConditionEvaluation } from '../../types/condition.types.js';
+import type { CanvasNode } from '../../types/workflow.types.js';
+
+const router = Router();
+
+/**
+ * Dry-run a workflow without submitting a transaction
+ * POST /api/workflow/simulate
+ *
+ * Body: { workflowId } for a stored workflow, or { workflow: { nodes, edges } }
+ * for an unsaved canvas graph. `conditions` is the evaluation of the
+ * off-chain conditions as of now; when it did not pass, executing would
+ * skip the transaction.
+ */
+router.post('/simulate', async (req, res) => {
+  try {
+    const { workflowId, workflow } = req.body;
+
+    let result: {
+      simulation: SimulationResult;
+      nodeIdMap: Record<string, number>;
+      compiled: CompiledWorkflow;
+      conditions: ConditionEvaluation | null;
+    };
+
+    if (workflowId) {
+      result = await workflowService.simulateWorkflow(workflowId);
+    } else if (workflow?.nodes && workflow?.edges) {
+      const compiled = workflowCompilerService.compile(workflow);
+      // Unsaved graphs are read in their schedule trigger's zone, if any
+      const trigger = workflow.nodes.find((node: CanvasNode) => node.type === 'schedule_trigger');
+      result = {
+        simulation: await aptosService.simulateRegisterAndExecuteWorkflow(compiled),
+        nodeIdMap: compiled.nodeIdMap,
+        compiled,
+        conditions: await workflowService.evaluateConditions(workflow, trigger?.data?.timezone ?? DEFAULT_TIMEZONE),
+      };
+    } else {
+      return res.status(400).json({
+        error: 'Either workflowId or workflow { nodes, edges } is required',
+      });
+    }
+
+    const { simulation, nodeIdMap, compiled, conditions } = result;
+    const canvasIds = new Map(
+      Object.entries(nodeIdMap).map(([canvasId, onChainId]) => [String(onChainId), canvasId])
+    );
+
+    // Same decoding a real run would record
+    const failedStep = simulation.events.steps.find((step) => !step.success);
+    const failure = !simulation.success
+      ? parseVmStatus(simulation.vmStatus, compiled)
+      : failedStep
+        ? parseStepFailure(failedStep, canvasIds.get(failedStep.nodeId.toString()))
+        : null;
+
+    return res.json({
+      success: simulation.success,
+      vmStatus: simulation.vmStatus,
+      gasUsed: simulation.gasUsed.toString(),
+      gasUnitPrice: simulation.gasUnitPrice.toString(),
+      estimatedFee: (simulation.gasUsed * simulation.gasUnitPrice).toString(),
+      balanceChanges: simulation.balanceChanges.map((change) => ({
+        address: change.address,
+        asset: change.asset,
+        before: change.before.toString(),
+        after: change.after.toString(),
+        delta: change.delta.toString(),
+      })),
+      steps: simulation.events.steps.map((step) => ({
+        nodeId: step.nodeId.toString(),
+        canvasNodeId: canvasIds.get(step.nodeId.toString()) ?? null,
+        nodeType: step.nodeType,
+        success: step.success,
+        errorCode: step.errorCode.toString(),
+      })),
+      conditions,
+      error: failure
+        ? {
+            code: failure.code,
+            message: failure.message,
+            nodeId: failure.nodeId ?? null,
+            hint: failure.hint,
+          }
+        : null,
+    });
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        error: error.message,
+        details: error.details,
+      });
+    }
+    console.error('Workflow simulation error:', error);
+    return res.status(500).json({ error: error.message || 'Failed to simulate workflow' });
+  }
+});
+
+export default router;
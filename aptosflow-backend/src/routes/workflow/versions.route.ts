@@ -0,0 +1,107 @@
+import { Router, type Response } from 'express';
+import { workflowLibraryService } from '../../services/workflow-library.service.js';
+import { workflowVersionService } from '../../services/workflow-version.service.js';
+import { AppError } from '../../middleware/error.middleware.js';
+import { toCanvasGraph } from '../../utils/workflow-graph.js';
+import { expectedRevision, revisionETag } from '../../utils/workflow-revision.js';
+import type { WorkflowVersion } from '../../generated/client/client.js';
+
+const router = Router();
+
+const serializeVersion = (version: Pick<WorkflowVersion, 'version' | 'authorWallet' | 'message' | 'createdAt'>) => ({
+  version: version.version,
+  authorWallet: version.authorWallet,
+  message: version.message,
+  createdAt: version.createdAt,
+});
+
+/**
+ * List a workflow's versions, newest first
+ * GET /api/workflows/:id/versions
+ */
+router.get('/:id/versions', async (req, res) => {
+  try {
+    const workflow = await workflowLibraryService.get(req.params.id);
+    const versions = await workflowVersionService.list(workflow.id);
+    return res.json({ success: true, currentVersion: workflow.version, versions: versions.map(serializeVersion) });
+  } catch (error: any) {
+    return handleError(res, error, 'Failed to list workflow versions');
+  }
+});
+
+/**
+ * Load the graph of one version
+ * GET /api/workflows/:id/versions/:version
+ */
+router.get('/:id/versions/:version', async (req, res) => {
+  try {
+    const version = await workflowVersionService.get(req.params.id, parseVersion(req.params.version, 'version'));
+    const { nodes, edges } = toCanvasGraph(version.workflowData);
+    return res.json({ success: true, version: { ...serializeVersion(version), nodes, edges } });
+  } catch (error: any) {
+    return handleError(res, error, 'Failed to load workflow version');
+  }
+});
+
+/**
+ * Nodes and edges added, removed and changed between two versions
+ * GET /api/workflows/:id/diff?from=1&to=3 (to defaults to the current version)
+ */
+router.get('/:id/diff', async (req, res) => {
+  try {
+    const workflow = await workflowLibraryService.get(req.params.id);
+    const from = parseVersion(req.query.from, 'from');
+    const to = req.query.to === undefined ? workflow.version : parseVersion(req.query.to, 'to');
+
+    const diff = await workflowVersionService.diff(workflow.id, from, to);
+    return res.json({ success: true, diff });
+  } catch (error: any) {
+    return handleError(res, error, 'Failed to diff workflow versions');
+  }
+});
+
+/**
+ * Restore an earlier version's graph as a new version
+ * POST /api/workflows/:id/rollback
+ * Body: { walletAddress, version, message?, revision? }. Needs the loaded
+ * ETag as If-Match (or its revision in the body): 409 when the workflow
+ * was saved since, 428 without either.
+ */
+router.post('/:id/rollback', async (req, res) => {
+  try {
+    const { walletAddress, message } = req.body;
+
+    if (!walletAddress) {
+      return res.status(400).json({ error: 'Wallet address required' });
+    }
+
+    const workflow = await workflowLibraryService.rollback(
+      req.params.id,
+      walletAddress,
+      parseVersion(req.body.version, 'version'),
+      { message, revision: expectedRevision(req.params.id, req.get('If-Match'), req.body.revision) }
+    );
+    res.set('ETag', revisionETag(workflow.id, workflow.version));
+    return res.json({ success: true, workflowId: workflow.id, revision: workflow.version });
+  } catch (error: any) {
+    return handleError(res, error, 'Failed to roll back workflow');
+  }
+});
+
+function parseVersion(value: unknown, name: string): number {
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new AppError(400, `${name} must be a version number`);
+  }
+  return version;
+}
+
+function handleError(res: Response, error: any, fallback: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ error: fallback });
+}
+
+export default router;
@@ -0,0 +1,82 @@
+import { Router } from 'express';
+import { webhookService } from '../../services/webhook.service.js';
+import { workflowLibraryService } from '../../services/workflow-library.service.js';
+import { AppError } from '../../middleware/error.middleware.js';
+import type { WebhookEndpoint } from '../../generated/client/client.js';
+
+const router = Router();
+
+const serializeEndpoint = (endpoint: WebhookEndpoint) => ({
+  workflowId: endpoint.workflowId,
+  url: `/api/hooks/${endpoint.workflowId}/${endpoint.token}`,
+  createdAt: endpoint.createdAt,
+  rotatedAt: endpoint.rotatedAt,
+  previousSecretExpiresAt: endpoint.previousExpiresAt,
+  lastDeliveryAt: endpoint.lastDeliveryAt,
+});
+
+const sendError = (res: any, error: any, fallback: string) => {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ error: fallback });
+};
+
+/**
+ * The URL carries the delivery token, so every route here is limited to the
+ * wallet that owns the workflow
+ */
+const assertOwner = async (workflowId: string, walletAddress: unknown) => {
+  if (typeof walletAddress !== 'string' || !walletAddress) {
+    throw new AppError(400, 'Wallet address required');
+  }
+  await workflowLibraryService.getOwned(workflowId, walletAddress);
+};
+
+/**
+ * Webhook URL of a workflow (the secret is not returned)
+ * GET /api/workflow/:id/webhook?walletAddress=...
+ */
+router.get('/:id/webhook', async (req, res) => {
+  try {
+    await assertOwner(req.params.id, req.query.walletAddress);
+    const endpoint = await webhookService.getEndpoint(req.params.id);
+    return res.json({ success: true, webhook: serializeEndpoint(endpoint) });
+  } catch (error: any) {
+    return sendError(res, error, 'Failed to load webhook');
+  }
+});
+
+/**
+ * Create the webhook of a workflow with a webhook_trigger. The response is
+ * the only time the secret is shown, apart from rotation.
+ * POST /api/workflow/:id/webhook
+ * Body: { walletAddress }
+ */
+router.post('/:id/webhook', async (req, res) => {
+  try {
+    await assertOwner(req.params.id, req.body?.walletAddress);
+    const endpoint = await webhookService.createEndpoint(req.params.id);
+    return res.status(201).json({ success: true, webhook: { ...serializeEndpoint(endpoint), secret: endpoint.secret } });
+  } catch (error: any) {
+    return sendError(res, error, 'Failed to create webhook');
+  }
+});
+
+/**
+ * Issue a new secret; the old one is accepted for WEBHOOK_SECRET_GRACE_SECONDS.
+ * Body: { walletAddress, rotateToken?: boolean } to also change the URL.
+ * POST /api/workflow/:id/webhook/rotate
+ */
+router.post('/:id/webhook/rotate', async (req, res) => {
+  try {
+    await assertOwner(req.params.id, req.body?.walletAddress);
+    const endpoint = await webhookService.rotateSecret(req.params.id, { rotateToken: req.body?.rotateToken === true });
+    return res.json({ success: true, webhook: { ...serializeEndpoint(endpoint), secret: endpoint.secret } });
+  } catch (error: any) {
+    return sendError(res, error, 'Failed to rotate webhook secret');
+  }
+});
+
+export default router;
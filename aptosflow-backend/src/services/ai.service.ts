@@ -2,6 +2,8 @@ import { openai } from '@ai-sdk/openai';
 import { generateObject, streamText, streamObject } from 'ai';
 import { config } from '@/config/index.js';
 import { workflowSchema, type WorkflowGraph } from '@/types/workflow.types.js';
+import { isLegacyWorkflow, fromLegacyWorkflow } from '@/utils/workflow-graph.js';
+import { workflowValidatorService, type WorkflowValidationError } from '@/services/workflow-validator.service.js';
 
 export class AIService {
   private model: string;
@@ -52,15 +54,17 @@ Available workflow capabilities:
   async streamWorkflowGeneration(prompt: string, existingWorkflow?: any) {
     const systemPrompt = this.buildSystemPrompt();
     
-    // Build user prompt with optional existing workflow context
+    // Build user prompt with optional existing workflow context, converting
+    // legacy single-action workflows so the model edits a graph
     let userPrompt = prompt;
     if (existingWorkflow) {
+      const graph = isLegacyWorkflow(existingWorkflow) ? fromLegacyWorkflow(existingWorkflow) : existingWorkflow;
       userPrompt = `EXISTING WORKFLOW (to be edited):
-${JSON.stringify(existingWorkflow, null, 2)}
+${JSON.stringify(graph, null, 2)}
 
 USER REQUEST: ${prompt}
 
-INSTRUCTIONS: Modify the existing workflow according to the user's request. Only change the specific parts mentioned. Preserve all other fields and nodes.`;
+INSTRUCTIONS: Modify the existing workflow according to the user's request. Only change the specific parts mentioned. Preserve all other fields, nodes, node ids and edges.`;
     }
 
     const result = await streamObject({
@@ -91,6 +95,9 @@ INSTRUCTIONS: Modify the existing workflow according to the user's request. Only
         prompt: `${systemPrompt}\n\n${fewShotExamples}\n\nUser prompt: "${prompt}"\n\nGenerate a valid workflow JSON:`,
       });
 
+      workflowValidatorService.assertValid(result.object);
+      workflowValidatorService.normalize(result.object);
+
       return {
         success: true,
         workflow: result.object,
@@ -112,11 +119,12 @@ INSTRUCTIONS: Modify the existing workflow according to the user's request. Only
 
 CRITICAL DEFAULT RULE: Unless the user explicitly mentions a time, schedule, or recurring pattern, ALWAYS use "manual_trigger" as the trigger type.
 
-Your task is to analyze the user's prompt and generate a valid workflow with:
-1. A trigger (when the workflow should run) - DEFAULT to manual_trigger
-2. An optional condition (what must be true)
-3. An action (what should happen)
-4. Optional flow control (wait, loop, branch, end)
+Your task is to analyze the user's prompt and generate a valid workflow graph:
+- "nodes": every step, each with a unique "id", a "type" from the lists below and its parameters in "data"
+- "edges": connections { "source", "target" } between node ids, in the order the steps run
+- Exactly one trigger node (when the workflow should run) - DEFAULT to manual_trigger
+- Any number of conditions (what must be true), actions (what should happen) and flow control nodes (wait, loop, branch, end)
+- A branch_node has exactly two outgoing edges, labelled "true" and "false"
 
 Available trigger types:
 - manual_trigger: User manually runs the workflow (use when prompt says "manual", "manually", "when I run", "when I trigger", or doesn't specify a schedule)
@@ -127,10 +135,10 @@ Available trigger types:
 
 Available condition types:
 - balance_check: Check wallet balance (use this for "check balance" requests)
-- oracle_check: Check token price from oracle (chainlink, pyth, switchboard)
+- oracle_check: Check token price from oracle (pyth, switchboard; chainlink has no feeds on Aptos)
 - multi_condition: Combine multiple conditions with AND/OR logic
-- time_condition: Time-based conditions (e.g., "after 2 hours")
-- custom_condition: Custom expressions
+- time_condition: Time-of-day or date windows (e.g., "only between 09:00 and 17:00")
+- custom_condition: Expression over balance.<TOKEN> (whole tokens), price.<TOKEN> (USD), now and trigger.<field>, e.g. "balance.APT > 10 && price.APT >= 8.5" or "trigger.event.amount >= 100" (webhook triggers: trigger.payload.<field>)
 
 Available action types:
 BASIC:
@@ -168,7 +176,7 @@ Flow Control:
 - loop_node: Repeat a subflow N times or until condition
   Fields: iterations, condition
 - branch_node: Route based on condition result (if/else)
-  Fields: condition, truePath, falsePath
+  Fields: condition; its outgoing edges are labelled "true" and "false"
 - end_node: Mark end of workflow (use this when user says "end the workflow")
 
 CRITICAL VALUE EXTRACTION RULES:
@@ -204,8 +212,11 @@ IMPORTANT RULES:
 - DEFAULT to manual_trigger unless user explicitly specifies a time/schedule
 - For "check balance" requests, use action type "balance_check", NOT "transfer_action"
 - Use cron expressions for schedules: "0 * * * *" = every hour, "0 */2 * * *" = every 2 hours
-- For time conditions like "after 2 hours", use time_condition with duration
-- When user says "end the workflow", add flowControl with type "end_node"
+- For time windows like "only before 18:00", use time_condition with operator (before, after, between), time and endTime as HH:MM or ISO date-times in the workflow's timezone
+- For delays like "after 2 hours", add a node with type "wait_node" and duration in seconds between the steps
+- When user says "end the workflow", add a node with type "end_node" after the last step
+- Use one node per step: "check balance, swap half, then stake the rest" is a balance_check, a swap_action and a stake_action chained by edges
+- For "if ... otherwise ..." use a branch_node whose "true" and "false" edges lead to the two paths
 - Amounts should be in octas (1 APT = 100,000,000 octas)
 - ALWAYS extract and include specific values from the prompt (addresses, IDs, amounts, etc.)
 - Be precise and extract ALL relevant details from the prompt
@@ -215,53 +226,52 @@ EXAMPLES:
 
 Prompt: "manual trigger check balance then send 1 APT to 0x440574625c46ef4d3429df220686eab520ef1d54d60893470d1701537c629337"
 Output: {
-  "trigger": {"type": "manual_trigger"},
-  "action": {
-    "type": "transfer_action",
-    "recipient": "0x440574625c46ef4d3429df220686eab520ef1d54d60893470d1701537c629337",
-    "amount": "100000000",
-    "tokenType": "APT"
-  }
+  "nodes": [
+    {"id": "trigger", "type": "manual_trigger", "data": {}},
+    {"id": "check_balance", "type": "balance_check", "data": {"operator": ">=", "amount": 100000000, "token": "APT"}},
+    {"id": "transfer", "type": "transfer_action", "data": {
+      "recipient": "0x440574625c46ef4d3429df220686eab520ef1d54d60893470d1701537c629337",
+      "amount": 100000000,
+      "token": "APT"
+    }}
+  ],
+  "edges": [
+    {"source": "trigger", "target": "check_balance"},
+    {"source": "check_balance", "target": "transfer"}
+  ]
 }
 
 Prompt: "vote on proposal 123 at contract 0xabc...def"
 Output: {
-  "trigger": {"type": "manual_trigger"},
-  "action": {
-    "type": "dao_vote_action",
-    "proposalId": "123",
-    "contractAddress": "0xabc...def",
-    "vote": "yes"
-  }
+  "nodes": [
+    {"id": "trigger", "type": "manual_trigger", "data": {}},
+    {"id": "vote", "type": "dao_vote_action", "data": {"proposalId": "123", "daoContract": "0xabc...def", "vote": "yes"}}
+  ],
+  "edges": [{"source": "trigger", "target": "vote"}]
 }
 
 Prompt: "send 5 APT to 0x123...456 every Friday"
 Output: {
-  "trigger": {"type": "schedule_trigger", "schedule": "0 0 * * FRI"},
-  "action": {
-    "type": "transfer_action",
-    "recipient": "0x123...456",
-    "amount": "500000000",
-    "tokenType": "APT"
-  }
+  "nodes": [
+    {"id": "trigger", "type": "schedule_trigger", "data": {"cron": "0 0 * * FRI", "timezone": "UTC"}},
+    {"id": "transfer", "type": "transfer_action", "data": {"recipient": "0x123...456", "amount": 500000000, "token": "APT"}}
+  ],
+  "edges": [{"source": "trigger", "target": "transfer"}]
 }
 
 Prompt: "swap 10 APT for USDC on Pancakeswap with 1% slippage"
 Output: {
-  "trigger": {"type": "manual_trigger"},
-  "action": {
-    "type": "swap_action",
-    "fromToken": "APT",
-    "toToken": "USDC",
-    "amount": "1000000000",
-    "dex": "pancakeswap",
-    "slippage": 0.01
-  }
+  "nodes": [
+    {"id": "trigger", "type": "manual_trigger", "data": {}},
+    {"id": "swap", "type": "swap_action", "data": {"fromToken": "APT", "toToken": "USDC", "amount": 1000000000, "dex": "pancakeswap", "slippage": 0.01}}
+  ],
+  "edges": [{"source": "trigger", "target": "swap"}]
 }
 
 CRITICAL:
 - You MUST return a valid JSON object.
-- The root object must have keys: "trigger", "action", and optionally "condition", "flowControl", "metadata".
+- The root object must have keys: "nodes", "edges", and optionally "metadata".
+- Every edge must connect ids of nodes in "nodes".
 - Do not wrap the JSON in markdown code blocks (e.g., \`\`\`json). Just return the raw JSON object.
 - Ensure all "type" fields exactly match the list above (e.g., "manual_trigger", not "Manual Trigger").
 - ALWAYS include user-provided values in the appropriate fields.`;
@@ -277,179 +287,376 @@ Example 1 - Basic Transfer:
 Prompt: "Send 2 APT to Bob every Friday at 6pm"
 Output:
 {
-  "trigger": {
-    "type": "schedule_trigger",
-    "cron": "0 18 * * FRI",
-    "timezone": "UTC"
-  },
-  "action": {
-    "type": "transfer_action",
-    "recipient": "0xBOB",
-    "amount": 200000000,
-    "token": "APT"
-  }
+  "nodes": [
+    {
+      "id": "trigger",
+      "type": "schedule_trigger",
+      "data": {
+        "cron": "0 18 * * FRI",
+        "timezone": "UTC"
+      }
+    },
+    {
+      "id": "transfer",
+      "type": "transfer_action",
+      "data": {
+        "recipient": "0xBOB",
+        "amount": 200000000,
+        "token": "APT"
+      }
+    }
+  ],
+  "edges": [
+    { "source": "trigger", "target": "transfer" }
+  ]
 }
 
 Example 2 - DeFi Staking:
 Prompt: "Stake 10 APT when price is above $8"
 Output:
 {
-  "trigger": {
-    "type": "price_trigger",
-    "token": "APT",
-    "operator": ">",
-    "threshold": 8,
-    "oracleProvider": "pyth"
-  },
-  "action": {
-    "type": "stake_action",
-    "poolAddress": "0xSTAKING_POOL",
-    "amount": 1000000000,
-    "token": "APT"
-  }
+  "nodes": [
+    {
+      "id": "trigger",
+      "type": "price_trigger",
+      "data": {
+        "token": "APT",
+        "operator": ">",
+        "threshold": 8,
+        "oracleProvider": "pyth"
+      }
+    },
+    {
+      "id": "stake",
+      "type": "stake_action",
+      "data": {
+        "poolAddress": "0xSTAKING_POOL",
+        "amount": 1000000000,
+        "token": "APT"
+      }
+    }
+  ],
+  "edges": [
+    { "source": "trigger", "target": "stake" }
+  ]
 }
 
 Example 3 - Token Swap with Condition:
 Prompt: "If my balance is greater than 10 APT, swap 5 APT to USDC"
 Output:
 {
-  "trigger": {
-    "type": "manual_trigger"
-  },
-  "condition": {
-    "type": "balance_check",
-    "operator": ">",
-    "amount": 1000000000,
-    "token": "APT"
-  },
-  "action": {
-    "type": "swap_action",
-    "fromToken": "APT",
-    "toToken": "USDC",
-    "amount": 500000000,
-    "slippage": 1,
-    "dex": "liquidswap"
-  }
+  "nodes": [
+    {
+      "id": "trigger",
+      "type": "manual_trigger",
+      "data": {}
+    },
+    {
+      "id": "balance_check",
+      "type": "balance_check",
+      "data": {
+        "operator": ">",
+        "amount": 1000000000,
+        "token": "APT"
+      }
+    },
+    {
+      "id": "swap",
+      "type": "swap_action",
+      "data": {
+        "fromToken": "APT",
+        "toToken": "USDC",
+        "amount": 500000000,
+        "slippage": 1,
+        "dex": "liquidswap"
+      }
+    }
+  ],
+  "edges": [
+    { "source": "trigger", "target": "balance_check" },
+    { "source": "balance_check", "target": "swap" }
+  ]
 }
 
 Example 4 - Yield Farming:
 Prompt: "Provide liquidity with 5 APT and 100 USDC to Liquidswap"
 Output:
 {
-  "trigger": {
-    "type": "manual_trigger"
-  },
-  "action": {
-    "type": "liquidity_provide",
-    "tokenA": "APT",
-    "tokenB": "USDC",
-    "amountA": 500000000,
-    "amountB": 100000000,
-    "dex": "liquidswap"
-  }
+  "nodes": [
+    {
+      "id": "trigger",
+      "type": "manual_trigger",
+      "data": {}
+    },
+    {
+      "id": "liquidity_provide",
+      "type": "liquidity_provide",
+      "data": {
+        "tokenA": "APT",
+        "tokenB": "USDC",
+        "amountA": 500000000,
+        "amountB": 100000000,
+        "dex": "liquidswap"
+      }
+    }
+  ],
+  "edges": [
+    { "source": "trigger", "target": "liquidity_provide" }
+  ]
 }
 
 Example 5 - Auto-Compound Strategy:
 Prompt: "Auto-compound my farm rewards every day"
 Output:
 {
-  "trigger": {
-    "type": "schedule_trigger",
-    "cron": "0 0 * * *",
-    "timezone": "UTC"
-  },
-  "action": {
-    "type": "defi_compound",
-    "farmAddress": "0xFARM_CONTRACT",
-    "interval": 86400,
-    "minReward": 1000000
-  }
+  "nodes": [
+    {
+      "id": "trigger",
+      "type": "schedule_trigger",
+      "data": {
+        "cron": "0 0 * * *",
+        "timezone": "UTC"
+      }
+    },
+    {
+      "id": "defi_compound",
+      "type": "defi_compound",
+      "data": {
+        "farmAddress": "0xFARM_CONTRACT",
+        "interval": 86400,
+        "minReward": 1000000
+      }
+    }
+  ],
+  "edges": [
+    { "source": "trigger", "target": "defi_compound" }
+  ]
 }
 
 Example 6 - Lending Protocol:
 Prompt: "Lend 50 APT on Aptin Finance"
 Output:
 {
-  "trigger": {
-    "type": "manual_trigger"
-  },
-  "action": {
-    "type": "borrow_lend_action",
-    "asset": "APT",
-    "mode": "lend",
-    "amount": 5000000000,
-    "protocol": "aptin"
-  }
+  "nodes": [
+    {
+      "id": "trigger",
+      "type": "manual_trigger",
+      "data": {}
+    },
+    {
+      "id": "borrow_lend",
+      "type": "borrow_lend_action",
+      "data": {
+        "asset": "APT",
+        "mode": "lend",
+        "amount": 5000000000,
+        "protocol": "aptin"
+      }
+    }
+  ],
+  "edges": [
+    { "source": "trigger", "target": "borrow_lend" }
+  ]
 }
 
 Example 7 - DAO Voting:
 Prompt: "Vote yes on proposal #42"
 Output:
 {
-  "trigger": {
-    "type": "manual_trigger"
-  },
-  "action": {
-    "type": "dao_vote_action",
-    "proposalId": "42",
-    "vote": "yes",
-    "daoContract": "0xDAO_CONTRACT"
-  }
+  "nodes": [
+    {
+      "id": "trigger",
+      "type": "manual_trigger",
+      "data": {}
+    },
+    {
+      "id": "dao_vote",
+      "type": "dao_vote_action",
+      "data": {
+        "proposalId": "42",
+        "vote": "yes",
+        "daoContract": "0xDAO_CONTRACT"
+      }
+    }
+  ],
+  "edges": [
+    { "source": "trigger", "target": "dao_vote" }
+  ]
 }
 
 Example 8 - NFT Minting:
 Prompt: "Mint an NFT when I receive a token transfer"
 Output:
 {
-  "trigger": {
-    "type": "event_trigger",
-    "eventType": "token_transfer"
-  },
-  "action": {
-    "type": "mint_nft_action",
-    "collection": "0xNFT_COLLECTION",
-    "metadata": {
-      "name": "Welcome NFT",
-      "description": "Thank you for the transfer!",
-      "uri": "ipfs://QmExample"
+  "nodes": [
+    {
+      "id": "trigger",
+      "type": "event_trigger",
+      "data": {
+        "eventType": "token_transfer"
+      }
+    },
+    {
+      "id": "mint_nft",
+      "type": "mint_nft_action",
+      "data": {
+        "collection": "0xNFT_COLLECTION",
+        "metadata": {
+          "name": "Welcome NFT",
+          "description": "Thank you for the transfer!",
+          "uri": "ipfs://QmExample"
+        }
+      }
     }
-  }
+  ],
+  "edges": [
+    { "source": "trigger", "target": "mint_nft" }
+  ]
 }
 
 Example 9 - Multi-Condition Check:
 Prompt: "If APT price is above $10 AND my balance is over 5 APT, swap 2 APT to USDC"
 Output:
 {
-  "trigger": {
-    "type": "manual_trigger"
-  },
-  "condition": {
-    "type": "multi_condition",
-    "logic": "AND",
-    "conditions": [
-      {
-        "type": "oracle_check",
-        "token": "APT",
-        "operator": ">",
-        "value": 10,
-        "oracleProvider": "pyth"
-      },
-      {
-        "type": "balance_check",
-        "operator": ">",
-        "amount": 500000000,
+  "nodes": [
+    {
+      "id": "trigger",
+      "type": "manual_trigger",
+      "data": {}
+    },
+    {
+      "id": "multi_condition",
+      "type": "multi_condition",
+      "data": {
+        "logic": "AND",
+        "conditions": [
+          {
+            "type": "oracle_check",
+            "token": "APT",
+            "operator": ">",
+            "value": 10,
+            "oracleProvider": "pyth"
+          },
+          {
+            "type": "balance_check",
+            "operator": ">",
+            "amount": 500000000,
+            "token": "APT"
+          }
+        ]
+      }
+    },
+    {
+      "id": "swap",
+      "type": "swap_action",
+      "data": {
+        "fromToken": "APT",
+        "toToken": "USDC",
+        "amount": 200000000,
+        "slippage": 1,
+        "dex": "liquidswap"
+      }
+    }
+  ],
+  "edges": [
+    { "source": "trigger", "target": "multi_condition" },
+    { "source": "multi_condition", "target": "swap" }
+  ]
+}
+
+Example 10 - Multi-Step Strategy:
+Prompt: "Check my balance is at least 20 APT, swap half of 20 APT to USDC, then stake the other 10 APT"
+Output:
+{
+  "nodes": [
+    {
+      "id": "trigger",
+      "type": "manual_trigger",
+      "data": {}
+    },
+    {
+      "id": "check_balance",
+      "type": "balance_check",
+      "data": {
+        "operator": ">=",
+        "amount": 2000000000,
         "token": "APT"
       }
-    ]
-  },
-  "action": {
-    "type": "swap_action",
-    "fromToken": "APT",
-    "toToken": "USDC",
-    "amount": 200000000,
-    "slippage": 1,
-    "dex": "liquidswap"
-  }
+    },
+    {
+      "id": "swap_half",
+      "type": "swap_action",
+      "data": {
+        "fromToken": "APT",
+        "toToken": "USDC",
+        "amount": 1000000000,
+        "slippage": 1,
+        "dex": "liquidswap"
+      }
+    },
+    {
+      "id": "stake_rest",
+      "type": "stake_action",
+      "data": {
+        "poolAddress": "0xSTAKING_POOL",
+        "amount": 1000000000,
+        "token": "APT"
+      }
+    }
+  ],
+  "edges": [
+    { "source": "trigger", "target": "check_balance" },
+    { "source": "check_balance", "target": "swap_half" },
+    { "source": "swap_half", "target": "stake_rest" }
+  ]
+}
+
+Example 11 - Branching:
+Prompt: "If APT is above $10 send 1 APT to 0xALICE, otherwise notify me"
+Output:
+{
+  "nodes": [
+    {
+      "id": "trigger",
+      "type": "manual_trigger",
+      "data": {}
+    },
+    {
+      "id": "price_branch",
+      "type": "branch_node",
+      "data": {
+        "condition": {
+          "type": "oracle_check",
+          "token": "APT",
+          "operator": ">",
+          "value": 10,
+          "oracleProvider": "pyth"
+        }
+      }
+    },
+    {
+      "id": "send_alice",
+      "type": "transfer_action",
+      "data": {
+        "recipient": "0xALICE",
+        "amount": 100000000,
+        "token": "APT"
+      }
+    },
+    {
+      "id": "notify_me",
+      "type": "notify_action",
+      "data": {
+        "message": "APT is at or below $10",
+        "channel": "webhook"
+      }
+    }
+  ],
+  "edges": [
+    { "source": "trigger", "target": "price_branch" },
+    { "source": "price_branch", "target": "send_alice", "label": "true" },
+    { "source": "price_branch", "target": "notify_me", "label": "false" }
+  ]
 }`;
   }
 
@@ -459,16 +666,18 @@ Output:
   async validateWorkflow(workflow: unknown): Promise<{
     valid: boolean;
     error?: string;
+    errors?: WorkflowValidationError[];
   }> {
-    try {
-      workflowSchema.parse(workflow);
-      return { valid: true };
-    } catch (error: any) {
+    const parsed = workflowSchema.safeParse(workflow);
+    if (!parsed.success) {
       return {
         valid: false,
-        error: error.errors?.[0]?.message || 'Invalid workflow structure',
+        error: parsed.error.errors[0]?.message || 'Invalid workflow structure',
       };
     }
+
+    const { valid, errors } = workflowValidatorService.validate(parsed.data);
+    return valid ? { valid } : { valid, error: errors[0].message, errors };
   }
 }
 
@@ -1,6 +1,27 @@
-import { Aptos, AptosConfig, Network, Ed25519Account, Ed25519PrivateKey } from '@aptos-labs/ts-sdk';
+import {
+  AccountAddress,
+  Aptos,
+  AptosApiError,
+  AptosConfig,
+  Network,
+  Ed25519Account,
+  Ed25519PrivateKey,
+  type MoveStructId,
+  type WriteSetChange,
+  type WriteSetChangeWriteResource,
+} from '@aptos-labs/ts-sdk';
 import { config } from '@/config/index.js';
 import prisma from '@/utils/prisma.js';
+import type {
+  BalanceChange,
+  CompiledWorkflow,
+  DecodedWorkflowEvents,
+  SimulationResult,
+  TransactionInspection,
+} from '@/types/contract.types.js';
+
+const COIN_STORE_PREFIX = '0x1::coin::CoinStore<';
+const FUNGIBLE_STORE_TYPE = '0x1::fungible_asset::FungibleStore';
 
 export class AptosService {
   private aptos: Aptos;
@@ -25,6 +46,13 @@ export class AptosService {
     this.expiryHours = config.aptosPaymentExpiryHours;
   }
 
+  /**
+   * The SDK client, for services that query the chain directly
+   */
+  get client(): Aptos {
+    return this.aptos;
+  }
+
   /**
    * Verify a payment transaction on the Aptos blockchain
    */
@@ -221,6 +249,39 @@ export class AptosService {
       return BigInt(0);
     }
   }
+
+  /**
+   * Balance of APT, a coin type or a fungible asset (by metadata address) in
+   * base units. Coins migrated to fungible assets are counted in both forms.
+   */
+  async getAssetBalance(address: string, asset: string): Promise<bigint> {
+    const amount = asset.toUpperCase() === 'APT'
+      ? await this.aptos.getAccountAPTAmount({ accountAddress: address })
+      : asset.includes('::')
+        ? await this.aptos.getAccountCoinAmount({ accountAddress: address, coinType: asset as MoveStructId })
+        : await this.aptos.getAccountCoinAmount({ accountAddress: address, faMetadataAddress: asset });
+    return BigInt(amount);
+  }
+
+  /**
+   * Balances of every asset an account holds, in whole tokens by upper-case
+   * symbol. Assets sharing a symbol are added together.
+   */
+  async getTokenBalances(address: string): Promise<Record<string, number>> {
+    const rows = await this.aptos.getAccountCoinsData({ accountAddress: address });
+    const balances: Record<string, number> = {};
+
+    for (const row of rows) {
+      if (!row.metadata?.symbol) continue;
+      const symbol = row.metadata.symbol.toUpperCase();
+      balances[symbol] = (balances[symbol] ?? 0) + Number(row.amount ?? 0) / 10 ** row.metadata.decimals;
+    }
+
+    // The indexer can lag; read APT from the chain
+    balances.APT = Number(await this.getAssetBalance(address, 'APT')) / 1e8;
+    return balances;
+  }
+
   /**
    * Get events from an account
    */
@@ -242,63 +303,322 @@ export class AptosService {
   }
 
   /**
-   * Execute a workflow on-chain
+   * Execute an already registered workflow on-chain
    */
+  async executeWorkflow(onChainId: bigint): Promise<string> {
+    try {
+      const txHash = await this.submitWorkflowTransaction('execute_workflow', [
+        onChainId.toString(),
+      ]);
+      console.log(`Executing on-chain workflow ${onChainId}. Hash: ${txHash}`);
+      return txHash;
+    } catch (error) {
+      console.error('Error executing workflow:', error);
+      throw error;
+    }
+  }
+
   /**
-   * Execute a workflow on-chain
+   * Register a compiled workflow graph and execute it in one transaction
    */
-  async executeWorkflow(workflowId: string): Promise<string> {
+  async registerAndExecuteWorkflow(compiled: CompiledWorkflow): Promise<string> {
     try {
-      if (!config.aptosPrivateKey) {
-        throw new Error('APTOS_PRIVATE_KEY is not configured');
-      }
+      const txHash = await this.submitWorkflowTransaction(
+        'register_and_execute_workflow',
+        this.registerArguments(compiled)
+      );
+      console.log(`Registered and executed ${compiled.nodeIds.length}-node workflow. Hash: ${txHash}`);
+      return txHash;
+    } catch (error) {
+      console.error('Error registering workflow:', error);
+      throw error;
+    }
+  }
 
-      // Create account from private key
-      const privateKey = new Ed25519Account({ 
-        privateKey: new Ed25519PrivateKey(config.aptosPrivateKey) 
-      });
+  /**
+   * Read the WorkflowRegisteredEvent emitted by a registration transaction.
+   * Returns null when the transaction aborted, which rolls the registration back.
+   */
+  async getRegisteredWorkflow(txHash: string) {
+    const { state, events } = await this.inspectTransaction(txHash);
 
-      // Build transaction payload
-      // Note: We need the module address. Assuming it's the same as seller address or from env.
-      // Ideally should be in config. For now using a placeholder or derived from config if possible.
-      // But wait, the contract address is 0xcafe in Move.toml.
-      // In production, this should be config.aptosContractAddress.
-      // Let's assume 0xcafe for now or better, add it to config.
-      // I'll use a hardcoded 0xcafe for MVP as requested in "Fix TODOs", 
-      // but ideally it should be dynamic.
-      // The user asked to "Replace hardcoded 0xcafe with env var" in Frontend.
-      // Backend should also use env var.
-      // I'll use process.env.NEXT_PUBLIC_MODULE_ADDRESS if available (but this is backend).
-      // I should add aptosContractAddress to config.
-      // For now, I'll use '0xcafe' but add a TODO to move to config.
-      
-      const moduleAddress = '0xcafe'; 
+    if (state === 'failed') {
+      return null;
+    }
 
-      const transaction = await this.aptos.transaction.build.simple({
-        sender: privateKey.accountAddress,
-        data: {
-          function: `${moduleAddress}::workflow_graph::execute_workflow`,
-          functionArguments: [workflowId],
-        },
-      });
+    if (!events.registered) {
+      throw new Error(`No WorkflowRegisteredEvent found in transaction ${txHash}`);
+    }
+
+    return events.registered;
+  }
 
-      // Sign and submit
-      const pendingTxn = await this.aptos.signAndSubmitTransaction({
-        signer: privateKey,
-        transaction,
+  /**
+   * Look up a transaction and report whether it is pending, committed or
+   * failed, together with its gas usage and decoded workflow events
+   */
+  async inspectTransaction(txHash: string): Promise<TransactionInspection> {
+    let transaction;
+    try {
+      transaction = await this.aptos.getTransactionByHash({
+        transactionHash: txHash,
       });
+    } catch (error) {
+      if (error instanceof AptosApiError && error.status === 404) {
+        return { hash: txHash, state: 'not_found', events: { steps: [] } };
+      }
+      throw error;
+    }
 
-      console.log(`Executing workflow ${workflowId} on-chain. Hash: ${pendingTxn.hash}`);
-      
-      // Wait for transaction
-      await this.aptos.waitForTransaction({ transactionHash: pendingTxn.hash });
-      
-      return pendingTxn.hash;
+    if (transaction.type === 'pending_transaction') {
+      return {
+        hash: txHash,
+        state: 'pending',
+        sender: transaction.sender,
+        sequenceNumber: BigInt(transaction.sequence_number),
+        events: { steps: [] },
+      };
+    }
+
+    if (transaction.type !== 'user_transaction') {
+      throw new Error(`Transaction ${txHash} is a ${transaction.type}, not a user transaction`);
+    }
+
+    return {
+      hash: txHash,
+      state: transaction.success ? 'committed' : 'failed',
+      sender: transaction.sender,
+      sequenceNumber: BigInt(transaction.sequence_number),
+      version: BigInt(transaction.version),
+      vmStatus: transaction.vm_status,
+      gasUsed: BigInt(transaction.gas_used),
+      // Aptos timestamps are in microseconds
+      timestamp: new Date(Number(BigInt(transaction.timestamp) / BigInt(1000))),
+      events: this.decodeWorkflowEvents(transaction.events),
+    };
+  }
+
+  /**
+   * Decode workflow_graph events emitted by this contract, in emission order
+   */
+  decodeWorkflowEvents(events: Array<{ type: string; data: any }>): DecodedWorkflowEvents {
+    const decoded: DecodedWorkflowEvents = { steps: [] };
+
+    for (const event of events) {
+      if (this.isWorkflowEvent(event.type, 'WorkflowStepEvent')) {
+        decoded.steps.push({
+          workflowId: BigInt(event.data.workflow_id),
+          nodeId: BigInt(event.data.node_id),
+          nodeType: Number(event.data.node_type),
+          success: Boolean(event.data.success),
+          errorCode: BigInt(event.data.error_code),
+        });
+      } else if (this.isWorkflowEvent(event.type, 'WorkflowCompletedEvent')) {
+        decoded.completed = {
+          workflowId: BigInt(event.data.workflow_id),
+          totalSteps: Number(event.data.total_steps),
+          success: Boolean(event.data.success),
+        };
+      } else if (this.isWorkflowEvent(event.type, 'WorkflowRegisteredEvent')) {
+        decoded.registered = {
+          workflowId: BigInt(event.data.workflow_id),
+          owner: AccountAddress.from(event.data.owner).toString(),
+          nodeCount: Number(event.data.node_count),
+        };
+      }
+    }
+
+    return decoded;
+  }
+
+  /**
+   * Address of the backend account, i.e. the owner of every WorkflowStore entry it registers
+   */
+  getExecutorAddress(): string {
+    return this.getSigner().accountAddress.toString();
+  }
+
+  /**
+   * Check an event type against `<contract>::workflow_graph::<name>`
+   */
+  private isWorkflowEvent(type: string, name: string): boolean {
+    const [address, module, struct] = type.split('::');
+    return (
+      module === 'workflow_graph' &&
+      struct === name &&
+      AccountAddress.from(address).equals(AccountAddress.from(config.aptosContractAddress))
+    );
+  }
+
+  /**
+   * Dry-run execute_workflow for an already registered workflow
+   */
+  async simulateExecuteWorkflow(onChainId: bigint): Promise<SimulationResult> {
+    return this.simulateWorkflowTransaction('execute_workflow', [onChainId.toString()]);
+  }
+
+  /**
+   * Dry-run register_and_execute_workflow for a compiled graph
+   */
+  async simulateRegisterAndExecuteWorkflow(compiled: CompiledWorkflow): Promise<SimulationResult> {
+    return this.simulateWorkflowTransaction(
+      'register_and_execute_workflow',
+      this.registerArguments(compiled)
+    );
+  }
+
+  /**
+   * Build the same transaction as submitWorkflowTransaction and run it
+   * through the simulation API without submitting it
+   */
+  private async simulateWorkflowTransaction(
+    entryFunction: string,
+    functionArguments: any[]
+  ): Promise<SimulationResult> {
+    const signer = this.getSigner();
+    const transaction = await this.buildWorkflowTransaction(signer, entryFunction, functionArguments);
+
+    const [result] = await this.aptos.transaction.simulate.simple({
+      signerPublicKey: signer.publicKey,
+      transaction,
+    });
+
+    return {
+      success: result.success,
+      vmStatus: result.vm_status,
+      gasUsed: BigInt(result.gas_used),
+      gasUnitPrice: BigInt(result.gas_unit_price),
+      balanceChanges: await this.getBalanceChanges(result.changes),
+      events: this.decodeWorkflowEvents(result.events),
+    };
+  }
+
+  /**
+   * Diff simulated coin/fungible store balances against current chain state
+   */
+  private async getBalanceChanges(changes: WriteSetChange[]): Promise<BalanceChange[]> {
+    const balanceChanges: BalanceChange[] = [];
+
+    for (const change of changes) {
+      if (change.type !== 'write_resource') continue;
+
+      const { address, data } = change as WriteSetChangeWriteResource;
+      const resource = data as { type: string; data: any };
+
+      let owner: string;
+      let asset: string;
+      let after: bigint;
+
+      if (resource.type.startsWith(COIN_STORE_PREFIX)) {
+        owner = address;
+        asset = resource.type.slice(COIN_STORE_PREFIX.length, -1);
+        after = BigInt(resource.data.coin.value);
+      } else if (resource.type === FUNGIBLE_STORE_TYPE) {
+        const objectCore = await this.getResourceData(address, '0x1::object::ObjectCore');
+        owner = objectCore?.owner ?? address;
+        asset = resource.data.metadata.inner;
+        after = BigInt(resource.data.balance);
+      } else {
+        continue;
+      }
+
+      const current = await this.getResourceData(address, resource.type);
+      const before = BigInt(
+        resource.type === FUNGIBLE_STORE_TYPE ? current?.balance ?? 0 : current?.coin?.value ?? 0
+      );
+
+      if (after !== before) {
+        balanceChanges.push({ address: owner, asset, before, after, delta: after - before });
+      }
+    }
+
+    return balanceChanges;
+  }
+
+  /**
+   * Read a resource, treating a missing resource as null
+   */
+  private async getResourceData(address: string, resourceType: string): Promise<any | null> {
+    try {
+      return await this.aptos.getAccountResource({
+        accountAddress: address,
+        resourceType: resourceType as `${string}::${string}::${string}`,
+      });
     } catch (error) {
-      console.error('Error executing workflow:', error);
+      if (error instanceof AptosApiError && error.status === 404) {
+        return null;
+      }
       throw error;
     }
   }
+
+  /**
+   * register_and_execute_workflow arguments, in declaration order
+   */
+  private registerArguments(compiled: CompiledWorkflow): any[] {
+    return [
+      compiled.nodeIds,
+      compiled.nodeTypes,
+      compiled.targetAddresses,
+      compiled.amounts,
+      compiled.nextNodeCounts,
+      compiled.flatNextNodeIds,
+    ];
+  }
+
+  /**
+   * Build a workflow_graph entry function transaction for the backend account
+   */
+  private async buildWorkflowTransaction(
+    signer: Ed25519Account,
+    entryFunction: string,
+    functionArguments: any[]
+  ) {
+    return this.aptos.transaction.build.simple({
+      sender: signer.accountAddress,
+      data: {
+        function: `${config.aptosContractAddress}::workflow_graph::${entryFunction}` as `${string}::${string}::${string}`,
+        functionArguments,
+      },
+    });
+  }
+
+  /**
+   * Sign, submit and wait for a workflow_graph entry function call. Aborted
+   * transactions still return their hash so the run can record the VM status.
+   */
+  private async submitWorkflowTransaction(
+    entryFunction: string,
+    functionArguments: any[]
+  ): Promise<string> {
+    const signer = this.getSigner();
+    const transaction = await this.buildWorkflowTransaction(signer, entryFunction, functionArguments);
+
+    const pendingTxn = await this.aptos.signAndSubmitTransaction({
+      signer,
+      transaction,
+    });
+
+    await this.aptos.waitForTransaction({
+      transactionHash: pendingTxn.hash,
+      options: { checkSuccess: false },
+    });
+
+    return pendingTxn.hash;
+  }
+
+  /**
+   * Backend account that owns and executes workflows
+   */
+  private getSigner(): Ed25519Account {
+    if (!config.aptosPrivateKey) {
+      throw new Error('APTOS_PRIVATE_KEY is not configured');
+    }
+
+    return new Ed25519Account({
+      privateKey: new Ed25519PrivateKey(config.aptosPrivateKey),
+    });
+  }
 }
 
 export const aptosService = new AptosService();
@@ -0,0 +1,259 @@
+import { z } from 'zod';
+import { aptosService } from '@/services/aptos.service.js';
+import { PriceOracleService, comparePrice, priceOracleService } from '@/services/price-oracle.service.js';
+import { expressionService } from '@/services/expression.service.js';
+import { WorkflowExecutionError, conditionError } from '@/utils/workflow-errors.js';
+import { parseZonedTime, wallClock } from '@/utils/timezone.js';
+import {
+  balanceConditionSchema,
+  conditionSchema,
+  customConditionSchema,
+  oracleConditionSchema,
+  timeConditionSchema,
+  type CanvasNode,
+} from '@/types/workflow.types.js';
+import type { ConditionContext, ConditionEvaluation, ConditionTrace } from '@/types/condition.types.js';
+
+type Condition = NonNullable<z.infer<typeof conditionSchema>>;
+type TimeCondition = z.infer<typeof timeConditionSchema>;
+
+const TIME_OF_DAY = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/;
+const ASSET_ADDRESS = /^0x[a-fA-F0-9]{1,64}$/;
+
+/**
+ * Evaluates workflow conditions in the backend, for conditions the
+ * contract cannot express: time windows, custom expressions, AND/OR
+ * combinations, oracle checks against providers other than on-chain Pyth
+ * and balance checks on tokens other than APT.
+ */
+export class ConditionEvaluatorService {
+  constructor(private readonly oracle: PriceOracleService = priceOracleService) {}
+
+  /**
+   * Evaluate gate nodes in order, stopping at the first false one. A gate
+   * that cannot be evaluated (stale price, unknown token) throws a
+   * CONDITION_ERROR pointing at the node rather than counting as false.
+   */
+  async evaluateGates(gates: CanvasNode[], context: ConditionContext): Promise<ConditionEvaluation> {
+    const trace: ConditionTrace[] = [];
+
+    for (const gate of gates) {
+      let result: ConditionTrace;
+      try {
+        result = { nodeId: gate.id, ...(await this.evaluate(this.parse(gate), context)) };
+      } catch (error) {
+        if (error instanceof WorkflowExecutionError) throw error;
+        throw conditionError(error instanceof Error ? error.message : String(error), gate.id);
+      }
+
+      trace.push(result);
+      if (!result.result) {
+        return { passed: false, trace };
+      }
+    }
+
+    return { passed: true, trace };
+  }
+
+  /**
+   * Evaluate one condition. AND stops at the first false sub-condition and
+   * OR at the first true one; the rest are traced with a null result.
+   */
+  async evaluate(condition: Condition, context: ConditionContext): Promise<ConditionTrace> {
+    switch (condition.type) {
+      case 'balance_check':
+        return this.balance(condition, context);
+      case 'oracle_check':
+        return this.price(condition);
+      case 'time_condition':
+        return this.time(condition, context);
+      case 'custom_condition':
+        return this.expression(condition, context);
+      case 'multi_condition': {
+        const stopOn = condition.logic === 'OR';
+        const conditions: ConditionTrace[] = [];
+        let decided: boolean | null = null;
+
+        for (const sub of condition.conditions) {
+          if (decided !== null) {
+            conditions.push({ type: sub.type, result: null, detail: 'Not evaluated' });
+            continue;
+          }
+          const trace = await this.evaluate(sub, context);
+          conditions.push(trace);
+          if (trace.result === stopOn) decided = stopOn;
+        }
+
+        const result = decided ?? !stopOn;
+        const evaluated = conditions.filter((c) => c.result !== null).length;
+        return {
+          type: condition.type,
+          result,
+          detail: `${condition.logic} of ${condition.conditions.length} conditions is ${result}` +
+            (evaluated < conditions.length ? ` after ${evaluated}` : ''),
+          conditions,
+        };
+      }
+    }
+  }
+
+  private parse(node: CanvasNode): Condition {
+    const parsed = conditionSchema.safeParse({ ...(node.data ?? {}), type: node.type });
+    if (!parsed.success || !parsed.data) {
+      const issue = parsed.success ? undefined : parsed.error.errors[0];
+      throw conditionError(
+        `invalid ${node.type}` + (issue ? `: ${issue.path.join('.') || 'node'} ${issue.message}` : ''),
+        node.id
+      );
+    }
+    return parsed.data;
+  }
+
+  /**
+   * Balance of the executor account, in the token's base units (octas for APT)
+   */
+  private async balance(
+    condition: z.infer<typeof balanceConditionSchema>,
+    context: ConditionContext
+  ): Promise<ConditionTrace> {
+    const { token, operator, amount } = condition;
+    if (token.toUpperCase() !== 'APT' && !token.includes('::') && !ASSET_ADDRESS.test(token)) {
+      throw new Error(`balance checks need APT, a coin type or a fungible asset address, not '${token}'`);
+    }
+    if (!Number.isSafeInteger(amount)) {
+      throw new Error(`balance check amount ${amount} must be a whole number of base units`);
+    }
+
+    const balance = await aptosService.getAssetBalance(context.ownerAddress, token);
+    const threshold = BigInt(amount);
+    const result =
+      operator === '>' ? balance > threshold
+      : operator === '<' ? balance < threshold
+      : operator === '>=' ? balance >= threshold
+      : operator === '<=' ? balance <= threshold
+      : balance === threshold;
+
+    return {
+      type: condition.type,
+      result,
+      detail: `${token} balance ${balance} ${operator} ${threshold}`,
+      observed: { address: context.ownerAddress, token, balance: balance.toString() },
+    };
+  }
+
+  private async expression(
+    condition: z.infer<typeof customConditionSchema>,
+    context: ConditionContext
+  ): Promise<ConditionTrace> {
+    const compiled = expressionService.compileCondition(condition.expression);
+    const variables = await expressionService.liveVariables(compiled, {
+      ownerAddress: context.ownerAddress,
+      now: context.now,
+      timezone: context.timezone,
+      trigger: context.triggerContext,
+    });
+
+    const result = expressionService.evaluate(compiled, variables);
+    if (typeof result !== 'boolean') {
+      throw new Error(`'${condition.expression}' evaluated to ${String(result)}, not true or false`);
+    }
+
+    return {
+      type: condition.type,
+      result,
+      detail: `${condition.expression} is ${result}`,
+      observed: { balance: variables.balance, price: variables.price, now: context.now.toISOString() },
+    };
+  }
+
+  private async price(condition: z.infer<typeof oracleConditionSchema>): Promise<ConditionTrace> {
+    const quote = await this.oracle.getPrice(condition.oracleProvider, condition.token);
+    const result = comparePrice(quote, condition.operator, condition.value);
+
+    return {
+      type: condition.type,
+      result,
+      detail: `${quote.symbol} ${quote.price} ${condition.operator} ${condition.value} (${quote.source})`,
+      observed: {
+        token: quote.symbol,
+        price: quote.price,
+        confidence: quote.confidence ?? null,
+        publishTime: quote.publishTime.toISOString(),
+        source: quote.source,
+      },
+    };
+  }
+
+  /**
+   * Times are either a time of day ("09:30"), checked daily, or a date and
+   * time ("2026-12-01T09:30"). Both are read in the workflow's time zone
+   * unless they carry an offset. A `between` window of times of day may
+   * wrap past midnight ("22:00" to "06:00").
+   */
+  private time(condition: TimeCondition, context: ConditionContext): ConditionTrace {
+    const { operator, time, endTime } = condition;
+    const local = wallClock(context.now, context.timezone);
+    const localTime = [local.hour, local.minute, local.second].map((n) => String(n).padStart(2, '0')).join(':');
+    const observed = { now: context.now.toISOString(), localTime, timezone: context.timezone };
+
+    if (operator === 'between' && !endTime) {
+      throw new Error("'between' time conditions need an endTime");
+    }
+
+    if (TIME_OF_DAY.test(time)) {
+      const nowSeconds = local.hour * 3600 + local.minute * 60 + local.second;
+      const start = secondsOfDay(time);
+      let result: boolean;
+
+      if (operator === 'between') {
+        if (!TIME_OF_DAY.test(endTime!)) {
+          throw new Error(`endTime '${endTime}' must be a time of day like time '${time}'`);
+        }
+        const end = secondsOfDay(endTime!);
+        result = start <= end ? nowSeconds >= start && nowSeconds < end : nowSeconds >= start || nowSeconds < end;
+      } else {
+        result = operator === 'before' ? nowSeconds < start : nowSeconds >= start;
+      }
+
+      return {
+        type: condition.type,
+        result,
+        detail: `${localTime} ${context.timezone} is ${result ? '' : 'not '}${operator} ${time}` +
+          (operator === 'between' ? ` and ${endTime}` : ''),
+        observed,
+      };
+    }
+
+    if (!/^\d{4}-/.test(time)) {
+      throw new Error(`'${time}' is not a time of day (HH:MM) or an ISO 8601 date and time`);
+    }
+    const start = parseZonedTime(time, context.timezone);
+    const now = context.now.getTime();
+    let result: boolean;
+
+    if (operator === 'between') {
+      const end = parseZonedTime(endTime!, context.timezone);
+      result = now >= start.getTime() && now < end.getTime();
+    } else {
+      result = operator === 'before' ? now < start.getTime() : now >= start.getTime();
+    }
+
+    return {
+      type: condition.type,
+      result,
+      detail: `${context.now.toISOString()} is ${result ? '' : 'not '}${operator} ${start.toISOString()}` +
+        (operator === 'between' ? ` and ${parseZonedTime(endTime!, context.timezone).toISOString()}` : ''),
+      observed,
+    };
+  }
+}
+
+function secondsOfDay(time: string): number {
+  const [, hour, minute, second = '0'] = time.match(TIME_OF_DAY)!;
+  if (Number(hour) > 23 || Number(minute) > 59 || Number(second) > 59) {
+    throw new Error(`'${time}' is not a valid time of day`);
+  }
+  return Number(hour) * 3600 + Number(minute) * 60 + Number(second);
+}
+
+export const conditionEvaluatorService = new ConditionEvaluatorService();
@@ -0,0 +1,117 @@
+import { describe, expect, it } from '@jest/globals';
+import { cronService } from '@/services/cron.service.js';
+
+// US DST in 2026: 02:00 EST jumps to 03:00 EDT on 8 March, and 02:00 EDT
+// falls back to 01:00 EST on 1 November
+const ZONE = 'America/New_York';
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+describe('CronService across DST changes', () => {
+  describe('spring forward', () => {
+    it('fires a skipped local time one hour later, after the jump', () => {
+      const times = cronService.nextFireTimes('30 2 * * *', ZONE, 3, new Date('2026-03-07T00:00:00Z'));
+
+      expect(iso(times)).toEqual([
+        '2026-03-07T07:30:00.000Z', // 02:30 EST
+        '2026-03-08T07:30:00.000Z', // 02:30 does not exist; 03:30 EDT
+        '2026-03-09T06:30:00.000Z', // 02:30 EDT
+      ]);
+    });
+
+    it('fires hourly schedules on every real hour', () => {
+      const times = cronService.nextFireTimes('0 * * * *', ZONE, 3, new Date('2026-03-08T05:30:00Z'));
+
+      expect(iso(times)).toEqual([
+        '2026-03-08T06:00:00.000Z', // 01:00 EST
+        '2026-03-08T07:00:00.000Z', // 03:00 EDT
+        '2026-03-08T08:00:00.000Z', // 04:00 EDT
+      ]);
+    });
+
+    it('lists the skipped time once between two instants', () => {
+      const times = cronService.fireTimesBetween(
+        '30 2 * * *',
+        ZONE,
+        new Date('2026-03-07T00:00:00Z'),
+        new Date('2026-03-10T00:00:00Z'),
+        10
+      );
+
+      expect(iso(times)).toEqual([
+        '2026-03-07T07:30:00.000Z',
+        '2026-03-08T07:30:00.000Z',
+        '2026-03-09T06:30:00.000Z',
+      ]);
+    });
+  });
+
+  describe('fall back', () => {
+    it('fires a repeated local time once, on its first occurrence', () => {
+      const times = cronService.nextFireTimes('30 1 * * *', ZONE, 3, new Date('2026-10-31T00:00:00Z'));
+
+      expect(iso(times)).toEqual([
+        '2026-10-31T05:30:00.000Z', // 01:30 EDT
+        '2026-11-01T05:30:00.000Z', // first 01:30, still EDT
+        '2026-11-02T06:30:00.000Z', // 01:30 EST
+      ]);
+    });
+
+    it('fires hourly schedules on both passes through the repeated hour', () => {
+      const times = cronService.fireTimesBetween(
+        '0 * * * *',
+        ZONE,
+        new Date('2026-11-01T04:00:00Z'),
+        new Date('2026-11-01T08:00:00Z'),
+        10
+      );
+
+      expect(iso(times)).toEqual([
+        '2026-11-01T05:00:00.000Z', // 01:00 EDT
+        '2026-11-01T06:00:00.000Z', // 01:00 EST
+        '2026-11-01T07:00:00.000Z', // 02:00 EST
+        '2026-11-01T08:00:00.000Z', // 03:00 EST
+      ]);
+    });
+
+    it('lists the repeated time once between two instants', () => {
+      const times = cronService.fireTimesBetween(
+        '30 1 * * *',
+        ZONE,
+        new Date('2026-10-31T12:00:00Z'),
+        new Date('2026-11-02T12:00:00Z'),
+        10
+      );
+
+      expect(iso(times)).toEqual(['2026-11-01T05:30:00.000Z', '2026-11-02T06:30:00.000Z']);
+    });
+  });
+
+  it('keeps the latest fire times when there are more than the limit', () => {
+    const times = cronService.fireTimesBetween(
+      '0 * * * *',
+      ZONE,
+      new Date('2026-11-01T04:00:00Z'),
+      new Date('2026-11-01T08:00:00Z'),
+      2
+    );
+
+    expect(iso(times)).toEqual(['2026-11-01T07:00:00.000Z', '2026-11-01T08:00:00.000Z']);
+  });
+
+  it('only walks back as far as the limit needs over a long gap', () => {
+    const times = cronService.fireTimesBetween(
+      '* * * * *',
+      ZONE,
+      new Date('2025-01-01T00:00:00Z'),
+      new Date('2026-11-01T06:00:00Z'),
+      3
+    );
+
+    expect(iso(times)).toEqual([
+      '2026-11-01T05:58:00.000Z',
+      '2026-11-01T05:59:00.000Z',
+      '2026-11-01T06:00:00.000Z',
+    ]);
+  });
+});
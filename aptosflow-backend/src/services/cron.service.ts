@@ -0,0 +1,191 @@
+import { CronExpressionParser } from 'cron-parser';
+import cronstrue from 'cronstrue';
+import { AppError } from '@/middleware/error.middleware.js';
+import { DEFAULT_TIMEZONE, isValidTimezone } from '@/utils/timezone.js';
+
+export interface CronValidation {
+  valid: boolean;
+  /** Five-field form (six when seconds are used) with names resolved to numbers */
+  normalized?: string;
+  description?: string;
+  timezone: string;
+  nextFireTimes?: Date[];
+  error?: string;
+}
+
+// Fields the AI has been seen putting the cron expression in
+const SCHEDULE_FIELDS = ['cron', 'schedule', 'cronExpression'] as const;
+
+/**
+ * Evaluates cron expressions in an IANA time zone. Across DST changes:
+ * - a local time skipped by spring-forward (e.g. 02:30) fires one hour
+ *   later, at the same wall-clock offset after the jump (03:30)
+ * - a fixed local time repeated by fall-back (e.g. 01:30) fires once, on
+ *   its first occurrence
+ * - hourly and finer schedules fire on every real hour, including both
+ *   passes through the repeated hour
+ */
+export class CronService {
+  /**
+   * Validate a cron expression and timezone, describing the schedule and
+   * its next fire times when it is valid
+   */
+  validate(cronExpression: string, timezone: string = DEFAULT_TIMEZONE, count: number = 10): CronValidation {
+    try {
+      const normalized = this.normalize(cronExpression);
+      return {
+        valid: true,
+        normalized,
+        description: this.describe(normalized),
+        timezone,
+        nextFireTimes: this.nextFireTimes(normalized, timezone, count),
+      };
+    } catch (error) {
+      return {
+        valid: false,
+        timezone,
+        error: error instanceof Error ? error.message : 'Invalid cron expression',
+      };
+    }
+  }
+
+  /**
+   * Canonical form of a cron expression. Accepts macros (@daily), day and
+   * month names (FRI, JAN), Quartz-style `?` and a trailing `*` year field,
+   * and drops a seconds field that is always 0. Throws on anything
+   * cron-parser rejects.
+   */
+  normalize(cronExpression: string): string {
+    const trimmed = (cronExpression ?? '').trim().replace(/\s+/g, ' ');
+    if (!trimmed) {
+      throw new AppError(400, 'Cron expression is required');
+    }
+
+    let fields = trimmed.startsWith('@') ? [trimmed] : trimmed.split(' ');
+
+    if (fields.length === 7 && ['*', '?'].includes(fields[6])) {
+      fields = fields.slice(0, 6);
+    }
+    if (fields.length !== 1 && fields.length !== 5 && fields.length !== 6) {
+      throw new AppError(
+        400,
+        `Cron expression has ${fields.length} fields; expected 5 (minute hour day-of-month month day-of-week)`
+      );
+    }
+
+    fields = fields.map((field) => (field === '?' ? '*' : field));
+
+    let expression;
+    try {
+      expression = CronExpressionParser.parse(fields.join(' '), { tz: DEFAULT_TIMEZONE });
+    } catch (error) {
+      throw new AppError(400, `Invalid cron expression: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const withSeconds = expression.stringify(true);
+    return withSeconds.startsWith('0 ') ? expression.stringify() : withSeconds;
+  }
+
+  /**
+   * Plain-English description, e.g. "At 06:00 PM, only on Friday"
+   */
+  describe(normalized: string): string {
+    return cronstrue.toString(normalized, { verbose: false });
+  }
+
+  /**
+   * Cron expression of a schedule trigger, wherever it was put
+   */
+  scheduleOf(trigger: Record<string, any>): string | undefined {
+    const field = SCHEDULE_FIELDS.find((name) => typeof trigger[name] === 'string' && trigger[name].trim());
+    return field ? trigger[field] : undefined;
+  }
+
+  /**
+   * Validate a schedule trigger and rewrite it in place with the normalized
+   * expression under `cron`. Throws a 400 AppError when it is unusable.
+   */
+  normalizeScheduleTrigger(trigger: Record<string, any>): { cron: string; timezone: string } {
+    const raw = this.scheduleOf(trigger);
+    if (!raw) {
+      throw new AppError(400, 'Schedule trigger is missing a cron expression');
+    }
+
+    const timezone = trigger.timezone || DEFAULT_TIMEZONE;
+    const validation = this.validate(raw, timezone, 1);
+    if (!validation.valid) {
+      throw new AppError(400, `Invalid schedule trigger: ${validation.error}`, {
+        cron: raw,
+        timezone,
+        error: validation.error,
+      });
+    }
+
+    for (const name of SCHEDULE_FIELDS) {
+      delete trigger[name];
+    }
+    trigger.cron = validation.normalized!;
+    trigger.timezone = timezone;
+
+    return { cron: trigger.cron, timezone };
+  }
+
+  /**
+   * The next `count` fire times after `from`
+   */
+  nextFireTimes(
+    cronExpression: string,
+    timezone: string = DEFAULT_TIMEZONE,
+    count: number = 10,
+    from: Date = new Date()
+  ): Date[] {
+    const expression = CronExpressionParser.parse(cronExpression, {
+      currentDate: from,
+      tz: this.checkTimezone(timezone),
+    });
+
+    return expression.take(count).map((date) => date.toDate());
+  }
+
+  /**
+   * The latest fire times in (since, until], oldest first, keeping at most `limit`
+   */
+  fireTimesBetween(
+    cronExpression: string,
+    timezone: string,
+    since: Date,
+    until: Date,
+    limit: number
+  ): Date[] {
+    const tz = this.checkTimezone(timezone);
+
+    // cron-parser only applies the DST rules above when walking forward;
+    // walking back it drops skipped times and repeats repeated ones. So step
+    // back just far enough to bound a long gap (with a spare step for a
+    // repeated time counted twice), then collect the fires going forward.
+    const back = CronExpressionParser.parse(cronExpression, { currentDate: until, tz });
+    let start = until;
+    for (let step = 0; step < limit + 2 && start.getTime() > since.getTime(); step++) {
+      start = back.prev().toDate();
+    }
+
+    const forward = CronExpressionParser.parse(cronExpression, {
+      currentDate: start.getTime() > since.getTime() ? start : since,
+      tz,
+    });
+    const times: Date[] = [];
+    for (let time = forward.next().toDate(); time.getTime() <= until.getTime(); time = forward.next().toDate()) {
+      times.push(time);
+    }
+    return times.slice(-limit);
+  }
+
+  private checkTimezone(timezone: string): string {
+    if (!isValidTimezone(timezone)) {
+      throw new AppError(400, `Unknown timezone '${timezone}'; use an IANA name such as "Europe/London"`);
+    }
+    return timezone;
+  }
+}
+
+export const cronService = new CronService();
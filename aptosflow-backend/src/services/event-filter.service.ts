@@ -0,0 +1,282 @@
+import { AccountAddress } from '@aptos-labs/ts-sdk';
+import { AppError } from '@/middleware/error.middleware.js';
+import { eventFiltersSchema } from '@/types/workflow.types.js';
+import type {
+  AssetTransfer,
+  ChainEvent,
+  EventDetails,
+  EventFilters,
+  EventMatch,
+  EventStream,
+  EventSubscription,
+  EventTriggerType,
+  TokenTransfer,
+} from '@/types/event.types.js';
+
+const EVENT_TRIGGER_TYPES: EventTriggerType[] = ['token_transfer', 'nft_received', 'nft_transfer', 'balance_change'];
+
+// APT is a coin and, after the fungible asset migration, the 0xa asset
+const COIN_ALIASES: Record<string, string[]> = {
+  APT: ['0x1::aptos_coin::AptosCoin', '0xa'],
+};
+
+/**
+ * Translates event trigger configs into the chain event stream they follow
+ * and decides which events of that stream fire the workflow:
+ * - token_transfer: coins and fungible assets deposited to `address`
+ * - balance_change: coins and fungible assets deposited to or withdrawn from `address`
+ * - nft_received: NFTs transferred, deposited or minted to `address`
+ * - nft_transfer: NFTs sent from `address`
+ * A raw `creationNumber` follows that event handle of `address` unfiltered.
+ */
+export class EventFilterService {
+  /**
+   * Subscription for a workflow's trigger config. Throws a 400 AppError
+   * when the config names no stream or has invalid filters.
+   */
+  subscriptionOf(triggerConfig: Record<string, any>): EventSubscription {
+    const address = this.parseAddress(triggerConfig.address, 'address');
+
+    if (!triggerConfig.eventType && triggerConfig.creationNumber !== undefined) {
+      const creationNumber = Number(triggerConfig.creationNumber);
+      if (!Number.isInteger(creationNumber) || creationNumber < 0) {
+        throw new AppError(400, `Invalid creationNumber: ${triggerConfig.creationNumber}`);
+      }
+      return this.subscription('raw', { kind: 'account_events', address, creationNumber }, {});
+    }
+
+    const eventType = triggerConfig.eventType as EventTriggerType;
+    if (!EVENT_TRIGGER_TYPES.includes(eventType)) {
+      throw new AppError(400, `Unknown eventType '${triggerConfig.eventType}'; expected one of ${EVENT_TRIGGER_TYPES.join(', ')}`);
+    }
+
+    const parsed = eventFiltersSchema.safeParse(triggerConfig.filters ?? {});
+    if (!parsed.success) {
+      throw new AppError(400, 'Invalid event filters', {
+        errors: parsed.error.errors.map((e) => ({ path: e.path.join('.'), message: e.message })),
+      });
+    }
+    const filters: EventFilters = { ...parsed.data };
+    if (filters.fromAddress) {
+      filters.fromAddress = this.parseAddress(filters.fromAddress, 'filters.fromAddress');
+    }
+
+    // `contract` narrows to a coin type for assets and a collection for NFTs
+    const nft = eventType === 'nft_received' || eventType === 'nft_transfer';
+    if (triggerConfig.contract) {
+      if (nft) filters.collection ??= triggerConfig.contract;
+      else filters.coinType ??= triggerConfig.contract;
+    }
+
+    switch (eventType) {
+      case 'token_transfer':
+        return this.subscription(
+          eventType,
+          { kind: 'fungible_asset_activities', ownerAddress: address, directions: ['deposit'] },
+          filters
+        );
+      case 'balance_change':
+        return this.subscription(
+          eventType,
+          { kind: 'fungible_asset_activities', ownerAddress: address, directions: ['deposit', 'withdraw'] },
+          filters
+        );
+      case 'nft_received':
+        return this.subscription(eventType, { kind: 'token_activities', address, side: 'to' }, filters);
+      case 'nft_transfer':
+        return this.subscription(eventType, { kind: 'token_activities', address, side: 'from' }, filters);
+    }
+  }
+
+  /**
+   * The match explaining why the event fires the workflow, or null when a
+   * filter rejects it
+   */
+  match(subscription: EventSubscription, event: ChainEvent): EventMatch | null {
+    const matched: string[] = [];
+    let summary: string;
+
+    if (event.transfer) {
+      if (!this.matchTransfer(subscription.filters, event.transfer, matched)) return null;
+      summary = this.describeTransfer(event.transfer);
+    } else if (event.token) {
+      if (!this.matchToken(subscription.filters, event.token, matched)) return null;
+      summary = this.describeToken(subscription.eventType, event.token);
+    } else {
+      summary = `Event ${event.type} on ${event.accountAddress}`;
+    }
+
+    return {
+      eventType: subscription.eventType,
+      streamKey: subscription.streamKey,
+      transactionVersion: event.transactionVersion.toString(),
+      eventIndex: event.eventIndex,
+      type: event.type,
+      summary,
+      matched,
+      event: detailsOf(event),
+    };
+  }
+
+  private matchTransfer(filters: EventFilters, transfer: AssetTransfer, matched: string[]): boolean {
+    if (filters.coinType) {
+      if (!this.isAsset(transfer, filters.coinType)) return false;
+      matched.push(`coin type is ${filters.coinType}`);
+    }
+
+    if (filters.minAmount !== undefined) {
+      if (transfer.decimals === undefined) return false;
+      if (transfer.amount < toBaseUnits(filters.minAmount, transfer.decimals)) return false;
+      matched.push(`amount ${formatAmount(transfer)} >= ${filters.minAmount}`);
+    }
+
+    if (filters.fromAddress) {
+      // Only deposits have a sender
+      if (transfer.direction !== 'deposit' || !sameAddress(transfer.counterparty, filters.fromAddress)) return false;
+      matched.push(`sent by ${filters.fromAddress}`);
+    }
+
+    return true;
+  }
+
+  private matchToken(filters: EventFilters, token: TokenTransfer, matched: string[]): boolean {
+    if (filters.collection) {
+      const wanted = filters.collection.trim();
+      const byId = sameAddress(token.collectionId, wanted) || sameAddress(token.creatorAddress, wanted);
+      const byName = token.collectionName?.toLowerCase() === wanted.toLowerCase();
+      if (!byId && !byName) return false;
+      matched.push(`collection is ${filters.collection}`);
+    }
+
+    if (filters.fromAddress) {
+      if (!sameAddress(token.fromAddress, filters.fromAddress)) return false;
+      matched.push(`sent by ${filters.fromAddress}`);
+    }
+
+    return true;
+  }
+
+  /**
+   * Whether a transfer is of the given coin type, fungible asset address
+   * or symbol
+   */
+  private isAsset(transfer: AssetTransfer, coinType: string): boolean {
+    const wanted = coinType.trim();
+    const candidates = COIN_ALIASES[wanted.toUpperCase()] ?? [wanted];
+
+    return (
+      candidates.some((candidate) => candidate === transfer.assetType || sameAddress(candidate, transfer.assetType)) ||
+      transfer.symbol?.toUpperCase() === wanted.toUpperCase()
+    );
+  }
+
+  private describeTransfer(transfer: AssetTransfer): string {
+    const amount = formatAmount(transfer);
+    if (transfer.direction === 'deposit') {
+      return `Received ${amount}` + (transfer.counterparty ? ` from ${transfer.counterparty}` : '');
+    }
+    return `Sent ${amount}` + (transfer.counterparty ? ` to ${transfer.counterparty}` : '');
+  }
+
+  private describeToken(eventType: EventSubscription['eventType'], token: TokenTransfer): string {
+    const name = token.tokenName ?? token.tokenDataId;
+    const collection = token.collectionName ? ` (${token.collectionName})` : '';
+    if (eventType === 'nft_transfer') {
+      return `Sent NFT ${name}${collection}` + (token.toAddress ? ` to ${token.toAddress}` : '');
+    }
+    return `Received NFT ${name}${collection}` + (token.fromAddress ? ` from ${token.fromAddress}` : '');
+  }
+
+  private subscription(
+    eventType: EventSubscription['eventType'],
+    stream: EventStream,
+    filters: EventFilters
+  ): EventSubscription {
+    return { eventType, stream, streamKey: streamKeyOf(stream), filters };
+  }
+
+  private parseAddress(value: unknown, field: string): string {
+    if (typeof value !== 'string' || !value.trim()) {
+      throw new AppError(400, `Event trigger is missing ${field}`);
+    }
+    try {
+      return AccountAddress.from(value.trim()).toStringLong();
+    } catch {
+      throw new AppError(400, `Invalid ${field}: ${value}`);
+    }
+  }
+}
+
+/**
+ * Cursor key of a stream, e.g. "token_activities:to:0x…"
+ */
+export function streamKeyOf(stream: EventStream): string {
+  switch (stream.kind) {
+    case 'account_events':
+      return `${stream.address}:${stream.creationNumber}`;
+    case 'fungible_asset_activities':
+      return `${stream.kind}:${stream.directions.join('+')}:${stream.ownerAddress}`;
+    case 'token_activities':
+      return `${stream.kind}:${stream.side}:${stream.address}`;
+  }
+}
+
+function sameAddress(a: string | undefined, b: string | undefined): boolean {
+  if (!a || !b) return false;
+  try {
+    return AccountAddress.from(a).equals(AccountAddress.from(b));
+  } catch {
+    return false;
+  }
+}
+
+function toBaseUnits(amount: number, decimals: number): bigint {
+  const [whole, fraction = ''] = amount.toFixed(decimals).split('.');
+  return BigInt(whole + fraction);
+}
+
+function detailsOf(event: ChainEvent): EventDetails {
+  const details: EventDetails = { type: event.type, account: event.accountAddress };
+  const { transfer, token } = event;
+
+  if (transfer) {
+    const deposit = transfer.direction === 'deposit';
+    return {
+      ...details,
+      amount: transfer.decimals === undefined
+        ? Number(transfer.amount)
+        : Number(transfer.amount) / 10 ** transfer.decimals,
+      token: transfer.symbol ?? transfer.assetType,
+      direction: transfer.direction,
+      from: deposit ? transfer.counterparty : event.accountAddress,
+      to: deposit ? event.accountAddress : transfer.counterparty,
+    };
+  }
+
+  if (token) {
+    return {
+      ...details,
+      amount: Number(token.amount),
+      token: token.tokenName ?? token.tokenDataId,
+      from: token.fromAddress,
+      to: token.toAddress,
+      collection: token.collectionName ?? token.collectionId,
+    };
+  }
+
+  return details;
+}
+
+function formatAmount(transfer: AssetTransfer): string {
+  const unit = transfer.symbol ?? transfer.assetType;
+  if (transfer.decimals === undefined) {
+    return `${transfer.amount} ${unit} (base units)`;
+  }
+
+  const digits = transfer.amount.toString().padStart(transfer.decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - transfer.decimals);
+  const fraction = digits.slice(digits.length - transfer.decimals).replace(/0+$/, '');
+  return `${whole}${fraction ? `.${fraction}` : ''} ${unit}`;
+}
+
+export const eventFilterService = new EventFilterService();
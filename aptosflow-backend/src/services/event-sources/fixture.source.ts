@@ -0,0 +1,99 @@
+import { readFileSync } from 'fs';
+import { streamKeyOf } from '@/services/event-filter.service.js';
+import type {
+  AssetTransfer,
+  ChainEvent,
+  EventPage,
+  EventPosition,
+  EventSource,
+  EventStream,
+  TokenTransfer,
+} from '@/types/event.types.js';
+
+/**
+ * A recorded event and the stream key it belongs to. In JSON, bigints
+ * (transactionVersion, transfer.amount, token.amount) are strings.
+ */
+export interface FixtureRecord {
+  stream: string;
+  event: ChainEvent;
+}
+
+type JsonBigInt = string | number;
+
+/**
+ * A ChainEvent as written in a fixture file
+ */
+interface FixtureEventJson extends Omit<ChainEvent, 'transactionVersion' | 'eventIndex' | 'data' | 'transfer' | 'token'> {
+  transactionVersion: JsonBigInt;
+  eventIndex: number | string;
+  data?: Record<string, unknown>;
+  transfer?: Omit<AssetTransfer, 'amount'> & { amount: JsonBigInt };
+  token?: Omit<TokenTransfer, 'amount'> & { amount?: JsonBigInt };
+}
+
+/**
+ * Replays recorded events from memory or a JSON file, for running event
+ * triggers without a network. Its head is before every record, so all
+ * recorded events of a stream fire once; events pushed later fire on the
+ * next poll.
+ */
+export class FixtureEventSource implements EventSource {
+  readonly name = 'fixture';
+  private records: FixtureRecord[] = [];
+
+  constructor(records: FixtureRecord[] = []) {
+    for (const record of records) {
+      this.push(record.stream, record.event);
+    }
+  }
+
+  /**
+   * Load a JSON array of `{ stream, event }` records
+   */
+  static fromFile(path: string): FixtureEventSource {
+    const records = JSON.parse(readFileSync(path, 'utf8')) as { stream: string; event: FixtureEventJson }[];
+    return new FixtureEventSource(records.map((record) => ({ stream: record.stream, event: reviveEvent(record.event) })));
+  }
+
+  /**
+   * Record an event on a stream, given as a stream or its key
+   */
+  push(stream: EventStream | string, event: ChainEvent) {
+    const key = typeof stream === 'string' ? stream : streamKeyOf(stream);
+    this.records.push({ stream: key, event });
+    this.records.sort((a, b) => compare(a.event, b.event));
+  }
+
+  async head(): Promise<EventPosition> {
+    return { transactionVersion: 0n, eventIndex: -1 };
+  }
+
+  async eventsAfter(stream: EventStream, after: EventPosition, limit: number): Promise<EventPage> {
+    const key = streamKeyOf(stream);
+    const events = this.records
+      .filter((record) => record.stream === key && compare(record.event, after) > 0)
+      .slice(0, limit)
+      .map((record) => record.event);
+
+    return { events, next: events[events.length - 1] ?? after };
+  }
+}
+
+function compare(a: EventPosition, b: EventPosition): number {
+  if (a.transactionVersion !== b.transactionVersion) {
+    return a.transactionVersion < b.transactionVersion ? -1 : 1;
+  }
+  return a.eventIndex - b.eventIndex;
+}
+
+function reviveEvent(event: FixtureEventJson): ChainEvent {
+  return {
+    ...event,
+    transactionVersion: BigInt(event.transactionVersion),
+    eventIndex: Number(event.eventIndex),
+    data: event.data ?? {},
+    transfer: event.transfer && { ...event.transfer, amount: BigInt(event.transfer.amount) },
+    token: event.token && { ...event.token, amount: BigInt(event.token.amount ?? 1) },
+  };
+}
@@ -0,0 +1,424 @@
+import { AccountAddress, type Aptos, type TransactionResponse } from '@aptos-labs/ts-sdk';
+import {
+  ASSET_ACTIVITY_TYPES,
+  type AssetDirection,
+  type ChainEvent,
+  type EventPage,
+  type EventPosition,
+  type EventSource,
+  type EventStream,
+} from '@/types/event.types.js';
+
+// The fullnode returns at most 100 transactions per request
+const PAGE_SIZE = 100;
+
+const OBJECT_TRANSFER_TYPES = ['0x1::object::TransferEvent', '0x1::object::Transfer'];
+const TOKEN_V1_TYPES: Record<AssetDirection, string[]> = {
+  deposit: ['0x3::token::DepositEvent', '0x3::token::TokenDeposit'],
+  withdraw: ['0x3::token::WithdrawEvent', '0x3::token::TokenWithdraw'],
+};
+
+/**
+ * Fields read from the data of coin, fungible asset, object and token
+ * events; account events keep all of theirs
+ */
+interface RawEventData {
+  amount?: string;
+  account?: string;
+  coin_type?: string;
+  store?: string;
+  object?: string;
+  from?: string;
+  to?: string;
+  id?: { token_data_id?: { creator?: string; collection?: string; name?: string } };
+  [field: string]: unknown;
+}
+
+interface RawEvent {
+  guid: { creation_number: string; account_address: string };
+  sequence_number: string;
+  type: string;
+  data?: RawEventData;
+}
+
+interface RawEventHandle {
+  guid?: { id?: { creation_num?: string } };
+}
+
+/**
+ * Fields read from CoinStore and FungibleStore resources
+ */
+interface RawResourceData {
+  deposit_events?: RawEventHandle;
+  withdraw_events?: RawEventHandle;
+  metadata?: { inner?: string };
+}
+
+interface RawChange {
+  type: string;
+  address?: string;
+  data?: { type: string; data?: RawResourceData };
+}
+
+interface AssetMovement {
+  index: number;
+  type: string;
+  owner: string;
+  direction: AssetDirection;
+  amount: bigint;
+  assetType: string;
+}
+
+interface AssetInfo {
+  decimals: number;
+  symbol: string;
+}
+
+interface TokenInfo {
+  name?: string;
+  collectionId?: string;
+  collectionName?: string;
+  creatorAddress?: string;
+}
+
+/**
+ * Reads event streams by scanning transactions on a fullnode over REST,
+ * with no indexer involved. Each poll scans at most `maxTransactions`
+ * transactions from the cursor, so it suits devnet and local networks;
+ * on busy networks it falls behind and the GraphQL source should be used.
+ */
+export class FullnodeEventSource implements EventSource {
+  readonly name = 'fullnode';
+  private assetInfo = new Map<string, AssetInfo | null>();
+  private tokenInfo = new Map<string, TokenInfo | null>();
+  private storeOwners = new Map<string, string | null>();
+
+  constructor(
+    private readonly aptos: Aptos,
+    private readonly maxTransactions: number
+  ) {}
+
+  async head(): Promise<EventPosition> {
+    const ledger = await this.aptos.getLedgerInfo();
+    return { transactionVersion: BigInt(ledger.ledger_version) + 1n, eventIndex: -1 };
+  }
+
+  async eventsAfter(stream: EventStream, after: EventPosition, limit: number): Promise<EventPage> {
+    const ledgerVersion = BigInt((await this.aptos.getLedgerInfo()).ledger_version);
+    const events: ChainEvent[] = [];
+    let next = after;
+    let version = after.transactionVersion;
+    let scanned = 0;
+
+    // Whole transactions are scanned, so a page can exceed `limit` by the
+    // events of its last transaction
+    while (version <= ledgerVersion && scanned < this.maxTransactions && events.length < limit) {
+      const transactions = await this.aptos.getTransactions({
+        options: { offset: version, limit: Math.min(PAGE_SIZE, this.maxTransactions - scanned) },
+      });
+      if (transactions.length === 0) break;
+
+      for (const transaction of transactions) {
+        if (!('version' in transaction)) continue;
+
+        const transactionVersion = BigInt(transaction.version);
+        const decoded = await this.decode(stream, transaction, transactionVersion);
+        events.push(
+          ...decoded.filter(
+            (event) => transactionVersion > after.transactionVersion || event.eventIndex > after.eventIndex
+          )
+        );
+
+        next = { transactionVersion: transactionVersion + 1n, eventIndex: -1 };
+        version = transactionVersion + 1n;
+        scanned++;
+        if (events.length >= limit) break;
+      }
+    }
+
+    return { events, next };
+  }
+
+  private async decode(stream: EventStream, transaction: TransactionResponse, version: bigint): Promise<ChainEvent[]> {
+    const raw = transaction as unknown as { success?: boolean; events?: RawEvent[]; changes?: RawChange[] };
+    const events = raw.events ?? [];
+    if (events.length === 0 || raw.success === false) return [];
+
+    switch (stream.kind) {
+      case 'account_events':
+        return events.flatMap((event, index) =>
+          sameAddress(event.guid.account_address, stream.address) &&
+          Number(event.guid.creation_number) === stream.creationNumber
+            ? [
+                {
+                  transactionVersion: version,
+                  eventIndex: index,
+                  type: event.type,
+                  accountAddress: stream.address,
+                  data: {
+                    ...(event.data ?? {}),
+                    creationNumber: stream.creationNumber,
+                    sequenceNumber: event.sequence_number,
+                  },
+                },
+              ]
+            : []
+        );
+      case 'fungible_asset_activities':
+        return this.decodeAssets(stream.ownerAddress, stream.directions, events, raw.changes ?? [], version);
+      case 'token_activities':
+        return this.decodeTokens(stream.address, stream.side, events, version);
+    }
+  }
+
+  private async decodeAssets(
+    ownerAddress: string,
+    directions: AssetDirection[],
+    events: RawEvent[],
+    changes: RawChange[],
+    version: bigint
+  ): Promise<ChainEvent[]> {
+    const movements: AssetMovement[] = [];
+    for (const [index, event] of events.entries()) {
+      const movement = await this.assetMovement(event, index, changes);
+      if (movement) movements.push(movement);
+    }
+
+    const result: ChainEvent[] = [];
+    for (const movement of movements) {
+      if (!sameAddress(movement.owner, ownerAddress) || !directions.includes(movement.direction)) continue;
+
+      const counterparty = movements.find(
+        (other) =>
+          other.assetType === movement.assetType &&
+          other.direction !== movement.direction &&
+          !sameAddress(other.owner, ownerAddress)
+      );
+      const info = await this.getAssetInfo(movement.assetType);
+
+      result.push({
+        transactionVersion: version,
+        eventIndex: movement.index,
+        type: movement.type,
+        accountAddress: ownerAddress,
+        data: {},
+        transfer: {
+          direction: movement.direction,
+          amount: movement.amount,
+          assetType: movement.assetType,
+          decimals: info?.decimals,
+          symbol: info?.symbol,
+          counterparty: counterparty?.owner,
+        },
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Owner, asset and amount of a coin or fungible asset event. Coin module
+   * events carry both; coin handle events are matched to their CoinStore in
+   * the transaction's changes; fungible asset events name a store whose
+   * owner is looked up.
+   */
+  private async assetMovement(event: RawEvent, index: number, changes: RawChange[]): Promise<AssetMovement | null> {
+    const direction: AssetDirection | null = ASSET_ACTIVITY_TYPES.deposit.includes(event.type)
+      ? 'deposit'
+      : ASSET_ACTIVITY_TYPES.withdraw.includes(event.type)
+        ? 'withdraw'
+        : null;
+    if (!direction) return null;
+
+    const amount = BigInt(event.data?.amount ?? 0);
+
+    if (event.type.startsWith('0x1::coin::Coin')) {
+      const { account, coin_type: assetType } = event.data ?? {};
+      if (!account || !assetType) return null;
+      return { index, type: event.type, owner: account, direction, amount, assetType };
+    }
+
+    if (event.type.startsWith('0x1::coin::')) {
+      const owner = event.guid.account_address;
+      const handle = direction === 'deposit' ? 'deposit_events' : 'withdraw_events';
+      const store = changes.find(
+        (change) =>
+          change.type === 'write_resource' &&
+          sameAddress(change.address, owner) &&
+          change.data?.type.startsWith('0x1::coin::CoinStore<') &&
+          String(change.data.data?.[handle]?.guid?.id?.creation_num) === String(event.guid.creation_number)
+      );
+      if (!store) return null;
+      const assetType = store.data!.type.slice('0x1::coin::CoinStore<'.length, -1);
+      return { index, type: event.type, owner, direction, amount, assetType };
+    }
+
+    const storeAddress = event.data?.store;
+    if (!storeAddress) return null;
+    const fungibleStore = changes.find(
+      (change) =>
+        change.type === 'write_resource' &&
+        sameAddress(change.address, storeAddress) &&
+        change.data?.type === '0x1::fungible_asset::FungibleStore'
+    );
+    const assetType = fungibleStore?.data?.data?.metadata?.inner;
+    const owner = await this.getStoreOwner(storeAddress);
+    if (!assetType || !owner) return null;
+
+    return { index, type: event.type, owner, direction, amount, assetType };
+  }
+
+  private async decodeTokens(
+    address: string,
+    side: 'to' | 'from',
+    events: RawEvent[],
+    version: bigint
+  ): Promise<ChainEvent[]> {
+    const result: ChainEvent[] = [];
+
+    for (const [index, event] of events.entries()) {
+      if (OBJECT_TRANSFER_TYPES.includes(event.type)) {
+        const { object, from, to } = event.data ?? {};
+        if (!object || !sameAddress(side === 'to' ? to : from, address)) continue;
+
+        // Objects other than tokens are transferred the same way
+        const info = await this.getTokenInfo(object);
+        if (!info) continue;
+
+        result.push({
+          transactionVersion: version,
+          eventIndex: index,
+          type: event.type,
+          accountAddress: event.guid.account_address,
+          data: {},
+          token: {
+            tokenDataId: object,
+            tokenName: info.name,
+            collectionId: info.collectionId,
+            collectionName: info.collectionName,
+            creatorAddress: info.creatorAddress,
+            fromAddress: from,
+            toAddress: to,
+            amount: 1n,
+          },
+        });
+        continue;
+      }
+
+      // Token v1 moves as a withdraw from the sender and a deposit to the receiver
+      const direction = side === 'to' ? 'deposit' : 'withdraw';
+      if (!TOKEN_V1_TYPES[direction].includes(event.type)) continue;
+
+      const account = event.data?.account ?? event.guid.account_address;
+      if (!sameAddress(account, address)) continue;
+
+      const opposite = events.find(
+        (other) => TOKEN_V1_TYPES[direction === 'deposit' ? 'withdraw' : 'deposit'].includes(other.type)
+      );
+      const counterparty = opposite ? (opposite.data?.account ?? opposite.guid.account_address) : undefined;
+      const tokenData = event.data?.id?.token_data_id ?? {};
+
+      result.push({
+        transactionVersion: version,
+        eventIndex: index,
+        type: event.type,
+        accountAddress: event.guid.account_address,
+        data: {},
+        token: {
+          tokenDataId: `${tokenData.creator}::${tokenData.collection}::${tokenData.name}`,
+          tokenName: tokenData.name,
+          collectionName: tokenData.collection,
+          creatorAddress: tokenData.creator,
+          fromAddress: side === 'from' ? account : counterparty,
+          toAddress: side === 'to' ? account : counterparty,
+          amount: BigInt(event.data?.amount ?? 1),
+        },
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Decimals and symbol of a coin type or fungible asset metadata address
+   */
+  private async getAssetInfo(assetType: string): Promise<AssetInfo | null> {
+    if (this.assetInfo.has(assetType)) return this.assetInfo.get(assetType)!;
+
+    let info: AssetInfo | null = null;
+    try {
+      const resource = assetType.includes('::')
+        ? await this.aptos.getAccountResource({
+            accountAddress: assetType.split('::')[0],
+            resourceType: `0x1::coin::CoinInfo<${assetType}>`,
+          })
+        : await this.aptos.getAccountResource({
+            accountAddress: assetType,
+            resourceType: '0x1::fungible_asset::Metadata',
+          });
+      info = { decimals: Number(resource.decimals), symbol: resource.symbol };
+    } catch (error) {
+      console.warn(`Could not read metadata of asset ${assetType}:`, error);
+    }
+
+    this.assetInfo.set(assetType, info);
+    return info;
+  }
+
+  /**
+   * Name and collection of a token object, or null when the object is not a token
+   */
+  private async getTokenInfo(objectAddress: string): Promise<TokenInfo | null> {
+    if (this.tokenInfo.has(objectAddress)) return this.tokenInfo.get(objectAddress)!;
+
+    let info: TokenInfo | null = null;
+    try {
+      const token = await this.aptos.getAccountResource({
+        accountAddress: objectAddress,
+        resourceType: '0x4::token::Token',
+      });
+      const collectionId: string = token.collection.inner;
+      const collection = await this.aptos
+        .getAccountResource({ accountAddress: collectionId, resourceType: '0x4::collection::Collection' })
+        .catch(() => null);
+
+      info = {
+        name: token.name || undefined,
+        collectionId,
+        collectionName: collection?.name,
+        creatorAddress: collection?.creator,
+      };
+    } catch {
+      info = null;
+    }
+
+    this.tokenInfo.set(objectAddress, info);
+    return info;
+  }
+
+  private async getStoreOwner(storeAddress: string): Promise<string | null> {
+    if (this.storeOwners.has(storeAddress)) return this.storeOwners.get(storeAddress)!;
+
+    let owner: string | null = null;
+    try {
+      const core = await this.aptos.getAccountResource({
+        accountAddress: storeAddress,
+        resourceType: '0x1::object::ObjectCore',
+      });
+      owner = core.owner;
+    } catch {
+      owner = null;
+    }
+
+    this.storeOwners.set(storeAddress, owner);
+    return owner;
+  }
+}
+
+function sameAddress(a: string | undefined, b: string | undefined): boolean {
+  if (!a || !b) return false;
+  try {
+    return AccountAddress.from(a).equals(AccountAddress.from(b));
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,282 @@
+import type { Aptos } from '@aptos-labs/ts-sdk';
+import {
+  ASSET_ACTIVITY_TYPES,
+  type AssetDirection,
+  type ChainEvent,
+  type EventPage,
+  type EventPosition,
+  type EventSource,
+  type EventStream,
+} from '@/types/event.types.js';
+
+const ASSET_ACTIVITIES_QUERY = `
+  query AssetActivities($where: fungible_asset_activities_bool_exp, $limit: Int) {
+    fungible_asset_activities(
+      where: $where
+      order_by: [{ transaction_version: asc }, { event_index: asc }]
+      limit: $limit
+    ) {
+      transaction_version
+      event_index
+      type
+      owner_address
+      asset_type
+      amount
+      metadata {
+        decimals
+        symbol
+      }
+    }
+  }
+`;
+
+const TOKEN_ACTIVITIES_QUERY = `
+  query TokenActivities($where: token_activities_v2_bool_exp, $limit: Int) {
+    token_activities_v2(
+      where: $where
+      order_by: [{ transaction_version: asc }, { event_index: asc }]
+      limit: $limit
+    ) {
+      transaction_version
+      event_index
+      type
+      event_account_address
+      from_address
+      to_address
+      token_amount
+      token_data_id
+      current_token_data {
+        token_name
+        collection_id
+        current_collection {
+          collection_name
+          creator_address
+        }
+      }
+    }
+  }
+`;
+
+interface AssetActivityRow {
+  transaction_version: string | number;
+  event_index: string | number;
+  type: string;
+  owner_address: string | null;
+  asset_type: string | null;
+  amount: string | number | null;
+  metadata?: { decimals: number; symbol: string } | null;
+}
+
+interface TokenActivityRow {
+  transaction_version: string | number;
+  event_index: string | number;
+  type: string;
+  event_account_address: string;
+  from_address: string | null;
+  to_address: string | null;
+  token_amount: string | number | null;
+  token_data_id: string;
+  current_token_data?: {
+    token_name: string;
+    collection_id: string;
+    current_collection?: { collection_name: string; creator_address: string } | null;
+  } | null;
+}
+
+/**
+ * Reads event streams from the Aptos GraphQL indexer. The indexer trails
+ * the fullnode by a few seconds; new streams start after the last version
+ * it has processed.
+ */
+export class GraphqlEventSource implements EventSource {
+  readonly name = 'graphql';
+
+  constructor(private readonly aptos: Aptos) {}
+
+  async head(): Promise<EventPosition> {
+    const indexedVersion = await this.aptos.getIndexerLastSuccessVersion();
+    return { transactionVersion: indexedVersion + 1n, eventIndex: -1 };
+  }
+
+  async eventsAfter(stream: EventStream, after: EventPosition, limit: number): Promise<EventPage> {
+    const events = await this.fetch(stream, after, limit);
+    const last = events[events.length - 1];
+    return { events, next: last ?? after };
+  }
+
+  private async fetch(stream: EventStream, after: EventPosition, limit: number): Promise<ChainEvent[]> {
+    switch (stream.kind) {
+      case 'account_events':
+        return this.getAccountEventsAfter(stream.address, stream.creationNumber, after, limit);
+      case 'fungible_asset_activities':
+        return this.getAssetActivitiesAfter(stream.ownerAddress, stream.directions, after, limit);
+      case 'token_activities':
+        return this.getTokenActivitiesAfter(stream.address, stream.side, after, limit);
+    }
+  }
+
+  private async getAccountEventsAfter(
+    address: string,
+    creationNumber: number,
+    after: EventPosition,
+    limit: number
+  ): Promise<ChainEvent[]> {
+    const events = await this.aptos.getEvents({
+      options: {
+        where: {
+          account_address: { _eq: address },
+          creation_number: { _eq: creationNumber },
+          ...afterPosition(after),
+        },
+        orderBy: [{ transaction_version: 'asc' }, { event_index: 'asc' }],
+        limit,
+      },
+    });
+
+    return events.map((event) => ({
+      transactionVersion: BigInt(event.transaction_version),
+      eventIndex: Number(event.event_index),
+      type: event.type,
+      accountAddress: event.account_address,
+      data: {
+        ...(event.data ?? {}),
+        creationNumber: Number(event.creation_number),
+        sequenceNumber: String(event.sequence_number),
+      },
+    }));
+  }
+
+  /**
+   * Coin and fungible asset deposits/withdrawals of an owner, with the
+   * other party of each transfer looked up from the same transactions
+   */
+  private async getAssetActivitiesAfter(
+    ownerAddress: string,
+    directions: AssetDirection[],
+    after: EventPosition,
+    limit: number
+  ): Promise<ChainEvent[]> {
+    const types = directions.flatMap((direction) => ASSET_ACTIVITY_TYPES[direction]);
+    const { fungible_asset_activities: activities } = await this.aptos.queryIndexer<{
+      fungible_asset_activities: AssetActivityRow[];
+    }>({
+      query: {
+        query: ASSET_ACTIVITIES_QUERY,
+        variables: {
+          where: {
+            owner_address: { _eq: ownerAddress },
+            type: { _in: types },
+            is_transaction_success: { _eq: true },
+            ...afterPosition(after),
+          },
+          limit,
+        },
+      },
+    });
+    if (activities.length === 0) return [];
+
+    const versions = [...new Set(activities.map((activity) => String(activity.transaction_version)))];
+    const { fungible_asset_activities: related } = await this.aptos.queryIndexer<{
+      fungible_asset_activities: AssetActivityRow[];
+    }>({
+      query: {
+        query: ASSET_ACTIVITIES_QUERY,
+        variables: {
+          where: {
+            transaction_version: { _in: versions },
+            type: { _in: [...ASSET_ACTIVITY_TYPES.deposit, ...ASSET_ACTIVITY_TYPES.withdraw] },
+            owner_address: { _neq: ownerAddress },
+          },
+        },
+      },
+    });
+
+    return activities.map((activity) => {
+      const direction = directionOf(activity.type)!;
+      const counterparty = related.find(
+        (other) =>
+          String(other.transaction_version) === String(activity.transaction_version) &&
+          other.asset_type === activity.asset_type &&
+          directionOf(other.type) !== direction
+      );
+
+      return {
+        transactionVersion: BigInt(activity.transaction_version),
+        eventIndex: Number(activity.event_index),
+        type: activity.type,
+        accountAddress: ownerAddress,
+        data: {},
+        transfer: {
+          direction,
+          amount: BigInt(activity.amount ?? 0),
+          assetType: activity.asset_type ?? '',
+          decimals: activity.metadata?.decimals,
+          symbol: activity.metadata?.symbol,
+          counterparty: counterparty?.owner_address ?? undefined,
+        },
+      };
+    });
+  }
+
+  /**
+   * NFT movements (token v1 and v2) to or from an address
+   */
+  private async getTokenActivitiesAfter(
+    address: string,
+    side: 'to' | 'from',
+    after: EventPosition,
+    limit: number
+  ): Promise<ChainEvent[]> {
+    const { token_activities_v2: activities } = await this.aptos.queryIndexer<{
+      token_activities_v2: TokenActivityRow[];
+    }>({
+      query: {
+        query: TOKEN_ACTIVITIES_QUERY,
+        variables: {
+          where: {
+            [side === 'to' ? 'to_address' : 'from_address']: { _eq: address },
+            ...afterPosition(after),
+          },
+          limit,
+        },
+      },
+    });
+
+    return activities.map((activity) => ({
+      transactionVersion: BigInt(activity.transaction_version),
+      eventIndex: Number(activity.event_index),
+      type: activity.type,
+      accountAddress: activity.event_account_address,
+      data: {},
+      token: {
+        tokenDataId: activity.token_data_id,
+        tokenName: activity.current_token_data?.token_name,
+        collectionId: activity.current_token_data?.collection_id,
+        collectionName: activity.current_token_data?.current_collection?.collection_name,
+        creatorAddress: activity.current_token_data?.current_collection?.creator_address,
+        fromAddress: activity.from_address ?? undefined,
+        toAddress: activity.to_address ?? undefined,
+        amount: BigInt(activity.token_amount ?? 1),
+      },
+    }));
+  }
+}
+
+/**
+ * Indexer filter for rows strictly after a position
+ */
+function afterPosition(after: EventPosition) {
+  const version = after.transactionVersion.toString();
+  return {
+    _or: [
+      { transaction_version: { _gt: version } },
+      { transaction_version: { _eq: version }, event_index: { _gt: after.eventIndex } },
+    ],
+  };
+}
+
+function directionOf(type: string): AssetDirection | null {
+  if (ASSET_ACTIVITY_TYPES.deposit.includes(type)) return 'deposit';
+  if (ASSET_ACTIVITY_TYPES.withdraw.includes(type)) return 'withdraw';
+  return null;
+}
@@ -0,0 +1,26 @@
+import { aptosService } from '@/services/aptos.service.js';
+import { config } from '@/config/index.js';
+import type { EventSource } from '@/types/event.types.js';
+import { GraphqlEventSource } from './graphql.source.js';
+import { FullnodeEventSource } from './fullnode.source.js';
+import { FixtureEventSource } from './fixture.source.js';
+
+export { GraphqlEventSource, FullnodeEventSource, FixtureEventSource };
+export type { FixtureRecord } from './fixture.source.js';
+
+/**
+ * Event source selected by EVENT_SOURCE
+ */
+export function createEventSource(): EventSource {
+  switch (config.eventSource) {
+    case 'fullnode':
+      return new FullnodeEventSource(aptosService.client, config.eventSourceScanTransactions);
+    case 'fixture':
+      if (!config.eventFixturePath) {
+        throw new Error('EVENT_FIXTURE_PATH is required when EVENT_SOURCE=fixture');
+      }
+      return FixtureEventSource.fromFile(config.eventFixturePath);
+    case 'graphql':
+      return new GraphqlEventSource(aptosService.client);
+  }
+}
@@ -0,0 +1,65 @@
+import { aptosService } from '@/services/aptos.service.js';
+import { DEFAULT_ORACLE_PROVIDER, PriceOracleService, priceOracleService } from '@/services/price-oracle.service.js';
+import { checkExpression, evaluateExpression, parseExpression } from '@/services/expression/index.js';
+import { ExpressionError } from '@/utils/expression-errors.js';
+import type { CompiledExpression, ExpressionValue, ExpressionVariables } from '@/types/expression.types.js';
+
+/**
+ * Custom condition expressions: a small language of arithmetic,
+ * comparisons and && / || over the variables balance.<TOKEN> (whole
+ * tokens held by the executor), price.<TOKEN> (USD), now and
+ * trigger.<field> (what fired the run, e.g. trigger.event.amount).
+ * Expressions are parsed and evaluated by the backend; nothing is passed
+ * to eval.
+ */
+export class ExpressionService {
+  constructor(private readonly oracle: PriceOracleService = priceOracleService) {}
+
+  /**
+   * Parse and type-check an expression. Throws an ExpressionError (400)
+   * pointing at the first problem.
+   */
+  compile(source: string): CompiledExpression {
+    const ast = parseExpression(source);
+    const { type, balances, prices } = checkExpression(ast, source);
+    return { source, ast, type, balances, prices };
+  }
+
+  /**
+   * Compile an expression used as a condition, which has to be true or false
+   */
+  compileCondition(source: string): CompiledExpression {
+    const compiled = this.compile(source);
+    if (compiled.type !== 'boolean' && compiled.type !== 'any') {
+      throw new ExpressionError(`Condition must be true or false, but this expression is a ${compiled.type}`, source, 0);
+    }
+    return compiled;
+  }
+
+  evaluate(compiled: CompiledExpression, variables: ExpressionVariables): ExpressionValue {
+    return evaluateExpression(compiled.ast, compiled.source, variables);
+  }
+
+  /**
+   * Read the balances and prices an expression uses from the chain and the
+   * default oracle
+   */
+  async liveVariables(
+    compiled: CompiledExpression,
+    context: { ownerAddress: string; now: Date; timezone: string; trigger?: unknown }
+  ): Promise<ExpressionVariables> {
+    const balance = compiled.balances.length > 0 ? await aptosService.getTokenBalances(context.ownerAddress) : {};
+    for (const symbol of compiled.balances) {
+      balance[symbol] ??= 0;
+    }
+
+    const price: Record<string, number> = {};
+    for (const symbol of compiled.prices) {
+      price[symbol] = (await this.oracle.getPrice(DEFAULT_ORACLE_PROVIDER, symbol)).price;
+    }
+
+    return { balance, price, now: context.now, trigger: context.trigger, timezone: context.timezone };
+  }
+}
+
+export const expressionService = new ExpressionService();
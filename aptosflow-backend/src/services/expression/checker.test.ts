@@ -0,0 +1,49 @@
+import { describe, expect, it } from '@jest/globals';
+import { checkExpression } from '@/services/expression/checker.js';
+import { parseExpression } from '@/services/expression/parser.js';
+
+const check = (source: string) => checkExpression(parseExpression(source), source);
+
+describe('checkExpression', () => {
+  it('collects the balances and prices an expression reads', () => {
+    expect(check('balance.apt > 10 && price.APT >= 8.5 || balance.USDC > 0')).toEqual({
+      type: 'boolean',
+      balances: ['APT', 'USDC'],
+      prices: ['APT'],
+    });
+  });
+
+  it('types time arithmetic in seconds', () => {
+    expect(check('now - time("2026-01-01T00:00")').type).toBe('number');
+    expect(check('now + 3600').type).toBe('time');
+    expect(check('now + 3600 > now').type).toBe('boolean');
+    expect(check('hour(now) >= 9').type).toBe('boolean');
+  });
+
+  it('leaves trigger fields to be checked when evaluated', () => {
+    expect(check('trigger.event.amount').type).toBe('any');
+    expect(check('trigger.event.amount > 5').type).toBe('boolean');
+    expect(check('trigger.event.amount + 1').type).toBe('any');
+  });
+
+  it('rejects operators applied to the wrong types at the operator', () => {
+    expect(() => check('1 + true')).toThrow("'+' cannot be applied to number and boolean at column 3");
+    expect(() => check('"a" - "b"')).toThrow("'-' cannot be applied to string and string at column 5");
+    expect(() => check('now < 5')).toThrow("'<' cannot be applied to time and number at column 5");
+    expect(() => check('!balance.APT')).toThrow("'!' cannot be applied to number at column 1");
+  });
+
+  it('rejects unknown variables and variables without a token', () => {
+    expect(() => check('1 + wallet.APT')).toThrow(/^Unknown variable 'wallet.APT'; use balance.*at column 5$/);
+    expect(() => check('balance > 1')).toThrow('balance needs a token, e.g. balance.APT at column 1');
+    expect(() => check('trigger > 1')).toThrow(/^Unknown variable 'trigger'/);
+  });
+
+  it('checks function names, arity and argument types', () => {
+    expect(() => check('sqrt(4)')).toThrow(/^Unknown function 'sqrt'; available: abs, round/);
+    expect(() => check('abs(1, 2)')).toThrow('abs() takes 1 argument, got 2 at column 1');
+    expect(() => check('min(1)')).toThrow('min() takes at least 2 arguments, got 1 at column 1');
+    expect(() => check('1 + hour(5)')).toThrow('Argument 1 of hour() must be time, not number at column 10');
+    expect(check('max(1, 2, trigger.amount)').type).toBe('number');
+  });
+});
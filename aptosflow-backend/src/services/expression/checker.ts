@@ -0,0 +1,159 @@
+import { ExpressionError } from '@/utils/expression-errors.js';
+import { EXPRESSION_FUNCTIONS } from './functions.js';
+import type { BinaryOperator, ExpressionNode, ExpressionType, UnaryOperator } from '@/types/expression.types.js';
+
+export const VARIABLE_HELP = 'use balance.<TOKEN>, price.<TOKEN>, now or trigger.<field>';
+
+export interface CheckResult {
+  type: ExpressionType;
+  balances: string[];
+  prices: string[];
+}
+
+/**
+ * Infer the type of a parsed expression, rejecting operators applied to
+ * the wrong types and unknown variables or functions. Trigger fields are
+ * `any` and are checked when the expression is evaluated.
+ */
+export function checkExpression(ast: ExpressionNode, source: string): CheckResult {
+  const balances = new Set<string>();
+  const prices = new Set<string>();
+
+  const check = (node: ExpressionNode): ExpressionType => {
+    switch (node.kind) {
+      case 'literal':
+        return typeof node.value as 'number' | 'string' | 'boolean';
+
+      case 'variable': {
+        const [root, ...fields] = node.path;
+        if ((root === 'balance' || root === 'price') && fields.length === 1) {
+          (root === 'balance' ? balances : prices).add(fields[0].toUpperCase());
+          return 'number';
+        }
+        if (root === 'now' && fields.length === 0) return 'time';
+        if (root === 'trigger' && fields.length > 0) return 'any';
+
+        throw new ExpressionError(
+          root === 'balance' || root === 'price'
+            ? `${root} needs a token, e.g. ${root}.APT`
+            : `Unknown variable '${node.path.join('.')}'; ${VARIABLE_HELP}`,
+          source,
+          node.position
+        );
+      }
+
+      case 'unary': {
+        const operand = check(node.operand);
+        const type = unaryType(node.operator, operand);
+        if (!type) {
+          throw new ExpressionError(`'${node.operator}' cannot be applied to ${operand}`, source, node.position);
+        }
+        return type;
+      }
+
+      case 'binary': {
+        const left = check(node.left);
+        const right = check(node.right);
+        const type = binaryType(node.operator, left, right);
+        if (!type) {
+          throw new ExpressionError(
+            `'${node.operator}' cannot be applied to ${left} and ${right}`,
+            source,
+            node.position
+          );
+        }
+        return type;
+      }
+
+      case 'call': {
+        const fn = EXPRESSION_FUNCTIONS[node.name];
+        if (!fn) {
+          throw new ExpressionError(
+            `Unknown function '${node.name}'; available: ${Object.keys(EXPRESSION_FUNCTIONS).join(', ')}`,
+            source,
+            node.position
+          );
+        }
+
+        const arity = fn.variadic ? `at least ${fn.params.length}` : `${fn.params.length}`;
+        if (node.args.length < fn.params.length || (!fn.variadic && node.args.length > fn.params.length)) {
+          throw new ExpressionError(
+            `${node.name}() takes ${arity} argument${fn.params.length === 1 ? '' : 's'}, got ${node.args.length}`,
+            source,
+            node.position
+          );
+        }
+
+        node.args.forEach((arg, i) => {
+          const expected = fn.params[Math.min(i, fn.params.length - 1)];
+          const actual = check(arg);
+          if (actual !== expected && actual !== 'any') {
+            throw new ExpressionError(
+              `Argument ${i + 1} of ${node.name}() must be ${expected}, not ${actual}`,
+              source,
+              arg.position
+            );
+          }
+        });
+        return fn.returns;
+      }
+    }
+  };
+
+  const type = check(ast);
+  return { type, balances: [...balances], prices: [...prices] };
+}
+
+/**
+ * Result type of a unary operator, or null when it does not apply
+ */
+export function unaryType(operator: UnaryOperator, operand: ExpressionType): ExpressionType | null {
+  const wanted = operator === '-' ? 'number' : 'boolean';
+  return operand === wanted || operand === 'any' ? wanted : null;
+}
+
+/**
+ * Result type of a binary operator, or null when it does not apply. Times
+ * take and produce seconds: `now - time("…")` is a number of seconds and
+ * `now + 3600` a time.
+ */
+export function binaryType(operator: BinaryOperator, left: ExpressionType, right: ExpressionType): ExpressionType | null {
+  const either = (type: ExpressionType) => left === type || right === type;
+  const any = either('any');
+
+  switch (operator) {
+    case '&&':
+    case '||':
+      return [left, right].every((t) => t === 'boolean' || t === 'any') ? 'boolean' : null;
+
+    case '==':
+    case '!=':
+      return left === right || any ? 'boolean' : null;
+
+    case '<':
+    case '<=':
+    case '>':
+    case '>=':
+      if (either('boolean')) return null;
+      return left === right || any ? 'boolean' : null;
+
+    case '+':
+      if (left === 'number' && right === 'number') return 'number';
+      if (left === 'string' && right === 'string') return 'string';
+      if ((left === 'time' && right === 'number') || (left === 'number' && right === 'time')) return 'time';
+      if (any && !either('boolean')) return 'any';
+      return null;
+
+    case '-':
+      if (left === 'number' && right === 'number') return 'number';
+      if (left === 'time' && right === 'time') return 'number';
+      if (left === 'time' && right === 'number') return 'time';
+      if (any && !either('boolean') && !either('string')) return 'any';
+      return null;
+
+    case '*':
+    case '/':
+    case '%':
+      return [left, right].every((t) => t === 'number' || t === 'any') ? 'number' : null;
+  }
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from '@jest/globals';
+import { checkExpression } from '@/services/expression/checker.js';
+import { evaluateExpression } from '@/services/expression/evaluator.js';
+import { parseExpression } from '@/services/expression/parser.js';
+import type { ExpressionVariables } from '@/types/expression.types.js';
+
+const variables: ExpressionVariables = {
+  balance: { APT: 12 },
+  price: { APT: 8.5 },
+  now: new Date('2026-03-01T12:00:00Z'),
+  trigger: { amount: 5, label: 'deposit', event: { sender: '0x1' }, matched: ['coin type is APT'] },
+  timezone: 'UTC',
+};
+
+/**
+ * Parse, type-check and evaluate, as expressionService does
+ */
+function evaluate(source: string, overrides: Partial<ExpressionVariables> = {}) {
+  const ast = parseExpression(source);
+  checkExpression(ast, source);
+  return evaluateExpression(ast, source, { ...variables, ...overrides });
+}
+
+describe('evaluateExpression', () => {
+  it('follows operator precedence', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('10 - 4 - 3')).toBe(3);
+    expect(evaluate('-2 * 3 + 7 % 4')).toBe(-3);
+    expect(evaluate('true || false && false')).toBe(true);
+    expect(evaluate('!false && false')).toBe(false);
+    expect(evaluate('balance.APT * price.APT > 100 and price.apt < 9')).toBe(true);
+  });
+
+  describe('short-circuit', () => {
+    it('skips the right side of && when the left is false', () => {
+      expect(evaluate('false && trigger.missing > 1')).toBe(false);
+    });
+
+    it('skips the right side of || when the left is true', () => {
+      expect(evaluate('true || trigger.missing > 1')).toBe(true);
+    });
+
+    it('evaluates the right side when it decides the result', () => {
+      expect(() => evaluate('true && trigger.missing > 1')).toThrow('trigger.missing is not set for this run at column 9');
+      expect(() => evaluate('false || trigger.missing > 1')).toThrow(/trigger.missing is not set/);
+    });
+  });
+
+  describe('time arithmetic', () => {
+    it('subtracts times into seconds', () => {
+      expect(evaluate('now - time("2026-03-01T11:00:00Z")')).toBe(3600);
+    });
+
+    it('adds seconds to a time', () => {
+      expect(evaluate('now + 3600')).toEqual(new Date('2026-03-01T13:00:00Z'));
+      expect(evaluate('3600 + now')).toEqual(new Date('2026-03-01T13:00:00Z'));
+      expect(evaluate('now - 60')).toEqual(new Date('2026-03-01T11:59:00Z'));
+    });
+
+    it('compares times', () => {
+      expect(evaluate('now + 1 > now')).toBe(true);
+      expect(evaluate('now == time("2026-03-01T12:00")')).toBe(true);
+    });
+
+    it('reads local times in the workflow time zone', () => {
+      const zoned = { timezone: 'America/New_York' };
+
+      expect(evaluate('hour(now)', zoned)).toBe(7);
+      expect(evaluate('now - time("2026-03-01T06:00")', zoned)).toBe(3600);
+      expect(evaluate('weekday(now)', zoned)).toBe(0);
+    });
+  });
+
+  it('refuses to divide by zero, pointing at the operator', () => {
+    expect(() => evaluate('1 / 0')).toThrow('Division by zero at column 3');
+    expect(() => evaluate('5 % (balance.APT - 12)')).toThrow('Division by zero at column 3');
+  });
+
+  describe('trigger fields', () => {
+    it('reads values, including list items by index', () => {
+      expect(evaluate('trigger.amount > 4 && trigger.event.sender == "0x1"')).toBe(true);
+      expect(evaluate('trigger.matched.0 == "coin type is APT"')).toBe(true);
+    });
+
+    it('rejects operators applied to the wrong types when evaluated', () => {
+      expect(() => evaluate('trigger.label + 1')).toThrow("'+' cannot be applied to string and number at column 15");
+      expect(() => evaluate('trigger.label > 1')).toThrow("'>' cannot be applied to string and number at column 15");
+      expect(() => evaluate('-trigger.label')).toThrow("'-' cannot be applied to string at column 1");
+      expect(() => evaluate('trigger.amount && true')).toThrow("'&&' cannot be applied to number at column 16");
+      expect(() => evaluate('abs(trigger.label)')).toThrow('Argument 1 of abs() must be number, not string at column 5');
+    });
+
+    it('rejects objects, lists and missing fields', () => {
+      expect(() => evaluate('trigger.event == 1')).toThrow('trigger.event is an object, not a value at column 1');
+      expect(() => evaluate('trigger.matched == 1')).toThrow('trigger.matched is a list, not a value at column 1');
+      expect(() => evaluate('trigger.amount.value > 1')).toThrow('trigger.amount.value is not set for this run');
+      expect(() => evaluate('trigger.amount > 1', { trigger: undefined })).toThrow(/trigger.amount is not set/);
+    });
+  });
+
+  it('rejects balances and prices that were not read', () => {
+    expect(() => evaluate('balance.BTC > 0')).toThrow('balance.BTC is not available at column 1');
+  });
+
+  it('reports function failures at the call', () => {
+    expect(() => evaluate('1 + hour(time("yesterday")) > 0')).toThrow(
+      "'yesterday' is not an ISO 8601 date and time at column 10"
+    );
+  });
+});
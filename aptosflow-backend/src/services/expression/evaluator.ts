@@ -0,0 +1,147 @@
+import { ExpressionError } from '@/utils/expression-errors.js';
+import { EXPRESSION_FUNCTIONS } from './functions.js';
+import { binaryType, unaryType } from './checker.js';
+import type {
+  ExpressionNode,
+  ExpressionType,
+  ExpressionValue,
+  ExpressionVariables,
+} from '@/types/expression.types.js';
+
+/**
+ * Evaluate a type-checked expression. Trigger fields are checked here,
+ * with the same rules the checker applies to literal types. `&&` and `||`
+ * only evaluate their right side when it decides the result.
+ */
+export function evaluateExpression(
+  ast: ExpressionNode,
+  source: string,
+  variables: ExpressionVariables
+): ExpressionValue {
+  const fail = (message: string, node: ExpressionNode): never => {
+    throw new ExpressionError(message, source, node.position);
+  };
+
+  const evaluate = (node: ExpressionNode): ExpressionValue => {
+    switch (node.kind) {
+      case 'literal':
+        return node.value;
+
+      case 'variable':
+        return lookup(node, variables, fail);
+
+      case 'unary': {
+        const operand = evaluate(node.operand);
+        if (!unaryType(node.operator, typeOf(operand))) {
+          fail(`'${node.operator}' cannot be applied to ${typeOf(operand)}`, node);
+        }
+        return node.operator === '-' ? -(operand as number) : !operand;
+      }
+
+      case 'binary': {
+        const left = evaluate(node.left);
+
+        if (node.operator === '&&' || node.operator === '||') {
+          if (typeof left !== 'boolean') fail(`'${node.operator}' cannot be applied to ${typeOf(left)}`, node);
+          if (node.operator === '&&' ? !left : left) return left;
+
+          const right = evaluate(node.right);
+          if (typeof right !== 'boolean') fail(`'${node.operator}' cannot be applied to ${typeOf(right)}`, node);
+          return right;
+        }
+
+        const right = evaluate(node.right);
+        if (!binaryType(node.operator, typeOf(left), typeOf(right))) {
+          fail(`'${node.operator}' cannot be applied to ${typeOf(left)} and ${typeOf(right)}`, node);
+        }
+
+        const a = left instanceof Date ? left.getTime() / 1000 : left;
+        const b = right instanceof Date ? right.getTime() / 1000 : right;
+
+        switch (node.operator) {
+          case '==':
+            return a === b;
+          case '!=':
+            return a !== b;
+          case '<':
+            return a < b;
+          case '<=':
+            return a <= b;
+          case '>':
+            return a > b;
+          case '>=':
+            return a >= b;
+          case '+': {
+            const sum = typeof a === 'string' ? a + b : (a as number) + (b as number);
+            return left instanceof Date || right instanceof Date ? new Date((sum as number) * 1000) : sum;
+          }
+          case '-': {
+            const difference = (a as number) - (b as number);
+            return left instanceof Date && !(right instanceof Date) ? new Date(difference * 1000) : difference;
+          }
+          case '*':
+            return (a as number) * (b as number);
+          case '/':
+          case '%':
+            if (b === 0) fail('Division by zero', node);
+            return node.operator === '/' ? (a as number) / (b as number) : (a as number) % (b as number);
+        }
+      }
+
+      case 'call': {
+        const fn = EXPRESSION_FUNCTIONS[node.name];
+        const args = node.args.map(evaluate);
+
+        args.forEach((arg, i) => {
+          const expected = fn.params[Math.min(i, fn.params.length - 1)];
+          if (typeOf(arg) !== expected) {
+            fail(`Argument ${i + 1} of ${node.name}() must be ${expected}, not ${typeOf(arg)}`, node.args[i]);
+          }
+        });
+
+        try {
+          return fn.apply(args, variables);
+        } catch (error) {
+          return fail(error instanceof Error ? error.message : String(error), node);
+        }
+      }
+    }
+  };
+
+  return evaluate(ast);
+}
+
+function lookup(
+  node: Extract<ExpressionNode, { kind: 'variable' }>,
+  variables: ExpressionVariables,
+  fail: (message: string, node: ExpressionNode) => never
+): ExpressionValue {
+  const [root, ...fields] = node.path;
+  const name = node.path.join('.');
+
+  if (root === 'now') return variables.now;
+
+  if (root === 'balance' || root === 'price') {
+    const value = variables[root][fields[0].toUpperCase()];
+    return typeof value === 'number' ? value : fail(`${name} is not available`, node);
+  }
+
+  let value: unknown = variables.trigger;
+  for (const field of fields) {
+    value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[field] : undefined;
+  }
+
+  if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') {
+    return value;
+  }
+  return fail(
+    value === undefined || value === null
+      ? `${name} is not set for this run`
+      : `${name} is ${Array.isArray(value) ? 'a list' : 'an object'}, not a value`,
+    node
+  );
+}
+
+function typeOf(value: ExpressionValue): ExpressionType {
+  return value instanceof Date ? 'time' : (typeof value as 'number' | 'string' | 'boolean');
+}
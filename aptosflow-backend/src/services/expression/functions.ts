@@ -0,0 +1,38 @@
+import { parseZonedTime, wallClock } from '@/utils/timezone.js';
+import type { ExpressionType, ExpressionValue, ExpressionVariables } from '@/types/expression.types.js';
+
+export interface ExpressionFunction {
+  params: ExpressionType[];
+  /** The last parameter repeats */
+  variadic?: boolean;
+  returns: ExpressionType;
+  apply(args: ExpressionValue[], variables: ExpressionVariables): ExpressionValue;
+}
+
+/**
+ * Functions callable from expressions. Times are read in the workflow's
+ * time zone; weekday() is 0 for Sunday.
+ */
+export const EXPRESSION_FUNCTIONS: Record<string, ExpressionFunction> = {
+  abs: { params: ['number'], returns: 'number', apply: ([n]) => Math.abs(n as number) },
+  round: { params: ['number'], returns: 'number', apply: ([n]) => Math.round(n as number) },
+  floor: { params: ['number'], returns: 'number', apply: ([n]) => Math.floor(n as number) },
+  ceil: { params: ['number'], returns: 'number', apply: ([n]) => Math.ceil(n as number) },
+  min: { params: ['number', 'number'], variadic: true, returns: 'number', apply: (args) => Math.min(...(args as number[])) },
+  max: { params: ['number', 'number'], variadic: true, returns: 'number', apply: (args) => Math.max(...(args as number[])) },
+  time: {
+    params: ['string'],
+    returns: 'time',
+    apply: ([value], { timezone }) => parseZonedTime(value as string, timezone),
+  },
+  hour: { params: ['time'], returns: 'number', apply: ([t], { timezone }) => wallClock(t as Date, timezone).hour },
+  minute: { params: ['time'], returns: 'number', apply: ([t], { timezone }) => wallClock(t as Date, timezone).minute },
+  weekday: {
+    params: ['time'],
+    returns: 'number',
+    apply: ([t], { timezone }) => {
+      const { year, month, day } = wallClock(t as Date, timezone);
+      return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+    },
+  },
+};
@@ -0,0 +1,4 @@
+export { parseExpression, MAX_EXPRESSION_LENGTH } from './parser.js';
+export { checkExpression, VARIABLE_HELP } from './checker.js';
+export { evaluateExpression } from './evaluator.js';
+export { EXPRESSION_FUNCTIONS } from './functions.js';
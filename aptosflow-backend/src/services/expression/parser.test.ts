@@ -0,0 +1,138 @@
+import { describe, expect, it } from '@jest/globals';
+import { parseExpression, MAX_EXPRESSION_LENGTH } from '@/services/expression/parser.js';
+import { ExpressionError } from '@/utils/expression-errors.js';
+
+/**
+ * The ExpressionError parsing `source` throws
+ */
+function parseError(source: string): ExpressionError {
+  try {
+    parseExpression(source);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ExpressionError);
+    return error as ExpressionError;
+  }
+  throw new Error(`Expected '${source}' not to parse`);
+}
+
+describe('parseExpression', () => {
+  describe('precedence', () => {
+    it('binds * tighter than +', () => {
+      expect(parseExpression('1 + 2 * 3')).toMatchObject({
+        kind: 'binary',
+        operator: '+',
+        left: { kind: 'literal', value: 1 },
+        right: { kind: 'binary', operator: '*' },
+      });
+    });
+
+    it('binds && tighter than ||', () => {
+      expect(parseExpression('a.x || b.x && c.x')).toMatchObject({
+        operator: '||',
+        right: { operator: '&&' },
+      });
+    });
+
+    it('binds comparisons tighter than && and looser than arithmetic', () => {
+      expect(parseExpression('balance.APT + 1 > 10 && price.APT <= 8.5')).toMatchObject({
+        operator: '&&',
+        left: { operator: '>', left: { operator: '+' } },
+        right: { operator: '<=', left: { kind: 'variable', path: ['price', 'APT'] } },
+      });
+    });
+
+    it('associates arithmetic to the left', () => {
+      expect(parseExpression('10 - 4 - 3')).toMatchObject({
+        operator: '-',
+        left: { operator: '-', left: { value: 10 }, right: { value: 4 } },
+        right: { value: 3 },
+      });
+    });
+
+    it('lets parentheses override precedence', () => {
+      expect(parseExpression('(1 + 2) * 3')).toMatchObject({ operator: '*', left: { operator: '+' } });
+    });
+
+    it('reads and, or and not as operators except after a dot', () => {
+      expect(parseExpression('not trigger.event.and or true')).toMatchObject({
+        operator: '||',
+        left: { kind: 'unary', operator: '!', operand: { kind: 'variable', path: ['trigger', 'event', 'and'] } },
+      });
+    });
+  });
+
+  describe('chained comparisons', () => {
+    it('rejects a < b < c', () => {
+      const error = parseError('1 < 2 < 3');
+      expect(error.message).toBe('Comparisons cannot be chained; combine them with && at column 7');
+    });
+
+    it('rejects chained equality', () => {
+      expect(parseError('1 == 1 == true').message).toMatch(/^Comparisons cannot be chained/);
+    });
+
+    it('allows comparisons joined with &&', () => {
+      expect(parseExpression('1 < 2 && 2 < 3')).toMatchObject({ operator: '&&' });
+    });
+  });
+
+  describe('depth limit', () => {
+    const nested = (depth: number) => '('.repeat(depth) + '1' + ')'.repeat(depth);
+
+    it('allows 50 nested parentheses and rejects 51', () => {
+      expect(() => parseExpression(nested(50))).not.toThrow();
+      expect(parseError(nested(51)).message).toMatch(/^Expression is nested too deeply/);
+    });
+
+    it('allows 50 unary operators and rejects 51', () => {
+      expect(() => parseExpression('-'.repeat(50) + '1')).not.toThrow();
+      expect(parseError('!'.repeat(51) + 'true').message).toMatch(/^Expression is nested too deeply/);
+    });
+
+    it('counts call arguments as a level', () => {
+      const calls = (depth: number) => 'abs('.repeat(depth) + '1' + ')'.repeat(depth);
+
+      expect(() => parseExpression(calls(50))).not.toThrow();
+      expect(parseError(calls(51)).message).toMatch(/^Expression is nested too deeply/);
+    });
+
+    it('does not count long flat chains of binary operators', () => {
+      const chain = Array.from({ length: 400 }, () => 'a').join('+');
+
+      expect(chain.length).toBeLessThanOrEqual(MAX_EXPRESSION_LENGTH);
+      expect(() => parseExpression(chain)).not.toThrow();
+      expect(() => parseExpression(Array.from({ length: 100 }, () => 'true').join(' && '))).not.toThrow();
+    });
+  });
+
+  describe('error positions', () => {
+    it('points at the end of a truncated expression', () => {
+      const error = parseError('balance.APT > ');
+      expect(error.message).toBe('Expression ended unexpectedly at column 15');
+      expect(error.details).toEqual({ expression: 'balance.APT > ', position: 14, column: 15 });
+    });
+
+    it('points at an unexpected character', () => {
+      expect(parseError('1 # 2').message).toBe("Unexpected character '#' at column 3");
+    });
+
+    it('points at the missing ) and names the ( it closes', () => {
+      expect(parseError('abs(1 + (2').message).toBe(
+        "Unclosed '(' from column 9: expected ')' but found end of expression at column 11"
+      );
+    });
+
+    it('points at the start of an unterminated string', () => {
+      expect(parseError('trigger.x == "abc').message).toBe('Unterminated string at column 14');
+    });
+
+    it('points at a token left over after the expression', () => {
+      expect(parseError('1 2').message).toBe("Unexpected '2' at column 3");
+    });
+
+    it('rejects expressions over the length limit', () => {
+      const error = parseError('1+'.repeat(MAX_EXPRESSION_LENGTH) + '1');
+      expect(error.message).toMatch(/^Expression is longer than 1000 characters/);
+    });
+  });
+});
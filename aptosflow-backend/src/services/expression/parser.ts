@@ -0,0 +1,268 @@
+import { ExpressionError } from '@/utils/expression-errors.js';
+import type { BinaryOperator, ExpressionNode } from '@/types/expression.types.js';
+
+export const MAX_EXPRESSION_LENGTH = 1000;
+// Bounds nested parentheses, call arguments and unary operators, and with
+// them recursion in the parser, checker and evaluator
+const MAX_DEPTH = 50;
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'identifier'; value: string; position: number }
+  | { kind: 'operator'; value: string; position: number }
+  | { kind: 'end'; position: number };
+
+// Longest first, so "<=" is not read as "<" then "="
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '+', '-', '*', '/', '%', '<', '>', '!', '(', ')', ',', '.'];
+
+const KEYWORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+
+// Binary operators by precedence, loosest first
+const PRECEDENCE: BinaryOperator[][] = [
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+/**
+ * Parse an expression such as `balance.APT > 10 && price.APT >= 8.5`.
+ * Throws an ExpressionError pointing at the first problem.
+ */
+export function parseExpression(source: string): ExpressionNode {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`, source, MAX_EXPRESSION_LENGTH);
+  }
+
+  const parser = new Parser(source, tokenize(source));
+  const ast = parser.expression(0, 0);
+  parser.expectEnd();
+  return ast;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly source: string,
+    private readonly tokens: Token[]
+  ) {}
+
+  expression(level: number, depth: number): ExpressionNode {
+    if (depth > MAX_DEPTH) {
+      throw this.error('Expression is nested too deeply', this.peek());
+    }
+    if (level === PRECEDENCE.length) {
+      return this.unary(depth);
+    }
+
+    // Precedence levels do not nest anything; only (, calls and unary operators count as depth
+    let left = this.expression(level + 1, depth);
+    for (;;) {
+      const token = this.peek();
+      const operator = PRECEDENCE[level].find((op) => this.isOperator(token, op));
+      if (!operator) return left;
+
+      this.index++;
+      // Comparisons do not chain: `a < b < c` is an error rather than `(a < b) < c`
+      const right = this.expression(level + 1, depth);
+      left = { kind: 'binary', operator, left, right, position: token.position };
+      if (level === 2 || level === 3) {
+        const next = this.peek();
+        if (PRECEDENCE[level].some((op) => this.isOperator(next, op))) {
+          throw this.error('Comparisons cannot be chained; combine them with &&', next);
+        }
+        return left;
+      }
+    }
+  }
+
+  expectEnd() {
+    const token = this.peek();
+    if (token.kind !== 'end') {
+      throw this.error(`Unexpected ${describe(token)}`, token);
+    }
+  }
+
+  private unary(depth: number): ExpressionNode {
+    const token = this.peek();
+    if (token.kind === 'operator' && (token.value === '-' || token.value === '!')) {
+      this.index++;
+      // The operand is one level deeper, as inside a '('
+      if (depth + 1 > MAX_DEPTH) {
+        throw this.error('Expression is nested too deeply', token);
+      }
+      const operand = this.unary(depth + 1);
+      return { kind: 'unary', operator: token.value as '-' | '!', operand, position: token.position };
+    }
+    return this.primary(depth);
+  }
+
+  private primary(depth: number): ExpressionNode {
+    const token = this.next();
+
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value, position: token.position };
+      case 'identifier': {
+        if (token.value === 'true' || token.value === 'false') {
+          return { kind: 'literal', value: token.value === 'true', position: token.position };
+        }
+        if (this.isOperator(this.peek(), '(')) {
+          return this.call(token.value, token.position, depth);
+        }
+
+        const path = [token.value];
+        while (this.isOperator(this.peek(), '.')) {
+          this.index++;
+          const segment = this.next();
+          if (segment.kind !== 'identifier' && segment.kind !== 'number') {
+            throw this.error(`Expected a field name after '.' but found ${describe(segment)}`, segment);
+          }
+          path.push(String(segment.value));
+        }
+        return { kind: 'variable', path, position: token.position };
+      }
+      case 'operator':
+        if (token.value === '(') {
+          const inner = this.expression(0, depth + 1);
+          this.expectClose(token);
+          return inner;
+        }
+        break;
+    }
+
+    throw this.error(
+      token.kind === 'end' ? 'Expression ended unexpectedly' : `Unexpected ${describe(token)}`,
+      token
+    );
+  }
+
+  private call(name: string, position: number, depth: number): ExpressionNode {
+    const open = this.next();
+    const args: ExpressionNode[] = [];
+
+    if (!this.isOperator(this.peek(), ')')) {
+      args.push(this.expression(0, depth + 1));
+      while (this.isOperator(this.peek(), ',')) {
+        this.index++;
+        args.push(this.expression(0, depth + 1));
+      }
+    }
+    this.expectClose(open);
+
+    return { kind: 'call', name, args, position };
+  }
+
+  private expectClose(open: Token) {
+    const token = this.next();
+    if (!this.isOperator(token, ')')) {
+      throw this.error(
+        `Unclosed '(' from column ${open.position + 1}: expected ')' but found ${describe(token)}`,
+        token
+      );
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.kind !== 'end') this.index++;
+    return token;
+  }
+
+  private isOperator(token: Token, operator: string): boolean {
+    return token.kind === 'operator' && token.value === operator;
+  }
+
+  private error(message: string, token: Token): ExpressionError {
+    return new ExpressionError(message, this.source, token.position);
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      // An index after '.' (`trigger.matched.0`) is a whole number
+      const match = source.slice(i).match(isFieldName(tokens) ? /^\d+/ : /^\d+(\.\d+)?([eE][+-]?\d+)?/)!;
+      tokens.push({ kind: 'number', value: Number(match[0]), position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+      const keyword = KEYWORD_OPERATORS[match[0]];
+      tokens.push(
+        keyword && !isFieldName(tokens)
+          ? { kind: 'operator', value: keyword, position: i }
+          : { kind: 'identifier', value: match[0], position: i }
+      );
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          i++;
+        }
+        value += source[i];
+        i++;
+      }
+      if (i >= source.length) {
+        throw new ExpressionError('Unterminated string', source, start);
+      }
+      i++;
+      tokens.push({ kind: 'string', value, position: start });
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, i));
+    if (!operator) {
+      throw new ExpressionError(`Unexpected character '${char}'`, source, i);
+    }
+    tokens.push({ kind: 'operator', value: operator, position: i });
+    i += operator.length;
+  }
+
+  tokens.push({ kind: 'end', position: source.length });
+  return tokens;
+}
+
+// Whether the next token follows a '.': `trigger.event.and` is a field, not the `and` operator
+function isFieldName(tokens: Token[]): boolean {
+  const last = tokens[tokens.length - 1];
+  return last?.kind === 'operator' && last.value === '.';
+}
+
+function describe(token: Token): string {
+  switch (token.kind) {
+    case 'end':
+      return 'end of expression';
+    case 'string':
+      return `string "${token.value}"`;
+    default:
+      return `'${token.value}'`;
+  }
+}
@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import prisma from '@/utils/prisma.js';
+import { IndexerService } from '@/services/indexer.service.js';
+import { eventFilterService } from '@/services/event-filter.service.js';
+import { workflowService } from '@/services/workflow.service.js';
+import { FixtureEventSource } from '@/services/event-sources/index.js';
+import type { EventCursor, Workflow, WorkflowRun } from '../generated/client/client.js';
+import type { ChainEvent } from '@/types/event.types.js';
+
+const OWNER = '0x' + 'a'.repeat(64);
+const SENDER = '0x' + 'b'.repeat(64);
+const APT = '0x1::aptos_coin::AptosCoin';
+
+const triggerConfig = { eventType: 'token_transfer', address: OWNER, filters: { coinType: 'APT', minAmount: 1 } };
+const subscription = eventFilterService.subscriptionOf(triggerConfig);
+
+const workflow = { id: 'workflow-1', isActive: true, triggerType: 'event', triggerConfig } as unknown as Workflow;
+
+type ExecuteResult = Awaited<ReturnType<typeof workflowService.executeWorkflow>>;
+
+/**
+ * An APT deposit to OWNER of `apt` whole tokens
+ */
+function deposit(transactionVersion: bigint, eventIndex: number, apt: number): ChainEvent {
+  return {
+    transactionVersion,
+    eventIndex,
+    type: '0x1::fungible_asset::Deposit',
+    accountAddress: OWNER,
+    data: {},
+    transfer: {
+      direction: 'deposit',
+      amount: BigInt(apt * 1e8),
+      assetType: APT,
+      decimals: 8,
+      symbol: 'APT',
+      counterparty: SENDER,
+    },
+  };
+}
+
+describe('IndexerService with the fixture event source', () => {
+  let source: FixtureEventSource;
+  let indexer: IndexerService;
+  let cursors: EventCursor[];
+  let runs: Map<string, WorkflowRun>;
+  let execute: jest.SpiedFunction<typeof workflowService.executeWorkflow>;
+
+  beforeEach(() => {
+    source = new FixtureEventSource();
+    indexer = new IndexerService(source);
+    cursors = [];
+    runs = new Map();
+
+    // Event cursors and workflows in memory instead of Postgres
+    Object.defineProperty(prisma, 'workflow', {
+      configurable: true,
+      value: { findMany: async () => [workflow] },
+    });
+    Object.defineProperty(prisma, 'eventCursor', {
+      configurable: true,
+      value: {
+        findUnique: async ({ where }: { where: { workflowId_streamKey: { workflowId: string; streamKey: string } } }) =>
+          cursors.find(
+            (c) =>
+              c.workflowId === where.workflowId_streamKey.workflowId &&
+              c.streamKey === where.workflowId_streamKey.streamKey
+          ) ?? null,
+        create: async ({ data }: { data: Omit<EventCursor, 'id' | 'updatedAt'> }) => {
+          const cursor = { ...data, id: `cursor-${cursors.length + 1}`, updatedAt: new Date() } as EventCursor;
+          cursors.push(cursor);
+          return cursor;
+        },
+        update: async ({ where, data }: { where: { id: string }; data: Partial<EventCursor> }) => {
+          const cursor = cursors.find((c) => c.id === where.id)!;
+          Object.assign(cursor, data);
+          return cursor;
+        },
+      },
+    });
+
+    // Runs keyed by idempotency key, as runService.startRun does
+    execute = jest.spyOn(workflowService, 'executeWorkflow').mockImplementation(async (workflowId, _trigger, options) => {
+      const key = options?.idempotencyKey ?? `run-${runs.size}`;
+      const existing = runs.get(key);
+      if (existing) {
+        return { txHash: existing.txHash, onChainWorkflow: null, run: existing, duplicate: true } as ExecuteResult;
+      }
+
+      const run = { id: `run-${runs.size + 1}`, workflowId, status: 'COMPLETED', txHash: '0xabc' } as WorkflowRun;
+      runs.set(key, run);
+      return { txHash: run.txHash, onChainWorkflow: null, run, duplicate: false } as ExecuteResult;
+    });
+
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('starts a new stream at the head without firing on recorded events', async () => {
+    source.push(subscription.stream, deposit(10n, 0, 5));
+
+    await indexer.checkEventTriggers();
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(cursors).toHaveLength(1);
+    expect(cursors[0]).toMatchObject({ workflowId: workflow.id, streamKey: subscription.streamKey });
+  });
+
+  it('fires once per matching event and skips events the filters reject', async () => {
+    await indexer.checkEventTriggers();
+    source.push(subscription.stream, deposit(10n, 0, 5));
+    source.push(subscription.stream, deposit(11n, 1, 0.5)); // below minAmount
+    source.push(subscription.stream, deposit(12n, 0, 2));
+
+    await indexer.checkEventTriggers();
+
+    expect(execute).toHaveBeenCalledTimes(2);
+    const keys = execute.mock.calls.map(([, , options]) => options?.idempotencyKey);
+    expect(keys).toEqual([
+      `event:${workflow.id}:${subscription.streamKey}:10:0`,
+      `event:${workflow.id}:${subscription.streamKey}:12:0`,
+    ]);
+
+    const context = execute.mock.calls[0][2]?.triggerContext as Record<string, unknown>;
+    expect(context).toMatchObject({
+      eventType: 'token_transfer',
+      transactionVersion: '10',
+      eventIndex: 0,
+      matched: ['coin type is APT', 'amount 5 APT >= 1'],
+    });
+  });
+
+  it('advances the cursor past every event read, matching or not', async () => {
+    await indexer.checkEventTriggers();
+    source.push(subscription.stream, deposit(10n, 0, 5));
+    source.push(subscription.stream, deposit(11n, 3, 0.5));
+
+    await indexer.checkEventTriggers();
+
+    expect(cursors[0]).toMatchObject({ transactionVersion: 11n, eventIndex: 3 });
+
+    source.push(subscription.stream, deposit(11n, 4, 3));
+    await indexer.checkEventTriggers();
+
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(execute.mock.calls[1][2]?.idempotencyKey).toBe(`event:${workflow.id}:${subscription.streamKey}:11:4`);
+    expect(cursors[0]).toMatchObject({ transactionVersion: 11n, eventIndex: 4 });
+  });
+
+  it('does nothing on a re-poll with no new events', async () => {
+    await indexer.checkEventTriggers();
+    source.push(subscription.stream, deposit(10n, 0, 5));
+
+    await indexer.checkEventTriggers();
+    await indexer.checkEventTriggers();
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(runs.size).toBe(1);
+  });
+
+  it('replays events from an old cursor with their original idempotency keys', async () => {
+    await indexer.checkEventTriggers();
+    const head = { ...cursors[0] };
+    source.push(subscription.stream, deposit(10n, 0, 5));
+    source.push(subscription.stream, deposit(12n, 0, 2));
+    await indexer.checkEventTriggers();
+
+    // As after a crash between executing and saving the cursor
+    Object.assign(cursors[0], { transactionVersion: head.transactionVersion, eventIndex: head.eventIndex });
+    await indexer.checkEventTriggers();
+
+    // Replays carry the same idempotency keys, which runService.startRun dedupes on
+    const keys = execute.mock.calls.map(([, , options]) => options?.idempotencyKey);
+    const first = [
+      `event:${workflow.id}:${subscription.streamKey}:10:0`,
+      `event:${workflow.id}:${subscription.streamKey}:12:0`,
+    ];
+    expect(keys).toEqual([...first, ...first]);
+    expect(cursors[0]).toMatchObject({ transactionVersion: 12n, eventIndex: 0 });
+  });
+
+  it('ignores events on streams the workflow does not follow', async () => {
+    await indexer.checkEventTriggers();
+    const other = eventFilterService.subscriptionOf({ ...triggerConfig, address: SENDER });
+    source.push(other.stream, deposit(10n, 0, 5));
+
+    await indexer.checkEventTriggers();
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(cursors[0]).toMatchObject({ transactionVersion: 0n, eventIndex: -1 });
+  });
+});
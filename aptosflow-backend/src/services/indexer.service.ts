@@ -1,9 +1,35 @@
-import { aptosService } from './aptos.service.js';
+import { workflowService } from './workflow.service.js';
+import { eventFilterService } from './event-filter.service.js';
+import { createEventSource } from './event-sources/index.js';
 import prisma from '../utils/prisma.js';
+import { config } from '../config/index.js';
+import { AppError } from '../middleware/error.middleware.js';
+import { WorkflowExecutionError } from '../utils/workflow-errors.js';
+import type { EventCursor, Workflow } from '../generated/client/client.js';
+import type {
+  ChainEvent,
+  EventMatch,
+  EventPosition,
+  EventSource,
+  EventSubscription,
+} from '../types/event.types.js';
 
+export type EventBatchPolicy = 'per_event' | 'per_poll';
+
+/**
+ * Runs event-triggered workflows. The trigger config is translated into an
+ * event stream and filters by the event filter service, and the stream is
+ * read from an EventSource (the configured one unless one is passed in). Each workflow keeps
+ * a cursor per stream in event_cursors, so only events after the cursor are
+ * acted on, and events rejected by the filters only move the cursor.
+ * Runs are started with an idempotency key derived from the event, so an
+ * event replayed after a crash between execution and cursor update finds
+ * its existing run instead of executing again.
+ */
 export class IndexerService {
   private isRunning: boolean = false;
-  private pollIntervalMs: number = 10000; // 10 seconds
+
+  constructor(private readonly source: EventSource = createEventSource()) {}
 
   /**
    * Start the event indexer
@@ -11,7 +37,7 @@ export class IndexerService {
   start() {
     if (this.isRunning) return;
     this.isRunning = true;
-    console.log('Starting Indexer Service...');
+    console.log(`Starting Indexer Service (${this.source.name} events)...`);
     this.poll();
   }
 
@@ -23,6 +49,14 @@ export class IndexerService {
     console.log('Stopping Indexer Service...');
   }
 
+  /**
+   * Drop a workflow's cursors, so when its trigger is armed again it
+   * follows from the head instead of replaying what happened meanwhile
+   */
+  async unregister(workflowId: string) {
+    await prisma.eventCursor.deleteMany({ where: { workflowId } });
+  }
+
   /**
    * Main polling loop
    */
@@ -35,46 +69,164 @@ export class IndexerService {
       console.error('Error in indexer poll loop:', error);
     }
 
-    setTimeout(() => this.poll(), this.pollIntervalMs);
+    setTimeout(() => this.poll(), config.indexerPollSeconds * 1000);
   }
 
   /**
    * Check for events that trigger workflows
    */
-  private async checkEventTriggers() {
-    // 1. Fetch active workflows with event triggers
-    const workflows = await prisma.workflow.findMany({ 
-      where: { 
-        isActive: true, 
-        triggerType: 'event' 
-      } as any
+  async checkEventTriggers() {
+    const workflows = await prisma.workflow.findMany({
+      where: {
+        isActive: true,
+        triggerType: 'event',
+      },
     });
-    
+
     for (const workflow of workflows) {
+      let subscription: EventSubscription;
+      try {
+        subscription = eventFilterService.subscriptionOf((workflow.triggerConfig ?? {}) as Record<string, any>);
+      } catch (error) {
+        console.warn(`Workflow ${workflow.id} has an unusable event trigger: ${(error as Error).message}`);
+        continue;
+      }
+
       try {
-        // Parse trigger config
-        const config = workflow.triggerConfig as any;
-        if (!config || !config.address || !config.creationNumber) continue;
-
-        const { address, creationNumber } = config;
-
-        // 2. Fetch events from chain
-        const events = await aptosService.getEvents(address, creationNumber);
-
-        // 3. Check if new events match criteria
-        if (events.length > 0) {
-          // Check if event is new (store last processed sequence number in DB)
-          // For MVP, we just log and trigger
-          console.log(`Event detected for workflow ${workflow.id}`);
-          
-          // Trigger workflow
-          await aptosService.executeWorkflow(workflow.id);
-        }
+        await this.processStream(workflow, subscription);
       } catch (error) {
+        // The cursor stays put, so the same events are retried next poll
         console.error(`Error checking trigger for workflow ${workflow.id}:`, error);
       }
     }
   }
+
+  /**
+   * Act on the events after the workflow's cursor and advance it. A stream
+   * seen for the first time starts at the source's head, so history does
+   * not fire the workflow.
+   */
+  private async processStream(workflow: Workflow, subscription: EventSubscription) {
+    const cursor = await prisma.eventCursor.findUnique({
+      where: { workflowId_streamKey: { workflowId: workflow.id, streamKey: subscription.streamKey } },
+    });
+
+    if (!cursor) {
+      const head = await this.source.head();
+      await prisma.eventCursor.create({
+        data: {
+          workflowId: workflow.id,
+          streamKey: subscription.streamKey,
+          transactionVersion: head.transactionVersion,
+          eventIndex: head.eventIndex,
+        },
+      });
+      console.log(`Following ${subscription.streamKey} for workflow ${workflow.id}`);
+      return;
+    }
+
+    const { events, next } = await this.source.eventsAfter(
+      subscription.stream,
+      cursor,
+      config.indexerMaxEventsPerPoll
+    );
+    if (events.length === 0) {
+      // A source that scans transactions can move past ones without events
+      if (!samePosition(next, cursor)) await this.advance(cursor, next);
+      return;
+    }
+
+    const matches = events
+      .map((event) => ({ event, match: eventFilterService.match(subscription, event) }))
+      .filter((entry): entry is { event: ChainEvent; match: EventMatch } => entry.match !== null);
+
+    console.log(`${events.length} new event(s), ${matches.length} matching, for workflow ${workflow.id}`);
+
+    if (this.batchPolicyOf(workflow) === 'per_poll') {
+      const last = matches[matches.length - 1];
+      if (last) {
+        await this.trigger(workflow.id, subscription, last.event, { ...last.match, matchedEvents: matches.length });
+      }
+      await this.advance(cursor, next);
+      return;
+    }
+
+    for (const event of events) {
+      const match = matches.find((entry) => entry.event === event)?.match;
+      if (match) {
+        await this.trigger(workflow.id, subscription, event, match);
+      }
+      await this.advance(cursor, event);
+    }
+    if (!samePosition(next, events[events.length - 1])) await this.advance(cursor, next);
+  }
+
+  /**
+   * Execute the workflow once for an event. Execution failures are recorded
+   * on the run and do not hold the cursor back; anything else (e.g. the
+   * database being unreachable) is rethrown so the event is retried.
+   */
+  private async trigger(
+    workflowId: string,
+    subscription: EventSubscription,
+    event: ChainEvent,
+    match: EventMatch & { matchedEvents?: number }
+  ) {
+    const position = `${event.transactionVersion}:${event.eventIndex}`;
+    const idempotencyKey = `event:${workflowId}:${subscription.streamKey}:${position}`;
+
+    try {
+      const { run, duplicate } = await workflowService.executeWorkflow(workflowId, 'event', {
+        idempotencyKey,
+        // Optional event fields are left out of the stored JSON
+        triggerContext: JSON.parse(JSON.stringify(match)),
+      });
+
+      if (duplicate) {
+        // A run left PENDING was interrupted mid-submit; it is not retried
+        // since its transaction may already be on-chain
+        console.warn(`Event ${position} already started run ${run.id} (${run.status}) for workflow ${workflowId}`);
+      } else if (run.status === 'FAILED') {
+        console.error(
+          `Event-triggered workflow ${workflowId} failed on-chain: [${run.errorCode ?? 'UNKNOWN'}] ${run.errorMessage}`
+        );
+      } else if (run.status === 'SKIPPED') {
+        console.log(`Workflow ${workflowId} skipped event ${position}: its conditions were not met`);
+      } else {
+        console.log(`Workflow ${workflowId} triggered by event ${position}: ${match.summary}`);
+      }
+    } catch (error) {
+      if (error instanceof WorkflowExecutionError) {
+        console.error(
+          `Failed to execute event-triggered workflow ${workflowId}: [${error.code}] ${error.message} - ${error.hint}`
+        );
+        return;
+      }
+      if (error instanceof AppError) {
+        console.error(`Failed to execute event-triggered workflow ${workflowId}: ${error.message}`);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private async advance(cursor: EventCursor, position: EventPosition) {
+    await prisma.eventCursor.update({
+      where: { id: cursor.id },
+      data: { transactionVersion: position.transactionVersion, eventIndex: position.eventIndex },
+    });
+  }
+
+  private batchPolicyOf(workflow: Workflow): EventBatchPolicy {
+    const trigger = (workflow.triggerConfig ?? {}) as Record<string, any>;
+    return trigger.batchPolicy === 'per_event' || trigger.batchPolicy === 'per_poll'
+      ? trigger.batchPolicy
+      : config.indexerBatchPolicy;
+  }
+}
+
+function samePosition(a: EventPosition, b: EventPosition): boolean {
+  return a.transactionVersion === b.transactionVersion && a.eventIndex === b.eventIndex;
 }
 
 export const indexerService = new IndexerService();
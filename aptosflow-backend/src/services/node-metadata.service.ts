@@ -68,7 +68,7 @@ export class NodeMetadataService {
             type: 'string',
             required: false,
             default: 'UTC',
-            description: 'Timezone for schedule',
+            description: 'IANA timezone for schedule (e.g., "America/New_York")',
           },
         ],
       },
@@ -106,6 +106,13 @@ export class NodeMetadataService {
             options: ['chainlink', 'pyth', 'switchboard'],
             default: 'pyth',
           },
+          {
+            name: 'cooldownSeconds',
+            type: 'number',
+            required: false,
+            description: 'Minimum seconds between fires',
+            default: 300,
+          },
         ],
       },
       {
@@ -122,11 +129,23 @@ export class NodeMetadataService {
             required: true,
             options: ['token_transfer', 'nft_received', 'nft_transfer', 'balance_change'],
           },
+          {
+            name: 'address',
+            type: 'string',
+            required: true,
+            description: 'Account to watch',
+          },
           {
             name: 'contract',
             type: 'string',
             required: false,
-            description: 'Optional contract address filter',
+            description: 'Optional coin type (transfers) or collection (NFTs) filter',
+          },
+          {
+            name: 'filters',
+            type: 'object',
+            required: false,
+            description: 'minAmount (whole tokens), fromAddress, coinType, collection',
           },
         ],
       },
@@ -0,0 +1,186 @@
+import { z } from 'zod';
+import prisma from '@/utils/prisma.js';
+import { config } from '@/config/index.js';
+import { AppError } from '@/middleware/error.middleware.js';
+import { workflowService } from '@/services/workflow.service.js';
+import { PriceOracleService, comparePrice, priceOracleService } from '@/services/price-oracle.service.js';
+import { WorkflowExecutionError } from '@/utils/workflow-errors.js';
+import { priceTriggerSchema } from '@/types/workflow.types.js';
+import type { PriceQuote } from '@/types/price.types.js';
+import type { Workflow } from '../generated/client/client.js';
+
+const triggerConfigSchema = priceTriggerSchema.omit({ type: true });
+
+type PriceTrigger = z.infer<typeof triggerConfigSchema>;
+
+/**
+ * Fires price-triggered workflows when the price crosses their threshold.
+ * The last observed state of each workflow's condition is kept in
+ * price_watches; a workflow fires when its condition goes from false to
+ * true, not on every poll while it holds. The first observation only sets
+ * the baseline. A crossing within the cooldown after a fire is recorded
+ * but does not fire, and the condition has to cross again.
+ */
+export class PriceMonitorService {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(private readonly oracle: PriceOracleService = priceOracleService) {}
+
+  async start() {
+    console.log(`Initializing Price Monitor (${config.priceFeed} prices)...`);
+    await this.tick();
+    this.timer = setInterval(() => this.tick(), config.priceMonitorTickSeconds * 1000);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Drop a workflow's watch, so when its trigger is armed again the first
+   * observation sets a fresh baseline
+   */
+  async unregister(workflowId: string) {
+    await prisma.priceWatch.deleteMany({ where: { workflowId } });
+  }
+
+  async tick() {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const workflows = await prisma.workflow.findMany({
+        where: { isActive: true, triggerType: 'price' },
+      });
+
+      // One quote per oracle and token per tick, shared by every workflow watching it
+      const quotes = new Map<string, PriceQuote>();
+
+      for (const workflow of workflows) {
+        const parsed = triggerConfigSchema.safeParse(workflow.triggerConfig ?? {});
+        if (!parsed.success) {
+          console.warn(`Workflow ${workflow.id} has an invalid price trigger: ${parsed.error.errors[0]?.message}`);
+          continue;
+        }
+
+        const trigger = parsed.data;
+        const key = `${trigger.oracleProvider}:${trigger.token.toUpperCase()}`;
+
+        try {
+          let quote = quotes.get(key);
+          if (!quote) {
+            // Stale or uncertain quotes throw, so they never fire a workflow
+            quote = await this.oracle.getPrice(trigger.oracleProvider, trigger.token);
+            quotes.set(key, quote);
+          }
+          await this.observe(workflow, trigger, quote);
+        } catch (error) {
+          console.error(`Error checking price trigger for workflow ${workflow.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Price monitor tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Record the observed price and fire on a crossing. The state update is
+   * conditional on the previous state, so when several instances observe
+   * the same crossing only one of them fires.
+   */
+  private async observe(workflow: Workflow, trigger: PriceTrigger, quote: PriceQuote) {
+    const now = new Date();
+    const conditionMet = comparePrice(quote, trigger.operator, trigger.threshold);
+    const configKey = [trigger.token.toUpperCase(), trigger.operator, trigger.threshold, trigger.oracleProvider].join(
+      ':'
+    );
+
+    const watch = await prisma.priceWatch.findUnique({ where: { workflowId: workflow.id } });
+
+    // A new or changed trigger starts from a fresh baseline
+    if (!watch || watch.configKey !== configKey) {
+      await prisma.priceWatch.upsert({
+        where: { workflowId: workflow.id },
+        create: { workflowId: workflow.id, configKey, conditionMet, lastPrice: quote.price, checkedAt: now },
+        update: { configKey, conditionMet, lastPrice: quote.price, checkedAt: now, lastFiredAt: null },
+      });
+      return;
+    }
+
+    const crossed = conditionMet && !watch.conditionMet;
+    const cooldownMs = (trigger.cooldownSeconds ?? config.priceCooldownSeconds) * 1000;
+    const cooling = !!watch.lastFiredAt && now.getTime() - watch.lastFiredAt.getTime() < cooldownMs;
+    const fires = crossed && !cooling;
+
+    const claimed = await prisma.priceWatch.updateMany({
+      where: { id: watch.id, conditionMet: watch.conditionMet, checkedAt: watch.checkedAt },
+      data: {
+        conditionMet,
+        lastPrice: quote.price,
+        checkedAt: now,
+        ...(fires ? { lastFiredAt: now } : {}),
+      },
+    });
+    if (claimed.count === 0 || !crossed) return;
+
+    if (cooling) {
+      console.log(
+        `Price of ${quote.symbol} crossed ${trigger.operator} ${trigger.threshold} for workflow ${workflow.id} during its cooldown; not firing`
+      );
+      return;
+    }
+
+    await this.fire(workflow.id, trigger, quote, watch.lastPrice, now);
+  }
+
+  private async fire(workflowId: string, trigger: PriceTrigger, quote: PriceQuote, previousPrice: number, at: Date) {
+    console.log(
+      `Executing price-triggered workflow ${workflowId}: ${quote.symbol} ${quote.price} ${trigger.operator} ${trigger.threshold}`
+    );
+
+    try {
+      const { run } = await workflowService.executeWorkflow(workflowId, 'price', {
+        idempotencyKey: `price:${workflowId}:${at.toISOString()}`,
+        triggerContext: {
+          token: quote.symbol,
+          price: quote.price,
+          previousPrice,
+          operator: trigger.operator,
+          threshold: trigger.threshold,
+          confidence: quote.confidence ?? null,
+          publishTime: quote.publishTime.toISOString(),
+          source: quote.source,
+          summary: `${quote.symbol} at ${quote.price} crossed ${trigger.operator} ${trigger.threshold} (was ${previousPrice})`,
+        },
+      });
+
+      if (run.status === 'FAILED') {
+        console.error(
+          `Price-triggered workflow ${workflowId} failed on-chain: [${run.errorCode ?? 'UNKNOWN'}] ${run.errorMessage}`
+        );
+      } else if (run.status === 'SKIPPED') {
+        console.log(`Price-triggered workflow ${workflowId} skipped: its conditions were not met`);
+      } else {
+        console.log(`Workflow ${workflowId} triggered successfully.`);
+      }
+    } catch (error) {
+      if (error instanceof WorkflowExecutionError) {
+        console.error(
+          `Failed to execute price-triggered workflow ${workflowId}: [${error.code}] ${error.message} - ${error.hint}`
+        );
+      } else if (error instanceof AppError) {
+        console.error(`Failed to execute price-triggered workflow ${workflowId}: ${error.message}`);
+      } else {
+        console.error(`Failed to execute price-triggered workflow ${workflowId}:`, error);
+      }
+    }
+  }
+}
+
+export const priceMonitorService = new PriceMonitorService();
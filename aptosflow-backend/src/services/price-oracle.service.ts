@@ -0,0 +1,104 @@
+import { config } from '@/config/index.js';
+import { AppError } from '@/middleware/error.middleware.js';
+import { createPriceProviders } from '@/services/price-providers/index.js';
+import type { OracleProvider, PriceOperator, PriceProvider, PriceQuote } from '@/types/price.types.js';
+
+export const DEFAULT_ORACLE_PROVIDER: OracleProvider = 'pyth';
+
+const UNSUPPORTED_PROVIDERS: Partial<Record<OracleProvider, string>> = {
+  chainlink: 'Chainlink has no price feeds on Aptos; use pyth or switchboard',
+};
+
+/**
+ * Prices from the oracle a workflow node names. Quotes are checked before
+ * use: a quote older than PRICE_MAX_AGE_SECONDS, or whose confidence
+ * interval is wider than PRICE_MAX_CONFIDENCE_RATIO of the price, is
+ * rejected rather than acted on.
+ */
+export class PriceOracleService {
+  constructor(
+    private readonly providers: Partial<Record<OracleProvider, PriceProvider>> = createPriceProviders()
+  ) {}
+
+  /**
+   * Throw a 400 AppError unless the oracle has a feed for the token
+   */
+  assertSupported(oracleProvider: string | undefined, token: string | undefined) {
+    const provider = this.provider(oracleProvider);
+
+    const symbol = token?.trim().toUpperCase();
+    if (!symbol) {
+      throw new AppError(400, 'Price token is required');
+    }
+    if (!provider.symbols().includes(symbol)) {
+      const supported = provider.symbols();
+      throw new AppError(
+        400,
+        `${oracleProvider ?? DEFAULT_ORACLE_PROVIDER} has no ${symbol}/USD feed` +
+          (supported.length ? `; supported: ${supported.join(', ')}` : '; none are configured')
+      );
+    }
+  }
+
+  /**
+   * Checked USD price of a token from an oracle
+   */
+  async getPrice(oracleProvider: string | undefined, token: string): Promise<PriceQuote> {
+    const provider = this.provider(oracleProvider);
+    const quote = await provider.getPrice(token);
+
+    const ageSeconds = (Date.now() - quote.publishTime.getTime()) / 1000;
+    if (ageSeconds > config.priceMaxAgeSeconds) {
+      throw new AppError(
+        503,
+        `${quote.source} ${quote.symbol} price is stale: published ${Math.round(ageSeconds)}s ago (max ${config.priceMaxAgeSeconds}s)`
+      );
+    }
+
+    if (quote.confidence !== undefined && quote.confidence > Math.abs(quote.price) * config.priceMaxConfidenceRatio) {
+      throw new AppError(
+        503,
+        `${quote.source} ${quote.symbol} price is too uncertain: ${quote.price} ± ${quote.confidence} ` +
+          `(max ±${config.priceMaxConfidenceRatio * 100}%)`
+      );
+    }
+
+    return quote;
+  }
+
+  private provider(oracleProvider: string | undefined): PriceProvider {
+    const name = (oracleProvider ?? DEFAULT_ORACLE_PROVIDER) as OracleProvider;
+
+    const unsupported = UNSUPPORTED_PROVIDERS[name];
+    if (unsupported) {
+      throw new AppError(400, unsupported);
+    }
+
+    const provider = this.providers[name];
+    if (!provider) {
+      throw new AppError(400, `Unknown oracle provider '${oracleProvider}'; use pyth or switchboard`);
+    }
+    return provider;
+  }
+}
+
+/**
+ * Compare a quote with a threshold. `==` holds while the threshold is
+ * within the quote's confidence interval.
+ */
+export function comparePrice(quote: PriceQuote, operator: PriceOperator, threshold: number): boolean {
+  switch (operator) {
+    case '>':
+      return quote.price > threshold;
+    case '<':
+      return quote.price < threshold;
+    case '>=':
+      return quote.price >= threshold;
+    case '<=':
+      return quote.price <= threshold;
+    case '==':
+      return Math.abs(quote.price - threshold) <= (quote.confidence ?? 0);
+  }
+}
+
+export const priceOracleService = new PriceOracleService();
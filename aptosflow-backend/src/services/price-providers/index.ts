@@ -0,0 +1,28 @@
+import { aptosService } from '@/services/aptos.service.js';
+import { config } from '@/config/index.js';
+import type { OracleProvider, PriceProvider } from '@/types/price.types.js';
+import { PythProvider } from './pyth.provider.js';
+import { SwitchboardProvider } from './switchboard.provider.js';
+import { MockPriceProvider } from './mock.provider.js';
+
+export { PythProvider, SwitchboardProvider, MockPriceProvider };
+export { PYTH_FEED_IDS, SWITCHBOARD_FEED_IDS } from './registry.js';
+
+/**
+ * Providers by oracle name. Chainlink has no feeds on Aptos and has no
+ * provider. With PRICE_FEED=mock every oracle is served by the mock.
+ */
+export function createPriceProviders(): Partial<Record<OracleProvider, PriceProvider>> {
+  if (config.priceFeed === 'mock') {
+    const mock = MockPriceProvider.fromString(config.mockPrices, {
+      wavePercent: config.mockPriceWavePercent,
+      waveSeconds: config.mockPriceWaveSeconds,
+    });
+    return { pyth: mock, switchboard: mock };
+  }
+
+  return {
+    pyth: new PythProvider(config.pythHermesUrl),
+    switchboard: new SwitchboardProvider(aptosService.client, config.switchboardAddress),
+  };
+}
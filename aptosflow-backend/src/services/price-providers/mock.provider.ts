@@ -0,0 +1,67 @@
+import { AppError } from '@/middleware/error.middleware.js';
+import type { PriceProvider, PriceQuote } from '@/types/price.types.js';
+import { parseFeedIds } from './registry.js';
+
+export interface MockPriceOptions {
+  /** Swing prices this many percent either side of the base price */
+  wavePercent?: number;
+  /** Length of one full swing */
+  waveSeconds?: number;
+}
+
+/**
+ * Deterministic prices for local runs and tests: a base price per token,
+ * optionally swung along a sine wave of the current time so price
+ * triggers cross their thresholds. The same time always gives the same
+ * price. Prices can be changed with `set`.
+ */
+export class MockPriceProvider implements PriceProvider {
+  readonly name = 'mock';
+  private prices = new Map<string, number>();
+
+  constructor(
+    prices: Record<string, number> = {},
+    private readonly options: MockPriceOptions = {}
+  ) {
+    for (const [symbol, price] of Object.entries(prices)) {
+      this.set(symbol, price);
+    }
+  }
+
+  /**
+   * Parse "APT=8.5,BTC=65000"
+   */
+  static fromString(spec: string, options: MockPriceOptions = {}): MockPriceProvider {
+    const prices: Record<string, number> = {};
+    for (const [symbol, value] of Object.entries(parseFeedIds(spec))) {
+      const price = Number(value);
+      if (!Number.isFinite(price)) {
+        throw new Error(`Invalid mock price '${symbol}=${value}'`);
+      }
+      prices[symbol] = price;
+    }
+    return new MockPriceProvider(prices, options);
+  }
+
+  set(symbol: string, price: number) {
+    this.prices.set(symbol.toUpperCase(), price);
+  }
+
+  symbols(): string[] {
+    return [...this.prices.keys()];
+  }
+
+  async getPrice(symbol: string, at: Date = new Date()): Promise<PriceQuote> {
+    const token = symbol.toUpperCase();
+    const base = this.prices.get(token);
+    if (base === undefined) {
+      throw new AppError(400, `No mock price for ${token}`);
+    }
+
+    const { wavePercent = 0, waveSeconds = 600 } = this.options;
+    const phase = ((at.getTime() / 1000) % waveSeconds) / waveSeconds;
+    const price = base * (1 + (wavePercent / 100) * Math.sin(2 * Math.PI * phase));
+
+    return { symbol: token, price, confidence: 0, publishTime: at, source: this.name };
+  }
+}
@@ -0,0 +1,52 @@
+import { AppError } from '@/middleware/error.middleware.js';
+import type { PriceProvider, PriceQuote } from '@/types/price.types.js';
+import { PYTH_FEED_IDS } from './registry.js';
+
+interface HermesPrice {
+  price: string;
+  conf: string;
+  expo: number;
+  publish_time: number;
+}
+
+/**
+ * Latest Pyth prices from the Hermes HTTP API
+ */
+export class PythProvider implements PriceProvider {
+  readonly name = 'pyth';
+
+  constructor(private readonly baseUrl: string) {}
+
+  symbols(): string[] {
+    return Object.keys(PYTH_FEED_IDS);
+  }
+
+  async getPrice(symbol: string): Promise<PriceQuote> {
+    const token = symbol.toUpperCase();
+    const feedId = PYTH_FEED_IDS[token];
+    if (!feedId) {
+      throw new AppError(400, `No Pyth price feed for ${token}; supported: ${this.symbols().join(', ')}`);
+    }
+
+    const url = `${this.baseUrl.replace(/\/$/, '')}/v2/updates/price/latest?ids[]=${feedId}&parsed=true`;
+    const response = await fetch(url, { signal: AbortSignal.timeout(10_000) });
+    if (!response.ok) {
+      throw new AppError(502, `Pyth Hermes returned ${response.status} for ${token}`);
+    }
+
+    const body = (await response.json()) as { parsed?: Array<{ price: HermesPrice }> };
+    const quote = body.parsed?.[0]?.price;
+    if (!quote) {
+      throw new AppError(502, `Pyth Hermes returned no price for ${token}`);
+    }
+
+    const scale = 10 ** quote.expo;
+    return {
+      symbol: token,
+      price: Number(quote.price) * scale,
+      confidence: Number(quote.conf) * scale,
+      publishTime: new Date(quote.publish_time * 1000),
+      source: this.name,
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { config } from '@/config/index.js';
+
+// Pyth USD price feed ids (https://pyth.network/developers/price-feed-ids)
+export const PYTH_FEED_IDS: Record<string, string> = {
+  APT: '0x03ae4db29ed4ae33d323568895aa00337e658e348b37509f5372ae51f0af00d5',
+  BTC: '0xe62df6c8b4a85fe1a67db44dc12de5db330f7ac66b72dc658afedf0f4a415b43',
+  ETH: '0xff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace',
+  SOL: '0xef0d8b6fda2ceba41da15d4095d1da392a0d2f8ed0c6c7bc0f4cfac8c280b56d',
+  USDC: '0xeaa020c61cc479712813461ce153894a96a6c00b21ed0cfc2798d1f9a9e9c94a',
+  USDT: '0x2b89b9dc8fdf9f34709a5b106b472f0f39bb6ca9ce04b0fd7f2e971688e2e53b',
+};
+
+/**
+ * Switchboard aggregator addresses are deployment specific, so they come
+ * from SWITCHBOARD_FEEDS ("APT=0x…,BTC=0x…")
+ */
+export const SWITCHBOARD_FEED_IDS: Record<string, string> = parseFeedIds(config.switchboardFeeds);
+
+/**
+ * Parse "SYMBOL=value,…" into an upper-case symbol map
+ */
+export function parseFeedIds(spec: string): Record<string, string> {
+  const ids: Record<string, string> = {};
+  for (const entry of spec.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const [symbol, value] = entry.split('=').map((part) => part?.trim());
+    if (!symbol || !value) {
+      throw new Error(`Invalid feed entry '${entry}'; expected SYMBOL=value`);
+    }
+    ids[symbol.toUpperCase()] = value;
+  }
+  return ids;
+}
@@ -0,0 +1,67 @@
+import type { Aptos, MoveFunctionId } from '@aptos-labs/ts-sdk';
+import { AppError } from '@/middleware/error.middleware.js';
+import type { PriceProvider, PriceQuote } from '@/types/price.types.js';
+import { SWITCHBOARD_FEED_IDS } from './registry.js';
+
+// Switchboard decimals are fixed-point with 18 decimal places
+const DECIMAL_SCALE = 18;
+
+interface SwitchboardDecimal {
+  value: string;
+  neg: boolean;
+}
+
+interface CurrentResult {
+  result: SwitchboardDecimal;
+  range?: SwitchboardDecimal;
+  timestamp: string;
+}
+
+/**
+ * Latest Switchboard on-demand results, read on-chain through the
+ * aggregator's `current_result` view function
+ */
+export class SwitchboardProvider implements PriceProvider {
+  readonly name = 'switchboard';
+
+  constructor(
+    private readonly aptos: Aptos,
+    private readonly switchboardAddress: string
+  ) {}
+
+  symbols(): string[] {
+    return this.switchboardAddress ? Object.keys(SWITCHBOARD_FEED_IDS) : [];
+  }
+
+  async getPrice(symbol: string): Promise<PriceQuote> {
+    const token = symbol.toUpperCase();
+    const aggregator = SWITCHBOARD_FEED_IDS[token];
+    if (!this.switchboardAddress || !aggregator) {
+      throw new AppError(400, `No Switchboard feed configured for ${token}`);
+    }
+
+    const [current] = await this.aptos.view<[CurrentResult]>({
+      payload: {
+        function: `${this.switchboardAddress}::aggregator::current_result` as MoveFunctionId,
+        functionArguments: [aggregator],
+      },
+    });
+    if (!current?.result) {
+      throw new AppError(502, `Switchboard returned no result for ${token}`);
+    }
+
+    return {
+      symbol: token,
+      price: toNumber(current.result),
+      // The aggregator reports the spread of its oracle responses
+      confidence: current.range ? toNumber(current.range) / 2 : undefined,
+      publishTime: new Date(Number(current.timestamp) * 1000),
+      source: this.name,
+    };
+  }
+}
+
+function toNumber(decimal: SwitchboardDecimal): number {
+  const value = Number(decimal.value) / 10 ** DECIMAL_SCALE;
+  return decimal.neg ? -value : value;
+}
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import prisma from '@/utils/prisma.js';
+import { ResumeService } from '@/services/resume.service.js';
+import { workflowService } from '@/services/workflow.service.js';
+import type { WorkflowResumption, WorkflowRun } from '../generated/client/client.js';
+
+type ExecuteResult = Awaited<ReturnType<typeof workflowService.executeWorkflow>>;
+
+const paused = { id: 'run-1', workflowId: 'workflow-1', status: 'PAUSED', version: 2 } as WorkflowRun;
+
+describe('ResumeService', () => {
+  let service: ResumeService;
+  let runs: Map<string, WorkflowRun>;
+  let resumptions: WorkflowResumption[];
+  let execute: jest.SpiedFunction<typeof workflowService.executeWorkflow>;
+
+  /**
+   * Make the continuation end as `run`
+   */
+  function resumeAs(run: Partial<WorkflowRun>) {
+    execute.mockImplementation(async (workflowId) => {
+      const resumed = { id: 'run-2', workflowId, errorCode: null, errorMessage: null, ...run } as WorkflowRun;
+      runs.set(resumed.id, resumed);
+      return { txHash: '0xabc', onChainWorkflow: null, run: resumed, duplicate: false } as ExecuteResult;
+    });
+  }
+
+  beforeEach(() => {
+    service = new ResumeService();
+    runs = new Map([[paused.id, { ...paused }]]);
+    resumptions = [
+      {
+        id: 'resumption-1',
+        workflowId: paused.workflowId,
+        runId: paused.id,
+        resumeNodeId: 'node-3',
+        resumeAt: new Date(Date.now() - 1000),
+        status: 'PENDING',
+        attempts: 0,
+        lastError: null,
+        resumedRunId: null,
+      } as WorkflowResumption,
+    ];
+
+    // Runs and resumptions in memory instead of Postgres
+    Object.defineProperty(prisma, 'workflowResumption', {
+      configurable: true,
+      value: {
+        findMany: async () => resumptions.filter((r) => r.status === 'PENDING'),
+        updateMany: async ({ where, data }: { where: { id: string; status: string }; data: { status: string } }) => {
+          const matching = resumptions.filter((r) => r.id === where.id && r.status === where.status);
+          matching.forEach((r) => Object.assign(r, { status: data.status, attempts: r.attempts + 1 }));
+          return { count: matching.length };
+        },
+        update: async ({ where, data }: { where: { id: string }; data: Partial<WorkflowResumption> }) =>
+          Object.assign(resumptions.find((r) => r.id === where.id)!, data),
+      },
+    });
+    Object.defineProperty(prisma, 'workflowRun', {
+      configurable: true,
+      value: {
+        findUnique: async ({ where }: { where: { id: string } }) => runs.get(where.id) ?? null,
+        findUniqueOrThrow: async ({ where }: { where: { id: string } }) => ({
+          ...runs.get(where.id)!,
+          resumptions: resumptions.filter((r) => r.runId === where.id),
+        }),
+        update: async ({ where, data }: { where: { id: string }; data: Partial<WorkflowRun> }) =>
+          Object.assign(runs.get(where.id)!, data),
+      },
+    });
+
+    execute = jest.spyOn(workflowService, 'executeWorkflow');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('continues the paused version from the node after the wait', async () => {
+    resumeAs({ status: 'COMPLETED' });
+
+    await service.tick();
+
+    expect(execute).toHaveBeenCalledWith('workflow-1', 'resume', { startNodeId: 'node-3', version: 2 });
+    expect(resumptions[0]).toMatchObject({ status: 'COMPLETED', resumedRunId: 'run-2', lastError: null, attempts: 1 });
+    expect(runs.get(paused.id)?.status).toBe('COMPLETED');
+  });
+
+  it('fails the resumption and the paused run when the continuation aborts', async () => {
+    resumeAs({ status: 'FAILED', errorCode: 'INSUFFICIENT_BALANCE', errorMessage: 'Transfer exceeds the balance' });
+
+    await service.tick();
+
+    expect(resumptions[0]).toMatchObject({
+      status: 'FAILED',
+      resumedRunId: 'run-2',
+      lastError: 'INSUFFICIENT_BALANCE: Transfer exceeds the balance',
+    });
+    expect(runs.get(paused.id)?.status).toBe('FAILED');
+  });
+
+  it('fails the resumption when the continuation cannot be submitted', async () => {
+    execute.mockRejectedValue(new Error('Node unreachable'));
+
+    await service.tick();
+
+    expect(resumptions[0]).toMatchObject({ status: 'FAILED', lastError: 'Node unreachable' });
+    expect(runs.get(paused.id)?.status).toBe('FAILED');
+  });
+});
@@ -0,0 +1,228 @@
+import prisma from '@/utils/prisma.js';
+import { config } from '@/config/index.js';
+import { AppError } from '@/middleware/error.middleware.js';
+import { workflowService } from '@/services/workflow.service.js';
+import { runService } from '@/services/run.service.js';
+import type { ResumptionStatus, WorkflowResumption } from '../generated/client/client.js';
+
+// Due resumptions picked up per tick
+const BATCH_SIZE = 20;
+
+/**
+ * Allowed transitions for API actions on a resumption
+ */
+const HOLDABLE: ResumptionStatus[] = ['PENDING'];
+const RELEASABLE: ResumptionStatus[] = ['HELD', 'FAILED'];
+const CANCELLABLE: ResumptionStatus[] = ['PENDING', 'HELD', 'SUSPENDED', 'FAILED'];
+
+export class ResumeService {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  /**
+   * Recover resumptions interrupted by a restart, run everything already
+   * due, then poll on an interval
+   */
+  async start() {
+    console.log('Initializing Resume Worker...');
+
+    // The transaction may or may not have been submitted; never replay it blindly
+    const interrupted = await prisma.workflowResumption.updateMany({
+      where: { status: 'PROCESSING' },
+      data: {
+        status: 'FAILED',
+        lastError: 'Interrupted by a restart while resuming; check the workflow runs before releasing it',
+      },
+    });
+    if (interrupted.count > 0) {
+      console.warn(`Marked ${interrupted.count} interrupted resumption(s) as failed`);
+    }
+
+    await this.tick();
+    this.timer = setInterval(() => this.tick(), config.resumeTickSeconds * 1000);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Resume every due resumption. Overlapping ticks are skipped so a slow
+   * transaction never gets picked up twice by this process.
+   */
+  async tick() {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const due = await prisma.workflowResumption.findMany({
+        where: { status: 'PENDING', resumeAt: { lte: new Date() } },
+        orderBy: { resumeAt: 'asc' },
+        take: BATCH_SIZE,
+      });
+
+      for (const resumption of due) {
+        await this.process(resumption);
+      }
+    } catch (error) {
+      console.error('Resume worker tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Claim a resumption and execute the workflow from the node after its wait
+   */
+  private async process(resumption: WorkflowResumption) {
+    // Conditional claim so a second instance cannot resume the same row
+    const claimed = await prisma.workflowResumption.updateMany({
+      where: { id: resumption.id, status: 'PENDING' },
+      data: { status: 'PROCESSING', attempts: { increment: 1 } },
+    });
+    if (claimed.count === 0) return;
+
+    console.log(`Resuming workflow ${resumption.workflowId} at node ${resumption.resumeNodeId}`);
+
+    try {
+      // Continue the version the paused run executed
+      const paused = await prisma.workflowRun.findUnique({ where: { id: resumption.runId } });
+      const { run } = await workflowService.executeWorkflow(resumption.workflowId, 'resume', {
+        startNodeId: resumption.resumeNodeId,
+        version: paused?.version ?? undefined,
+      });
+
+      // An aborted continuation comes back as a FAILED run, not an error
+      const failed = run.status === 'FAILED';
+      await prisma.workflowResumption.update({
+        where: { id: resumption.id },
+        data: {
+          status: failed ? 'FAILED' : 'COMPLETED',
+          resumedRunId: run.id,
+          lastError: failed ? [run.errorCode, run.errorMessage].filter(Boolean).join(': ') || 'Resumed run failed' : null,
+        },
+      });
+    } catch (error) {
+      console.error(`Failed to resume workflow ${resumption.workflowId}:`, error);
+      await prisma.workflowResumption.update({
+        where: { id: resumption.id },
+        data: {
+          status: 'FAILED',
+          lastError: error instanceof Error ? error.message : 'Resume failed',
+        },
+      });
+    }
+
+    await runService.settlePausedRun(resumption.runId);
+  }
+
+  /**
+   * Resumptions of a wallet's workflows, optionally filtered by workflow
+   * and status
+   */
+  async listResumptions(walletAddress: string, filter: { workflowId?: string; status?: ResumptionStatus }) {
+    return prisma.workflowResumption.findMany({
+      where: { ...filter, workflow: { user: { walletAddress } } },
+      orderBy: { resumeAt: 'asc' },
+    });
+  }
+
+  /**
+   * A resumption by id; a 404 AppError when it does not exist
+   */
+  async getResumption(id: string) {
+    const resumption = await prisma.workflowResumption.findUnique({ where: { id } });
+    if (!resumption) {
+      throw new AppError(404, `Resumption ${id} not found`);
+    }
+    return resumption;
+  }
+
+  /**
+   * Keep a pending resumption from being picked up
+   */
+  async hold(id: string) {
+    return this.update(id, HOLDABLE, { status: 'HELD' });
+  }
+
+  /**
+   * Return a held or failed resumption to the queue. Resumptions already
+   * past their resumeAt run on the next tick.
+   */
+  async release(id: string) {
+    return this.update(id, RELEASABLE, { status: 'PENDING' });
+  }
+
+  /**
+   * Drop a resumption; the paused run is cancelled once nothing else is open
+   */
+  async cancel(id: string) {
+    const resumption = await this.update(id, CANCELLABLE, { status: 'CANCELLED' });
+    await runService.settlePausedRun(resumption.runId);
+    return resumption;
+  }
+
+  /**
+   * Keep a paused workflow's pending resumptions from being picked up
+   */
+  async suspendWorkflow(workflowId: string) {
+    await prisma.workflowResumption.updateMany({
+      where: { workflowId, status: 'PENDING' },
+      data: { status: 'SUSPENDED' },
+    });
+  }
+
+  /**
+   * Return the resumptions suspended with a workflow to the queue; those
+   * that came due meanwhile run on the next tick
+   */
+  async unsuspendWorkflow(workflowId: string) {
+    await prisma.workflowResumption.updateMany({
+      where: { workflowId, status: 'SUSPENDED' },
+      data: { status: 'PENDING' },
+    });
+  }
+
+  /**
+   * Drop every resumption of a deactivated workflow that has not run, and
+   * settle the runs they belonged to
+   */
+  async cancelWorkflow(workflowId: string) {
+    const open = await prisma.workflowResumption.findMany({
+      where: { workflowId, status: { in: CANCELLABLE } },
+      select: { runId: true },
+    });
+
+    await prisma.workflowResumption.updateMany({
+      where: { workflowId, status: { in: CANCELLABLE } },
+      data: { status: 'CANCELLED' },
+    });
+    for (const runId of new Set(open.map((r) => r.runId))) {
+      await runService.settlePausedRun(runId);
+    }
+  }
+
+  private async update(
+    id: string,
+    from: ResumptionStatus[],
+    data: { status: ResumptionStatus }
+  ) {
+    const resumption = await this.getResumption(id);
+
+    const updated = await prisma.workflowResumption.updateMany({
+      where: { id, status: { in: from } },
+      data,
+    });
+
+    if (updated.count === 0) {
+      throw new AppError(409, `Resumption is ${resumption.status} and cannot become ${data.status}`);
+    }
+
+    return prisma.workflowResumption.findUniqueOrThrow({ where: { id } });
+  }
+}
+
+export const resumeService = new ResumeService();
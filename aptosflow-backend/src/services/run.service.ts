@@ -0,0 +1,326 @@
+import prisma from '@/utils/prisma.js';
+import { aptosService } from '@/services/aptos.service.js';
+import { AppError } from '@/middleware/error.middleware.js';
+import { WorkflowExecutionError, parseStepFailure, parseVmStatus } from '@/utils/workflow-errors.js';
+import { workflowCompilerService } from '@/services/workflow-compiler.service.js';
+import { workflowVersionService } from '@/services/workflow-version.service.js';
+import { toCanvasGraph } from '@/utils/workflow-graph.js';
+import { NODE_TYPE, type CompiledWorkflow, type WorkflowStepEvent } from '@/types/contract.types.js';
+import type { ConditionEvaluation } from '@/types/condition.types.js';
+import { Prisma, type ExecutionStatus, type ResumptionStatus, type WorkflowRun } from '../generated/client/client.js';
+
+/**
+ * Allowed run status transitions: PENDING -> SUBMITTED -> RUNNING -> COMPLETED/FAILED.
+ * A transaction can commit before it is ever observed as pending, so
+ * SUBMITTED may also finalise directly. A run that stopped at a wait node
+ * is PAUSED until its resumptions settle. A run whose off-chain conditions
+ * were false is SKIPPED without a transaction. A queued run is claimed as
+ * RUNNING by the worker that executes it, before anything is submitted.
+ */
+const RUN_TRANSITIONS: Partial<Record<ExecutionStatus, ExecutionStatus[]>> = {
+  PENDING: ['SUBMITTED', 'FAILED', 'SKIPPED'],
+  SUBMITTED: ['RUNNING', 'COMPLETED', 'PAUSED', 'FAILED'],
+  RUNNING: ['COMPLETED', 'PAUSED', 'FAILED', 'SKIPPED'],
+  PAUSED: ['COMPLETED', 'FAILED', 'CANCELLED'],
+};
+
+// Statuses whose transaction has already been recorded
+const SYNCED_STATUSES: ExecutionStatus[] = ['COMPLETED', 'FAILED', 'PAUSED', 'CANCELLED'];
+
+const OPEN_RESUMPTION_STATUSES: ResumptionStatus[] = ['PENDING', 'HELD', 'SUSPENDED', 'PROCESSING'];
+
+export class RunService {
+  /**
+   * Record that a workflow execution has started. With an idempotency key,
+   * returns `created: false` and the existing run when that key was already used.
+   */
+  async startRun(
+    workflowId: string,
+    trigger: string = 'manual',
+    {
+      idempotencyKey,
+      triggerContext,
+      version,
+    }: { idempotencyKey?: string; triggerContext?: Prisma.InputJsonValue; version?: number } = {}
+  ) {
+    try {
+      const run = await prisma.workflowRun.create({
+        data: {
+          workflowId,
+          trigger,
+          idempotencyKey,
+          triggerContext,
+          version,
+          status: 'PENDING',
+        },
+      });
+      return { run, created: true };
+    } catch (error) {
+      if (
+        idempotencyKey &&
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        const run = await prisma.workflowRun.findUniqueOrThrow({ where: { idempotencyKey } });
+        return { run, created: false };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Take a queued run for execution. Null when it already left PENDING,
+   * e.g. because the same event was delivered twice.
+   */
+  async claim(runId: string) {
+    const claimed = await prisma.workflowRun.updateMany({
+      where: { id: runId, status: 'PENDING' },
+      data: { status: 'RUNNING' },
+    });
+    if (claimed.count === 0) {
+      return null;
+    }
+    return prisma.workflowRun.findUniqueOrThrow({ where: { id: runId } });
+  }
+
+  /**
+   * Attach the submitted transaction to a run
+   */
+  async markSubmitted(runId: string, txHash: string, onChainWorkflowId: string | null) {
+    return prisma.workflowRun.update({
+      where: { id: runId },
+      data: {
+        txHash,
+        onChainWorkflowId,
+        status: 'SUBMITTED',
+      },
+    });
+  }
+
+  /**
+   * Store the off-chain condition evaluation on a run. A false evaluation
+   * ends the run as SKIPPED.
+   */
+  async recordConditions(run: WorkflowRun, evaluation: ConditionEvaluation) {
+    const conditionTrace = evaluation.trace as unknown as Prisma.InputJsonValue;
+    if (evaluation.passed) {
+      return prisma.workflowRun.update({ where: { id: run.id }, data: { conditionTrace } });
+    }
+    return this.transition(run, 'SKIPPED', { conditionTrace, completedAt: new Date() });
+  }
+
+  /**
+   * Mark a run as failed before it produced a committed transaction
+   */
+  async markFailed(runId: string, error: AppError) {
+    return prisma.workflowRun.update({
+      where: { id: runId },
+      data: {
+        status: 'FAILED',
+        errorMessage: error.message,
+        errorCode: error instanceof WorkflowExecutionError ? error.code : null,
+        errorNodeId: error instanceof WorkflowExecutionError ? error.nodeId : null,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Refresh a run from its transaction: pending moves it to RUNNING, a
+   * committed or failed transaction finalises it with per-node steps.
+   * Pass the compiled graph to point aborts at the node that caused them.
+   */
+  async syncRun(runId: string, compiled?: CompiledWorkflow) {
+    const run = await prisma.workflowRun.findUniqueOrThrow({
+      where: { id: runId },
+      include: { onChainWorkflow: true },
+    });
+
+    if (!run.txHash || SYNCED_STATUSES.includes(run.status)) {
+      return { run, transaction: null };
+    }
+
+    const transaction = await aptosService.inspectTransaction(run.txHash);
+
+    if (transaction.state === 'not_found') {
+      return { run, transaction };
+    }
+
+    if (transaction.state === 'pending') {
+      const updated = await this.transition(run, 'RUNNING');
+      return { run: updated, transaction };
+    }
+
+    // Invert canvas id -> on-chain id so steps can be highlighted on the canvas
+    const canvasIds = new Map<string, string>();
+    const nodeIdMap = (run.onChainWorkflow?.nodeIdMap ?? {}) as Record<string, number>;
+    for (const [canvasId, onChainId] of Object.entries(nodeIdMap)) {
+      canvasIds.set(String(onChainId), canvasId);
+    }
+
+    const { steps, completed } = transaction.events;
+    const succeeded = transaction.state === 'committed' && (completed?.success ?? false);
+    const failedStep = steps.find((step) => !step.success);
+    const failure = succeeded
+      ? null
+      : transaction.state === 'failed'
+        ? parseVmStatus(transaction.vmStatus ?? '', compiled)
+        : failedStep && parseStepFailure(failedStep, canvasIds.get(failedStep.nodeId.toString()));
+
+    const completedAt = transaction.timestamp ?? new Date();
+    const resumptions = succeeded ? await this.planResumptions(run, steps, canvasIds, completedAt) : [];
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.workflowRunStep.deleteMany({ where: { runId } });
+      await tx.workflowRunStep.createMany({
+        data: steps.map((step, sequence) => ({
+          runId,
+          sequence,
+          nodeId: step.nodeId,
+          canvasNodeId: canvasIds.get(step.nodeId.toString()) ?? null,
+          nodeType: step.nodeType,
+          success: step.success,
+          errorCode: step.errorCode,
+        })),
+      });
+
+      await tx.workflowResumption.createMany({ data: resumptions, skipDuplicates: true });
+
+      const next = !succeeded ? 'FAILED' : resumptions.length > 0 ? 'PAUSED' : 'COMPLETED';
+      return this.transition(run, next, {
+        totalSteps: completed?.totalSteps ?? steps.length,
+        gasUsed: transaction.gasUsed,
+        vmStatus: transaction.vmStatus,
+        errorMessage: failure?.message ?? null,
+        errorCode: failure?.code ?? null,
+        errorNodeId: failure?.nodeId ?? null,
+        completedAt,
+      }, tx);
+    });
+
+    return { run: updated, transaction };
+  }
+
+  /**
+   * Finish a paused run once none of its resumptions are still open: it
+   * completes if any resumed, and is cancelled if every one was cancelled
+   */
+  async settlePausedRun(runId: string) {
+    const run = await prisma.workflowRun.findUniqueOrThrow({
+      where: { id: runId },
+      include: { resumptions: true },
+    });
+
+    const { resumptions } = run;
+    if (run.status !== 'PAUSED' || resumptions.some((r) => OPEN_RESUMPTION_STATUSES.includes(r.status))) {
+      return run;
+    }
+
+    const next = resumptions.some((r) => r.status === 'COMPLETED')
+      ? 'COMPLETED'
+      : resumptions.every((r) => r.status === 'CANCELLED')
+        ? 'CANCELLED'
+        : 'FAILED';
+
+    return this.transition(run, next);
+  }
+
+  /**
+   * One resumption per wait node the transaction stepped through. The
+   * contract passes straight through waits, so the wait's successor was
+   * compiled out of this segment and still has to run.
+   */
+  private async planResumptions(
+    run: WorkflowRun,
+    steps: WorkflowStepEvent[],
+    canvasIds: Map<string, string>,
+    completedAt: Date
+  ): Promise<Prisma.WorkflowResumptionCreateManyInput[]> {
+    const waits = steps.filter((step) => step.success && step.nodeType === NODE_TYPE.WAIT);
+    if (waits.length === 0) {
+      return [];
+    }
+
+    // Resume within the version the run executed, even if it was saved over since
+    const { workflowData } = run.version
+      ? await workflowVersionService.get(run.workflowId, run.version)
+      : await prisma.workflow.findUniqueOrThrow({ where: { id: run.workflowId } });
+    const graph = toCanvasGraph(workflowData);
+
+    return waits.flatMap((step) => {
+      const waitNodeId = canvasIds.get(step.nodeId.toString());
+      const resumeNodeId = waitNodeId && workflowCompilerService.resumeTarget(graph, waitNodeId);
+      if (!waitNodeId || !resumeNodeId) {
+        return [];
+      }
+
+      const waitNode = graph.nodes.find((node) => node.id === waitNodeId);
+      const params = waitNode ? waitNode.data ?? (waitNode as Record<string, any>) : {};
+      const duration = Number(params.duration) || 0;
+
+      return [{
+        runId: run.id,
+        workflowId: run.workflowId,
+        waitNodeId,
+        resumeNodeId,
+        resumeAt: new Date(completedAt.getTime() + duration * 1000),
+      }];
+    });
+  }
+
+  /**
+   * Move a run to a new status, ignoring transitions the lifecycle forbids
+   * (e.g. a late "pending" observation after the run already completed)
+   */
+  private async transition(
+    run: WorkflowRun,
+    next: ExecutionStatus,
+    data: Prisma.WorkflowRunUpdateInput = {},
+    client: Prisma.TransactionClient = prisma
+  ) {
+    if (run.status === next || !RUN_TRANSITIONS[run.status]?.includes(next)) {
+      return run;
+    }
+
+    return client.workflowRun.update({
+      where: { id: run.id },
+      data: { ...data, status: next },
+    });
+  }
+
+  /**
+   * Most recent runs of a workflow
+   */
+  async listRuns(workflowId: string, limit: number = 20) {
+    return prisma.workflowRun.findMany({
+      where: { workflowId },
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * A run with its per-node timeline
+   */
+  async getRun(runId: string) {
+    return prisma.workflowRun.findUnique({
+      where: { id: runId },
+      include: {
+        steps: { orderBy: { sequence: 'asc' } },
+        onChainWorkflow: true,
+      },
+    });
+  }
+
+  /**
+   * Latest run of a workflow
+   */
+  async getLatestRun(workflowId: string) {
+    return prisma.workflowRun.findFirst({
+      where: { workflowId },
+      orderBy: { startedAt: 'desc' },
+    });
+  }
+}
+
+export const runService = new RunService();
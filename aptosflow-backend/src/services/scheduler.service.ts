@@ -1,79 +1,254 @@
-import * as cron from 'node-cron';
-import { aptosService } from './aptos.service.js';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { workflowService } from './workflow.service.js';
+import { cronService } from './cron.service.js';
 import prisma from '../utils/prisma.js';
+import { config } from '../config/index.js';
+import { Prisma, type Workflow } from '../generated/client/client.js';
+import { WorkflowExecutionError, workflowErrorHint } from '../utils/workflow-errors.js';
 
+const LEASE_NAME = 'scheduler';
+// Only the most recent missed fires are kept, so a per-minute cron that
+// was down for a week cannot stall the tick
+const MAX_CATCH_UP_FIRES = 100;
+
+export type MisfirePolicy = 'skip' | 'run_once' | 'run_all';
+
+/**
+ * Fires schedule-triggered workflows. Every instance ticks, but only the
+ * holder of the scheduler lease fires; each fire time is recorded in
+ * schedule_fires so a fire is never repeated, and fires missed while no
+ * instance held the lease are handled by the misfire policy.
+ */
 export class SchedulerService {
-  private jobs: Map<string, cron.ScheduledTask> = new Map();
+  private readonly holderId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private leading = false;
+
+  async start() {
+    console.log(`Initializing Scheduler Service (${this.holderId})...`);
+    await this.tick();
+    this.timer = setInterval(() => this.tick(), config.schedulerTickSeconds * 1000);
+  }
 
   /**
-   * Initialize scheduler by loading all active scheduled workflows
+   * Stop ticking and hand the lease over without waiting for it to expire
    */
-  async init() {
-    console.log('Initializing Scheduler Service...');
-    // Fetch active scheduled workflows from DB and register them
-    const workflows = await prisma.workflow.findMany({ where: { isActive: true, triggerType: 'schedule' } as any });
-    workflows.forEach((wf: any) => {
-        if (wf.cronExpression) {
-            this.scheduleWorkflow(wf.id, wf.cronExpression);
+  async stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (this.leading) {
+      this.leading = false;
+      await prisma.schedulerLease.deleteMany({
+        where: { name: LEASE_NAME, holderId: this.holderId },
+      });
+    }
+  }
+
+  async tick() {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const leading = await this.acquireLease();
+      if (leading !== this.leading) {
+        console.log(leading ? 'Scheduler lease acquired' : 'Scheduler lease lost');
+        this.leading = leading;
+      }
+      if (!leading) return;
+
+      const workflows = await prisma.workflow.findMany({
+        where: { isActive: true, triggerType: 'schedule', cronExpression: { not: null } },
+      });
+
+      for (const workflow of workflows) {
+        // A slow transaction can outlast the lease; stop if another instance took over
+        if (!(await this.acquireLease())) {
+          this.leading = false;
+          console.log('Scheduler lease lost');
+          return;
         }
+        await this.fireDue(workflow);
+      }
+    } catch (error) {
+      console.error('Scheduler tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Take or renew the lease. It is only taken over once the previous
+   * holder's lease has expired.
+   */
+  private async acquireLease(): Promise<boolean> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + config.schedulerLeaseSeconds * 1000);
+
+    const renewed = await prisma.schedulerLease.updateMany({
+      where: {
+        name: LEASE_NAME,
+        OR: [{ holderId: this.holderId }, { expiresAt: { lt: now } }],
+      },
+      data: { holderId: this.holderId, expiresAt },
     });
+    if (renewed.count > 0) return true;
+
+    try {
+      await prisma.schedulerLease.create({
+        data: { name: LEASE_NAME, holderId: this.holderId, expiresAt },
+      });
+      return true;
+    } catch (error) {
+      // Another instance holds an unexpired lease
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
   }
 
   /**
-   * Schedule a workflow execution
+   * Fire every cron time since the workflow's last recorded fire. Times
+   * older than the grace window were missed and go through the misfire policy.
    */
-  scheduleWorkflow(workflowId: string, cronExpression: string) {
-    if (this.jobs.has(workflowId)) {
-      this.jobs.get(workflowId)?.stop();
+  private async fireDue(workflow: Workflow) {
+    const now = new Date();
+    const lastFire = await prisma.scheduleFire.findFirst({
+      where: { workflowId: workflow.id },
+      orderBy: { scheduledFor: 'desc' },
+    });
+
+    // A schedule starts counting from its last fire, but never from before
+    // it was last activated or resumed, so time spent paused is not caught up
+    const armedAt = workflow.activatedAt ?? workflow.updatedAt;
+    const since = lastFire && lastFire.scheduledFor > armedAt ? lastFire.scheduledFor : armedAt;
+    let due: Date[];
+    try {
+      due = cronService.fireTimesBetween(
+        workflow.cronExpression!,
+        workflow.timezone,
+        since,
+        now,
+        MAX_CATCH_UP_FIRES
+      );
+    } catch (error) {
+      console.error(`Invalid schedule for workflow ${workflow.id}:`, error);
+      return;
     }
+    if (due.length === 0) return;
 
-    console.log(`Scheduling workflow ${workflowId} with cron: ${cronExpression}`);
-
-    const task = cron.schedule(cronExpression, async () => {
-      console.log(`Executing scheduled workflow: ${workflowId}`);
-      try {
-        // Trigger workflow execution on-chain
-        // Note: We need the owner's address and maybe a funded account for the backend to execute it?
-        // Or we just emit an event?
-        // For MVP, we'll log it. In production, backend wallet calls 'execute_workflow'
-        
-        await aptosService.executeWorkflow(workflowId); 
-        console.log(`Workflow ${workflowId} triggered successfully.`);
-      } catch (error) {
-        console.error(`Failed to execute scheduled workflow ${workflowId}:`, error);
+    const graceStart = now.getTime() - config.schedulerMisfireGraceSeconds * 1000;
+    const missed = due.filter((time) => time.getTime() < graceStart);
+    const onTime = due.filter((time) => time.getTime() >= graceStart);
+
+    if (missed.length > 0) {
+      await this.handleMisfires(workflow, missed, onTime.length > 0);
+    }
+
+    for (const scheduledFor of onTime) {
+      await this.fire(workflow.id, scheduledFor, false);
+    }
+  }
+
+  /**
+   * skip: record the latest missed time as skipped so it is not revisited.
+   * run_once: fire the latest missed time, unless an on-time fire is about to run.
+   * run_all: fire every missed time in order.
+   */
+  private async handleMisfires(workflow: Workflow, missed: Date[], hasOnTimeFire: boolean) {
+    const policy: MisfirePolicy = config.schedulerMisfirePolicy;
+    const latest = missed[missed.length - 1];
+
+    console.warn(
+      `Workflow ${workflow.id} missed ${missed.length} scheduled fire(s); applying misfire policy '${policy}'`
+    );
+
+    if (policy === 'run_all') {
+      for (const scheduledFor of missed) {
+        await this.fire(workflow.id, scheduledFor, true);
       }
-    });
+      return;
+    }
+
+    if (policy === 'run_once' && !hasOnTimeFire) {
+      await this.fire(workflow.id, latest, true);
+      return;
+    }
 
-    this.jobs.set(workflowId, task);
+    await this.recordFire(workflow.id, latest, { status: 'SKIPPED', catchUp: true });
   }
 
   /**
-   * Stop a scheduled workflow
+   * Record the fire first so no other instance can fire the same time,
+   * then execute
    */
-  stopWorkflow(workflowId: string) {
-    if (this.jobs.has(workflowId)) {
-      this.jobs.get(workflowId)?.stop();
-      this.jobs.delete(workflowId);
-      console.log(`Stopped scheduled workflow: ${workflowId}`);
+  private async fire(workflowId: string, scheduledFor: Date, catchUp: boolean) {
+    const fire = await this.recordFire(workflowId, scheduledFor, { status: 'FIRING', catchUp });
+    if (!fire) return;
+
+    console.log(`Executing scheduled workflow: ${workflowId} (${scheduledFor.toISOString()})`);
+    try {
+      // Trigger workflow execution on-chain via its WorkflowStore entry
+      const { run } = await workflowService.executeWorkflow(workflowId, 'schedule');
+
+      await prisma.scheduleFire.update({
+        where: { id: fire.id },
+        data: { status: 'FIRED', runId: run.id },
+      });
+
+      if (run.status === 'FAILED') {
+        const hint = run.errorCode ? workflowErrorHint(run.errorCode) : null;
+        console.error(
+          `Scheduled workflow ${workflowId} failed on-chain: [${run.errorCode ?? 'UNKNOWN'}] ${run.errorMessage}` +
+            (hint ? ` - ${hint}` : '')
+        );
+      } else if (run.status === 'SKIPPED') {
+        console.log(`Scheduled workflow ${workflowId} skipped: its conditions were not met`);
+      } else {
+        console.log(`Workflow ${workflowId} triggered successfully.`);
+      }
+    } catch (error) {
+      await prisma.scheduleFire.update({
+        where: { id: fire.id },
+        data: {
+          status: 'FAILED',
+          error: error instanceof Error ? error.message : 'Execution failed',
+        },
+      });
+
+      if (error instanceof WorkflowExecutionError) {
+        console.error(
+          `Failed to execute scheduled workflow ${workflowId}: [${error.code}] ${error.message} - ${error.hint}`
+        );
+      } else {
+        console.error(`Failed to execute scheduled workflow ${workflowId}:`, error);
+      }
     }
   }
 
   /**
-   * Handle Wait Node resumption
-   * @param workflowId 
-   * @param durationSeconds 
+   * Insert a fire row; returns null when the time was already recorded
    */
-  async scheduleResume(workflowId: string, durationSeconds: number) {
-    console.log(`Scheduling resume for workflow ${workflowId} in ${durationSeconds}s`);
-    
-    setTimeout(async () => {
-      console.log(`Resuming workflow ${workflowId} after wait`);
-      try {
-        // await aptosService.resumeWorkflow(workflowId);
-      } catch (error) {
-        console.error(`Failed to resume workflow ${workflowId}:`, error);
+  private async recordFire(
+    workflowId: string,
+    scheduledFor: Date,
+    data: Pick<Prisma.ScheduleFireUncheckedCreateInput, 'status' | 'catchUp'>
+  ) {
+    try {
+      return await prisma.scheduleFire.create({
+        data: { workflowId, scheduledFor, ...data },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
       }
-    }, durationSeconds * 1000);
+      throw error;
+    }
   }
 }
 
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import prisma from '@/utils/prisma.js';
+import { config } from '@/config/index.js';
+import { WebhookService, type WebhookDelivery } from '@/services/webhook.service.js';
+import { workflowService } from '@/services/workflow.service.js';
+import type { WebhookEndpoint, Workflow, WorkflowRun } from '../generated/client/client.js';
+
+const WORKFLOW_ID = 'workflow-1';
+const TOKEN = 't'.repeat(64);
+const SECRET = 's'.repeat(64);
+const OLD_SECRET = 'o'.repeat(64);
+
+const workflow = {
+  id: WORKFLOW_ID,
+  isActive: true,
+  workflowData: { nodes: [{ id: 'n1', type: 'webhook_trigger', data: { event: 'order.paid' } }], edges: [] },
+} as unknown as Workflow;
+
+type EnqueueResult = Awaited<ReturnType<typeof workflowService.enqueueWorkflow>>;
+
+const now = () => String(Math.floor(Date.now() / 1000));
+
+describe('WebhookService.receive', () => {
+  let service: WebhookService;
+  let endpoint: WebhookEndpoint;
+  let enqueue: jest.SpiedFunction<typeof workflowService.enqueueWorkflow>;
+
+  /**
+   * A delivery of `body` signed with `secret` at `timestamp`
+   */
+  function delivery(body: object, { secret = SECRET, timestamp = now() } = {}): WebhookDelivery {
+    const raw = Buffer.from(JSON.stringify(body));
+    return { timestamp, signature: service.sign(secret, timestamp, raw), body: raw };
+  }
+
+  beforeEach(() => {
+    service = new WebhookService();
+    endpoint = {
+      id: 'endpoint-1',
+      workflowId: WORKFLOW_ID,
+      token: TOKEN,
+      secret: SECRET,
+      previousSecret: null,
+      previousExpiresAt: null,
+    } as WebhookEndpoint;
+
+    // The endpoint and workflow in memory instead of Postgres
+    Object.defineProperty(prisma, 'webhookEndpoint', {
+      configurable: true,
+      value: {
+        findUnique: async () => endpoint,
+        update: async () => endpoint,
+      },
+    });
+    Object.defineProperty(prisma, 'workflow', {
+      configurable: true,
+      value: { findUnique: async () => workflow },
+    });
+
+    enqueue = jest.spyOn(workflowService, 'enqueueWorkflow').mockImplementation(async (workflowId) => {
+      const run = { id: `run-${enqueue.mock.calls.length}`, workflowId, status: 'PENDING' } as WorkflowRun;
+      return { run, duplicate: false } as EnqueueResult;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('queues a run for a delivery signed with the current secret', async () => {
+    const receipt = await service.receive(WORKFLOW_ID, TOKEN, delivery({ event: 'order.paid', id: 7 }));
+
+    expect(receipt).toMatchObject({ accepted: true, runId: 'run-1' });
+    expect(enqueue).toHaveBeenCalledWith(
+      WORKFLOW_ID,
+      'webhook',
+      expect.objectContaining({ triggerContext: expect.objectContaining({ payload: { event: 'order.paid', id: 7 } }) })
+    );
+  });
+
+  it('accepts a signature with a sha256= prefix', async () => {
+    const signed = delivery({ event: 'order.paid' });
+
+    const receipt = await service.receive(WORKFLOW_ID, TOKEN, { ...signed, signature: `sha256=${signed.signature}` });
+
+    expect(receipt.accepted).toBe(true);
+  });
+
+  it('rejects a timestamp outside the replay window', async () => {
+    const timestamp = String(Math.floor(Date.now() / 1000) - config.webhookToleranceSeconds - 60);
+
+    await expect(
+      service.receive(WORKFLOW_ID, TOKEN, delivery({ event: 'order.paid' }, { timestamp }))
+    ).rejects.toMatchObject({ statusCode: 401, message: expect.stringMatching(/replay window/) });
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+
+  it('rejects a signature made with another secret', async () => {
+    await expect(
+      service.receive(WORKFLOW_ID, TOKEN, delivery({ event: 'order.paid' }, { secret: 'x'.repeat(64) }))
+    ).rejects.toMatchObject({ statusCode: 401, message: 'Invalid webhook signature' });
+  });
+
+  it('accepts the previous secret inside the grace window', async () => {
+    Object.assign(endpoint, { previousSecret: OLD_SECRET, previousExpiresAt: new Date(Date.now() + 60_000) });
+
+    const receipt = await service.receive(WORKFLOW_ID, TOKEN, delivery({ event: 'order.paid' }, { secret: OLD_SECRET }));
+
+    expect(receipt.accepted).toBe(true);
+  });
+
+  it('rejects the previous secret once the grace window is over', async () => {
+    Object.assign(endpoint, { previousSecret: OLD_SECRET, previousExpiresAt: new Date(Date.now() - 1000) });
+
+    await expect(
+      service.receive(WORKFLOW_ID, TOKEN, delivery({ event: 'order.paid' }, { secret: OLD_SECRET }))
+    ).rejects.toMatchObject({ statusCode: 401, message: 'Invalid webhook signature' });
+  });
+
+  it('keys a delivery signed with both secrets during rotation as one delivery', async () => {
+    Object.assign(endpoint, { previousSecret: OLD_SECRET, previousExpiresAt: new Date(Date.now() + 60_000) });
+    const timestamp = now();
+
+    await service.receive(WORKFLOW_ID, TOKEN, delivery({ event: 'order.paid' }, { timestamp, secret: OLD_SECRET }));
+    await service.receive(WORKFLOW_ID, TOKEN, delivery({ event: 'order.paid' }, { timestamp, secret: SECRET }));
+
+    const [first, second] = enqueue.mock.calls.map(([, , options]) => options?.idempotencyKey);
+    expect(first).toMatch(new RegExp(`^webhook:${WORKFLOW_ID}:[0-9a-f]{64}$`));
+    expect(second).toBe(first);
+  });
+
+  it('rejects a wrong URL token as not found', async () => {
+    await expect(
+      service.receive(WORKFLOW_ID, 'u'.repeat(64), delivery({ event: 'order.paid' }))
+    ).rejects.toMatchObject({ statusCode: 404 });
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+
+  it('does not run deliveries for another event', async () => {
+    const receipt = await service.receive(WORKFLOW_ID, TOKEN, delivery({ event: 'order.refunded' }));
+
+    expect(receipt).toEqual({ accepted: false, reason: "Event 'order.refunded' does not match the trigger's 'order.paid'" });
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,205 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import prisma from '@/utils/prisma.js';
+import { config } from '@/config/index.js';
+import { AppError } from '@/middleware/error.middleware.js';
+import { workflowService } from '@/services/workflow.service.js';
+import { toCanvasGraph } from '@/utils/workflow-graph.js';
+import type { WebhookEndpoint } from '../generated/client/client.js';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-aptosflow-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-aptosflow-timestamp';
+export const WEBHOOK_EVENT_HEADER = 'x-aptosflow-event';
+
+export interface WebhookDelivery {
+  /** Unix seconds the sender signed the delivery at */
+  timestamp?: string;
+  /** Hex HMAC-SHA256 of "<timestamp>.<body>", optionally prefixed "sha256=" */
+  signature?: string;
+  /** Event name, when not given as `event` in a JSON body */
+  event?: string;
+  body: Buffer;
+}
+
+export type WebhookReceipt =
+  | { accepted: true; runId: string; status: string; duplicate: boolean }
+  | { accepted: false; reason: string };
+
+/**
+ * Webhook triggers: each webhook-triggered workflow gets an unguessable URL
+ * token and a secret that senders sign deliveries with. A signature covers
+ * the timestamp, so a captured delivery only verifies within the tolerance
+ * window, and the same delivery never starts a second run, whichever
+ * secret it was signed with.
+ */
+export class WebhookService {
+  async getEndpoint(workflowId: string) {
+    const endpoint = await prisma.webhookEndpoint.findUnique({ where: { workflowId } });
+    if (!endpoint) {
+      throw new AppError(404, `Workflow ${workflowId} has no webhook`);
+    }
+    return endpoint;
+  }
+
+  /**
+   * Create the endpoint of a workflow with a webhook trigger. The secret is
+   * only ever returned here and by rotateSecret.
+   */
+  async createEndpoint(workflowId: string) {
+    await this.webhookTrigger(workflowId);
+
+    const existing = await prisma.webhookEndpoint.findUnique({ where: { workflowId } });
+    if (existing) {
+      throw new AppError(409, `Workflow ${workflowId} already has a webhook; rotate its secret instead`);
+    }
+
+    return prisma.webhookEndpoint.create({
+      data: { workflowId, token: this.randomToken(), secret: this.randomToken() },
+    });
+  }
+
+  /**
+   * Replace the signing secret. The old secret keeps verifying for the
+   * configured grace period so senders can switch over; with `rotateToken`
+   * the URL changes too and the old URL stops working at once.
+   */
+  async rotateSecret(workflowId: string, { rotateToken = false }: { rotateToken?: boolean } = {}) {
+    const endpoint = await this.getEndpoint(workflowId);
+    const now = new Date();
+
+    return prisma.webhookEndpoint.update({
+      where: { id: endpoint.id },
+      data: {
+        secret: this.randomToken(),
+        previousSecret: endpoint.secret,
+        previousExpiresAt: new Date(now.getTime() + config.webhookSecretGraceSeconds * 1000),
+        rotatedAt: now,
+        ...(rotateToken && { token: this.randomToken() }),
+      },
+    });
+  }
+
+  /**
+   * Hex HMAC-SHA256 signature of a delivery, as senders compute it
+   */
+  sign(secret: string, timestamp: string, body: Buffer | string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.`).update(body).digest('hex');
+  }
+
+  /**
+   * Authenticate a delivery and queue a run of the workflow with the
+   * payload as its trigger context (trigger.payload in custom conditions).
+   * Deliveries for a different event than the trigger's are not run.
+   */
+  async receive(workflowId: string, token: string, delivery: WebhookDelivery): Promise<WebhookReceipt> {
+    const endpoint = await prisma.webhookEndpoint.findUnique({ where: { workflowId } });
+    if (!endpoint || !this.safeEqual(endpoint.token, token)) {
+      throw new AppError(404, 'Webhook not found');
+    }
+
+    this.verify(endpoint, delivery);
+    const trigger = await this.webhookTrigger(workflowId);
+    if (!trigger.isActive) {
+      throw new AppError(409, `Workflow ${workflowId} is not active`);
+    }
+    const payload = this.parseBody(delivery.body);
+
+    const event = delivery.event ?? (isEventPayload(payload) ? payload.event : undefined);
+    if (event !== trigger.event) {
+      return { accepted: false, reason: `Event '${event ?? ''}' does not match the trigger's '${trigger.event}'` };
+    }
+
+    const receivedAt = new Date();
+    await prisma.webhookEndpoint.update({ where: { id: endpoint.id }, data: { lastDeliveryAt: receivedAt } });
+
+    const { run, duplicate } = await workflowService.enqueueWorkflow(workflowId, 'webhook', {
+      idempotencyKey: `webhook:${workflowId}:${this.deliveryId(delivery)}`,
+      triggerContext: {
+        event,
+        payload: payload ?? null,
+        signedAt: new Date(Number(delivery.timestamp) * 1000).toISOString(),
+        receivedAt: receivedAt.toISOString(),
+      },
+    });
+
+    return { accepted: true, runId: run.id, status: run.status, duplicate };
+  }
+
+  /**
+   * Check the timestamp is inside the replay window and the signature was
+   * made with the current or a recently rotated secret
+   */
+  private verify(endpoint: WebhookEndpoint, { timestamp, signature, body }: WebhookDelivery): void {
+    if (!timestamp || !/^\d+$/.test(timestamp)) {
+      throw new AppError(401, `Missing or invalid ${WEBHOOK_TIMESTAMP_HEADER} header (unix seconds)`);
+    }
+    const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+    if (age > config.webhookToleranceSeconds) {
+      throw new AppError(401, `Delivery timestamp is outside the ${config.webhookToleranceSeconds}s replay window`);
+    }
+
+    const given = signature?.trim().replace(/^sha256=/, '').toLowerCase();
+    if (!given) {
+      throw new AppError(401, `Missing ${WEBHOOK_SIGNATURE_HEADER} header`);
+    }
+
+    const secrets = [endpoint.secret];
+    if (endpoint.previousSecret && endpoint.previousExpiresAt && endpoint.previousExpiresAt > new Date()) {
+      secrets.push(endpoint.previousSecret);
+    }
+    if (!secrets.some((secret) => this.safeEqual(this.sign(secret, timestamp, body), given))) {
+      throw new AppError(401, 'Invalid webhook signature');
+    }
+  }
+
+  /**
+   * Identity of a delivery: the signed timestamp and body, so re-signing it
+   * with a rotated secret does not make it a new delivery
+   */
+  private deliveryId({ timestamp, body }: WebhookDelivery): string {
+    return createHash('sha256').update(`${timestamp}.`).update(body).digest('hex');
+  }
+
+  /**
+   * Parameters of the workflow's webhook trigger node
+   */
+  private async webhookTrigger(workflowId: string): Promise<{ event: string; isActive: boolean }> {
+    const workflow = await prisma.workflow.findUnique({ where: { id: workflowId } });
+    if (!workflow) {
+      throw new AppError(404, `Workflow ${workflowId} not found`);
+    }
+
+    const node = toCanvasGraph(workflow.workflowData).nodes.find((n) => n.type === 'webhook_trigger');
+    if (!node) {
+      throw new AppError(409, `Workflow ${workflowId} does not have a webhook trigger`);
+    }
+    const params = node.data ?? (node as Record<string, any>);
+    return { event: String(params.event ?? ''), isActive: workflow.isActive };
+  }
+
+  private parseBody(body: Buffer): unknown {
+    if (body.length === 0) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(body.toString('utf8'));
+    } catch {
+      throw new AppError(400, 'Webhook body must be JSON');
+    }
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+  }
+
+  private randomToken(): string {
+    return randomBytes(32).toString('hex');
+  }
+}
+
+function isEventPayload(payload: unknown): payload is { event: string } {
+  return typeof payload === 'object' && payload !== null && typeof (payload as { event?: unknown }).event === 'string';
+}
+
+export const webhookService = new WebhookService();
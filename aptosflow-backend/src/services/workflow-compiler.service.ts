@@ -0,0 +1,493 @@
+import { createHash } from 'crypto';
+import { AppError } from '@/middleware/error.middleware.js';
+import {
+  CONTRACT_NODE_TYPES,
+  MAX_NODES_PER_WORKFLOW,
+  MAX_RECURSION_DEPTH,
+  NODE_TYPE,
+  ZERO_ADDRESS,
+  type CompiledWorkflow,
+} from '@/types/contract.types.js';
+import type { CanvasEdge, CanvasGraph, CanvasNode } from '@/types/workflow.types.js';
+
+const U64_MAX = BigInt('18446744073709551615');
+const ADDRESS_REGEX = /^0x[a-fA-F0-9]{1,64}$/;
+// Condition nodes the backend can evaluate when the contract cannot
+const CONDITION_NODE_TYPES = ['balance_check', 'oracle_check', 'time_condition', 'custom_condition', 'multi_condition'];
+
+export interface CompileError {
+  nodeId?: string;
+  message: string;
+}
+
+export interface CompileOptions {
+  /** Canvas node to start from instead of the trigger's successor (used to resume after a wait) */
+  startNodeId?: string;
+}
+
+interface SegmentContext {
+  graph: CanvasGraph;
+  nodes: Map<string, CanvasNode>;
+  outgoing: Map<string, CanvasEdge[]>;
+  errors: CompileError[];
+  /** Start nodes already compiled, so waits inside loops terminate */
+  compiledStarts: Set<string>;
+}
+
+export class WorkflowCompilerService {
+  /**
+   * Compile a canvas graph into register_and_execute_workflow arguments.
+   * Wait nodes end the compiled segment: the contract cannot sleep, so the
+   * nodes after a wait are compiled separately when the run is resumed.
+   * Off-chain conditions at the start of a segment are left out; they are
+   * evaluated before the transaction is submitted (see `gates`).
+   * Throws an AppError listing every problem the contract would abort on,
+   * including problems in the segments after each wait.
+   */
+  compile(graph: CanvasGraph, options: CompileOptions = {}): CompiledWorkflow {
+    const errors: CompileError[] = [];
+    const { nodes, outgoing } = this.index(graph, errors);
+
+    const context: SegmentContext = { graph, nodes, outgoing, errors, compiledStarts: new Set() };
+    const compiled = this.compileSegment(context, options.startNodeId);
+
+    if (!compiled || errors.length > 0) {
+      // Segments that share nodes can report the same problem twice
+      const unique = new Map(errors.map((e) => [`${e.nodeId ?? ''}:${e.message}`, e]));
+      throw this.compileError([...unique.values()]);
+    }
+
+    return compiled;
+  }
+
+  /**
+   * Conditions the contract cannot express that lead the segment `compile`
+   * would start at, in order. The run is only submitted when all of them
+   * hold. Problems with the graph itself are left to `compile` to report.
+   */
+  gates(graph: CanvasGraph, options: CompileOptions = {}): CanvasNode[] {
+    const errors: CompileError[] = [];
+    const { nodes, outgoing } = this.index(graph, errors);
+
+    const startId = options.startNodeId !== undefined
+      ? this.checkResumeNode(options.startNodeId, nodes, errors)
+      : this.findStartNode(nodes, graph.edges ?? [], outgoing, errors);
+    if (!startId) {
+      return [];
+    }
+
+    const gates: CanvasNode[] = [];
+    let id: string | undefined = startId;
+    while (id !== undefined && this.isGate(nodes.get(id)!, outgoing) && !gates.some((g) => g.id === id)) {
+      gates.push(nodes.get(id)!);
+      id = outgoing.get(id)![0].target;
+    }
+    return gates;
+  }
+
+  /**
+   * Canvas node a wait node resumes into, if any
+   */
+  resumeTarget(graph: CanvasGraph, waitNodeId: string): string | null {
+    return (graph.edges ?? []).find((e) => e.source === waitNodeId)?.target ?? null;
+  }
+
+  private compileSegment(
+    context: SegmentContext,
+    startNodeId: string | undefined
+  ): CompiledWorkflow | null {
+    const { graph, nodes, outgoing, errors, compiledStarts } = context;
+
+    const startId = startNodeId !== undefined
+      ? this.checkResumeNode(startNodeId, nodes, errors)
+      : this.findStartNode(nodes, graph.edges ?? [], outgoing, errors);
+    if (!startId) {
+      return null;
+    }
+    compiledStarts.add(startId);
+
+    const firstId = this.skipGates(startId, nodes, outgoing, errors);
+    if (!firstId) {
+      return null;
+    }
+
+    // Only the edges of nodes inside this segment are followed
+    const segmentEdges = (id: string) =>
+      nodes.get(id)?.type === 'wait_node' ? [] : outgoing.get(id) ?? [];
+
+    // Assign on-chain ids in BFS order so the start node is always node_ids[0]
+    const order: string[] = [];
+    const nodeIdMap: Record<string, number> = {};
+    const queue = [firstId];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (id in nodeIdMap) continue;
+      nodeIdMap[id] = order.length + 1;
+      order.push(id);
+      for (const edge of segmentEdges(id)) {
+        queue.push(edge.target);
+      }
+    }
+
+    if (order.length > MAX_NODES_PER_WORKFLOW) {
+      errors.push({
+        message: `Workflow has ${order.length} executable nodes; the contract allows at most ${MAX_NODES_PER_WORKFLOW}`,
+      });
+    }
+
+    const compiled: CompiledWorkflow = {
+      nodeIds: [],
+      nodeTypes: [],
+      targetAddresses: [],
+      amounts: [],
+      nextNodeCounts: [],
+      flatNextNodeIds: [],
+      nodeIdMap,
+    };
+
+    for (const id of order) {
+      const node = nodes.get(id)!;
+      const nodeType = CONTRACT_NODE_TYPES[node.type];
+
+      if (nodeType === undefined) {
+        errors.push({
+          nodeId: id,
+          message: node.type.endsWith('_trigger')
+            ? 'Trigger nodes can only start a workflow'
+            : CONDITION_NODE_TYPES.includes(node.type)
+              ? 'Off-chain conditions must come before the first on-chain node and have a single outgoing edge'
+              : `Node type '${node.type}' is not supported by the on-chain executor`,
+        });
+        continue;
+      }
+
+      if (nodeType === NODE_TYPE.WAIT) {
+        this.checkWait(node, outgoing.get(id) ?? [], errors);
+      }
+
+      const nextIds = this.orderNextIds(node, segmentEdges(id), errors).map(
+        (target) => nodeIdMap[target]
+      );
+      const { targetAddress, amount } = this.encodeParams(node, errors);
+
+      compiled.nodeIds.push(nodeIdMap[id]);
+      compiled.nodeTypes.push(nodeType);
+      compiled.targetAddresses.push(targetAddress);
+      compiled.amounts.push(amount);
+      compiled.nextNodeCounts.push(nextIds.length);
+      compiled.flatNextNodeIds.push(...nextIds);
+    }
+
+    const depth = this.measureDepth(firstId, segmentEdges, errors);
+    if (depth > MAX_RECURSION_DEPTH) {
+      errors.push({
+        message: `Longest path has ${depth} nodes; the contract recursion limit is ${MAX_RECURSION_DEPTH}`,
+      });
+    }
+
+    // Validate what runs after each wait now rather than when it resumes
+    for (const id of order) {
+      const target = nodes.get(id)?.type === 'wait_node' ? this.resumeTarget(graph, id) : null;
+      if (target && !compiledStarts.has(target)) {
+        this.compileSegment(context, target);
+      }
+    }
+
+    return compiled;
+  }
+
+  /**
+   * Index nodes by id and edges by source, reporting duplicate nodes and
+   * dangling edges
+   */
+  private index(graph: CanvasGraph, errors: CompileError[]) {
+    const nodes = new Map<string, CanvasNode>();
+
+    for (const node of graph.nodes ?? []) {
+      if (nodes.has(node.id)) {
+        errors.push({ nodeId: node.id, message: 'Duplicate node id' });
+        continue;
+      }
+      nodes.set(node.id, node);
+    }
+
+    const outgoing = new Map<string, CanvasEdge[]>();
+    for (const edge of graph.edges ?? []) {
+      if (!nodes.has(edge.source) || !nodes.has(edge.target)) {
+        errors.push({
+          nodeId: nodes.has(edge.source) ? edge.source : edge.target,
+          message: `Edge ${edge.id ?? `${edge.source}->${edge.target}`} references an unknown node`,
+        });
+        continue;
+      }
+      outgoing.set(edge.source, [...(outgoing.get(edge.source) ?? []), edge]);
+    }
+
+    return { nodes, outgoing };
+  }
+
+  /**
+   * A condition the contract cannot express, with a single node after it,
+   * can gate the transaction from the backend instead
+   */
+  private isGate(node: CanvasNode, outgoing: Map<string, CanvasEdge[]>): boolean {
+    if (!CONDITION_NODE_TYPES.includes(node.type) || (outgoing.get(node.id) ?? []).length !== 1) {
+      return false;
+    }
+    if (CONTRACT_NODE_TYPES[node.type] === undefined) {
+      return true;
+    }
+
+    const errors: CompileError[] = [];
+    this.encodeParams(node, errors);
+    return errors.length > 0;
+  }
+
+  /**
+   * First node after the gates leading a segment
+   */
+  private skipGates(
+    startId: string,
+    nodes: Map<string, CanvasNode>,
+    outgoing: Map<string, CanvasEdge[]>,
+    errors: CompileError[]
+  ): string | null {
+    const seen = new Set<string>();
+    let id = startId;
+    while (this.isGate(nodes.get(id)!, outgoing)) {
+      if (seen.has(id)) {
+        errors.push({ nodeId: id, message: 'Off-chain conditions form a cycle with no on-chain node' });
+        return null;
+      }
+      seen.add(id);
+      id = outgoing.get(id)![0].target;
+    }
+    return id;
+  }
+
+  /**
+   * Stable hash of everything that ends up on-chain, used to tell whether a
+   * registered workflow still matches the current graph
+   */
+  fingerprint(compiled: CompiledWorkflow): string {
+    return createHash('sha256').update(JSON.stringify(compiled)).digest('hex');
+  }
+
+  /**
+   * The contract starts at a single node: the trigger's only successor,
+   * or the sole root when the graph has no trigger
+   */
+  private findStartNode(
+    nodes: Map<string, CanvasNode>,
+    edges: CanvasEdge[],
+    outgoing: Map<string, CanvasEdge[]>,
+    errors: CompileError[]
+  ): string | null {
+    const triggers = [...nodes.values()].filter((n) => n.type.endsWith('_trigger'));
+
+    if (triggers.length > 1) {
+      errors.push({ message: 'Workflow must have exactly one trigger node' });
+      return null;
+    }
+
+    if (triggers.length === 1) {
+      const next = outgoing.get(triggers[0].id) ?? [];
+      if (next.length !== 1) {
+        errors.push({
+          nodeId: triggers[0].id,
+          message: next.length === 0
+            ? 'Trigger is not connected to any node'
+            : 'Trigger must connect to exactly one node',
+        });
+        return null;
+      }
+      return next[0].target;
+    }
+
+    const targets = new Set(edges.map((e) => e.target));
+    const roots = [...nodes.keys()].filter((id) => !targets.has(id));
+    if (roots.length !== 1) {
+      errors.push({ message: 'Workflow must have a single start node' });
+      return null;
+    }
+    return roots[0];
+  }
+
+  private checkResumeNode(
+    startNodeId: string,
+    nodes: Map<string, CanvasNode>,
+    errors: CompileError[]
+  ): string | null {
+    if (!nodes.has(startNodeId)) {
+      errors.push({ nodeId: startNodeId, message: 'Resume node no longer exists in the workflow' });
+      return null;
+    }
+    return startNodeId;
+  }
+
+  /**
+   * A wait pauses the run and resumes into a single node
+   */
+  private checkWait(node: CanvasNode, edges: CanvasEdge[], errors: CompileError[]) {
+    if (edges.length > 1) {
+      errors.push({ nodeId: node.id, message: 'Wait node can connect to at most one node' });
+    }
+  }
+
+  /**
+   * Branch nodes must list their targets as [true, false]
+   */
+  private orderNextIds(node: CanvasNode, edges: CanvasEdge[], errors: CompileError[]): string[] {
+    if (node.type !== 'branch_node') {
+      return edges.map((e) => e.target);
+    }
+
+    const trueEdge = edges.find((e) => this.branchLabel(e) === 'true');
+    const falseEdge = edges.find((e) => this.branchLabel(e) === 'false');
+
+    if (edges.length !== 2 || !trueEdge || !falseEdge) {
+      errors.push({
+        nodeId: node.id,
+        message: 'Branch node needs exactly one "true" and one "false" outgoing edge',
+      });
+      return [];
+    }
+
+    return [trueEdge.target, falseEdge.target];
+  }
+
+  private branchLabel(edge: CanvasEdge): string | undefined {
+    return (edge.sourceHandle ?? edge.label)?.toString().toLowerCase();
+  }
+
+  /**
+   * Map node parameters onto the generic target_address / amount fields
+   */
+  private encodeParams(
+    node: CanvasNode,
+    errors: CompileError[]
+  ): { targetAddress: string; amount: string } {
+    const params = node.data ?? (node as Record<string, any>);
+    let targetAddress = ZERO_ADDRESS;
+    let amount: bigint = BigInt(0);
+
+    const address = (field: string) => {
+      const value = params[field];
+      if (typeof value !== 'string' || !ADDRESS_REGEX.test(value)) {
+        errors.push({ nodeId: node.id, message: `'${field}' must be a valid Aptos address` });
+        return ZERO_ADDRESS;
+      }
+      return value;
+    };
+
+    const u64 = (field: string, value: unknown = params[field]) => {
+      const parsed = this.toU64(value);
+      if (parsed === null) {
+        errors.push({ nodeId: node.id, message: `'${field}' must be a non-negative integer that fits in u64` });
+        return BigInt(0);
+      }
+      return parsed;
+    };
+
+    const requireApt = () => {
+      if (params.token && params.token !== 'APT') {
+        errors.push({ nodeId: node.id, message: 'Only APT is supported on-chain' });
+      }
+    };
+
+    switch (CONTRACT_NODE_TYPES[node.type]) {
+      case NODE_TYPE.TRANSFER:
+        requireApt();
+        targetAddress = address('recipient');
+        amount = u64('amount');
+        break;
+      case NODE_TYPE.BALANCE_CHECK:
+        // handle_balance_check only implements balance >= amount
+        requireApt();
+        amount = u64('amount');
+        if (params.operator === '>') {
+          amount += BigInt(1);
+        } else if (params.operator !== '>=') {
+          errors.push({
+            nodeId: node.id,
+            message: `Operator '${params.operator}' is not supported on-chain; use '>=' or '>'`,
+          });
+        }
+        break;
+      case NODE_TYPE.SWAP:
+      case NODE_TYPE.BORROW_LEND:
+        amount = u64('amount');
+        break;
+      case NODE_TYPE.STAKE:
+        targetAddress = address('poolAddress');
+        amount = u64('amount');
+        break;
+      case NODE_TYPE.VOTE:
+        targetAddress = address('daoContract');
+        amount = u64('proposalId');
+        break;
+      case NODE_TYPE.LIQUIDITY:
+        amount = u64('amountA');
+        break;
+      case NODE_TYPE.WAIT:
+        amount = u64('duration');
+        break;
+    }
+
+    return { targetAddress, amount: amount.toString() };
+  }
+
+  private toU64(value: unknown): bigint | null {
+    if (typeof value === 'number' && !Number.isSafeInteger(value)) return null;
+    if (typeof value === 'string' && !/^\d+$/.test(value.trim())) return null;
+    if (typeof value !== 'number' && typeof value !== 'string' && typeof value !== 'bigint') {
+      return null;
+    }
+
+    const parsed = BigInt(typeof value === 'string' ? value.trim() : value);
+    return parsed >= BigInt(0) && parsed <= U64_MAX ? parsed : null;
+  }
+
+  /**
+   * Longest path (in nodes) from the start node. walk_and_execute recurses
+   * once per hop, so a cycle always hits E_RECURSION_LIMIT.
+   */
+  private measureDepth(
+    startId: string,
+    segmentEdges: (id: string) => CanvasEdge[],
+    errors: CompileError[]
+  ): number {
+    const depths = new Map<string, number>();
+    const visiting = new Set<string>();
+    let hasCycle = false;
+
+    const visit = (id: string): number => {
+      if (depths.has(id)) return depths.get(id)!;
+      if (visiting.has(id)) {
+        if (!hasCycle) {
+          errors.push({ nodeId: id, message: 'Workflow contains a cycle; loops cannot run on-chain' });
+        }
+        hasCycle = true;
+        return 0;
+      }
+
+      visiting.add(id);
+      let longest = 0;
+      for (const edge of segmentEdges(id)) {
+        longest = Math.max(longest, visit(edge.target));
+      }
+      visiting.delete(id);
+
+      depths.set(id, longest + 1);
+      return longest + 1;
+    };
+
+    return visit(startId);
+  }
+
+  private compileError(errors: CompileError[]): AppError {
+    return new AppError(400, 'Workflow cannot be executed on-chain', { errors });
+  }
+}
+
+export const workflowCompilerService = new WorkflowCompilerService();
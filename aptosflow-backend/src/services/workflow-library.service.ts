@@ -0,0 +1,331 @@
+import prisma from '@/utils/prisma.js';
+import { AppError } from '@/middleware/error.middleware.js';
+import { workflowValidatorService } from '@/services/workflow-validator.service.js';
+import { workflowLifecycleService } from '@/services/workflow-lifecycle.service.js';
+import {
+  workflowVersionService,
+  type CommitOptions,
+  type VersionAuthor,
+} from '@/services/workflow-version.service.js';
+import type { Prisma, Workflow } from '../generated/client/client.js';
+import { toCanvasGraph } from '@/utils/workflow-graph.js';
+import type { CanvasGraph } from '@/types/workflow.types.js';
+
+export const DEFAULT_WORKFLOW_NAME = 'Untitled workflow';
+const MAX_NAME_LENGTH = 200;
+const MAX_PAGE_SIZE = 100;
+
+export interface WorkflowListOptions {
+  page?: number;
+  pageSize?: number;
+  /** Case-insensitive match on the name */
+  search?: string;
+  /** Only workflows with this tag in metadata.tags */
+  tag?: string;
+}
+
+export interface SaveWorkflowInput {
+  /** Workflow to overwrite; a new one is created when omitted */
+  workflowId?: string;
+  name?: string;
+  /** Describes the change in the version history */
+  message?: string;
+  /** Version the graph was loaded at; required when overwriting */
+  revision?: number;
+  graph: CanvasGraph & { metadata?: Record<string, any> };
+}
+
+/**
+ * The workflows a wallet owns. Each wallet can keep any number of named
+ * workflows, whether generated from a prompt or built on the canvas.
+ * Changes by id check that the workflow belongs to the wallet making them.
+ */
+export class WorkflowLibraryService {
+  /**
+   * A page of a wallet's workflows, most recently updated first
+   */
+  async list(walletAddress: string, { page = 1, pageSize = 20, search, tag }: WorkflowListOptions = {}) {
+    const take = Math.min(Math.max(Math.floor(pageSize) || 20, 1), MAX_PAGE_SIZE);
+    const current = Math.max(Math.floor(page) || 1, 1);
+
+    const where: Prisma.WorkflowWhereInput = {
+      user: { walletAddress },
+      ...(search && { name: { contains: search, mode: 'insensitive' } }),
+      ...(tag && { workflowData: { path: ['metadata', 'tags'], array_contains: [tag] } }),
+    };
+
+    const [workflows, total] = await prisma.$transaction([
+      prisma.workflow.findMany({
+        where,
+        orderBy: { updatedAt: 'desc' },
+        skip: (current - 1) * take,
+        take,
+      }),
+      prisma.workflow.count({ where }),
+    ]);
+
+    return { workflows, page: current, pageSize: take, total, totalPages: Math.ceil(total / take) };
+  }
+
+  async get(workflowId: string) {
+    const workflow = await prisma.workflow.findUnique({ where: { id: workflowId } });
+    if (!workflow) {
+      throw new AppError(404, `Workflow ${workflowId} not found`);
+    }
+    return workflow;
+  }
+
+  /**
+   * The wallet's most recently updated workflow, if any
+   */
+  async latest(walletAddress: string) {
+    return prisma.workflow.findFirst({
+      where: { user: { walletAddress } },
+      orderBy: { updatedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Create a workflow for a wallet. An empty graph is allowed so a blank
+   * canvas can be named before anything is on it; anything else has to
+   * pass validation.
+   */
+  async create(walletAddress: string, { name, message, graph }: Omit<SaveWorkflowInput, 'workflowId'>) {
+    if (!Array.isArray(graph.nodes) || !Array.isArray(graph.edges) || graph.nodes.length + graph.edges.length > 0) {
+      this.validate(graph);
+    }
+
+    const user = await this.getOrCreateUser(walletAddress);
+    const workflowData = this.workflowData(graph);
+    return prisma.workflow.create({
+      data: {
+        userId: user.id,
+        name: this.cleanName(name ?? graph.metadata?.name),
+        workflowData,
+        executionStatus: 'DRAFT',
+        ...workflowVersionService.initial(workflowData, { authorWallet: walletAddress, message: message ?? 'Created' }),
+      },
+    });
+  }
+
+  /**
+   * Save a canvas as the next version of the wallet's workflow when
+   * `workflowId` is given, otherwise as a new workflow. Overwriting needs
+   * the revision the canvas was loaded at, and is refused with a 409 when
+   * someone saved since. An active workflow's trigger is re-derived from
+   * the saved graph.
+   */
+  async save(walletAddress: string, { workflowId, name, message, revision, graph }: SaveWorkflowInput) {
+    this.validate(graph);
+    if (!workflowId) {
+      return this.create(walletAddress, { name, message, graph });
+    }
+    this.assertRevision(revision);
+
+    const workflow = await this.getOwned(workflowId, walletAddress);
+
+    // The canvas does not send metadata back; keep the stored name and tags
+    const metadata = graph.metadata ?? (workflow.workflowData as Record<string, any> | null)?.metadata;
+
+    return this.commit(
+      workflow,
+      this.workflowData({ ...graph, metadata }),
+      { authorWallet: walletAddress, message },
+      { changes: name !== undefined ? { name: this.cleanName(name) } : {}, expectedVersion: revision }
+    );
+  }
+
+  /**
+   * Restore the graph of an earlier version as a new version. The current
+   * name and tags are kept. Like save, it needs the revision the workflow
+   * was loaded at and is refused with a 409 when it was saved since.
+   */
+  async rollback(
+    workflowId: string,
+    walletAddress: string,
+    version: number,
+    { message, revision }: { message?: string; revision?: number }
+  ) {
+    this.assertRevision(revision);
+    const workflow = await this.getOwned(workflowId, walletAddress);
+    const target = await workflowVersionService.get(workflowId, version);
+    const { nodes, edges } = toCanvasGraph(target.workflowData);
+
+    this.validate({ nodes, edges });
+    const metadata = (workflow.workflowData as Record<string, any> | null)?.metadata;
+
+    return this.commit(
+      workflow,
+      this.workflowData({ nodes, edges, metadata }),
+      { authorWallet: walletAddress, message: message ?? `Rolled back to version ${version}` },
+      { expectedVersion: revision }
+    );
+  }
+
+  /**
+   * Rename a workflow and optionally replace its tags, as a new version.
+   * Like save, it needs the revision the workflow was loaded at.
+   */
+  async update(
+    workflowId: string,
+    walletAddress: string,
+    { name, tags, revision }: { name?: string; tags?: string[]; revision?: number }
+  ) {
+    if (name === undefined && tags === undefined) {
+      throw new AppError(400, 'Nothing to update; pass name or tags');
+    }
+    this.assertRevision(revision);
+
+    const workflow = await this.getOwned(workflowId, walletAddress);
+    const stored = (workflow.workflowData ?? {}) as Record<string, any>;
+    const workflowData =
+      tags !== undefined ? { ...stored, metadata: { ...stored.metadata, tags: this.cleanTags(tags) } } : stored;
+    const message = [
+      name !== undefined && `Renamed to ${this.cleanName(name)}`,
+      tags !== undefined && 'Changed tags',
+    ].filter(Boolean).join('; ');
+
+    return this.commit(
+      workflow,
+      workflowData,
+      { authorWallet: walletAddress, message },
+      { changes: name !== undefined ? { name: this.cleanName(name) } : {}, expectedVersion: revision }
+    );
+  }
+
+  /**
+   * Copy a workflow's graph into a new draft owned by the same wallet.
+   * Nothing about its activation, runs, webhook or history is copied.
+   */
+  async duplicate(workflowId: string, walletAddress: string, name?: string) {
+    const workflow = await this.getOwned(workflowId, walletAddress);
+    const workflowData = workflow.workflowData as Prisma.InputJsonValue;
+
+    return prisma.workflow.create({
+      data: {
+        userId: workflow.userId,
+        name: this.cleanName(name ?? `${workflow.name} (copy)`),
+        workflowData,
+        timezone: workflow.timezone,
+        executionStatus: 'DRAFT',
+        ...workflowVersionService.initial(workflowData, {
+          authorWallet: walletAddress,
+          message: `Duplicated from ${workflow.name} (version ${workflow.version})`,
+        }),
+      },
+    });
+  }
+
+  /**
+   * Delete a workflow with its runs and history. Armed workflows have to be
+   * deactivated first.
+   */
+  async delete(workflowId: string, walletAddress: string) {
+    const workflow = await this.getOwned(workflowId, walletAddress);
+    if (workflow.activationState !== 'INACTIVE') {
+      throw new AppError(409, `Workflow is ${workflow.activationState}; deactivate it before deleting`);
+    }
+
+    await prisma.workflow.delete({ where: { id: workflowId } });
+  }
+
+  /**
+   * Name for a workflow generated from a prompt: the name the model gave it,
+   * else the start of the prompt
+   */
+  nameFor(workflowData: unknown, promptText: string): string {
+    const metadataName = (workflowData as Record<string, any> | null)?.metadata?.name;
+    return this.cleanName(typeof metadataName === 'string' ? metadataName : promptText);
+  }
+
+  /**
+   * Tags from metadata.tags of stored workflowData
+   */
+  tagsOf(workflow: Workflow): string[] {
+    const tags = (workflow.workflowData as Record<string, any> | null)?.metadata?.tags;
+    return Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string') : [];
+  }
+
+  /**
+   * A workflow, checking that it belongs to the wallet: a 404 AppError when
+   * it does not exist and a 403 when another wallet owns it
+   */
+  async getOwned(workflowId: string, walletAddress: string) {
+    const workflow = await prisma.workflow.findUnique({
+      where: { id: workflowId },
+      include: { user: true },
+    });
+    if (!workflow) {
+      throw new AppError(404, `Workflow ${workflowId} not found`);
+    }
+    if (workflow.user.walletAddress !== walletAddress) {
+      throw new AppError(403, `Workflow ${workflowId} belongs to another wallet`);
+    }
+
+    const { user: _user, ...owned } = workflow;
+    return owned;
+  }
+
+  /**
+   * Store a new version of a workflow's graph. An active workflow's trigger
+   * is re-derived from the graph and written with it.
+   */
+  private async commit(
+    workflow: Workflow,
+    workflowData: Prisma.InputJsonValue,
+    author: VersionAuthor,
+    { changes, expectedVersion }: CommitOptions
+  ) {
+    const saved = await workflowVersionService.commit(workflow.id, workflowData, author, {
+      changes: { ...changes, ...workflowLifecycleService.refreshedTrigger(workflow, workflowData) },
+      expectedVersion,
+    });
+    await workflowLifecycleService.retireTrigger(workflow, saved);
+    return saved;
+  }
+
+  /**
+   * Changes to a stored workflow are made against the revision the client
+   * loaded, so they cannot silently overwrite someone else's save
+   */
+  private assertRevision(revision: number | undefined) {
+    if (revision === undefined) {
+      throw new AppError(428, 'Changing a workflow needs the revision it was loaded at (If-Match or revision)');
+    }
+  }
+
+  private async getOrCreateUser(walletAddress: string) {
+    return prisma.user.upsert({
+      where: { walletAddress },
+      create: { walletAddress },
+      update: {},
+    });
+  }
+
+  /**
+   * Reject graphs that are malformed or whose nodes do not match their
+   * schema, then store valid schedules normalized
+   */
+  private validate(graph: CanvasGraph) {
+    workflowValidatorService.assertValid(graph);
+    workflowValidatorService.normalize(graph);
+  }
+
+  private workflowData({ nodes, edges, metadata }: SaveWorkflowInput['graph']): Prisma.InputJsonValue {
+    return { nodes, edges, ...(metadata && { metadata }), lastSaved: new Date().toISOString() };
+  }
+
+  private cleanName(name: unknown): string {
+    const trimmed = typeof name === 'string' ? name.trim().replace(/\s+/g, ' ') : '';
+    return trimmed.slice(0, MAX_NAME_LENGTH) || DEFAULT_WORKFLOW_NAME;
+  }
+
+  private cleanTags(tags: string[]): string[] {
+    if (!Array.isArray(tags) || tags.some((tag) => typeof tag !== 'string')) {
+      throw new AppError(400, 'tags must be a list of strings');
+    }
+    return [...new Set(tags.map((tag) => tag.trim()).filter(Boolean))];
+  }
+}
+
+export const workflowLibraryService = new WorkflowLibraryService();
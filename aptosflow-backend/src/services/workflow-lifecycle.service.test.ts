@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import prisma from '@/utils/prisma.js';
+import { WorkflowLifecycleService } from '@/services/workflow-lifecycle.service.js';
+import { resumeService } from '@/services/resume.service.js';
+import type { ActivationState, Workflow } from '../generated/client/client.js';
+
+const workflowData = {
+  nodes: [
+    { id: 'trigger', type: 'manual_trigger', data: {} },
+    { id: 'send', type: 'transfer_action', data: { recipient: '0x' + 'b'.repeat(64), amount: 100 } },
+  ],
+  edges: [{ id: 'e1', source: 'trigger', target: 'send' }],
+};
+
+describe('WorkflowLifecycleService', () => {
+  let service: WorkflowLifecycleService;
+  let workflow: Workflow;
+  let suspend: jest.SpiedFunction<typeof resumeService.suspendWorkflow>;
+  let cancel: jest.SpiedFunction<typeof resumeService.cancelWorkflow>;
+
+  beforeEach(() => {
+    service = new WorkflowLifecycleService();
+    // Never activated, with its latest run waiting at a wait node
+    workflow = {
+      id: 'workflow-1',
+      workflowData,
+      executionStatus: 'PAUSED',
+      activationState: 'INACTIVE',
+      isActive: false,
+      triggerType: 'manual',
+      activatedAt: null,
+    } as unknown as Workflow;
+
+    // The workflow in memory instead of Postgres
+    Object.defineProperty(prisma, 'workflow', {
+      configurable: true,
+      value: {
+        findUnique: async () => ({ ...workflow }),
+        findUniqueOrThrow: async () => ({ ...workflow }),
+        updateMany: async ({ where, data }: { where: { activationState: { in: ActivationState[] } }; data: object }) => {
+          if (!where.activationState.in.includes(workflow.activationState)) return { count: 0 };
+          Object.assign(workflow, data);
+          return { count: 1 };
+        },
+      },
+    });
+
+    suspend = jest.spyOn(resumeService, 'suspendWorkflow').mockResolvedValue();
+    cancel = jest.spyOn(resumeService, 'cancelWorkflow').mockResolvedValue();
+    jest.spyOn(resumeService, 'unsuspendWorkflow').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('activates a workflow whose latest run is paused at a wait node', async () => {
+    const activated = await service.activate(workflow.id);
+
+    expect(activated).toMatchObject({ activationState: 'ACTIVE', isActive: true, executionStatus: 'PAUSED' });
+  });
+
+  it('does not resume or deactivate a workflow that was never activated', async () => {
+    await expect(service.resume(workflow.id)).rejects.toMatchObject({
+      statusCode: 409,
+      message: 'Workflow is INACTIVE and cannot become ACTIVE',
+    });
+    await expect(service.deactivate(workflow.id)).rejects.toMatchObject({ statusCode: 409 });
+
+    expect(cancel).not.toHaveBeenCalled();
+    expect(workflow).toMatchObject({ activationState: 'INACTIVE', executionStatus: 'PAUSED' });
+  });
+
+  it('suspends waiting runs on pause and cancels them on deactivate', async () => {
+    await service.activate(workflow.id);
+
+    await service.pause(workflow.id);
+    expect(workflow).toMatchObject({ activationState: 'PAUSED', isActive: false });
+    expect(suspend).toHaveBeenCalledWith(workflow.id);
+
+    await service.deactivate(workflow.id);
+    expect(workflow).toMatchObject({ activationState: 'INACTIVE', isActive: false, executionStatus: 'PAUSED' });
+    expect(cancel).toHaveBeenCalledWith(workflow.id);
+  });
+});
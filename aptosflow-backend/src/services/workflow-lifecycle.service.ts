@@ -0,0 +1,194 @@
+import prisma from '@/utils/prisma.js';
+import { AppError } from '@/middleware/error.middleware.js';
+import { cronService } from '@/services/cron.service.js';
+import { eventFilterService } from '@/services/event-filter.service.js';
+import { indexerService } from '@/services/indexer.service.js';
+import { priceMonitorService } from '@/services/price-monitor.service.js';
+import { resumeService } from '@/services/resume.service.js';
+import { workflowValidatorService } from '@/services/workflow-validator.service.js';
+import { TRIGGER_NODE_TYPES } from '@/types/workflow.types.js';
+import { toCanvasGraph } from '@/utils/workflow-graph.js';
+import type { ActivationState, Prisma, Workflow } from '../generated/client/client.js';
+
+/**
+ * Allowed transitions of a workflow's activation state. It is kept apart
+ * from executionStatus, which mirrors the latest run: a run waiting at a
+ * wait node is PAUSED without the workflow being paused.
+ */
+const ACTIVATABLE: ActivationState[] = ['INACTIVE'];
+const PAUSABLE: ActivationState[] = ['ACTIVE'];
+const RESUMABLE: ActivationState[] = ['PAUSED'];
+const DEACTIVATABLE: ActivationState[] = ['ACTIVE', 'PAUSED'];
+
+// Workflow.triggerType for each trigger node type
+const TRIGGER_TYPES: Record<string, string> = {
+  manual_trigger: 'manual',
+  schedule_trigger: 'schedule',
+  event_trigger: 'event',
+  price_trigger: 'price',
+  webhook_trigger: 'webhook',
+};
+
+type TriggerSettings = Pick<
+  Prisma.WorkflowUpdateManyMutationInput,
+  'triggerType' | 'cronExpression' | 'timezone' | 'triggerConfig'
+>;
+
+/**
+ * Turns workflows on and off. Activating derives the trigger columns the
+ * scheduler, indexer and price monitor poll from the graph's trigger node;
+ * pausing and deactivating disarm it and drop what the watchers kept, so a
+ * trigger armed again starts fresh instead of catching up on the time it
+ * was off. Runs waiting to resume are suspended while the workflow is
+ * paused and cancelled when it is deactivated.
+ */
+export class WorkflowLifecycleService {
+  /**
+   * Validate the graph and arm its trigger (ACTIVE)
+   */
+  async activate(workflowId: string) {
+    return this.arm(workflowId, ACTIVATABLE);
+  }
+
+  /**
+   * Re-arm a paused workflow with its current graph (ACTIVE)
+   */
+  async resume(workflowId: string) {
+    return this.arm(workflowId, RESUMABLE);
+  }
+
+  /**
+   * Stop firing until resumed (PAUSED)
+   */
+  async pause(workflowId: string) {
+    return this.disarm(workflowId, PAUSABLE, 'PAUSED');
+  }
+
+  /**
+   * Stop firing for good; the workflow can be activated again (INACTIVE)
+   */
+  async deactivate(workflowId: string) {
+    return this.disarm(workflowId, DEACTIVATABLE, 'INACTIVE');
+  }
+
+  /**
+   * Trigger columns to store with a new graph of a workflow, so they are
+   * written together. Only an ACTIVE workflow's are re-derived; the others
+   * are derived on activation. Throws a 400 AppError, before anything is
+   * stored, when the new graph's trigger cannot be armed.
+   */
+  refreshedTrigger(workflow: Workflow, workflowData: unknown): TriggerSettings {
+    return workflow.activationState === 'ACTIVE' ? this.triggerSettings(workflowData) : {};
+  }
+
+  /**
+   * Drop what the watchers kept for a workflow's previous trigger once a
+   * new graph replaced it with another kind of trigger
+   */
+  async retireTrigger(before: Workflow, after: Workflow) {
+    if (before.triggerType !== after.triggerType) {
+      await this.unregister(before);
+    }
+  }
+
+  /**
+   * Trigger columns for a workflow's graph. Throws a 400 AppError when the
+   * graph is invalid or its trigger cannot be watched.
+   */
+  triggerSettings(workflowData: unknown): TriggerSettings {
+    const graph = toCanvasGraph(workflowData);
+    workflowValidatorService.assertValid(graph);
+
+    const node = graph.nodes.find((n) => TRIGGER_NODE_TYPES.includes(n.type))!;
+    const { id: _id, type: _type, position: _position, data, ...rest } = node as typeof node & Record<string, any>;
+    const params: Record<string, any> = { ...(data ?? rest) };
+
+    switch (node.type) {
+      case 'schedule_trigger': {
+        const { cron, timezone } = cronService.normalizeScheduleTrigger(params);
+        return { triggerType: 'schedule', cronExpression: cron, timezone, triggerConfig: { cron, timezone } };
+      }
+      case 'event_trigger':
+        // Fail now rather than on every indexer poll
+        eventFilterService.subscriptionOf(params);
+        return { triggerType: 'event', cronExpression: null, triggerConfig: params };
+      default:
+        return { triggerType: TRIGGER_TYPES[node.type], cronExpression: null, triggerConfig: params };
+    }
+  }
+
+  private async arm(workflowId: string, from: ActivationState[]) {
+    const workflow = await this.getWorkflow(workflowId);
+    this.assertTransition(workflow, from, 'ACTIVE');
+
+    const armed = await this.transition(workflow, from, {
+      ...this.triggerSettings(workflow.workflowData),
+      activationState: 'ACTIVE',
+      isActive: true,
+      activatedAt: new Date(),
+    });
+    await resumeService.unsuspendWorkflow(workflowId);
+    return armed;
+  }
+
+  private async disarm(workflowId: string, from: ActivationState[], to: ActivationState) {
+    const workflow = await this.getWorkflow(workflowId);
+    this.assertTransition(workflow, from, to);
+
+    const disarmed = await this.transition(workflow, from, { activationState: to, isActive: false });
+    if (to === 'PAUSED') {
+      await resumeService.suspendWorkflow(workflowId);
+    } else {
+      await resumeService.cancelWorkflow(workflowId);
+    }
+    return disarmed;
+  }
+
+  /**
+   * Apply the change only if the state is still one it may leave, then
+   * clear the watcher state of the trigger it had
+   */
+  private async transition(
+    workflow: Workflow,
+    from: ActivationState[],
+    data: Prisma.WorkflowUpdateManyMutationInput & { activationState: ActivationState }
+  ) {
+    const updated = await prisma.workflow.updateMany({
+      where: { id: workflow.id, activationState: { in: from } },
+      data,
+    });
+
+    if (updated.count === 0) {
+      const current = await this.getWorkflow(workflow.id);
+      throw new AppError(409, `Workflow is ${current.activationState} and cannot become ${data.activationState}`);
+    }
+
+    await this.unregister(workflow);
+    return prisma.workflow.findUniqueOrThrow({ where: { id: workflow.id } });
+  }
+
+  private async unregister(workflow: Workflow) {
+    if (workflow.triggerType === 'event') {
+      await indexerService.unregister(workflow.id);
+    }
+    if (workflow.triggerType === 'price') {
+      await priceMonitorService.unregister(workflow.id);
+    }
+  }
+
+  private assertTransition(workflow: Workflow, from: ActivationState[], to: ActivationState) {
+    if (!from.includes(workflow.activationState)) {
+      throw new AppError(409, `Workflow is ${workflow.activationState} and cannot become ${to}`);
+    }
+  }
+
+  private async getWorkflow(workflowId: string) {
+    const workflow = await prisma.workflow.findUnique({ where: { id: workflowId } });
+    if (!workflow) {
+      throw new AppError(404, `Workflow ${workflowId} not found`);
+    }
+    return workflow;
+  }
+}
+
+export const workflowLifecycleService = new WorkflowLifecycleService();
@@ -0,0 +1,280 @@
+import { AppError } from '@/middleware/error.middleware.js';
+import { cronService } from '@/services/cron.service.js';
+import { priceOracleService } from '@/services/price-oracle.service.js';
+import { expressionService } from '@/services/expression.service.js';
+import { ACTION_NODE_TYPES, NODE_SCHEMAS, TRIGGER_NODE_TYPES } from '@/types/workflow.types.js';
+import type { CanvasEdge, CanvasGraph, CanvasNode } from '@/types/workflow.types.js';
+
+export interface WorkflowValidationError {
+  /** Node the problem is on, for the canvas to highlight */
+  nodeId?: string;
+  /** Edge the problem is on, when it is not on a node */
+  edgeId?: string;
+  /** Parameter of the node, e.g. "amount" or "metadata.uri" */
+  field?: string;
+  message: string;
+}
+
+export interface WorkflowValidation {
+  valid: boolean;
+  errors: WorkflowValidationError[];
+}
+
+export class WorkflowValidatorService {
+  /**
+   * Check a graph against the typed schema of each node and the structure
+   * every workflow needs: one trigger, every node reachable from it, edges
+   * between existing nodes, branches with a "true" and a "false" edge and
+   * no cycles except through a loop node. Returns every problem found.
+   */
+  validate(graph: CanvasGraph): WorkflowValidation {
+    const errors: WorkflowValidationError[] = [];
+
+    if (!Array.isArray(graph?.nodes) || !Array.isArray(graph?.edges)) {
+      errors.push({ message: 'Workflow needs a list of nodes and a list of edges' });
+      return { valid: false, errors };
+    }
+
+    const nodes = new Map<string, CanvasNode>();
+    for (const node of graph.nodes) {
+      if (!node?.id || typeof node.id !== 'string') {
+        errors.push({ message: 'Every node needs a string id' });
+        continue;
+      }
+      if (nodes.has(node.id)) {
+        errors.push({ nodeId: node.id, message: 'Duplicate node id' });
+        continue;
+      }
+      nodes.set(node.id, node);
+      errors.push(...this.validateNode(node));
+    }
+
+    const outgoing = new Map<string, CanvasEdge[]>([...nodes.keys()].map((id) => [id, []]));
+    const incoming = new Map<string, CanvasEdge[]>([...nodes.keys()].map((id) => [id, []]));
+    for (const edge of graph.edges) {
+      const edgeId = this.edgeId(edge);
+      const unknown = [edge?.source, edge?.target].filter((id) => !nodes.has(id));
+      if (unknown.length > 0) {
+        errors.push({ edgeId, message: `Edge references unknown node ${unknown.map((id) => `'${id}'`).join(' and ')}` });
+        continue;
+      }
+      outgoing.get(edge.source)!.push(edge);
+      incoming.get(edge.target)!.push(edge);
+    }
+
+    const triggers = [...nodes.values()].filter((node) => TRIGGER_NODE_TYPES.includes(node.type));
+    if (triggers.length === 0) {
+      errors.push({ message: 'Workflow needs a trigger node' });
+    }
+    for (const trigger of triggers.slice(1)) {
+      errors.push({ nodeId: trigger.id, message: 'Workflow can only have one trigger node' });
+    }
+    for (const trigger of triggers) {
+      if (incoming.get(trigger.id)!.length > 0) {
+        errors.push({ nodeId: trigger.id, message: 'Trigger node cannot have incoming edges' });
+      }
+    }
+
+    if (![...nodes.values()].some((node) => ACTION_NODE_TYPES.includes(node.type))) {
+      errors.push({ message: 'Workflow needs at least one action node' });
+    }
+
+    if (triggers.length > 0) {
+      const reachable = this.reachable(triggers[0].id, outgoing);
+      for (const id of nodes.keys()) {
+        if (!reachable.has(id) && !TRIGGER_NODE_TYPES.includes(nodes.get(id)!.type)) {
+          errors.push({ nodeId: id, message: 'Node is not connected to the trigger' });
+        }
+      }
+    }
+
+    for (const node of nodes.values()) {
+      if (node.type === 'branch_node') {
+        errors.push(...this.validateBranch(node, outgoing.get(node.id)!));
+      }
+    }
+
+    for (const cycle of this.cycles(nodes, outgoing)) {
+      if (!cycle.some((id) => nodes.get(id)!.type === 'loop_node')) {
+        errors.push(...cycle.map((nodeId) => ({ nodeId, message: 'Node is part of a cycle without a loop node' })));
+      }
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Validate a graph and throw a 400 AppError listing every problem
+   */
+  assertValid(graph: CanvasGraph): void {
+    const { valid, errors } = this.validate(graph);
+    if (valid) {
+      return;
+    }
+
+    const [first] = errors;
+    const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : '';
+    throw new AppError(
+      400,
+      `Workflow validation failed: ${first.nodeId ? `${first.nodeId}: ` : ''}${first.message}${more}`,
+      { errors }
+    );
+  }
+
+  /**
+   * Rewrite schedule triggers in place with their normalized cron
+   * expression and timezone. Call on graphs that passed validation.
+   */
+  normalize(graph: CanvasGraph): void {
+    for (const node of graph.nodes) {
+      if (node.type === 'schedule_trigger') {
+        cronService.normalizeScheduleTrigger(node.data ?? node);
+      }
+    }
+  }
+
+  /**
+   * Check a node's parameters against the exact schema of its type, then
+   * what the schema cannot: schedules that can fire, prices an oracle
+   * provides and custom conditions that parse
+   */
+  private validateNode(node: CanvasNode): WorkflowValidationError[] {
+    const schema = Object.prototype.hasOwnProperty.call(NODE_SCHEMAS, node.type) ? NODE_SCHEMAS[node.type] : undefined;
+    if (!schema) {
+      return [{ nodeId: node.id, message: `Unknown node type '${node.type}'` }];
+    }
+
+    const { id: _id, type: _type, position: _position, data, ...rest } = node as CanvasNode & Record<string, any>;
+    const params: Record<string, any> = { ...(data ?? rest), type: node.type };
+    const errors: WorkflowValidationError[] = [];
+    const check = (field: string | undefined, run: () => void) => {
+      try {
+        run();
+      } catch (error) {
+        errors.push({ nodeId: node.id, field, message: error instanceof Error ? error.message : String(error) });
+      }
+    };
+
+    // Schedules may be given under an alias of `cron`; validate the
+    // normalized copy
+    if (node.type === 'schedule_trigger') {
+      check('cron', () => cronService.normalizeScheduleTrigger(params));
+      if (errors.length > 0) {
+        return errors;
+      }
+    }
+
+    const parsed = schema.safeParse(params);
+    if (!parsed.success) {
+      return parsed.error.errors.map((issue) => ({
+        nodeId: node.id,
+        field: issue.path.join('.') || undefined,
+        message: issue.message,
+      }));
+    }
+
+    if (node.type === 'price_trigger' || node.type === 'oracle_check') {
+      check('token', () => priceOracleService.assertSupported(params.oracleProvider, params.token));
+    }
+    if (node.type === 'custom_condition') {
+      check('expression', () => expressionService.compileCondition(params.expression));
+    }
+    for (const [path, condition] of this.nestedConditions(params)) {
+      if (condition?.type === 'oracle_check') {
+        check(`${path}.token`, () => priceOracleService.assertSupported(condition.oracleProvider, condition.token));
+      }
+      if (condition?.type === 'custom_condition') {
+        check(`${path}.expression`, () => expressionService.compileCondition(condition.expression));
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Conditions inside a multi_condition, branch_node or loop_node
+   */
+  private nestedConditions(params: Record<string, any>): Array<[string, any]> {
+    if (Array.isArray(params.conditions)) {
+      return params.conditions.map((condition: any, index: number) => [`conditions.${index}`, condition]);
+    }
+    return params.condition ? [['condition', params.condition]] : [];
+  }
+
+  private validateBranch(node: CanvasNode, edges: CanvasEdge[]): WorkflowValidationError[] {
+    const labels = edges.map((edge) => (edge.sourceHandle ?? edge.label)?.toString().toLowerCase());
+    if (edges.length === 2 && labels.includes('true') && labels.includes('false')) {
+      return [];
+    }
+    return [{ nodeId: node.id, message: 'Branch node needs exactly two outgoing edges, one "true" and one "false"' }];
+  }
+
+  private reachable(startId: string, outgoing: Map<string, CanvasEdge[]>): Set<string> {
+    const seen = new Set([startId]);
+    const queue = [startId];
+    while (queue.length > 0) {
+      for (const edge of outgoing.get(queue.shift()!)!) {
+        if (!seen.has(edge.target)) {
+          seen.add(edge.target);
+          queue.push(edge.target);
+        }
+      }
+    }
+    return seen;
+  }
+
+  /**
+   * Strongly connected components that contain a cycle (Tarjan)
+   */
+  private cycles(nodes: Map<string, CanvasNode>, outgoing: Map<string, CanvasEdge[]>): string[][] {
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const cycles: string[][] = [];
+
+    const visit = (id: string) => {
+      index.set(id, index.size);
+      lowLink.set(id, index.get(id)!);
+      stack.push(id);
+      onStack.add(id);
+
+      for (const { target } of outgoing.get(id)!) {
+        if (!index.has(target)) {
+          visit(target);
+          lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(target)!));
+        } else if (onStack.has(target)) {
+          lowLink.set(id, Math.min(lowLink.get(id)!, index.get(target)!));
+        }
+      }
+
+      if (lowLink.get(id) === index.get(id)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== id);
+
+        const selfLoop = outgoing.get(id)!.some((edge) => edge.target === id);
+        if (component.length > 1 || selfLoop) {
+          cycles.push(component.reverse());
+        }
+      }
+    };
+
+    for (const id of nodes.keys()) {
+      if (!index.has(id)) {
+        visit(id);
+      }
+    }
+    return cycles;
+  }
+
+  private edgeId(edge: CanvasEdge): string {
+    return edge?.id ?? `${edge?.source}->${edge?.target}`;
+  }
+}
+
+export const workflowValidatorService = new WorkflowValidatorService();
@@ -0,0 +1,210 @@
+import prisma from '@/utils/prisma.js';
+import { AppError } from '@/middleware/error.middleware.js';
+import { toCanvasGraph } from '@/utils/workflow-graph.js';
+import type { Prisma } from '../generated/client/client.js';
+import type { CanvasEdge, CanvasNode } from '@/types/workflow.types.js';
+
+export interface VersionAuthor {
+  /** Wallet that made the change, when known */
+  authorWallet?: string | null;
+  message?: string | null;
+}
+
+export interface CommitOptions {
+  /** Other workflow fields to update with the graph */
+  changes?: Prisma.WorkflowUpdateManyMutationInput;
+  /** Version the change was made against; a 409 AppError if it is no longer current */
+  expectedVersion?: number;
+}
+
+export interface ChangedItem<T> {
+  id: string;
+  /** Top-level fields that differ, with node parameters as "data.<field>" */
+  fields: string[];
+  before: T;
+  after: T;
+}
+
+export interface GraphDiff<T> {
+  added: T[];
+  removed: T[];
+  changed: ChangedItem<T>[];
+}
+
+export interface WorkflowDiff {
+  from: number;
+  to: number;
+  nodes: GraphDiff<CanvasNode>;
+  edges: GraphDiff<CanvasEdge>;
+}
+
+/**
+ * Immutable history of a workflow's graph. A workflow is created at
+ * version 1 and every later write of workflowData, including renames and
+ * tag changes, goes through commit, which stores the graph as the next
+ * version, so a run can record exactly what it executed and any version
+ * can be restored.
+ */
+export class WorkflowVersionService {
+  /**
+   * Fields for prisma.workflow.create that make the new workflow's graph
+   * version 1
+   */
+  initial(workflowData: Prisma.InputJsonValue, { authorWallet, message }: VersionAuthor = {}) {
+    return {
+      version: 1,
+      versions: {
+        create: { version: 1, workflowData, authorWallet: authorWallet ?? null, message: message ?? null },
+      },
+    };
+  }
+
+  /**
+   * Store a graph as the workflow's next version and make it current. The
+   * version number is taken under the workflow's row lock, so concurrent
+   * saves get consecutive numbers. With `expectedVersion` the save only
+   * applies if nobody saved since; otherwise the 409 carries the server's
+   * copy so the client can merge.
+   */
+  async commit(
+    workflowId: string,
+    workflowData: Prisma.InputJsonValue,
+    { authorWallet, message }: VersionAuthor = {},
+    { changes = {}, expectedVersion }: CommitOptions = {}
+  ) {
+    return prisma.$transaction(async (tx) => {
+      const updated = await tx.workflow.updateMany({
+        where: { id: workflowId, ...(expectedVersion !== undefined && { version: expectedVersion }) },
+        data: { ...changes, workflowData, version: { increment: 1 } },
+      });
+
+      const workflow = await tx.workflow.findUnique({ where: { id: workflowId } });
+      if (!workflow) {
+        throw new AppError(404, `Workflow ${workflowId} not found`);
+      }
+      if (updated.count === 0) {
+        const { nodes, edges } = toCanvasGraph(workflow.workflowData);
+        throw new AppError(
+          409,
+          `Workflow was saved at revision ${workflow.version} since revision ${expectedVersion} was loaded`,
+          {
+            revision: workflow.version,
+            current: {
+              id: workflow.id,
+              name: workflow.name,
+              revision: workflow.version,
+              nodes,
+              edges,
+              metadata: (workflow.workflowData as Record<string, any> | null)?.metadata ?? null,
+              updatedAt: workflow.updatedAt,
+            },
+          }
+        );
+      }
+
+      await tx.workflowVersion.create({
+        data: {
+          workflowId,
+          version: workflow.version,
+          workflowData,
+          authorWallet: authorWallet ?? null,
+          message: message ?? null,
+        },
+      });
+
+      return workflow;
+    });
+  }
+
+  /**
+   * Versions of a workflow, newest first, without their graphs
+   */
+  async list(workflowId: string) {
+    return prisma.workflowVersion.findMany({
+      where: { workflowId },
+      orderBy: { version: 'desc' },
+      select: { id: true, version: true, authorWallet: true, message: true, createdAt: true },
+    });
+  }
+
+  async get(workflowId: string, version: number) {
+    const found = await prisma.workflowVersion.findUnique({
+      where: { workflowId_version: { workflowId, version } },
+    });
+    if (!found) {
+      throw new AppError(404, `Workflow ${workflowId} has no version ${version}`);
+    }
+    return found;
+  }
+
+  /**
+   * Nodes and edges added, removed and changed from one version to another.
+   * Edges without an id are matched by source and target.
+   */
+  async diff(workflowId: string, from: number, to: number): Promise<WorkflowDiff> {
+    const [before, after] = await Promise.all([this.get(workflowId, from), this.get(workflowId, to)]);
+    const beforeGraph = toCanvasGraph(before.workflowData);
+    const afterGraph = toCanvasGraph(after.workflowData);
+
+    return {
+      from,
+      to,
+      nodes: this.diffItems(beforeGraph.nodes, afterGraph.nodes, (node) => node.id),
+      edges: this.diffItems(beforeGraph.edges, afterGraph.edges, (edge) => edge.id ?? `${edge.source}->${edge.target}`),
+    };
+  }
+
+  private diffItems<T extends object>(before: T[], after: T[], keyOf: (item: T) => string): GraphDiff<T> {
+    const beforeByKey = new Map(before.map((item) => [keyOf(item), item]));
+    const afterByKey = new Map(after.map((item) => [keyOf(item), item]));
+    const diff: GraphDiff<T> = { added: [], removed: [], changed: [] };
+
+    for (const [key, item] of afterByKey) {
+      const previous = beforeByKey.get(key);
+      if (!previous) {
+        diff.added.push(item);
+        continue;
+      }
+      const fields = this.changedFields(previous as Record<string, any>, item as Record<string, any>);
+      if (fields.length > 0) {
+        diff.changed.push({ id: key, fields, before: previous, after: item });
+      }
+    }
+    for (const [key, item] of beforeByKey) {
+      if (!afterByKey.has(key)) {
+        diff.removed.push(item);
+      }
+    }
+
+    return diff;
+  }
+
+  private changedFields(before: Record<string, any>, after: Record<string, any>): string[] {
+    const fields: string[] = [];
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (key === 'data' && this.isObject(before.data) && this.isObject(after.data)) {
+        fields.push(...this.changedFields(before.data, after.data).map((field) => `data.${field}`));
+      } else if (!this.isEqual(before[key], after[key])) {
+        fields.push(key);
+      }
+    }
+    return fields;
+  }
+
+  private isEqual(a: unknown, b: unknown): boolean {
+    if (this.isObject(a) && this.isObject(b)) {
+      const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+      return [...keys].every((key) => this.isEqual(a[key], b[key]));
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return a.length === b.length && a.every((item, index) => this.isEqual(item, b[index]));
+    }
+    return a === b;
+  }
+
+  private isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
+
+export const workflowVersionService = new WorkflowVersionService();
@@ -1,5 +1,27 @@
 import prisma from '@/utils/prisma.js';
-import { Prisma } from '../generated/client/client.js';
+import { Prisma, type OnChainWorkflow, type Workflow, type WorkflowRun } from '../generated/client/client.js';
+import { AppError } from '@/middleware/error.middleware.js';
+import { aptosService } from '@/services/aptos.service.js';
+import { workflowCompilerService } from '@/services/workflow-compiler.service.js';
+import { runService } from '@/services/run.service.js';
+import { workflowVersionService } from '@/services/workflow-version.service.js';
+import { conditionEvaluatorService } from '@/services/condition-evaluator.service.js';
+import { toWorkflowError } from '@/utils/workflow-errors.js';
+import { inngest } from '@/inngest/client.js';
+import { toCanvasGraph } from '@/utils/workflow-graph.js';
+import type { CanvasGraph } from '@/types/workflow.types.js';
+import type { CompiledWorkflow } from '@/types/contract.types.js';
+
+export interface ExecuteOptions {
+  /** Canvas node to start from instead of the trigger */
+  startNodeId?: string;
+  /** Key identifying the trigger occurrence; each key starts at most one run */
+  idempotencyKey?: string;
+  /** What fired the run, stored on it (e.g. the matched event) */
+  triggerContext?: Prisma.InputJsonValue;
+  /** Workflow version to execute instead of the latest */
+  version?: number;
+}
 
 export class WorkflowService {
   /**
@@ -18,6 +40,270 @@ export class WorkflowService {
   async saveWorkflow(data: Prisma.WorkflowCreateInput) {
     return prisma.workflow.create({ data });
   }
+
+  /**
+   * Latest on-chain registration of a workflow, if any
+   */
+  async getOnChainWorkflow(workflowId: string) {
+    return prisma.onChainWorkflow.findFirst({
+      where: { workflowId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Execute a workflow on-chain, resolving it to its (owner, u64 id) entry.
+   * Registers the graph first when it has never been registered by the
+   * executor account or has changed since the last registration. Every call
+   * is recorded as a WorkflowRun. `startNodeId` continues a paused run from
+   * the node after its wait. A repeated `idempotencyKey` returns the run it
+   * started instead of executing again (`duplicate: true`). Off-chain
+   * conditions leading the graph are evaluated first; when one is false the
+   * run is SKIPPED and nothing is submitted. The run records the workflow
+   * version it executes.
+   */
+  async executeWorkflow(workflowId: string, trigger: string = 'manual', options: ExecuteOptions = {}) {
+    const { startNodeId, idempotencyKey, triggerContext, version } = options;
+    const latest = await prisma.workflow.findUnique({
+      where: { id: workflowId },
+    });
+
+    if (!latest) {
+      throw new AppError(404, `Workflow ${workflowId} not found`);
+    }
+    const workflow = await this.atVersion(latest, version);
+
+    const { run, created } = await runService.startRun(workflowId, trigger, {
+      idempotencyKey,
+      triggerContext,
+      version: workflow.version,
+    });
+    if (!created) {
+      return { txHash: run.txHash, onChainWorkflow: null, run, duplicate: true };
+    }
+
+    return this.execute(workflow, run, { startNodeId, triggerContext });
+  }
+
+  /**
+   * Start a run and return it without waiting for the transaction: the
+   * PENDING run is handed to the execute-run Inngest function. A repeated
+   * `idempotencyKey` returns the run it started (`duplicate: true`).
+   */
+  async enqueueWorkflow(
+    workflowId: string,
+    trigger: string,
+    options: Omit<ExecuteOptions, 'startNodeId' | 'version'> = {}
+  ) {
+    const workflow = await prisma.workflow.findUnique({
+      where: { id: workflowId },
+    });
+
+    if (!workflow) {
+      throw new AppError(404, `Workflow ${workflowId} not found`);
+    }
+
+    const { run, created } = await runService.startRun(workflowId, trigger, { ...options, version: workflow.version });
+    if (!created) {
+      return { run, duplicate: true };
+    }
+
+    try {
+      // Inngest delivers at least once; the event id lets it drop repeats
+      await inngest.send({ id: run.id, name: 'workflow/run.requested', data: { runId: run.id } });
+    } catch (error) {
+      const failure = new AppError(503, 'Failed to queue workflow execution');
+      console.error(`Failed to queue run ${run.id}:`, error);
+      await runService.markFailed(run.id, failure);
+      throw failure;
+    }
+
+    return { run, duplicate: false };
+  }
+
+  /**
+   * Execute a run started by enqueueWorkflow, with the version it was
+   * queued for. The run is claimed first, so when the event is delivered
+   * twice only one delivery submits; runs that already left PENDING are
+   * returned as they are (`duplicate: true`).
+   */
+  async executeRun(runId: string) {
+    const run = await prisma.workflowRun.findUniqueOrThrow({
+      where: { id: runId },
+      include: { workflow: true },
+    });
+
+    const claimed = await runService.claim(runId);
+    if (!claimed) {
+      const current = await prisma.workflowRun.findUniqueOrThrow({ where: { id: runId } });
+      return { txHash: current.txHash, onChainWorkflow: null, run: current, duplicate: true };
+    }
+
+    return this.execute(await this.atVersion(run.workflow, run.version ?? undefined), claimed, {
+      triggerContext: (run.triggerContext ?? undefined) as Prisma.InputJsonValue | undefined,
+    });
+  }
+
+  /**
+   * Evaluate the off-chain conditions leading a graph (or the segment from
+   * `startNodeId`) as of now. Null when there are none.
+   */
+  async evaluateConditions(
+    graph: CanvasGraph,
+    timezone: string,
+    { startNodeId, triggerContext }: Pick<ExecuteOptions, 'startNodeId' | 'triggerContext'> = {}
+  ) {
+    const gates = workflowCompilerService.gates(graph, { startNodeId });
+    if (gates.length === 0) {
+      return null;
+    }
+
+    return conditionEvaluatorService.evaluateGates(gates, {
+      ownerAddress: aptosService.getExecutorAddress(),
+      timezone,
+      now: new Date(),
+      triggerContext,
+    });
+  }
+
+  /**
+   * Dry-run a stored workflow with exactly the transaction executeWorkflow
+   * would submit right now. The transaction is simulated even when the
+   * off-chain conditions are false, so both can be inspected.
+   */
+  async simulateWorkflow(workflowId: string) {
+    const workflow = await prisma.workflow.findUnique({
+      where: { id: workflowId },
+    });
+
+    if (!workflow) {
+      throw new AppError(404, `Workflow ${workflowId} not found`);
+    }
+
+    const graph = toCanvasGraph(workflow.workflowData);
+    const { compiled, existing } = await this.resolve(workflowId, graph);
+    const conditions = await this.evaluateConditions(graph, workflow.timezone);
+
+    if (existing) {
+      return {
+        simulation: await aptosService.simulateExecuteWorkflow(existing.onChainId),
+        nodeIdMap: existing.nodeIdMap as Record<string, number>,
+        compiled,
+        conditions,
+      };
+    }
+
+    return {
+      simulation: await aptosService.simulateRegisterAndExecuteWorkflow(compiled),
+      nodeIdMap: compiled.nodeIdMap,
+      compiled,
+      conditions,
+    };
+  }
+
+  /**
+   * Evaluate the conditions of a run not yet submitted, then compile and submit it
+   */
+  private async execute(
+    workflow: Workflow,
+    run: WorkflowRun,
+    { startNodeId, triggerContext }: Pick<ExecuteOptions, 'startNodeId' | 'triggerContext'>
+  ) {
+    const workflowId = workflow.id;
+    const graph = toCanvasGraph(workflow.workflowData);
+
+    let compiled: CompiledWorkflow | undefined;
+    let submitted: { txHash: string; onChainWorkflow: OnChainWorkflow | null };
+    try {
+      const evaluation = await this.evaluateConditions(graph, workflow.timezone, { startNodeId, triggerContext });
+      if (evaluation) {
+        const gated = await runService.recordConditions(run, evaluation);
+        if (!evaluation.passed) {
+          return { txHash: null, onChainWorkflow: null, run: gated, duplicate: false };
+        }
+      }
+
+      const resolved = await this.resolve(workflowId, graph, startNodeId);
+      compiled = resolved.compiled;
+      submitted = await this.submit(workflowId, resolved);
+    } catch (error) {
+      const failure = toWorkflowError(error, compiled);
+      await runService.markFailed(run.id, failure);
+      throw failure;
+    }
+
+    await runService.markSubmitted(run.id, submitted.txHash, submitted.onChainWorkflow?.id ?? null);
+
+    try {
+      const { run: synced } = await runService.syncRun(run.id, compiled);
+      return { ...submitted, run: synced, duplicate: false };
+    } catch (error) {
+      // The transaction is on-chain; the run can be re-synced from its hash later
+      console.error(`Failed to record execution of run ${run.id}:`, error);
+      return { ...submitted, run, duplicate: false };
+    }
+  }
+
+  /**
+   * The workflow with the graph of an earlier version in place of the latest
+   */
+  private async atVersion(workflow: Workflow, version?: number): Promise<Workflow> {
+    if (version === undefined || version === workflow.version) {
+      return workflow;
+    }
+    const { workflowData } = await workflowVersionService.get(workflow.id, version);
+    return { ...workflow, workflowData, version };
+  }
+
+  /**
+   * Compile the graph and find a registration of it owned by the executor
+   */
+  private async resolve(workflowId: string, graph: CanvasGraph, startNodeId?: string) {
+    const compiled = workflowCompilerService.compile(graph, { startNodeId });
+    const graphHash = workflowCompilerService.fingerprint(compiled);
+    const ownerAddress = aptosService.getExecutorAddress();
+
+    const existing = await prisma.onChainWorkflow.findFirst({
+      where: { workflowId, ownerAddress, graphHash },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return { compiled, graphHash, existing };
+  }
+
+  /**
+   * Submit execute_workflow, registering the graph first when needed. An
+   * aborted registration leaves no on-chain workflow to link.
+   */
+  private async submit(
+    workflowId: string,
+    { compiled, graphHash, existing }: Awaited<ReturnType<WorkflowService['resolve']>>
+  ): Promise<{ txHash: string; onChainWorkflow: OnChainWorkflow | null }> {
+    if (existing) {
+      const txHash = await aptosService.executeWorkflow(existing.onChainId);
+      return { txHash, onChainWorkflow: existing };
+    }
+
+    const txHash = await aptosService.registerAndExecuteWorkflow(compiled);
+    const registered = await aptosService.getRegisteredWorkflow(txHash);
+
+    if (!registered) {
+      return { txHash, onChainWorkflow: null };
+    }
+
+    const onChainWorkflow = await prisma.onChainWorkflow.create({
+      data: {
+        workflowId,
+        ownerAddress: registered.owner,
+        onChainId: registered.workflowId,
+        graphHash,
+        nodeIdMap: compiled.nodeIdMap,
+        registrationTxHash: txHash,
+      },
+    });
+
+    return { txHash, onChainWorkflow };
+  }
 }
 
 export const workflowService = new WorkflowService();
@@ -0,0 +1,37 @@
+// ============================================================================
+// Off-chain Condition Evaluation
+// ============================================================================
+
+/**
+ * What conditions are evaluated against
+ */
+export interface ConditionContext {
+  /** Account whose balances balance checks read; the workflow's executor */
+  ownerAddress: string;
+  /** IANA zone that time conditions are read in */
+  timezone: string;
+  now: Date;
+  /** What fired the run, as stored on it */
+  triggerContext?: unknown;
+}
+
+/**
+ * One evaluated condition. `result` is null for sub-conditions skipped by
+ * AND/OR short-circuiting.
+ */
+export interface ConditionTrace {
+  nodeId?: string;
+  type: string;
+  result: boolean | null;
+  /** Human-readable account of the comparison, e.g. "APT 8.42 > 10" */
+  detail: string;
+  /** Values read while evaluating (prices, balances, local time) */
+  observed?: Record<string, unknown>;
+  conditions?: ConditionTrace[];
+}
+
+export interface ConditionEvaluation {
+  passed: boolean;
+  /** Gates in evaluation order; stops at the first false one */
+  trace: ConditionTrace[];
+}
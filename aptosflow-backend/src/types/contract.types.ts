@@ -0,0 +1,160 @@
+// ============================================================================
+// workflow_graph Move Module Constants
+// Mirrors apotsflow-contract/sources/workflow.move - keep in sync
+// ============================================================================
+
+export const MAX_NODES_PER_WORKFLOW = 50;
+export const MAX_RECURSION_DEPTH = 20;
+
+export const NODE_TYPE = {
+  TRANSFER: 1,
+  BALANCE_CHECK: 2,
+  END: 3,
+  SWAP: 4,
+  STAKE: 5,
+  VOTE: 6,
+  WAIT: 7,
+  BRANCH: 8,
+  LIQUIDITY: 9,
+  BORROW_LEND: 10,
+  ORACLE_CHECK: 11,
+} as const;
+
+export const WORKFLOW_ERROR = {
+  E_WORKFLOW_NOT_FOUND: 1,
+  E_NOT_OWNER: 2,
+  E_WORKFLOW_LOCKED: 3,
+  E_INVALID_NODE_ID: 4,
+  E_INVALID_START_NODE: 5,
+  E_TOO_MANY_NODES: 6,
+  E_RECURSION_LIMIT: 7,
+  E_UNKNOWN_NODE_TYPE: 8,
+  E_INVALID_PARAMS: 9,
+  E_DUPLICATE_NODE_ID: 10,
+  E_NOT_IMPLEMENTED: 11,
+} as const;
+
+/**
+ * Node types whose handler currently aborts with E_NOT_IMPLEMENTED
+ */
+export const UNIMPLEMENTED_NODE_TYPES: number[] = [
+  NODE_TYPE.SWAP,
+  NODE_TYPE.STAKE,
+  NODE_TYPE.VOTE,
+  NODE_TYPE.LIQUIDITY,
+  NODE_TYPE.BORROW_LEND,
+  NODE_TYPE.ORACLE_CHECK,
+];
+
+export type NodeTypeCode = (typeof NODE_TYPE)[keyof typeof NODE_TYPE];
+
+/**
+ * Frontend node types that have an on-chain handler in `dispatch_node`.
+ * oracle_check is left out: its handler aborts with E_NOT_IMPLEMENTED, so
+ * price conditions are always evaluated by the backend.
+ */
+export const CONTRACT_NODE_TYPES: Record<string, NodeTypeCode> = {
+  transfer_action: NODE_TYPE.TRANSFER,
+  balance_check: NODE_TYPE.BALANCE_CHECK,
+  end_node: NODE_TYPE.END,
+  swap_action: NODE_TYPE.SWAP,
+  stake_action: NODE_TYPE.STAKE,
+  dao_vote_action: NODE_TYPE.VOTE,
+  wait_node: NODE_TYPE.WAIT,
+  branch_node: NODE_TYPE.BRANCH,
+  liquidity_provide: NODE_TYPE.LIQUIDITY,
+  borrow_lend_action: NODE_TYPE.BORROW_LEND,
+};
+
+export const ZERO_ADDRESS = '0x0';
+
+// ============================================================================
+// Compiled Workflow
+// ============================================================================
+
+/**
+ * Parallel vectors accepted by `workflow_graph::register_and_execute_workflow`.
+ * The first entry of `nodeIds` is the start node. u64 values are kept as
+ * decimal strings so they survive JSON serialization.
+ */
+export interface CompiledWorkflow {
+  nodeIds: number[];
+  nodeTypes: NodeTypeCode[];
+  targetAddresses: string[];
+  amounts: string[];
+  nextNodeCounts: number[];
+  flatNextNodeIds: number[];
+  /** Canvas node id -> on-chain node id */
+  nodeIdMap: Record<string, number>;
+}
+
+// ============================================================================
+// Decoded workflow_graph Events
+// ============================================================================
+
+export interface WorkflowStepEvent {
+  workflowId: bigint;
+  nodeId: bigint;
+  nodeType: number;
+  success: boolean;
+  errorCode: bigint;
+}
+
+export interface WorkflowCompletedEvent {
+  workflowId: bigint;
+  totalSteps: number;
+  success: boolean;
+}
+
+export interface WorkflowRegisteredEvent {
+  workflowId: bigint;
+  owner: string;
+  nodeCount: number;
+}
+
+export interface DecodedWorkflowEvents {
+  registered?: WorkflowRegisteredEvent;
+  steps: WorkflowStepEvent[];
+  completed?: WorkflowCompletedEvent;
+}
+
+// ============================================================================
+// Transaction Inspection
+// ============================================================================
+
+export type TransactionState = 'pending' | 'committed' | 'failed' | 'not_found';
+
+export interface TransactionInspection {
+  hash: string;
+  state: TransactionState;
+  sender?: string;
+  sequenceNumber?: bigint;
+  version?: bigint;
+  vmStatus?: string;
+  gasUsed?: bigint;
+  timestamp?: Date;
+  events: DecodedWorkflowEvents;
+}
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+export interface BalanceChange {
+  /** Account that owns the coin store or fungible store */
+  address: string;
+  /** Coin type or fungible asset metadata address */
+  asset: string;
+  before: bigint;
+  after: bigint;
+  delta: bigint;
+}
+
+export interface SimulationResult {
+  success: boolean;
+  vmStatus: string;
+  gasUsed: bigint;
+  gasUnitPrice: bigint;
+  balanceChanges: BalanceChange[];
+  events: DecodedWorkflowEvents;
+}
@@ -0,0 +1,142 @@
+/**
+ * Chain event types used by event-triggered workflows
+ */
+
+export type EventTriggerType = 'token_transfer' | 'nft_received' | 'nft_transfer' | 'balance_change';
+
+/**
+ * Position of an event in the chain: the transaction that emitted it and
+ * its index among that transaction's events. Totally ordered, so it works
+ * as a cursor for any event stream.
+ */
+export interface EventPosition {
+  transactionVersion: bigint;
+  eventIndex: number;
+}
+
+/**
+ * A source of chain events an event trigger follows
+ * - account_events: a raw event handle (address, creationNumber)
+ * - fungible_asset_activities: coin and fungible asset deposits/withdrawals of an owner
+ * - token_activities: NFT movements to or from an address (token v1 and v2)
+ */
+export type EventStream =
+  | { kind: 'account_events'; address: string; creationNumber: number }
+  | { kind: 'fungible_asset_activities'; ownerAddress: string; directions: AssetDirection[] }
+  | { kind: 'token_activities'; address: string; side: 'to' | 'from' };
+
+export type AssetDirection = 'deposit' | 'withdraw';
+
+// Coin v1 and fungible asset event types moving an asset in or out of an account
+export const ASSET_ACTIVITY_TYPES: Record<AssetDirection, string[]> = {
+  deposit: ['0x1::coin::DepositEvent', '0x1::coin::CoinDeposit', '0x1::fungible_asset::Deposit'],
+  withdraw: ['0x1::coin::WithdrawEvent', '0x1::coin::CoinWithdraw', '0x1::fungible_asset::Withdraw'],
+};
+
+export interface AssetTransfer {
+  direction: AssetDirection;
+  /** Base units */
+  amount: bigint;
+  /** Coin type (0x1::aptos_coin::AptosCoin) or fungible asset metadata address */
+  assetType: string;
+  decimals?: number;
+  symbol?: string;
+  /** The other side of the transfer in the same transaction, when there is one */
+  counterparty?: string;
+}
+
+export interface TokenTransfer {
+  tokenDataId: string;
+  tokenName?: string;
+  collectionId?: string;
+  collectionName?: string;
+  creatorAddress?: string;
+  fromAddress?: string;
+  toAddress?: string;
+  amount: bigint;
+}
+
+export interface ChainEvent extends EventPosition {
+  /** Move event type, or indexer activity type */
+  type: string;
+  accountAddress: string;
+  data: Record<string, any>;
+  /** Set for fungible_asset_activities streams */
+  transfer?: AssetTransfer;
+  /** Set for token_activities streams */
+  token?: TokenTransfer;
+}
+
+/**
+ * What an event trigger follows and which of its events fire the workflow
+ */
+export interface EventSubscription {
+  eventType: EventTriggerType | 'raw';
+  stream: EventStream;
+  /** Cursor key of the stream, stable for the same trigger config */
+  streamKey: string;
+  filters: EventFilters;
+}
+
+export interface EventFilters {
+  /** Whole tokens, e.g. 1.5 for 1.5 APT */
+  minAmount?: number;
+  fromAddress?: string;
+  /** Coin type, fungible asset address or symbol */
+  coinType?: string;
+  /** Collection name or address */
+  collection?: string;
+}
+
+/**
+ * JSON-safe view of a matched event, read by custom conditions as
+ * `trigger.event.*`
+ */
+export interface EventDetails {
+  type: string;
+  account: string;
+  /** Whole tokens when the asset's decimals are known, otherwise base units */
+  amount?: number;
+  /** Asset symbol, coin type or fungible asset address; NFT name for token events */
+  token?: string;
+  direction?: AssetDirection;
+  from?: string;
+  to?: string;
+  collection?: string;
+}
+
+/**
+ * Why an event fired a workflow; stored on the run as its trigger context
+ */
+export interface EventMatch {
+  eventType: EventSubscription['eventType'];
+  streamKey: string;
+  transactionVersion: string;
+  eventIndex: number;
+  type: string;
+  summary: string;
+  /** One entry per filter the event passed */
+  matched: string[];
+  event: EventDetails;
+}
+
+export interface EventPage {
+  /** Events of the stream, oldest first */
+  events: ChainEvent[];
+  /**
+   * Cursor to continue from: the last event, or further when the source
+   * scanned past transactions without events of the stream
+   */
+  next: EventPosition;
+}
+
+/**
+ * Where event triggers read chain events from
+ */
+export interface EventSource {
+  readonly name: string;
+  /** Position new streams start after, so history does not fire workflows */
+  head(): Promise<EventPosition>;
+  /** Events of a stream strictly after `after`; throws rather than returning a partial page */
+  eventsAfter(stream: EventStream, after: EventPosition, limit: number): Promise<EventPage>;
+}
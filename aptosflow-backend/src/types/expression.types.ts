@@ -0,0 +1,51 @@
+/**
+ * Custom condition expression language
+ */
+
+/** Static type of an expression. `any` is a trigger field, checked when evaluated. */
+export type ExpressionType = 'number' | 'string' | 'boolean' | 'time' | 'any';
+
+export type ExpressionValue = number | string | boolean | Date;
+
+export type UnaryOperator = '-' | '!';
+
+export type BinaryOperator =
+  | '+' | '-' | '*' | '/' | '%'
+  | '<' | '<=' | '>' | '>=' | '==' | '!='
+  | '&&' | '||';
+
+/** Parsed expression; `position` is the offset of the node in the source */
+export type ExpressionNode =
+  | { kind: 'literal'; value: number | string | boolean; position: number }
+  | { kind: 'variable'; path: string[]; position: number }
+  | { kind: 'unary'; operator: UnaryOperator; operand: ExpressionNode; position: number }
+  | { kind: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode; position: number }
+  | { kind: 'call'; name: string; args: ExpressionNode[]; position: number };
+
+/**
+ * A parsed and type-checked expression, with the live values it reads
+ */
+export interface CompiledExpression {
+  source: string;
+  ast: ExpressionNode;
+  type: ExpressionType;
+  /** Token symbols read as balance.<TOKEN> */
+  balances: string[];
+  /** Token symbols read as price.<TOKEN> */
+  prices: string[];
+}
+
+/**
+ * Values an expression is evaluated against
+ */
+export interface ExpressionVariables {
+  /** Whole tokens by upper-case symbol */
+  balance: Record<string, number>;
+  /** USD prices by upper-case symbol */
+  price: Record<string, number>;
+  now: Date;
+  /** What fired the run, as stored on it */
+  trigger?: unknown;
+  /** IANA zone hour(), minute() and weekday() read times in */
+  timezone: string;
+}
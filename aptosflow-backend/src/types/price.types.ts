@@ -0,0 +1,32 @@
+/**
+ * Price oracle types used by price triggers and oracle checks
+ */
+
+/** Oracle a workflow node can name in `oracleProvider` */
+export type OracleProvider = 'chainlink' | 'pyth' | 'switchboard';
+
+/** Comparison used by price triggers and oracle checks */
+export type PriceOperator = '>' | '<' | '>=' | '<=' | '==';
+
+export interface PriceQuote {
+  /** Upper-case token symbol, e.g. APT */
+  symbol: string;
+  /** USD price */
+  price: number;
+  /** USD half-width of the provider's confidence interval, when it reports one */
+  confidence?: number;
+  publishTime: Date;
+  /** Name of the provider that produced the quote */
+  source: string;
+}
+
+/**
+ * A source of USD token prices
+ */
+export interface PriceProvider {
+  readonly name: string;
+  /** Symbols this provider has a feed for */
+  symbols(): string[];
+  /** Latest price of a token; throws when the provider does not know it */
+  getPrice(symbol: string): Promise<PriceQuote>;
+}
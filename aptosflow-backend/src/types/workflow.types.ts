@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { DEFAULT_TIMEZONE, isValidTimezone } from '@/utils/timezone.js';
 
 // ============================================================================
 // Trigger Node Types
@@ -12,7 +13,11 @@ export const manualTriggerSchema = z.object({
 export const scheduleSchema = z.object({
   type: z.literal('schedule_trigger'),
   cron: z.string().describe('Cron expression for scheduling'),
-  timezone: z.string().optional().default('UTC'),
+  timezone: z
+    .string()
+    .refine(isValidTimezone, { message: 'Timezone must be an IANA name such as "America/New_York"' })
+    .optional()
+    .default(DEFAULT_TIMEZONE),
 });
 
 export const webhookSchema = z.object({
@@ -21,11 +26,19 @@ export const webhookSchema = z.object({
   event: z.string().describe('Event name to listen for'),
 });
 
+export const eventFiltersSchema = z.object({
+  minAmount: z.number().nonnegative().optional().describe('Minimum amount in whole tokens, e.g. 1.5 for 1.5 APT'),
+  fromAddress: z.string().optional().describe('Only events sent by this address'),
+  coinType: z.string().optional().describe('Coin type, fungible asset address or symbol, e.g. APT'),
+  collection: z.string().optional().describe('NFT collection name or address'),
+});
+
 export const eventSchema = z.object({
   type: z.literal('event_trigger'),
   eventType: z.enum(['token_transfer', 'nft_received', 'nft_transfer', 'balance_change']),
+  address: z.string().optional().describe('Account to watch'),
   contract: z.string().optional(),
-  filters: z.record(z.any()).optional(),
+  filters: eventFiltersSchema.optional(),
 });
 
 export const priceTriggerSchema = z.object({
@@ -34,6 +47,7 @@ export const priceTriggerSchema = z.object({
   operator: z.enum(['>', '<', '>=', '<=', '==']),
   threshold: z.number().positive(),
   oracleProvider: z.enum(['chainlink', 'pyth', 'switchboard']).optional().default('pyth'),
+  cooldownSeconds: z.number().int().nonnegative().optional().describe('Minimum seconds between fires'),
 });
 
 export const triggerSchema = z.discriminatedUnion('type', [
@@ -83,7 +97,7 @@ export const timeConditionSchema = z.object({
 
 export const customConditionSchema = z.object({
   type: z.literal('custom_condition'),
-  expression: z.string().describe('Custom condition expression'),
+  expression: z.string().describe('Expression over balance.<TOKEN>, price.<TOKEN>, now and trigger.<field>, e.g. "balance.APT > 10"'),
 });
 
 export const conditionSchema = z.discriminatedUnion('type', [
@@ -240,99 +254,188 @@ export const flowControlSchema = z.discriminatedUnion('type', [
 export type FlowControlNode = z.infer<typeof flowControlSchema>;
 
 // ============================================================================
-// Complete Workflow Schema
+// Workflow Graph Schema
 // ============================================================================
 
-export const workflowSchema = z.object({
-  trigger: z.object({
-    type: z.string(),
-    cron: z.string().optional(),
-    timezone: z.string().optional(),
-    url: z.string().optional(),
-    event: z.string().optional(),
-    eventType: z.string().optional(),
-    contract: z.string().optional(),
-    filters: z.record(z.any()).optional(),
-    token: z.string().optional(),
-    operator: z.string().optional(),
-    threshold: z.number().optional(),
-    oracleProvider: z.string().optional(),
-    description: z.string().optional(),
-  }),
-  condition: z.object({
+/** Typed schema of every node type, by type */
+export const NODE_SCHEMAS = Object.fromEntries(
+  [
+    ...triggerSchema.options,
+    ...conditionSchema.unwrap().options,
+    ...actionSchema.options,
+    ...flowControlSchema.options,
+  ].map((schema) => [schema.shape.type.value, schema as z.AnyZodObject])
+) as Record<string, z.AnyZodObject>;
+
+export const NODE_TYPES = Object.keys(NODE_SCHEMAS) as [string, ...string[]];
+
+export const TRIGGER_NODE_TYPES: string[] = triggerSchema.options.map((schema) => schema.shape.type.value);
+
+export const ACTION_NODE_TYPES: string[] = actionSchema.options.map((schema) => schema.shape.type.value);
+
+// Node parameters as the model fills them in: the fields of every node
+// type, all optional, so partial objects can be streamed
+const triggerParamsSchema = z.object({
+  cron: z.string().optional(),
+  timezone: z.string().optional(),
+  url: z.string().optional(),
+  event: z.string().optional(),
+  eventType: z.string().optional(),
+  address: z.string().optional(),
+  contract: z.string().optional(),
+  filters: z.record(z.any()).optional(),
+  token: z.string().optional(),
+  operator: z.string().optional(),
+  threshold: z.number().optional(),
+  oracleProvider: z.string().optional(),
+  cooldownSeconds: z.number().optional(),
+  description: z.string().optional(),
+});
+
+const conditionParamsSchema = z.object({
+  operator: z.string().optional(),
+  amount: z.number().optional(),
+  token: z.string().optional(),
+  value: z.number().optional(),
+  oracleProvider: z.string().optional(),
+  logic: z.string().optional(),
+  conditions: z.array(z.object({
     type: z.string(),
     operator: z.string().optional(),
     amount: z.number().optional(),
     token: z.string().optional(),
     value: z.number().optional(),
     oracleProvider: z.string().optional(),
-    logic: z.string().optional(),
-    conditions: z.array(z.object({
-      type: z.string(),
-      operator: z.string().optional(),
-      amount: z.number().optional(),
-      token: z.string().optional(),
-      value: z.number().optional(),
-      oracleProvider: z.string().optional(),
-    })).optional(),
-    time: z.string().optional(),
-    endTime: z.string().optional(),
-    expression: z.string().optional(),
-  }).optional(),
-  action: z.object({
-    type: z.string(),
-    recipient: z.string().optional(),
-    amount: z.number().optional(),
-    token: z.string().optional(),
-    poolAddress: z.string().optional(),
-    fromToken: z.string().optional(),
-    toToken: z.string().optional(),
-    slippage: z.number().optional(),
-    dex: z.string().optional(),
-    minOutput: z.number().optional(),
-    collection: z.string().optional(),
-    metadata: z.object({
-      name: z.string().optional(),
-      description: z.string().optional(),
-      uri: z.string().optional(),
-    }).optional(),
-    proposalId: z.string().optional(),
-    vote: z.string().optional(),
-    daoContract: z.string().optional(),
-    tokenA: z.string().optional(),
-    tokenB: z.string().optional(),
-    amountA: z.number().optional(),
-    amountB: z.number().optional(),
-    asset: z.string().optional(),
-    mode: z.string().optional(),
-    protocol: z.string().optional(),
-    lpToken: z.string().optional(),
-    farmContract: z.string().optional(),
-    farmAddress: z.string().optional(),
-    interval: z.number().optional(),
-    minReward: z.number().optional(),
-    message: z.string().optional(),
-    channel: z.string().optional(),
-    destination: z.string().optional(),
-  }),
-  flowControl: z.object({
-    type: z.string(),
-    duration: z.number().optional(),
-    iterations: z.number().optional(),
-    condition: z.any().optional(),
-    maxIterations: z.number().optional(),
-    truePath: z.string().optional(),
-    falsePath: z.string().optional(),
-    message: z.string().optional(),
-  }).optional(),
+  })).optional(),
+  time: z.string().optional(),
+  endTime: z.string().optional(),
+  expression: z.string().optional(),
+});
+
+const actionParamsSchema = z.object({
+  recipient: z.string().optional(),
+  amount: z.number().optional(),
+  token: z.string().optional(),
+  poolAddress: z.string().optional(),
+  fromToken: z.string().optional(),
+  toToken: z.string().optional(),
+  slippage: z.number().optional(),
+  dex: z.string().optional(),
+  minOutput: z.number().optional(),
+  collection: z.string().optional(),
   metadata: z.object({
     name: z.string().optional(),
     description: z.string().optional(),
-    tags: z.array(z.string()).optional(),
+    uri: z.string().optional(),
   }).optional(),
+  proposalId: z.string().optional(),
+  vote: z.string().optional(),
+  daoContract: z.string().optional(),
+  tokenA: z.string().optional(),
+  tokenB: z.string().optional(),
+  amountA: z.number().optional(),
+  amountB: z.number().optional(),
+  asset: z.string().optional(),
+  mode: z.string().optional(),
+  protocol: z.string().optional(),
+  lpToken: z.string().optional(),
+  farmContract: z.string().optional(),
+  farmAddress: z.string().optional(),
+  interval: z.number().optional(),
+  minReward: z.number().optional(),
+  message: z.string().optional(),
+  channel: z.string().optional(),
+  destination: z.string().optional(),
+});
+
+const flowControlParamsSchema = z.object({
+  duration: z.number().optional(),
+  iterations: z.number().optional(),
+  condition: z.any().optional(),
+  maxIterations: z.number().optional(),
+  truePath: z.string().optional(),
+  falsePath: z.string().optional(),
+  message: z.string().optional(),
+});
+
+export const workflowNodeSchema = z.object({
+  id: z.string().describe('Unique node id, e.g. "check_balance" or "swap_1"'),
+  type: z.enum(NODE_TYPES),
+  data: triggerParamsSchema
+    .merge(conditionParamsSchema)
+    .merge(actionParamsSchema)
+    .merge(flowControlParamsSchema)
+    .describe('Parameters of the node type'),
+  position: z.object({ x: z.number(), y: z.number() }).optional(),
+});
+
+export const workflowEdgeSchema = z.object({
+  id: z.string().optional(),
+  source: z.string().describe('Id of the node the edge leaves'),
+  target: z.string().describe('Id of the node the edge enters'),
+  label: z.enum(['true', 'false']).optional().describe('Required on the two edges leaving a branch_node'),
+});
+
+export const workflowMetadataSchema = z.object({
+  name: z.string().optional(),
+  description: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+});
+
+/**
+ * A workflow as a graph: one trigger node, then any number of conditions,
+ * actions and flow control nodes joined by edges. Node parameters live in
+ * `data`, which is what the canvas edits and the compiler reads, so
+ * generated graphs are stored and loaded like canvas saves.
+ */
+export const workflowSchema = z.object({
+  nodes: z.array(workflowNodeSchema),
+  edges: z.array(workflowEdgeSchema),
+  metadata: workflowMetadataSchema.optional(),
 });
 
 export type WorkflowGraph = z.infer<typeof workflowSchema>;
+export type WorkflowGraphNode = z.infer<typeof workflowNodeSchema>;
+export type WorkflowGraphEdge = z.infer<typeof workflowEdgeSchema>;
+
+// ============================================================================
+// Legacy Workflow Schema (one trigger, condition, action and flow control)
+// ============================================================================
+
+export const legacyWorkflowSchema = z.object({
+  trigger: triggerParamsSchema.extend({ type: z.string() }),
+  condition: conditionParamsSchema.extend({ type: z.string() }).optional(),
+  action: actionParamsSchema.extend({ type: z.string() }),
+  flowControl: flowControlParamsSchema.extend({ type: z.string() }).optional(),
+  metadata: workflowMetadataSchema.optional(),
+});
+
+export type LegacyWorkflow = z.infer<typeof legacyWorkflowSchema>;
+
+// ============================================================================
+// Canvas Graph (as saved by /api/workflows/save)
+// ============================================================================
+
+// Type aliases rather than interfaces, so graphs can be stored as Prisma JSON
+export type CanvasNode = {
+  id: string;
+  type: string;
+  data?: Record<string, any>;
+  position?: { x: number; y: number };
+};
+
+export type CanvasEdge = {
+  id?: string;
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  label?: string;
+};
+
+export interface CanvasGraph {
+  nodes: CanvasNode[];
+  edges: CanvasEdge[];
+}
 
 // ============================================================================
 // API Request/Response Types
@@ -0,0 +1,16 @@
+import { AppError } from '@/middleware/error.middleware.js';
+
+/**
+ * A custom condition expression that failed to parse, type-check or
+ * evaluate. `position` is the offset in the source the problem is at.
+ */
+export class ExpressionError extends AppError {
+  constructor(
+    message: string,
+    public expression: string,
+    public position: number
+  ) {
+    super(400, `${message} at column ${position + 1}`, { expression, position, column: position + 1 });
+    this.name = 'ExpressionError';
+  }
+}
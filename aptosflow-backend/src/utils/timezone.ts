@@ -0,0 +1,102 @@
+export const DEFAULT_TIMEZONE = 'UTC';
+
+/**
+ * Whether a string is an IANA time zone name the runtime can resolve
+ * (e.g. "America/New_York"). Offsets such as "+05:30" are rejected.
+ */
+export const isValidTimezone = (timezone: string): boolean => {
+  if (!timezone || !/^[A-Za-z][A-Za-z0-9_+-]*(\/[A-Za-z0-9_+-]+)*$/.test(timezone)) {
+    return false;
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Local date and time of an instant in a time zone
+ */
+export const wallClock = (date: Date, timezone: string): WallClock => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second'),
+  };
+};
+
+/**
+ * Instant at which a time zone's clocks show the given local time. A local
+ * time that a DST change skips or repeats resolves to a nearby instant.
+ */
+export const fromWallClock = (local: WallClock, timezone: string): Date => {
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+
+  // The zone's offset at the guessed instant, applied twice to settle across DST changes
+  let guess = asUtc;
+  for (let i = 0; i < 2; i++) {
+    const shown = wallClock(new Date(guess), timezone);
+    const offset =
+      Date.UTC(shown.year, shown.month - 1, shown.day, shown.hour, shown.minute, shown.second) - guess;
+    guess = asUtc - offset;
+  }
+  return new Date(guess);
+};
+
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+const HAS_OFFSET = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+/**
+ * Parse an ISO 8601 date or date and time. Without an offset it is read
+ * as local time in the given zone.
+ */
+export const parseZonedTime = (value: string, timezone: string): Date => {
+  const local = value.match(LOCAL_DATE_TIME);
+  if (local) {
+    const [, year, month, day, hour = '0', minute = '0', second = '0'] = local;
+    return fromWallClock(
+      {
+        year: Number(year),
+        month: Number(month),
+        day: Number(day),
+        hour: Number(hour),
+        minute: Number(minute),
+        second: Number(second),
+      },
+      timezone
+    );
+  }
+
+  const instant = HAS_OFFSET.test(value) ? new Date(value) : null;
+  if (!instant || Number.isNaN(instant.getTime())) {
+    throw new Error(`'${value}' is not an ISO 8601 date and time`);
+  }
+  return instant;
+};
@@ -0,0 +1,328 @@
+import { AppError } from '@/middleware/error.middleware.js';
+import {
+  NODE_TYPE,
+  UNIMPLEMENTED_NODE_TYPES,
+  WORKFLOW_ERROR,
+  type CompiledWorkflow,
+  type WorkflowStepEvent,
+} from '@/types/contract.types.js';
+
+/**
+ * A failed or aborted workflow execution, decoded from the VM status
+ */
+export class WorkflowExecutionError extends AppError {
+  constructor(
+    public code: string,
+    message: string,
+    public hint: string,
+    public nodeId?: string,
+    public vmStatus?: string
+  ) {
+    super(422, message, { code, nodeId, hint, vmStatus });
+    this.name = 'WorkflowExecutionError';
+  }
+}
+
+interface CatalogEntry {
+  code: string;
+  message: string;
+  hint: string;
+}
+
+const WORKFLOW_ABORTS: Record<number, CatalogEntry> = {
+  [WORKFLOW_ERROR.E_WORKFLOW_NOT_FOUND]: {
+    code: 'E_WORKFLOW_NOT_FOUND',
+    message: 'The workflow is not registered in the executor account',
+    hint: 'Execute the workflow again so it is re-registered from the saved graph.',
+  },
+  [WORKFLOW_ERROR.E_NOT_OWNER]: {
+    code: 'E_NOT_OWNER',
+    message: 'The executing account does not own this workflow',
+    hint: 'Check that APTOS_PRIVATE_KEY matches the account that registered the workflow.',
+  },
+  [WORKFLOW_ERROR.E_WORKFLOW_LOCKED]: {
+    code: 'E_WORKFLOW_LOCKED',
+    message: 'The workflow is already executing',
+    hint: 'Wait for the current run to finish before triggering it again.',
+  },
+  [WORKFLOW_ERROR.E_INVALID_NODE_ID]: {
+    code: 'E_INVALID_NODE_ID',
+    message: 'A node points to a next node that does not exist',
+    hint: 'Remove dangling edges from the canvas and save again.',
+  },
+  [WORKFLOW_ERROR.E_INVALID_START_NODE]: {
+    code: 'E_INVALID_START_NODE',
+    message: 'The workflow has no valid start node',
+    hint: 'Connect the trigger to the first step of the workflow.',
+  },
+  [WORKFLOW_ERROR.E_TOO_MANY_NODES]: {
+    code: 'E_TOO_MANY_NODES',
+    message: 'The workflow has more nodes than the contract allows',
+    hint: 'Split the workflow into smaller workflows.',
+  },
+  [WORKFLOW_ERROR.E_RECURSION_LIMIT]: {
+    code: 'E_RECURSION_LIMIT',
+    message: 'The workflow path is longer than the contract recursion limit',
+    hint: 'Shorten the longest chain of nodes or remove cycles.',
+  },
+  [WORKFLOW_ERROR.E_UNKNOWN_NODE_TYPE]: {
+    code: 'E_UNKNOWN_NODE_TYPE',
+    message: 'The contract does not recognise a node type',
+    hint: 'Replace the node with one supported on-chain.',
+  },
+  [WORKFLOW_ERROR.E_INVALID_PARAMS]: {
+    code: 'E_INVALID_PARAMS',
+    message: 'A node has invalid parameters',
+    hint: 'Check the amounts and addresses configured on the node.',
+  },
+  [WORKFLOW_ERROR.E_DUPLICATE_NODE_ID]: {
+    code: 'E_DUPLICATE_NODE_ID',
+    message: 'Two nodes share the same id',
+    hint: 'Remove the duplicated node and save again.',
+  },
+  [WORKFLOW_ERROR.E_NOT_IMPLEMENTED]: {
+    code: 'E_NOT_IMPLEMENTED',
+    message: 'This action is not implemented by the on-chain executor yet',
+    hint: 'Only transfers, balance checks, branches, waits and end nodes run on-chain today.',
+  },
+};
+
+// Keyed by `<module>::<reason>`; framework codes carry an error category in
+// the high bits, so only the low 16 bits identify the reason
+const FRAMEWORK_ABORTS: Record<string, CatalogEntry> = {
+  'coin::6': {
+    code: 'INSUFFICIENT_BALANCE',
+    message: 'The executor account does not have enough APT for this transfer',
+    hint: 'Fund the executor account or lower the transfer amount.',
+  },
+  'coin::5': {
+    code: 'ACCOUNT_NOT_REGISTERED',
+    message: 'The recipient is not registered for this coin',
+    hint: 'Ask the recipient to register the coin store, or send to an initialised account.',
+  },
+  'fungible_asset::4': {
+    code: 'INSUFFICIENT_BALANCE',
+    message: 'The executor account does not have enough balance for this transfer',
+    hint: 'Fund the executor account or lower the transfer amount.',
+  },
+  'account::2': {
+    code: 'ACCOUNT_NOT_REGISTERED',
+    message: 'The recipient account does not exist on-chain',
+    hint: 'Check the recipient address, or create the account before sending to it.',
+  },
+};
+
+const VM_STATUSES: Array<{ pattern: RegExp; entry: CatalogEntry }> = [
+  {
+    pattern: /INSUFFICIENT_BALANCE_FOR_TRANSACTION_FEE/i,
+    entry: {
+      code: 'INSUFFICIENT_GAS_BALANCE',
+      message: 'The executor account cannot pay the transaction fee',
+      hint: 'Fund the executor account with APT for gas.',
+    },
+  },
+  {
+    pattern: /out of gas/i,
+    entry: {
+      code: 'OUT_OF_GAS',
+      message: 'The transaction ran out of gas',
+      hint: 'Reduce the number of nodes or raise the max gas amount.',
+    },
+  },
+  {
+    pattern: /SEQUENCE_NUMBER_TOO_(OLD|NEW)/i,
+    entry: {
+      code: 'SEQUENCE_NUMBER_MISMATCH',
+      message: 'The executor account sequence number was out of date',
+      hint: 'Another transaction from the executor raced this one; retry the run.',
+    },
+  },
+];
+
+const CONDITION_NOT_MET: CatalogEntry = {
+  code: 'CONDITION_NOT_MET',
+  message: 'A condition node evaluated to false and stopped the workflow',
+  hint: 'Check the threshold configured on the node or fund the executor account.',
+};
+
+const CONDITION_ERROR: CatalogEntry = {
+  code: 'CONDITION_ERROR',
+  message: 'An off-chain condition could not be evaluated',
+  hint: 'Check the token, oracle and expression configured on the condition node.',
+};
+
+const CATALOG: CatalogEntry[] = [
+  CONDITION_NOT_MET,
+  CONDITION_ERROR,
+  ...Object.values(WORKFLOW_ABORTS),
+  ...Object.values(FRAMEWORK_ABORTS),
+  ...VM_STATUSES.map(({ entry }) => entry),
+];
+
+/**
+ * Remediation hint for a stored error code
+ */
+export const workflowErrorHint = (code: string): string | null =>
+  CATALOG.find((entry) => entry.code === code)?.hint ?? null;
+
+/**
+ * An off-chain condition that failed to evaluate, as opposed to one that
+ * evaluated to false
+ */
+export const conditionError = (reason: string, nodeId?: string): WorkflowExecutionError =>
+  new WorkflowExecutionError(
+    CONDITION_ERROR.code,
+    `${CONDITION_ERROR.message}: ${reason}`,
+    CONDITION_ERROR.hint,
+    nodeId
+  );
+
+const MOVE_ABORT = /Move abort in (0x[0-9a-fA-F]+)::(\w+):\s*(?:(\w+)\()?(0x[0-9a-fA-F]+|\d+)\)?/;
+
+/**
+ * Decode a VM status into a WorkflowExecutionError. Returns null for
+ * successful statuses. The compiled workflow, when given, is used to point
+ * at the node that most likely caused the abort.
+ */
+export const parseVmStatus = (
+  vmStatus: string,
+  compiled?: CompiledWorkflow
+): WorkflowExecutionError | null => {
+  if (/Executed successfully/i.test(vmStatus)) {
+    return null;
+  }
+
+  const abort = vmStatus.match(MOVE_ABORT);
+  if (abort) {
+    const [, , module, , rawCode] = abort;
+    const code = Number(BigInt(rawCode));
+
+    const entry = module === 'workflow_graph'
+      ? WORKFLOW_ABORTS[code]
+      : FRAMEWORK_ABORTS[`${module}::${code & 0xffff}`];
+
+    if (entry) {
+      return new WorkflowExecutionError(
+        entry.code,
+        entry.message,
+        entry.hint,
+        compiled && locateAbortNode(entry.code, compiled),
+        vmStatus
+      );
+    }
+
+    return new WorkflowExecutionError(
+      'MOVE_ABORT',
+      `Transaction aborted in ${module} with code ${rawCode}`,
+      'Inspect the transaction in the Aptos explorer for details.',
+      undefined,
+      vmStatus
+    );
+  }
+
+  const known = VM_STATUSES.find(({ pattern }) => pattern.test(vmStatus));
+  if (known) {
+    return new WorkflowExecutionError(
+      known.entry.code,
+      known.entry.message,
+      known.entry.hint,
+      undefined,
+      vmStatus
+    );
+  }
+
+  return new WorkflowExecutionError(
+    'EXECUTION_FAILED',
+    vmStatus,
+    'Inspect the transaction in the Aptos explorer for details.',
+    undefined,
+    vmStatus
+  );
+};
+
+/**
+ * A committed transaction whose step reported failure. Handlers return
+ * error code 0 when a condition simply did not hold.
+ */
+export const parseStepFailure = (
+  step: WorkflowStepEvent,
+  canvasNodeId?: string
+): WorkflowExecutionError => {
+  const entry = WORKFLOW_ABORTS[Number(step.errorCode)];
+
+  if (entry) {
+    return new WorkflowExecutionError(entry.code, entry.message, entry.hint, canvasNodeId);
+  }
+
+  return new WorkflowExecutionError(
+    CONDITION_NOT_MET.code,
+    CONDITION_NOT_MET.message,
+    CONDITION_NOT_MET.hint,
+    canvasNodeId
+  );
+};
+
+/**
+ * Normalise anything thrown while executing a workflow. AppErrors pass
+ * through; API errors that carry a VM status are decoded.
+ */
+export const toWorkflowError = (error: unknown, compiled?: CompiledWorkflow): AppError => {
+  if (error instanceof AppError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const decoded = parseVmStatus(message, compiled);
+
+  if (decoded && decoded.code !== 'EXECUTION_FAILED') {
+    return decoded;
+  }
+
+  return new AppError(502, 'Failed to submit workflow transaction', { message });
+};
+
+/**
+ * Aborts discard the step events, so replay the contract's walk order
+ * (depth-first, branches take their true path) to find the first node that
+ * could have raised the abort
+ */
+const locateAbortNode = (code: string, compiled: CompiledWorkflow): string | undefined => {
+  const candidates = (nodeType: number) => {
+    if (code === 'E_NOT_IMPLEMENTED') return UNIMPLEMENTED_NODE_TYPES.includes(nodeType);
+    if (code === 'INSUFFICIENT_BALANCE' || code === 'ACCOUNT_NOT_REGISTERED') {
+      return nodeType === NODE_TYPE.TRANSFER;
+    }
+    return false;
+  };
+
+  const index = new Map<number, number>();
+  compiled.nodeIds.forEach((id, i) => index.set(id, i));
+
+  const offsets: number[] = [];
+  compiled.nextNodeCounts.reduce((offset, count) => {
+    offsets.push(offset);
+    return offset + count;
+  }, 0);
+
+  const canvasIds = new Map(
+    Object.entries(compiled.nodeIdMap).map(([canvasId, onChainId]) => [onChainId, canvasId])
+  );
+
+  const walk = (id: number, depth: number): number | undefined => {
+    const i = index.get(id);
+    if (i === undefined || depth > compiled.nodeIds.length) return undefined;
+    if (candidates(compiled.nodeTypes[i])) return id;
+
+    const next = compiled.flatNextNodeIds.slice(offsets[i], offsets[i] + compiled.nextNodeCounts[i]);
+    const path = compiled.nodeTypes[i] === NODE_TYPE.BRANCH ? next.slice(0, 1) : next;
+
+    for (const nextId of path) {
+      const found = walk(nextId, depth + 1);
+      if (found !== undefined) return found;
+    }
+    return undefined;
+  };
+
+  const nodeId = compiled.nodeIds.length > 0 ? walk(compiled.nodeIds[0], 0) : undefined;
+  return nodeId === undefined ? undefined : canvasIds.get(nodeId);
+};
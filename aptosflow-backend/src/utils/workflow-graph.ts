@@ -0,0 +1,66 @@
+import type {
+  CanvasGraph,
+  LegacyWorkflow,
+  WorkflowGraph,
+  WorkflowGraphEdge,
+  WorkflowGraphNode,
+} from '@/types/workflow.types.js';
+
+// Ids given to the nodes of a converted legacy workflow, in chain order
+const LEGACY_NODE_IDS = {
+  trigger: 'trigger',
+  condition: 'condition',
+  action: 'action',
+  flowControl: 'flow_control',
+} as const;
+
+export function isLegacyWorkflow(workflowData: unknown): workflowData is LegacyWorkflow {
+  const data = workflowData as Record<string, any> | null;
+  return !!data && typeof data === 'object' && !Array.isArray(data.nodes) && typeof data.trigger?.type === 'string';
+}
+
+/**
+ * Convert a single trigger/condition/action/flowControl workflow into a
+ * graph chaining them in that order. Legacy branch nodes keep their
+ * condition but get no outgoing edges, since the shape had nowhere for the
+ * branches to go.
+ */
+export function fromLegacyWorkflow(legacy: LegacyWorkflow): WorkflowGraph {
+  const nodes: WorkflowGraphNode[] = [];
+  const edges: WorkflowGraphEdge[] = [];
+
+  for (const key of ['trigger', 'condition', 'action', 'flowControl'] as const) {
+    const step = legacy[key];
+    if (!step) {
+      continue;
+    }
+
+    const { type, ...data } = step;
+    const id = LEGACY_NODE_IDS[key];
+    const previous = nodes[nodes.length - 1];
+
+    nodes.push({ id, type, data });
+    if (previous) {
+      edges.push({ id: `${previous.id}-${id}`, source: previous.id, target: id });
+    }
+  }
+
+  return { nodes, edges, ...(legacy.metadata && { metadata: legacy.metadata }) };
+}
+
+/**
+ * Read stored workflowData as a canvas graph, whichever shape it was
+ * saved in: graphs (generated or saved from the canvas) are returned as
+ * they are and legacy single-action workflows are converted.
+ */
+export function toCanvasGraph(workflowData: unknown): CanvasGraph {
+  if (isLegacyWorkflow(workflowData)) {
+    return fromLegacyWorkflow(workflowData);
+  }
+
+  const data = (workflowData ?? {}) as Partial<CanvasGraph>;
+  return {
+    nodes: Array.isArray(data.nodes) ? data.nodes : [],
+    edges: Array.isArray(data.edges) ? data.edges : [],
+  };
+}
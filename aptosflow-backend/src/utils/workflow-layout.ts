@@ -0,0 +1,77 @@
+export interface LayoutPosition {
+  x: number;
+  y: number;
+}
+
+// Spacing between layers (top to bottom) and between nodes in a layer
+const LAYER_HEIGHT = 150;
+const NODE_WIDTH = 300;
+const ORIGIN: LayoutPosition = { x: 250, y: 50 };
+
+/**
+ * Place nodes in layers top to bottom: each node one layer below the
+ * deepest node with an edge into it, ignoring edges that close a loop.
+ * Nodes in a layer are spread out in the order they are listed. Nodes
+ * with a position in `fixed` keep it.
+ */
+export function layoutWorkflow(
+  nodeIds: string[],
+  edges: Array<{ source: string; target: string }>,
+  fixed: Map<string, LayoutPosition> = new Map()
+): Map<string, LayoutPosition> {
+  const known = new Set(nodeIds);
+  const outgoing = new Map<string, string[]>(nodeIds.map((id) => [id, []]));
+  for (const { source, target } of edges) {
+    if (known.has(source) && known.has(target)) {
+      outgoing.get(source)!.push(target);
+    }
+  }
+
+  // Depth-first from each unvisited node; an edge back to a node still on
+  // the stack closes a loop and is left out
+  const forward = new Map<string, string[]>(nodeIds.map((id) => [id, []]));
+  const state = new Map<string, 'active' | 'done'>();
+  const postOrder: string[] = [];
+  const visit = (id: string) => {
+    state.set(id, 'active');
+    for (const target of outgoing.get(id)!) {
+      if (state.get(target) === 'active') {
+        continue;
+      }
+      forward.get(id)!.push(target);
+      if (!state.has(target)) {
+        visit(target);
+      }
+    }
+    state.set(id, 'done');
+    postOrder.push(id);
+  };
+  for (const id of nodeIds) {
+    if (!state.has(id)) {
+      visit(id);
+    }
+  }
+
+  const layer = new Map<string, number>(nodeIds.map((id) => [id, 0]));
+  for (const id of postOrder.reverse()) {
+    for (const target of forward.get(id)!) {
+      layer.set(target, Math.max(layer.get(target)!, layer.get(id)! + 1));
+    }
+  }
+
+  const layers = new Map<number, string[]>();
+  for (const id of nodeIds) {
+    layers.set(layer.get(id)!, [...(layers.get(layer.get(id)!) ?? []), id]);
+  }
+
+  const positions = new Map<string, LayoutPosition>();
+  for (const [depth, ids] of layers) {
+    ids.forEach((id, i) => {
+      positions.set(id, fixed.get(id) ?? {
+        x: ORIGIN.x + (i - (ids.length - 1) / 2) * NODE_WIDTH,
+        y: ORIGIN.y + depth * LAYER_HEIGHT,
+      });
+    });
+  }
+  return positions;
+}
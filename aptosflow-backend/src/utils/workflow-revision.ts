@@ -0,0 +1,31 @@
+import { AppError } from '@/middleware/error.middleware.js';
+
+/**
+ * Strong ETag of a workflow's graph at a revision (its version number)
+ */
+export const revisionETag = (workflowId: string, revision: number): string => `"${workflowId}:${revision}"`;
+
+/**
+ * Revision a save is based on, from an If-Match header holding the ETag of
+ * the loaded workflow, or else a `revision` field in the body. Undefined
+ * when neither is given; a 400 AppError when one does not parse or names
+ * another workflow.
+ */
+export const expectedRevision = (workflowId: string, ifMatch: string | undefined, revision: unknown) => {
+  if (ifMatch) {
+    const match = /^(?:W\/)?"([^"]+):(\d+)"$/.exec(ifMatch.trim());
+    if (!match || match[1] !== workflowId) {
+      throw new AppError(400, `If-Match must be the ETag of workflow ${workflowId}, e.g. ${revisionETag(workflowId, 1)}`);
+    }
+    return Number(match[2]);
+  }
+
+  if (revision === undefined || revision === null) {
+    return undefined;
+  }
+  const parsed = Number(revision);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new AppError(400, 'revision must be the version number the workflow was loaded at');
+  }
+  return parsed;
+};